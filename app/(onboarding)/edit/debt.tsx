@@ -15,11 +15,13 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { palette, radius, space } from '../../../src/ui/theme';
 import { AppCard, AppText, AppButton } from '../../../src/ui/primitives';
 import { useProfile } from '../../../src/context/profileContext';
+import { useLocale } from '../../../src/context/localeContext';
 
 export default function EditDebtScreen() {
 	const router = useRouter();
 	const insets = useSafeAreaInsets();
 	const { profile, updateProfile } = useProfile();
+	const { parseAmount } = useLocale();
 
 	const initialDebt =
 		profile?.debt != null && profile.debt !== 0 ? profile.debt.toString() : '';
@@ -34,7 +36,7 @@ export default function EditDebtScreen() {
 	}, [profile]);
 
 	const handleSave = async () => {
-		const debtNum = parseFloat(debt) || 0;
+		const debtNum = parseAmount(debt) ?? 0;
 		if (debtNum < 0) return;
 
 		setLoading(true);
@@ -106,6 +108,13 @@ export default function EditDebtScreen() {
 							loading={loading}
 							fullWidth
 						/>
+						<AppButton
+							label="Plan the payoff debt by debt"
+							variant="ghost"
+							onPress={() => router.push('/(tabs)/dashboard/debts')}
+							disabled={loading}
+							fullWidth
+						/>
 					</View>
 				</ScrollView>
 			</KeyboardAvoidingView>
@@ -162,5 +171,5 @@ const styles = StyleSheet.create({
 		fontSize: 16,
 		color: palette.text,
 	},
-	footer: { marginTop: space.xl },
+	footer: { marginTop: space.xl, gap: space.sm },
 });
@@ -15,6 +15,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { palette, radius, space } from '../../../src/ui/theme';
 import { AppCard, AppText, AppButton } from '../../../src/ui/primitives';
 import { useProfile } from '../../../src/context/profileContext';
+import { useLocale } from '../../../src/context/localeContext';
 
 const defaultExpenses = {
 	housing: 0,
@@ -26,6 +27,7 @@ export default function EditExpensesScreen() {
 	const router = useRouter();
 	const insets = useSafeAreaInsets();
 	const { profile, updateProfile } = useProfile();
+	const { parseAmount } = useLocale();
 
 	const expenses = profile?.expenses ?? defaultExpenses;
 
@@ -49,9 +51,9 @@ export default function EditExpensesScreen() {
 	}, [profile]);
 
 	const handleSave = async () => {
-		const housingNum = parseFloat(housing) || 0;
-		const loansNum = parseFloat(loans) || 0;
-		const subsNum = parseFloat(subscriptions) || 0;
+		const housingNum = parseAmount(housing) ?? 0;
+		const loansNum = parseAmount(loans) ?? 0;
+		const subsNum = parseAmount(subscriptions) ?? 0;
 		if (housingNum < 0 || loansNum < 0 || subsNum < 0) return;
 
 		setLoading(true);
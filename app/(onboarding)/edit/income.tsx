@@ -15,13 +15,8 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { palette, radius, space } from '../../../src/ui/theme';
 import { AppCard, AppText, AppButton } from '../../../src/ui/primitives';
 import { useProfile } from '../../../src/context/profileContext';
-
-const currency = (amount: number) =>
-	new Intl.NumberFormat('en-US', {
-		style: 'currency',
-		currency: 'USD',
-		maximumFractionDigits: 0,
-	}).format(amount);
+import { useLocale } from '../../../src/context/localeContext';
+import { useCurrency } from '../../../src/context/currencyContext';
 
 type Cadence = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly';
 
@@ -31,6 +26,9 @@ export default function EditIncomeScreen() {
 	const router = useRouter();
 	const insets = useSafeAreaInsets();
 	const { profile, updateProfile } = useProfile();
+	const { parseAmount } = useLocale();
+	const { format } = useCurrency();
+	const currency = (amount: number) => format(amount, undefined, { decimals: 0 });
 
 	const [inputMode, setInputMode] = useState<InputMode>(() => {
 		const hasPay = profile?.pay?.cadence && (profile?.pay?.netPerPaycheck ?? 0) > 0;
@@ -55,7 +53,7 @@ export default function EditIncomeScreen() {
 	}, [profile]);
 
 	const derivedMonthlyIncome = useMemo(() => {
-		const npp = parseFloat(netPerPaycheck || '0');
+		const npp = parseAmount(netPerPaycheck) ?? 0;
 		if (!npp || !payCadence) return 0;
 		switch (payCadence) {
 			case 'weekly':
@@ -69,12 +67,12 @@ export default function EditIncomeScreen() {
 			default:
 				return 0;
 		}
-	}, [payCadence, netPerPaycheck]);
+	}, [payCadence, netPerPaycheck, parseAmount]);
 
 	const handleSave = async () => {
 		const income =
 			inputMode === 'monthly'
-				? parseFloat(monthlyIncome) || 0
+				? parseAmount(monthlyIncome) ?? 0
 				: derivedMonthlyIncome;
 		if (income <= 0) return;
 
@@ -86,7 +84,7 @@ export default function EditIncomeScreen() {
 					inputMode === 'perPaycheck'
 						? {
 								cadence: (payCadence as any) || null,
-								netPerPaycheck: parseFloat(netPerPaycheck) || 0,
+								netPerPaycheck: parseAmount(netPerPaycheck) ?? 0,
 								derivedMonthlyIncome,
 								varies: false,
 							}
@@ -103,7 +101,7 @@ export default function EditIncomeScreen() {
 
 	const canSave =
 		inputMode === 'monthly'
-			? (parseFloat(monthlyIncome) || 0) > 0
+			? (parseAmount(monthlyIncome) ?? 0) > 0
 			: derivedMonthlyIncome > 0;
 
 	return (
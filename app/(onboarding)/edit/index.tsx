@@ -11,24 +11,20 @@ import Animated, {
 	useAnimatedStyle,
 } from 'react-native-reanimated';
 import { useProfile } from '../../../src/context/profileContext';
+import { useCurrency } from '../../../src/context/currencyContext';
 import { useOnboarding } from '../../../src/context/OnboardingContext';
 
-const currency = (amount: number) =>
-	new Intl.NumberFormat('en-US', {
-		style: 'currency',
-		currency: 'USD',
-		maximumFractionDigits: 0,
-	}).format(amount);
-
 type SectionKey = 'profile' | 'income' | 'expenses' | 'savings' | 'debt';
 
 export default function OnboardingEditIndex() {
 	const router = useRouter();
 	const insets = useSafeAreaInsets();
 	const { profile } = useProfile();
+	const { format } = useCurrency();
 	const { setIsEditingOnboarding } = useOnboarding();
 
 	const sections = useMemo(() => {
+		const currency = (amount: number) => format(amount, undefined, { decimals: 0 });
 		const monthlyIncome = profile?.monthlyIncome ?? 0;
 		const savings = profile?.savings ?? 0;
 		const debt = profile?.debt ?? 0;
@@ -81,7 +77,7 @@ export default function OnboardingEditIndex() {
 				route: '/(onboarding)/edit/debt' as const,
 			},
 		];
-	}, [profile]);
+	}, [profile, format]);
 
 	const opacity = useSharedValue(0);
 	const translateY = useSharedValue(8);
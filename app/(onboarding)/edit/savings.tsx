@@ -15,6 +15,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { palette, radius, space } from '../../../src/ui/theme';
 import { AppCard, AppText, AppButton } from '../../../src/ui/primitives';
 import { useProfile } from '../../../src/context/profileContext';
+import { useLocale } from '../../../src/context/localeContext';
 
 const toDisplayValue = (n: number | undefined) =>
 	n == null || n === 0 ? '' : String(n);
@@ -23,6 +24,7 @@ export default function EditSavingsScreen() {
 	const router = useRouter();
 	const insets = useSafeAreaInsets();
 	const { profile, updateProfile } = useProfile();
+	const { parseAmount } = useLocale();
 
 	const [savings, setSavings] = useState(() => toDisplayValue(profile?.savings));
 	const [loading, setLoading] = useState(false);
@@ -33,7 +35,7 @@ export default function EditSavingsScreen() {
 	}, [profile]);
 
 	const handleSave = async () => {
-		const savingsNum = parseFloat(savings) || 0;
+		const savingsNum = parseAmount(savings) ?? 0;
 		if (savingsNum < 0) return;
 
 		setLoading(true);
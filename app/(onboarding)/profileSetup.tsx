@@ -26,6 +26,12 @@ import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { useProfile } from '../../src/context/profileContext';
+import { useLocale } from '../../src/context/localeContext';
+import {
+	parseAmount,
+	sanitizeAmountInput,
+	type LocaleSettings,
+} from '../../src/lib/locale';
 import { palette, radius, space } from '../../src/ui/theme';
 
 type FieldErrors = {
@@ -35,16 +41,14 @@ type FieldErrors = {
 };
 
 // Currency validation utility functions
-const validateCurrencyInput = (value: string): boolean => {
+const validateCurrencyInput = (value: string, settings: LocaleSettings): boolean => {
 	// Allow empty string
 	if (!value) return true;
 
-	// Disallow dangling dots or minus signs
-	if (value === '.' || value === '-' || value === '-.') return false;
-
-	// Check if it's a valid number
-	const numValue = parseFloat(value);
-	if (isNaN(numValue)) return false;
+	// Check if it's a valid number; a trailing separator is fine while typing
+	const separator = settings.decimalSeparator;
+	const numValue = parseAmount(value.endsWith(separator) ? value.slice(0, -1) : value, settings);
+	if (numValue == null) return false;
 
 	// Check if it's non-negative
 	if (numValue < 0) return false;
@@ -53,44 +57,21 @@ const validateCurrencyInput = (value: string): boolean => {
 	if (numValue > 1000000000) return false;
 
 	// Check decimal places (max 2)
-	if (value.includes('.')) {
-		const decimalPlaces = value.split('.')[1].length;
+	if (value.includes(settings.decimalSeparator)) {
+		const decimalPlaces = value.split(settings.decimalSeparator)[1].length;
 		if (decimalPlaces > 2) return false;
 	}
 
 	return true;
 };
 
-const formatCurrencyInput = (value: string): string => {
-	// Normalize commas; keep digits and one dot
-	const cleaned = value.replace(/,/g, '').replace(/[^\d.]/g, '');
-
-	// Ensure only one decimal point
-	const parts = cleaned.split('.');
-	if (parts.length > 2) {
-		return parts[0] + '.' + parts.slice(1).join('');
-	}
-
-	// Limit decimal places to 2
-	if (parts.length === 2 && parts[1].length > 2) {
-		return parts[0] + '.' + parts[1].slice(0, 2);
-	}
-
-	// Trim leading zeros like "00012" -> "12" but preserve "0.X"
-	if (!cleaned.includes('.') && /^0+\d+$/.test(cleaned)) {
-		return String(parseInt(cleaned, 10));
-	}
-
-	// Limit total length to prevent overflow
-	if (cleaned.length > 12) {
-		return cleaned.slice(0, 12);
-	}
-
-	return cleaned;
-};
+// Digits and one decimal separator in the user's format, max 2 decimals and 12 characters
+const formatCurrencyInput = (value: string, settings: LocaleSettings): string =>
+	sanitizeAmountInput(value, settings).slice(0, 12);
 
 const OnboardingScreen = () => {
 	const insets = useSafeAreaInsets();
+	const { settings: localeSettings } = useLocale();
 
 	// Basic Info (MVP: name + monthly income)
 	const [firstName, setFirstName] = useState('');
@@ -173,10 +154,10 @@ const OnboardingScreen = () => {
 
 	// Validation logic (matches backend requirements)
 	const isValidName = (val: string) => val.trim().length >= 2; // Backend requires min 2 chars
-	const isValidCurrency = (val: string) => {
-		if (!val) return true;
-		return validateCurrencyInput(val);
-	};
+	const isValidCurrency = useCallback(
+		(val: string) => !val || validateCurrencyInput(val, localeSettings),
+		[localeSettings]
+	);
 
 	const errors: FieldErrors = {};
 	if (touched.firstName && !isValidName(firstName)) {
@@ -201,7 +182,7 @@ const OnboardingScreen = () => {
 		}
 		if (currentIndex === 2) return true; // all fields optional
 		return false;
-	}, [currentIndex, firstName, lastName, monthlyIncome]);
+	}, [currentIndex, firstName, lastName, monthlyIncome, isValidCurrency]);
 
 	// MVP: Only name + monthly income required
 	const isFieldRequired = useCallback((fieldName: string) => {
@@ -219,18 +200,18 @@ const OnboardingScreen = () => {
 				return true;
 			return false;
 		},
-		[currentIndex, touched, firstName, lastName, monthlyIncome]
+		[currentIndex, touched, firstName, lastName, monthlyIncome, isValidCurrency]
 	);
 
 	// Currency input handlers
 	const handleCurrencyInput = useCallback(
 		(value: string, setter: (value: string) => void) => {
-			const formatted = formatCurrencyInput(value);
-			if (validateCurrencyInput(formatted)) {
+			const formatted = formatCurrencyInput(value, localeSettings);
+			if (validateCurrencyInput(formatted, localeSettings)) {
 				setter(formatted);
 			}
 		},
-		[]
+		[localeSettings]
 	);
 
 	const onBlurField = useCallback((field: keyof typeof touched) => {
@@ -304,12 +285,12 @@ const OnboardingScreen = () => {
 				throw new Error('Last name must be at least 2 characters long');
 			}
 
-			const monthlyIncomeNumber = parseFloat(monthlyIncome || '0') || 0;
-			const housingNum = parseFloat(housingExpense || '0') || 0;
-			const loansNum = parseFloat(loansExpense || '0') || 0;
-			const subsNum = parseFloat(subscriptionsExpense || '0') || 0;
-			const savingsNum = parseFloat(savings || '0') || 0;
-			const debtNum = parseFloat(debt || '0') || 0;
+			const monthlyIncomeNumber = parseAmount(monthlyIncome, localeSettings) ?? 0;
+			const housingNum = parseAmount(housingExpense, localeSettings) ?? 0;
+			const loansNum = parseAmount(loansExpense, localeSettings) ?? 0;
+			const subsNum = parseAmount(subscriptionsExpense, localeSettings) ?? 0;
+			const savingsNum = parseAmount(savings, localeSettings) ?? 0;
+			const debtNum = parseAmount(debt, localeSettings) ?? 0;
 
 			logger.debug('📤 [ProfileSetup] Preparing profile data (MVP)', {
 				firstName: trimmedFirstName,
@@ -410,6 +391,7 @@ const OnboardingScreen = () => {
 		subscriptionsExpense,
 		savings,
 		debt,
+		localeSettings,
 		updateProfile,
 	]);
 
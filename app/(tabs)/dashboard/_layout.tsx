@@ -6,7 +6,11 @@ export default function DashboardLayout() {
 		<Stack>
 			<Stack.Screen name="index" options={{ headerShown: false }} />
 			<Stack.Screen name="week" options={{ headerShown: false }} />
+			<Stack.Screen name="reports" options={{ headerShown: false }} />
 			<Stack.Screen name="ledger" options={{ headerShown: false }} />
+			<Stack.Screen name="budgets" options={{ headerShown: false }} />
+			<Stack.Screen name="goals" options={{ headerShown: false }} />
+			<Stack.Screen name="debts" options={{ headerShown: false }} />
 		</Stack>
 	);
 }
@@ -0,0 +1,259 @@
+import React, { useMemo } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useLocalSearchParams, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { BorderlessButton } from 'react-native-gesture-handler';
+import { useBudget } from '../../../../src/context/budgetContext';
+import { useCurrency } from '../../../../src/context/currencyContext';
+import { useLocale } from '../../../../src/context/localeContext';
+import type { BudgetPeriod, LocalBudget } from '../../../../src/lib/budgets';
+import { palette, space } from '../../../../src/ui/theme';
+import { AppCard, AppText, AppButton, AppReveal } from '../../../../src/ui/primitives';
+
+const PERIOD_LABELS: Record<LocalBudget['period'], string> = {
+	weekly: 'Weekly',
+	biweekly: 'Every 2 weeks',
+	monthly: 'Monthly',
+};
+
+/** `+$42` / `−$42`; zero reads as a plain amount. */
+const signed = (amount: number, currency: (amount: number) => string) =>
+	amount > 0 ? `+${currency(amount)}` : amount < 0 ? `−${currency(-amount)}` : currency(0);
+
+export default function BudgetDetailScreen() {
+	const { id } = useLocalSearchParams<{ id: string }>();
+	const insets = useSafeAreaInsets();
+	const { budgets, getBudgetHistory } = useBudget();
+	const { format: currency } = useCurrency();
+	const { formatDate } = useLocale();
+	const shortDate = (ymd: string) => formatDate(ymd, 'monthDay');
+	const budget = (budgets as LocalBudget[]).find((b) => b.id === id);
+	// Newest first; the current period is shown on its own above
+	const past = useMemo(() => getBudgetHistory(id).slice(0, -1).reverse(), [getBudgetHistory, id]);
+
+	if (!budget) {
+		return (
+			<View style={[styles.root, { paddingTop: insets.top }]}>
+				<View style={styles.headerRow}>
+					<BorderlessButton onPress={() => router.back()} hitSlop={12}>
+						<Ionicons name="chevron-back" size={24} color={palette.text} />
+					</BorderlessButton>
+					<AppText.Heading style={styles.headerTitle}>Budget</AppText.Heading>
+					<View style={{ width: 24 }} />
+				</View>
+				<View style={styles.scrollContent}>
+					<AppText.Body color="muted">This budget was deleted.</AppText.Body>
+				</View>
+			</View>
+		);
+	}
+
+	const rollsOver = budget.history.some((p) => p.carriedOut !== 0 || p.carriedIn !== 0);
+	const envelope = budget.history[budget.history.length - 1]?.carriedOut ?? 0;
+
+	return (
+		<View style={[styles.root, { paddingTop: insets.top }]}>
+			<View style={styles.headerRow}>
+				<BorderlessButton onPress={() => router.back()} hitSlop={12}>
+					<Ionicons name="chevron-back" size={24} color={palette.text} />
+				</BorderlessButton>
+				<AppText.Heading style={styles.headerTitle} numberOfLines={1}>
+					{budget.name}
+				</AppText.Heading>
+				<BorderlessButton
+					onPress={() =>
+						router.push({ pathname: '/(tabs)/dashboard/budgets/edit', params: { id: budget.id } })
+					}
+					hitSlop={12}
+					accessibilityLabel={`Edit budget ${budget.name}`}
+				>
+					<Ionicons name="create-outline" size={22} color={palette.text} />
+				</BorderlessButton>
+			</View>
+
+			<ScrollView
+				contentContainerStyle={[
+					styles.scrollContent,
+					{ paddingBottom: insets.bottom + space.xxl },
+				]}
+				showsVerticalScrollIndicator={false}
+			>
+				<AppReveal delayMs={30} distance={8}>
+					<AppText.Caption color="muted" style={styles.kicker}>
+						{PERIOD_LABELS[budget.period]} · {shortDate(budget.range.start)} –{' '}
+						{shortDate(budget.range.end)}
+					</AppText.Caption>
+				</AppReveal>
+
+				<AppReveal delayMs={60}>
+					<AppCard padding={space.lg}>
+						<Line label="Budget" value={currency(budget.amount)} />
+						{budget.carriedOver !== 0 ? (
+							<Line
+								label={budget.carriedOver > 0 ? 'Left from last period' : 'Overspent last period'}
+								value={signed(budget.carriedOver, currency)}
+								tone={budget.carriedOver < 0 ? 'danger' : 'success'}
+							/>
+						) : null}
+						<Line label="Available" value={currency(budget.available)} />
+						<Line label="Spent" value={`−${currency(budget.spent)}`} />
+						<View style={styles.divider} />
+						<Line
+							label={budget.remaining < 0 ? 'Over budget' : 'Left'}
+							value={currency(Math.abs(budget.remaining))}
+							tone={budget.remaining < 0 ? 'danger' : 'default'}
+							strong
+						/>
+						{budget.rollover || rollsOver ? (
+							<AppText.Caption color="muted" style={styles.note}>
+								{envelope >= 0
+									? `${currency(envelope)} carries into next period if you spend nothing more.`
+									: `${currency(-envelope)} comes out of next period unless you make it up.`}
+							</AppText.Caption>
+						) : null}
+					</AppCard>
+				</AppReveal>
+
+				<AppReveal delayMs={90}>
+					<AppCard padding={space.lg}>
+						<AppText.Heading style={styles.sectionTitle}>Past periods</AppText.Heading>
+						{past.length === 0 ? (
+							<AppText.Body color="muted">
+								This is the budget&apos;s first period.
+							</AppText.Body>
+						) : (
+							past.map((period) => (
+								<PeriodRow
+									key={period.range.start}
+									period={period}
+									rollsOver={rollsOver}
+									label={`${shortDate(period.range.start)} – ${shortDate(period.range.end)}`}
+								/>
+							))
+						)}
+					</AppCard>
+				</AppReveal>
+
+				<AppReveal delayMs={120}>
+					<AppButton
+						label="Edit budget"
+						variant="secondary"
+						icon="create-outline"
+						iconPosition="left"
+						fullWidth
+						onPress={() =>
+							router.push({ pathname: '/(tabs)/dashboard/budgets/edit', params: { id: budget.id } })
+						}
+					/>
+				</AppReveal>
+			</ScrollView>
+		</View>
+	);
+}
+
+function Line({
+	label,
+	value,
+	tone = 'default',
+	strong,
+}: {
+	label: string;
+	value: string;
+	tone?: 'default' | 'danger' | 'success';
+	strong?: boolean;
+}) {
+	return (
+		<View style={styles.line}>
+			<AppText.Body color="muted">{label}</AppText.Body>
+			<AppText.Body color={tone} style={strong ? styles.strong : undefined}>
+				{value}
+			</AppText.Body>
+		</View>
+	);
+}
+
+function PeriodRow({
+	period,
+	label,
+	rollsOver,
+}: {
+	period: BudgetPeriod;
+	label: string;
+	rollsOver: boolean;
+}) {
+	const { format: currency } = useCurrency();
+	const over = period.spent > period.allocated + period.carriedIn;
+	return (
+		<View style={styles.periodRow}>
+			<View style={styles.line}>
+				<AppText.Body style={styles.strong}>{label}</AppText.Body>
+				<AppText.Body color={over ? 'danger' : 'default'}>
+					{currency(period.spent)} / {currency(period.allocated + period.carriedIn)}
+				</AppText.Body>
+			</View>
+			{rollsOver ? (
+				<AppText.Caption color="muted">
+					In {signed(period.carriedIn, currency)} · out {signed(period.carriedOut, currency)}
+				</AppText.Caption>
+			) : null}
+		</View>
+	);
+}
+
+const styles = StyleSheet.create({
+	root: {
+		flex: 1,
+		backgroundColor: palette.bg,
+	},
+	headerRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: space.lg,
+		paddingVertical: space.sm,
+		borderBottomWidth: StyleSheet.hairlineWidth,
+		borderBottomColor: palette.border,
+	},
+	headerTitle: {
+		flex: 1,
+		textAlign: 'center',
+	},
+	scrollContent: {
+		paddingHorizontal: space.lg,
+		paddingTop: space.lg,
+		gap: space.md,
+	},
+	kicker: {
+		textTransform: 'uppercase',
+		letterSpacing: 0.6,
+		fontWeight: '600',
+	},
+	sectionTitle: {
+		marginBottom: space.md,
+	},
+	line: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+		gap: space.md,
+		paddingVertical: space.xs,
+	},
+	strong: {
+		fontWeight: '600',
+	},
+	divider: {
+		height: StyleSheet.hairlineWidth,
+		backgroundColor: palette.border,
+		marginVertical: space.xs,
+	},
+	note: {
+		marginTop: space.sm,
+		lineHeight: 18,
+	},
+	periodRow: {
+		paddingVertical: space.sm,
+		borderBottomWidth: StyleSheet.hairlineWidth,
+		borderBottomColor: palette.border,
+	},
+});
@@ -0,0 +1,337 @@
+import React, { useContext, useEffect, useRef, useState } from 'react';
+import {
+	View,
+	StyleSheet,
+	ScrollView,
+	TextInput,
+	Alert,
+	Platform,
+	KeyboardAvoidingView,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useLocalSearchParams, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { BorderlessButton } from 'react-native-gesture-handler';
+import { useBudget, type CreateBudgetData } from '../../../../src/context/budgetContext';
+import { useCategories } from '../../../../src/context/categoryContext';
+import { useLocale } from '../../../../src/context/localeContext';
+import { ProfileContext } from '../../../../src/context/profileContext';
+import type { MonthStartDay } from '../../../../src/lib/budgets';
+import { palette, radius, space } from '../../../../src/ui/theme';
+import { AppCard, AppText, AppButton, AppChip } from '../../../../src/ui/primitives';
+
+type Draft = {
+	name: string;
+	amount: string;
+	period: CreateBudgetData['period'];
+	weekStartDay: 0 | 1;
+	monthStartDay: string;
+	rollover: boolean;
+	categories: string[];
+};
+
+export default function BudgetEditScreen() {
+	const { id } = useLocalSearchParams<{ id?: string }>();
+	const insets = useSafeAreaInsets();
+	const { budgets, addBudget, updateBudget, deleteBudget } = useBudget();
+	const { categoriesFor } = useCategories();
+	const { settings: localeSettings, parseAmount, formatNumber } = useLocale();
+	const budgetSettings = useContext(ProfileContext)?.profile?.preferences?.budgetSettings;
+	const budget = id ? budgets.find((b) => b.id === id) : undefined;
+	const [saving, setSaving] = useState(false);
+	const [draft, setDraft] = useState<Draft>({
+		name: '',
+		amount: '',
+		period: budgetSettings?.cycleType ?? 'monthly',
+		weekStartDay: localeSettings.weekStartsOn,
+		monthStartDay: '1',
+		rollover: budgetSettings?.carryOver ?? false,
+		categories: [],
+	});
+
+	// Fill the form once; later recomputed spending must not undo edits
+	const initializedRef = useRef(false);
+	useEffect(() => {
+		if (!budget || initializedRef.current) return;
+		initializedRef.current = true;
+		setDraft({
+			name: budget.name,
+			amount: formatNumber(budget.amount, { grouping: false }),
+			period: budget.period,
+			weekStartDay: budget.weekStartDay ?? localeSettings.weekStartsOn,
+			monthStartDay: String(budget.monthStartDay ?? 1),
+			rollover: budget.rollover ?? budgetSettings?.carryOver ?? false,
+			categories: budget.categories ?? [],
+		});
+	}, [budget, formatNumber, localeSettings.weekStartsOn, budgetSettings?.carryOver]);
+
+	const toggleCategory = (name: string) =>
+		setDraft((d) => ({
+			...d,
+			categories: d.categories.includes(name)
+				? d.categories.filter((c) => c !== name)
+				: [...d.categories, name],
+		}));
+
+	const onSave = async () => {
+		const monthStartDay = Number(draft.monthStartDay);
+		const data: CreateBudgetData = {
+			name: draft.name,
+			amount: parseAmount(draft.amount) ?? NaN,
+			period: draft.period,
+			weekStartDay: draft.period !== 'monthly' ? draft.weekStartDay : undefined,
+			monthStartDay:
+				draft.period === 'monthly' ? (monthStartDay as MonthStartDay) : undefined,
+			rollover: draft.rollover,
+			categories: draft.categories,
+		};
+		setSaving(true);
+		try {
+			if (budget) await updateBudget(budget.id, data);
+			else await addBudget(data);
+			router.back();
+		} catch (e) {
+			Alert.alert('Budget', e instanceof Error ? e.message : String(e));
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const confirmDelete = () => {
+		if (!budget) return;
+		Alert.alert(`Delete ${budget.name}?`, 'Your entries are not changed.', [
+			{ text: 'Cancel', style: 'cancel' },
+			{
+				text: 'Delete',
+				style: 'destructive',
+				onPress: async () => {
+					try {
+						await deleteBudget(budget.id);
+						router.dismissTo('/(tabs)/dashboard/budgets');
+					} catch (e) {
+						Alert.alert('Budget', e instanceof Error ? e.message : String(e));
+					}
+				},
+			},
+		]);
+	};
+
+	return (
+		<KeyboardAvoidingView
+			style={[styles.root, { paddingTop: insets.top }]}
+			behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+		>
+			<View style={styles.headerRow}>
+				<BorderlessButton onPress={() => router.back()} hitSlop={12}>
+					<Ionicons name="chevron-back" size={24} color={palette.text} />
+				</BorderlessButton>
+				<AppText.Heading style={styles.headerTitle}>
+					{budget ? 'Edit budget' : 'New budget'}
+				</AppText.Heading>
+				<View style={{ width: 24 }} />
+			</View>
+
+			<ScrollView
+				contentContainerStyle={[
+					styles.scrollContent,
+					{ paddingBottom: insets.bottom + space.xxl },
+				]}
+				keyboardShouldPersistTaps="handled"
+				showsVerticalScrollIndicator={false}
+			>
+				<AppCard padding={space.lg}>
+					<TextInput
+						style={styles.input}
+						value={draft.name}
+						onChangeText={(name) => setDraft((d) => ({ ...d, name }))}
+						placeholder="Name, e.g. Groceries"
+						placeholderTextColor={palette.textSubtle}
+						editable={!saving}
+						maxLength={60}
+					/>
+					<TextInput
+						style={styles.input}
+						value={draft.amount}
+						onChangeText={(amount) => setDraft((d) => ({ ...d, amount }))}
+						placeholder="Amount per period"
+						placeholderTextColor={palette.textSubtle}
+						keyboardType="decimal-pad"
+						editable={!saving}
+					/>
+
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Period
+					</AppText.Label>
+					<View style={styles.chipRow}>
+						<AppChip
+							label="Monthly"
+							selected={draft.period === 'monthly'}
+							onPress={() => setDraft((d) => ({ ...d, period: 'monthly' }))}
+						/>
+						<AppChip
+							label="Every 2 weeks"
+							selected={draft.period === 'biweekly'}
+							onPress={() => setDraft((d) => ({ ...d, period: 'biweekly' }))}
+						/>
+						<AppChip
+							label="Weekly"
+							selected={draft.period === 'weekly'}
+							onPress={() => setDraft((d) => ({ ...d, period: 'weekly' }))}
+						/>
+					</View>
+
+					{draft.period !== 'monthly' ? (
+						<>
+							<AppText.Label color="muted" style={styles.optionLabel}>
+								Week starts on
+							</AppText.Label>
+							<View style={styles.chipRow}>
+								<AppChip
+									label="Sunday"
+									selected={draft.weekStartDay === 0}
+									onPress={() => setDraft((d) => ({ ...d, weekStartDay: 0 }))}
+								/>
+								<AppChip
+									label="Monday"
+									selected={draft.weekStartDay === 1}
+									onPress={() => setDraft((d) => ({ ...d, weekStartDay: 1 }))}
+								/>
+							</View>
+						</>
+					) : (
+						<>
+							<AppText.Label color="muted" style={styles.optionLabel}>
+								Month starts on day
+							</AppText.Label>
+							<TextInput
+								style={styles.input}
+								value={draft.monthStartDay}
+								onChangeText={(monthStartDay) =>
+									setDraft((d) => ({
+										...d,
+										monthStartDay: monthStartDay.replace(/\D/g, ''),
+									}))
+								}
+								placeholder="1–28, e.g. your payday"
+								placeholderTextColor={palette.textSubtle}
+								keyboardType="number-pad"
+								editable={!saving}
+								maxLength={2}
+							/>
+						</>
+					)}
+
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Categories
+					</AppText.Label>
+					<AppText.Caption color="muted" style={styles.hint}>
+						{draft.categories.length
+							? 'Subcategories count toward their parent.'
+							: 'None picked: entries in a category with the budget’s name count.'}
+					</AppText.Caption>
+					<View style={styles.chipRow}>
+						{categoriesFor('expense').map((category) => (
+							<AppChip
+								key={category.id}
+								label={category.name}
+								selected={draft.categories.includes(category.name)}
+								onPress={() => toggleCategory(category.name)}
+							/>
+						))}
+					</View>
+
+					<View style={styles.chipRow}>
+						<AppChip
+							label="Start fresh each period"
+							selected={!draft.rollover}
+							onPress={() => setDraft((d) => ({ ...d, rollover: false }))}
+						/>
+						<AppChip
+							label="Carry over, envelope-style"
+							selected={draft.rollover}
+							onPress={() => setDraft((d) => ({ ...d, rollover: true }))}
+						/>
+					</View>
+					{draft.rollover ? (
+						<AppText.Caption color="muted" style={styles.hint}>
+							What’s left each period is added to the next; overspending comes out
+							of it.
+						</AppText.Caption>
+					) : null}
+
+					<View style={styles.actions}>
+						<AppButton
+							label={budget ? 'Save budget' : 'Add budget'}
+							variant="primary"
+							loading={saving}
+							disabled={saving || !draft.name.trim() || !draft.amount.trim()}
+							onPress={() => void onSave()}
+							fullWidth
+						/>
+						{budget ? (
+							<AppButton
+								label="Delete budget"
+								variant="ghost"
+								disabled={saving}
+								onPress={confirmDelete}
+								fullWidth
+							/>
+						) : null}
+					</View>
+				</AppCard>
+			</ScrollView>
+		</KeyboardAvoidingView>
+	);
+}
+
+const styles = StyleSheet.create({
+	root: {
+		flex: 1,
+		backgroundColor: palette.bg,
+	},
+	headerRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: space.lg,
+		paddingVertical: space.sm,
+		borderBottomWidth: StyleSheet.hairlineWidth,
+		borderBottomColor: palette.border,
+	},
+	headerTitle: {
+		flex: 1,
+		textAlign: 'center',
+	},
+	scrollContent: {
+		paddingHorizontal: space.lg,
+		paddingTop: space.lg,
+		gap: space.md,
+	},
+	input: {
+		borderRadius: radius.xl2,
+		borderWidth: StyleSheet.hairlineWidth,
+		borderColor: palette.border,
+		backgroundColor: palette.input,
+		paddingHorizontal: space.md,
+		paddingVertical: Platform.OS === 'ios' ? 12 : 10,
+		fontSize: 16,
+		color: palette.text,
+		marginBottom: space.sm,
+	},
+	optionLabel: {
+		marginBottom: space.xs,
+		marginTop: space.xs,
+	},
+	hint: {
+		marginBottom: space.sm,
+	},
+	chipRow: {
+		flexDirection: 'row',
+		flexWrap: 'wrap',
+		marginBottom: space.sm,
+	},
+	actions: {
+		gap: space.sm,
+		marginTop: space.md,
+	},
+});
@@ -0,0 +1,236 @@
+import React from 'react';
+import { View, StyleSheet, ScrollView, ActivityIndicator } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { BorderlessButton } from 'react-native-gesture-handler';
+import { useBudget } from '../../../../src/context/budgetContext';
+import { useCurrency } from '../../../../src/context/currencyContext';
+import { useLocale } from '../../../../src/context/localeContext';
+import type { LocalBudget } from '../../../../src/lib/budgets';
+import { palette, radius, space } from '../../../../src/ui/theme';
+import { AppCard, AppText, AppButton, AppReveal } from '../../../../src/ui/primitives';
+
+const openEditor = () => router.push('/(tabs)/dashboard/budgets/edit');
+
+const openDetail = (id: string) =>
+	router.push({ pathname: '/(tabs)/dashboard/budgets/detail', params: { id } });
+
+export default function BudgetsScreen() {
+	const insets = useSafeAreaInsets();
+	const { budgets, hasLoaded, monthlySummary, weeklySummary } = useBudget();
+	const { format: currency } = useCurrency();
+	const { formatDate } = useLocale();
+	const shortDate = (ymd: string) => formatDate(ymd, 'monthDay');
+	const list = budgets as LocalBudget[];
+
+	return (
+		<View style={[styles.root, { paddingTop: insets.top }]}>
+			<View style={styles.headerRow}>
+				<BorderlessButton onPress={() => router.back()} hitSlop={12}>
+					<Ionicons name="chevron-back" size={24} color={palette.text} />
+				</BorderlessButton>
+				<AppText.Heading style={styles.headerTitle}>Budgets</AppText.Heading>
+				<BorderlessButton
+					onPress={() => openEditor()}
+					hitSlop={12}
+					accessibilityLabel="New budget"
+				>
+					<Ionicons name="add" size={24} color={palette.text} />
+				</BorderlessButton>
+			</View>
+
+			{!hasLoaded ? (
+				<View style={styles.loadingBlock}>
+					<ActivityIndicator size="large" color={palette.primary} />
+				</View>
+			) : (
+				<ScrollView
+					contentContainerStyle={[
+						styles.scrollContent,
+						{ paddingBottom: insets.bottom + space.xxl },
+					]}
+					showsVerticalScrollIndicator={false}
+				>
+					{list.length === 0 ? (
+						<AppReveal delayMs={30}>
+							<AppCard padding={space.lg}>
+								<AppText.Heading style={styles.sectionTitle}>
+									No budgets yet
+								</AppText.Heading>
+								<AppText.Body color="muted" style={styles.emptyBody}>
+									Set an amount for a week or a month and pick the categories
+									it covers. Spending is counted from your entries as you add
+									them.
+								</AppText.Body>
+								<AppButton
+									label="New budget"
+									variant="primary"
+									icon="add"
+									iconPosition="left"
+									onPress={() => openEditor()}
+									fullWidth
+								/>
+							</AppCard>
+						</AppReveal>
+					) : (
+						<>
+							<AppReveal delayMs={30} distance={8}>
+								<View style={styles.totalsRow}>
+									{monthlySummary.totalAllocated > 0 ? (
+										<TotalCard label="Monthly" summary={monthlySummary} />
+									) : null}
+									{weeklySummary.totalAllocated > 0 ? (
+										<TotalCard label="Weekly" summary={weeklySummary} />
+									) : null}
+								</View>
+							</AppReveal>
+
+							{list.map((budget, i) => (
+								<AppReveal key={budget.id} delayMs={60 + i * 30}>
+									<AppCard
+										padding={space.lg}
+										onPress={() => openDetail(budget.id)}
+										accessibilityLabel={`Budget ${budget.name}`}
+									>
+										<View style={styles.budgetHeader}>
+											<AppText.Body style={styles.budgetName} numberOfLines={1}>
+												{budget.name}
+											</AppText.Body>
+											<AppText.Body color={budget.remaining < 0 ? 'danger' : 'default'}>
+												{budget.remaining < 0
+													? `${currency(-budget.remaining)} over`
+													: `${currency(budget.remaining)} left`}
+											</AppText.Body>
+										</View>
+										<View style={styles.barTrack}>
+											<View
+												style={[
+													styles.barFill,
+													{ width: `${Math.min(100, budget.spentPercentage)}%` },
+													budget.spentPercentage >= 100
+														? styles.barOver
+														: budget.shouldAlert
+															? styles.barWarn
+															: null,
+												]}
+											/>
+										</View>
+										<AppText.Caption color="muted" style={styles.budgetMeta}>
+											{currency(budget.spent)} of {currency(budget.available)} ·{' '}
+											{shortDate(budget.range.start)} – {shortDate(budget.range.end)}
+											{budget.carriedOver > 0
+												? ` · ${currency(budget.carriedOver)} rolled over`
+												: budget.carriedOver < 0
+													? ` · ${currency(-budget.carriedOver)} overspent last period`
+													: ''}
+										</AppText.Caption>
+									</AppCard>
+								</AppReveal>
+							))}
+						</>
+					)}
+				</ScrollView>
+			)}
+		</View>
+	);
+}
+
+function TotalCard({
+	label,
+	summary,
+}: {
+	label: string;
+	summary: { totalAllocated: number; totalSpent: number };
+}) {
+	const { format: currency } = useCurrency();
+	return (
+		<AppCard style={styles.totalCard} padding={space.md} elevated={false} bordered>
+			<AppText.Label color="muted">{label}</AppText.Label>
+			<AppText.Heading style={styles.totalValue}>
+				{currency(summary.totalSpent)}
+			</AppText.Heading>
+			<AppText.Caption color="subtle">
+				of {currency(summary.totalAllocated)}
+			</AppText.Caption>
+		</AppCard>
+	);
+}
+
+const styles = StyleSheet.create({
+	root: {
+		flex: 1,
+		backgroundColor: palette.bg,
+	},
+	headerRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: space.lg,
+		paddingVertical: space.sm,
+		borderBottomWidth: StyleSheet.hairlineWidth,
+		borderBottomColor: palette.border,
+	},
+	headerTitle: {
+		flex: 1,
+		textAlign: 'center',
+	},
+	loadingBlock: {
+		flex: 1,
+		alignItems: 'center',
+		justifyContent: 'center',
+	},
+	scrollContent: {
+		paddingHorizontal: space.lg,
+		paddingTop: space.lg,
+		gap: space.md,
+	},
+	sectionTitle: {
+		marginBottom: space.sm,
+	},
+	emptyBody: {
+		lineHeight: 22,
+		marginBottom: space.md,
+	},
+	totalsRow: {
+		flexDirection: 'row',
+		gap: space.sm,
+	},
+	totalCard: {
+		flex: 1,
+	},
+	totalValue: {
+		marginTop: space.xs,
+	},
+	budgetHeader: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+		gap: space.md,
+		marginBottom: space.sm,
+	},
+	budgetName: {
+		flex: 1,
+		fontWeight: '600',
+	},
+	budgetMeta: {
+		marginTop: space.sm,
+	},
+	barTrack: {
+		height: 8,
+		borderRadius: radius.pill,
+		backgroundColor: palette.track,
+		overflow: 'hidden',
+	},
+	barFill: {
+		height: '100%',
+		borderRadius: radius.pill,
+		backgroundColor: palette.primary,
+	},
+	barWarn: {
+		backgroundColor: palette.warning,
+	},
+	barOver: {
+		backgroundColor: palette.danger,
+	},
+});
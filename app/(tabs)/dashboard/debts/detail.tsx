@@ -0,0 +1,288 @@
+import React, { useMemo, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useLocalSearchParams, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { BorderlessButton } from 'react-native-gesture-handler';
+import { useDebts } from '../../../../src/context/debtContext';
+import { useCurrency } from '../../../../src/context/currencyContext';
+import { useLocale } from '../../../../src/context/localeContext';
+import { PAYOFF_STRATEGIES } from '../../../../src/lib/debts';
+import { palette, space } from '../../../../src/ui/theme';
+import { AppCard, AppText, AppButton, AppReveal } from '../../../../src/ui/primitives';
+
+/** Schedule rows shown before "Show all". */
+const SCHEDULE_PREVIEW = 12;
+
+export default function DebtDetailScreen() {
+	const { id } = useLocalSearchParams<{ id: string }>();
+	const insets = useSafeAreaInsets();
+	const { findDebt, plan, comparison } = useDebts();
+	const { format: currency } = useCurrency();
+	const { formatDate, formatNumber } = useLocale();
+	const [showAll, setShowAll] = useState(false);
+	const debt = findDebt(id);
+	const chosen = comparison?.[plan.strategy];
+	const strategyLabel = PAYOFF_STRATEGIES.find((s) => s.strategy === plan.strategy)?.label;
+
+	// This debt's rows of the plan, while it is open
+	const schedule = useMemo(
+		() =>
+			(chosen?.months ?? [])
+				.filter((m) => m.balances[id] !== undefined)
+				.map((m) => ({
+					month: m.month,
+					payment: m.payments[id],
+					interest: m.interest[id],
+					balance: m.balances[id],
+				})),
+		[chosen, id]
+	);
+
+	if (!debt) {
+		return (
+			<View style={[styles.root, { paddingTop: insets.top }]}>
+				<View style={styles.headerRow}>
+					<BorderlessButton onPress={() => router.back()} hitSlop={12}>
+						<Ionicons name="chevron-back" size={24} color={palette.text} />
+					</BorderlessButton>
+					<AppText.Heading style={styles.headerTitle}>Debt</AppText.Heading>
+					<View style={{ width: 24 }} />
+				</View>
+				<View style={styles.scrollContent}>
+					<AppText.Body color="muted">This debt was deleted.</AppText.Body>
+				</View>
+			</View>
+		);
+	}
+
+	const openEditor = () =>
+		router.push({ pathname: '/(tabs)/dashboard/debts/edit', params: { id: debt.id } });
+	const monthLabel = (month: string) => formatDate(`${month}-01`, 'monthYear');
+	const payoffMonth = chosen?.payoffMonths[debt.id];
+	const interest = schedule.reduce((sum, row) => sum + row.interest, 0);
+	const rows = showAll ? schedule : schedule.slice(0, SCHEDULE_PREVIEW);
+
+	return (
+		<View style={[styles.root, { paddingTop: insets.top }]}>
+			<View style={styles.headerRow}>
+				<BorderlessButton onPress={() => router.back()} hitSlop={12}>
+					<Ionicons name="chevron-back" size={24} color={palette.text} />
+				</BorderlessButton>
+				<AppText.Heading style={styles.headerTitle} numberOfLines={1}>
+					{debt.name}
+				</AppText.Heading>
+				<BorderlessButton
+					onPress={openEditor}
+					hitSlop={12}
+					accessibilityLabel={`Edit debt ${debt.name}`}
+				>
+					<Ionicons name="create-outline" size={22} color={palette.text} />
+				</BorderlessButton>
+			</View>
+
+			<ScrollView
+				contentContainerStyle={[
+					styles.scrollContent,
+					{ paddingBottom: insets.bottom + space.xxl },
+				]}
+				showsVerticalScrollIndicator={false}
+			>
+				<AppReveal delayMs={30} distance={8}>
+					<AppText.Caption color="muted" style={styles.kicker}>
+						{formatNumber(debt.apr)}% APR · due {formatDate(debt.nextDueDate, 'monthDay')}
+					</AppText.Caption>
+				</AppReveal>
+
+				<AppReveal delayMs={60}>
+					<AppCard padding={space.lg}>
+						<Line
+							label={`Owed on ${formatDate(debt.balanceDate, 'monthDay')}`}
+							value={currency(debt.balance)}
+						/>
+						<Line label="Paid since" value={`−${currency(debt.paid)}`} />
+						<View style={styles.divider} />
+						<Line
+							label={debt.isPaidOff ? 'Paid off' : 'Still owed'}
+							value={currency(debt.currentBalance)}
+							tone={debt.isPaidOff ? 'success' : 'default'}
+							strong
+						/>
+						<Line label="Minimum payment" value={`${currency(debt.minPayment)} / month`} />
+						{!debt.isPaidOff && chosen ? (
+							<AppText.Caption color="muted" style={styles.note}>
+								{payoffMonth
+									? `With ${strategyLabel?.toLowerCase()} at ${currency(chosen.monthlyPayment)} a month, this is paid off in ${monthLabel(payoffMonth)} after ${currency(interest)} of interest.`
+									: 'At the current payments, interest outpaces what goes to this debt.'}
+							</AppText.Caption>
+						) : null}
+					</AppCard>
+				</AppReveal>
+
+				{schedule.length > 0 ? (
+					<AppReveal delayMs={90}>
+						<AppCard padding={space.lg}>
+							<AppText.Heading style={styles.sectionTitle}>Schedule</AppText.Heading>
+							<View style={styles.scheduleRow}>
+								<AppText.Caption color="muted" style={styles.monthCell}>
+									Month
+								</AppText.Caption>
+								<AppText.Caption color="muted" style={styles.cell}>
+									Payment
+								</AppText.Caption>
+								<AppText.Caption color="muted" style={styles.cell}>
+									Interest
+								</AppText.Caption>
+								<AppText.Caption color="muted" style={styles.cell}>
+									Balance
+								</AppText.Caption>
+							</View>
+							{rows.map((row) => (
+								<View key={row.month} style={styles.scheduleRow}>
+									<AppText.Caption style={styles.monthCell}>
+										{formatDate(`${row.month}-01`, 'monthShort')} {row.month.slice(0, 4)}
+									</AppText.Caption>
+									<AppText.Caption style={styles.cell}>{currency(row.payment)}</AppText.Caption>
+									<AppText.Caption color="muted" style={styles.cell}>
+										{currency(row.interest)}
+									</AppText.Caption>
+									<AppText.Caption style={styles.cell}>{currency(row.balance)}</AppText.Caption>
+								</View>
+							))}
+							{schedule.length > SCHEDULE_PREVIEW ? (
+								<AppButton
+									label={showAll ? 'Show less' : `Show all ${schedule.length} months`}
+									variant="ghost"
+									onPress={() => setShowAll((v) => !v)}
+									fullWidth
+								/>
+							) : null}
+						</AppCard>
+					</AppReveal>
+				) : null}
+
+				<AppReveal delayMs={120}>
+					<AppCard padding={space.lg}>
+						<AppText.Heading style={styles.sectionTitle}>Payments</AppText.Heading>
+						{debt.payments.length === 0 ? (
+							<AppText.Body color="muted">
+								Open an entry and pick this debt under “Pays off a debt”.
+							</AppText.Body>
+						) : (
+							debt.payments.map((p) => (
+								<View key={p.transactionId} style={styles.line}>
+									<View style={styles.payment}>
+										<AppText.Body numberOfLines={1}>{p.description || 'Payment'}</AppText.Body>
+										<AppText.Caption color="muted">{formatDate(p.date)}</AppText.Caption>
+									</View>
+									<AppText.Body>−{currency(p.amount)}</AppText.Body>
+								</View>
+							))
+						)}
+					</AppCard>
+				</AppReveal>
+
+				<AppReveal delayMs={150}>
+					<AppButton
+						label="Edit debt"
+						variant="secondary"
+						icon="create-outline"
+						iconPosition="left"
+						fullWidth
+						onPress={openEditor}
+					/>
+				</AppReveal>
+			</ScrollView>
+		</View>
+	);
+}
+
+function Line({
+	label,
+	value,
+	tone = 'default',
+	strong,
+}: {
+	label: string;
+	value: string;
+	tone?: 'default' | 'success';
+	strong?: boolean;
+}) {
+	return (
+		<View style={styles.line}>
+			<AppText.Body color="muted">{label}</AppText.Body>
+			<AppText.Body color={tone} style={strong ? styles.strong : undefined}>
+				{value}
+			</AppText.Body>
+		</View>
+	);
+}
+
+const styles = StyleSheet.create({
+	root: {
+		flex: 1,
+		backgroundColor: palette.bg,
+	},
+	headerRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: space.lg,
+		paddingVertical: space.sm,
+		borderBottomWidth: StyleSheet.hairlineWidth,
+		borderBottomColor: palette.border,
+	},
+	headerTitle: {
+		flex: 1,
+		textAlign: 'center',
+	},
+	scrollContent: {
+		paddingHorizontal: space.lg,
+		paddingTop: space.lg,
+		gap: space.md,
+	},
+	kicker: {
+		textTransform: 'uppercase',
+		letterSpacing: 0.6,
+		fontWeight: '600',
+	},
+	sectionTitle: {
+		marginBottom: space.md,
+	},
+	line: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+		gap: space.md,
+		paddingVertical: space.xs,
+	},
+	payment: {
+		flex: 1,
+	},
+	strong: {
+		fontWeight: '600',
+	},
+	divider: {
+		height: StyleSheet.hairlineWidth,
+		backgroundColor: palette.border,
+		marginVertical: space.xs,
+	},
+	note: {
+		marginTop: space.sm,
+		lineHeight: 18,
+	},
+	scheduleRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		paddingVertical: space.xs,
+		borderBottomWidth: StyleSheet.hairlineWidth,
+		borderBottomColor: palette.border,
+	},
+	monthCell: {
+		flex: 1.2,
+	},
+	cell: {
+		flex: 1,
+		textAlign: 'right',
+	},
+});
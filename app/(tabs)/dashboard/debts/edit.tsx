@@ -0,0 +1,275 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+	View,
+	StyleSheet,
+	ScrollView,
+	TextInput,
+	Alert,
+	Platform,
+	KeyboardAvoidingView,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useLocalSearchParams, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { BorderlessButton } from 'react-native-gesture-handler';
+import { useDebts } from '../../../../src/context/debtContext';
+import { useLocale } from '../../../../src/context/localeContext';
+import type { DebtInput } from '../../../../src/lib/debts';
+import { palette, radius, space } from '../../../../src/ui/theme';
+import { AppCard, AppText, AppButton } from '../../../../src/ui/primitives';
+
+type Draft = {
+	name: string;
+	balance: string;
+	apr: string;
+	minPayment: string;
+	dueDay: string;
+};
+
+export default function DebtEditScreen() {
+	// `balance` prefills a new debt, e.g. from the onboarding total
+	const { id, balance } = useLocalSearchParams<{ id?: string; balance?: string }>();
+	const insets = useSafeAreaInsets();
+	const { findDebt, createDebt, updateDebt, deleteDebt } = useDebts();
+	const { parseAmount, formatNumber } = useLocale();
+	const debt = id ? findDebt(id) : undefined;
+	const [saving, setSaving] = useState(false);
+	const [draft, setDraft] = useState<Draft>({
+		name: '',
+		balance: balance ? formatNumber(Number(balance), { grouping: false }) : '',
+		apr: '',
+		minPayment: '',
+		dueDay: '1',
+	});
+
+	// Fill the form once; later payments must not undo edits
+	const initializedRef = useRef(false);
+	useEffect(() => {
+		if (!debt || initializedRef.current) return;
+		initializedRef.current = true;
+		setDraft({
+			name: debt.name,
+			balance: formatNumber(debt.currentBalance, { grouping: false }),
+			apr: formatNumber(debt.apr, { grouping: false }),
+			minPayment: formatNumber(debt.minPayment, { grouping: false }),
+			dueDay: String(debt.dueDay),
+		});
+	}, [debt, formatNumber]);
+
+	const onSave = async () => {
+		const data: DebtInput = {
+			name: draft.name,
+			balance: parseAmount(draft.balance) ?? NaN,
+			apr: draft.apr.trim() ? (parseAmount(draft.apr) ?? NaN) : 0,
+			minPayment: parseAmount(draft.minPayment) ?? NaN,
+			dueDay: Number(draft.dueDay),
+		};
+		setSaving(true);
+		try {
+			if (debt) {
+				// An unchanged balance keeps the payments already counted against it
+				const { balance: next, ...rest } = data;
+				await updateDebt(
+					debt.id,
+					next === debt.currentBalance ? rest : { ...rest, balance: next }
+				);
+			} else {
+				await createDebt(data);
+			}
+			router.back();
+		} catch (e) {
+			Alert.alert('Debt', e instanceof Error ? e.message : String(e));
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const confirmDelete = () => {
+		if (!debt) return;
+		Alert.alert(`Delete ${debt.name}?`, 'Payments linked to it are not changed.', [
+			{ text: 'Cancel', style: 'cancel' },
+			{
+				text: 'Delete',
+				style: 'destructive',
+				onPress: async () => {
+					try {
+						await deleteDebt(debt.id);
+						router.dismissTo('/(tabs)/dashboard/debts');
+					} catch (e) {
+						Alert.alert('Debt', e instanceof Error ? e.message : String(e));
+					}
+				},
+			},
+		]);
+	};
+
+	return (
+		<KeyboardAvoidingView
+			style={[styles.root, { paddingTop: insets.top }]}
+			behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+		>
+			<View style={styles.headerRow}>
+				<BorderlessButton onPress={() => router.back()} hitSlop={12}>
+					<Ionicons name="chevron-back" size={24} color={palette.text} />
+				</BorderlessButton>
+				<AppText.Heading style={styles.headerTitle}>
+					{debt ? 'Edit debt' : 'New debt'}
+				</AppText.Heading>
+				<View style={{ width: 24 }} />
+			</View>
+
+			<ScrollView
+				contentContainerStyle={[
+					styles.scrollContent,
+					{ paddingBottom: insets.bottom + space.xxl },
+				]}
+				keyboardShouldPersistTaps="handled"
+				showsVerticalScrollIndicator={false}
+			>
+				<AppCard padding={space.lg}>
+					<TextInput
+						style={styles.input}
+						value={draft.name}
+						onChangeText={(name) => setDraft((d) => ({ ...d, name }))}
+						placeholder="Name, e.g. Visa or Car loan"
+						placeholderTextColor={palette.textSubtle}
+						editable={!saving}
+						maxLength={60}
+					/>
+
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Balance today
+					</AppText.Label>
+					{debt ? (
+						<AppText.Caption color="muted" style={styles.hint}>
+							Payments you link from here on come off it.
+						</AppText.Caption>
+					) : null}
+					<TextInput
+						style={styles.input}
+						value={draft.balance}
+						onChangeText={(value) => setDraft((d) => ({ ...d, balance: value }))}
+						placeholder="Amount owed"
+						placeholderTextColor={palette.textSubtle}
+						keyboardType="decimal-pad"
+						editable={!saving}
+					/>
+
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Interest rate (APR %)
+					</AppText.Label>
+					<TextInput
+						style={styles.input}
+						value={draft.apr}
+						onChangeText={(apr) => setDraft((d) => ({ ...d, apr }))}
+						placeholder="e.g. 19.99"
+						placeholderTextColor={palette.textSubtle}
+						keyboardType="decimal-pad"
+						editable={!saving}
+					/>
+
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Minimum payment per month
+					</AppText.Label>
+					<TextInput
+						style={styles.input}
+						value={draft.minPayment}
+						onChangeText={(minPayment) => setDraft((d) => ({ ...d, minPayment }))}
+						placeholder="Amount"
+						placeholderTextColor={palette.textSubtle}
+						keyboardType="decimal-pad"
+						editable={!saving}
+					/>
+
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Due on day
+					</AppText.Label>
+					<TextInput
+						style={styles.input}
+						value={draft.dueDay}
+						onChangeText={(dueDay) =>
+							setDraft((d) => ({ ...d, dueDay: dueDay.replace(/\D/g, '') }))
+						}
+						placeholder="1–31"
+						placeholderTextColor={palette.textSubtle}
+						keyboardType="number-pad"
+						editable={!saving}
+						maxLength={2}
+					/>
+
+					<View style={styles.actions}>
+						<AppButton
+							label={debt ? 'Save debt' : 'Add debt'}
+							variant="primary"
+							loading={saving}
+							disabled={
+								saving ||
+								!draft.name.trim() ||
+								!draft.balance.trim() ||
+								!draft.minPayment.trim()
+							}
+							onPress={() => void onSave()}
+							fullWidth
+						/>
+						{debt ? (
+							<AppButton
+								label="Delete debt"
+								variant="ghost"
+								disabled={saving}
+								onPress={confirmDelete}
+								fullWidth
+							/>
+						) : null}
+					</View>
+				</AppCard>
+			</ScrollView>
+		</KeyboardAvoidingView>
+	);
+}
+
+const styles = StyleSheet.create({
+	root: {
+		flex: 1,
+		backgroundColor: palette.bg,
+	},
+	headerRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: space.lg,
+		paddingVertical: space.sm,
+		borderBottomWidth: StyleSheet.hairlineWidth,
+		borderBottomColor: palette.border,
+	},
+	headerTitle: {
+		flex: 1,
+		textAlign: 'center',
+	},
+	scrollContent: {
+		paddingHorizontal: space.lg,
+		paddingTop: space.lg,
+		gap: space.md,
+	},
+	input: {
+		borderRadius: radius.xl2,
+		borderWidth: StyleSheet.hairlineWidth,
+		borderColor: palette.border,
+		backgroundColor: palette.input,
+		paddingHorizontal: space.md,
+		paddingVertical: Platform.OS === 'ios' ? 12 : 10,
+		fontSize: 16,
+		color: palette.text,
+		marginBottom: space.sm,
+	},
+	optionLabel: {
+		marginBottom: space.xs,
+		marginTop: space.xs,
+	},
+	hint: {
+		marginBottom: space.sm,
+	},
+	actions: {
+		gap: space.sm,
+		marginTop: space.md,
+	},
+});
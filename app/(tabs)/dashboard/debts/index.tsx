@@ -0,0 +1,339 @@
+import React, { useContext, useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, ActivityIndicator, TextInput, Platform } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { BorderlessButton } from 'react-native-gesture-handler';
+import { useDebts } from '../../../../src/context/debtContext';
+import { useCurrency } from '../../../../src/context/currencyContext';
+import { useLocale } from '../../../../src/context/localeContext';
+import { ProfileContext } from '../../../../src/context/profileContext';
+import { PAYOFF_STRATEGIES, type PayoffPlan } from '../../../../src/lib/debts';
+import { palette, radius, space } from '../../../../src/ui/theme';
+import { AppCard, AppText, AppButton, AppChip, AppReveal } from '../../../../src/ui/primitives';
+
+const openEditor = (balance?: number) =>
+	router.push({
+		pathname: '/(tabs)/dashboard/debts/edit',
+		params: balance ? { balance: String(balance) } : {},
+	});
+
+const openDetail = (id: string) =>
+	router.push({ pathname: '/(tabs)/dashboard/debts/detail', params: { id } });
+
+export default function DebtsScreen() {
+	const insets = useSafeAreaInsets();
+	const { debts, hasLoaded, totalOwed, minimumTotal, plan, comparison, setPlan } = useDebts();
+	const { format: currency } = useCurrency();
+	const { formatDate, formatNumber, parseAmount } = useLocale();
+	// The total given during onboarding, until the debts behind it are added
+	const onboardingDebt = useContext(ProfileContext)?.profile?.debt ?? 0;
+	const [payment, setPayment] = useState('');
+	const monthLabel = (month: string | null) =>
+		month ? formatDate(`${month}-01`, 'monthYear') : 'Never at this pace';
+
+	useEffect(() => {
+		setPayment(plan.monthlyPayment ? formatNumber(plan.monthlyPayment, { grouping: false }) : '');
+	}, [plan.monthlyPayment, formatNumber]);
+
+	const savePayment = () => {
+		const amount = payment.trim() ? (parseAmount(payment) ?? 0) : 0;
+		void setPlan({ monthlyPayment: Math.max(0, amount) });
+	};
+
+	const chosen: PayoffPlan | null = comparison ? comparison[plan.strategy] : null;
+	const open = debts.filter((d) => !d.isPaidOff);
+	const paidOff = debts.filter((d) => d.isPaidOff);
+	// Open debts in the order the plan pays them down
+	const ordered = chosen
+		? [...open].sort(
+				(a, b) =>
+					(chosen.payoffMonths[a.id] ?? '9999').localeCompare(
+						chosen.payoffMonths[b.id] ?? '9999'
+					) || b.apr - a.apr
+			)
+		: open;
+
+	return (
+		<View style={[styles.root, { paddingTop: insets.top }]}>
+			<View style={styles.headerRow}>
+				<BorderlessButton onPress={() => router.back()} hitSlop={12}>
+					<Ionicons name="chevron-back" size={24} color={palette.text} />
+				</BorderlessButton>
+				<AppText.Heading style={styles.headerTitle}>Debts</AppText.Heading>
+				<BorderlessButton onPress={() => openEditor()} hitSlop={12} accessibilityLabel="New debt">
+					<Ionicons name="add" size={24} color={palette.text} />
+				</BorderlessButton>
+			</View>
+
+			{!hasLoaded ? (
+				<View style={styles.loadingBlock}>
+					<ActivityIndicator size="large" color={palette.primary} />
+				</View>
+			) : (
+				<ScrollView
+					contentContainerStyle={[
+						styles.scrollContent,
+						{ paddingBottom: insets.bottom + space.xxl },
+					]}
+					keyboardShouldPersistTaps="handled"
+					showsVerticalScrollIndicator={false}
+				>
+					{debts.length === 0 ? (
+						<AppReveal delayMs={30}>
+							<AppCard padding={space.lg}>
+								<AppText.Heading style={styles.sectionTitle}>No debts yet</AppText.Heading>
+								<AppText.Body color="muted" style={styles.emptyBody}>
+									{onboardingDebt > 0
+										? `You noted ${currency(onboardingDebt)} of debt when you set up. Add it with its interest rate and minimum payment to plan the payoff; split it up if it's more than one loan or card.`
+										: 'Add each card or loan with its interest rate and minimum payment to see when you’ll be debt-free.'}
+								</AppText.Body>
+								<AppButton
+									label={onboardingDebt > 0 ? `Add ${currency(onboardingDebt)}` : 'New debt'}
+									variant="primary"
+									icon="add"
+									iconPosition="left"
+									onPress={() => openEditor(onboardingDebt > 0 ? onboardingDebt : undefined)}
+									fullWidth
+								/>
+							</AppCard>
+						</AppReveal>
+					) : (
+						<>
+							<AppReveal delayMs={30}>
+								<AppCard padding={space.lg}>
+									<Line label="Still owed" value={currency(totalOwed)} strong />
+									<Line label="Minimums" value={`${currency(minimumTotal)} / month`} />
+									{chosen ? (
+										<Line label="Debt-free" value={monthLabel(chosen.debtFreeMonth)} />
+									) : null}
+								</AppCard>
+							</AppReveal>
+
+							{comparison && chosen ? (
+								<AppReveal delayMs={60}>
+									<AppCard padding={space.lg}>
+										<AppText.Heading style={styles.sectionTitle}>Payoff plan</AppText.Heading>
+										<AppText.Label color="muted" style={styles.optionLabel}>
+											Paying each month
+										</AppText.Label>
+										<TextInput
+											style={styles.input}
+											value={payment}
+											onChangeText={setPayment}
+											onEndEditing={savePayment}
+											onSubmitEditing={savePayment}
+											placeholder={`${formatNumber(minimumTotal, { grouping: false })} (the minimums)`}
+											placeholderTextColor={palette.textSubtle}
+											keyboardType="decimal-pad"
+											returnKeyType="done"
+										/>
+										{chosen.monthlyPayment > (parseAmount(payment) ?? 0) && payment.trim() ? (
+											<AppText.Caption color="warning" style={styles.hint}>
+												Raised to the minimums, {currency(minimumTotal)}.
+											</AppText.Caption>
+										) : null}
+										<View style={styles.chipRow}>
+											{PAYOFF_STRATEGIES.map(({ strategy, label }) => (
+												<AppChip
+													key={strategy}
+													label={label}
+													selected={plan.strategy === strategy}
+													onPress={() => void setPlan({ strategy })}
+												/>
+											))}
+										</View>
+										<AppText.Caption color="muted" style={styles.hint}>
+											{PAYOFF_STRATEGIES.find((s) => s.strategy === plan.strategy)?.hint}; the
+											rest just get their minimum.
+										</AppText.Caption>
+
+										{PAYOFF_STRATEGIES.map(({ strategy, label }) => (
+											<Line
+												key={strategy}
+												label={label}
+												value={`${monthLabel(comparison[strategy].debtFreeMonth)} · ${currency(comparison[strategy].totalInterest)} interest`}
+											/>
+										))}
+										<View style={styles.divider} />
+										<AppText.Caption color="muted" style={styles.note}>
+											{comparison.avalancheSaves > 0
+												? `Avalanche saves ${currency(comparison.avalancheSaves)} in interest over snowball.`
+												: 'Both orders cost the same in interest here.'}{' '}
+											{savingsOverMinimums(comparison.minimumsOnly, chosen, currency)}
+										</AppText.Caption>
+									</AppCard>
+								</AppReveal>
+							) : null}
+
+							{ordered.map((debt, i) => (
+								<AppReveal key={debt.id} delayMs={90 + i * 30}>
+									<AppCard
+										padding={space.lg}
+										onPress={() => openDetail(debt.id)}
+										accessibilityLabel={`Debt ${debt.name}`}
+									>
+										<View style={styles.debtHeader}>
+											<AppText.Body style={styles.debtName} numberOfLines={1}>
+												{debt.name}
+											</AppText.Body>
+											<AppText.Body>{currency(debt.currentBalance)}</AppText.Body>
+										</View>
+										<AppText.Caption color="muted">
+											{formatNumber(debt.apr)}% APR · {currency(debt.minPayment)} min · due{' '}
+											{formatDate(debt.nextDueDate, 'monthDay')}
+										</AppText.Caption>
+										{chosen ? (
+											<AppText.Caption color="muted" style={styles.debtMeta}>
+												Paid off {monthLabel(chosen.payoffMonths[debt.id] ?? null)}
+											</AppText.Caption>
+										) : null}
+									</AppCard>
+								</AppReveal>
+							))}
+
+							{paidOff.length > 0 ? (
+								<AppReveal delayMs={90 + ordered.length * 30}>
+									<AppCard padding={space.lg}>
+										<AppText.Heading style={styles.sectionTitle}>Paid off</AppText.Heading>
+										{paidOff.map((debt) => (
+											<BorderlessButton
+												key={debt.id}
+												onPress={() => openDetail(debt.id)}
+												accessibilityLabel={`Debt ${debt.name}`}
+											>
+												<View style={styles.line}>
+													<AppText.Body>{debt.name}</AppText.Body>
+													<AppText.Body color="success">{currency(debt.paid)} paid</AppText.Body>
+												</View>
+											</BorderlessButton>
+										))}
+									</AppCard>
+								</AppReveal>
+							) : null}
+						</>
+					)}
+				</ScrollView>
+			)}
+		</View>
+	);
+}
+
+/**
+ * How much the plan saves over each debt paying only its minimum; rolling
+ * freed-up minimums over saves something even without paying more.
+ */
+function savingsOverMinimums(
+	minimumsOnly: PayoffPlan,
+	chosen: PayoffPlan,
+	currency: (amount: number) => string
+): string {
+	if (!minimumsOnly.debtFreeMonth) {
+		return chosen.debtFreeMonth ? 'Paying only the minimums would never clear them.' : '';
+	}
+	const saved = Math.round((minimumsOnly.totalInterest - chosen.totalInterest) * 100) / 100;
+	const months = minimumsOnly.months.length - chosen.months.length;
+	if (saved <= 0) return '';
+	return `That’s ${currency(saved)} less interest than paying only the minimums${months > 0 ? `, and ${months} month${months === 1 ? '' : 's'} sooner` : ''}.`;
+}
+
+function Line({ label, value, strong }: { label: string; value: string; strong?: boolean }) {
+	return (
+		<View style={styles.line}>
+			<AppText.Body color="muted">{label}</AppText.Body>
+			<AppText.Body style={strong ? styles.strong : undefined}>{value}</AppText.Body>
+		</View>
+	);
+}
+
+const styles = StyleSheet.create({
+	root: {
+		flex: 1,
+		backgroundColor: palette.bg,
+	},
+	headerRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: space.lg,
+		paddingVertical: space.sm,
+		borderBottomWidth: StyleSheet.hairlineWidth,
+		borderBottomColor: palette.border,
+	},
+	headerTitle: {
+		flex: 1,
+		textAlign: 'center',
+	},
+	loadingBlock: {
+		flex: 1,
+		alignItems: 'center',
+		justifyContent: 'center',
+	},
+	scrollContent: {
+		paddingHorizontal: space.lg,
+		paddingTop: space.lg,
+		gap: space.md,
+	},
+	sectionTitle: {
+		marginBottom: space.sm,
+	},
+	emptyBody: {
+		lineHeight: 22,
+		marginBottom: space.md,
+	},
+	optionLabel: {
+		marginBottom: space.xs,
+	},
+	input: {
+		borderRadius: radius.xl2,
+		borderWidth: StyleSheet.hairlineWidth,
+		borderColor: palette.border,
+		backgroundColor: palette.input,
+		paddingHorizontal: space.md,
+		paddingVertical: Platform.OS === 'ios' ? 12 : 10,
+		fontSize: 16,
+		color: palette.text,
+		marginBottom: space.sm,
+	},
+	hint: {
+		marginBottom: space.sm,
+	},
+	chipRow: {
+		flexDirection: 'row',
+		flexWrap: 'wrap',
+		marginBottom: space.xs,
+	},
+	line: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+		gap: space.md,
+		paddingVertical: space.xs,
+	},
+	strong: {
+		fontWeight: '600',
+	},
+	divider: {
+		height: StyleSheet.hairlineWidth,
+		backgroundColor: palette.border,
+		marginVertical: space.xs,
+	},
+	note: {
+		marginTop: space.sm,
+		lineHeight: 18,
+	},
+	debtHeader: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+		gap: space.md,
+		marginBottom: space.xs,
+	},
+	debtName: {
+		flex: 1,
+		fontWeight: '600',
+	},
+	debtMeta: {
+		marginTop: space.xs,
+	},
+});
@@ -0,0 +1,12 @@
+import React from 'react';
+import { Stack } from 'expo-router';
+
+export default function GoalsLayout() {
+	return (
+		<Stack screenOptions={{ animation: 'slide_from_right', gestureEnabled: true }}>
+			<Stack.Screen name="index" options={{ headerShown: false }} />
+			<Stack.Screen name="detail" options={{ headerShown: false }} />
+			<Stack.Screen name="edit" options={{ headerShown: false }} />
+		</Stack>
+	);
+}
@@ -0,0 +1,310 @@
+import React, { useContext, useState } from 'react';
+import { View, StyleSheet, ScrollView, TextInput, Platform } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useLocalSearchParams, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { BorderlessButton } from 'react-native-gesture-handler';
+import { useGoal } from '../../../../src/context/goalContext';
+import { useCurrency } from '../../../../src/context/currencyContext';
+import { useLocale } from '../../../../src/context/localeContext';
+import { ProfileContext } from '../../../../src/context/profileContext';
+import {
+	GOAL_STATUS_LABELS,
+	projectCompletion,
+	type GoalStatus,
+	type LocalGoal,
+} from '../../../../src/lib/goals';
+import { palette, radius, space } from '../../../../src/ui/theme';
+import { AppCard, AppText, AppButton, AppChip, AppReveal } from '../../../../src/ui/primitives';
+
+const STATUS_COLORS: Record<GoalStatus, 'success' | 'warning' | 'danger' | 'muted'> = {
+	completed: 'success',
+	on_track: 'success',
+	behind: 'warning',
+	overdue: 'danger',
+	not_started: 'muted',
+};
+
+/** Whole-unit weekly amounts to try: what's needed, and the current pace nudged up. */
+function whatIfPresets(goal: LocalGoal): number[] {
+	const amounts = [
+		Math.ceil(goal.requiredPerWeek),
+		Math.ceil(goal.ratePerWeek * 1.5),
+		Math.ceil(goal.ratePerWeek * 2),
+	].filter((n) => n > 0 && n !== Math.ceil(goal.ratePerWeek));
+	return [...new Set(amounts)].sort((a, b) => a - b);
+}
+
+export default function GoalDetailScreen() {
+	const { id } = useLocalSearchParams<{ id: string }>();
+	const insets = useSafeAreaInsets();
+	const { goals } = useGoal();
+	const { format: currency } = useCurrency();
+	const { formatDate, parseAmount } = useLocale();
+	const showWhatIf =
+		useContext(ProfileContext)?.profile?.preferences?.goalSettings?.ai?.whatIf ?? true;
+	const [whatIf, setWhatIf] = useState('');
+	const goal = (goals as LocalGoal[]).find((g) => g.id === id);
+
+	if (!goal) {
+		return (
+			<View style={[styles.root, { paddingTop: insets.top }]}>
+				<View style={styles.headerRow}>
+					<BorderlessButton onPress={() => router.back()} hitSlop={12}>
+						<Ionicons name="chevron-back" size={24} color={palette.text} />
+					</BorderlessButton>
+					<AppText.Heading style={styles.headerTitle}>Goal</AppText.Heading>
+					<View style={{ width: 24 }} />
+				</View>
+				<View style={styles.scrollContent}>
+					<AppText.Body color="muted">This goal was deleted.</AppText.Body>
+				</View>
+			</View>
+		);
+	}
+
+	const openEditor = () =>
+		router.push({ pathname: '/(tabs)/dashboard/goals/edit', params: { id: goal.id } });
+	const perWeek = parseAmount(whatIf) ?? 0;
+	const whatIfDate = perWeek > 0 ? projectCompletion(goal.remaining, perWeek) : null;
+
+	return (
+		<View style={[styles.root, { paddingTop: insets.top }]}>
+			<View style={styles.headerRow}>
+				<BorderlessButton onPress={() => router.back()} hitSlop={12}>
+					<Ionicons name="chevron-back" size={24} color={palette.text} />
+				</BorderlessButton>
+				<AppText.Heading style={styles.headerTitle} numberOfLines={1}>
+					{goal.name}
+				</AppText.Heading>
+				<BorderlessButton
+					onPress={openEditor}
+					hitSlop={12}
+					accessibilityLabel={`Edit goal ${goal.name}`}
+				>
+					<Ionicons name="create-outline" size={22} color={palette.text} />
+				</BorderlessButton>
+			</View>
+
+			<ScrollView
+				contentContainerStyle={[
+					styles.scrollContent,
+					{ paddingBottom: insets.bottom + space.xxl },
+				]}
+				keyboardShouldPersistTaps="handled"
+				showsVerticalScrollIndicator={false}
+			>
+				<AppReveal delayMs={30} distance={8}>
+					<AppText.Caption color={STATUS_COLORS[goal.status]} style={styles.kicker}>
+						{GOAL_STATUS_LABELS[goal.status]} · by {formatDate(goal.deadline, 'monthDay')}
+					</AppText.Caption>
+				</AppReveal>
+
+				<AppReveal delayMs={60}>
+					<AppCard padding={space.lg}>
+						<View style={styles.barTrack}>
+							<View
+								style={[
+									styles.barFill,
+									{ width: `${goal.percent}%` },
+									goal.status === 'behind' && styles.barWarn,
+									goal.status === 'overdue' && styles.barOver,
+								]}
+							/>
+						</View>
+						<Line label="Target" value={currency(goal.target)} />
+						{goal.startingAmount > 0 ? (
+							<Line label="Set aside before" value={currency(goal.startingAmount)} />
+						) : null}
+						<Line label="From linked entries" value={currency(goal.contributed)} />
+						<View style={styles.divider} />
+						<Line label="Still to save" value={currency(goal.remaining)} strong />
+						{!goal.isCompleted ? (
+							<>
+								<Line label="Saving lately" value={`${currency(goal.ratePerWeek)} / week`} />
+								{!goal.isOverdue ? (
+									<Line
+										label={`Needed for the next ${goal.daysLeft} days`}
+										value={`${currency(goal.requiredPerWeek)} / week`}
+									/>
+								) : null}
+								<AppText.Caption color="muted" style={styles.note}>
+									{goal.projectedDate
+										? `At this pace you reach it around ${formatDate(goal.projectedDate)}.`
+										: 'Link entries to this goal to see when you’ll reach it.'}
+								</AppText.Caption>
+							</>
+						) : null}
+					</AppCard>
+				</AppReveal>
+
+				{showWhatIf && !goal.isCompleted ? (
+					<AppReveal delayMs={90}>
+						<AppCard padding={space.lg}>
+							<AppText.Heading style={styles.sectionTitle}>What if</AppText.Heading>
+							<TextInput
+								style={styles.input}
+								value={whatIf}
+								onChangeText={setWhatIf}
+								placeholder="Amount per week"
+								placeholderTextColor={palette.textSubtle}
+								keyboardType="decimal-pad"
+							/>
+							<View style={styles.chipRow}>
+								{whatIfPresets(goal).map((amount) => (
+									<AppChip
+										key={amount}
+										label={`${currency(amount)} / week`}
+										selected={perWeek === amount}
+										onPress={() => setWhatIf(String(amount))}
+									/>
+								))}
+							</View>
+							{whatIfDate ? (
+								<AppText.Body
+									color={whatIfDate <= goal.deadline.slice(0, 10) ? 'success' : 'warning'}
+								>
+									You’d reach it around {formatDate(whatIfDate)}.
+								</AppText.Body>
+							) : (
+								<AppText.Caption color="muted">
+									Try a weekly amount to see when you’d get there.
+								</AppText.Caption>
+							)}
+						</AppCard>
+					</AppReveal>
+				) : null}
+
+				<AppReveal delayMs={120}>
+					<AppCard padding={space.lg}>
+						<AppText.Heading style={styles.sectionTitle}>Contributions</AppText.Heading>
+						{goal.contributions.length === 0 ? (
+							<AppText.Body color="muted">
+								Open an entry and pick this goal under “Toward a goal”.
+							</AppText.Body>
+						) : (
+							goal.contributions.map((c) => (
+								<View key={c.transactionId} style={styles.line}>
+									<View style={styles.contribution}>
+										<AppText.Body numberOfLines={1}>{c.description || 'Entry'}</AppText.Body>
+										<AppText.Caption color="muted">{formatDate(c.date)}</AppText.Caption>
+									</View>
+									<AppText.Body color="success">+{currency(c.amount)}</AppText.Body>
+								</View>
+							))
+						)}
+					</AppCard>
+				</AppReveal>
+
+				<AppReveal delayMs={150}>
+					<AppButton
+						label="Edit goal"
+						variant="secondary"
+						icon="create-outline"
+						iconPosition="left"
+						fullWidth
+						onPress={openEditor}
+					/>
+				</AppReveal>
+			</ScrollView>
+		</View>
+	);
+}
+
+function Line({ label, value, strong }: { label: string; value: string; strong?: boolean }) {
+	return (
+		<View style={styles.line}>
+			<AppText.Body color="muted">{label}</AppText.Body>
+			<AppText.Body style={strong ? styles.strong : undefined}>{value}</AppText.Body>
+		</View>
+	);
+}
+
+const styles = StyleSheet.create({
+	root: {
+		flex: 1,
+		backgroundColor: palette.bg,
+	},
+	headerRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: space.lg,
+		paddingVertical: space.sm,
+		borderBottomWidth: StyleSheet.hairlineWidth,
+		borderBottomColor: palette.border,
+	},
+	headerTitle: {
+		flex: 1,
+		textAlign: 'center',
+	},
+	scrollContent: {
+		paddingHorizontal: space.lg,
+		paddingTop: space.lg,
+		gap: space.md,
+	},
+	kicker: {
+		textTransform: 'uppercase',
+		letterSpacing: 0.6,
+		fontWeight: '600',
+	},
+	sectionTitle: {
+		marginBottom: space.md,
+	},
+	line: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+		gap: space.md,
+		paddingVertical: space.xs,
+	},
+	contribution: {
+		flex: 1,
+	},
+	strong: {
+		fontWeight: '600',
+	},
+	divider: {
+		height: StyleSheet.hairlineWidth,
+		backgroundColor: palette.border,
+		marginVertical: space.xs,
+	},
+	note: {
+		marginTop: space.sm,
+		lineHeight: 18,
+	},
+	input: {
+		borderRadius: radius.xl2,
+		borderWidth: StyleSheet.hairlineWidth,
+		borderColor: palette.border,
+		backgroundColor: palette.input,
+		paddingHorizontal: space.md,
+		paddingVertical: Platform.OS === 'ios' ? 12 : 10,
+		fontSize: 16,
+		color: palette.text,
+		marginBottom: space.sm,
+	},
+	chipRow: {
+		flexDirection: 'row',
+		flexWrap: 'wrap',
+		marginBottom: space.sm,
+	},
+	barTrack: {
+		height: 8,
+		borderRadius: radius.pill,
+		backgroundColor: palette.track,
+		overflow: 'hidden',
+		marginBottom: space.md,
+	},
+	barFill: {
+		height: '100%',
+		borderRadius: radius.pill,
+		backgroundColor: palette.primary,
+	},
+	barWarn: {
+		backgroundColor: palette.warning,
+	},
+	barOver: {
+		backgroundColor: palette.danger,
+	},
+});
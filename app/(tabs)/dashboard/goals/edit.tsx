@@ -0,0 +1,247 @@
+import React, { useContext, useEffect, useRef, useState } from 'react';
+import {
+	View,
+	StyleSheet,
+	ScrollView,
+	TextInput,
+	Alert,
+	Platform,
+	KeyboardAvoidingView,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useLocalSearchParams, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { BorderlessButton } from 'react-native-gesture-handler';
+import { useGoal, type CreateGoalData } from '../../../../src/context/goalContext';
+import { useLocale } from '../../../../src/context/localeContext';
+import { ProfileContext } from '../../../../src/context/profileContext';
+import type { LocalGoal } from '../../../../src/lib/goals';
+import { toYmd } from '../../../../src/lib/week-analytics';
+import { DateField } from '../../../../src/components/DateField';
+import { palette, radius, space } from '../../../../src/ui/theme';
+import { AppCard, AppText, AppButton } from '../../../../src/ui/primitives';
+
+type Draft = {
+	name: string;
+	target: string;
+	deadline: string;
+	saved: string;
+};
+
+function daysFromToday(days: number): string {
+	const d = new Date();
+	d.setDate(d.getDate() + days);
+	return toYmd(d);
+}
+
+export default function GoalEditScreen() {
+	const { id } = useLocalSearchParams<{ id?: string }>();
+	const insets = useSafeAreaInsets();
+	const { goals, addGoal, updateGoal, updateGoalCurrent, deleteGoal } = useGoal();
+	const { parseAmount, formatNumber } = useLocale();
+	const goalDefaults = useContext(ProfileContext)?.profile?.preferences?.goalSettings?.defaults;
+	const goal = id ? (goals as LocalGoal[]).find((g) => g.id === id) : undefined;
+	const [saving, setSaving] = useState(false);
+	const [draft, setDraft] = useState<Draft>({
+		name: '',
+		target: goalDefaults?.target ? formatNumber(goalDefaults.target, { grouping: false }) : '',
+		deadline: daysFromToday(goalDefaults?.dueDays ?? 90),
+		saved: '',
+	});
+
+	// Fill the form once; later contributions must not undo edits
+	const initializedRef = useRef(false);
+	useEffect(() => {
+		if (!goal || initializedRef.current) return;
+		initializedRef.current = true;
+		setDraft({
+			name: goal.name,
+			target: formatNumber(goal.target, { grouping: false }),
+			deadline: goal.deadline.slice(0, 10),
+			saved: goal.startingAmount ? formatNumber(goal.startingAmount, { grouping: false }) : '',
+		});
+	}, [goal, formatNumber]);
+
+	const onSave = async () => {
+		const data: CreateGoalData = {
+			name: draft.name,
+			target: parseAmount(draft.target) ?? NaN,
+			deadline: draft.deadline,
+			icon: goal?.icon ?? 'flag-outline',
+			color: goal?.color ?? palette.primary,
+		};
+		const saved = draft.saved.trim() ? (parseAmount(draft.saved) ?? NaN) : 0;
+		setSaving(true);
+		try {
+			const next = goal ? await updateGoal(goal.id, data) : await addGoal(data);
+			if (saved !== (goal?.startingAmount ?? 0)) await updateGoalCurrent(next.id, saved);
+			router.back();
+		} catch (e) {
+			Alert.alert('Goal', e instanceof Error ? e.message : String(e));
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const confirmDelete = () => {
+		if (!goal) return;
+		Alert.alert(`Delete ${goal.name}?`, 'Entries linked to it are not changed.', [
+			{ text: 'Cancel', style: 'cancel' },
+			{
+				text: 'Delete',
+				style: 'destructive',
+				onPress: async () => {
+					try {
+						await deleteGoal(goal.id);
+						router.dismissTo('/(tabs)/dashboard/goals');
+					} catch (e) {
+						Alert.alert('Goal', e instanceof Error ? e.message : String(e));
+					}
+				},
+			},
+		]);
+	};
+
+	return (
+		<KeyboardAvoidingView
+			style={[styles.root, { paddingTop: insets.top }]}
+			behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+		>
+			<View style={styles.headerRow}>
+				<BorderlessButton onPress={() => router.back()} hitSlop={12}>
+					<Ionicons name="chevron-back" size={24} color={palette.text} />
+				</BorderlessButton>
+				<AppText.Heading style={styles.headerTitle}>
+					{goal ? 'Edit goal' : 'New goal'}
+				</AppText.Heading>
+				<View style={{ width: 24 }} />
+			</View>
+
+			<ScrollView
+				contentContainerStyle={[
+					styles.scrollContent,
+					{ paddingBottom: insets.bottom + space.xxl },
+				]}
+				keyboardShouldPersistTaps="handled"
+				showsVerticalScrollIndicator={false}
+			>
+				<AppCard padding={space.lg}>
+					<TextInput
+						style={styles.input}
+						value={draft.name}
+						onChangeText={(name) => setDraft((d) => ({ ...d, name }))}
+						placeholder="Name, e.g. Emergency fund"
+						placeholderTextColor={palette.textSubtle}
+						editable={!saving}
+						maxLength={60}
+					/>
+					<TextInput
+						style={styles.input}
+						value={draft.target}
+						onChangeText={(target) => setDraft((d) => ({ ...d, target }))}
+						placeholder="Target amount"
+						placeholderTextColor={palette.textSubtle}
+						keyboardType="decimal-pad"
+						editable={!saving}
+					/>
+
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Reach it by
+					</AppText.Label>
+					<DateField
+						value={draft.deadline}
+						onChange={(deadline) => setDraft((d) => ({ ...d, deadline }))}
+						containerStyle={styles.dateField}
+					/>
+
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Saved so far
+					</AppText.Label>
+					<AppText.Caption color="muted" style={styles.hint}>
+						Anything put aside before you started tracking. Entries linked to the
+						goal are added on top.
+					</AppText.Caption>
+					<TextInput
+						style={styles.input}
+						value={draft.saved}
+						onChangeText={(saved) => setDraft((d) => ({ ...d, saved }))}
+						placeholder="0"
+						placeholderTextColor={palette.textSubtle}
+						keyboardType="decimal-pad"
+						editable={!saving}
+					/>
+
+					<View style={styles.actions}>
+						<AppButton
+							label={goal ? 'Save goal' : 'Add goal'}
+							variant="primary"
+							loading={saving}
+							disabled={saving || !draft.name.trim() || !draft.target.trim()}
+							onPress={() => void onSave()}
+							fullWidth
+						/>
+						{goal ? (
+							<AppButton
+								label="Delete goal"
+								variant="ghost"
+								disabled={saving}
+								onPress={confirmDelete}
+								fullWidth
+							/>
+						) : null}
+					</View>
+				</AppCard>
+			</ScrollView>
+		</KeyboardAvoidingView>
+	);
+}
+
+const styles = StyleSheet.create({
+	root: {
+		flex: 1,
+		backgroundColor: palette.bg,
+	},
+	headerRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: space.lg,
+		paddingVertical: space.sm,
+		borderBottomWidth: StyleSheet.hairlineWidth,
+		borderBottomColor: palette.border,
+	},
+	headerTitle: {
+		flex: 1,
+		textAlign: 'center',
+	},
+	scrollContent: {
+		paddingHorizontal: space.lg,
+		paddingTop: space.lg,
+		gap: space.md,
+	},
+	input: {
+		borderRadius: radius.xl2,
+		borderWidth: StyleSheet.hairlineWidth,
+		borderColor: palette.border,
+		backgroundColor: palette.input,
+		paddingHorizontal: space.md,
+		paddingVertical: Platform.OS === 'ios' ? 12 : 10,
+		fontSize: 16,
+		color: palette.text,
+		marginBottom: space.sm,
+	},
+	dateField: {
+		marginBottom: space.sm,
+	},
+	optionLabel: {
+		marginBottom: space.xs,
+		marginTop: space.xs,
+	},
+	hint: {
+		marginBottom: space.sm,
+	},
+	actions: {
+		gap: space.sm,
+		marginTop: space.md,
+	},
+});
@@ -0,0 +1,191 @@
+import React from 'react';
+import { View, StyleSheet, ScrollView, ActivityIndicator } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { BorderlessButton } from 'react-native-gesture-handler';
+import { useGoal } from '../../../../src/context/goalContext';
+import { useCurrency } from '../../../../src/context/currencyContext';
+import { useLocale } from '../../../../src/context/localeContext';
+import {
+	GOAL_STATUS_LABELS,
+	type GoalStatus,
+	type LocalGoal,
+} from '../../../../src/lib/goals';
+import { palette, radius, space } from '../../../../src/ui/theme';
+import { AppCard, AppText, AppButton, AppReveal } from '../../../../src/ui/primitives';
+
+const STATUS_COLORS: Record<GoalStatus, 'success' | 'warning' | 'danger' | 'muted'> = {
+	completed: 'success',
+	on_track: 'success',
+	behind: 'warning',
+	overdue: 'danger',
+	not_started: 'muted',
+};
+
+const openEditor = () => router.push('/(tabs)/dashboard/goals/edit');
+
+const openDetail = (id: string) =>
+	router.push({ pathname: '/(tabs)/dashboard/goals/detail', params: { id } });
+
+export default function GoalsScreen() {
+	const insets = useSafeAreaInsets();
+	const { goals, hasLoaded } = useGoal();
+	const { format: currency } = useCurrency();
+	const { formatDate } = useLocale();
+	const list = goals as LocalGoal[];
+
+	return (
+		<View style={[styles.root, { paddingTop: insets.top }]}>
+			<View style={styles.headerRow}>
+				<BorderlessButton onPress={() => router.back()} hitSlop={12}>
+					<Ionicons name="chevron-back" size={24} color={palette.text} />
+				</BorderlessButton>
+				<AppText.Heading style={styles.headerTitle}>Goals</AppText.Heading>
+				<BorderlessButton onPress={openEditor} hitSlop={12} accessibilityLabel="New goal">
+					<Ionicons name="add" size={24} color={palette.text} />
+				</BorderlessButton>
+			</View>
+
+			{!hasLoaded ? (
+				<View style={styles.loadingBlock}>
+					<ActivityIndicator size="large" color={palette.primary} />
+				</View>
+			) : (
+				<ScrollView
+					contentContainerStyle={[
+						styles.scrollContent,
+						{ paddingBottom: insets.bottom + space.xxl },
+					]}
+					showsVerticalScrollIndicator={false}
+				>
+					{list.length === 0 ? (
+						<AppReveal delayMs={30}>
+							<AppCard padding={space.lg}>
+								<AppText.Heading style={styles.sectionTitle}>No goals yet</AppText.Heading>
+								<AppText.Body color="muted" style={styles.emptyBody}>
+									Set an amount and a date to reach it by. Link entries to the goal
+									as you save and it projects when you&apos;ll get there.
+								</AppText.Body>
+								<AppButton
+									label="New goal"
+									variant="primary"
+									icon="add"
+									iconPosition="left"
+									onPress={openEditor}
+									fullWidth
+								/>
+							</AppCard>
+						</AppReveal>
+					) : (
+						list.map((goal, i) => {
+							return (
+								<AppReveal key={goal.id} delayMs={30 + i * 30}>
+									<AppCard
+										padding={space.lg}
+										onPress={() => openDetail(goal.id)}
+										accessibilityLabel={`Goal ${goal.name}`}
+									>
+										<View style={styles.goalHeader}>
+											<AppText.Body style={styles.goalName} numberOfLines={1}>
+												{goal.name}
+											</AppText.Body>
+											<AppText.Caption color={STATUS_COLORS[goal.status]}>
+												{GOAL_STATUS_LABELS[goal.status]}
+											</AppText.Caption>
+										</View>
+										<View style={styles.barTrack}>
+											<View
+												style={[
+													styles.barFill,
+													{ width: `${goal.percent}%` },
+													goal.status === 'behind' && styles.barWarn,
+													goal.status === 'overdue' && styles.barOver,
+												]}
+											/>
+										</View>
+										<AppText.Caption color="muted" style={styles.goalMeta}>
+											{currency(goal.current)} of {currency(goal.target)} · by{' '}
+											{formatDate(goal.deadline, 'monthDay')}
+											{goal.projectedDate && !goal.isCompleted
+												? ` · est. ${formatDate(goal.projectedDate, 'monthDay')}`
+												: ''}
+										</AppText.Caption>
+									</AppCard>
+								</AppReveal>
+							);
+						})
+					)}
+				</ScrollView>
+			)}
+		</View>
+	);
+}
+
+const styles = StyleSheet.create({
+	root: {
+		flex: 1,
+		backgroundColor: palette.bg,
+	},
+	headerRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: space.lg,
+		paddingVertical: space.sm,
+		borderBottomWidth: StyleSheet.hairlineWidth,
+		borderBottomColor: palette.border,
+	},
+	headerTitle: {
+		flex: 1,
+		textAlign: 'center',
+	},
+	loadingBlock: {
+		flex: 1,
+		alignItems: 'center',
+		justifyContent: 'center',
+	},
+	scrollContent: {
+		paddingHorizontal: space.lg,
+		paddingTop: space.lg,
+		gap: space.md,
+	},
+	sectionTitle: {
+		marginBottom: space.sm,
+	},
+	emptyBody: {
+		lineHeight: 22,
+		marginBottom: space.md,
+	},
+	goalHeader: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+		gap: space.md,
+		marginBottom: space.sm,
+	},
+	goalName: {
+		flex: 1,
+		fontWeight: '600',
+	},
+	goalMeta: {
+		marginTop: space.sm,
+	},
+	barTrack: {
+		height: 8,
+		borderRadius: radius.pill,
+		backgroundColor: palette.track,
+		overflow: 'hidden',
+	},
+	barFill: {
+		height: '100%',
+		borderRadius: radius.pill,
+		backgroundColor: palette.primary,
+	},
+	barWarn: {
+		backgroundColor: palette.warning,
+	},
+	barOver: {
+		backgroundColor: palette.danger,
+	},
+});
@@ -25,6 +25,19 @@ import {
 import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { TransactionContext } from '../../../src/context/transactionContext';
+import { useAccounts } from '../../../src/context/accountContext';
+import { useBudget } from '../../../src/context/budgetContext';
+import { useGoal } from '../../../src/context/goalContext';
+import { useDebts } from '../../../src/context/debtContext';
+import { useCurrency } from '../../../src/context/currencyContext';
+import { useLocale } from '../../../src/context/localeContext';
+import { accountIcon, type Account } from '../../../src/lib/accounts';
+import type { LocalBudget } from '../../../src/lib/budgets';
+import { GOAL_STATUS_LABELS, type LocalGoal } from '../../../src/lib/goals';
+import {
+	summarizeWeekTransactions,
+	type WeekCategorySlice,
+} from '../../../src/lib/week-analytics';
 import useAuth from '../../../src/context/AuthContext';
 // MVP: InsightsService, DashboardService removed - cash-only focus
 import {
@@ -43,18 +56,16 @@ import {
 import { ErrorBoundary } from '../../../src/components/ErrorBoundary';
 import { useConnectivity } from '../../../src/utils/connectivity';
 
-const currency = new Intl.NumberFormat('en-US', {
-	style: 'currency',
-	currency: 'USD',
-}).format;
-
 export default function DashboardPro() {
-	const { transactions, isLoading, refetch } = useContext(TransactionContext);
+	const { transactions, isLoading, refetch, pendingSyncCount } =
+		useContext(TransactionContext);
 	const { firebaseUser, user } = useAuth();
 	const insets = useSafeAreaInsets();
 	const [refreshing, setRefreshing] = useState(false);
 	const { handleLogoTap } = useDevModeEasterEgg();
 	const { isOnline } = useConnectivity();
+	const { accounts, balances, totalBalance } = useAccounts();
+	const { toHome } = useCurrency();
 
 	// MVP: Simplified refresh - transactions only
 	const onRefresh = useCallback(async () => {
@@ -73,45 +84,29 @@ export default function DashboardPro() {
 		}, [refetch]),
 	);
 
-	// Calculate "Cash on Me" (sum of IN minus sum of OUT)
-	const totalBalance = useMemo(() => {
-		let balance = 0;
-		for (const t of transactions) {
-			balance += isNaN(t.amount) ? 0 : t.amount;
-		}
-		return balance;
-	}, [transactions]);
+	// "Cash on Me" is the sum of account balances: opening balances plus IN minus OUT.
+	// Archived accounts stay listed while they still hold money.
+	const accountRows = useMemo(
+		() =>
+			accounts
+				.filter((a) => !a.archived || Math.abs(balances[a.id] ?? 0) >= 0.005)
+				.map((account) => ({ account, balance: balances[account.id] ?? 0 })),
+		[accounts, balances]
+	);
 
 	// Match web Today panel: only aggregate in/out for current local day.
+	// Shares the week rollup so split transactions count per line; totals are in the home currency.
 	const todaySummary = useMemo(() => {
-		const now = new Date();
-		const todayIso = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
-
-		let totalIn = 0;
-		let totalOut = 0;
-
-		for (const t of transactions) {
-			const txDate = (t.date || '').slice(0, 10);
-			if (!txDate || txDate.length < 10) continue;
-			if (txDate !== todayIso) continue;
-
-			const amt = isNaN(t.amount) ? 0 : Math.abs(t.amount);
-			const isExpense =
-				t.type === 'expense' || (typeof t.amount === 'number' && t.amount < 0);
-
-			if (isExpense) {
-				totalOut += amt;
-			} else {
-				totalIn += amt;
-			}
-		}
-
+		const { totals, categories } = summarizeWeekTransactions(toHome(transactions), {
+			period: { kind: 'rolling', days: 1 },
+		});
 		return {
-			totalIn,
-			totalOut,
-			net: totalIn - totalOut,
+			totalIn: totals.in,
+			totalOut: totals.out,
+			net: totals.net,
+			categories: categories.slice(0, 3),
 		};
-	}, [transactions]);
+	}, [transactions, toHome]);
 
 	// Get recent transactions for history preview
 	const recentTransactions = useMemo(() => {
@@ -192,7 +187,9 @@ export default function DashboardPro() {
 									color={palette.danger}
 								/>
 								<AppText.Body style={offlineBannerStyles.text}>
-									You&apos;re offline. Some features may be unavailable.
+									{pendingSyncCount > 0
+										? `You're offline. ${pendingSyncCount} change${pendingSyncCount === 1 ? '' : 's'} will sync when you reconnect.`
+										: "You're offline. Some features may be unavailable."}
 								</AppText.Body>
 							</View>
 						</View>
@@ -220,7 +217,8 @@ export default function DashboardPro() {
 						<AppReveal delayMs={40}>
 							<CashOnMeCard
 								balance={totalBalance}
-								empty={transactions.length === 0}
+								accounts={accountRows}
+								empty={transactions.length === 0 && totalBalance === 0}
 							/>
 						</AppReveal>
 
@@ -257,11 +255,27 @@ export default function DashboardPro() {
 							<TodaySummaryCard summary={todaySummary} />
 						</AppReveal>
 
-						{/* Web parity: /week — 7-day rollups + category split */}
+						{/* Web parity: /week — calendar-week rollups + category split */}
 						<AppReveal delayMs={190}>
 							<WeekPulseCard />
 						</AppReveal>
 
+						<AppReveal delayMs={215}>
+							<ReportsCard />
+						</AppReveal>
+
+						<AppReveal delayMs={228}>
+							<BudgetsCard />
+						</AppReveal>
+
+						<AppReveal delayMs={234}>
+							<GoalsCard />
+						</AppReveal>
+
+						<AppReveal delayMs={237}>
+							<DebtsCard />
+						</AppReveal>
+
 						{/* History - recent entries with View All */}
 						<AppReveal delayMs={240}>
 							<RecentTransactionsList transactions={recentTransactions} />
@@ -275,7 +289,16 @@ export default function DashboardPro() {
 
 /** ----------------- MVP Subcomponents ----------------- */
 
-function CashOnMeCard({ balance, empty }: { balance: number; empty: boolean }) {
+function CashOnMeCard({
+	balance,
+	accounts,
+	empty,
+}: {
+	balance: number;
+	accounts: { account: Account; balance: number }[];
+	empty: boolean;
+}) {
+	const { format: currency } = useCurrency();
 	const isPositive = balance >= 0;
 
 	return (
@@ -293,6 +316,23 @@ function CashOnMeCard({ balance, empty }: { balance: number; empty: boolean }) {
 					{currency(balance)}
 				</AppText>
 			)}
+			{!empty && accounts.length > 1
+				? accounts.map(({ account, balance: accountBalance }) => (
+						<View key={account.id} style={cashOnMeStyles.accountRow}>
+							<Ionicons
+								name={accountIcon(account.kind) as keyof typeof Ionicons.glyphMap}
+								size={16}
+								color={palette.textMuted}
+							/>
+							<AppText.Body style={cashOnMeStyles.accountName} numberOfLines={1}>
+								{account.name}
+							</AppText.Body>
+							<AppText.Body color={accountBalance < 0 ? 'danger' : 'default'}>
+								{currency(accountBalance)}
+							</AppText.Body>
+						</View>
+					))
+				: null}
 		</AppCard>
 	);
 }
@@ -308,8 +348,7 @@ function WeekPulseCard() {
 					<AppText.Label color="muted">Weekly pulse</AppText.Label>
 					<AppText.Heading style={weekPulseStyles.title}>This week</AppText.Heading>
 					<AppText.Caption color="muted" style={weekPulseStyles.sub}>
-						Seven-day in, out, net, and spending by category — same window as
-						web Week.
+						In, out, net, and spending by category — compared with last week.
 					</AppText.Caption>
 				</View>
 				<Ionicons name="chevron-forward" size={18} color={palette.textSubtle} />
@@ -318,6 +357,176 @@ function WeekPulseCard() {
 	);
 }
 
+function ReportsCard() {
+	return (
+		<AppCard
+			onPress={() => router.push('/(tabs)/dashboard/reports')}
+			accessibilityLabel="Month and year reports"
+		>
+			<View style={weekPulseStyles.header}>
+				<View style={weekPulseStyles.copy}>
+					<AppText.Label color="muted">Reports</AppText.Label>
+					<AppText.Heading style={weekPulseStyles.title}>Month & year</AppText.Heading>
+					<AppText.Caption color="muted" style={weekPulseStyles.sub}>
+						Totals, categories, daily average, biggest expenses and monthly
+						trends.
+					</AppText.Caption>
+				</View>
+				<Ionicons name="chevron-forward" size={18} color={palette.textSubtle} />
+			</View>
+		</AppCard>
+	);
+}
+
+function BudgetsCard() {
+	const { budgets } = useBudget();
+	const { format: currency } = useCurrency();
+	// Closest to their limit first
+	const top = [...(budgets as LocalBudget[])]
+		.sort((a, b) => b.spentPercentage - a.spentPercentage)
+		.slice(0, 3);
+	return (
+		<AppCard
+			onPress={() => router.push('/(tabs)/dashboard/budgets')}
+			accessibilityLabel="Budgets"
+		>
+			<View style={weekPulseStyles.header}>
+				<View style={weekPulseStyles.copy}>
+					<AppText.Label color="muted">Budgets</AppText.Label>
+					{top.length === 0 ? (
+						<>
+							<AppText.Heading style={weekPulseStyles.title}>Set a budget</AppText.Heading>
+							<AppText.Caption color="muted" style={weekPulseStyles.sub}>
+								A weekly or monthly limit per category, tracked from your entries.
+							</AppText.Caption>
+						</>
+					) : (
+						top.map((budget) => (
+							<View key={budget.id} style={budgetStyles.row}>
+								<View style={budgetStyles.labelRow}>
+									<AppText.Body numberOfLines={1} style={budgetStyles.name}>
+										{budget.name}
+									</AppText.Body>
+									<AppText.Caption color={budget.remaining < 0 ? 'danger' : 'muted'}>
+										{currency(budget.spent)} / {currency(budget.available)}
+									</AppText.Caption>
+								</View>
+								<View style={budgetStyles.track}>
+									<View
+										style={[
+											budgetStyles.fill,
+											{ width: `${Math.min(100, budget.spentPercentage)}%` },
+											budget.spentPercentage >= 100 && budgetStyles.fillOver,
+										]}
+									/>
+								</View>
+							</View>
+						))
+					)}
+				</View>
+				<Ionicons name="chevron-forward" size={18} color={palette.textSubtle} />
+			</View>
+		</AppCard>
+	);
+}
+
+function GoalsCard() {
+	const { goals } = useGoal();
+	const { format: currency } = useCurrency();
+	// Unfinished goals with the nearest deadline first
+	const top = (goals as LocalGoal[])
+		.filter((g) => !g.isCompleted)
+		.sort((a, b) => a.deadline.localeCompare(b.deadline))
+		.slice(0, 3);
+	return (
+		<AppCard onPress={() => router.push('/(tabs)/dashboard/goals')} accessibilityLabel="Goals">
+			<View style={weekPulseStyles.header}>
+				<View style={weekPulseStyles.copy}>
+					<AppText.Label color="muted">Goals</AppText.Label>
+					{top.length === 0 ? (
+						<>
+							<AppText.Heading style={weekPulseStyles.title}>Save toward something</AppText.Heading>
+							<AppText.Caption color="muted" style={weekPulseStyles.sub}>
+								An amount and a date, with progress from the entries you link.
+							</AppText.Caption>
+						</>
+					) : (
+						top.map((goal) => (
+							<View key={goal.id} style={budgetStyles.row}>
+								<View style={budgetStyles.labelRow}>
+									<AppText.Body numberOfLines={1} style={budgetStyles.name}>
+										{goal.name}
+									</AppText.Body>
+									<AppText.Caption
+										color={
+											goal.status === 'overdue'
+												? 'danger'
+												: goal.status === 'behind'
+													? 'warning'
+													: 'muted'
+										}
+									>
+										{GOAL_STATUS_LABELS[goal.status]} · {currency(goal.current)} /{' '}
+										{currency(goal.target)}
+									</AppText.Caption>
+								</View>
+								<View style={budgetStyles.track}>
+									<View
+										style={[
+											budgetStyles.fill,
+											{ width: `${goal.percent}%` },
+											goal.status === 'overdue' && budgetStyles.fillOver,
+										]}
+									/>
+								</View>
+							</View>
+						))
+					)}
+				</View>
+				<Ionicons name="chevron-forward" size={18} color={palette.textSubtle} />
+			</View>
+		</AppCard>
+	);
+}
+
+function DebtsCard() {
+	const { debts, totalOwed, plan, comparison } = useDebts();
+	const { format: currency } = useCurrency();
+	const { formatDate } = useLocale();
+	const debtFree = comparison?.[plan.strategy].debtFreeMonth;
+	return (
+		<AppCard onPress={() => router.push('/(tabs)/dashboard/debts')} accessibilityLabel="Debts">
+			<View style={weekPulseStyles.header}>
+				<View style={weekPulseStyles.copy}>
+					<AppText.Label color="muted">Debts</AppText.Label>
+					{debts.length === 0 ? (
+						<>
+							<AppText.Heading style={weekPulseStyles.title}>Plan a payoff</AppText.Heading>
+							<AppText.Caption color="muted" style={weekPulseStyles.sub}>
+								Cards and loans with their rates, paid down avalanche or snowball.
+							</AppText.Caption>
+						</>
+					) : (
+						<>
+							<AppText.Heading style={weekPulseStyles.title}>
+								{currency(totalOwed)} owed
+							</AppText.Heading>
+							<AppText.Caption color="muted" style={weekPulseStyles.sub}>
+								{totalOwed === 0
+									? 'All paid off.'
+									: debtFree
+										? `Debt-free by ${formatDate(`${debtFree}-01`, 'monthYear')}`
+										: 'Payments aren’t keeping up with interest.'}
+							</AppText.Caption>
+						</>
+					)}
+				</View>
+				<Ionicons name="chevron-forward" size={18} color={palette.textSubtle} />
+			</View>
+		</AppCard>
+	);
+}
+
 function TodaySummaryCard({
 	summary,
 }: {
@@ -325,8 +534,10 @@ function TodaySummaryCard({
 		totalIn: number;
 		totalOut: number;
 		net: number;
+		categories: WeekCategorySlice[];
 	};
 }) {
+	const { format: currency } = useCurrency();
 	return (
 		<AppCard
 			onPress={() => router.push('/(tabs)/dashboard/ledger')}
@@ -344,6 +555,14 @@ function TodaySummaryCard({
 				<AppText.Body color="muted">Today OUT</AppText.Body>
 				<AppText.Body color="danger">-{currency(summary.totalOut)}</AppText.Body>
 			</View>
+			{summary.categories.map((slice) => (
+				<View key={slice.category} style={last30Styles.row}>
+					<AppText.Caption color="muted" numberOfLines={1} style={last30Styles.sliceLabel}>
+						{slice.category}
+					</AppText.Caption>
+					<AppText.Caption color="muted">{currency(slice.amount)}</AppText.Caption>
+				</View>
+			))}
 			<View style={[last30Styles.row, last30Styles.netRow]}>
 				<AppText.Body color="default">Net</AppText.Body>
 				<AppText.Body
@@ -366,11 +585,14 @@ function RecentTransactionsList({
 		_id?: string;
 		description?: string;
 		amount: number;
+		currency?: string;
 		date?: string;
 		type?: string;
 		metadata?: { category?: string };
 	}[];
 }) {
+	const { format: currency } = useCurrency();
+	const { formatDate } = useLocale();
 	if (transactions.length === 0) {
 		return (
 			<AppCard>
@@ -411,14 +633,10 @@ function RecentTransactionsList({
 				</TouchableOpacity>
 			</View>
 			{transactions.map((tx, index) => {
-				const isExpense = tx.type === 'expense' || tx.amount < 0;
+				const isTransfer = tx.type === 'transfer';
+				const isExpense = !isTransfer && (tx.type === 'expense' || tx.amount < 0);
 				const amount = Math.abs(tx.amount);
-				const date = tx.date
-					? new Date(tx.date).toLocaleDateString('en-US', {
-							month: 'short',
-							day: 'numeric',
-						})
-					: '';
+				const date = tx.date ? formatDate(tx.date, 'monthDay') : '';
 
 				const transactionId = tx.id || tx._id;
 				return (
@@ -440,11 +658,13 @@ function RecentTransactionsList({
 								style={recentStyles.transactionDesc}
 								numberOfLines={1}
 							>
-								{isExpense
-									? tx.metadata?.category ||
-										tx.description ||
-										'Cash out'
-									: tx.description || 'Cash in'}
+								{isTransfer
+									? 'Transfer'
+									: isExpense
+										? tx.metadata?.category ||
+											tx.description ||
+											'Cash out'
+										: tx.description || 'Cash in'}
 							</AppText.Body>
 							<AppText.Caption
 								color="muted"
@@ -455,10 +675,10 @@ function RecentTransactionsList({
 						</View>
 						<AppText.Body
 							style={recentStyles.transactionAmount}
-							color={isExpense ? 'danger' : 'success'}
+							color={isTransfer ? 'muted' : isExpense ? 'danger' : 'success'}
 						>
-							{isExpense ? '-' : '+'}
-							{currency(amount)}
+							{isTransfer ? '' : isExpense ? '-' : '+'}
+							{currency(amount, tx.currency)}
 						</AppText.Body>
 					</TouchableOpacity>
 				);
@@ -560,6 +780,15 @@ const cashOnMeStyles = StyleSheet.create({
 		...type.body,
 		color: palette.textMuted,
 	},
+	accountRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: space.sm,
+		marginTop: space.sm,
+	},
+	accountName: {
+		flex: 1,
+	},
 });
 
 const quickAddStyles = StyleSheet.create({
@@ -597,6 +826,36 @@ const weekPulseStyles = StyleSheet.create({
 	},
 });
 
+const budgetStyles = StyleSheet.create({
+	row: {
+		marginTop: space.sm,
+	},
+	labelRow: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+		gap: space.sm,
+		marginBottom: space.xs,
+	},
+	name: {
+		flex: 1,
+	},
+	track: {
+		height: 6,
+		borderRadius: radius.pill,
+		backgroundColor: palette.track,
+		overflow: 'hidden',
+	},
+	fill: {
+		height: '100%',
+		borderRadius: radius.pill,
+		backgroundColor: palette.primary,
+	},
+	fillOver: {
+		backgroundColor: palette.danger,
+	},
+});
+
 const last30Styles = StyleSheet.create({
 	header: {
 		flexDirection: 'row',
@@ -623,6 +882,11 @@ const last30Styles = StyleSheet.create({
 	netAmount: {
 		fontWeight: '700',
 	},
+	sliceLabel: {
+		flex: 1,
+		paddingLeft: space.md,
+		marginRight: space.sm,
+	},
 });
 
 const recentStyles = StyleSheet.create({
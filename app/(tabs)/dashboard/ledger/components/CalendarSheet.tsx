@@ -10,6 +10,7 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { palette, radius } from '../../../../../src/ui/theme';
+import { useLocale } from '../../../../../src/context/localeContext';
 
 type Props = {
 	visible: boolean;
@@ -49,6 +50,8 @@ export default function CalendarSheet({
 	maxDate,
 }: Props) {
 	const today = useMemo(() => new Date(), []);
+	const { settings: localeSettings, formatDate, weekdays: weekDays } = useLocale();
+	const weekStartsOn = localeSettings.weekStartsOn;
 	const selected = useMemo(
 		() => (value ? new Date(value + 'T00:00:00') : undefined),
 		[value]
@@ -59,9 +62,9 @@ export default function CalendarSheet({
 	);
 
 	const monthMatrix = useMemo(() => {
-		// Build 6x7 grid (Sun–Sat)
+		// Build 6x7 grid starting on the locale's first day of the week
 		const first = startOfMonth(viewMonth);
-		const firstWeekday = (first.getDay() + 7) % 7; // Sun=0
+		const firstWeekday = (first.getDay() - weekStartsOn + 7) % 7;
 		const gridStart = new Date(first);
 		gridStart.setDate(first.getDate() - firstWeekday);
 
@@ -77,7 +80,7 @@ export default function CalendarSheet({
 			weeks.push(row);
 		}
 		return weeks;
-	}, [viewMonth]);
+	}, [viewMonth, weekStartsOn]);
 
 	const min = minDate ? new Date(minDate + 'T00:00:00') : undefined;
 	const max = maxDate ? new Date(maxDate + 'T00:00:00') : undefined;
@@ -89,12 +92,7 @@ export default function CalendarSheet({
 		onClose();
 	};
 
-	const monthTitle = viewMonth.toLocaleDateString('en-US', {
-		month: 'long',
-		year: 'numeric',
-	});
-
-	const weekDays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+	const monthTitle = formatDate(viewMonth, 'monthYear');
 
 	return (
 		<Modal
@@ -2,6 +2,7 @@ import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { palette, radius } from '../../../../../src/ui/theme';
+import { useLocale } from '../../../../../src/context/localeContext';
 
 export default function CalendarTrigger({
 	dateISO,
@@ -10,18 +11,8 @@ export default function CalendarTrigger({
 	dateISO?: string;
 	onPress: () => void;
 }) {
-	const display = dateISO
-		? (() => {
-				// Parse YYYY-MM-DD directly to avoid timezone issues
-				const [year, month, day] = dateISO.split('-').map(Number);
-				const date = new Date(year, month - 1, day);
-				return date.toLocaleDateString('en-US', {
-					month: 'short',
-					day: 'numeric',
-					year: 'numeric',
-				});
-		  })()
-		: 'All Dates';
+	const { formatDate } = useLocale();
+	const display = dateISO ? formatDate(dateISO) : 'All Dates';
 
 	return (
 		<TouchableOpacity style={styles.field} onPress={onPress}>
@@ -14,47 +14,13 @@ import Animated, {
 import * as Haptics from 'expo-haptics';
 import { normalizeIconName } from '../../../../../src/constants/uiConstants';
 import type { Transaction } from '../../../../../src/context/transactionContext';
+import { useCategories } from '../../../../../src/context/categoryContext';
+import { useAccounts } from '../../../../../src/context/accountContext';
+import { useCurrency } from '../../../../../src/context/currencyContext';
+import { useLocale } from '../../../../../src/context/localeContext';
+import { accountIcon } from '../../../../../src/lib/accounts';
 import { palette, radius, space } from '../../../../../src/ui/theme';
 
-// Helper function to format date without time
-const formatDateWithoutTime = (dateString: string): string => {
-	try {
-		// Handle empty, null, or undefined date strings
-		if (
-			!dateString ||
-			typeof dateString !== 'string' ||
-			dateString.trim() === ''
-		) {
-			return 'Invalid Date';
-		}
-
-		// Extract just the date part (YYYY-MM-DD) if it's a longer string
-		const datePart = dateString.slice(0, 10);
-
-		// Check if it's a valid YYYY-MM-DD format
-		if (!/^\d{4}-\d{2}-\d{2}$/.test(datePart)) {
-			return 'Invalid Date';
-		}
-
-		// Parse the date in local timezone by creating a date object
-		// and adjusting for timezone offset
-		const [year, month, day] = datePart.split('-').map(Number);
-		const date = new Date(year, month - 1, day); // month is 0-indexed
-
-		// Check if the date is valid
-		if (isNaN(date.getTime())) {
-			return 'Invalid Date';
-		}
-
-		return date.toLocaleDateString('en-US', {
-			month: 'short',
-			day: 'numeric',
-		});
-	} catch {
-		return 'Invalid Date';
-	}
-};
-
 // Infer icon and color from description/category; uses theme palette
 const getSmartFallback = (description: string | undefined, type: 'income' | 'expense') => {
 	if (!description || typeof description !== 'string') {
@@ -132,9 +98,26 @@ const TransactionRowComponent: React.FC<TransactionRowProps> = ({
 	const TRANSLATE_THRESHOLD = -70;
 	const DELETE_WIDTH = 60;
 
-	// MVP: fixed category from metadata; show category when present for both income and expense
+	const { findCategory } = useCategories();
+	const { accounts, findAccount, defaultAccountId } = useAccounts();
+	const { homeCurrency, format, convert } = useCurrency();
+	const { formatDate } = useLocale();
+	const isTransfer = item.type === 'transfer';
+	const account = findAccount(item.metadata?.account || defaultAccountId);
+	// With a single account every row would carry the same badge
+	const showAccount = accounts.filter((a) => !a.archived).length > 1;
+
+	// Category from metadata (with its icon and color when it is a known category); show it for both income and expense
 	const rowDisplay = useMemo(() => {
+		if (item.type === 'transfer') {
+			return {
+				name: 'Transfer',
+				icon: normalizeIconName('swap-horizontal-outline'),
+				color: palette.primary,
+			};
+		}
 		const category = item.metadata?.category;
+		const known = findCategory(category, item.type);
 		const smartFallback = getSmartFallback(
 			item.description ?? category,
 			item.type
@@ -142,10 +125,10 @@ const TransactionRowComponent: React.FC<TransactionRowProps> = ({
 		const fallbackLabel = item.type === 'income' ? 'Cash In' : 'Cash Out';
 		return {
 			name: category ?? fallbackLabel,
-			icon: normalizeIconName(smartFallback.icon),
-			color: smartFallback.color,
+			icon: normalizeIconName(known?.icon ?? smartFallback.icon),
+			color: known?.color ?? smartFallback.color,
 		};
-	}, [item.type, item.description, item.metadata?.category]);
+	}, [item.type, item.description, item.metadata?.category, findCategory]);
 
 	// Clean description by removing " - Bill" suffix
 	const cleanDescription = useMemo(() => {
@@ -159,8 +142,11 @@ const TransactionRowComponent: React.FC<TransactionRowProps> = ({
 	// Title: category or type fallback (never the full description)
 	const displayTitle = rowDisplay.name;
 
-	// Subtitle: description only, truncated to one line (handled via numberOfLines + ellipsizeMode)
-	const displaySubtitle = cleanDescription || '';
+	// Subtitle: description only, truncated to one line (handled via numberOfLines + ellipsizeMode);
+	// transfers show which way the money went
+	const displaySubtitle = isTransfer
+		? `${account?.name ?? 'Account'} → ${findAccount(item.metadata?.toAccount)?.name ?? 'Account'}`
+		: cleanDescription || '';
 
 	const triggerHaptic = useCallback(() => {
 		Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -254,10 +240,18 @@ const TransactionRowComponent: React.FC<TransactionRowProps> = ({
 
 	const formattedAmount = useMemo(() => {
 		const safeAmount = isNaN(item.amount) ? 0 : item.amount;
-		const magnitude = Math.abs(safeAmount).toFixed(2);
+		const magnitude = format(Math.abs(safeAmount), item.currency);
+		if (item.type === 'transfer') return magnitude;
 		const sign = item.type === 'income' ? '+' : '-';
-		return `${sign}$${magnitude}`;
-	}, [item.amount, item.type]);
+		return `${sign}${magnitude}`;
+	}, [item.amount, item.type, item.currency, format]);
+
+	// Entries in another currency also show what they come to at home
+	const homeAmount = useMemo(() => {
+		if (!item.currency || item.currency === homeCurrency) return null;
+		const converted = convert(Math.abs(item.amount) || 0, item.currency);
+		return converted == null ? null : `≈ ${format(converted)}`;
+	}, [item.amount, item.currency, homeCurrency, convert, format]);
 
 	return (
 		<View style={styles.container}>
@@ -301,7 +295,8 @@ const TransactionRowComponent: React.FC<TransactionRowProps> = ({
 						{(item.notes ||
 							item.source ||
 							item.metadata?.location ||
-							item.metadata?.paymentMethod) && (
+							item.metadata?.paymentMethod ||
+							(showAccount && !isTransfer && account)) && (
 							<View style={styles.detailsContainer}>
 								{item.notes && (
 									<View style={styles.detailRow}>
@@ -314,6 +309,16 @@ const TransactionRowComponent: React.FC<TransactionRowProps> = ({
 									</View>
 								)}
 								<View style={styles.detailsRow}>
+									{showAccount && !isTransfer && account && (
+										<View style={styles.detailBadge}>
+											<Ionicons
+												name={accountIcon(account.kind) as keyof typeof Ionicons.glyphMap}
+												size={10}
+												color={palette.textMuted}
+											/>
+											<Text style={styles.detailBadgeText}>{account.name}</Text>
+										</View>
+									)}
 									{item.metadata?.location && (
 										<View style={styles.detailBadge}>
 											<Ionicons name="location-outline" size={10} color={palette.textMuted} />
@@ -352,12 +357,17 @@ const TransactionRowComponent: React.FC<TransactionRowProps> = ({
 						<Text
 							style={[
 								styles.amount,
-								item.type === 'income' ? styles.income : styles.expense,
+								isTransfer
+									? styles.transfer
+									: item.type === 'income'
+										? styles.income
+										: styles.expense,
 							]}
 						>
 							{formattedAmount}
 						</Text>
-						<Text style={styles.date}>{formatDateWithoutTime(item.date)}</Text>
+						{homeAmount ? <Text style={styles.date}>{homeAmount}</Text> : null}
+						<Text style={styles.date}>{formatDate(item.date, 'monthDay') || 'Invalid Date'}</Text>
 					</View>
 				</Animated.View>
 			</GestureDetector>
@@ -377,6 +387,9 @@ export const TransactionRow = React.memo(
 			prevProps.item.date === nextProps.item.date &&
 			prevProps.item.type === nextProps.item.type &&
 			prevProps.item.metadata?.category === nextProps.item.metadata?.category &&
+			prevProps.item.currency === nextProps.item.currency &&
+			prevProps.item.metadata?.account === nextProps.item.metadata?.account &&
+			prevProps.item.metadata?.toAccount === nextProps.item.metadata?.toAccount &&
 			prevProps.item.notes === nextProps.item.notes &&
 			prevProps.item.source === nextProps.item.source &&
 			prevProps.item.target === nextProps.item.target &&
@@ -451,6 +464,9 @@ const styles = StyleSheet.create({
 	expense: {
 		color: palette.danger,
 	},
+	transfer: {
+		color: palette.textMuted,
+	},
 	date: {
 		fontSize: 12,
 		color: palette.textSubtle,
@@ -1,4 +1,4 @@
-// Ledger edit screen – MVP: edit Cash In / Cash Out with fixed categories
+// Ledger edit screen – edit Cash In / Cash Out with the user's categories, or a transfer's accounts
 import React, { useContext, useState, useCallback, useEffect, useRef } from 'react';
 import {
 	View,
@@ -21,39 +21,24 @@ import { Calendar } from 'react-native-calendars';
 import {
 	TransactionContext,
 	type Transaction,
+	type TransactionSplit,
 } from '../../../../src/context/transactionContext';
+import { useCategories } from '../../../../src/context/categoryContext';
+import { useAccounts } from '../../../../src/context/accountContext';
+import { useCurrency } from '../../../../src/context/currencyContext';
+import { useGoal } from '../../../../src/context/goalContext';
+import { useDebts } from '../../../../src/context/debtContext';
+import { useLocale } from '../../../../src/context/localeContext';
+import { accountIcon } from '../../../../src/lib/accounts';
+import { currencySymbol } from '../../../../src/lib/currency';
+import {
+	primarySplitCategory,
+	splitRemainder,
+	validateSplits,
+} from '../../../../src/lib/transaction-splits';
 import BottomSheet from '../../../../src/components/BottomSheet';
 import { palette, radius, space, shadow, type } from '../../../../src/ui/theme';
-import { AppCard, AppText, AppButton } from '../../../../src/ui/primitives';
-
-const CASH_CATEGORIES = [
-	'Food',
-	'Groceries',
-	'Drinks',
-	'Transportation',
-	'Entertainment',
-	'Shopping',
-	'Personal care',
-	'Bills & utilities',
-	'Household',
-	'Health',
-	'Gifts & donations',
-	'Other',
-] as const;
-
-const INCOME_CATEGORIES = [
-	'Paycheck',
-	'Freelance',
-	'Bonus',
-	'Refund',
-	'Interest',
-	'Investment',
-	'Gift',
-	'Other',
-] as const;
-
-type ExpenseCategory = (typeof CASH_CATEGORIES)[number];
-type IncomeCategory = (typeof INCOME_CATEGORIES)[number];
+import { AppCard, AppText, AppButton, AppChip } from '../../../../src/ui/primitives';
 
 const DESCRIPTION_MAX_LENGTH = 120;
 
@@ -65,54 +50,78 @@ const getLocalIsoDate = (): string => {
 	return `${year}-${month}-${day}`;
 };
 
-const formatDateString = (dateString: string): string => {
-	if (!dateString || typeof dateString !== 'string') return '';
-	const datePart = dateString.slice(0, 10);
-	if (!/^\d{4}-\d{2}-\d{2}$/.test(datePart)) return dateString;
-	const [year, month, day] = datePart.split('-').map(Number);
-	const date = new Date(year, month - 1, day);
-	return date.toLocaleDateString();
-};
-
 const isToday = (dateString: string): boolean => {
 	const today = getLocalIsoDate();
 	return !!dateString && dateString.slice(0, 10) === today;
 };
 
-const formatDateWithHint = (dateString: string): string => {
-	const formatted = formatDateString(dateString);
-	if (!formatted) return '';
-	return isToday(dateString) ? `Today, ${formatted}` : formatted;
+type SplitDraft = {
+	amount: string;
+	category: string | null;
+	note: string;
 };
 
-const sanitizeCurrency = (value: string): string => {
-	const cleaned = value.replace(/[^0-9.]/g, '');
-	if (!cleaned) return '';
-	const [int, ...rest] = cleaned.split('.');
-	const decimals = rest.join('');
-	const two = decimals.slice(0, 2);
-	const normalizedInt = int.replace(/^0+(?=\d)/, '') || '0';
-	return rest.length > 0 ? `${normalizedInt}.${two}` : normalizedInt;
-};
+type TargetLink = { targetModel: 'Goal' | 'Debt'; target: string };
+
+/** The entry's goal or debt; budget targets aren't edited here. */
+const linkOf = (tx: Transaction): TargetLink | null =>
+	tx.target && (tx.targetModel === 'Goal' || tx.targetModel === 'Debt')
+		? { targetModel: tx.targetModel, target: tx.target }
+		: null;
+
+const toSplit = (
+	line: SplitDraft,
+	parseAmount: (text: string) => number | null,
+): TransactionSplit => ({
+	amount: parseAmount(line.amount) ?? 0,
+	category: line.category ?? undefined,
+	note: line.note.trim() || undefined,
+});
 
 export default function LedgerEditScreen() {
 	const { id } = useLocalSearchParams<{ id: string }>();
 	const insets = useSafeAreaInsets();
 	const { transactions, updateTransaction } = useContext(TransactionContext);
+	const { categoriesFor, findCategory } = useCategories();
+	const { activeAccounts, findAccount, defaultAccountId } = useAccounts();
+	const { homeCurrency, currencies, format: formatMoney } = useCurrency();
+	const { goals } = useGoal();
+	const { debts } = useDebts();
+	const { formatDate, formatNumber, parseAmount, sanitizeAmount } = useLocale();
+	const plainAmount = (n: number) => formatNumber(n, { grouping: false });
+	const toSplits = (lines: SplitDraft[]) => lines.map((line) => toSplit(line, parseAmount));
+	const dateWithHint = (dateString: string) => {
+		const formatted = formatDate(dateString);
+		if (!formatted) return '';
+		return isToday(dateString) ? `Today, ${formatted}` : formatted;
+	};
 
 	const [description, setDescription] = useState('');
 	const [amount, setAmount] = useState('');
 	const [date, setDate] = useState(getLocalIsoDate());
 	const [type, setType] = useState<'income' | 'expense'>('expense');
-	const [category, setCategory] = useState<ExpenseCategory | IncomeCategory | null>(null);
+	const [category, setCategory] = useState<string | null>(null);
 	const [isSubmitting, setIsSubmitting] = useState(false);
 	const [datePickerOpen, setDatePickerOpen] = useState(false);
 	const [mountCalendar, setMountCalendar] = useState(false);
 	const [noteExpanded, setNoteExpanded] = useState(false);
 	const [pickerOpen, setPickerOpen] = useState(false);
+	const [splits, setSplits] = useState<SplitDraft[]>([]);
+	// Split line the category picker fills; null for the transaction's own category
+	const [pickerLine, setPickerLine] = useState<number | null>(null);
+	// Account the user is picking: the transaction's own, or a transfer's destination
+	const [account, setAccount] = useState(defaultAccountId);
+	const [toAccount, setToAccount] = useState<string | null>(null);
+	const [accountPicker, setAccountPicker] = useState<'account' | 'to' | null>(null);
+	const [currency, setCurrency] = useState(homeCurrency);
+	const [currencyPickerOpen, setCurrencyPickerOpen] = useState(false);
+	// Goal the entry counts toward or debt it pays, if any
+	const [link, setLink] = useState<TargetLink | null>(null);
 	const descriptionInputRef = useRef<TextInput>(null);
 
 	const tx = transactions.find((t) => t.id === id || (t as any)._id === id);
+	const isTransfer = tx?.type === 'transfer';
+	const pickableAccounts = activeAccounts();
 
 	// Track which transaction we've initialized from so we don't overwrite in-progress edits on refetch.
 	const initializedIdRef = React.useRef<string | null>(null);
@@ -126,18 +135,44 @@ export default function LedgerEditScreen() {
 		if (!isNewTransaction) return;
 		setDescription(tx.description ?? '');
 		const absAmount = Math.abs(tx.amount);
-		setAmount(absAmount > 0 ? absAmount.toFixed(2) : '');
+		setAmount(absAmount > 0 ? formatNumber(absAmount, { grouping: false }) : '');
 		setDate(tx.date?.slice(0, 10) ?? getLocalIsoDate());
-		setType(tx.type);
+		setAccount(tx.metadata?.account || defaultAccountId);
+		setCurrency(tx.currency ?? homeCurrency);
+		setToAccount(tx.metadata?.toAccount ?? null);
+		setLink(linkOf(tx));
+		const kind = tx.type;
+		if (kind === 'transfer') return;
+		setType(kind);
 		const cat = tx.metadata?.category;
-		if (cat && (CASH_CATEGORIES as readonly string[]).includes(cat)) {
-			setCategory(cat as ExpenseCategory);
-		} else if (cat && (INCOME_CATEGORIES as readonly string[]).includes(cat)) {
-			setCategory(cat as IncomeCategory);
-		} else {
-			setCategory(null);
-		}
-	}, [id, tx]);
+		setCategory(cat ? (findCategory(cat, kind)?.name ?? cat) : null);
+		setSplits(
+			(tx.splits ?? []).map((line) => ({
+				amount: formatNumber(Math.abs(line.amount), { grouping: false }),
+				category: line.category
+					? (findCategory(line.category, kind)?.name ?? line.category)
+					: null,
+				note: line.note ?? '',
+			}))
+		);
+	}, [id, tx, findCategory, defaultAccountId, homeCurrency, formatNumber]);
+
+	const isSplit = splits.length > 0;
+	const splitLeft = isSplit ? splitRemainder(parseAmount(amount) ?? 0, toSplits(splits)) : 0;
+
+	const updateSplit = (index: number, patch: Partial<SplitDraft>) =>
+		setSplits((prev) => prev.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+
+	const startSplit = () =>
+		setSplits([
+			{ amount, category, note: '' },
+			{ amount: '', category: null, note: '' },
+		]);
+
+	const openPicker = (line: number | null) => {
+		setPickerLine(line);
+		setPickerOpen(true);
+	};
 
 	useEffect(() => {
 		if (!datePickerOpen) {
@@ -155,12 +190,54 @@ export default function LedgerEditScreen() {
 			Alert.alert('Error', 'Transaction not found.');
 			return;
 		}
-		const amt = Number(amount);
+		const amt = parseAmount(amount) ?? NaN;
 		if (!amount.trim() || !isFinite(amt) || amt <= 0) {
 			Alert.alert('Invalid amount', 'Enter an amount greater than 0.');
 			return;
 		}
-		if (type === 'expense' && !category) {
+		// Only stamp a currency when it changes, so untouched entries keep following the home currency
+		const currencyPatch =
+			currency !== (tx.currency ?? homeCurrency) ? { currency } : {};
+		// Likewise the goal or debt link, so a budget target set elsewhere is left alone
+		const before = linkOf(tx);
+		const linkPatch: Partial<Transaction> =
+			link?.target !== before?.target || link?.targetModel !== before?.targetModel
+				? { target: link?.target, targetModel: link?.targetModel }
+				: {};
+		if (isTransfer) {
+			if (!toAccount || toAccount === account) {
+				Alert.alert('Check the transfer', 'Choose two different accounts.');
+				return;
+			}
+			try {
+				setIsSubmitting(true);
+				await updateTransaction(id, {
+					description: description.trim() || 'Transfer',
+					amount: Math.abs(amt),
+					...currencyPatch,
+					...linkPatch,
+					date,
+					type: 'transfer',
+					metadata: { ...tx.metadata, account, toAccount },
+				});
+				Alert.alert('Saved', 'Your changes have been saved.', [
+					{ text: 'OK', onPress: () => router.back() },
+				]);
+			} catch {
+				Alert.alert('Error', 'Failed to save. Please try again.');
+			} finally {
+				setIsSubmitting(false);
+			}
+			return;
+		}
+		const lines = splits.map((line) => toSplit(line, parseAmount));
+		if (isSplit) {
+			const problem = validateSplits(amt, lines, type);
+			if (problem) {
+				Alert.alert('Check the split', problem);
+				return;
+			}
+		} else if (type === 'expense' && !category) {
 			Alert.alert('Category required', 'Please select a category for Cash Out.');
 			return;
 		}
@@ -169,11 +246,24 @@ export default function LedgerEditScreen() {
 			const payload: Partial<Transaction> = {
 				description: description.trim() || undefined,
 				amount: type === 'income' ? Math.abs(amt) : -Math.abs(amt),
+				...currencyPatch,
+				...linkPatch,
 				date: date,
 				type,
 			};
-			if (category) {
-				payload.metadata = { ...tx.metadata, category };
+			if (isSplit) {
+				// The largest line stands in for lists and filters that show one category
+				payload.splits = lines;
+				payload.metadata = {
+					...tx.metadata,
+					account,
+					category: primarySplitCategory(lines),
+				};
+			} else {
+				if (tx.splits?.length) payload.splits = [];
+				payload.metadata = category
+					? { ...tx.metadata, account, category }
+					: { ...tx.metadata, account };
 			}
 			await updateTransaction(id, payload);
 			Alert.alert('Saved', 'Your changes have been saved.', [
@@ -184,7 +274,56 @@ export default function LedgerEditScreen() {
 		} finally {
 			setIsSubmitting(false);
 		}
-	}, [id, tx, description, amount, date, type, category, updateTransaction]);
+	}, [
+		id,
+		tx,
+		description,
+		amount,
+		date,
+		type,
+		category,
+		splits,
+		isSplit,
+		isTransfer,
+		account,
+		toAccount,
+		currency,
+		homeCurrency,
+		link,
+		parseAmount,
+		updateTransaction,
+	]);
+
+	const accountRow = (which: 'account' | 'to', label: string) => {
+		const selected = findAccount(which === 'account' ? account : (toAccount ?? undefined));
+		return (
+			<TouchableOpacity
+				style={styles.metadataRowSingle}
+				onPress={() => setAccountPicker(which)}
+				activeOpacity={0.6}
+				accessibilityLabel={`Select ${label.toLowerCase()} account`}
+				accessibilityRole="button"
+			>
+				<Ionicons
+					name={(selected ? accountIcon(selected.kind) : 'wallet-outline') as keyof typeof Ionicons.glyphMap}
+					size={22}
+					color={palette.primary}
+					style={styles.metadataRowIcon}
+				/>
+				<View style={styles.metadataRowContent}>
+					<Text style={styles.metadataLabel}>{label}</Text>
+					<Text
+						style={[styles.metadataValue, !selected && { color: palette.textMuted }]}
+						numberOfLines={1}
+						ellipsizeMode="tail"
+					>
+						{selected?.name ?? 'Choose account'}
+					</Text>
+				</View>
+				<Ionicons name="chevron-forward" size={20} color={palette.textSubtle} />
+			</TouchableOpacity>
+		);
+	};
 
 	const topInset = insets.top > 0 ? insets.top : 0;
 
@@ -215,7 +354,9 @@ export default function LedgerEditScreen() {
 					<TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
 						<Ionicons name="chevron-back" size={24} color={palette.text} />
 					</TouchableOpacity>
-					<AppText.Title style={styles.headerTitle}>Edit transaction</AppText.Title>
+					<AppText.Title style={styles.headerTitle}>
+						{isTransfer ? 'Edit transfer' : 'Edit transaction'}
+					</AppText.Title>
 				</View>
 
 				<ScrollView
@@ -235,14 +376,14 @@ export default function LedgerEditScreen() {
 									style={styles.amountInputContainer}
 									onPress={() => {}}
 								>
-									<Text style={styles.dollar}>$</Text>
+									<Text style={styles.dollar}>{currencySymbol(currency)}</Text>
 									<TextInput
 										style={styles.amountInput}
 										placeholder="0"
 										placeholderTextColor={palette.textSubtle}
 										keyboardType="decimal-pad"
 										value={amount}
-										onChangeText={(t) => setAmount(sanitizeCurrency(t))}
+										onChangeText={(t) => setAmount(sanitizeAmount(t))}
 										accessibilityLabel="Amount"
 										maxLength={9}
 									/>
@@ -250,45 +391,51 @@ export default function LedgerEditScreen() {
 							</View>
 							<View style={styles.amountUnderline} />
 
-							<View style={styles.segmentedCompact}>
-								{(['expense', 'income'] as const).map((m) => {
-									const active = type === m;
-									const label = m === 'expense' ? 'Cash Out' : 'Cash In';
-									return (
-										<Pressable
-											key={m}
-											style={({ pressed }) => [
-												styles.segBtnCompact,
-												m === 'expense' && styles.segBtnLeft,
-												m === 'income' && styles.segBtnRight,
-												active && styles.segBtnActive,
-												{
-													backgroundColor: active ? palette.surface : 'transparent',
-													opacity: pressed ? 0.7 : 1,
-												},
-											]}
-											onPress={() => {
-												setType(m);
-												if (m === 'income' && category && !(INCOME_CATEGORIES as readonly string[]).includes(category)) {
-													setCategory(null);
-												}
-												if (m === 'expense' && category && !(CASH_CATEGORIES as readonly string[]).includes(category)) {
-													setCategory(null);
-												}
-											}}
-											accessibilityRole="button"
-											accessibilityState={{ selected: active }}
-										>
-											<AppText.Body
-												style={styles.segTextCompact}
-												color={active ? 'default' : 'muted'}
+							{isTransfer ? null : (
+								<View style={styles.segmentedCompact}>
+									{(['expense', 'income'] as const).map((m) => {
+										const active = type === m;
+										const label = m === 'expense' ? 'Cash Out' : 'Cash In';
+										return (
+											<Pressable
+												key={m}
+												style={({ pressed }) => [
+													styles.segBtnCompact,
+													m === 'expense' && styles.segBtnLeft,
+													m === 'income' && styles.segBtnRight,
+													active && styles.segBtnActive,
+													{
+														backgroundColor: active ? palette.surface : 'transparent',
+														opacity: pressed ? 0.7 : 1,
+													},
+												]}
+												onPress={() => {
+													setType(m);
+													if (category && !findCategory(category, m)) {
+														setCategory(null);
+													}
+													setSplits((prev) =>
+														prev.map((line) =>
+															line.category && !findCategory(line.category, m)
+																? { ...line, category: null }
+																: line
+														)
+													);
+												}}
+												accessibilityRole="button"
+												accessibilityState={{ selected: active }}
 											>
-												{label}
-											</AppText.Body>
-										</Pressable>
-									);
-								})}
-							</View>
+												<AppText.Body
+													style={styles.segTextCompact}
+													color={active ? 'default' : 'muted'}
+												>
+													{label}
+												</AppText.Body>
+											</Pressable>
+										);
+									})}
+								</View>
+							)}
 						</AppCard>
 
 						<AppCard style={styles.section} padding={0} borderRadius={radius.xl}>
@@ -348,24 +495,24 @@ export default function LedgerEditScreen() {
 
 							<View style={styles.metadataDivider} />
 
-							{/* Date row */}
+							{/* Currency row */}
 							<TouchableOpacity
 								style={styles.metadataRowSingle}
-								onPress={() => setDatePickerOpen(true)}
+								onPress={() => setCurrencyPickerOpen(true)}
 								activeOpacity={0.6}
-								accessibilityLabel="Select date"
+								accessibilityLabel="Select currency"
 								accessibilityRole="button"
 							>
 								<Ionicons
-									name="calendar-outline"
+									name="cash-outline"
 									size={22}
 									color={palette.primary}
 									style={styles.metadataRowIcon}
 								/>
 								<View style={styles.metadataRowContent}>
-									<Text style={styles.metadataLabel}>Date</Text>
-									<Text style={styles.metadataValue} numberOfLines={1} ellipsizeMode="tail">
-										{formatDateWithHint(date)}
+									<Text style={styles.metadataLabel}>Currency</Text>
+									<Text style={styles.metadataValue} numberOfLines={1}>
+										{currency === homeCurrency ? `${currency} (home)` : currency}
 									</Text>
 								</View>
 								<Ionicons name="chevron-forward" size={20} color={palette.textSubtle} />
@@ -373,37 +520,244 @@ export default function LedgerEditScreen() {
 
 							<View style={styles.metadataDivider} />
 
-							{/* Category row */}
+							{/* Date row */}
 							<TouchableOpacity
 								style={styles.metadataRowSingle}
-								onPress={() => setPickerOpen(true)}
+								onPress={() => setDatePickerOpen(true)}
 								activeOpacity={0.6}
-								accessibilityLabel="Select category"
+								accessibilityLabel="Select date"
 								accessibilityRole="button"
 							>
 								<Ionicons
-									name="pricetag-outline"
+									name="calendar-outline"
 									size={22}
 									color={palette.primary}
 									style={styles.metadataRowIcon}
 								/>
 								<View style={styles.metadataRowContent}>
-									<Text style={styles.metadataLabel}>Category</Text>
-									<Text
-										style={[
-											styles.metadataValue,
-											!category && { color: palette.textMuted },
-										]}
-										numberOfLines={1}
-										ellipsizeMode="tail"
-									>
-										{category ?? (type === 'expense' ? 'Required' : 'Optional')}
+									<Text style={styles.metadataLabel}>Date</Text>
+									<Text style={styles.metadataValue} numberOfLines={1} ellipsizeMode="tail">
+										{dateWithHint(date)}
 									</Text>
 								</View>
 								<Ionicons name="chevron-forward" size={20} color={palette.textSubtle} />
 							</TouchableOpacity>
+
+							<View style={styles.metadataDivider} />
+
+							{isTransfer ? (
+								<>
+									{accountRow('account', 'From')}
+									<View style={styles.metadataDivider} />
+									{accountRow('to', 'To')}
+								</>
+							) : (
+								<>
+									{pickableAccounts.length > 1 || tx.metadata?.account ? (
+										<>
+											{accountRow('account', 'Account')}
+											<View style={styles.metadataDivider} />
+										</>
+									) : null}
+
+									{/* Category row */}
+									<TouchableOpacity
+										style={styles.metadataRowSingle}
+										onPress={() => openPicker(null)}
+										disabled={isSplit}
+										activeOpacity={0.6}
+										accessibilityLabel="Select category"
+										accessibilityRole="button"
+									>
+										<Ionicons
+											name="pricetag-outline"
+											size={22}
+											color={palette.primary}
+											style={styles.metadataRowIcon}
+										/>
+										<View style={styles.metadataRowContent}>
+											<Text style={styles.metadataLabel}>Category</Text>
+											<Text
+												style={[
+													styles.metadataValue,
+													!category && { color: palette.textMuted },
+												]}
+												numberOfLines={1}
+												ellipsizeMode="tail"
+											>
+												{isSplit
+													? `Split across ${splits.length} lines`
+													: (category ?? (type === 'expense' ? 'Required' : 'Optional'))}
+											</Text>
+										</View>
+										{isSplit ? null : (
+											<Ionicons name="chevron-forward" size={20} color={palette.textSubtle} />
+										)}
+									</TouchableOpacity>
+
+									{isSplit ? null : (
+										<>
+											<View style={styles.metadataDivider} />
+											<TouchableOpacity
+												style={styles.metadataRowSingle}
+												onPress={startSplit}
+												activeOpacity={0.6}
+												accessibilityLabel="Split across categories"
+												accessibilityRole="button"
+											>
+												<Ionicons
+													name="git-branch-outline"
+													size={22}
+													color={palette.primary}
+													style={styles.metadataRowIcon}
+												/>
+												<View style={styles.metadataRowContent}>
+													<Text style={styles.metadataLabel}>Split</Text>
+													<Text style={[styles.metadataValue, { color: palette.textMuted }]}>
+														Split across categories
+													</Text>
+												</View>
+												<Ionicons name="chevron-forward" size={20} color={palette.textSubtle} />
+											</TouchableOpacity>
+										</>
+									)}
+								</>
+							)}
 						</AppCard>
 
+						{goals.length > 0 || debts.length > 0 ? (
+							<AppCard style={styles.section} padding={space.lg} borderRadius={radius.xl}>
+								{goals.length > 0 ? (
+									<>
+										<Text style={styles.metadataLabel}>Toward a goal</Text>
+										<View style={styles.linkChips}>
+											{goals.map((goal) => (
+												<AppChip
+													key={goal.id}
+													label={goal.name}
+													selected={link?.targetModel === 'Goal' && link.target === goal.id}
+													onPress={() => setLink({ targetModel: 'Goal', target: goal.id })}
+												/>
+											))}
+										</View>
+									</>
+								) : null}
+								{debts.length > 0 ? (
+									<>
+										<Text style={styles.metadataLabel}>Pays off a debt</Text>
+										<View style={styles.linkChips}>
+											{debts.map((debt) => (
+												<AppChip
+													key={debt.id}
+													label={debt.name}
+													selected={link?.targetModel === 'Debt' && link.target === debt.id}
+													onPress={() => setLink({ targetModel: 'Debt', target: debt.id })}
+												/>
+											))}
+										</View>
+									</>
+								) : null}
+								<AppChip
+									label={goals.length > 0 && debts.length > 0 ? 'Neither' : 'None'}
+									selected={link === null}
+									onPress={() => setLink(null)}
+								/>
+							</AppCard>
+						) : null}
+
+						{isSplit ? (
+							<AppCard style={styles.section} padding={space.lg} borderRadius={radius.xl}>
+								<Text style={styles.metadataLabel}>Split</Text>
+								{splits.map((line, index) => (
+									<View key={index} style={styles.splitLine}>
+										<View style={styles.splitRow}>
+											<TextInput
+												style={styles.splitAmount}
+												value={line.amount}
+												onChangeText={(t) => updateSplit(index, { amount: sanitizeAmount(t) })}
+												placeholder="0.00"
+												placeholderTextColor={palette.textSubtle}
+												keyboardType="decimal-pad"
+												accessibilityLabel={`Line ${index + 1} amount`}
+												maxLength={9}
+											/>
+											<TouchableOpacity
+												style={styles.splitCategory}
+												onPress={() => openPicker(index)}
+												accessibilityLabel={`Line ${index + 1} category`}
+												accessibilityRole="button"
+											>
+												<Text
+													style={[
+														styles.splitCategoryText,
+														!line.category && { color: palette.textMuted },
+													]}
+													numberOfLines={1}
+												>
+													{line.category ?? (type === 'expense' ? 'Category' : 'Optional')}
+												</Text>
+											</TouchableOpacity>
+											{splits.length > 2 ? (
+												<TouchableOpacity
+													onPress={() => setSplits((prev) => prev.filter((_, i) => i !== index))}
+													accessibilityLabel={`Remove line ${index + 1}`}
+													accessibilityRole="button"
+												>
+													<Ionicons name="close-circle-outline" size={22} color={palette.textMuted} />
+												</TouchableOpacity>
+											) : null}
+										</View>
+										<TextInput
+											style={styles.splitNote}
+											value={line.note}
+											onChangeText={(note) => updateSplit(index, { note })}
+											placeholder="Note (optional)"
+											placeholderTextColor={palette.textSubtle}
+											maxLength={DESCRIPTION_MAX_LENGTH}
+										/>
+									</View>
+								))}
+								<AppText.Caption
+									color={splitLeft === 0 ? 'muted' : 'danger'}
+									style={styles.splitRemainder}
+								>
+									{splitLeft === 0
+										? 'Lines add up to the total.'
+										: splitLeft > 0
+											? `${formatMoney(splitLeft, currency)} left to assign`
+											: `${formatMoney(Math.abs(splitLeft), currency)} over the total`}
+								</AppText.Caption>
+								<View style={styles.splitActions}>
+									<AppButton
+										label="Add line"
+										variant="secondary"
+										icon="add"
+										iconPosition="left"
+										onPress={() =>
+											setSplits((prev) => [
+												...prev,
+												{
+													amount: splitLeft > 0 ? plainAmount(splitLeft) : '',
+													category: null,
+													note: '',
+												},
+											])
+										}
+										fullWidth
+									/>
+									<AppButton
+										label="Remove split"
+										variant="ghost"
+										onPress={() => {
+											setCategory(primarySplitCategory(toSplits(splits)) ?? category);
+											setSplits([]);
+										}}
+										fullWidth
+									/>
+								</View>
+							</AppCard>
+						) : null}
+
 						<View style={styles.saveSection}>
 							<AppButton
 								label={isSubmitting ? 'Saving…' : 'Save'}
@@ -518,24 +872,111 @@ export default function LedgerEditScreen() {
 					}
 				>
 					<FlatList
-						data={type === 'expense' ? [...CASH_CATEGORIES] : [...INCOME_CATEGORIES]}
-						keyExtractor={(item) => item}
+						data={categoriesFor(type)}
+						keyExtractor={(item) => item.id}
 						contentContainerStyle={{ paddingBottom: insets.bottom + 64 + space.md }}
 						renderItem={({ item }) => (
 							<TouchableOpacity
-								style={styles.sheetRow}
+								style={[styles.sheetRow, item.parentId && styles.sheetRowChild]}
 								onPress={() => {
-									setCategory(item as ExpenseCategory | IncomeCategory);
+									if (pickerLine != null) updateSplit(pickerLine, { category: item.name });
+									else setCategory(item.name);
 									setPickerOpen(false);
 								}}
 							>
 								<Ionicons
-									name="pricetag-outline"
+									name={item.icon as keyof typeof Ionicons.glyphMap}
+									size={18}
+									color={item.color}
+									style={{ marginRight: space.sm }}
+								/>
+								<AppText.Body>{item.name}</AppText.Body>
+							</TouchableOpacity>
+						)}
+					/>
+				</BottomSheet>
+
+				<BottomSheet
+					isOpen={accountPicker != null}
+					onClose={() => setAccountPicker(null)}
+					snapPoints={[0.5, 0.35]}
+					initialSnapIndex={0}
+					header={
+						<View style={styles.sheetHeader}>
+							<Ionicons
+								name="wallet-outline"
+								size={20}
+								color={palette.primary}
+								style={{ marginRight: space.sm }}
+							/>
+							<AppText.Heading style={styles.sheetTitle}>Select Account</AppText.Heading>
+							<TouchableOpacity onPress={() => setAccountPicker(null)}>
+								<Ionicons name="close" size={24} color={palette.textMuted} />
+							</TouchableOpacity>
+						</View>
+					}
+				>
+					<FlatList
+						data={pickableAccounts}
+						keyExtractor={(item) => item.id}
+						contentContainerStyle={{ paddingBottom: insets.bottom + 64 + space.md }}
+						renderItem={({ item }) => (
+							<TouchableOpacity
+								style={styles.sheetRow}
+								onPress={() => {
+									if (accountPicker === 'to') setToAccount(item.id);
+									else setAccount(item.id);
+									setAccountPicker(null);
+								}}
+							>
+								<Ionicons
+									name={accountIcon(item.kind) as keyof typeof Ionicons.glyphMap}
 									size={18}
-									color={palette.text}
+									color={palette.primary}
 									style={{ marginRight: space.sm }}
 								/>
-								<AppText.Body>{item}</AppText.Body>
+								<AppText.Body>{item.name}</AppText.Body>
+							</TouchableOpacity>
+						)}
+					/>
+				</BottomSheet>
+
+				<BottomSheet
+					isOpen={currencyPickerOpen}
+					onClose={() => setCurrencyPickerOpen(false)}
+					snapPoints={[0.6, 0.4]}
+					initialSnapIndex={0}
+					header={
+						<View style={styles.sheetHeader}>
+							<Ionicons
+								name="cash-outline"
+								size={20}
+								color={palette.primary}
+								style={{ marginRight: space.sm }}
+							/>
+							<AppText.Heading style={styles.sheetTitle}>Select Currency</AppText.Heading>
+							<TouchableOpacity onPress={() => setCurrencyPickerOpen(false)}>
+								<Ionicons name="close" size={24} color={palette.textMuted} />
+							</TouchableOpacity>
+						</View>
+					}
+				>
+					<FlatList
+						data={currencies}
+						keyExtractor={(code) => code}
+						contentContainerStyle={{ paddingBottom: insets.bottom + 64 + space.md }}
+						renderItem={({ item: code }) => (
+							<TouchableOpacity
+								style={styles.sheetRow}
+								onPress={() => {
+									setCurrency(code);
+									setCurrencyPickerOpen(false);
+								}}
+							>
+								<AppText.Body>
+									{currencySymbol(code)} · {code}
+									{code === homeCurrency ? ' (home)' : ''}
+								</AppText.Body>
 							</TouchableOpacity>
 						)}
 					/>
@@ -754,6 +1195,63 @@ const styles = StyleSheet.create({
 		borderBottomColor: palette.border,
 		paddingHorizontal: space.lg,
 	},
+	linkChips: {
+		flexDirection: 'row',
+		flexWrap: 'wrap',
+		marginTop: space.sm,
+	},
+	splitLine: {
+		marginTop: space.md,
+		gap: space.xs,
+	},
+	splitRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: space.sm,
+	},
+	splitAmount: {
+		width: 96,
+		borderRadius: radius.lg,
+		borderWidth: 1,
+		borderColor: palette.border,
+		paddingHorizontal: space.md,
+		paddingVertical: space.sm,
+		fontSize: 16,
+		fontWeight: '600',
+		color: palette.text,
+	},
+	splitCategory: {
+		flex: 1,
+		borderRadius: radius.lg,
+		borderWidth: 1,
+		borderColor: palette.border,
+		paddingHorizontal: space.md,
+		paddingVertical: space.sm + 2,
+	},
+	splitCategoryText: {
+		fontSize: 16,
+		fontWeight: '600',
+		color: palette.text,
+	},
+	splitNote: {
+		borderRadius: radius.lg,
+		borderWidth: 1,
+		borderColor: palette.border,
+		paddingHorizontal: space.md,
+		paddingVertical: space.sm,
+		fontSize: 14,
+		color: palette.text,
+	},
+	splitRemainder: {
+		marginTop: space.md,
+	},
+	splitActions: {
+		marginTop: space.md,
+		gap: space.sm,
+	},
+	sheetRowChild: {
+		paddingLeft: space.lg + space.xl,
+	},
 	quickActions: {
 		flexDirection: 'row',
 		gap: space.sm,
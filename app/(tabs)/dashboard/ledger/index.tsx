@@ -25,6 +25,8 @@ import {
 	type Transaction,
 } from '../../../../src/context/transactionContext';
 import { useFilter } from '../../../../src/context/filterContext';
+import { useLocale } from '../../../../src/context/localeContext';
+import { useTransactionQuery } from '../../../../src/hooks/useTransactionQuery';
 import { TransactionRow } from './components/transactionRow';
 import CalendarSheet from './components/CalendarSheet';
 import CalendarTrigger from './components/CalendarTrigger';
@@ -35,15 +37,9 @@ import { palette, radius, space } from '../../../../src/ui/theme';
 // =============================================
 type DateInput = string | Date;
 
-const formatDate = (
+const formatDayHeader = (
 	input: DateInput,
-	locale = 'en-US',
-	options: Intl.DateTimeFormatOptions = {
-		weekday: 'long',
-		month: 'long',
-		day: 'numeric',
-		year: 'numeric',
-	},
+	formatLong: (date: Date) => string,
 ): string => {
 	// if you ever pass an empty string or nullish, treat as "All Dates"
 	if (!input) return 'All Dates';
@@ -68,35 +64,16 @@ const formatDate = (
 		return 'Yesterday';
 	}
 
-	// For other dates, use a simplified format
-	return date.toLocaleDateString(locale, {
-		month: 'short',
-		day: 'numeric',
-		year: 'numeric',
-	});
+	// For other dates, the full date in the user's format
+	return formatLong(date);
 };
 
-const monthNames = [
-	'January',
-	'February',
-	'March',
-	'April',
-	'May',
-	'June',
-	'July',
-	'August',
-	'September',
-	'October',
-	'November',
-	'December',
-];
-
-const formatMonthHeader = (monthKey: string) => {
-	// monthKey is "YYYY-MM"
-	const [year, mm] = monthKey.split('-');
-	const monthIndex = Number(mm) - 1; // 0-based
-	return `${monthNames[monthIndex].toUpperCase()} ${year}`; // e.g. "May 2025"
-};
+const formatMonthHeader = (
+	monthKey: string,
+	formatMonth: (ymd: string) => string,
+) =>
+	// monthKey is "YYYY-MM"; e.g. "MAY 2025"
+	formatMonth(`${monthKey}-01`).toUpperCase();
 
 const getLocalIsoDate = (): string => {
 	// Format date directly from local components to avoid timezone conversion issues
@@ -121,9 +98,20 @@ export default function TransactionScreen() {
 	const [searchQuery, setSearchQuery] = useState('');
 	const [calendarOpen, setCalendarOpen] = useState(false);
 
-	const { transactions, isLoading, refetch, deleteTransaction } =
+	const { isLoading, refetch, deleteTransaction } =
 		useContext(TransactionContext);
 	const { dateFilterMode, transactionTypes, selectedPatternId } = useFilter();
+	const { formatDate } = useLocale();
+
+	// Date, type and text filters run in the store; the pattern filter stays in memory
+	const { results: queried } = useTransactionQuery({
+		from: dateFilterMode === 'day' ? selectedDate : undefined,
+		to: dateFilterMode === 'day' ? selectedDate : undefined,
+		types: (Object.keys(transactionTypes) as Transaction['type'][]).filter(
+			(type) => transactionTypes[type],
+		),
+		text: searchQuery.trim() || undefined,
+	});
 
 	const handleFilterPress = () => {
 		router.push('./ledger/ledgerFilter');
@@ -131,27 +119,12 @@ export default function TransactionScreen() {
 
 	// filter transactions
 	const filtered = useMemo(() => {
-		return transactions
-			.filter((tx) => {
-				const typeMatch = transactionTypes[tx.type];
-				if (!typeMatch) return false;
-
-				const patternMatch = !selectedPatternId
-					? true
-					: !!(tx.recurringPattern?.patternId === selectedPatternId);
-				if (!patternMatch) return false;
-
-				const txDay = tx.date.slice(0, 10);
-				const dateMatch =
-					dateFilterMode === 'month' ||
-					(dateFilterMode === 'day' && txDay === selectedDate);
-				if (!dateMatch) return false;
-
-				const text = searchQuery.toLowerCase();
-				const searchMatch =
-					!text || (tx.description?.toLowerCase().includes(text) ?? false);
-				return searchMatch;
-			})
+		return queried
+			.filter(
+				(tx) =>
+					!selectedPatternId ||
+					tx.recurringPattern?.patternId === selectedPatternId,
+			)
 			.sort((a, b) => {
 				// First, compare by date (newest first)
 				const dateA = new Date(a.date);
@@ -167,14 +140,7 @@ export default function TransactionScreen() {
 
 				return updatedAtB.getTime() - updatedAtA.getTime(); // Newest time first
 			});
-	}, [
-		transactions,
-		dateFilterMode,
-		selectedDate,
-		searchQuery,
-		transactionTypes,
-		selectedPatternId,
-	]);
+	}, [queried, selectedPatternId]);
 
 	// Group into sections
 	const sections = useMemo(() => {
@@ -187,7 +153,7 @@ export default function TransactionScreen() {
 		return Object.entries(groups)
 			.sort(([a], [b]) => b.localeCompare(a))
 			.map(([monthKey, data]) => ({
-				title: formatMonthHeader(monthKey),
+				title: formatMonthHeader(monthKey, (ymd) => formatDate(ymd, 'monthYear')),
 				data: data.sort((a, b) => {
 					// First, compare by date (newest first)
 					const dateA = new Date(a.date);
@@ -204,7 +170,7 @@ export default function TransactionScreen() {
 					return updatedAtB.getTime() - updatedAtA.getTime(); // Newest time first
 				}),
 			}));
-	}, [filtered]);
+	}, [filtered, formatDate]);
 
 	const onDelete = (id: string, resetAnimation: () => void) => {
 		Alert.alert('Delete Transaction', 'Are you sure?', [
@@ -229,7 +195,7 @@ export default function TransactionScreen() {
 		if (dateFilterMode !== 'day' || !selectedDate) return null;
 		return (
 			<View style={styles.dateHeader}>
-				<Text style={styles.dateHeaderText}>{formatDate(selectedDate)}</Text>
+				<Text style={styles.dateHeaderText}>{formatDayHeader(selectedDate, (date) => formatDate(date, 'full'))}</Text>
 			</View>
 		);
 	};
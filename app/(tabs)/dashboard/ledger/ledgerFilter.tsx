@@ -37,15 +37,15 @@ export default function LedgerFilterScreen() {
 		handleBack();
 	};
 
-	const handleTransactionTypeToggle = (type: 'income' | 'expense') => {
+	const handleTransactionTypeToggle = (type: keyof typeof transactionTypes) => {
 		const newTypes = {
 			...transactionTypes,
 			[type]: !transactionTypes[type],
 		};
 
-		// Prevent deselecting both types - at least one must be selected
-		if (!newTypes.income && !newTypes.expense) {
-			// If both would be false, don't update the state
+		// Prevent deselecting every type - at least one must be selected
+		if (!newTypes.income && !newTypes.expense && !newTypes.transfer) {
+			// If all would be false, don't update the state
 			return;
 		}
 
@@ -54,7 +54,7 @@ export default function LedgerFilterScreen() {
 
 	const handleReset = () => {
 		setLocalDateFilterMode('month');
-		setTransactionTypes({ income: true, expense: true });
+		setTransactionTypes({ income: true, expense: true, transfer: true });
 	};
 
 	return (
@@ -63,7 +63,7 @@ export default function LedgerFilterScreen() {
 				{/* Cash In / Cash Out (MVP terminology) */}
 				<Section title="Show">
 					<SectionSubtext>
-						Select Cash In, Cash Out, or both
+						Select Cash In, Cash Out, transfers, or any mix
 					</SectionSubtext>
 					<OptionRow
 						label="Cash In"
@@ -75,6 +75,11 @@ export default function LedgerFilterScreen() {
 						selected={transactionTypes.expense}
 						onPress={() => handleTransactionTypeToggle('expense')}
 					/>
+					<OptionRow
+						label="Transfers"
+						selected={transactionTypes.transfer}
+						onPress={() => handleTransactionTypeToggle('transfer')}
+					/>
 				</Section>
 
 				{/* Date Range */}
@@ -0,0 +1,462 @@
+import React, { useCallback, useContext, useMemo, useState } from 'react';
+import {
+	View,
+	StyleSheet,
+	ScrollView,
+	ActivityIndicator,
+	RefreshControl,
+	Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { BorderlessButton } from 'react-native-gesture-handler';
+import { useCategories } from '../../../src/context/categoryContext';
+import { useCurrency } from '../../../src/context/currencyContext';
+import { useLocale } from '../../../src/context/localeContext';
+import { TransactionContext } from '../../../src/context/transactionContext';
+import {
+	buildReport,
+	reportRange,
+	reportTrendStart,
+	type ReportScope,
+} from '../../../src/lib/report-analytics';
+import { hasSplits } from '../../../src/lib/transaction-splits';
+import { useTransactionQuery } from '../../../src/hooks/useTransactionQuery';
+import { palette, radius, space, type } from '../../../src/ui/theme';
+import { AppCard, AppText, AppButton, AppReveal } from '../../../src/ui/primitives';
+
+const TREND_MONTHS = 6;
+
+const percentChange = (change: number | null) => {
+	if (change == null) return '—';
+	const pct = Math.round(change * 100);
+	if (pct === 0) return 'same';
+	return `${pct > 0 ? '+' : '−'}${Math.abs(pct)}%`;
+};
+
+export default function ReportsScreen() {
+	const insets = useSafeAreaInsets();
+	const { isLoading, hasLoaded, refetch } = useContext(TransactionContext);
+	const [refreshing, setRefreshing] = useState(false);
+	const [scope, setScope] = useState<ReportScope>('month');
+	// 0 = this month/year, -1 = the one before, …
+	const [offset, setOffset] = useState(0);
+
+	const range = useMemo(() => reportRange(scope, { offset }), [scope, offset]);
+	const { rollup } = useCategories();
+	const { results } = useTransactionQuery({
+		from: reportTrendStart(scope, { offset, trendMonths: TREND_MONTHS }),
+		to: range.end,
+	});
+	// Reports add up amounts in the home currency
+	const { toHome, format: currency, missingRates } = useCurrency();
+	const { formatDate } = useLocale();
+	const monthLabel = (month: string, style: 'long' | 'short' = 'long') =>
+		formatDate(`${month}-01`, style === 'long' ? 'monthYear' : 'monthShort');
+	const transactions = useMemo(() => toHome(results), [toHome, results]);
+	const unconverted = useMemo(() => missingRates(results), [missingRates, results]);
+
+	const onRefresh = useCallback(async () => {
+		setRefreshing(true);
+		try {
+			await refetch();
+		} finally {
+			setRefreshing(false);
+		}
+	}, [refetch]);
+
+	useFocusEffect(
+		useCallback(() => {
+			void refetch();
+		}, [refetch]),
+	);
+
+	const report = useMemo(
+		() =>
+			buildReport(transactions, scope, {
+				offset,
+				trendMonths: TREND_MONTHS,
+				rollupCategory: rollup,
+			}),
+		[transactions, scope, offset, rollup],
+	);
+	const { totals, categories, trend, largest } = report;
+	const maxTrendOut = Math.max(1, ...trend.map((p) => p.out));
+	const title =
+		scope === 'year' ? range.start.slice(0, 4) : monthLabel(range.start.slice(0, 7));
+
+	const changeScope = (next: ReportScope) => {
+		setScope(next);
+		setOffset(0);
+	};
+
+	const initialBusy = !hasLoaded && isLoading;
+
+	return (
+		<View style={[styles.root, { paddingTop: insets.top }]}>
+			<View style={styles.headerRow}>
+				<BorderlessButton onPress={() => router.back()} hitSlop={12}>
+					<Ionicons name="chevron-back" size={24} color={palette.text} />
+				</BorderlessButton>
+				<AppText.Heading style={styles.headerTitle}>Reports</AppText.Heading>
+				<View style={{ width: 24 }} />
+			</View>
+
+			{initialBusy ? (
+				<View style={styles.loadingBlock}>
+					<ActivityIndicator size="large" color={palette.primary} />
+					<AppText.Body color="muted" style={{ marginTop: space.md }}>
+						Loading report…
+					</AppText.Body>
+				</View>
+			) : (
+				<ScrollView
+					contentContainerStyle={[
+						styles.scrollContent,
+						{ paddingBottom: insets.bottom + space.xxl },
+					]}
+					showsVerticalScrollIndicator={false}
+					refreshControl={
+						<RefreshControl
+							refreshing={refreshing}
+							onRefresh={onRefresh}
+							tintColor={palette.primary}
+							colors={[palette.primary]}
+							progressBackgroundColor={palette.surface}
+						/>
+					}
+				>
+					<View style={styles.scopeRow}>
+						<AppButton
+							label="Month"
+							size="sm"
+							variant={scope === 'month' ? 'primary' : 'secondary'}
+							onPress={() => changeScope('month')}
+							style={styles.scopeButton}
+						/>
+						<AppButton
+							label="Year"
+							size="sm"
+							variant={scope === 'year' ? 'primary' : 'secondary'}
+							onPress={() => changeScope('year')}
+							style={styles.scopeButton}
+						/>
+					</View>
+
+					<View style={styles.pagerRow}>
+						<BorderlessButton
+							onPress={() => setOffset((o) => o - 1)}
+							hitSlop={12}
+							accessibilityLabel={`Previous ${scope}`}
+						>
+							<Ionicons
+								name="chevron-back-circle-outline"
+								size={28}
+								color={palette.text}
+							/>
+						</BorderlessButton>
+						<AppText.Heading>{title}</AppText.Heading>
+						<BorderlessButton
+							onPress={() => setOffset((o) => Math.min(0, o + 1))}
+							enabled={offset < 0}
+							hitSlop={12}
+							accessibilityLabel={`Next ${scope}`}
+						>
+							<Ionicons
+								name="chevron-forward-circle-outline"
+								size={28}
+								color={offset < 0 ? palette.text : palette.textMuted}
+							/>
+						</BorderlessButton>
+					</View>
+
+					<AppReveal delayMs={60}>
+						<View style={styles.totalsRow}>
+							<StatCard label="In" value={`+${currency(totals.in)}`} tone="in" />
+							<StatCard label="Out" value={`−${currency(totals.out)}`} tone="out" />
+							<StatCard
+								label="Net"
+								value={`${totals.net >= 0 ? '+' : '−'}${currency(Math.abs(totals.net))}`}
+								tone={totals.net >= 0 ? 'in' : 'out'}
+							/>
+						</View>
+						{unconverted.length > 0 ? (
+							<AppText.Caption color="muted" style={styles.rateNote}>
+								No exchange rate for {unconverted.join(', ')} · counted 1:1
+							</AppText.Caption>
+						) : null}
+					</AppReveal>
+
+					<AppReveal delayMs={100}>
+						<AppCard style={styles.sectionCard} padding={space.lg}>
+							<View style={styles.metaRow}>
+								<View>
+									<AppText.Label color="muted">Daily average spend</AppText.Label>
+									<AppText style={styles.metaValue}>
+										{currency(report.dailyAverageSpend)}
+									</AppText>
+								</View>
+								<View style={styles.metaRight}>
+									<AppText.Label color="muted">Transactions</AppText.Label>
+									<AppText style={styles.metaValue}>
+										{report.transactionCount}
+									</AppText>
+								</View>
+							</View>
+						</AppCard>
+					</AppReveal>
+
+					<AppReveal delayMs={140}>
+						<AppCard style={styles.sectionCard} padding={space.lg}>
+							<AppText.Heading style={styles.sectionTitle}>
+								Spending by category
+							</AppText.Heading>
+							{categories.length === 0 ? (
+								<AppText.Body color="muted" style={styles.emptyText}>
+									No spending in this {scope}.
+								</AppText.Body>
+							) : (
+								categories.map((slice) => (
+									<View key={slice.category} style={styles.barRow}>
+										<View style={styles.barLabelRow}>
+											<AppText.Body style={styles.barName} numberOfLines={1}>
+												{slice.category}
+											</AppText.Body>
+											<AppText.Body color="muted">
+												{currency(slice.amount)} · {slice.pct}%
+											</AppText.Body>
+										</View>
+										<View style={styles.barTrack}>
+											<View
+												style={[
+													styles.barFill,
+													{ width: `${Math.min(100, slice.pct)}%` },
+												]}
+											/>
+										</View>
+									</View>
+								))
+							)}
+						</AppCard>
+					</AppReveal>
+
+					<AppReveal delayMs={180}>
+						<AppCard style={styles.sectionCard} padding={space.lg}>
+							<AppText.Heading style={styles.sectionTitle}>
+								{scope === 'year' ? 'Month by month' : 'Recent months'}
+							</AppText.Heading>
+							{trend.map((point) => (
+								<View key={point.month} style={styles.barRow}>
+									<View style={styles.barLabelRow}>
+										<AppText.Body style={styles.barName}>
+											{monthLabel(point.month, 'short')}
+										</AppText.Body>
+										<AppText.Body color="muted">
+											{currency(point.out)} · {percentChange(point.outChange)}
+										</AppText.Body>
+									</View>
+									<View style={styles.barTrack}>
+										<View
+											style={[
+												styles.barFill,
+												{ width: `${(point.out / maxTrendOut) * 100}%` },
+											]}
+										/>
+									</View>
+									<AppText.Caption color="subtle" style={styles.trendNet}>
+										Net {point.net >= 0 ? '+' : '−'}
+										{currency(Math.abs(point.net))}
+									</AppText.Caption>
+								</View>
+							))}
+						</AppCard>
+					</AppReveal>
+
+					<AppReveal delayMs={220}>
+						<AppCard style={styles.sectionCard} padding={space.lg}>
+							<AppText.Heading style={styles.sectionTitle}>
+								Largest expenses
+							</AppText.Heading>
+							{largest.length === 0 ? (
+								<AppText.Body color="muted" style={styles.emptyText}>
+									Nothing spent yet.
+								</AppText.Body>
+							) : (
+								largest.map((tx) => (
+									<View key={tx.id} style={styles.largestRow}>
+										<View style={styles.largestCopy}>
+											<AppText.Body numberOfLines={1}>
+												{tx.description || 'Untitled'}
+											</AppText.Body>
+											<AppText.Caption color="subtle">
+												{tx.date.slice(0, 10)}
+												{hasSplits(tx)
+													? ` · Split (${tx.splits?.length})`
+													: tx.metadata?.category
+														? ` · ${tx.metadata.category}`
+														: ''}
+											</AppText.Caption>
+										</View>
+										<AppText.Body color="danger">
+											−{currency(Math.abs(tx.amount))}
+										</AppText.Body>
+									</View>
+								))
+							)}
+						</AppCard>
+					</AppReveal>
+				</ScrollView>
+			)}
+		</View>
+	);
+}
+
+function StatCard({
+	label,
+	value,
+	tone,
+}: {
+	label: string;
+	value: string;
+	tone: 'in' | 'out';
+}) {
+	return (
+		<AppCard style={styles.statCard} padding={space.md} elevated={false} bordered>
+			<AppText.Label color="muted" style={styles.statLabel}>
+				{label}
+			</AppText.Label>
+			<AppText
+				style={styles.statValue}
+				color={tone === 'in' ? 'success' : 'danger'}
+			>
+				{value}
+			</AppText>
+		</AppCard>
+	);
+}
+
+const styles = StyleSheet.create({
+	root: {
+		flex: 1,
+		backgroundColor: palette.bg,
+	},
+	headerRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: space.lg,
+		paddingVertical: space.sm,
+		borderBottomWidth: StyleSheet.hairlineWidth,
+		borderBottomColor: palette.border,
+	},
+	headerTitle: {
+		flex: 1,
+		textAlign: 'center',
+	},
+	scrollContent: {
+		paddingHorizontal: space.lg,
+		paddingTop: space.lg,
+		gap: space.lg,
+	},
+	scopeRow: {
+		flexDirection: 'row',
+		gap: space.sm,
+	},
+	scopeButton: {
+		flex: 1,
+	},
+	pagerRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+	},
+	totalsRow: {
+		flexDirection: 'row',
+		flexWrap: 'wrap',
+		gap: space.sm,
+	},
+	statCard: {
+		flexGrow: 1,
+		flexBasis: '30%',
+		minWidth: 100,
+	},
+	statLabel: {
+		marginBottom: space.xs,
+	},
+	statValue: {
+		...type.titleMd,
+		...(Platform.OS === 'ios'
+			? { fontVariant: ['tabular-nums' as const] }
+			: {}),
+	},
+	sectionCard: {
+		marginBottom: 0,
+	},
+	sectionTitle: {
+		marginBottom: space.md,
+	},
+	metaRow: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+	},
+	metaRight: {
+		alignItems: 'flex-end',
+	},
+	metaValue: {
+		...type.titleMd,
+		marginTop: space.xs,
+	},
+	rateNote: {
+		marginTop: space.sm,
+	},
+	emptyText: {
+		lineHeight: 22,
+	},
+	barRow: {
+		marginBottom: space.md,
+	},
+	barLabelRow: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		marginBottom: space.xs,
+	},
+	barName: {
+		flex: 1,
+		marginRight: space.sm,
+		fontWeight: '600',
+	},
+	barTrack: {
+		height: 8,
+		borderRadius: radius.pill,
+		backgroundColor: palette.track,
+		overflow: 'hidden',
+	},
+	barFill: {
+		height: '100%',
+		borderRadius: radius.pill,
+		backgroundColor: palette.primary,
+	},
+	trendNet: {
+		marginTop: 4,
+	},
+	largestRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingVertical: space.sm,
+		borderBottomWidth: StyleSheet.hairlineWidth,
+		borderBottomColor: palette.border,
+	},
+	largestCopy: {
+		flex: 1,
+		marginRight: space.md,
+	},
+	loadingBlock: {
+		flex: 1,
+		justifyContent: 'center',
+		alignItems: 'center',
+		padding: space.xxl,
+	},
+});
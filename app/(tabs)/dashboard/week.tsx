@@ -12,21 +12,61 @@ import { router } from 'expo-router';
 import { useFocusEffect } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { BorderlessButton } from 'react-native-gesture-handler';
+import { useCategories } from '../../../src/context/categoryContext';
+import { useCurrency } from '../../../src/context/currencyContext';
+import { useLocale } from '../../../src/context/localeContext';
 import { TransactionContext } from '../../../src/context/transactionContext';
-import { summarizeWeekTransactions } from '../../../src/lib/week-analytics';
+import {
+	comparePeriods,
+	previousPeriod,
+	resolvePeriod,
+	type AnalyticsPeriod,
+	type PeriodRange,
+} from '../../../src/lib/week-analytics';
+import { useTransactionQuery } from '../../../src/hooks/useTransactionQuery';
 import { palette, radius, space, type } from '../../../src/ui/theme';
 import { AppCard, AppText, AppButton, AppReveal } from '../../../src/ui/primitives';
 
-const currency = new Intl.NumberFormat('en-US', {
-	style: 'currency',
-	currency: 'USD',
-}).format;
+type ShortDate = (ymd: string) => string;
+
+const formatRange = (range: PeriodRange, shortDate: ShortDate) =>
+	`${shortDate(range.start)} – ${shortDate(range.end)}`;
+
+const weekTitle = (offset: number, range: PeriodRange, shortDate: ShortDate) => {
+	if (offset === 0) return 'This week';
+	if (offset === -1) return 'Last week';
+	return `Week of ${shortDate(range.start)}`;
+};
+
+/** `+$42` / `−$42`; zero reads as "same". */
+const signedCurrency = (delta: number, currency: (amount: number) => string) => {
+	if (Math.abs(delta) < 0.005) return 'same';
+	return `${delta > 0 ? '+' : '−'}${currency(Math.abs(delta))}`;
+};
 
 export default function WeekScreen() {
 	const insets = useSafeAreaInsets();
-	const { transactions, isLoading, hasLoaded, refetch } =
-		useContext(TransactionContext);
+	const { isLoading, hasLoaded, refetch } = useContext(TransactionContext);
 	const [refreshing, setRefreshing] = useState(false);
+	// 0 = this week, -1 = last week, …
+	const [weekOffset, setWeekOffset] = useState(0);
+	const { settings: localeSettings, formatDate } = useLocale();
+	const shortDate = (ymd: string) => formatDate(ymd, 'monthDay');
+	const weekStartsOn = localeSettings.weekStartsOn;
+
+	const period: AnalyticsPeriod = useMemo(
+		() => ({ kind: 'week', weekStartsOn, offset: weekOffset }),
+		[weekStartsOn, weekOffset],
+	);
+	const range = useMemo(() => resolvePeriod(period), [period]);
+	const { rollup } = useCategories();
+	const { results } = useTransactionQuery({
+		from: previousPeriod(period).start,
+		to: range.end,
+	});
+	const { toHome, format: currency, missingRates } = useCurrency();
+	const transactions = useMemo(() => toHome(results), [toHome, results]);
+	const unconverted = useMemo(() => missingRates(results), [missingRates, results]);
 
 	const onRefresh = useCallback(async () => {
 		setRefreshing(true);
@@ -43,10 +83,17 @@ export default function WeekScreen() {
 		}, [refetch]),
 	);
 
-	const { totals, categories } = useMemo(
-		() => summarizeWeekTransactions(transactions),
-		[transactions],
+	const { current, totalsDelta, categoryDeltas } = useMemo(
+		() => comparePeriods(transactions, { period, rollupCategory: rollup }),
+		[transactions, period, rollup],
 	);
+	const { totals, categories } = current;
+	const deltaByCategory = useMemo(
+		() => new Map(categoryDeltas.map((d) => [d.category, d.delta])),
+		[categoryDeltas],
+	);
+	const title = weekTitle(weekOffset, range, shortDate);
+	const versus = weekOffset === 0 ? 'vs last week' : 'vs week before';
 
 	const initialBusy = !hasLoaded && isLoading;
 
@@ -57,7 +104,7 @@ export default function WeekScreen() {
 					<BorderlessButton onPress={() => router.back()} hitSlop={12}>
 						<Ionicons name="chevron-back" size={24} color={palette.text} />
 					</BorderlessButton>
-					<AppText.Heading style={styles.headerTitle}>This week</AppText.Heading>
+					<AppText.Heading style={styles.headerTitle}>{title}</AppText.Heading>
 					<View style={{ width: 24 }} />
 				</View>
 				<View style={styles.loadingBlock}>
@@ -76,10 +123,33 @@ export default function WeekScreen() {
 				<BorderlessButton onPress={() => router.back()} hitSlop={12}>
 					<Ionicons name="chevron-back" size={24} color={palette.text} />
 				</BorderlessButton>
-				<AppText.Heading style={styles.headerTitle}>This week</AppText.Heading>
+				<AppText.Heading style={styles.headerTitle}>{title}</AppText.Heading>
 				<View style={{ width: 24 }} />
 			</View>
 
+			<View style={styles.pagerRow}>
+				<BorderlessButton
+					onPress={() => setWeekOffset((o) => o - 1)}
+					hitSlop={12}
+					accessibilityLabel="Previous week"
+				>
+					<Ionicons name="chevron-back-circle-outline" size={28} color={palette.text} />
+				</BorderlessButton>
+				<AppText.Body style={styles.pagerLabel}>{formatRange(range, shortDate)}</AppText.Body>
+				<BorderlessButton
+					onPress={() => setWeekOffset((o) => Math.min(0, o + 1))}
+					enabled={weekOffset < 0}
+					hitSlop={12}
+					accessibilityLabel="Next week"
+				>
+					<Ionicons
+						name="chevron-forward-circle-outline"
+						size={28}
+						color={weekOffset < 0 ? palette.text : palette.textMuted}
+					/>
+				</BorderlessButton>
+			</View>
+
 			<ScrollView
 				contentContainerStyle={[
 					styles.scrollContent,
@@ -98,26 +168,34 @@ export default function WeekScreen() {
 			>
 				<AppReveal delayMs={30} distance={8}>
 					<AppText.Caption color="muted" style={styles.kicker}>
-						Last 7 days · rolling window
+						Calendar week · {versus}
 					</AppText.Caption>
+					{unconverted.length > 0 ? (
+						<AppText.Caption color="muted" style={styles.kicker}>
+							No exchange rate for {unconverted.join(', ')} · counted 1:1
+						</AppText.Caption>
+					) : null}
 				</AppReveal>
 
 				<AppReveal delayMs={80}>
 					<View style={styles.totalsRow}>
 						<WeekStatCard
-							label="7-day in"
+							label="Week in"
 							value={`+${currency(totals.in)}`}
 							tone="in"
+							delta={`${signedCurrency(totalsDelta.in, currency)} ${versus}`}
 						/>
 						<WeekStatCard
-							label="7-day out"
+							label="Week out"
 							value={`−${currency(totals.out)}`}
 							tone="out"
+							delta={`${signedCurrency(totalsDelta.out, currency)} ${versus}`}
 						/>
 						<WeekStatCard
 							label="Net"
 							value={`${totals.net >= 0 ? '+' : '−'}${currency(Math.abs(totals.net))}`}
 							tone={totals.net >= 0 ? 'in' : 'out'}
+							delta={`${signedCurrency(totalsDelta.net, currency)} ${versus}`}
 						/>
 					</View>
 				</AppReveal>
@@ -129,8 +207,8 @@ export default function WeekScreen() {
 						</AppText.Heading>
 						{categories.length === 0 ? (
 							<AppText.Body color="muted" style={styles.emptyCats}>
-								No spending in the last 7 days — category splits appear when you
-								log cash out.
+								No spending this week — category splits appear when you log
+								cash out.
 							</AppText.Body>
 						) : (
 							categories.map((slice) => (
@@ -150,7 +228,9 @@ export default function WeekScreen() {
 										/>
 									</View>
 									<AppText.Caption color="subtle" style={styles.catAmt}>
-										{currency(slice.amount)}
+										{currency(slice.amount)} ·{' '}
+										{signedCurrency(deltaByCategory.get(slice.category) ?? 0, currency)}{' '}
+										{versus}
 									</AppText.Caption>
 								</View>
 							))
@@ -189,10 +269,12 @@ function WeekStatCard({
 	label,
 	value,
 	tone,
+	delta,
 }: {
 	label: string;
 	value: string;
 	tone: 'in' | 'out';
+	delta?: string;
 }) {
 	return (
 		<AppCard style={styles.statCard} padding={space.md} elevated={false} bordered>
@@ -205,6 +287,11 @@ function WeekStatCard({
 			>
 				{value}
 			</AppText>
+			{delta ? (
+				<AppText.Caption color="subtle" style={styles.statDelta}>
+					{delta}
+				</AppText.Caption>
+			) : null}
 		</AppCard>
 	);
 }
@@ -227,6 +314,16 @@ const styles = StyleSheet.create({
 		flex: 1,
 		textAlign: 'center',
 	},
+	pagerRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: space.lg,
+		paddingTop: space.md,
+	},
+	pagerLabel: {
+		fontWeight: '600',
+	},
 	scrollContent: {
 		paddingHorizontal: space.lg,
 		paddingTop: space.lg,
@@ -250,6 +347,9 @@ const styles = StyleSheet.create({
 	statLabel: {
 		marginBottom: space.xs,
 	},
+	statDelta: {
+		marginTop: 4,
+	},
 	statValue: {
 		...type.titleMd,
 		...(Platform.OS === 'ios'
@@ -106,6 +106,357 @@ export default function SettingsLayout() {
 					),
 				}}
 			/>
+			<Stack.Screen
+				name="import"
+				options={{
+					headerShown: true,
+					headerBackButtonDisplayMode: 'minimal',
+					headerTitle: 'Import',
+					headerShadowVisible: false,
+					headerTitleStyle: {
+						fontSize: 20,
+						fontWeight: '600',
+						color: palette.text,
+					},
+					headerStyle: {
+						backgroundColor: palette.bg,
+					},
+					headerLeft: () => (
+						<Animated.View style={animatedButtonStyle}>
+							<BorderlessButton
+								onPress={() => router.back()}
+								onActiveStateChange={setIsPressed}
+								style={{ width: 50 }}
+								{...accessibilityProps.button}
+								accessibilityLabel={generateAccessibilityLabel.button(
+									'Go back'
+								)}
+								accessibilityHint={voiceOverHints.navigate}
+							>
+								<Ionicons
+									name="chevron-back"
+									size={24}
+									color={palette.text}
+									accessibilityRole="image"
+									accessibilityLabel="Back arrow"
+								/>
+							</BorderlessButton>
+						</Animated.View>
+					),
+				}}
+			/>
+			<Stack.Screen
+				name="backup"
+				options={{
+					headerShown: true,
+					headerBackButtonDisplayMode: 'minimal',
+					headerTitle: 'Backup',
+					headerShadowVisible: false,
+					headerTitleStyle: {
+						fontSize: 20,
+						fontWeight: '600',
+						color: palette.text,
+					},
+					headerStyle: {
+						backgroundColor: palette.bg,
+					},
+					headerLeft: () => (
+						<Animated.View style={animatedButtonStyle}>
+							<BorderlessButton
+								onPress={() => router.back()}
+								onActiveStateChange={setIsPressed}
+								style={{ width: 50 }}
+								{...accessibilityProps.button}
+								accessibilityLabel={generateAccessibilityLabel.button(
+									'Go back'
+								)}
+								accessibilityHint={voiceOverHints.navigate}
+							>
+								<Ionicons
+									name="chevron-back"
+									size={24}
+									color={palette.text}
+									accessibilityRole="image"
+									accessibilityLabel="Back arrow"
+								/>
+							</BorderlessButton>
+						</Animated.View>
+					),
+				}}
+			/>
+			<Stack.Screen
+				name="categories"
+				options={{
+					headerShown: true,
+					headerBackButtonDisplayMode: 'minimal',
+					headerTitle: 'Categories',
+					headerShadowVisible: false,
+					headerTitleStyle: {
+						fontSize: 20,
+						fontWeight: '600',
+						color: palette.text,
+					},
+					headerStyle: {
+						backgroundColor: palette.bg,
+					},
+					headerLeft: () => (
+						<Animated.View style={animatedButtonStyle}>
+							<BorderlessButton
+								onPress={() => router.back()}
+								onActiveStateChange={setIsPressed}
+								style={{ width: 50 }}
+								{...accessibilityProps.button}
+								accessibilityLabel={generateAccessibilityLabel.button(
+									'Go back'
+								)}
+								accessibilityHint={voiceOverHints.navigate}
+							>
+								<Ionicons
+									name="chevron-back"
+									size={24}
+									color={palette.text}
+									accessibilityRole="image"
+									accessibilityLabel="Back arrow"
+								/>
+							</BorderlessButton>
+						</Animated.View>
+					),
+				}}
+			/>
+			<Stack.Screen
+				name="rules"
+				options={{
+					headerShown: true,
+					headerBackButtonDisplayMode: 'minimal',
+					headerTitle: 'Category rules',
+					headerShadowVisible: false,
+					headerTitleStyle: {
+						fontSize: 20,
+						fontWeight: '600',
+						color: palette.text,
+					},
+					headerStyle: {
+						backgroundColor: palette.bg,
+					},
+					headerLeft: () => (
+						<Animated.View style={animatedButtonStyle}>
+							<BorderlessButton
+								onPress={() => router.back()}
+								onActiveStateChange={setIsPressed}
+								style={{ width: 50 }}
+								{...accessibilityProps.button}
+								accessibilityLabel={generateAccessibilityLabel.button(
+									'Go back'
+								)}
+								accessibilityHint={voiceOverHints.navigate}
+							>
+								<Ionicons
+									name="chevron-back"
+									size={24}
+									color={palette.text}
+									accessibilityRole="image"
+									accessibilityLabel="Back arrow"
+								/>
+							</BorderlessButton>
+						</Animated.View>
+					),
+				}}
+			/>
+			<Stack.Screen
+				name="accounts"
+				options={{
+					headerShown: true,
+					headerBackButtonDisplayMode: 'minimal',
+					headerTitle: 'Accounts',
+					headerShadowVisible: false,
+					headerTitleStyle: {
+						fontSize: 20,
+						fontWeight: '600',
+						color: palette.text,
+					},
+					headerStyle: {
+						backgroundColor: palette.bg,
+					},
+					headerLeft: () => (
+						<Animated.View style={animatedButtonStyle}>
+							<BorderlessButton
+								onPress={() => router.back()}
+								onActiveStateChange={setIsPressed}
+								style={{ width: 50 }}
+								{...accessibilityProps.button}
+								accessibilityLabel={generateAccessibilityLabel.button(
+									'Go back'
+								)}
+								accessibilityHint={voiceOverHints.navigate}
+							>
+								<Ionicons
+									name="chevron-back"
+									size={24}
+									color={palette.text}
+									accessibilityRole="image"
+									accessibilityLabel="Back arrow"
+								/>
+							</BorderlessButton>
+						</Animated.View>
+					),
+				}}
+			/>
+			<Stack.Screen
+				name="bills"
+				options={{
+					headerShown: true,
+					headerBackButtonDisplayMode: 'minimal',
+					headerTitle: 'Bills',
+					headerShadowVisible: false,
+					headerTitleStyle: {
+						fontSize: 20,
+						fontWeight: '600',
+						color: palette.text,
+					},
+					headerStyle: {
+						backgroundColor: palette.bg,
+					},
+					headerLeft: () => (
+						<Animated.View style={animatedButtonStyle}>
+							<BorderlessButton
+								onPress={() => router.back()}
+								onActiveStateChange={setIsPressed}
+								style={{ width: 50 }}
+								{...accessibilityProps.button}
+								accessibilityLabel={generateAccessibilityLabel.button(
+									'Go back'
+								)}
+								accessibilityHint={voiceOverHints.navigate}
+							>
+								<Ionicons
+									name="chevron-back"
+									size={24}
+									color={palette.text}
+									accessibilityRole="image"
+									accessibilityLabel="Back arrow"
+								/>
+							</BorderlessButton>
+						</Animated.View>
+					),
+				}}
+			/>
+			<Stack.Screen
+				name="currency"
+				options={{
+					headerShown: true,
+					headerBackButtonDisplayMode: 'minimal',
+					headerTitle: 'Currency',
+					headerShadowVisible: false,
+					headerTitleStyle: {
+						fontSize: 20,
+						fontWeight: '600',
+						color: palette.text,
+					},
+					headerStyle: {
+						backgroundColor: palette.bg,
+					},
+					headerLeft: () => (
+						<Animated.View style={animatedButtonStyle}>
+							<BorderlessButton
+								onPress={() => router.back()}
+								onActiveStateChange={setIsPressed}
+								style={{ width: 50 }}
+								{...accessibilityProps.button}
+								accessibilityLabel={generateAccessibilityLabel.button(
+									'Go back'
+								)}
+								accessibilityHint={voiceOverHints.navigate}
+							>
+								<Ionicons
+									name="chevron-back"
+									size={24}
+									color={palette.text}
+									accessibilityRole="image"
+									accessibilityLabel="Back arrow"
+								/>
+							</BorderlessButton>
+						</Animated.View>
+					),
+				}}
+			/>
+			<Stack.Screen
+				name="format"
+				options={{
+					headerShown: true,
+					headerBackButtonDisplayMode: 'minimal',
+					headerTitle: 'Number & date format',
+					headerShadowVisible: false,
+					headerTitleStyle: {
+						fontSize: 20,
+						fontWeight: '600',
+						color: palette.text,
+					},
+					headerStyle: {
+						backgroundColor: palette.bg,
+					},
+					headerLeft: () => (
+						<Animated.View style={animatedButtonStyle}>
+							<BorderlessButton
+								onPress={() => router.back()}
+								onActiveStateChange={setIsPressed}
+								style={{ width: 50 }}
+								{...accessibilityProps.button}
+								accessibilityLabel={generateAccessibilityLabel.button(
+									'Go back'
+								)}
+								accessibilityHint={voiceOverHints.navigate}
+							>
+								<Ionicons
+									name="chevron-back"
+									size={24}
+									color={palette.text}
+									accessibilityRole="image"
+									accessibilityLabel="Back arrow"
+								/>
+							</BorderlessButton>
+						</Animated.View>
+					),
+				}}
+			/>
+			<Stack.Screen
+				name="quiet-hours"
+				options={{
+					headerShown: true,
+					headerBackButtonDisplayMode: 'minimal',
+					headerTitle: 'Quiet hours',
+					headerShadowVisible: false,
+					headerTitleStyle: {
+						fontSize: 20,
+						fontWeight: '600',
+						color: palette.text,
+					},
+					headerStyle: {
+						backgroundColor: palette.bg,
+					},
+					headerLeft: () => (
+						<Animated.View style={animatedButtonStyle}>
+							<BorderlessButton
+								onPress={() => router.back()}
+								onActiveStateChange={setIsPressed}
+								style={{ width: 50 }}
+								{...accessibilityProps.button}
+								accessibilityLabel={generateAccessibilityLabel.button(
+									'Go back'
+								)}
+								accessibilityHint={voiceOverHints.navigate}
+							>
+								<Ionicons
+									name="chevron-back"
+									size={24}
+									color={palette.text}
+									accessibilityRole="image"
+									accessibilityLabel="Back arrow"
+								/>
+							</BorderlessButton>
+						</Animated.View>
+					),
+				}}
+			/>
 		</Stack>
 	);
 }
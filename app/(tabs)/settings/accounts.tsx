@@ -0,0 +1,375 @@
+import React, { useState } from 'react';
+import {
+	View,
+	StyleSheet,
+	ScrollView,
+	TextInput,
+	Alert,
+	Platform,
+	TouchableOpacity,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useAccounts } from '../../../src/context/accountContext';
+import { useCurrency } from '../../../src/context/currencyContext';
+import { useLocale } from '../../../src/context/localeContext';
+import {
+	ACCOUNT_KINDS,
+	accountIcon,
+	type Account,
+	type AccountKind,
+} from '../../../src/lib/accounts';
+import { palette, radius, space, type } from '../../../src/ui/theme';
+import {
+	AppCard,
+	AppText,
+	AppButton,
+	AppReveal,
+	AppChip,
+} from '../../../src/ui/primitives';
+
+type Draft = {
+	name: string;
+	kind: AccountKind;
+	openingBalance: string;
+};
+
+type TransferDraft = {
+	fromId?: string;
+	toId?: string;
+	amount: string;
+	note: string;
+};
+
+const emptyDraft = (): Draft => ({ name: '', kind: 'checking', openingBalance: '' });
+
+/** 0 when blank; NaN (rejected by validation) when it is not a number. */
+function parseField(text: string, parseAmount: (text: string) => number | null): number {
+	const trimmed = text.trim();
+	return trimmed ? (parseAmount(trimmed) ?? NaN) : 0;
+}
+
+function localToday(): string {
+	const d = new Date();
+	const month = String(d.getMonth() + 1).padStart(2, '0');
+	const day = String(d.getDate()).padStart(2, '0');
+	return `${d.getFullYear()}-${month}-${day}`;
+}
+
+export default function AccountsScreen() {
+	const insets = useSafeAreaInsets();
+	const {
+		accounts,
+		balances,
+		activeAccounts,
+		createAccount,
+		updateAccount,
+		archiveAccount,
+		transfer,
+	} = useAccounts();
+	const { format: currency } = useCurrency();
+	const { parseAmount } = useLocale();
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [draft, setDraft] = useState<Draft>(emptyDraft);
+	const [move, setMove] = useState<TransferDraft>({ amount: '', note: '' });
+	const [saving, setSaving] = useState(false);
+
+	const open = activeAccounts();
+	const editing = accounts.find((a) => a.id === editingId);
+
+	const resetForm = () => {
+		setEditingId(null);
+		setDraft(emptyDraft());
+	};
+
+	const run = async (action: () => Promise<void>, after: () => void = resetForm) => {
+		setSaving(true);
+		try {
+			await action();
+			after();
+		} catch (e) {
+			Alert.alert('Accounts', e instanceof Error ? e.message : String(e));
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const onSave = () => {
+		const input = {
+			name: draft.name,
+			kind: draft.kind,
+			openingBalance: parseField(draft.openingBalance, parseAmount),
+		};
+		return run(() =>
+			editingId ? updateAccount(editingId, input) : createAccount(input),
+		);
+	};
+
+	const onTransfer = () =>
+		run(
+			() =>
+				transfer({
+					fromId: move.fromId ?? '',
+					toId: move.toId ?? '',
+					amount: parseField(move.amount, parseAmount),
+					date: localToday(),
+					note: move.note,
+				}),
+			() => setMove({ amount: '', note: '' }),
+		);
+
+	const startEdit = (account: Account) => {
+		setEditingId(account.id);
+		setDraft({
+			name: account.name,
+			kind: account.kind,
+			openingBalance: account.openingBalance ? String(account.openingBalance) : '',
+		});
+	};
+
+	return (
+		<View style={styles.root}>
+			<ScrollView
+				contentContainerStyle={[
+					styles.scroll,
+					{ paddingBottom: insets.bottom + space.xxl },
+				]}
+				keyboardShouldPersistTaps="handled"
+				showsVerticalScrollIndicator={false}
+			>
+				<AppReveal delayMs={30} distance={8}>
+					<AppText.Caption color="muted" style={styles.kicker}>
+						Accounts
+					</AppText.Caption>
+					<AppText.Body color="muted" style={styles.intro}>
+						Track where your money sits. Entries without an account count
+						toward the first one; end a capture line with @name to pick another.
+					</AppText.Body>
+				</AppReveal>
+
+				<AppCard padding={0} borderRadius={radius.lg}>
+					{accounts.map((account, i) => (
+						<TouchableOpacity
+							key={account.id}
+							style={[styles.row, i === accounts.length - 1 && styles.rowLast]}
+							onPress={() => startEdit(account)}
+							accessibilityRole="button"
+							accessibilityLabel={`Edit account ${account.name}`}
+						>
+							<Ionicons
+								name={accountIcon(account.kind) as keyof typeof Ionicons.glyphMap}
+								size={20}
+								color={account.archived ? palette.textSubtle : palette.primary}
+							/>
+							<AppText.Body
+								style={styles.rowLabel}
+								color={account.archived ? 'subtle' : 'default'}
+								numberOfLines={1}
+							>
+								{account.archived ? `${account.name} (archived)` : account.name}
+							</AppText.Body>
+							<AppText.Body color={(balances[account.id] ?? 0) < 0 ? 'danger' : 'default'}>
+								{currency(balances[account.id] ?? 0)}
+							</AppText.Body>
+						</TouchableOpacity>
+					))}
+				</AppCard>
+
+				<AppCard padding={space.lg}>
+					<AppText.Heading style={styles.sectionTitle}>
+						{editingId ? 'Edit account' : 'New account'}
+					</AppText.Heading>
+					<TextInput
+						style={styles.input}
+						value={draft.name}
+						onChangeText={(name) => setDraft((d) => ({ ...d, name }))}
+						placeholder="Name, e.g. Visa"
+						placeholderTextColor={palette.textSubtle}
+						editable={!saving}
+						maxLength={40}
+					/>
+					<View style={styles.chipRow}>
+						{ACCOUNT_KINDS.map(({ kind, label }) => (
+							<AppChip
+								key={kind}
+								label={label}
+								selected={draft.kind === kind}
+								onPress={() => setDraft((d) => ({ ...d, kind }))}
+							/>
+						))}
+					</View>
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Opening balance
+					</AppText.Label>
+					<TextInput
+						style={styles.input}
+						value={draft.openingBalance}
+						onChangeText={(openingBalance) => setDraft((d) => ({ ...d, openingBalance }))}
+						placeholder={draft.kind === 'card' ? 'e.g. -250 owed' : '0.00'}
+						placeholderTextColor={palette.textSubtle}
+						keyboardType="numbers-and-punctuation"
+						editable={!saving}
+					/>
+
+					<View style={styles.actions}>
+						<AppButton
+							label={editingId ? 'Save account' : 'Add account'}
+							variant="primary"
+							loading={saving}
+							disabled={saving || !draft.name.trim()}
+							onPress={() => void onSave()}
+							fullWidth
+						/>
+						{editing ? (
+							<>
+								<AppButton
+									label={editing.archived ? 'Restore account' : 'Archive account'}
+									variant="ghost"
+									disabled={saving}
+									onPress={() => void run(() => archiveAccount(editing.id, !editing.archived))}
+									fullWidth
+								/>
+								<AppButton
+									label="Cancel"
+									variant="ghost"
+									disabled={saving}
+									onPress={resetForm}
+									fullWidth
+								/>
+							</>
+						) : null}
+					</View>
+				</AppCard>
+
+				{open.length > 1 ? (
+					<AppCard padding={space.lg}>
+						<AppText.Heading style={styles.sectionTitle}>Transfer</AppText.Heading>
+						<AppText.Label color="muted" style={styles.optionLabel}>
+							From
+						</AppText.Label>
+						<View style={styles.chipRow}>
+							{open.map((account) => (
+								<AppChip
+									key={account.id}
+									label={account.name}
+									selected={move.fromId === account.id}
+									onPress={() => setMove((m) => ({ ...m, fromId: account.id }))}
+								/>
+							))}
+						</View>
+						<AppText.Label color="muted" style={styles.optionLabel}>
+							To
+						</AppText.Label>
+						<View style={styles.chipRow}>
+							{open.map((account) => (
+								<AppChip
+									key={account.id}
+									label={account.name}
+									selected={move.toId === account.id}
+									onPress={() => setMove((m) => ({ ...m, toId: account.id }))}
+								/>
+							))}
+						</View>
+						<TextInput
+							style={styles.input}
+							value={move.amount}
+							onChangeText={(amount) => setMove((m) => ({ ...m, amount }))}
+							placeholder="Amount"
+							placeholderTextColor={palette.textSubtle}
+							keyboardType="decimal-pad"
+							editable={!saving}
+						/>
+						<TextInput
+							style={styles.input}
+							value={move.note}
+							onChangeText={(note) => setMove((m) => ({ ...m, note }))}
+							placeholder="Note (optional)"
+							placeholderTextColor={palette.textSubtle}
+							editable={!saving}
+							maxLength={80}
+						/>
+						<AppText.Caption color="muted" style={styles.hint}>
+							Transfers move money between accounts and do not count as Cash In or Cash Out.
+						</AppText.Caption>
+						<AppButton
+							label="Move money"
+							variant="secondary"
+							icon="swap-horizontal-outline"
+							iconPosition="left"
+							loading={saving}
+							disabled={saving || !move.fromId || !move.toId || !move.amount.trim()}
+							onPress={() => void onTransfer()}
+							fullWidth
+						/>
+					</AppCard>
+				) : null}
+			</ScrollView>
+		</View>
+	);
+}
+
+const styles = StyleSheet.create({
+	root: {
+		flex: 1,
+		backgroundColor: palette.bg,
+	},
+	scroll: {
+		paddingHorizontal: space.lg,
+		paddingTop: space.md,
+		gap: space.md,
+	},
+	kicker: {
+		...type.labelSm,
+		color: palette.textMuted,
+		marginBottom: space.xs,
+	},
+	intro: {
+		lineHeight: 22,
+		marginBottom: space.sm,
+	},
+	sectionTitle: {
+		marginBottom: space.md,
+	},
+	input: {
+		borderRadius: radius.xl2,
+		borderWidth: StyleSheet.hairlineWidth,
+		borderColor: palette.border,
+		backgroundColor: palette.input,
+		paddingHorizontal: space.md,
+		paddingVertical: Platform.OS === 'ios' ? 12 : 10,
+		fontSize: 16,
+		color: palette.text,
+		marginBottom: space.sm,
+	},
+	optionLabel: {
+		marginBottom: space.xs,
+		marginTop: space.xs,
+	},
+	chipRow: {
+		flexDirection: 'row',
+		flexWrap: 'wrap',
+		marginBottom: space.sm,
+	},
+	hint: {
+		marginBottom: space.md,
+	},
+	actions: {
+		gap: space.sm,
+		marginTop: space.md,
+	},
+	row: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: space.md,
+		paddingVertical: space.md,
+		paddingHorizontal: space.lg,
+		borderBottomWidth: StyleSheet.hairlineWidth,
+		borderBottomColor: palette.border,
+	},
+	rowLast: {
+		borderBottomWidth: 0,
+	},
+	rowLabel: {
+		flex: 1,
+	},
+});
@@ -0,0 +1,370 @@
+import React, { useCallback, useContext, useState } from 'react';
+import {
+	View,
+	StyleSheet,
+	ScrollView,
+	TextInput,
+	Alert,
+	Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { TransactionContext } from '../../../src/context/transactionContext';
+import { useLocale } from '../../../src/context/localeContext';
+import { loadLocalOverrides } from '../../../src/config/features';
+import {
+	BACKUP_KEYS,
+	createBackupArchive,
+	isEncryptedBackup,
+	parseBackup,
+	restoreBackup,
+	serializeBackup,
+	summarizeBackup,
+	type BackupArchive,
+	type BackupRestoreMode,
+} from '../../../src/storage/backupArchive';
+import { stampForFilename } from '../../../src/lib/transactions-export';
+import { palette, radius, space, type } from '../../../src/ui/theme';
+import { AppCard, AppText, AppButton, AppReveal } from '../../../src/ui/primitives';
+
+// BackupError messages are written for the user; show them as they are
+function errorMessage(e: unknown, fallback: string): string {
+	return e instanceof Error ? e.message : fallback;
+}
+
+export default function BackupScreen() {
+	const insets = useSafeAreaInsets();
+	const { refetch } = useContext(TransactionContext);
+	const { formatDate } = useLocale();
+	const [passphrase, setPassphrase] = useState('');
+	const [confirm, setConfirm] = useState('');
+	const [creating, setCreating] = useState(false);
+
+	const [fileName, setFileName] = useState<string | null>(null);
+	const [fileText, setFileText] = useState<string | null>(null);
+	const [unlockPassphrase, setUnlockPassphrase] = useState('');
+	const [archive, setArchive] = useState<BackupArchive | null>(null);
+	const [picking, setPicking] = useState(false);
+	const [restoring, setRestoring] = useState(false);
+
+	const mismatch = passphrase.length > 0 && passphrase !== confirm;
+	const locked = fileText != null && archive == null;
+	const summary = archive ? summarizeBackup(archive) : null;
+
+	const onCreate = useCallback(async () => {
+		setCreating(true);
+		try {
+			const base = FileSystem.cacheDirectory;
+			if (!base) {
+				Alert.alert('Backup', 'File storage is not available on this device.');
+				return;
+			}
+			if (!(await Sharing.isAvailableAsync())) {
+				Alert.alert('Backup', 'Sharing is not available on this device.');
+				return;
+			}
+			const body = serializeBackup(await createBackupArchive(), passphrase || undefined);
+			const path = `${base}brie-backup-${stampForFilename()}.json`;
+			await FileSystem.writeAsStringAsync(path, body, {
+				encoding: FileSystem.EncodingType.UTF8,
+			});
+			try {
+				await Sharing.shareAsync(path, {
+					mimeType: 'application/json',
+					dialogTitle: 'Save Brie backup',
+				});
+			} finally {
+				// Once shared, don't leave a copy of all the data in the cache
+				await FileSystem.deleteAsync(path, { idempotent: true }).catch(() => undefined);
+			}
+			setPassphrase('');
+			setConfirm('');
+		} catch (e) {
+			Alert.alert('Backup', errorMessage(e, 'Could not create the backup.'));
+		} finally {
+			setCreating(false);
+		}
+	}, [passphrase]);
+
+	const resetRestore = () => {
+		setFileName(null);
+		setFileText(null);
+		setUnlockPassphrase('');
+		setArchive(null);
+	};
+
+	const onPick = useCallback(async () => {
+		setPicking(true);
+		try {
+			const result = await DocumentPicker.getDocumentAsync({
+				type: ['application/json', 'text/plain', 'application/octet-stream'],
+				copyToCacheDirectory: true,
+			});
+			if (result.canceled || !result.assets?.[0]) return;
+			const asset = result.assets[0];
+			const text = await FileSystem.readAsStringAsync(asset.uri, {
+				encoding: FileSystem.EncodingType.UTF8,
+			});
+			setUnlockPassphrase('');
+			setFileName(asset.name);
+			setFileText(text);
+			// Encrypted archives wait for the passphrase; plain ones are validated now
+			setArchive(isEncryptedBackup(text) ? null : parseBackup(text));
+		} catch (e) {
+			resetRestore();
+			Alert.alert('Restore', errorMessage(e, 'Could not read that file.'));
+		} finally {
+			setPicking(false);
+		}
+	}, []);
+
+	const onUnlock = useCallback(() => {
+		if (!fileText) return;
+		try {
+			setArchive(parseBackup(fileText, unlockPassphrase));
+		} catch (e) {
+			Alert.alert('Restore', errorMessage(e, 'Could not open that backup.'));
+		}
+	}, [fileText, unlockPassphrase]);
+
+	const runRestore = useCallback(
+		async (mode: BackupRestoreMode) => {
+			if (!archive) return;
+			setRestoring(true);
+			try {
+				const result = await restoreBackup(archive, mode);
+				await loadLocalOverrides();
+				await refetch();
+				resetRestore();
+				Alert.alert(
+					'Restore complete',
+					`${result.transactionsWritten} transaction${
+						result.transactionsWritten === 1 ? '' : 's'
+					} restored, ${result.transactionCount} on this phone now. ${
+						result.settingsWritten > 0
+							? 'Some settings apply after the app restarts.'
+							: ''
+					}`.trim(),
+				);
+			} catch (e) {
+				Alert.alert('Restore', errorMessage(e, 'Could not restore this backup.'));
+			} finally {
+				setRestoring(false);
+			}
+		},
+		[archive, refetch],
+	);
+
+	const onReplace = () => {
+		Alert.alert(
+			'Replace everything?',
+			'Transactions and settings on this phone that are not in the backup will be deleted.',
+			[
+				{ text: 'Cancel', style: 'cancel' },
+				{
+					text: 'Replace',
+					style: 'destructive',
+					onPress: () => void runRestore('replace'),
+				},
+			],
+		);
+	};
+
+	const busy = creating || picking || restoring;
+
+	return (
+		<View style={styles.root}>
+			<ScrollView
+				contentContainerStyle={[
+					styles.scroll,
+					{ paddingBottom: insets.bottom + space.xxl },
+				]}
+				keyboardShouldPersistTaps="handled"
+				showsVerticalScrollIndicator={false}
+			>
+				<AppReveal delayMs={30} distance={8}>
+					<AppText.Caption color="muted" style={styles.kicker}>
+						This phone
+					</AppText.Caption>
+					<AppText.Body color="muted" style={styles.intro}>
+						Back up transactions kept on this phone and your app settings (
+						{BACKUP_KEYS.map((k) => k.label.toLowerCase()).join(', ')}) into one
+						file. Add a passphrase to encrypt it; without the passphrase the file
+						cannot be restored.
+					</AppText.Body>
+				</AppReveal>
+
+				<AppReveal delayMs={80}>
+					<AppCard padding={space.lg}>
+						<AppText.Heading style={styles.sectionTitle}>Create backup</AppText.Heading>
+						<TextInput
+							style={styles.input}
+							value={passphrase}
+							onChangeText={setPassphrase}
+							placeholder="Passphrase (optional)"
+							placeholderTextColor={palette.textSubtle}
+							secureTextEntry
+							autoCapitalize="none"
+							autoCorrect={false}
+							editable={!busy}
+						/>
+						{passphrase ? (
+							<TextInput
+								style={styles.input}
+								value={confirm}
+								onChangeText={setConfirm}
+								placeholder="Repeat passphrase"
+								placeholderTextColor={palette.textSubtle}
+								secureTextEntry
+								autoCapitalize="none"
+								autoCorrect={false}
+								editable={!busy}
+							/>
+						) : null}
+						{mismatch && confirm ? (
+							<AppText.Caption color="danger" style={styles.status}>
+								Passphrases do not match.
+							</AppText.Caption>
+						) : null}
+						<AppButton
+							label={passphrase ? 'Create encrypted backup' : 'Create backup'}
+							variant="primary"
+							icon="archive-outline"
+							iconPosition="left"
+							loading={creating}
+							disabled={busy || mismatch}
+							onPress={onCreate}
+							fullWidth
+						/>
+					</AppCard>
+				</AppReveal>
+
+				<AppReveal delayMs={130}>
+					<AppCard padding={space.lg}>
+						<AppText.Heading style={styles.sectionTitle}>Restore</AppText.Heading>
+						<AppText.Body style={styles.fileName} numberOfLines={1}>
+							{fileName ?? 'No backup selected'}
+						</AppText.Body>
+						<View style={styles.actions}>
+							<AppButton
+								label={fileName ? 'Choose another backup' : 'Choose backup file'}
+								variant="secondary"
+								icon="document-outline"
+								iconPosition="left"
+								loading={picking}
+								disabled={busy}
+								onPress={onPick}
+								fullWidth
+							/>
+						</View>
+
+						{locked ? (
+							<View style={styles.restoreBlock}>
+								<TextInput
+									style={styles.input}
+									value={unlockPassphrase}
+									onChangeText={setUnlockPassphrase}
+									placeholder="Backup passphrase"
+									placeholderTextColor={palette.textSubtle}
+									secureTextEntry
+									autoCapitalize="none"
+									autoCorrect={false}
+									editable={!busy}
+								/>
+								<AppButton
+									label="Unlock"
+									variant="primary"
+									disabled={busy || !unlockPassphrase}
+									onPress={onUnlock}
+									fullWidth
+								/>
+							</View>
+						) : null}
+
+						{summary ? (
+							<View style={styles.restoreBlock}>
+								<AppText.Caption color="muted" style={styles.status}>
+									{summary.transactionCount} transaction
+									{summary.transactionCount === 1 ? '' : 's'}
+									{summary.settings.length > 0
+										? ` · ${summary.settings.join(', ')}`
+										: ''}
+									{summary.createdAt
+										? ` · made ${formatDate(new Date(summary.createdAt))}`
+										: ''}
+								</AppText.Caption>
+								<View style={styles.actions}>
+									<AppButton
+										label="Merge into this phone"
+										variant="primary"
+										loading={restoring}
+										disabled={busy}
+										onPress={() => void runRestore('merge')}
+										fullWidth
+									/>
+									<AppButton
+										label="Replace everything"
+										variant="ghost"
+										disabled={busy}
+										onPress={onReplace}
+										fullWidth
+									/>
+								</View>
+							</View>
+						) : null}
+					</AppCard>
+				</AppReveal>
+			</ScrollView>
+		</View>
+	);
+}
+
+const styles = StyleSheet.create({
+	root: {
+		flex: 1,
+		backgroundColor: palette.bg,
+	},
+	scroll: {
+		paddingHorizontal: space.lg,
+		paddingTop: space.md,
+		gap: space.md,
+	},
+	kicker: {
+		...type.labelSm,
+		color: palette.textMuted,
+		marginBottom: space.xs,
+	},
+	intro: {
+		lineHeight: 22,
+		marginBottom: space.sm,
+	},
+	sectionTitle: {
+		marginBottom: space.md,
+	},
+	fileName: {
+		marginBottom: space.md,
+	},
+	input: {
+		borderRadius: radius.xl2,
+		borderWidth: StyleSheet.hairlineWidth,
+		borderColor: palette.border,
+		backgroundColor: palette.input,
+		paddingHorizontal: space.md,
+		paddingVertical: Platform.OS === 'ios' ? 12 : 10,
+		fontSize: 16,
+		color: palette.text,
+		marginBottom: space.sm,
+	},
+	status: {
+		marginBottom: space.md,
+		lineHeight: 18,
+	},
+	actions: {
+		gap: space.sm,
+	},
+	restoreBlock: {
+		marginTop: space.lg,
+	},
+});
@@ -0,0 +1,528 @@
+import React, { useContext, useEffect, useMemo, useState } from 'react';
+import {
+	View,
+	StyleSheet,
+	ScrollView,
+	TextInput,
+	Alert,
+	Platform,
+	TouchableOpacity,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useBills, getBillId } from '../../../src/context/billContext';
+import { useCategories } from '../../../src/context/categoryContext';
+import { useCurrency } from '../../../src/context/currencyContext';
+import { useLocale } from '../../../src/context/localeContext';
+import { TransactionContext } from '../../../src/context/transactionContext';
+import { DateField } from '../../../src/components/DateField';
+import { toYmd } from '../../../src/lib/week-analytics';
+import {
+	describeRule,
+	frequencyForRule,
+	type RecurrenceRule,
+} from '../../../src/lib/recurrence';
+import type { LocalBill } from '../../../src/lib/recurring-bills';
+import {
+	detectRecurringPatterns,
+	recurringPatternFor,
+	type DetectedPattern,
+} from '../../../src/lib/recurring-detection';
+import {
+	loadDismissedPatterns,
+	saveDismissedPatterns,
+} from '../../../src/storage/recurringStorage';
+import { palette, radius, space, type } from '../../../src/ui/theme';
+import {
+	AppCard,
+	AppText,
+	AppButton,
+	AppReveal,
+	AppChip,
+} from '../../../src/ui/primitives';
+
+type Schedule = { key: string; label: string; rule: RecurrenceRule };
+
+const SCHEDULES: Schedule[] = [
+	{ key: 'weekly', label: 'Weekly', rule: { freq: 'weekly' } },
+	{ key: 'biweekly', label: 'Every 2 weeks', rule: { freq: 'weekly', interval: 2 } },
+	{ key: 'monthly', label: 'Monthly', rule: { freq: 'monthly' } },
+	{
+		key: 'lastBusinessDay',
+		label: 'Last business day',
+		rule: { freq: 'monthly', monthDay: -1, businessDay: 'before' },
+	},
+	{ key: 'quarterly', label: 'Quarterly', rule: { freq: 'monthly', interval: 3 } },
+	{ key: 'yearly', label: 'Yearly', rule: { freq: 'yearly' } },
+];
+
+type Draft = {
+	vendor: string;
+	amount: string;
+	schedule: string;
+	nextExpectedDate: string;
+	autoPay: boolean;
+	category?: string;
+};
+
+const emptyDraft = (): Draft => ({
+	vendor: '',
+	amount: '',
+	schedule: 'monthly',
+	nextExpectedDate: toYmd(new Date()),
+	autoPay: false,
+});
+
+function scheduleKey(rule: RecurrenceRule | undefined): string {
+	const match = SCHEDULES.find(
+		(s) => JSON.stringify(s.rule) === JSON.stringify(rule ?? { freq: 'monthly' })
+	);
+	return match?.key ?? 'monthly';
+}
+
+export default function BillsScreen() {
+	const insets = useSafeAreaInsets();
+	const { expenses, hasLoaded, addBill, updateBill, deleteBill, payBill, skipBill } =
+		useBills();
+	const { categoriesFor } = useCategories();
+	const { format: currency } = useCurrency();
+	const { parseAmount, formatDate, formatNumber } = useLocale();
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [draft, setDraft] = useState<Draft>(emptyDraft);
+	const [saving, setSaving] = useState(false);
+	const { transactions, updateTransaction } = useContext(TransactionContext);
+	const [dismissed, setDismissed] = useState<string[]>([]);
+
+	const bills = expenses as LocalBill[];
+	const today = toYmd(new Date());
+	const rule = SCHEDULES.find((s) => s.key === draft.schedule)?.rule ?? SCHEDULES[2].rule;
+
+	useEffect(() => {
+		loadDismissedPatterns().then(setDismissed);
+	}, []);
+
+	const suggestions = useMemo(
+		() =>
+			detectRecurringPatterns(
+				transactions,
+				bills.map((b) => b.vendor)
+			)
+				.filter((p) => !dismissed.includes(p.patternId))
+				.slice(0, 5),
+		[transactions, bills, dismissed]
+	);
+
+	const resetForm = () => {
+		setEditingId(null);
+		setDraft(emptyDraft());
+	};
+
+	const run = async (action: () => Promise<void>, after: () => void = resetForm) => {
+		setSaving(true);
+		try {
+			await action();
+			after();
+		} catch (e) {
+			Alert.alert('Bills', e instanceof Error ? e.message : String(e));
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const onSave = () => {
+		const input = {
+			vendor: draft.vendor,
+			amount: parseAmount(draft.amount) ?? NaN,
+			rule,
+			autoPay: draft.autoPay,
+			category: draft.category,
+		};
+		const editing = bills.find((b) => getBillId(b) === editingId);
+		return run(async () => {
+			if (!editing) {
+				await addBill({
+					...input,
+					frequency: frequencyForRule(rule),
+					nextExpectedDate: draft.nextExpectedDate,
+				});
+				return;
+			}
+			// A new date restarts the schedule from it, so only send one that changed
+			const moved = draft.nextExpectedDate !== editing.nextExpectedDate.slice(0, 10);
+			await updateBill(getBillId(editing), {
+				...input,
+				nextExpectedDate: moved ? draft.nextExpectedDate : undefined,
+			});
+		});
+	};
+
+	const startEdit = (bill: LocalBill) => {
+		setEditingId(getBillId(bill));
+		setDraft({
+			vendor: bill.vendor,
+			amount: formatNumber(bill.amount, { grouping: false }),
+			schedule: scheduleKey(bill.rule),
+			nextExpectedDate: bill.nextExpectedDate.slice(0, 10),
+			autoPay: !!bill.autoPay,
+			category: bill.categories?.[0],
+		});
+	};
+
+	const confirmDelete = (bill: LocalBill) =>
+		Alert.alert(
+			`Delete ${bill.vendor}?`,
+			'Payments already in your ledger stay there.',
+			[
+				{ text: 'Cancel', style: 'cancel' },
+				{
+					text: 'Delete',
+					style: 'destructive',
+					onPress: () => void run(() => deleteBill(getBillId(bill))),
+				},
+			]
+		);
+
+	const confirmPattern = (pattern: DetectedPattern) =>
+		run(async () => {
+			const bill = await addBill({
+				vendor: pattern.vendor,
+				amount: pattern.amount,
+				frequency: pattern.frequency,
+				rule: pattern.rule,
+				nextExpectedDate: pattern.nextExpectedDate,
+				category: pattern.category,
+				currency: pattern.currency,
+			});
+			// Tag the payments it was found from so they count as this bill's history
+			const recurringPattern = recurringPatternFor(pattern, getBillId(bill));
+			for (const id of pattern.transactionIds) {
+				await updateTransaction(id, { recurringPattern });
+			}
+		}, () => {});
+
+	const dismissPattern = (pattern: DetectedPattern) => {
+		const next = [...dismissed, pattern.patternId];
+		setDismissed(next);
+		saveDismissedPatterns(next).catch(() => {});
+	};
+
+	const dueText = (bill: LocalBill) => {
+		const date = bill.nextExpectedDate.slice(0, 10);
+		if (bill.isOverdue) return `Overdue since ${formatDate(date, 'monthDay')}`;
+		if (date === today) return 'Due today';
+		return `Next ${formatDate(date, 'monthDay')}`;
+	};
+
+	return (
+		<View style={styles.root}>
+			<ScrollView
+				contentContainerStyle={[
+					styles.scroll,
+					{ paddingBottom: insets.bottom + space.xxl },
+				]}
+				keyboardShouldPersistTaps="handled"
+				showsVerticalScrollIndicator={false}
+			>
+				<AppReveal delayMs={30} distance={8}>
+					<AppText.Caption color="muted" style={styles.kicker}>
+						Bills
+					</AppText.Caption>
+					<AppText.Body color="muted" style={styles.intro}>
+						Rent, subscriptions and anything else that repeats. Auto-pay bills
+						are added to your ledger when they come due; the rest wait for you
+						to mark them paid or skip them.
+					</AppText.Body>
+				</AppReveal>
+
+				{bills.length > 0 ? (
+					<AppCard padding={0} borderRadius={radius.lg}>
+						{bills.map((bill, i) => (
+							<View
+								key={getBillId(bill)}
+								style={[styles.row, i === bills.length - 1 && styles.rowLast]}
+							>
+								<TouchableOpacity
+									style={styles.rowHeader}
+									onPress={() => startEdit(bill)}
+									accessibilityRole="button"
+									accessibilityLabel={`Edit bill ${bill.vendor}`}
+								>
+									<View style={styles.rowLabel}>
+										<AppText.Body numberOfLines={1}>{bill.vendor}</AppText.Body>
+										<AppText.Caption color="muted" numberOfLines={1}>
+											{bill.schedule}
+											{bill.autoPay ? ' · Auto-pay' : ''}
+										</AppText.Caption>
+									</View>
+									<View style={styles.rowAmount}>
+										<AppText.Body>{currency(bill.amount)}</AppText.Body>
+										<AppText.Caption color={bill.isOverdue ? 'danger' : 'muted'}>
+											{dueText(bill)}
+										</AppText.Caption>
+									</View>
+								</TouchableOpacity>
+								{bill.dueDates?.length ? (
+									<View style={styles.rowActions}>
+										<AppButton
+											label="Mark paid"
+											variant="secondary"
+											disabled={saving}
+											onPress={() => void run(() => payBill(getBillId(bill)), () => {})}
+										/>
+										<AppButton
+											label="Skip"
+											variant="ghost"
+											disabled={saving}
+											onPress={() => void run(() => skipBill(getBillId(bill)), () => {})}
+										/>
+									</View>
+								) : null}
+							</View>
+						))}
+					</AppCard>
+				) : hasLoaded ? (
+					<AppText.Body color="muted">No bills yet.</AppText.Body>
+				) : null}
+
+				{suggestions.length > 0 ? (
+					<AppCard padding={0} borderRadius={radius.lg}>
+						<View style={styles.suggestionHeader}>
+							<AppText.Heading>Looks recurring</AppText.Heading>
+							<AppText.Caption color="muted">
+								Found in your transactions. Add one to track it as a bill.
+							</AppText.Caption>
+						</View>
+						{suggestions.map((pattern, i) => (
+							<View
+								key={pattern.patternId}
+								style={[styles.row, i === suggestions.length - 1 && styles.rowLast]}
+							>
+								<View style={styles.rowHeader}>
+									<View style={styles.rowLabel}>
+										<AppText.Body numberOfLines={1}>{pattern.vendor}</AppText.Body>
+										<AppText.Caption color="muted" numberOfLines={1}>
+											{describeRule(pattern.rule, pattern.nextExpectedDate)} ·{' '}
+											{pattern.transactionCount} payments ·{' '}
+											{Math.round(pattern.confidence * 100)}% sure
+										</AppText.Caption>
+									</View>
+									<View style={styles.rowAmount}>
+										<AppText.Body>{currency(pattern.amount)}</AppText.Body>
+										<AppText.Caption color="muted">
+											Next {formatDate(pattern.nextExpectedDate, 'monthDay')}
+										</AppText.Caption>
+									</View>
+								</View>
+								<View style={styles.rowActions}>
+									<AppButton
+										label="Add as bill"
+										variant="secondary"
+										disabled={saving}
+										onPress={() => void confirmPattern(pattern)}
+									/>
+									<AppButton
+										label="Not a bill"
+										variant="ghost"
+										disabled={saving}
+										onPress={() => dismissPattern(pattern)}
+									/>
+								</View>
+							</View>
+						))}
+					</AppCard>
+				) : null}
+
+				<AppCard padding={space.lg}>
+					<AppText.Heading style={styles.sectionTitle}>
+						{editingId ? 'Edit bill' : 'New bill'}
+					</AppText.Heading>
+					<TextInput
+						style={styles.input}
+						value={draft.vendor}
+						onChangeText={(vendor) => setDraft((d) => ({ ...d, vendor }))}
+						placeholder="Name, e.g. Rent"
+						placeholderTextColor={palette.textSubtle}
+						editable={!saving}
+						maxLength={60}
+					/>
+					<TextInput
+						style={styles.input}
+						value={draft.amount}
+						onChangeText={(amount) => setDraft((d) => ({ ...d, amount }))}
+						placeholder="Amount"
+						placeholderTextColor={palette.textSubtle}
+						keyboardType="decimal-pad"
+						editable={!saving}
+					/>
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Repeats
+					</AppText.Label>
+					<View style={styles.chipRow}>
+						{SCHEDULES.map((schedule) => (
+							<AppChip
+								key={schedule.key}
+								label={schedule.label}
+								selected={draft.schedule === schedule.key}
+								onPress={() => setDraft((d) => ({ ...d, schedule: schedule.key }))}
+							/>
+						))}
+					</View>
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						{editingId ? 'Next payment' : 'First payment'}
+					</AppText.Label>
+					<DateField
+						value={draft.nextExpectedDate}
+						onChange={(nextExpectedDate) => setDraft((d) => ({ ...d, nextExpectedDate }))}
+					/>
+					<AppText.Caption color="muted" style={styles.hint}>
+						{describeRule(rule, draft.nextExpectedDate)}
+					</AppText.Caption>
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Category
+					</AppText.Label>
+					<View style={styles.chipRow}>
+						{categoriesFor('expense').map((category) => (
+							<AppChip
+								key={category.id}
+								label={category.name}
+								selected={draft.category === category.name}
+								onPress={() =>
+									setDraft((d) => ({
+										...d,
+										category: d.category === category.name ? undefined : category.name,
+									}))
+								}
+							/>
+						))}
+					</View>
+					<View style={styles.chipRow}>
+						<AppChip
+							label="Remind me"
+							selected={!draft.autoPay}
+							onPress={() => setDraft((d) => ({ ...d, autoPay: false }))}
+						/>
+						<AppChip
+							label="Auto-pay"
+							selected={draft.autoPay}
+							onPress={() => setDraft((d) => ({ ...d, autoPay: true }))}
+						/>
+					</View>
+
+					<View style={styles.actions}>
+						<AppButton
+							label={editingId ? 'Save bill' : 'Add bill'}
+							variant="primary"
+							loading={saving}
+							disabled={saving || !draft.vendor.trim() || !draft.amount.trim()}
+							onPress={() => void onSave()}
+							fullWidth
+						/>
+						{editingId ? (
+							<>
+								<AppButton
+									label="Delete bill"
+									variant="ghost"
+									disabled={saving}
+									onPress={() => {
+										const bill = bills.find((b) => getBillId(b) === editingId);
+										if (bill) confirmDelete(bill);
+									}}
+									fullWidth
+								/>
+								<AppButton
+									label="Cancel"
+									variant="ghost"
+									disabled={saving}
+									onPress={resetForm}
+									fullWidth
+								/>
+							</>
+						) : null}
+					</View>
+				</AppCard>
+			</ScrollView>
+		</View>
+	);
+}
+
+const styles = StyleSheet.create({
+	root: {
+		flex: 1,
+		backgroundColor: palette.bg,
+	},
+	scroll: {
+		paddingHorizontal: space.lg,
+		paddingTop: space.md,
+		gap: space.md,
+	},
+	kicker: {
+		...type.labelSm,
+		color: palette.textMuted,
+		marginBottom: space.xs,
+	},
+	intro: {
+		lineHeight: 22,
+		marginBottom: space.sm,
+	},
+	sectionTitle: {
+		marginBottom: space.md,
+	},
+	input: {
+		borderRadius: radius.xl2,
+		borderWidth: StyleSheet.hairlineWidth,
+		borderColor: palette.border,
+		backgroundColor: palette.input,
+		paddingHorizontal: space.md,
+		paddingVertical: Platform.OS === 'ios' ? 12 : 10,
+		fontSize: 16,
+		color: palette.text,
+		marginBottom: space.sm,
+	},
+	optionLabel: {
+		marginBottom: space.xs,
+		marginTop: space.xs,
+	},
+	chipRow: {
+		flexDirection: 'row',
+		flexWrap: 'wrap',
+		marginBottom: space.sm,
+	},
+	hint: {
+		marginTop: space.xs,
+		marginBottom: space.sm,
+	},
+	actions: {
+		gap: space.sm,
+		marginTop: space.md,
+	},
+	row: {
+		paddingVertical: space.md,
+		paddingHorizontal: space.lg,
+		borderBottomWidth: StyleSheet.hairlineWidth,
+		borderBottomColor: palette.border,
+		gap: space.sm,
+	},
+	rowLast: {
+		borderBottomWidth: 0,
+	},
+	rowHeader: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: space.md,
+	},
+	rowLabel: {
+		flex: 1,
+	},
+	rowAmount: {
+		alignItems: 'flex-end',
+	},
+	suggestionHeader: {
+		paddingHorizontal: space.lg,
+		paddingTop: space.lg,
+		paddingBottom: space.sm,
+		gap: space.xs,
+	},
+	rowActions: {
+		flexDirection: 'row',
+		gap: space.sm,
+	},
+});
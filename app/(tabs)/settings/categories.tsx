@@ -0,0 +1,424 @@
+import React, { useMemo, useState } from 'react';
+import {
+	View,
+	StyleSheet,
+	ScrollView,
+	TextInput,
+	Alert,
+	Platform,
+	TouchableOpacity,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useCategories } from '../../../src/context/categoryContext';
+import {
+	CATEGORY_COLORS,
+	CATEGORY_ICONS,
+	orderedCategories,
+	type Category,
+	type CategoryKind,
+} from '../../../src/lib/categories';
+import { palette, radius, space, type } from '../../../src/ui/theme';
+import {
+	AppCard,
+	AppText,
+	AppButton,
+	AppReveal,
+	AppChip,
+} from '../../../src/ui/primitives';
+
+const KINDS: { value: CategoryKind; label: string }[] = [
+	{ value: 'expense', label: 'Cash Out' },
+	{ value: 'income', label: 'Cash In' },
+];
+
+type Draft = {
+	name: string;
+	parentId?: string;
+	icon: string;
+	color: string;
+};
+
+const emptyDraft = (): Draft => ({
+	name: '',
+	icon: CATEGORY_ICONS[0],
+	color: CATEGORY_COLORS[0],
+});
+
+export default function CategoriesScreen() {
+	const insets = useSafeAreaInsets();
+	const {
+		categories,
+		pendingRewriteCount,
+		createCategory,
+		updateCategory,
+		mergeCategories,
+		archiveCategory,
+	} = useCategories();
+	const [kind, setKind] = useState<CategoryKind>('expense');
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [draft, setDraft] = useState<Draft>(emptyDraft);
+	const [merging, setMerging] = useState(false);
+	const [saving, setSaving] = useState(false);
+
+	const list = useMemo(
+		() => orderedCategories(categories, kind, { includeArchived: true }),
+		[categories, kind],
+	);
+	const editing = categories.find((c) => c.id === editingId) ?? null;
+	const parentOptions = list.filter(
+		(c) => !c.parentId && !c.archived && c.id !== editingId,
+	);
+	const mergeTargets = list.filter((c) => !c.archived && c.id !== editingId);
+
+	const resetForm = () => {
+		setEditingId(null);
+		setDraft(emptyDraft());
+		setMerging(false);
+	};
+
+	const startEdit = (category: Category) => {
+		setEditingId(category.id);
+		setDraft({
+			name: category.name,
+			parentId: category.parentId,
+			icon: category.icon,
+			color: category.color,
+		});
+		setMerging(false);
+	};
+
+	const run = async (action: () => Promise<void>) => {
+		setSaving(true);
+		try {
+			await action();
+			resetForm();
+		} catch (e) {
+			Alert.alert('Categories', e instanceof Error ? e.message : String(e));
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const onSave = () =>
+		run(() =>
+			editing
+				? updateCategory(editing.id, {
+						name: draft.name,
+						parentId: draft.parentId,
+						icon: draft.icon,
+						color: draft.color,
+					})
+				: createCategory({ ...draft, kind }),
+		);
+
+	const onMerge = (target: Category) => {
+		if (!editing) return;
+		Alert.alert(
+			`Merge into ${target.name}?`,
+			`Transactions in ${editing.name} move to ${target.name}, and ${editing.name} is removed.`,
+			[
+				{ text: 'Cancel', style: 'cancel' },
+				{
+					text: 'Merge',
+					style: 'destructive',
+					onPress: () => void run(() => mergeCategories(editing.id, target.id)),
+				},
+			],
+		);
+	};
+
+	return (
+		<View style={styles.root}>
+			<ScrollView
+				contentContainerStyle={[
+					styles.scroll,
+					{ paddingBottom: insets.bottom + space.xxl },
+				]}
+				keyboardShouldPersistTaps="handled"
+				showsVerticalScrollIndicator={false}
+			>
+				<AppReveal delayMs={30} distance={8}>
+					<AppText.Caption color="muted" style={styles.kicker}>
+						Organize
+					</AppText.Caption>
+					<AppText.Body color="muted" style={styles.intro}>
+						Renaming or merging a category updates the transactions that use
+						it. Subcategories add up into their parent in Week and Reports.
+					</AppText.Body>
+					{pendingRewriteCount > 0 ? (
+						<AppText.Caption color="muted">Updating transactions…</AppText.Caption>
+					) : null}
+				</AppReveal>
+
+				<View style={styles.chipRow}>
+					{KINDS.map(({ value, label }) => (
+						<AppChip
+							key={value}
+							label={label}
+							selected={kind === value}
+							onPress={() => {
+								setKind(value);
+								resetForm();
+							}}
+						/>
+					))}
+				</View>
+
+				<AppCard padding={space.lg}>
+					<AppText.Heading style={styles.sectionTitle}>
+						{editing ? `Edit ${editing.name}` : 'New category'}
+					</AppText.Heading>
+					<TextInput
+						style={styles.input}
+						value={draft.name}
+						onChangeText={(name) => setDraft((d) => ({ ...d, name }))}
+						placeholder="Name"
+						placeholderTextColor={palette.textSubtle}
+						editable={!saving}
+						maxLength={40}
+					/>
+
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Parent
+					</AppText.Label>
+					<View style={styles.chipRow}>
+						<AppChip
+							label="None"
+							selected={!draft.parentId}
+							onPress={() => setDraft((d) => ({ ...d, parentId: undefined }))}
+						/>
+						{parentOptions.map((c) => (
+							<AppChip
+								key={c.id}
+								label={c.name}
+								selected={draft.parentId === c.id}
+								onPress={() => setDraft((d) => ({ ...d, parentId: c.id }))}
+							/>
+						))}
+					</View>
+
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Color
+					</AppText.Label>
+					<View style={styles.swatchRow}>
+						{CATEGORY_COLORS.map((color) => (
+							<TouchableOpacity
+								key={color}
+								onPress={() => setDraft((d) => ({ ...d, color }))}
+								style={[
+									styles.swatch,
+									{ backgroundColor: color },
+									draft.color === color && styles.swatchSelected,
+								]}
+								accessibilityRole="button"
+								accessibilityLabel={`Color ${color}`}
+								accessibilityState={{ selected: draft.color === color }}
+							/>
+						))}
+					</View>
+
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Icon
+					</AppText.Label>
+					<View style={styles.swatchRow}>
+						{CATEGORY_ICONS.map((icon) => (
+							<TouchableOpacity
+								key={icon}
+								onPress={() => setDraft((d) => ({ ...d, icon }))}
+								style={[styles.iconChoice, draft.icon === icon && styles.iconSelected]}
+								accessibilityRole="button"
+								accessibilityLabel={icon}
+								accessibilityState={{ selected: draft.icon === icon }}
+							>
+								<Ionicons
+									name={icon as keyof typeof Ionicons.glyphMap}
+									size={20}
+									color={draft.icon === icon ? draft.color : palette.textMuted}
+								/>
+							</TouchableOpacity>
+						))}
+					</View>
+
+					<View style={styles.actions}>
+						<AppButton
+							label={editing ? 'Save changes' : 'Add category'}
+							variant="primary"
+							loading={saving}
+							disabled={saving || !draft.name.trim()}
+							onPress={() => void onSave()}
+							fullWidth
+						/>
+						{editing ? (
+							<>
+								<AppButton
+									label={merging ? 'Choose a category below' : 'Merge into…'}
+									variant="secondary"
+									disabled={saving || mergeTargets.length === 0}
+									onPress={() => setMerging((m) => !m)}
+									fullWidth
+								/>
+								{merging ? (
+									<View style={styles.chipRow}>
+										{mergeTargets.map((c) => (
+											<AppChip
+												key={c.id}
+												label={c.name}
+												selected={false}
+												onPress={() => onMerge(c)}
+											/>
+										))}
+									</View>
+								) : null}
+								<AppButton
+									label={editing.archived ? 'Restore' : 'Archive'}
+									variant="ghost"
+									disabled={saving}
+									onPress={() =>
+										void run(() => archiveCategory(editing.id, !editing.archived))
+									}
+									fullWidth
+								/>
+								<AppButton
+									label="Cancel"
+									variant="ghost"
+									disabled={saving}
+									onPress={resetForm}
+									fullWidth
+								/>
+							</>
+						) : null}
+					</View>
+				</AppCard>
+
+				<AppCard padding={0} borderRadius={radius.lg}>
+					{list.map((c, i) => (
+						<TouchableOpacity
+							key={c.id}
+							onPress={() => startEdit(c)}
+							style={[
+								styles.row,
+								c.parentId && styles.rowChild,
+								i === list.length - 1 && styles.rowLast,
+							]}
+							accessibilityRole="button"
+							accessibilityLabel={`Edit ${c.name}`}
+						>
+							<Ionicons
+								name={c.icon as keyof typeof Ionicons.glyphMap}
+								size={20}
+								color={c.archived ? palette.textSubtle : c.color}
+								style={styles.rowIcon}
+							/>
+							<AppText.Body
+								style={styles.rowLabel}
+								color={c.archived ? 'subtle' : 'default'}
+								numberOfLines={1}
+							>
+								{c.name}
+							</AppText.Body>
+							{c.archived ? (
+								<AppText.Caption color="subtle">Archived</AppText.Caption>
+							) : null}
+						</TouchableOpacity>
+					))}
+				</AppCard>
+			</ScrollView>
+		</View>
+	);
+}
+
+const styles = StyleSheet.create({
+	root: {
+		flex: 1,
+		backgroundColor: palette.bg,
+	},
+	scroll: {
+		paddingHorizontal: space.lg,
+		paddingTop: space.md,
+		gap: space.md,
+	},
+	kicker: {
+		...type.labelSm,
+		color: palette.textMuted,
+		marginBottom: space.xs,
+	},
+	intro: {
+		lineHeight: 22,
+		marginBottom: space.sm,
+	},
+	sectionTitle: {
+		marginBottom: space.md,
+	},
+	input: {
+		borderRadius: radius.xl2,
+		borderWidth: StyleSheet.hairlineWidth,
+		borderColor: palette.border,
+		backgroundColor: palette.input,
+		paddingHorizontal: space.md,
+		paddingVertical: Platform.OS === 'ios' ? 12 : 10,
+		fontSize: 16,
+		color: palette.text,
+		marginBottom: space.sm,
+	},
+	optionLabel: {
+		marginBottom: space.xs,
+		marginTop: space.xs,
+	},
+	chipRow: {
+		flexDirection: 'row',
+		flexWrap: 'wrap',
+	},
+	swatchRow: {
+		flexDirection: 'row',
+		flexWrap: 'wrap',
+		gap: space.sm,
+		marginBottom: space.sm,
+	},
+	swatch: {
+		width: 28,
+		height: 28,
+		borderRadius: radius.pill,
+	},
+	swatchSelected: {
+		borderWidth: 3,
+		borderColor: palette.text,
+	},
+	iconChoice: {
+		width: 36,
+		height: 36,
+		borderRadius: radius.pill,
+		alignItems: 'center',
+		justifyContent: 'center',
+		borderWidth: StyleSheet.hairlineWidth,
+		borderColor: palette.border,
+	},
+	iconSelected: {
+		backgroundColor: palette.primarySubtle,
+		borderColor: palette.primaryBorder,
+	},
+	actions: {
+		gap: space.sm,
+		marginTop: space.md,
+	},
+	row: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		paddingVertical: space.md,
+		paddingHorizontal: space.lg,
+		borderBottomWidth: StyleSheet.hairlineWidth,
+		borderBottomColor: palette.border,
+	},
+	rowChild: {
+		paddingLeft: space.lg + space.xl,
+	},
+	rowLast: {
+		borderBottomWidth: 0,
+	},
+	rowIcon: {
+		marginRight: space.md,
+	},
+	rowLabel: {
+		flex: 1,
+	},
+});
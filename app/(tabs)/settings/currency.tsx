@@ -0,0 +1,296 @@
+import React, { useCallback, useContext, useMemo, useState } from 'react';
+import {
+	View,
+	StyleSheet,
+	ScrollView,
+	TextInput,
+	Alert,
+	Platform,
+	TouchableOpacity,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { TransactionContext } from '../../../src/context/transactionContext';
+import { useCurrency } from '../../../src/context/currencyContext';
+import { useLocale } from '../../../src/context/localeContext';
+import { palette, radius, space, type } from '../../../src/ui/theme';
+import {
+	AppCard,
+	AppText,
+	AppButton,
+	AppReveal,
+	AppChip,
+} from '../../../src/ui/primitives';
+
+export default function CurrencyScreen() {
+	const insets = useSafeAreaInsets();
+	const { transactions } = useContext(TransactionContext);
+	const {
+		settings,
+		homeCurrency,
+		setHomeCurrency,
+		setRate,
+		removeRate,
+		importRates,
+		missingRates,
+		currencies,
+	} = useCurrency();
+	const { settings: localeSettings, parseAmount, formatDate } = useLocale();
+	// Rates keep all their digits, so they skip formatNumber's fixed decimals
+	const rateText = (value: number) => String(value).replace('.', localeSettings.decimalSeparator);
+	const [code, setCode] = useState('');
+	const [rate, setRateText] = useState('');
+	const [busy, setBusy] = useState(false);
+
+	const rateCodes = Object.keys(settings.rates).sort();
+	const unconverted = useMemo(() => missingRates(transactions), [missingRates, transactions]);
+
+	const run = async (action: () => Promise<void>) => {
+		setBusy(true);
+		try {
+			await action();
+		} catch (e) {
+			Alert.alert('Currency', e instanceof Error ? e.message : String(e));
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	const onSaveRate = () =>
+		run(async () => {
+			await setRate(code, parseAmount(rate) ?? NaN);
+			setCode('');
+			setRateText('');
+		});
+
+	const onImport = useCallback(async () => {
+		setBusy(true);
+		try {
+			const result = await DocumentPicker.getDocumentAsync({
+				type: ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/json'],
+				copyToCacheDirectory: true,
+			});
+			if (result.canceled || !result.assets?.[0]) return;
+			const text = await FileSystem.readAsStringAsync(result.assets[0].uri, {
+				encoding: FileSystem.EncodingType.UTF8,
+			});
+			const count = await importRates(text);
+			Alert.alert('Rates imported', `${count} rate${count === 1 ? '' : 's'} updated.`);
+		} catch (e) {
+			Alert.alert('Currency', e instanceof Error ? e.message : String(e));
+		} finally {
+			setBusy(false);
+		}
+	}, [importRates]);
+
+	return (
+		<View style={styles.root}>
+			<ScrollView
+				contentContainerStyle={[
+					styles.scroll,
+					{ paddingBottom: insets.bottom + space.xxl },
+				]}
+				keyboardShouldPersistTaps="handled"
+				showsVerticalScrollIndicator={false}
+			>
+				<AppReveal delayMs={30} distance={8}>
+					<AppText.Caption color="muted" style={styles.kicker}>
+						Currency
+					</AppText.Caption>
+					<AppText.Body color="muted" style={styles.intro}>
+						Totals are shown in your home currency. Log an entry in another
+						one with a code or symbol, like “ramen ¥1200” or “taxi 18 eur”.
+					</AppText.Body>
+				</AppReveal>
+
+				<AppCard padding={space.lg}>
+					<AppText.Heading style={styles.sectionTitle}>Home currency</AppText.Heading>
+					<View style={styles.chipRow}>
+						{currencies.map((choice) => (
+							<AppChip
+								key={choice}
+								label={choice}
+								selected={choice === homeCurrency}
+								onPress={() => void run(() => setHomeCurrency(choice))}
+							/>
+						))}
+					</View>
+					<AppText.Caption color="muted">
+						Switching re-expresses your rates against the new home currency.
+					</AppText.Caption>
+				</AppCard>
+
+				{unconverted.length > 0 ? (
+					<AppCard padding={space.lg}>
+						<AppText.Body color="danger">
+							No rate for {unconverted.join(', ')}. Those entries count 1:1 until
+							you add one.
+						</AppText.Body>
+					</AppCard>
+				) : null}
+
+				<AppCard padding={space.lg}>
+					<AppText.Heading style={styles.sectionTitle}>Exchange rates</AppText.Heading>
+					<View style={styles.rateRow}>
+						<AppText.Body>1</AppText.Body>
+						<TextInput
+							style={[styles.input, styles.codeInput]}
+							value={code}
+							onChangeText={(text) => setCode(text.toUpperCase())}
+							placeholder="EUR"
+							placeholderTextColor={palette.textSubtle}
+							autoCapitalize="characters"
+							autoCorrect={false}
+							maxLength={3}
+							editable={!busy}
+						/>
+						<AppText.Body>=</AppText.Body>
+						<TextInput
+							style={[styles.input, styles.rateInput]}
+							value={rate}
+							onChangeText={setRateText}
+							placeholder={rateText(1.08)}
+							placeholderTextColor={palette.textSubtle}
+							keyboardType="decimal-pad"
+							editable={!busy}
+						/>
+						<AppText.Body>{homeCurrency}</AppText.Body>
+					</View>
+					<View style={styles.actions}>
+						<AppButton
+							label={settings.rates[code] ? 'Update rate' : 'Add rate'}
+							variant="primary"
+							loading={busy}
+							disabled={busy || code.length !== 3 || !rate.trim()}
+							onPress={() => void onSaveRate()}
+							fullWidth
+						/>
+						<AppButton
+							label="Import rates from file"
+							variant="secondary"
+							icon="document-outline"
+							iconPosition="left"
+							disabled={busy}
+							onPress={() => void onImport()}
+							fullWidth
+						/>
+					</View>
+					<AppText.Caption color="muted" style={styles.hint}>
+						Files can list one rate per line (“EUR,1.08”) or be JSON from a rate
+						service ({'{'}“base”: “EUR”, “rates”: {'{'}…{'}'}{'}'}).
+					</AppText.Caption>
+				</AppCard>
+
+				{rateCodes.length > 0 ? (
+					<AppCard padding={0} borderRadius={radius.lg}>
+						{rateCodes.map((rateCode, i) => (
+							<View
+								key={rateCode}
+								style={[styles.row, i === rateCodes.length - 1 && styles.rowLast]}
+							>
+								<TouchableOpacity
+									style={styles.rowLabel}
+									onPress={() => {
+										setCode(rateCode);
+										setRateText(rateText(settings.rates[rateCode]));
+									}}
+									accessibilityRole="button"
+									accessibilityLabel={`Edit ${rateCode} rate`}
+								>
+									<AppText.Body>
+										1 {rateCode} = {rateText(settings.rates[rateCode])} {homeCurrency}
+									</AppText.Body>
+								</TouchableOpacity>
+								<AppButton
+									label="Remove"
+									variant="ghost"
+									disabled={busy}
+									onPress={() => void run(() => removeRate(rateCode))}
+								/>
+							</View>
+						))}
+					</AppCard>
+				) : null}
+
+				{settings.updatedAt ? (
+					<AppText.Caption color="muted">
+						Rates last changed {formatDate(new Date(settings.updatedAt))}
+					</AppText.Caption>
+				) : null}
+			</ScrollView>
+		</View>
+	);
+}
+
+const styles = StyleSheet.create({
+	root: {
+		flex: 1,
+		backgroundColor: palette.bg,
+	},
+	scroll: {
+		paddingHorizontal: space.lg,
+		paddingTop: space.md,
+		gap: space.md,
+	},
+	kicker: {
+		...type.labelSm,
+		color: palette.textMuted,
+		marginBottom: space.xs,
+	},
+	intro: {
+		lineHeight: 22,
+		marginBottom: space.sm,
+	},
+	sectionTitle: {
+		marginBottom: space.md,
+	},
+	input: {
+		borderRadius: radius.xl2,
+		borderWidth: StyleSheet.hairlineWidth,
+		borderColor: palette.border,
+		backgroundColor: palette.input,
+		paddingHorizontal: space.md,
+		paddingVertical: Platform.OS === 'ios' ? 12 : 10,
+		fontSize: 16,
+		color: palette.text,
+	},
+	chipRow: {
+		flexDirection: 'row',
+		flexWrap: 'wrap',
+		marginBottom: space.sm,
+	},
+	rateRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: space.sm,
+	},
+	codeInput: {
+		width: 72,
+	},
+	rateInput: {
+		flex: 1,
+	},
+	hint: {
+		marginTop: space.md,
+	},
+	actions: {
+		gap: space.sm,
+		marginTop: space.md,
+	},
+	row: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: space.md,
+		paddingVertical: space.md,
+		paddingHorizontal: space.lg,
+		borderBottomWidth: StyleSheet.hairlineWidth,
+		borderBottomColor: palette.border,
+	},
+	rowLast: {
+		borderBottomWidth: 0,
+	},
+	rowLabel: {
+		flex: 1,
+	},
+});
@@ -11,16 +11,46 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
 import { TransactionContext } from '../../../src/context/transactionContext';
+import { useAccounts } from '../../../src/context/accountContext';
+import { useCurrency } from '../../../src/context/currencyContext';
+import { useLocale } from '../../../src/context/localeContext';
 import {
 	transactionToExportable,
-	transactionsToCsv,
 	sortByDateDesc,
 	filterExportByRange,
 	stampForFilename,
+	getExporter,
+	listExporters,
+	DEFAULT_EXPORT_OPTIONS,
+	EXPORT_COLUMNS,
 	type ExportableTransaction,
+	type ExportColumn,
+	type ExportDateFormat,
+	type ExportFormat,
+	type ExportOptions,
 } from '../../../src/lib/transactions-export';
+import type { DecimalSeparator } from '../../../src/lib/transactions-import';
+import { transactionCurrency } from '../../../src/lib/currency';
 import { palette, radius, space, type } from '../../../src/ui/theme';
-import { AppCard, AppText, AppButton, AppReveal } from '../../../src/ui/primitives';
+import {
+	AppCard,
+	AppText,
+	AppButton,
+	AppReveal,
+	AppChip,
+} from '../../../src/ui/primitives';
+
+const DATE_FORMATS: { value: ExportDateFormat; label: string }[] = [
+	{ value: 'iso', label: 'As stored' },
+	{ value: 'ymd', label: 'YYYY-MM-DD' },
+	{ value: 'mdy', label: 'MM/DD/YYYY' },
+	{ value: 'dmy', label: 'DD/MM/YYYY' },
+];
+
+const DECIMAL_SEPARATORS: { value: DecimalSeparator; label: string }[] = [
+	{ value: '.', label: '1234.56' },
+	{ value: ',', label: '1234,56' },
+];
 
 export default function ExportScreen() {
 	const insets = useSafeAreaInsets();
@@ -29,11 +59,34 @@ export default function ExportScreen() {
 	const [fromYmd, setFromYmd] = useState('');
 	const [toYmd, setToYmd] = useState('');
 	const [sharing, setSharing] = useState(false);
+	const [format, setFormat] = useState<ExportFormat>('csv');
+	const { findAccount, defaultAccountId } = useAccounts();
+	const { settings: currencySettings } = useCurrency();
+	const { settings: localeSettings } = useLocale();
+	// Numbers start in the user's format; ledgers with foreign-currency entries
+	// start with both amounts selected
+	const [options, setOptions] = useState<ExportOptions>(() => {
+		const base = { ...DEFAULT_EXPORT_OPTIONS, decimalSeparator: localeSettings.decimalSeparator };
+		const home = currencySettings.home;
+		if (!transactions.some((tx) => transactionCurrency(tx, home) !== home)) return base;
+		return {
+			...base,
+			columns: EXPORT_COLUMNS.filter(
+				(c) => base.columns.includes(c) || c === 'currency' || c === 'homeAmount',
+			),
+		};
+	});
+	const exporter = getExporter(format);
 
 	const rows = useMemo<ExportableTransaction[]>(() => {
-		const mapped = transactions.map(transactionToExportable);
+		const mapped = transactions.map((tx) =>
+			transactionToExportable(tx, {
+				accountName: (id) => findAccount(id || defaultAccountId)?.name,
+				currency: currencySettings,
+			}),
+		);
 		return sortByDateDesc(mapped);
-	}, [transactions]);
+	}, [transactions, findAccount, defaultAccountId, currencySettings]);
 
 	const filtered = useMemo(
 		() => filterExportByRange(rows, fromYmd, toYmd),
@@ -79,25 +132,26 @@ export default function ExportScreen() {
 		[],
 	);
 
-	const onCsv = useCallback(() => {
-		if (filtered.length === 0) return;
-		const csv = transactionsToCsv(filtered);
+	const onShare = useCallback(() => {
+		if (filtered.length === 0 || !exporter) return;
 		void shareFile(
-			`brie-export-${stampForFilename()}.csv`,
-			'text/csv;charset=utf-8',
-			csv,
+			`brie-export-${stampForFilename()}.${exporter.extension}`,
+			exporter.mimeType,
+			exporter.write(filtered, { ...options, currency: currencySettings.home }),
 		);
-	}, [filtered, shareFile]);
+	}, [filtered, exporter, options, currencySettings.home, shareFile]);
 
-	const onJson = useCallback(() => {
-		if (filtered.length === 0) return;
-		const json = JSON.stringify(filtered, null, 2) + '\n';
-		void shareFile(
-			`brie-export-${stampForFilename()}.json`,
-			'application/json;charset=utf-8',
-			json,
-		);
-	}, [filtered, shareFile]);
+	const toggleColumn = (column: ExportColumn) => {
+		setOptions((prev) => {
+			const selected = prev.columns.includes(column);
+			// Keep at least one column; order follows EXPORT_COLUMNS
+			if (selected && prev.columns.length === 1) return prev;
+			const columns = EXPORT_COLUMNS.filter((c) =>
+				c === column ? !selected : prev.columns.includes(c),
+			);
+			return { ...prev, columns };
+		});
+	};
 
 	const statusLine = busy
 		? 'Loading transactions…'
@@ -120,8 +174,9 @@ export default function ExportScreen() {
 						Download
 					</AppText.Caption>
 					<AppText.Body color="muted" style={styles.intro}>
-						CSV opens cleanly in Excel and Sheets; JSON is the raw list from your
-						workspace. On mobile, exports open the system share sheet.
+						CSV opens cleanly in Excel and Sheets; JSON keeps every field for a
+						lossless backup; QIF and OFX load into desktop finance tools. On
+						mobile, exports open the system share sheet.
 					</AppText.Body>
 				</AppReveal>
 
@@ -172,24 +227,89 @@ export default function ExportScreen() {
 							</View>
 						</View>
 
+						<AppText.Label color="muted" style={styles.optionLabel}>
+							Format
+						</AppText.Label>
+						<View style={styles.chipRow}>
+							{listExporters().map((e) => (
+								<AppChip
+									key={e.format}
+									label={e.label}
+									selected={format === e.format}
+									onPress={() => setFormat(e.format)}
+								/>
+							))}
+						</View>
+
+						{exporter?.supports.dateFormat ? (
+							<>
+								<AppText.Label color="muted" style={styles.optionLabel}>
+									Dates
+								</AppText.Label>
+								<View style={styles.chipRow}>
+									{DATE_FORMATS.map(({ value, label }) => (
+										<AppChip
+											key={value}
+											label={label}
+											selected={options.dateFormat === value}
+											onPress={() =>
+												setOptions((prev) => ({ ...prev, dateFormat: value }))
+											}
+										/>
+									))}
+								</View>
+							</>
+						) : null}
+
+						{exporter?.supports.decimalSeparator ? (
+							<>
+								<AppText.Label color="muted" style={styles.optionLabel}>
+									Decimals
+								</AppText.Label>
+								<View style={styles.chipRow}>
+									{DECIMAL_SEPARATORS.map(({ value, label }) => (
+										<AppChip
+											key={value}
+											label={label}
+											selected={options.decimalSeparator === value}
+											onPress={() =>
+												setOptions((prev) => ({ ...prev, decimalSeparator: value }))
+											}
+										/>
+									))}
+								</View>
+							</>
+						) : null}
+
+						{exporter?.supports.columns ? (
+							<>
+								<AppText.Label color="muted" style={styles.optionLabel}>
+									Columns
+								</AppText.Label>
+								<View style={styles.chipRow}>
+									{EXPORT_COLUMNS.map((column) => (
+										<AppChip
+											key={column}
+											label={column}
+											selected={options.columns.includes(column)}
+											onPress={() => toggleColumn(column)}
+										/>
+									))}
+								</View>
+							</>
+						) : null}
+
 						<AppText.Caption color="muted" style={styles.status}>
 							{statusLine}
 						</AppText.Caption>
 
 						<View style={styles.actions}>
 							<AppButton
-								label="Share CSV"
+								label={`Share ${exporter?.label ?? ''}`}
 								variant="primary"
-								disabled={busy || filtered.length === 0 || sharing}
+								disabled={busy || filtered.length === 0 || sharing || !exporter}
 								loading={sharing}
-								onPress={onCsv}
-								fullWidth
-							/>
-							<AppButton
-								label="Share JSON"
-								variant="secondary"
-								disabled={busy || filtered.length === 0 || sharing}
-								onPress={onJson}
+								onPress={onShare}
 								fullWidth
 							/>
 						</View>
@@ -244,6 +364,14 @@ const styles = StyleSheet.create({
 		fontSize: 16,
 		color: palette.text,
 	},
+	optionLabel: {
+		marginBottom: space.xs,
+	},
+	chipRow: {
+		flexDirection: 'row',
+		flexWrap: 'wrap',
+		marginBottom: space.sm,
+	},
 	status: {
 		marginBottom: space.lg,
 		lineHeight: 18,
@@ -0,0 +1,222 @@
+import React from 'react';
+import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useLocale } from '../../../src/context/localeContext';
+import { useCurrency } from '../../../src/context/currencyContext';
+import {
+	LOCALE_PRESETS,
+	formatDate,
+	type DateFormat,
+	type DecimalSeparator,
+	type GroupSeparator,
+	type LocaleSettings,
+	type SymbolPosition,
+	type WeekStart,
+} from '../../../src/lib/locale';
+import { palette, space, type } from '../../../src/ui/theme';
+import { AppCard, AppText, AppReveal, AppChip } from '../../../src/ui/primitives';
+
+const DECIMAL_SEPARATORS: { value: DecimalSeparator; label: string }[] = [
+	{ value: '.', label: '12.50' },
+	{ value: ',', label: '12,50' },
+];
+
+const GROUP_SEPARATORS: { value: GroupSeparator; label: string }[] = [
+	{ value: ',', label: '1,200' },
+	{ value: '.', label: '1.200' },
+	{ value: ' ', label: '1 200' },
+	{ value: "'", label: "1'200" },
+	{ value: '', label: '1200' },
+];
+
+const SYMBOL_POSITIONS: { value: SymbolPosition; label: string }[] = [
+	{ value: 'before', label: 'Before' },
+	{ value: 'after', label: 'After' },
+];
+
+const DATE_ORDERS: DateFormat[] = ['mdy', 'dmy', 'ymd'];
+
+const WEEK_STARTS: { value: WeekStart; label: string }[] = [
+	{ value: 0, label: 'Sunday' },
+	{ value: 1, label: 'Monday' },
+];
+
+const sameSettings = (a: LocaleSettings, b: LocaleSettings) =>
+	(Object.keys(a) as (keyof LocaleSettings)[]).every((key) => a[key] === b[key]);
+
+export default function FormatScreen() {
+	const insets = useSafeAreaInsets();
+	const { settings, updateSettings, formatNumber, formatDate: formatLocalDate } = useLocale();
+	const { format, homeCurrency } = useCurrency();
+	const today = new Date();
+
+	const update = (patch: Partial<LocaleSettings>) =>
+		void updateSettings(patch).catch((e) =>
+			Alert.alert('Format', e instanceof Error ? e.message : String(e)),
+		);
+
+	return (
+		<View style={styles.root}>
+			<ScrollView
+				contentContainerStyle={[
+					styles.scroll,
+					{ paddingBottom: insets.bottom + space.xxl },
+				]}
+				showsVerticalScrollIndicator={false}
+			>
+				<AppReveal delayMs={30} distance={8}>
+					<AppText.Caption color="muted" style={styles.kicker}>
+						Number & date format
+					</AppText.Caption>
+					<AppText.Body color="muted" style={styles.intro}>
+						How amounts and dates are shown, and how amounts you type are read.
+						With a comma decimal point, “1,200” on the capture line is 1.2.
+					</AppText.Body>
+				</AppReveal>
+
+				<AppCard padding={space.lg}>
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Preview
+					</AppText.Label>
+					<AppText.Heading>{format(-1234.5)}</AppText.Heading>
+					<AppText.Body color="muted">
+						{formatLocalDate(today, 'full')} · {formatLocalDate(today, 'numeric')}
+					</AppText.Body>
+					<AppText.Caption color="muted" style={styles.hint}>
+						{formatNumber(1200, { decimals: 0 })} {homeCurrency} reads as twelve
+						hundred; {formatNumber(1.2)} as one point two.
+					</AppText.Caption>
+				</AppCard>
+
+				<AppCard padding={space.lg}>
+					<AppText.Heading style={styles.sectionTitle}>Region</AppText.Heading>
+					<View style={styles.chipRow}>
+						{LOCALE_PRESETS.map((preset) => (
+							<AppChip
+								key={preset.settings.locale}
+								label={preset.label}
+								selected={sameSettings(preset.settings, settings)}
+								onPress={() => update(preset.settings)}
+							/>
+						))}
+					</View>
+					<AppText.Caption color="muted">
+						Picks everything below; adjust any of it afterwards.
+					</AppText.Caption>
+				</AppCard>
+
+				<AppCard padding={space.lg}>
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Decimal separator
+					</AppText.Label>
+					<View style={styles.chipRow}>
+						{DECIMAL_SEPARATORS.map(({ value, label }) => (
+							<AppChip
+								key={value}
+								label={label}
+								selected={settings.decimalSeparator === value}
+								onPress={() => update({ decimalSeparator: value })}
+							/>
+						))}
+					</View>
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Thousands
+					</AppText.Label>
+					<View style={styles.chipRow}>
+						{GROUP_SEPARATORS.map(({ value, label }) => (
+							<AppChip
+								key={label}
+								label={label}
+								selected={settings.groupSeparator === value}
+								onPress={() => update({ groupSeparator: value })}
+							/>
+						))}
+					</View>
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Currency symbol
+					</AppText.Label>
+					<View style={styles.chipRow}>
+						{SYMBOL_POSITIONS.map(({ value, label }) => (
+							<AppChip
+								key={value}
+								label={label}
+								selected={settings.symbolPosition === value}
+								onPress={() => update({ symbolPosition: value })}
+							/>
+						))}
+					</View>
+				</AppCard>
+
+				<AppCard padding={space.lg}>
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Date order
+					</AppText.Label>
+					<View style={styles.chipRow}>
+						{DATE_ORDERS.map((order) => (
+							<AppChip
+								key={order}
+								label={formatDate(today, { ...settings, dateOrder: order }, 'numeric')}
+								selected={settings.dateOrder === order}
+								onPress={() => update({ dateOrder: order })}
+							/>
+						))}
+					</View>
+					<AppText.Caption color="muted" style={styles.hint}>
+						Also how slash dates on the capture line are read (3/4 is 4 March when
+						the day comes first).
+					</AppText.Caption>
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Week starts on
+					</AppText.Label>
+					<View style={styles.chipRow}>
+						{WEEK_STARTS.map(({ value, label }) => (
+							<AppChip
+								key={value}
+								label={label}
+								selected={settings.weekStartsOn === value}
+								onPress={() => update({ weekStartsOn: value })}
+							/>
+						))}
+					</View>
+				</AppCard>
+			</ScrollView>
+		</View>
+	);
+}
+
+const styles = StyleSheet.create({
+	root: {
+		flex: 1,
+		backgroundColor: palette.bg,
+	},
+	scroll: {
+		paddingHorizontal: space.lg,
+		paddingTop: space.md,
+		gap: space.md,
+	},
+	kicker: {
+		...type.labelSm,
+		color: palette.textMuted,
+		marginBottom: space.xs,
+	},
+	intro: {
+		lineHeight: 22,
+		marginBottom: space.sm,
+	},
+	sectionTitle: {
+		marginBottom: space.md,
+	},
+	optionLabel: {
+		marginBottom: space.xs,
+		marginTop: space.xs,
+	},
+	chipRow: {
+		flexDirection: 'row',
+		flexWrap: 'wrap',
+		marginBottom: space.sm,
+	},
+	hint: {
+		marginTop: space.sm,
+		marginBottom: space.sm,
+	},
+});
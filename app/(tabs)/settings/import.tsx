@@ -0,0 +1,446 @@
+import React, { useCallback, useContext, useMemo, useState } from 'react';
+import {
+	View,
+	StyleSheet,
+	ScrollView,
+	Alert,
+	Switch,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { TransactionContext } from '../../../src/context/transactionContext';
+import { useCurrency } from '../../../src/context/currencyContext';
+import {
+	buildCsvImportRows,
+	detectCsvImportOptions,
+	markImportDuplicates,
+	parseCsv,
+	type CsvImportOptions,
+	type DateFormat,
+	type DecimalSeparator,
+	type ImportField,
+	type ImportRow,
+} from '../../../src/lib/transactions-import';
+import { buildOfxImportRows, isOfxDocument } from '../../../src/lib/ofx-import';
+import { palette, space, type } from '../../../src/ui/theme';
+import {
+	AppCard,
+	AppText,
+	AppButton,
+	AppReveal,
+	AppChip,
+} from '../../../src/ui/primitives';
+
+const PREVIEW_LIMIT = 50;
+
+const MAPPED_FIELDS: { field: ImportField; label: string }[] = [
+	{ field: 'date', label: 'Date' },
+	{ field: 'description', label: 'Description' },
+	{ field: 'amount', label: 'Amount' },
+	{ field: 'debit', label: 'Money out' },
+	{ field: 'credit', label: 'Money in' },
+	{ field: 'type', label: 'Type' },
+	{ field: 'category', label: 'Category' },
+	{ field: 'id', label: 'Id' },
+];
+
+const DATE_FORMATS: { value: DateFormat; label: string }[] = [
+	{ value: 'ymd', label: 'YYYY-MM-DD' },
+	{ value: 'mdy', label: 'MM/DD/YYYY' },
+	{ value: 'dmy', label: 'DD/MM/YYYY' },
+];
+
+const DECIMAL_SEPARATORS: { value: DecimalSeparator; label: string }[] = [
+	{ value: '.', label: '1,234.56' },
+	{ value: ',', label: '1.234,56' },
+];
+
+export default function ImportScreen() {
+	const insets = useSafeAreaInsets();
+	const { transactions, addTransaction } = useContext(TransactionContext);
+	const [fileName, setFileName] = useState<string | null>(null);
+	const [csvRows, setCsvRows] = useState<string[][]>([]);
+	const [options, setOptions] = useState<CsvImportOptions | null>(null);
+	// OFX/QFX statements carry their own structure, so there is nothing to map
+	const [ofxRows, setOfxRows] = useState<ImportRow[] | null>(null);
+	const [picking, setPicking] = useState(false);
+	const [importing, setImporting] = useState(false);
+
+	const columns = useMemo(() => {
+		const width = Math.max(0, ...csvRows.slice(0, 20).map((r) => r.length));
+		return Array.from({ length: width }, (_, i) =>
+			options?.hasHeader && csvRows[0]?.[i]?.trim()
+				? csvRows[0][i].trim()
+				: `Column ${i + 1}`,
+		);
+	}, [csvRows, options?.hasHeader]);
+
+	const preview = useMemo<ImportRow[]>(() => {
+		if (ofxRows) return markImportDuplicates(ofxRows, transactions);
+		if (!options) return [];
+		return markImportDuplicates(buildCsvImportRows(csvRows, options), transactions);
+	}, [csvRows, options, ofxRows, transactions]);
+
+	const ready = preview.filter((r) => r.draft && !r.duplicate);
+	const duplicates = preview.filter((r) => r.duplicate).length;
+	const invalid = preview.filter((r) => !r.draft).length;
+
+	const reset = () => {
+		setFileName(null);
+		setCsvRows([]);
+		setOptions(null);
+		setOfxRows(null);
+	};
+
+	const onPick = useCallback(async () => {
+		setPicking(true);
+		try {
+			const result = await DocumentPicker.getDocumentAsync({
+				type: [
+					'text/csv',
+					'text/comma-separated-values',
+					'text/plain',
+					'application/vnd.ms-excel',
+					'application/x-ofx',
+					'application/vnd.intu.qfx',
+					'application/octet-stream',
+				],
+				copyToCacheDirectory: true,
+			});
+			if (result.canceled || !result.assets?.[0]) return;
+			const asset = result.assets[0];
+			const text = await FileSystem.readAsStringAsync(asset.uri, {
+				encoding: FileSystem.EncodingType.UTF8,
+			});
+			if (isOfxDocument(text)) {
+				const rows = buildOfxImportRows(text);
+				if (rows.length === 0) {
+					Alert.alert('Import', 'That statement has no transactions to import.');
+					return;
+				}
+				setFileName(asset.name);
+				setCsvRows([]);
+				setOptions(null);
+				setOfxRows(rows);
+				return;
+			}
+			const rows = parseCsv(text);
+			if (rows.length === 0) {
+				Alert.alert('Import', 'That file has no rows to import.');
+				return;
+			}
+			setFileName(asset.name);
+			setOfxRows(null);
+			setCsvRows(rows);
+			setOptions(detectCsvImportOptions(rows));
+		} catch (e) {
+			Alert.alert(
+				'Import',
+				e instanceof Error ? e.message : 'Could not read that file.',
+			);
+		} finally {
+			setPicking(false);
+		}
+	}, []);
+
+	const setMapping = (field: ImportField, index: number | undefined) => {
+		setOptions((prev) => {
+			if (!prev) return prev;
+			const mapping = { ...prev.mapping };
+			if (index == null) delete mapping[field];
+			else mapping[field] = index;
+			return { ...prev, mapping };
+		});
+	};
+
+	const onImport = useCallback(async () => {
+		if (ready.length === 0) return;
+		setImporting(true);
+		let saved = 0;
+		try {
+			// One at a time: a failure leaves a clean prefix saved, which a re-import then skips
+			for (const row of ready) {
+				await addTransaction(row.draft!);
+				saved += 1;
+			}
+			Alert.alert(
+				'Import complete',
+				`${saved} transaction${saved === 1 ? '' : 's'} imported.`,
+			);
+			reset();
+		} catch (e) {
+			Alert.alert(
+				'Import stopped',
+				`${saved} of ${ready.length} imported before an error: ${
+					e instanceof Error ? e.message : String(e)
+				}. Importing the same file again skips what already made it.`,
+			);
+		} finally {
+			setImporting(false);
+		}
+	}, [ready, addTransaction]);
+
+	return (
+		<View style={styles.root}>
+			<ScrollView
+				contentContainerStyle={[
+					styles.scroll,
+					{ paddingBottom: insets.bottom + space.xxl },
+				]}
+				showsVerticalScrollIndicator={false}
+			>
+				<AppReveal delayMs={30} distance={8}>
+					<AppText.Caption color="muted" style={styles.kicker}>
+						Upload
+					</AppText.Caption>
+					<AppText.Body color="muted" style={styles.intro}>
+						Import a CSV from Brie or your bank, or an OFX/QFX statement. Check
+						the preview before anything is saved; rows you already have are
+						skipped, even when statements overlap.
+					</AppText.Body>
+				</AppReveal>
+
+				<AppReveal delayMs={80}>
+					<AppCard padding={space.lg}>
+						<AppText.Body style={styles.fileName} numberOfLines={1}>
+							{fileName ?? 'No file selected'}
+						</AppText.Body>
+						<View style={styles.actions}>
+							<AppButton
+								label={fileName ? 'Choose another file' : 'Choose CSV or OFX file'}
+								variant={fileName ? 'secondary' : 'primary'}
+								icon="document-outline"
+								iconPosition="left"
+								loading={picking}
+								disabled={picking || importing}
+								onPress={onPick}
+								fullWidth
+							/>
+						</View>
+					</AppCard>
+				</AppReveal>
+
+				{options || ofxRows ? (
+					<>
+						{options ? (
+							<AppCard padding={space.lg}>
+								<AppText.Heading style={styles.sectionTitle}>Columns</AppText.Heading>
+								<View style={styles.switchRow}>
+									<AppText.Body>First row is a header</AppText.Body>
+									<Switch
+										value={options.hasHeader}
+										onValueChange={(hasHeader) =>
+											setOptions((prev) => (prev ? { ...prev, hasHeader } : prev))
+										}
+									/>
+								</View>
+								{MAPPED_FIELDS.map(({ field, label }) => (
+									<View key={field} style={styles.mappingRow}>
+										<AppText.Label color="muted" style={styles.mappingLabel}>
+											{label}
+										</AppText.Label>
+										<ScrollView horizontal showsHorizontalScrollIndicator={false}>
+											<AppChip
+												label="—"
+												selected={options.mapping[field] == null}
+												onPress={() => setMapping(field, undefined)}
+											/>
+											{columns.map((name, index) => (
+												<AppChip
+													key={`${field}-${index}`}
+													label={name}
+													selected={options.mapping[field] === index}
+													onPress={() => setMapping(field, index)}
+												/>
+											))}
+										</ScrollView>
+									</View>
+								))}
+
+								<AppText.Label color="muted" style={styles.mappingLabel}>
+									Date format
+								</AppText.Label>
+								<View style={styles.chipRow}>
+									{DATE_FORMATS.map(({ value, label }) => (
+										<AppChip
+											key={value}
+											label={label}
+											selected={options.dateFormat === value}
+											onPress={() =>
+												setOptions((prev) => (prev ? { ...prev, dateFormat: value } : prev))
+											}
+										/>
+									))}
+								</View>
+
+								<AppText.Label color="muted" style={styles.mappingLabel}>
+									Number format
+								</AppText.Label>
+								<View style={styles.chipRow}>
+									{DECIMAL_SEPARATORS.map(({ value, label }) => (
+										<AppChip
+											key={value}
+											label={label}
+											selected={options.decimalSeparator === value}
+											onPress={() =>
+												setOptions((prev) =>
+													prev ? { ...prev, decimalSeparator: value } : prev,
+												)
+											}
+										/>
+									))}
+								</View>
+							</AppCard>
+						) : null}
+
+						<ImportPreviewCard
+							rows={preview}
+							rowLabel={ofxRows ? 'Entry' : 'Line'}
+							ready={ready.length}
+							duplicates={duplicates}
+							invalid={invalid}
+						/>
+
+						<AppButton
+							label={`Import ${ready.length} transaction${ready.length === 1 ? '' : 's'}`}
+							variant="primary"
+							loading={importing}
+							disabled={importing || ready.length === 0}
+							onPress={onImport}
+							fullWidth
+						/>
+					</>
+				) : null}
+			</ScrollView>
+		</View>
+	);
+}
+
+function ImportPreviewCard({
+	rows,
+	rowLabel,
+	ready,
+	duplicates,
+	invalid,
+}: {
+	rows: ImportRow[];
+	rowLabel: string;
+	ready: number;
+	duplicates: number;
+	invalid: number;
+}) {
+	const { format: currency } = useCurrency();
+	return (
+		<AppCard padding={space.lg}>
+			<AppText.Heading style={styles.sectionTitle}>Preview</AppText.Heading>
+			<AppText.Caption color="muted" style={styles.summary}>
+				{ready} ready · {duplicates} already in Brie · {invalid} with errors
+			</AppText.Caption>
+			{rows.slice(0, PREVIEW_LIMIT).map((row) => (
+				<View key={row.line} style={styles.previewRow}>
+					{row.draft ? (
+						<View style={styles.previewMain}>
+							<View style={styles.previewCopy}>
+								<AppText.Body
+									numberOfLines={1}
+									color={row.duplicate ? 'subtle' : 'default'}
+								>
+									{row.draft.description}
+								</AppText.Body>
+								<AppText.Caption color="subtle">
+									{row.draft.date}
+									{row.draft.metadata?.category
+										? ` · ${row.draft.metadata.category}`
+										: ''}
+									{row.duplicate ? ' · duplicate, skipped' : ''}
+								</AppText.Caption>
+							</View>
+							<AppText.Body
+								color={row.draft.type === 'income' ? 'success' : 'danger'}
+							>
+								{row.draft.type === 'income' ? '+' : '−'}
+								{currency(Math.abs(row.draft.amount))}
+							</AppText.Body>
+						</View>
+					) : (
+						<AppText.Caption color="danger">
+							{rowLabel} {row.line}: {row.errors.join('; ')}
+						</AppText.Caption>
+					)}
+				</View>
+			))}
+			{rows.length > PREVIEW_LIMIT ? (
+				<AppText.Caption color="subtle" style={styles.summary}>
+					…and {rows.length - PREVIEW_LIMIT} more rows
+				</AppText.Caption>
+			) : null}
+		</AppCard>
+	);
+}
+
+const styles = StyleSheet.create({
+	root: {
+		flex: 1,
+		backgroundColor: palette.bg,
+	},
+	scroll: {
+		paddingHorizontal: space.lg,
+		paddingTop: space.md,
+		gap: space.md,
+	},
+	kicker: {
+		...type.labelSm,
+		color: palette.textMuted,
+		marginBottom: space.xs,
+	},
+	intro: {
+		lineHeight: 22,
+		marginBottom: space.sm,
+	},
+	fileName: {
+		marginBottom: space.md,
+	},
+	actions: {
+		gap: space.sm,
+	},
+	sectionTitle: {
+		marginBottom: space.md,
+	},
+	switchRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		marginBottom: space.md,
+	},
+	mappingRow: {
+		marginBottom: space.sm,
+	},
+	mappingLabel: {
+		marginBottom: space.xs,
+		marginTop: space.xs,
+	},
+	chipRow: {
+		flexDirection: 'row',
+		flexWrap: 'wrap',
+		marginBottom: space.sm,
+	},
+	summary: {
+		marginBottom: space.md,
+		lineHeight: 18,
+	},
+	previewRow: {
+		paddingVertical: space.sm,
+		borderBottomWidth: StyleSheet.hairlineWidth,
+		borderBottomColor: palette.border,
+	},
+	previewMain: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+	},
+	previewCopy: {
+		flex: 1,
+		marginRight: space.md,
+	},
+});
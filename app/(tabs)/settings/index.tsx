@@ -15,6 +15,7 @@ import { isDevMode } from '../../../src/config/environment';
 import { palette, radius, space, type } from '../../../src/ui/theme';
 import { useProfile } from '../../../src/context/profileContext';
 import { useNotification } from '../../../src/context/notificationContext';
+import { useCurrency } from '../../../src/context/currencyContext';
 import {
 	AppCard,
 	AppText,
@@ -23,11 +24,6 @@ import {
 } from '../../../src/ui/primitives';
 import { ErrorBoundary } from '../../../src/components/ErrorBoundary';
 
-const currency = new Intl.NumberFormat('en-US', {
-	style: 'currency',
-	currency: 'USD',
-}).format;
-
 /* ---------------------------- Profile Completion ---------------------------- */
 
 function getProfileCompletion(
@@ -82,12 +78,57 @@ function SignInView() {
 						WORKSPACE
 					</AppText.Label>
 					<AppCard padding={0} borderRadius={radius.lg}>
+						<AppRow
+							icon="pricetags-outline"
+							label="Categories"
+							onPress={() => router.push('/(tabs)/settings/categories')}
+						/>
+						<AppRow
+							icon="git-branch-outline"
+							label="Category rules"
+							onPress={() => router.push('/(tabs)/settings/rules')}
+						/>
+						<AppRow
+							icon="wallet-outline"
+							label="Accounts"
+							onPress={() => router.push('/(tabs)/settings/accounts')}
+						/>
+						<AppRow
+							icon="repeat-outline"
+							label="Bills"
+							onPress={() => router.push('/(tabs)/settings/bills')}
+						/>
+						<AppRow
+							icon="cash-outline"
+							label="Currency"
+							onPress={() => router.push('/(tabs)/settings/currency')}
+						/>
+						<AppRow
+							icon="globe-outline"
+							label="Number & date format"
+							onPress={() => router.push('/(tabs)/settings/format')}
+						/>
+						<AppRow
+							icon="moon-outline"
+							label="Quiet hours"
+							onPress={() => router.push('/(tabs)/settings/quiet-hours')}
+						/>
 						<AppRow
 							icon="download-outline"
 							label="Export data"
-							bordered={false}
 							onPress={() => router.push('/(tabs)/settings/export')}
 						/>
+						<AppRow
+							icon="cloud-upload-outline"
+							label="Import data"
+							onPress={() => router.push('/(tabs)/settings/import')}
+						/>
+						<AppRow
+							icon="archive-outline"
+							label="Backup & restore"
+							bordered={false}
+							onPress={() => router.push('/(tabs)/settings/backup')}
+						/>
 					</AppCard>
 				</View>
 				<AppCard onPress={handleSignInToSync}>
@@ -124,6 +165,7 @@ function ProfileContent() {
 	const { logout, user, firebaseUser } = useAuth();
 	const { profile } = useProfile();
 	const { unreadCount } = useNotification();
+	const { format: currency } = useCurrency();
 
 	const displayName = useMemo(() => {
 		if (profile?.firstName || profile?.lastName) {
@@ -243,12 +285,52 @@ function ProfileContent() {
 						WORKSPACE
 					</AppText.Label>
 					<AppCard padding={0} borderRadius={radius.lg}>
+						<AppRow
+							icon="pricetags-outline"
+							label="Categories"
+							onPress={() => router.push('/(tabs)/settings/categories')}
+						/>
+						<AppRow
+							icon="git-branch-outline"
+							label="Category rules"
+							onPress={() => router.push('/(tabs)/settings/rules')}
+						/>
+						<AppRow
+							icon="wallet-outline"
+							label="Accounts"
+							onPress={() => router.push('/(tabs)/settings/accounts')}
+						/>
+						<AppRow
+							icon="repeat-outline"
+							label="Bills"
+							onPress={() => router.push('/(tabs)/settings/bills')}
+						/>
+						<AppRow
+							icon="cash-outline"
+							label="Currency"
+							onPress={() => router.push('/(tabs)/settings/currency')}
+						/>
+						<AppRow
+							icon="globe-outline"
+							label="Number & date format"
+							onPress={() => router.push('/(tabs)/settings/format')}
+						/>
 						<AppRow
 							icon="download-outline"
 							label="Export data"
-							bordered={false}
 							onPress={() => router.push('/(tabs)/settings/export')}
 						/>
+						<AppRow
+							icon="cloud-upload-outline"
+							label="Import data"
+							onPress={() => router.push('/(tabs)/settings/import')}
+						/>
+						<AppRow
+							icon="archive-outline"
+							label="Backup & restore"
+							bordered={false}
+							onPress={() => router.push('/(tabs)/settings/backup')}
+						/>
 					</AppCard>
 				</View>
 
@@ -270,9 +352,14 @@ function ProfileContent() {
 									</View>
 								) : undefined
 							}
-							bordered={false}
 							onPress={() => router.push('/settings/notifications')}
 						/>
+						<AppRow
+							icon="moon-outline"
+							label="Quiet hours"
+							bordered={false}
+							onPress={() => router.push('/(tabs)/settings/quiet-hours')}
+						/>
 					</AppCard>
 				</View>
 
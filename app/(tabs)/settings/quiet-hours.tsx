@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, Switch, TextInput, Alert, Platform } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { DEFAULT_QUIET_HOURS, parseQuietTime, type QuietHours } from '../../../src/lib/quiet-hours';
+import { loadQuietHours, saveQuietHours } from '../../../src/storage/notificationStorage';
+import { palette, radius, space, type } from '../../../src/ui/theme';
+import { AppCard, AppText, AppReveal } from '../../../src/ui/primitives';
+
+export default function QuietHoursScreen() {
+	const insets = useSafeAreaInsets();
+	const [quietHours, setQuietHours] = useState<QuietHours>(DEFAULT_QUIET_HOURS);
+	const [draft, setDraft] = useState({ start: DEFAULT_QUIET_HOURS.start, end: DEFAULT_QUIET_HOURS.end });
+	const [hasLoaded, setHasLoaded] = useState(false);
+
+	useEffect(() => {
+		let cancelled = false;
+		loadQuietHours().then((loaded) => {
+			if (cancelled) return;
+			setQuietHours(loaded);
+			setDraft({ start: loaded.start, end: loaded.end });
+			setHasLoaded(true);
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, []);
+
+	const save = (next: QuietHours) => {
+		setQuietHours(next);
+		setDraft({ start: next.start, end: next.end });
+		void saveQuietHours(next).catch((e) =>
+			Alert.alert('Quiet hours', e instanceof Error ? e.message : String(e)),
+		);
+	};
+
+	// An unreadable time goes back to the saved one
+	const saveTime = (field: 'start' | 'end') => {
+		const time = parseQuietTime(draft[field]);
+		if (!time) {
+			Alert.alert('Quiet hours', 'Use a 24-hour time, e.g. 22:00.');
+			setDraft((d) => ({ ...d, [field]: quietHours[field] }));
+			return;
+		}
+		if (time !== quietHours[field]) save({ ...quietHours, [field]: time });
+		else setDraft((d) => ({ ...d, [field]: time }));
+	};
+
+	return (
+		<View style={styles.root}>
+			<ScrollView
+				contentContainerStyle={[
+					styles.scroll,
+					{ paddingBottom: insets.bottom + space.xxl },
+				]}
+				keyboardShouldPersistTaps="handled"
+				showsVerticalScrollIndicator={false}
+			>
+				<AppReveal delayMs={30} distance={8}>
+					<AppText.Caption color="muted" style={styles.kicker}>
+						Quiet hours
+					</AppText.Caption>
+					<AppText.Body color="muted" style={styles.intro}>
+						Budget alerts that come up during these hours are held and arrive
+						when they end. They still show in Notifications straight away.
+					</AppText.Body>
+				</AppReveal>
+
+				<AppCard padding={space.lg}>
+					<View style={styles.switchRow}>
+						<AppText.Body style={styles.switchLabel}>Hold alerts in quiet hours</AppText.Body>
+						<Switch
+							value={quietHours.enabled}
+							disabled={!hasLoaded}
+							onValueChange={(enabled) => save({ ...quietHours, enabled })}
+							trackColor={{ false: palette.border, true: palette.primary }}
+							thumbColor={quietHours.enabled ? palette.textOnPrimary : palette.textSubtle}
+						/>
+					</View>
+
+					<View style={styles.timeRow}>
+						<View style={styles.timeField}>
+							<AppText.Label color="muted" style={styles.optionLabel}>
+								From
+							</AppText.Label>
+							<TextInput
+								style={styles.input}
+								value={draft.start}
+								onChangeText={(start) => setDraft((d) => ({ ...d, start }))}
+								onEndEditing={() => saveTime('start')}
+								placeholder="22:00"
+								placeholderTextColor={palette.textSubtle}
+								keyboardType="numbers-and-punctuation"
+								editable={hasLoaded}
+								maxLength={5}
+							/>
+						</View>
+						<View style={styles.timeField}>
+							<AppText.Label color="muted" style={styles.optionLabel}>
+								Until
+							</AppText.Label>
+							<TextInput
+								style={styles.input}
+								value={draft.end}
+								onChangeText={(end) => setDraft((d) => ({ ...d, end }))}
+								onEndEditing={() => saveTime('end')}
+								placeholder="08:00"
+								placeholderTextColor={palette.textSubtle}
+								keyboardType="numbers-and-punctuation"
+								editable={hasLoaded}
+								maxLength={5}
+							/>
+						</View>
+					</View>
+					<AppText.Caption color="muted" style={styles.hint}>
+						24-hour times on this phone’s clock; an earlier “until” runs past midnight.
+					</AppText.Caption>
+				</AppCard>
+			</ScrollView>
+		</View>
+	);
+}
+
+const styles = StyleSheet.create({
+	root: {
+		flex: 1,
+		backgroundColor: palette.bg,
+	},
+	scroll: {
+		paddingHorizontal: space.lg,
+		paddingTop: space.md,
+		gap: space.md,
+	},
+	kicker: {
+		...type.labelSm,
+		color: palette.textMuted,
+		marginBottom: space.xs,
+	},
+	intro: {
+		lineHeight: 22,
+		marginBottom: space.sm,
+	},
+	switchRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		gap: space.md,
+		marginBottom: space.md,
+	},
+	switchLabel: {
+		flex: 1,
+	},
+	timeRow: {
+		flexDirection: 'row',
+		gap: space.md,
+	},
+	timeField: {
+		flex: 1,
+	},
+	optionLabel: {
+		marginBottom: space.xs,
+	},
+	input: {
+		borderRadius: radius.xl2,
+		borderWidth: StyleSheet.hairlineWidth,
+		borderColor: palette.border,
+		backgroundColor: palette.input,
+		paddingHorizontal: space.md,
+		paddingVertical: Platform.OS === 'ios' ? 12 : 10,
+		fontSize: 16,
+		color: palette.text,
+	},
+	hint: {
+		marginTop: space.sm,
+	},
+});
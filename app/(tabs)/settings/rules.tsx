@@ -0,0 +1,476 @@
+import React, { useState } from 'react';
+import {
+	View,
+	StyleSheet,
+	ScrollView,
+	TextInput,
+	Alert,
+	Platform,
+	Switch,
+	TouchableOpacity,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useCategories } from '../../../src/context/categoryContext';
+import { useLocale } from '../../../src/context/localeContext';
+import type {
+	CategorizationRule,
+	RuleInput,
+	RuleMatch,
+} from '../../../src/lib/categorization-rules';
+import type { CategoryKind } from '../../../src/lib/categories';
+import { palette, radius, space, type } from '../../../src/ui/theme';
+import {
+	AppCard,
+	AppText,
+	AppButton,
+	AppReveal,
+	AppChip,
+} from '../../../src/ui/primitives';
+
+const MATCHES: { value: RuleMatch; label: string }[] = [
+	{ value: 'contains', label: 'Contains' },
+	{ value: 'regex', label: 'Pattern' },
+];
+
+const TYPES: { value: CategoryKind | undefined; label: string }[] = [
+	{ value: undefined, label: 'Any' },
+	{ value: 'expense', label: 'Cash Out' },
+	{ value: 'income', label: 'Cash In' },
+];
+
+type Draft = {
+	match: RuleMatch;
+	pattern: string;
+	type?: CategoryKind;
+	minAmount: string;
+	maxAmount: string;
+	category?: string;
+	vendor: string;
+	description: string;
+	enabled: boolean;
+};
+
+const emptyDraft = (): Draft => ({
+	match: 'contains',
+	pattern: '',
+	minAmount: '',
+	maxAmount: '',
+	vendor: '',
+	description: '',
+	enabled: true,
+});
+
+/** Unset when blank; NaN (rejected by validation) when it is not a number. */
+function parseBound(
+	text: string,
+	parseAmount: (text: string) => number | null,
+): number | undefined {
+	const trimmed = text.trim();
+	return trimmed ? (parseAmount(trimmed) ?? NaN) : undefined;
+}
+
+function toInput(draft: Draft, parseAmount: (text: string) => number | null): RuleInput {
+	return {
+		match: draft.match,
+		pattern: draft.pattern,
+		type: draft.type,
+		minAmount: parseBound(draft.minAmount, parseAmount),
+		maxAmount: parseBound(draft.maxAmount, parseAmount),
+		category: draft.category,
+		vendor: draft.vendor,
+		description: draft.description,
+		enabled: draft.enabled,
+	};
+}
+
+function toDraft(rule: CategorizationRule): Draft {
+	return {
+		match: rule.match,
+		pattern: rule.pattern,
+		type: rule.type,
+		minAmount: rule.minAmount != null ? String(rule.minAmount) : '',
+		maxAmount: rule.maxAmount != null ? String(rule.maxAmount) : '',
+		category: rule.category,
+		vendor: rule.vendor ?? '',
+		description: rule.description ?? '',
+		enabled: rule.enabled,
+	};
+}
+
+function ruleSummary(rule: CategorizationRule): string {
+	const sets = [
+		rule.category,
+		rule.vendor && `vendor ${rule.vendor}`,
+		rule.description && `"${rule.description}"`,
+	].filter(Boolean);
+	const match = rule.match === 'regex' ? `/${rule.pattern}/` : `"${rule.pattern}"`;
+	return `${match} → ${sets.join(', ')}`;
+}
+
+export default function RulesScreen() {
+	const insets = useSafeAreaInsets();
+	const {
+		rules,
+		autoCategorize,
+		setAutoCategorize,
+		addRule,
+		updateRule,
+		removeRule,
+		applyRulesToPast,
+		categoriesFor,
+	} = useCategories();
+	const { parseAmount } = useLocale();
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [draft, setDraft] = useState<Draft>(emptyDraft);
+	const [saving, setSaving] = useState(false);
+	const [applying, setApplying] = useState(false);
+
+	const categoryOptions = categoriesFor(draft.type ?? 'expense');
+	const busy = saving || applying;
+
+	const resetForm = () => {
+		setEditingId(null);
+		setDraft(emptyDraft());
+	};
+
+	const run = async (action: () => Promise<void>) => {
+		setSaving(true);
+		try {
+			await action();
+			resetForm();
+		} catch (e) {
+			Alert.alert('Rules', e instanceof Error ? e.message : String(e));
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const onSave = () =>
+		run(() =>
+			editingId
+				? updateRule(editingId, toInput(draft, parseAmount))
+				: addRule(toInput(draft, parseAmount)),
+		);
+
+	const onToggle = async (enabled: boolean) => {
+		try {
+			await setAutoCategorize(enabled);
+		} catch (e) {
+			Alert.alert('Rules', e instanceof Error ? e.message : String(e));
+		}
+	};
+
+	const onApplyToPast = () => {
+		Alert.alert(
+			'Apply rules to past transactions?',
+			'Transactions that match a rule get its category, vendor and description, replacing what they have now.',
+			[
+				{ text: 'Cancel', style: 'cancel' },
+				{
+					text: 'Apply',
+					onPress: async () => {
+						setApplying(true);
+						try {
+							const count = await applyRulesToPast();
+							Alert.alert(
+								'Rules applied',
+								count === 0
+									? 'No transactions needed changes.'
+									: `${count} transaction${count === 1 ? '' : 's'} updated.`,
+							);
+						} catch (e) {
+							Alert.alert('Rules', e instanceof Error ? e.message : String(e));
+						} finally {
+							setApplying(false);
+						}
+					},
+				},
+			],
+		);
+	};
+
+	return (
+		<View style={styles.root}>
+			<ScrollView
+				contentContainerStyle={[
+					styles.scroll,
+					{ paddingBottom: insets.bottom + space.xxl },
+				]}
+				keyboardShouldPersistTaps="handled"
+				showsVerticalScrollIndicator={false}
+			>
+				<AppReveal delayMs={30} distance={8}>
+					<AppText.Caption color="muted" style={styles.kicker}>
+						Auto-categorize
+					</AppText.Caption>
+					<AppText.Body color="muted" style={styles.intro}>
+						New entries without a #category are filed by the first matching
+						rule, or by how you categorized the same description before.
+					</AppText.Body>
+				</AppReveal>
+
+				<AppCard padding={space.lg}>
+					<View style={styles.switchRow}>
+						<AppText.Body>Categorize new entries</AppText.Body>
+						<Switch value={autoCategorize} onValueChange={onToggle} />
+					</View>
+					<AppButton
+						label="Apply rules to past transactions"
+						variant="secondary"
+						icon="refresh-outline"
+						iconPosition="left"
+						loading={applying}
+						disabled={busy || rules.length === 0}
+						onPress={onApplyToPast}
+						fullWidth
+					/>
+				</AppCard>
+
+				<AppCard padding={space.lg}>
+					<AppText.Heading style={styles.sectionTitle}>
+						{editingId ? 'Edit rule' : 'New rule'}
+					</AppText.Heading>
+					<View style={styles.chipRow}>
+						{MATCHES.map(({ value, label }) => (
+							<AppChip
+								key={value}
+								label={label}
+								selected={draft.match === value}
+								onPress={() => setDraft((d) => ({ ...d, match: value }))}
+							/>
+						))}
+					</View>
+					<TextInput
+						style={styles.input}
+						value={draft.pattern}
+						onChangeText={(pattern) => setDraft((d) => ({ ...d, pattern }))}
+						placeholder={draft.match === 'regex' ? 'e.g. ^uber( eats)?' : 'Description contains…'}
+						placeholderTextColor={palette.textSubtle}
+						autoCapitalize="none"
+						autoCorrect={false}
+						editable={!busy}
+					/>
+
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Type
+					</AppText.Label>
+					<View style={styles.chipRow}>
+						{TYPES.map(({ value, label }) => (
+							<AppChip
+								key={label}
+								label={label}
+								selected={draft.type === value}
+								onPress={() =>
+									setDraft((d) => ({ ...d, type: value, category: undefined }))
+								}
+							/>
+						))}
+					</View>
+
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Amount
+					</AppText.Label>
+					<View style={styles.amountRow}>
+						<TextInput
+							style={[styles.input, styles.amountInput]}
+							value={draft.minAmount}
+							onChangeText={(minAmount) => setDraft((d) => ({ ...d, minAmount }))}
+							placeholder="Min"
+							placeholderTextColor={palette.textSubtle}
+							keyboardType="decimal-pad"
+							editable={!busy}
+						/>
+						<TextInput
+							style={[styles.input, styles.amountInput]}
+							value={draft.maxAmount}
+							onChangeText={(maxAmount) => setDraft((d) => ({ ...d, maxAmount }))}
+							placeholder="Max"
+							placeholderTextColor={palette.textSubtle}
+							keyboardType="decimal-pad"
+							editable={!busy}
+						/>
+					</View>
+
+					<AppText.Label color="muted" style={styles.optionLabel}>
+						Set category
+					</AppText.Label>
+					<View style={styles.chipRow}>
+						<AppChip
+							label="Keep"
+							selected={!draft.category}
+							onPress={() => setDraft((d) => ({ ...d, category: undefined }))}
+						/>
+						{categoryOptions.map((c) => (
+							<AppChip
+								key={c.id}
+								label={c.name}
+								selected={draft.category === c.name}
+								onPress={() => setDraft((d) => ({ ...d, category: c.name }))}
+							/>
+						))}
+					</View>
+					<TextInput
+						style={styles.input}
+						value={draft.vendor}
+						onChangeText={(vendor) => setDraft((d) => ({ ...d, vendor }))}
+						placeholder="Set vendor (optional)"
+						placeholderTextColor={palette.textSubtle}
+						editable={!busy}
+						maxLength={60}
+					/>
+					<TextInput
+						style={styles.input}
+						value={draft.description}
+						onChangeText={(description) => setDraft((d) => ({ ...d, description }))}
+						placeholder="Rename description to (optional)"
+						placeholderTextColor={palette.textSubtle}
+						editable={!busy}
+						maxLength={80}
+					/>
+
+					<View style={styles.actions}>
+						<AppButton
+							label={editingId ? 'Save rule' : 'Add rule'}
+							variant="primary"
+							loading={saving}
+							disabled={busy || !draft.pattern.trim()}
+							onPress={() => void onSave()}
+							fullWidth
+						/>
+						{editingId ? (
+							<>
+								<AppButton
+									label="Delete rule"
+									variant="ghost"
+									disabled={busy}
+									onPress={() => void run(() => removeRule(editingId))}
+									fullWidth
+								/>
+								<AppButton
+									label="Cancel"
+									variant="ghost"
+									disabled={busy}
+									onPress={resetForm}
+									fullWidth
+								/>
+							</>
+						) : null}
+					</View>
+				</AppCard>
+
+				{rules.length > 0 ? (
+					<AppCard padding={0} borderRadius={radius.lg}>
+						{rules.map((rule, i) => (
+							<View
+								key={rule.id}
+								style={[styles.row, i === rules.length - 1 && styles.rowLast]}
+							>
+								<TouchableOpacity
+									style={styles.rowLabel}
+									onPress={() => {
+										setEditingId(rule.id);
+										setDraft(toDraft(rule));
+									}}
+									accessibilityRole="button"
+									accessibilityLabel={`Edit rule ${rule.pattern}`}
+								>
+									<AppText.Body
+										color={rule.enabled ? 'default' : 'subtle'}
+										numberOfLines={2}
+									>
+										{ruleSummary(rule)}
+									</AppText.Body>
+								</TouchableOpacity>
+								<Switch
+									value={rule.enabled}
+									disabled={busy}
+									onValueChange={(enabled) =>
+										void updateRule(rule.id, { ...toInput(toDraft(rule), parseAmount), enabled }).catch(
+											(e) => Alert.alert('Rules', e instanceof Error ? e.message : String(e)),
+										)
+									}
+								/>
+							</View>
+						))}
+					</AppCard>
+				) : null}
+			</ScrollView>
+		</View>
+	);
+}
+
+const styles = StyleSheet.create({
+	root: {
+		flex: 1,
+		backgroundColor: palette.bg,
+	},
+	scroll: {
+		paddingHorizontal: space.lg,
+		paddingTop: space.md,
+		gap: space.md,
+	},
+	kicker: {
+		...type.labelSm,
+		color: palette.textMuted,
+		marginBottom: space.xs,
+	},
+	intro: {
+		lineHeight: 22,
+		marginBottom: space.sm,
+	},
+	sectionTitle: {
+		marginBottom: space.md,
+	},
+	switchRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		marginBottom: space.md,
+	},
+	input: {
+		borderRadius: radius.xl2,
+		borderWidth: StyleSheet.hairlineWidth,
+		borderColor: palette.border,
+		backgroundColor: palette.input,
+		paddingHorizontal: space.md,
+		paddingVertical: Platform.OS === 'ios' ? 12 : 10,
+		fontSize: 16,
+		color: palette.text,
+		marginBottom: space.sm,
+	},
+	optionLabel: {
+		marginBottom: space.xs,
+		marginTop: space.xs,
+	},
+	chipRow: {
+		flexDirection: 'row',
+		flexWrap: 'wrap',
+		marginBottom: space.sm,
+	},
+	amountRow: {
+		flexDirection: 'row',
+		gap: space.sm,
+	},
+	amountInput: {
+		flex: 1,
+	},
+	actions: {
+		gap: space.sm,
+		marginTop: space.md,
+	},
+	row: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: space.md,
+		paddingVertical: space.md,
+		paddingHorizontal: space.lg,
+		borderBottomWidth: StyleSheet.hairlineWidth,
+		borderBottomColor: palette.border,
+	},
+	rowLast: {
+		borderBottomWidth: 0,
+	},
+	rowLabel: {
+		flex: 1,
+	},
+});
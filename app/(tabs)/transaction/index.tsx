@@ -22,13 +22,21 @@ import {
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { TransactionContext } from '../../../src/context/transactionContext';
+import { useCategories } from '../../../src/context/categoryContext';
+import { useAccounts } from '../../../src/context/accountContext';
+import { useCurrency } from '../../../src/context/currencyContext';
+import { useLocale } from '../../../src/context/localeContext';
 import { isDevMode } from '../../../src/config/environment';
 import { createLogger } from '../../../src/utils/sublogger';
 import { palette, radius, space, shadow, type } from '../../../src/ui/theme';
 import { removeItem } from '../../../src/utils/safeStorage';
 import { AppCard, AppText, AppButton } from '../../../src/ui/primitives';
 import { ErrorBoundary } from '../../../src/components/ErrorBoundary';
-import { parseCaptureLine } from '../../../src/lib/parse-capture-line';
+import {
+	parseCaptureLines,
+	type CaptureBatch,
+	type CaptureDraft,
+} from '../../../src/lib/parse-capture-line';
 import {
 	loadCaptureRecentChips,
 	pushCaptureRecentChip,
@@ -39,15 +47,33 @@ const transactionScreenLog = createLogger('TransactionScreen');
 const PARSE_ERROR_MESSAGE =
 	'Use "description amount", e.g. coffee 5.75 or paycheck 1200.';
 
+function batchErrorMessage(batch: CaptureBatch): string | null {
+	if (batch.errors.length === 0) return null;
+	const first = batch.errors[0];
+	const more =
+		batch.errors.length > 1 ? ` (+${batch.errors.length - 1} more)` : '';
+	return `Can't read "${first.segment}": ${first.message}${more}.`;
+}
+
 /** Clears any legacy draft from the old multi-field Capture screen. */
 const LEGACY_FORM_STATE_KEY = 'transaction_form_state';
 
-function formatUsd(n: number) {
-	return new Intl.NumberFormat('en-US', {
-		style: 'currency',
-		currency: 'USD',
-		maximumFractionDigits: 2,
-	}).format(n);
+function draftSummary(
+	draft: CaptureDraft,
+	formatAmount: (amount: number, code?: string) => string,
+	formatDay: (ymd: string) => string,
+) {
+	const amount = formatAmount(Math.abs(draft.amount), draft.currency);
+	const base =
+		draft.type === 'income'
+			? `Income · ${draft.description} · ${amount}`
+			: `Expense · ${draft.description} · ${amount}`;
+	const extras = [
+		draft.date ? formatDay(draft.date) : undefined,
+		draft.category ? `#${draft.category}` : undefined,
+		draft.paymentMethod ? `@${draft.paymentMethod}` : undefined,
+	].filter(Boolean);
+	return extras.length > 0 ? `${base} · ${extras.join(' · ')}` : base;
 }
 
 export default function TransactionScreenProModern() {
@@ -71,6 +97,10 @@ export default function TransactionScreenProModern() {
 	const [isSubmitting, setIsSubmitting] = useState(false);
 
 	const { addTransaction } = useContext(TransactionContext);
+	const { findCategory, categorize } = useCategories();
+	const { findAccountByName } = useAccounts();
+	const { format: formatAmount } = useCurrency();
+	const { settings: localeSettings, formatDate } = useLocale();
 
 	useEffect(() => {
 		loadCaptureRecentChips().then(setRecentChips);
@@ -110,20 +140,19 @@ export default function TransactionScreenProModern() {
 		};
 	}, []);
 
-	const parsedPreview = useMemo(() => {
+	const parsedBatch = useMemo(() => {
 		const t = captureLine.trim();
 		if (!t) return null;
-		return parseCaptureLine(t);
-	}, [captureLine]);
+		return parseCaptureLines(t, { locale: localeSettings });
+	}, [captureLine, localeSettings]);
 
-	const parsedSummary = useMemo(() => {
-		if (!parsedPreview) return null;
-		return parsedPreview.type === 'income'
-			? `Income · ${parsedPreview.description} · ${formatUsd(parsedPreview.amount)}`
-			: `Expense · ${parsedPreview.description} · ${formatUsd(
-					Math.abs(parsedPreview.amount),
-				)}`;
-	}, [parsedPreview]);
+	const parsedSummaries = useMemo(
+		() =>
+			parsedBatch?.drafts.map((draft) =>
+				draftSummary(draft, formatAmount, (ymd) => formatDate(ymd, 'monthDay')),
+			) ?? [],
+		[parsedBatch, formatAmount, formatDate],
+	);
 
 	const onCaptureLineChange = useCallback((text: string) => {
 		setCaptureLine(text);
@@ -132,9 +161,14 @@ export default function TransactionScreenProModern() {
 
 	const onCaptureBlur = useCallback(() => {
 		const t = captureLine.trim();
-		if (t && !parseCaptureLine(t)) setCaptureParseError(PARSE_ERROR_MESSAGE);
-		else setCaptureParseError(null);
-	}, [captureLine]);
+		if (!t) {
+			setCaptureParseError(null);
+			return;
+		}
+		const batch = parseCaptureLines(t, { locale: localeSettings });
+		if (batch.drafts.length === 0) setCaptureParseError(PARSE_ERROR_MESSAGE);
+		else setCaptureParseError(batchErrorMessage(batch));
+	}, [captureLine, localeSettings]);
 
 	const saveEntry = useCallback(async () => {
 		if (isSubmitting) return;
@@ -144,8 +178,8 @@ export default function TransactionScreenProModern() {
 			return;
 		}
 
-		const parsed = parseCaptureLine(line);
-		if (!parsed) {
+		const batch = parseCaptureLines(line, { locale: localeSettings });
+		if (batch.drafts.length === 0) {
 			setCaptureParseError(PARSE_ERROR_MESSAGE);
 			Alert.alert('Check your line', PARSE_ERROR_MESSAGE);
 			queueMicrotask(() => captureLineRef.current?.focus());
@@ -154,31 +188,89 @@ export default function TransactionScreenProModern() {
 
 		setCaptureParseError(null);
 		setIsSubmitting(true);
+		// Valid segments are saved; anything unreadable or failed stays in the line to fix.
+		const leftover = batch.errors.map((e) => e.segment);
+		const saved: string[] = [];
 		try {
-			await addTransaction({
-				description: parsed.description,
-				amount: parsed.amount,
-				date: new Date().toISOString(),
-				type: parsed.type,
-				source: 'manual',
-			});
+			const now = new Date().toISOString();
+			for (const draft of batch.drafts) {
+				// Rules and past choices fill in what the line left out; a `#tag` always wins
+				const auto = categorize(draft);
+				const tagged = draft.category ?? auto?.category;
+				// `#food` files under the user's "Food" category; unknown tags are kept as typed
+				const category = tagged
+					? (findCategory(tagged, draft.type)?.name ?? tagged)
+					: undefined;
+				const description = auto?.description ?? draft.description;
+				const originalDescription =
+					description !== draft.description ? draft.description : undefined;
+				// `@card` books the entry on the account with that name; other methods stay notes
+				const account = findAccountByName(draft.paymentMethod)?.id;
+				try {
+					await addTransaction({
+						description,
+						amount: draft.amount,
+						currency: draft.currency,
+						date: draft.date ?? now,
+						type: draft.type,
+						source: 'manual',
+						vendor: auto?.vendor,
+						metadata:
+							category || draft.paymentMethod || originalDescription
+								? {
+										category,
+										paymentMethod: draft.paymentMethod,
+										originalDescription,
+										account,
+									}
+								: undefined,
+					});
+					saved.push(draft.segment);
+				} catch (e) {
+					if (isDevMode) {
+						transactionScreenLog.error('Save transaction error', e);
+					}
+					leftover.push(draft.segment);
+				}
+			}
 
-			setSavedLines((prev) => [line, ...prev].slice(0, 8));
-			await pushCaptureRecentChip(line);
-			setRecentChips(await loadCaptureRecentChips());
-			setCaptureLine('');
-			queueMicrotask(() => captureLineRef.current?.focus());
-		} catch (e) {
-			if (isDevMode) {
-				transactionScreenLog.error('Save transaction error', e);
+			if (saved.length > 0) {
+				setSavedLines((prev) => [...[...saved].reverse(), ...prev].slice(0, 8));
+				// Only single entries make useful one-tap chips
+				if (batch.drafts.length === 1) {
+					await pushCaptureRecentChip(line);
+					setRecentChips(await loadCaptureRecentChips());
+				}
+			}
+
+			setCaptureLine(leftover.join('\n'));
+			if (leftover.length > 0) {
+				const failedCount = leftover.length - batch.errors.length;
+				setCaptureParseError(
+					failedCount > 0
+						? `${failedCount} entr${failedCount === 1 ? 'y' : 'ies'} failed to save. Try again.`
+						: batchErrorMessage(batch),
+				);
+				if (saved.length === 0) {
+					Alert.alert('Error', 'Failed to save. Please try again.');
+				}
 			}
-			Alert.alert('Error', 'Failed to save. Please try again.');
+			queueMicrotask(() => captureLineRef.current?.focus());
 		} finally {
 			setIsSubmitting(false);
 		}
-	}, [isSubmitting, captureLine, addTransaction]);
+	}, [
+		isSubmitting,
+		captureLine,
+		addTransaction,
+		findCategory,
+		categorize,
+		findAccountByName,
+		localeSettings,
+	]);
 
-	const canSave = !!parsedPreview;
+	const saveCount = parsedBatch?.drafts.length ?? 0;
+	const canSave = saveCount > 0;
 
 	return (
 		<ErrorBoundary>
@@ -209,7 +301,7 @@ export default function TransactionScreenProModern() {
 						</AppText.Caption>
 						<AppText.Title style={styles.heroTitle}>Capture</AppText.Title>
 						<AppText.Caption color="muted" style={styles.heroSub}>
-							Type one entry and save instantly.
+							Type one entry, or paste several separated by commas or new lines.
 						</AppText.Caption>
 
 						<AppCard
@@ -231,6 +323,8 @@ export default function TransactionScreenProModern() {
 								placeholderTextColor={palette.textSubtle}
 								accessibilityLabel="Quick capture line"
 								returnKeyType="done"
+								multiline
+								submitBehavior="submit"
 								onSubmitEditing={() => {
 									if (canSave) void saveEntry();
 									else Keyboard.dismiss();
@@ -238,12 +332,21 @@ export default function TransactionScreenProModern() {
 								autoCapitalize="sentences"
 								autoCorrect
 							/>
-							{parsedSummary ? (
-								<View style={styles.previewSummary}>
-									<Text style={styles.previewSummaryText}>
-										{parsedSummary}
-									</Text>
+							{parsedSummaries.map((summary, i) => (
+								<View key={`${summary}-${i}`} style={styles.previewSummary}>
+									<Text style={styles.previewSummaryText}>{summary}</Text>
 								</View>
+							))}
+							{parsedBatch && parsedBatch.drafts.length > 0 ? (
+								parsedBatch.errors.map((err) => (
+									<AppText.Caption
+										key={`${err.index}-${err.segment}`}
+										color="danger"
+										style={styles.captureError}
+									>
+										{`"${err.segment}" · ${err.message}`}
+									</AppText.Caption>
+								))
 							) : null}
 							{captureParseError ? (
 								<AppText.Caption color="danger" style={styles.captureError}>
@@ -293,7 +396,13 @@ export default function TransactionScreenProModern() {
 							) : null}
 							<View style={styles.saveSection}>
 								<AppButton
-									label={isSubmitting ? 'Saving to server…' : 'Save entry'}
+									label={
+										isSubmitting
+											? 'Saving to server…'
+											: saveCount > 1
+												? `Save ${saveCount} entries`
+												: 'Save entry'
+									}
 									variant="primary"
 									icon={isSubmitting ? undefined : 'checkmark-outline'}
 									onPress={() => void saveEntry()}
@@ -305,8 +414,10 @@ export default function TransactionScreenProModern() {
 								/>
 							</View>
 							<AppText.Caption color="muted" style={styles.footerHint}>
-								Save clears the line. Income hints: paycheck, salary, deposit,
-								refund…
+								Save clears the line. Separate entries with commas or new lines.
+								Add yesterday or 3/14 for the date, or end with a weekday like mon,
+								#groceries for the category, @cash for how you paid. Income hints:
+								paycheck, salary, deposit, refund…
 							</AppText.Caption>
 						</AppCard>
 					</View>
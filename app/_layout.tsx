@@ -33,7 +33,15 @@ import { NotificationProvider } from '../src/context/notificationContext';
 import { TransactionProvider } from '../src/context/transactionContext';
 import { LocalTransactionProvider } from '../src/context/localTransactionContext';
 import { StubProviders } from '../src/context/stubProviders';
+import { LocalBillProvider } from '../src/context/billContext';
+import { LocalBudgetProvider } from '../src/context/budgetContext';
+import { LocalGoalProvider } from '../src/context/goalContext';
+import { CategoryProvider } from '../src/context/categoryContext';
+import { AccountProvider } from '../src/context/accountContext';
+import { DebtProvider } from '../src/context/debtContext';
+import { CurrencyProvider } from '../src/context/currencyContext';
 import { ThemeProvider } from '../src/context/ThemeContext';
+import { LocaleProvider } from '../src/context/localeContext';
 import { loadLocalOverrides, getResolvedFlags } from '../src/config/features';
 import * as Notifications from 'expo-notifications';
 import { ensureBgPushRegistered } from '../src/services/notifications/backgroundTaskService';
@@ -234,8 +242,8 @@ function RootLayoutContent() {
 		};
 	}, []);
 
-	// Initialize telemetry services using the hook
-	useAppInit();
+	// Initialize telemetry services and migrate on-device storage before providers read it
+	const { storageReady } = useAppInit();
 
 	// Add timeout mechanism to prevent infinite loading ONLY when status is null
 	useEffect(() => {
@@ -418,8 +426,9 @@ function RootLayoutContent() {
 		useLocalMode,
 	]);
 
-	// Show spinner while loading, or waiting for local mode check
+	// Show spinner while loading, migrating storage, or waiting for local mode check
 	if (
+		!storageReady ||
 		useLocalMode === null ||
 		(loading && !loadingTimeout) ||
 		(user && hasSeenOnboarding === null && !loadingTimeout)
@@ -471,32 +480,44 @@ function RootLayoutContent() {
 							<Text style={styles.devText}>DEV MODE</Text>
 						</View>
 					)}
-					{/* MVP: StubProviders for Budget/Goal/Bill - wallet removed, cash-only */}
+					{/* MVP: StubProviders for Bill - wallet removed, cash-only */}
 					<StubProviders>
 						<TransactionProvider>
-							<LocalMigrationRunner />
-							<GestureHandlerRootView style={{ flex: 1 }}>
-								<Stack
-									screenOptions={{
-										headerShown: false,
-										animation: 'none',
-										contentStyle: { backgroundColor: 'transparent' },
-									}}
-								>
-									<Stack.Screen
-										name="(auth)"
-										options={{ headerShown: false, animation: 'none' }}
-									/>
-									<Stack.Screen
-										name="(onboarding)"
-										options={{ headerShown: false, animation: 'none' }}
-									/>
-									<Stack.Screen
-										name="(tabs)"
-										options={{ headerShown: false, animation: 'none' }}
-									/>
-								</Stack>
-							</GestureHandlerRootView>
+							<CategoryProvider>
+								<CurrencyProvider>
+									<AccountProvider>
+										<LocalBudgetProvider>
+											<LocalGoalProvider>
+												<DebtProvider>
+													<LocalMigrationRunner />
+													<GestureHandlerRootView style={{ flex: 1 }}>
+														<Stack
+															screenOptions={{
+																headerShown: false,
+																animation: 'none',
+																contentStyle: { backgroundColor: 'transparent' },
+															}}
+														>
+															<Stack.Screen
+																name="(auth)"
+																options={{ headerShown: false, animation: 'none' }}
+															/>
+															<Stack.Screen
+																name="(onboarding)"
+																options={{ headerShown: false, animation: 'none' }}
+															/>
+															<Stack.Screen
+																name="(tabs)"
+																options={{ headerShown: false, animation: 'none' }}
+															/>
+														</Stack>
+													</GestureHandlerRootView>
+												</DebtProvider>
+											</LocalGoalProvider>
+										</LocalBudgetProvider>
+									</AccountProvider>
+								</CurrencyProvider>
+							</CategoryProvider>
 						</TransactionProvider>
 					</StubProviders>
 				</ProfileProvider>
@@ -529,31 +550,45 @@ function RootLayoutContent() {
 			<NotificationProvider>
 				<StubProviders>
 					<LocalTransactionProvider>
-						<GestureHandlerRootView style={{ flex: 1 }}>
-						<Stack
-							screenOptions={{
-								headerShown: false,
-								animation: 'none',
-								contentStyle: { backgroundColor: 'transparent' },
-							}}
-						>
-							<Stack.Screen
-								name="(auth)"
-								options={{ headerShown: false, animation: 'none' }}
-							/>
-							<Stack.Screen
-								name="(onboarding)"
-								options={{ headerShown: false, animation: 'none' }}
-							/>
-							<Stack.Screen
-								name="(tabs)"
-								options={{ headerShown: false, animation: 'none' }}
-							/>
-						</Stack>
-					</GestureHandlerRootView>
-				</LocalTransactionProvider>
-			</StubProviders>
-		</NotificationProvider>
+						<LocalBillProvider>
+							<CategoryProvider>
+								<CurrencyProvider>
+									<AccountProvider>
+										<LocalBudgetProvider>
+											<LocalGoalProvider>
+												<DebtProvider>
+													<GestureHandlerRootView style={{ flex: 1 }}>
+														<Stack
+															screenOptions={{
+																headerShown: false,
+																animation: 'none',
+																contentStyle: { backgroundColor: 'transparent' },
+															}}
+														>
+															<Stack.Screen
+																name="(auth)"
+																options={{ headerShown: false, animation: 'none' }}
+															/>
+															<Stack.Screen
+																name="(onboarding)"
+																options={{ headerShown: false, animation: 'none' }}
+															/>
+															<Stack.Screen
+																name="(tabs)"
+																options={{ headerShown: false, animation: 'none' }}
+															/>
+														</Stack>
+													</GestureHandlerRootView>
+												</DebtProvider>
+											</LocalGoalProvider>
+										</LocalBudgetProvider>
+									</AccountProvider>
+								</CurrencyProvider>
+							</CategoryProvider>
+						</LocalBillProvider>
+					</LocalTransactionProvider>
+				</StubProviders>
+			</NotificationProvider>
 		);
 	}
 
@@ -670,13 +705,15 @@ export default function RootLayout() {
 									backgroundColor={palette.bg}
 									translucent={false}
 								/>
-								<AuthProvider>
-									<OnboardingProvider>
-										<NotificationProvider>
-											<RootLayoutContent />
-										</NotificationProvider>
-									</OnboardingProvider>
-								</AuthProvider>
+								<LocaleProvider>
+									<AuthProvider>
+										<OnboardingProvider>
+											<NotificationProvider>
+												<RootLayoutContent />
+											</NotificationProvider>
+										</OnboardingProvider>
+									</AuthProvider>
+								</LocaleProvider>
 							</ThemeProvider>
 						</QueryClientProvider>
 					</View>
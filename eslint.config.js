@@ -29,4 +29,13 @@ module.exports = defineConfig([
       "no-console": "off",
     },
   },
+  {
+    // Runs before every test file, where Jest provides the `jest` global
+    files: ["jest.setup.js"],
+    languageOptions: {
+      globals: {
+        jest: "readonly",
+      },
+    },
+  },
 ]);
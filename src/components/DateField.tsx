@@ -14,20 +14,7 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { palette, radius, space } from '../ui/theme';
-
-const formatDisplayDate = (value: string): string => {
-	if (!value || typeof value !== 'string') return '';
-	const part = value.slice(0, 10);
-	if (!/^\d{4}-\d{2}-\d{2}$/.test(part)) return value;
-	const [y, m, d] = part.split('-').map(Number);
-	const date = new Date(y, m - 1, d);
-	if (isNaN(date.getTime())) return value;
-	return date.toLocaleDateString('en-US', {
-		month: 'short',
-		day: 'numeric',
-		year: 'numeric',
-	});
-};
+import { useLocale } from '../context/localeContext';
 
 export interface DateFieldProps {
 	value: string;
@@ -43,6 +30,8 @@ export function DateField({
 	containerStyle,
 }: DateFieldProps) {
 	const [modalVisible, setModalVisible] = useState(false);
+	const { formatDate } = useLocale();
+	const formatDisplayDate = (date: string) => (date ? formatDate(date) || date : '');
 	const [inputValue, setInputValue] = useState(value.slice(0, 10));
 
 	const openPicker = () => {
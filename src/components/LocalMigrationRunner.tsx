@@ -1,29 +1,81 @@
 /**
  * Runs once when user is authenticated: migrates local transactions to the backend
  * (from "Use without account" flow) and refetches the transaction list so the UI updates.
+ * Reports what happened per row, including rows that stay on the device for a retry.
  */
-import React, { useContext } from 'react';
+import React, { useCallback, useContext } from 'react';
 import { Alert } from 'react-native';
 import useAuth from '../context/AuthContext';
 import { TransactionContext } from '../context/transactionContext';
 import { useMigrateLocalTransactions } from '../hooks/useMigrateLocalTransactions';
+import type {
+	LocalMigrationResult,
+	LocalMigrationRowResult,
+} from '../storage/migrateLocalTransactions';
+
+const MAX_LISTED_ROWS = 5;
+
+function plural(count: number, word: string): string {
+	return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function describeRow(row: LocalMigrationRowResult): string {
+	const label = row.description?.trim() || 'Untitled';
+	const amount = Math.abs(row.amount).toFixed(2);
+	const reason = row.error ? ` (${row.error})` : '';
+	return `• ${label}, ${amount} on ${row.date.slice(0, 10)}${reason}`;
+}
+
+function summarizeMigration(result: LocalMigrationResult): string {
+	const count = (...statuses: LocalMigrationRowResult['status'][]) =>
+		result.results.filter((r) => statuses.includes(r.status)).length;
+	const duplicates = count('duplicate');
+	const failed = result.results.filter((r) => r.status === 'failed');
+	const pending = count('pending');
+
+	const parts: string[] = [];
+	if (result.migratedCount > 0) {
+		parts.push(
+			`${plural(result.migratedCount, 'transaction')} from this device saved to your account.`
+		);
+	}
+	if (duplicates > 0) {
+		parts.push(`${plural(duplicates, 'transaction')} already in your account were skipped.`);
+	}
+	if (pending > 0) {
+		parts.push(
+			`${plural(pending, 'transaction')} will be uploaded when your connection is back.`
+		);
+	}
+	if (failed.length > 0) {
+		const listed = failed.slice(0, MAX_LISTED_ROWS).map(describeRow);
+		if (failed.length > MAX_LISTED_ROWS) {
+			listed.push(`…and ${failed.length - MAX_LISTED_ROWS} more`);
+		}
+		parts.push(
+			`${plural(failed.length, 'transaction')} couldn't be uploaded and stayed on this device:\n${listed.join('\n')}`
+		);
+	}
+	return parts.join('\n\n');
+}
 
 export function LocalMigrationRunner() {
 	const { user, firebaseUser } = useAuth();
 	const { refreshTransactions } = useContext(TransactionContext);
-	const isAuthenticated = !!(firebaseUser && user);
+	const ownerId = firebaseUser && user ? firebaseUser.uid : null;
 
-	useMigrateLocalTransactions(isAuthenticated, {
-		onMigrated: (migratedCount) => {
+	const handleMigrated = useCallback(
+		(result: LocalMigrationResult) => {
 			refreshTransactions();
-			if (migratedCount > 0) {
-				Alert.alert(
-					'Data backed up',
-					`${migratedCount} transaction${migratedCount === 1 ? '' : 's'} from this device ${migratedCount === 1 ? 'has' : 'have'} been saved to your account.`
-				);
-			}
+			Alert.alert(
+				result.success ? 'Data backed up' : 'Backup partly done',
+				summarizeMigration(result)
+			);
 		},
-	});
+		[refreshTransactions]
+	);
+
+	useMigrateLocalTransactions(ownerId, { onMigrated: handleMigrated });
 
 	return null;
 }
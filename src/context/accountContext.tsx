@@ -0,0 +1,170 @@
+/**
+ * Accounts (cash, checking, card, savings) and their balances. Must sit
+ * inside the transaction and currency providers: balances are derived from
+ * the loaded transactions, in the home currency, and transfers are added
+ * through `addTransaction`.
+ */
+import React, {
+	createContext,
+	useCallback,
+	useContext,
+	useEffect,
+	useMemo,
+	useRef,
+	useState,
+	ReactNode,
+} from 'react';
+import { TransactionContext } from './transactionContext';
+import { useCurrency } from './currencyContext';
+import {
+	DEFAULT_ACCOUNTS,
+	accountBalances,
+	activeAccounts,
+	buildTransfer,
+	createAccount as createAccountIn,
+	defaultAccountId,
+	findAccountByName,
+	setAccountArchived,
+	totalBalance,
+	updateAccount as updateAccountIn,
+	type Account,
+	type AccountInput,
+} from '../lib/accounts';
+import { loadAccounts, saveAccounts } from '../storage/accountStorage';
+
+export type TransferInput = {
+	fromId: string;
+	toId: string;
+	amount: number;
+	/** Local `YYYY-MM-DD` or ISO timestamp. */
+	date: string;
+	note?: string;
+};
+
+export interface AccountContextType {
+	/** Every account, archived ones included. */
+	accounts: Account[];
+	hasLoaded: boolean;
+	/** Account id → current balance, in the home currency. */
+	balances: Record<string, number>;
+	totalBalance: number;
+	/** Where entries without an account are counted. */
+	defaultAccountId: string;
+	activeAccounts: () => Account[];
+	findAccount: (id: string | undefined) => Account | undefined;
+	findAccountByName: (name: string | undefined) => Account | undefined;
+	createAccount: (input: AccountInput) => Promise<void>;
+	updateAccount: (
+		id: string,
+		patch: Partial<Pick<Account, 'name' | 'kind' | 'openingBalance'>>
+	) => Promise<void>;
+	archiveAccount: (id: string, archived: boolean) => Promise<void>;
+	transfer: (input: TransferInput) => Promise<void>;
+}
+
+export const AccountContext = createContext<AccountContextType>({
+	accounts: DEFAULT_ACCOUNTS,
+	hasLoaded: false,
+	balances: {},
+	totalBalance: 0,
+	defaultAccountId: DEFAULT_ACCOUNTS[0].id,
+	activeAccounts: () => activeAccounts(DEFAULT_ACCOUNTS),
+	findAccount: (id) => DEFAULT_ACCOUNTS.find((a) => a.id === id),
+	findAccountByName: (name) => findAccountByName(DEFAULT_ACCOUNTS, name),
+	createAccount: async () => {
+		throw new Error('createAccount not implemented');
+	},
+	updateAccount: async () => {
+		throw new Error('updateAccount not implemented');
+	},
+	archiveAccount: async () => {
+		throw new Error('archiveAccount not implemented');
+	},
+	transfer: async () => {
+		throw new Error('transfer not implemented');
+	},
+});
+
+export function useAccounts(): AccountContextType {
+	return useContext(AccountContext);
+}
+
+export function AccountProvider({ children }: { children: ReactNode }) {
+	const { transactions, addTransaction } = useContext(TransactionContext);
+	const { toHome } = useCurrency();
+	const [accounts, setAccounts] = useState<Account[]>(DEFAULT_ACCOUNTS);
+	const [hasLoaded, setHasLoaded] = useState(false);
+	const accountsRef = useRef(accounts);
+
+	useEffect(() => {
+		let cancelled = false;
+		loadAccounts().then((loaded) => {
+			if (cancelled) return;
+			accountsRef.current = loaded;
+			setAccounts(loaded);
+			setHasLoaded(true);
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, []);
+
+	const persist = useCallback(async (next: Account[]) => {
+		accountsRef.current = next;
+		setAccounts(next);
+		await saveAccounts(next);
+	}, []);
+
+	const createAccount = useCallback(
+		async (input: AccountInput) => {
+			await persist(createAccountIn(accountsRef.current, input));
+		},
+		[persist]
+	);
+
+	const updateAccount = useCallback<AccountContextType['updateAccount']>(
+		async (id, patch) => {
+			await persist(updateAccountIn(accountsRef.current, id, patch));
+		},
+		[persist]
+	);
+
+	const archiveAccount = useCallback(
+		async (id: string, archived: boolean) => {
+			await persist(setAccountArchived(accountsRef.current, id, archived));
+		},
+		[persist]
+	);
+
+	const transfer = useCallback(
+		async (input: TransferInput) => {
+			await addTransaction(buildTransfer(input));
+		},
+		[addTransaction]
+	);
+
+	const balances = useMemo(
+		() => accountBalances(accounts, toHome(transactions)),
+		[accounts, transactions, toHome]
+	);
+
+	const value = useMemo<AccountContextType>(
+		() => ({
+			accounts,
+			hasLoaded,
+			balances,
+			totalBalance: totalBalance(balances),
+			defaultAccountId: defaultAccountId(accounts),
+			activeAccounts: () => activeAccounts(accounts),
+			findAccount: (id) => accounts.find((a) => a.id === id),
+			findAccountByName: (name) => findAccountByName(accounts, name),
+			createAccount,
+			updateAccount,
+			archiveAccount,
+			transfer,
+		}),
+		[accounts, hasLoaded, balances, createAccount, updateAccount, archiveAccount, transfer]
+	);
+
+	return <AccountContext.Provider value={value}>{children}</AccountContext.Provider>;
+}
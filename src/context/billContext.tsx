@@ -7,8 +7,16 @@ import React, {
 	useMemo,
 	ReactNode,
 } from 'react';
-import { BillService, Bill, ApiService } from '../services';
+import {
+	BillService,
+	Bill,
+	ApiService,
+	LocalBillService,
+	type BillBackend,
+} from '../services';
+import type { RecurrenceRule } from '../lib/recurrence';
 import { createLogger } from '../utils/sublogger';
+import { TransactionContext } from './transactionContext';
 
 const billContextLog = createLogger('BillContext');
 
@@ -18,25 +26,28 @@ const billContextLog = createLogger('BillContext');
 export interface CreateBillData {
 	vendor: string;
 	amount: number;
-	frequency: 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+	frequency: 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
 	nextExpectedDate: string;
 	autoPay?: boolean; // Default to false (manual payment)
 	appearanceMode?: 'custom' | 'brand' | 'default';
 	icon?: string;
 	color?: string;
 	category?: string; // Single category that will be applied to each generated transaction
+	rule?: RecurrenceRule; // On-device bills: a finer schedule than `frequency` (src/lib/recurrence.ts)
+	currency?: string; // On-device bills: ISO 4217 code; the home currency when unset
 }
 
 export interface UpdateBillData {
 	vendor?: string;
 	amount?: number;
-	frequency?: 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+	frequency?: 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
 	nextExpectedDate?: string;
 	autoPay?: boolean;
 	appearanceMode?: 'custom' | 'brand' | 'default';
 	icon?: string;
 	color?: string;
 	category?: string; // Single category that will be applied to each generated transaction
+	rule?: RecurrenceRule;
 }
 
 // ==========================================
@@ -63,6 +74,8 @@ interface BillContextType {
 	addBill: (data: CreateBillData) => Promise<Bill>;
 	updateBill: (id: string, data: UpdateBillData) => Promise<Bill>;
 	deleteBill: (id: string) => Promise<void>;
+	payBill: (id: string, date?: string) => Promise<void>;
+	skipBill: (id: string, date?: string) => Promise<void>;
 }
 
 export const BillContext = createContext<BillContextType>({
@@ -77,11 +90,25 @@ export const BillContext = createContext<BillContextType>({
 		throw new Error('updateBill not implemented');
 	},
 	deleteBill: async () => {},
+	payBill: async () => {
+		throw new Error('payBill not implemented');
+	},
+	skipBill: async () => {
+		throw new Error('skipBill not implemented');
+	},
 });
 
-export const BillProvider: React.FC<{ children: ReactNode }> = ({
-	children,
-}) => {
+const serverBills: BillBackend = BillService;
+
+export const BillProvider: React.FC<{
+	children: ReactNode;
+	/** Where bills live; the server unless given. */
+	backend?: BillBackend;
+	/** Write due auto-pay occurrences before the first load (on-device bills). */
+	applyDueOnLoad?: boolean;
+}> = ({ children, backend = serverBills, applyDueOnLoad = false }) => {
+	// Server ids are ObjectIds; the manual_* and ObjectId guards below don't apply on device
+	const isLocal = backend !== serverBills;
 	const [expenses, setExpenses] = useState<Bill[]>([]);
 	const [isLoading, setIsLoading] = useState(false);
 	const [hasLoaded, setHasLoaded] = useState(false);
@@ -101,13 +128,14 @@ export const BillProvider: React.FC<{ children: ReactNode }> = ({
 
 		setIsLoading(true);
 		try {
-			const data = await BillService.getRecurringExpenses({
+			const data = await backend.getRecurringExpenses({
 				signal: abortControllerRef.current.signal,
 			});
 
 			// Normalize: Replace manual_* IDs with real server IDs
 			const objectIdRe = /^[0-9a-fA-F]{24}$/;
 			const normalized = data.map((e) => {
+				if (isLocal) return e;
 				const currentId = getBillId(e);
 
 				// If ID is already a valid ObjectId, keep it
@@ -144,10 +172,10 @@ export const BillProvider: React.FC<{ children: ReactNode }> = ({
 				const objectIdRe = /^[0-9a-fA-F]{24}$/;
 				const patternIds = unique
 					.map((e) => getBillId(e))
-					.filter((id) => id && objectIdRe.test(id));
+					.filter((id) => id && (isLocal || objectIdRe.test(id)));
 
 				if (patternIds.length > 0) {
-					const paymentStatuses = await BillService.checkBatchPaidStatus(
+					const paymentStatuses = await backend.checkBatchPaidStatus(
 						patternIds
 					);
 
@@ -201,7 +229,7 @@ export const BillProvider: React.FC<{ children: ReactNode }> = ({
 			// Clean up abort controller
 			abortControllerRef.current = null;
 		}
-	}, []);
+	}, [backend, isLocal]);
 
 	const addBill = useCallback(
 		async (data: CreateBillData) => {
@@ -219,7 +247,7 @@ export const BillProvider: React.FC<{ children: ReactNode }> = ({
 
 			try {
 				billContextLog.debug('Creating bill on server...');
-				const serverExpense = await BillService.createRecurringExpense(data);
+				const serverExpense = await backend.createRecurringExpense(data);
 
 				billContextLog.debug('Bill created, replacing temp ID', {
 					tempId,
@@ -283,7 +311,7 @@ export const BillProvider: React.FC<{ children: ReactNode }> = ({
 				throw error;
 			}
 		},
-		[hasLoaded]
+		[hasLoaded, backend]
 	);
 
 	const updateBill = useCallback(
@@ -293,7 +321,7 @@ export const BillProvider: React.FC<{ children: ReactNode }> = ({
 			const objectIdRe = /^[0-9a-fA-F]{24}$/;
 			const isValidObjectId = objectIdRe.test(id);
 
-			if (isManualId || !isValidObjectId) {
+			if (!isLocal && (isManualId || !isValidObjectId)) {
 				billContextLog.warn(
 					`Blocking update for invalid ID: ${id}, forcing create...`
 				);
@@ -325,7 +353,7 @@ export const BillProvider: React.FC<{ children: ReactNode }> = ({
 				};
 
 				try {
-					const created = await BillService.createRecurringExpense(payload);
+					const created = await backend.createRecurringExpense(payload);
 
 					billContextLog.debug(
 						`Created with real ID, replacing ${id} with ${created.patternId}`
@@ -361,7 +389,7 @@ export const BillProvider: React.FC<{ children: ReactNode }> = ({
 			});
 
 			try {
-				const updatedExpense = await BillService.updateRecurringExpense(
+				const updatedExpense = await backend.updateRecurringExpense(
 					id,
 					updates
 				);
@@ -394,7 +422,7 @@ export const BillProvider: React.FC<{ children: ReactNode }> = ({
 				throw err;
 			}
 		},
-		[]
+		[backend, isLocal]
 	);
 
 	const deleteBill = useCallback(async (id: string) => {
@@ -405,7 +433,7 @@ export const BillProvider: React.FC<{ children: ReactNode }> = ({
 		const objectIdRe = /^[0-9a-fA-F]{24}$/;
 		const isValidObjectId = objectIdRe.test(id);
 
-		if (isManualId || !isValidObjectId) {
+		if (!isLocal && (isManualId || !isValidObjectId)) {
 			billContextLog.warn(
 				`Invalid ID ${id}, removing locally only (not on server)`
 			);
@@ -425,7 +453,7 @@ export const BillProvider: React.FC<{ children: ReactNode }> = ({
 
 		try {
 			billContextLog.debug('Calling API delete...');
-			await BillService.deleteRecurringExpense(id);
+			await backend.deleteRecurringExpense(id);
 
 			billContextLog.debug('Delete successful, clearing cache...');
 			// Clear cache to ensure fresh data
@@ -441,14 +469,44 @@ export const BillProvider: React.FC<{ children: ReactNode }> = ({
 				err instanceof Error ? err.message : 'Failed to delete bill';
 			throw new Error(errorMsg);
 		}
-	}, []);
+	}, [backend, isLocal]);
+
+	// Both write a transaction or record (or neither) and move the due date, so reload after
+	const payBill = useCallback(
+		async (id: string, date?: string) => {
+			await backend.payBill(id, date);
+			if (!isLocal) BillService.clearPaymentStatusCache(id);
+			await refetch();
+		},
+		[backend, isLocal, refetch]
+	);
+
+	const skipBill = useCallback(
+		async (id: string, date?: string) => {
+			if (!backend.skipBill) {
+				throw new Error('Skipping a payment is only available for bills on this device');
+			}
+			await backend.skipBill(id, date);
+			await refetch();
+		},
+		[backend, refetch]
+	);
 
 	// Initial load
+	const applyingDueRef = React.useRef(false);
 	useEffect(() => {
-		if (!hasLoaded) {
+		if (hasLoaded) return;
+		if (!applyDueOnLoad) {
 			refetch();
+			return;
 		}
-	}, [refetch, hasLoaded]);
+		if (applyingDueRef.current) return;
+		applyingDueRef.current = true;
+		backend
+			.autoApplyTransactions()
+			.catch((err) => billContextLog.warn('Failed to apply due bills', err))
+			.finally(() => refetch());
+	}, [refetch, hasLoaded, applyDueOnLoad, backend]);
 
 	// Memoize the context value to prevent unnecessary re-renders
 	const value = useMemo(
@@ -460,13 +518,54 @@ export const BillProvider: React.FC<{ children: ReactNode }> = ({
 			addBill,
 			updateBill,
 			deleteBill,
+			payBill,
+			skipBill,
 		}),
-		[expenses, isLoading, hasLoaded, refetch, addBill, updateBill, deleteBill]
+		[
+			expenses,
+			isLoading,
+			hasLoaded,
+			refetch,
+			addBill,
+			updateBill,
+			deleteBill,
+			payBill,
+			skipBill,
+		]
 	);
 
 	return <BillContext.Provider value={value}>{children}</BillContext.Provider>;
 };
 
+/**
+ * Bills kept on the device (local mode). Must sit inside a transaction
+ * provider: payments, including auto-pay ones written when the app opens,
+ * go through its `addTransaction` and are looked up with `queryTransactions`.
+ */
+export const LocalBillProvider: React.FC<{ children: ReactNode }> = ({
+	children,
+}) => {
+	const { addTransaction, queryTransactions } = useContext(TransactionContext);
+	const addTransactionRef = React.useRef(addTransaction);
+	addTransactionRef.current = addTransaction;
+	const queryTransactionsRef = React.useRef(queryTransactions);
+	queryTransactionsRef.current = queryTransactions;
+	const backend = useMemo(
+		() =>
+			new LocalBillService(
+				(data) => addTransactionRef.current(data),
+				(query) => queryTransactionsRef.current(query)
+			),
+		[]
+	);
+
+	return (
+		<BillProvider backend={backend} applyDueOnLoad>
+			{children}
+		</BillProvider>
+	);
+};
+
 // Hook to use bill context
 export const useBills = () => {
 	const context = useContext(BillContext);
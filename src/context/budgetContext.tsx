@@ -3,12 +3,45 @@ import React, {
 	useState,
 	useEffect,
 	useCallback,
+	useContext,
 	useMemo,
+	useRef,
 	ReactNode,
 } from 'react';
-import { ApiService } from '../services';
+import { AppState } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { ApiService, notificationService } from '../services';
+import { legacyProfileToPreferences } from '../services/notificationMapping';
 import { setCacheInvalidationFlags } from '../services/utility/cacheInvalidationUtils';
 import { createLogger } from '../utils/sublogger';
+import {
+	BUDGET_ALERT_PCT,
+	budgetProgress,
+	createBudget,
+	updateBudget as updateBudgetIn,
+	type BudgetPeriod,
+	type LocalBudget,
+} from '../lib/budgets';
+import {
+	budgetAlertMessage,
+	dueBudgetAlerts,
+	pruneSentAlerts,
+} from '../lib/budget-alerts';
+import { quietHoursEnd } from '../lib/quiet-hours';
+import { AppEvents, EVT_BUDGETS_CHANGED } from '../lib/eventBus';
+import { loadQuietHours } from '../storage/notificationStorage';
+import {
+	loadBudgets,
+	loadSentBudgetAlerts,
+	saveBudgets,
+	saveSentBudgetAlerts,
+} from '../storage/budgetStorage';
+import { TransactionContext } from './transactionContext';
+import { useCurrency } from './currencyContext';
+import { useCategories } from './categoryContext';
+import { useLocale } from './localeContext';
+import { ProfileContext } from './profileContext';
+import { useNotification } from './notificationContext';
 
 const budgetContextLog = createLogger('BudgetContext');
 
@@ -32,9 +65,9 @@ export interface Budget {
 	userId?: string;
 	name: string; // e.g. "Groceries"
 	amount: number;
-	period: 'weekly' | 'monthly';
+	period: 'weekly' | 'biweekly' | 'monthly'; // biweekly: on-device budgets only
 	// Optional overrides:
-	weekStartDay?: 0 | 1; // 0 = Sunday, 1 = Monday (default can be 0)
+	weekStartDay?: 0 | 1; // 0 = Sunday, 1 = Monday (default can be 0); also starts biweekly periods
 	monthStartDay?:
 		| 1
 		| 2
@@ -79,7 +112,7 @@ export interface Budget {
 export interface CreateBudgetData {
 	name: string;
 	amount: number;
-	period: 'weekly' | 'monthly';
+	period: 'weekly' | 'biweekly' | 'monthly';
 	weekStartDay?: 0 | 1;
 	monthStartDay?:
 		| 1
@@ -120,7 +153,7 @@ export interface CreateBudgetData {
 export interface UpdateBudgetData {
 	name?: string;
 	amount?: number;
-	period?: 'weekly' | 'monthly';
+	period?: 'weekly' | 'biweekly' | 'monthly';
 	weekStartDay?: 0 | 1;
 	monthStartDay?:
 		| 1
@@ -172,7 +205,7 @@ export interface BudgetSummary {
 }
 
 export interface BudgetFilter {
-	period?: 'weekly' | 'monthly';
+	period?: 'weekly' | 'biweekly' | 'monthly';
 	categories?: string[];
 	utilizationRange?: {
 		min: number;
@@ -200,6 +233,8 @@ interface BudgetContextType {
 	filterBudgets: (filter: BudgetFilter) => Budget[];
 	getAllCategories: () => string[];
 	getBudgetsByCategory: (category: string) => Budget[];
+	// Periods with allocated, spent and carried amounts, oldest first (on-device budgets)
+	getBudgetHistory: (budgetId: string) => BudgetPeriod[];
 	// Summary calculations (computed from budgets)
 	monthlySummary: { totalAllocated: number; totalSpent: number };
 	weeklySummary: { totalAllocated: number; totalSpent: number };
@@ -241,6 +276,7 @@ export const BudgetContext = createContext<BudgetContextType>({
 	filterBudgets: () => [],
 	getAllCategories: () => [],
 	getBudgetsByCategory: () => [],
+	getBudgetHistory: () => [],
 	// Summary calculations
 	monthlySummary: { totalAllocated: 0, totalSpent: 0 },
 	weeklySummary: { totalAllocated: 0, totalSpent: 0 },
@@ -248,6 +284,233 @@ export const BudgetContext = createContext<BudgetContextType>({
 	weeklyPercentage: 0,
 });
 
+/**
+ * Summaries and lookups over a budget list, shared by the server and
+ * on-device providers. Reads each budget's `spent` as given.
+ */
+function useBudgetAnalytics(budgets: Budget[]) {
+	// Budget analytics functions
+	const getBudgetSummary = useCallback((): BudgetSummary => {
+		const totalBudgets = budgets.length;
+		const totalAllocated = budgets.reduce(
+			(sum, budget) => sum + budget.amount,
+			0
+		);
+		const totalSpent = budgets.reduce(
+			(sum, budget) => sum + (budget.spent || 0),
+			0
+		);
+		const totalRemaining = totalAllocated - totalSpent;
+		const averageUtilization =
+			totalAllocated > 0 ? (totalSpent / totalAllocated) * 100 : 0;
+
+		const overBudgetCount = budgets.filter(
+			(budget) => (budget.spent || 0) > budget.amount
+		).length;
+		const underBudgetCount = budgets.filter(
+			(budget) => (budget.spent || 0) < budget.amount * 0.8
+		).length;
+		const onTrackCount = budgets.filter((budget) => {
+			const spent = budget.spent || 0;
+			return spent >= budget.amount * 0.8 && spent <= budget.amount;
+		}).length;
+
+		const monthlyBudgets = budgets.filter(
+			(budget) => budget.period === 'monthly'
+		).length;
+		const weeklyBudgets = budgets.filter(
+			(budget) => budget.period === 'weekly'
+		).length;
+
+		return {
+			totalBudgets,
+			totalAllocated,
+			totalSpent,
+			totalRemaining,
+			averageUtilization,
+			overBudgetCount,
+			underBudgetCount,
+			onTrackCount,
+			monthlyBudgets,
+			weeklyBudgets,
+		};
+	}, [budgets]);
+
+	const getBudgetUtilization = useCallback(
+		(budgetId: string): number => {
+			const budget = budgets.find((b) => b.id === budgetId);
+			if (!budget || budget.amount === 0) return 0;
+			return ((budget.spent || 0) / budget.amount) * 100;
+		},
+		[budgets]
+	);
+
+	const getOverBudgetBudgets = useCallback((): Budget[] => {
+		return budgets.filter((budget) => (budget.spent || 0) > budget.amount);
+	}, [budgets]);
+
+	const getUnderBudgetBudgets = useCallback((): Budget[] => {
+		return budgets.filter(
+			(budget) => (budget.spent || 0) < budget.amount * 0.8
+		);
+	}, [budgets]);
+
+	const filterBudgets = useCallback(
+		(filter: BudgetFilter): Budget[] => {
+			return budgets.filter((budget) => {
+				// Filter by period
+				if (filter.period && budget.period !== filter.period) {
+					return false;
+				}
+
+				// Filter by categories
+				if (filter.categories && filter.categories.length > 0) {
+					const budgetCategories = budget.categories || [];
+					const hasMatchingCategory = filter.categories.some((category) =>
+						budgetCategories.includes(category)
+					);
+					if (!hasMatchingCategory) {
+						return false;
+					}
+				}
+
+				// Filter by utilization range
+				if (filter.utilizationRange) {
+					const utilization = getBudgetUtilization(budget.id);
+					if (
+						utilization < filter.utilizationRange.min ||
+						utilization > filter.utilizationRange.max
+					) {
+						return false;
+					}
+				}
+
+				// Filter by over budget
+				if (filter.overBudget && (budget.spent || 0) <= budget.amount) {
+					return false;
+				}
+
+				// Filter by under budget
+				if (filter.underBudget && (budget.spent || 0) >= budget.amount * 0.8) {
+					return false;
+				}
+
+				// Filter by search term
+				if (filter.searchTerm) {
+					const searchLower = filter.searchTerm.toLowerCase();
+					const nameMatch = budget.name.toLowerCase().includes(searchLower);
+					const categoryMatch = (budget.categories || []).some((cat) =>
+						cat.toLowerCase().includes(searchLower)
+					);
+					if (!nameMatch && !categoryMatch) {
+						return false;
+					}
+				}
+
+				return true;
+			});
+		},
+		[budgets, getBudgetUtilization]
+	);
+
+	const getAllCategories = useCallback((): string[] => {
+		const allCategories = new Set<string>();
+		budgets.forEach((budget) => {
+			(budget.categories || []).forEach((category) =>
+				allCategories.add(category)
+			);
+		});
+		return Array.from(allCategories).sort();
+	}, [budgets]);
+
+	const getBudgetsByCategory = useCallback(
+		(category: string): Budget[] => {
+			return budgets.filter((budget) =>
+				(budget.categories || []).includes(category)
+			);
+		},
+		[budgets]
+	);
+
+	// Memoized summary calculations for monthly and weekly budgets
+	const summaryCalculations = useMemo(() => {
+		const monthlyBudgets = budgets.filter((b) => b.period === 'monthly');
+		const weeklyBudgets = budgets.filter((b) => b.period === 'weekly');
+
+		const monthlySummary = monthlyBudgets.reduce(
+			(acc, budget) => {
+				acc.totalAllocated += Number(budget.amount) || 0;
+				acc.totalSpent += Number(budget.spent) || 0;
+				return acc;
+			},
+			{ totalAllocated: 0, totalSpent: 0 }
+		);
+
+		const weeklySummary = weeklyBudgets.reduce(
+			(acc, budget) => {
+				acc.totalAllocated += Number(budget.amount) || 0;
+				acc.totalSpent += Number(budget.spent) || 0;
+				return acc;
+			},
+			{ totalAllocated: 0, totalSpent: 0 }
+		);
+
+		// Guard against divide-by-zero and NaN
+		const monthlyPercentage =
+			monthlySummary.totalAllocated > 0 && !isNaN(monthlySummary.totalSpent)
+				? Math.min(
+						Math.max(
+							0,
+							(monthlySummary.totalSpent / monthlySummary.totalAllocated) * 100
+						),
+						100
+				  )
+				: 0;
+
+		const weeklyPercentage =
+			weeklySummary.totalAllocated > 0 && !isNaN(weeklySummary.totalSpent)
+				? Math.min(
+						Math.max(
+							0,
+							(weeklySummary.totalSpent / weeklySummary.totalAllocated) * 100
+						),
+						100
+				  )
+				: 0;
+
+		return {
+			monthlySummary,
+			weeklySummary,
+			monthlyPercentage,
+			weeklyPercentage,
+		};
+	}, [budgets]);
+
+	return useMemo(
+		() => ({
+			getBudgetSummary,
+			getBudgetUtilization,
+			getOverBudgetBudgets,
+			getUnderBudgetBudgets,
+			filterBudgets,
+			getAllCategories,
+			getBudgetsByCategory,
+			// Summary calculations
+			...summaryCalculations,
+		}),
+		[
+			getBudgetSummary,
+			getBudgetUtilization,
+			getOverBudgetBudgets,
+			getUnderBudgetBudgets,
+			filterBudgets,
+			getAllCategories,
+			getBudgetsByCategory,
+			summaryCalculations,
+		]
+	);
+}
+
 export const BudgetProvider = ({ children }: { children: ReactNode }) => {
 	const [budgets, setBudgets] = useState<Budget[]>([]);
 	const [isLoading, setIsLoading] = useState<boolean>(false); // Changed from true to false
@@ -667,214 +930,234 @@ export const BudgetProvider = ({ children }: { children: ReactNode }) => {
 		[budgets]
 	);
 
-	// Budget analytics functions
-	const getBudgetSummary = useCallback((): BudgetSummary => {
-		const totalBudgets = budgets.length;
-		const totalAllocated = budgets.reduce(
-			(sum, budget) => sum + budget.amount,
-			0
-		);
-		const totalSpent = budgets.reduce(
-			(sum, budget) => sum + (budget.spent || 0),
-			0
-		);
-		const totalRemaining = totalAllocated - totalSpent;
-		const averageUtilization =
-			totalAllocated > 0 ? (totalSpent / totalAllocated) * 100 : 0;
-
-		const overBudgetCount = budgets.filter(
-			(budget) => (budget.spent || 0) > budget.amount
-		).length;
-		const underBudgetCount = budgets.filter(
-			(budget) => (budget.spent || 0) < budget.amount * 0.8
-		).length;
-		const onTrackCount = budgets.filter((budget) => {
-			const spent = budget.spent || 0;
-			return spent >= budget.amount * 0.8 && spent <= budget.amount;
-		}).length;
-
-		const monthlyBudgets = budgets.filter(
-			(budget) => budget.period === 'monthly'
-		).length;
-		const weeklyBudgets = budgets.filter(
-			(budget) => budget.period === 'weekly'
-		).length;
+	// Load budgets when component mounts
+	useEffect(() => {
+		if (!hasLoaded) {
+			refetch();
+		}
+	}, [refetch, hasLoaded]);
 
-		return {
-			totalBudgets,
-			totalAllocated,
-			totalSpent,
-			totalRemaining,
-			averageUtilization,
-			overBudgetCount,
-			underBudgetCount,
-			onTrackCount,
-			monthlyBudgets,
-			weeklyBudgets,
-		};
-	}, [budgets]);
+	const analytics = useBudgetAnalytics(budgets);
 
-	const getBudgetUtilization = useCallback(
-		(budgetId: string): number => {
-			const budget = budgets.find((b) => b.id === budgetId);
-			if (!budget || budget.amount === 0) return 0;
-			return ((budget.spent || 0) / budget.amount) * 100;
-		},
-		[budgets]
+	const value = useMemo(
+		() => ({
+			budgets,
+			isLoading,
+			hasLoaded,
+			refetch,
+			addBudget,
+			updateBudget,
+			deleteBudget,
+			updateBudgetSpent,
+			checkBudgetAlerts,
+			// The server reports only the current period
+			getBudgetHistory: () => [],
+			...analytics,
+		}),
+		[
+			budgets,
+			isLoading,
+			hasLoaded,
+			refetch,
+			addBudget,
+			updateBudget,
+			deleteBudget,
+			updateBudgetSpent,
+			checkBudgetAlerts,
+			analytics,
+		]
 	);
 
-	const getOverBudgetBudgets = useCallback((): Budget[] => {
-		return budgets.filter((budget) => (budget.spent || 0) > budget.amount);
-	}, [budgets]);
-
-	const getUnderBudgetBudgets = useCallback((): Budget[] => {
-		return budgets.filter(
-			(budget) => (budget.spent || 0) < budget.amount * 0.8
-		);
-	}, [budgets]);
-
-	const filterBudgets = useCallback(
-		(filter: BudgetFilter): Budget[] => {
-			return budgets.filter((budget) => {
-				// Filter by period
-				if (filter.period && budget.period !== filter.period) {
-					return false;
-				}
+	return (
+		<BudgetContext.Provider value={value}>{children}</BudgetContext.Provider>
+	);
+};
 
-				// Filter by categories
-				if (filter.categories && filter.categories.length > 0) {
-					const budgetCategories = budget.categories || [];
-					const hasMatchingCategory = filter.categories.some((category) =>
-						budgetCategories.includes(category)
-					);
-					if (!hasMatchingCategory) {
-						return false;
-					}
-				}
+/**
+ * Budgets kept on the device, used in both modes. Must sit inside the
+ * transaction, currency and category providers: spending is summed from the
+ * loaded transactions in the home currency, and a budget on a parent
+ * category covers its subcategories.
+ */
+export function LocalBudgetProvider({ children }: { children: ReactNode }) {
+	const { transactions } = useContext(TransactionContext);
+	const { toHome, format: formatCurrency } = useCurrency();
+	const { rollup } = useCategories();
+	const { settings: localeSettings, formatDate } = useLocale();
+	const { addLocalNotification } = useNotification();
+	// Signed in: the profile's settings; local mode has no profile and uses the defaults
+	const preferences = useContext(ProfileContext)?.profile?.preferences;
+	const carryOver = preferences?.budgetSettings?.carryOver;
+	const alertPct = preferences?.budgetSettings?.alertPct ?? BUDGET_ALERT_PCT;
+	const notificationPrefs = useMemo(
+		() =>
+			legacyProfileToPreferences(
+				preferences?.notifications ?? {},
+				preferences?.aiInsights,
+				preferences?.marketing
+			),
+		[preferences?.notifications, preferences?.aiInsights, preferences?.marketing]
+	);
+	const [stored, setStored] = useState<Budget[]>([]);
+	const [hasLoaded, setHasLoaded] = useState(false);
+	const storedRef = useRef(stored);
+	// Alert keys already sent; loaded on the first check
+	const sentAlertsRef = useRef<string[] | null>(null);
+	// Checks run one at a time so an alert is never sent twice
+	const alertQueueRef = useRef<Promise<void>>(Promise.resolve());
 
-				// Filter by utilization range
-				if (filter.utilizationRange) {
-					const utilization = getBudgetUtilization(budget.id);
-					if (
-						utilization < filter.utilizationRange.min ||
-						utilization > filter.utilizationRange.max
-					) {
-						return false;
-					}
-				}
+	const refetch = useCallback(async () => {
+		const loaded = await loadBudgets();
+		storedRef.current = loaded;
+		setStored(loaded);
+		setHasLoaded(true);
+	}, []);
 
-				// Filter by over budget
-				if (filter.overBudget && (budget.spent || 0) <= budget.amount) {
-					return false;
-				}
+	useEffect(() => {
+		refetch();
+	}, [refetch]);
 
-				// Filter by under budget
-				if (filter.underBudget && (budget.spent || 0) >= budget.amount * 0.8) {
-					return false;
-				}
+	// Category renames and merges rewrite the stored budgets
+	useEffect(() => {
+		const reload = () => void refetch();
+		AppEvents.on(EVT_BUDGETS_CHANGED, reload);
+		return () => {
+			AppEvents.off(EVT_BUDGETS_CHANGED, reload);
+		};
+	}, [refetch]);
 
-				// Filter by search term
-				if (filter.searchTerm) {
-					const searchLower = filter.searchTerm.toLowerCase();
-					const nameMatch = budget.name.toLowerCase().includes(searchLower);
-					const categoryMatch = (budget.categories || []).some((cat) =>
-						cat.toLowerCase().includes(searchLower)
-					);
-					if (!nameMatch && !categoryMatch) {
-						return false;
-					}
-				}
+	const persist = useCallback(async (next: Budget[]) => {
+		storedRef.current = next;
+		setStored(next);
+		await saveBudgets(next);
+	}, []);
 
-				return true;
-			});
+	const addBudget = useCallback(
+		async (budgetData: CreateBudgetData) => {
+			const budget = createBudget(budgetData);
+			await persist([...storedRef.current, budget]);
+			return budget;
 		},
-		[budgets, getBudgetUtilization]
+		[persist]
 	);
 
-	const getAllCategories = useCallback((): string[] => {
-		const allCategories = new Set<string>();
-		budgets.forEach((budget) => {
-			(budget.categories || []).forEach((category) =>
-				allCategories.add(category)
-			);
-		});
-		return Array.from(allCategories).sort();
-	}, [budgets]);
-
-	const getBudgetsByCategory = useCallback(
-		(category: string): Budget[] => {
-			return budgets.filter((budget) =>
-				(budget.categories || []).includes(category)
-			);
+	const updateBudget = useCallback(
+		async (id: string, updates: UpdateBudgetData) => {
+			const current = storedRef.current.find((b) => b.id === id);
+			if (!current) throw new Error('Budget not found or already deleted.');
+			const budget = updateBudgetIn(current, updates);
+			await persist(storedRef.current.map((b) => (b.id === id ? budget : b)));
+			return budget;
 		},
-		[budgets]
+		[persist]
 	);
 
-	// Load budgets when component mounts
-	useEffect(() => {
-		if (!hasLoaded) {
-			refetch();
-		}
-	}, [refetch, hasLoaded]);
+	const deleteBudget = useCallback(
+		async (id: string) => {
+			await persist(storedRef.current.filter((b) => b.id !== id));
+		},
+		[persist]
+	);
 
-	// Memoized summary calculations for monthly and weekly budgets
-	const summaryCalculations = useMemo(() => {
-		const monthlyBudgets = budgets.filter((b) => b.period === 'monthly');
-		const weeklyBudgets = budgets.filter((b) => b.period === 'weekly');
+	const updateBudgetSpent = useCallback(async (): Promise<Budget> => {
+		throw new Error('Budget spending comes from your transactions.');
+	}, []);
 
-		const monthlySummary = monthlyBudgets.reduce(
-			(acc, budget) => {
-				acc.totalAllocated += Number(budget.amount) || 0;
-				acc.totalSpent += Number(budget.spent) || 0;
-				return acc;
-			},
-			{ totalAllocated: 0, totalSpent: 0 }
+	const budgets = useMemo<LocalBudget[]>(() => {
+		const home = toHome(transactions);
+		return stored.map((budget) =>
+			budgetProgress(budget, home, {
+				weekStartsOn: localeSettings.weekStartsOn,
+				rollupCategory: rollup,
+				carryOver,
+				alertPct,
+			})
 		);
+	}, [stored, transactions, toHome, rollup, localeSettings.weekStartsOn, carryOver, alertPct]);
 
-		const weeklySummary = weeklyBudgets.reduce(
-			(acc, budget) => {
-				acc.totalAllocated += Number(budget.amount) || 0;
-				acc.totalSpent += Number(budget.spent) || 0;
-				return acc;
-			},
-			{ totalAllocated: 0, totalSpent: 0 }
-		);
+	// Notifies each budget once per period as it crosses alertPct, 100% and
+	// overspent; in quiet hours the push waits until they end
+	const checkBudgetAlerts = useCallback(() => {
+		const check = async () => {
+			if (!hasLoaded || !notificationPrefs.masterEnabled || !notificationPrefs.core.budgetAlerts) {
+				return;
+			}
+			sentAlertsRef.current ??= await loadSentBudgetAlerts();
+			const before = sentAlertsRef.current;
+			const sent = pruneSentAlerts(before, budgets);
+			const due = dueBudgetAlerts(budgets, sent, alertPct);
+			if (!due.length && sent.length === before.length) return;
+
+			// Quiet hours are kept on the device; the profile has none
+			const deferUntil = quietHoursEnd(await loadQuietHours(), new Date());
+			const trigger: Notifications.NotificationTriggerInput | undefined = deferUntil
+				? { type: Notifications.SchedulableTriggerInputTypes.DATE, date: deferUntil }
+				: undefined;
+			for (const alert of due) {
+				const budget = budgets.find((b) => b.id === alert.budgetId);
+				if (!budget) continue;
+				const { title, body } = budgetAlertMessage(
+					alert,
+					budget,
+					{ currency: formatCurrency, date: (ymd) => formatDate(ymd, 'monthDay') },
+					alertPct
+				);
+				const data = {
+					type: 'budget',
+					entityId: budget.id,
+					route: `/(tabs)/dashboard/budgets/detail?id=${encodeURIComponent(budget.id)}`,
+				};
+				await notificationService.scheduleLocalNotification(title, body, data, trigger);
+				await addLocalNotification({
+					title,
+					message: body,
+					type: 'budget',
+					priority: alert.level === 'threshold' ? 'medium' : 'high',
+					data,
+				});
+				sent.push(...alert.sentKeys);
+			}
+			sentAlertsRef.current = sent;
+			await saveSentBudgetAlerts(sent);
+		};
+		const next = alertQueueRef.current.then(check).catch((err) => {
+			budgetContextLog.warn('Budget alert check failed', err);
+		});
+		alertQueueRef.current = next;
+		return next;
+	}, [
+		hasLoaded,
+		budgets,
+		alertPct,
+		notificationPrefs,
+		formatCurrency,
+		formatDate,
+		addLocalNotification,
+	]);
+
+	// Budgets recompute whenever a transaction is added or changed
+	useEffect(() => {
+		void checkBudgetAlerts();
+	}, [checkBudgetAlerts]);
 
-		// Guard against divide-by-zero and NaN
-		const monthlyPercentage =
-			monthlySummary.totalAllocated > 0 && !isNaN(monthlySummary.totalSpent)
-				? Math.min(
-						Math.max(
-							0,
-							(monthlySummary.totalSpent / monthlySummary.totalAllocated) * 100
-						),
-						100
-				  )
-				: 0;
+	useEffect(() => {
+		const sub = AppState.addEventListener('change', (state) => {
+			if (state === 'active') void checkBudgetAlerts();
+		});
+		return () => sub.remove();
+	}, [checkBudgetAlerts]);
 
-		const weeklyPercentage =
-			weeklySummary.totalAllocated > 0 && !isNaN(weeklySummary.totalSpent)
-				? Math.min(
-						Math.max(
-							0,
-							(weeklySummary.totalSpent / weeklySummary.totalAllocated) * 100
-						),
-						100
-				  )
-				: 0;
+	const getBudgetHistory = useCallback(
+		(budgetId: string) => budgets.find((b) => b.id === budgetId)?.history ?? [],
+		[budgets]
+	);
 
-		return {
-			monthlySummary,
-			weeklySummary,
-			monthlyPercentage,
-			weeklyPercentage,
-		};
-	}, [budgets]);
+	const analytics = useBudgetAnalytics(budgets);
 
-	const value = useMemo(
+	const value = useMemo<BudgetContextType>(
 		() => ({
 			budgets,
-			isLoading,
+			isLoading: !hasLoaded,
 			hasLoaded,
 			refetch,
 			addBudget,
@@ -882,19 +1165,11 @@ export const BudgetProvider = ({ children }: { children: ReactNode }) => {
 			deleteBudget,
 			updateBudgetSpent,
 			checkBudgetAlerts,
-			getBudgetSummary,
-			getBudgetUtilization,
-			getOverBudgetBudgets,
-			getUnderBudgetBudgets,
-			filterBudgets,
-			getAllCategories,
-			getBudgetsByCategory,
-			// Summary calculations
-			...summaryCalculations,
+			getBudgetHistory,
+			...analytics,
 		}),
 		[
 			budgets,
-			isLoading,
 			hasLoaded,
 			refetch,
 			addBudget,
@@ -902,21 +1177,13 @@ export const BudgetProvider = ({ children }: { children: ReactNode }) => {
 			deleteBudget,
 			updateBudgetSpent,
 			checkBudgetAlerts,
-			getBudgetSummary,
-			getBudgetUtilization,
-			getOverBudgetBudgets,
-			getUnderBudgetBudgets,
-			filterBudgets,
-			getAllCategories,
-			getBudgetsByCategory,
-			summaryCalculations,
+			getBudgetHistory,
+			analytics,
 		]
 	);
 
-	return (
-		<BudgetContext.Provider value={value}>{children}</BudgetContext.Provider>
-	);
-};
+	return <BudgetContext.Provider value={value}>{children}</BudgetContext.Provider>;
+}
 
 // Hook to use budget context
 export const useBudget = () => {
@@ -0,0 +1,415 @@
+/**
+ * Category list for pickers, breakdowns and the categories settings screen,
+ * plus the auto-categorization rules applied at capture time.
+ * Must sit inside a transaction provider: renames, merges and "apply rules to
+ * past transactions" rewrite existing transactions through `updateTransaction`.
+ * Renames and merges also rewrite the stored budgets and rules, which keep
+ * category names.
+ */
+import React, {
+	createContext,
+	useCallback,
+	useContext,
+	useEffect,
+	useMemo,
+	useRef,
+	useState,
+	ReactNode,
+} from 'react';
+import { TransactionContext, type Transaction } from './transactionContext';
+import { ProfileContext } from './profileContext';
+import {
+	DEFAULT_CATEGORIES,
+	categoryRollup,
+	createCategory as createCategoryIn,
+	findCategoryByName,
+	mergeCategories as mergeCategoriesIn,
+	orderedCategories,
+	rewriteTransactionCategories,
+	setCategoryArchived,
+	updateCategory as updateCategoryIn,
+	type Category,
+	type CategoryInput,
+	type CategoryKind,
+} from '../lib/categories';
+import {
+	applyRulesToTransactions,
+	categorizeDraft,
+	createRule,
+	learnCategoryHistory,
+	rewriteRuleCategories,
+	type CategorizableDraft,
+	type Categorization,
+	type CategorizationRule,
+	type RuleInput,
+} from '../lib/categorization-rules';
+import {
+	loadCategories,
+	saveCategories,
+	type StoredCategories,
+} from '../storage/categoryStorage';
+import {
+	loadCategoryRules,
+	saveCategoryRules,
+	type StoredCategoryRules,
+} from '../storage/categoryRuleStorage';
+import { rewriteBudgetCategories } from '../lib/budgets';
+import { AppEvents, EVT_BUDGETS_CHANGED } from '../lib/eventBus';
+import { loadBudgets, saveBudgets } from '../storage/budgetStorage';
+import { createLogger } from '../utils/sublogger';
+
+const categoryContextLog = createLogger('CategoryContext');
+
+export interface CategoryContextType {
+	/** Every category, archived ones included. */
+	categories: Category[];
+	hasLoaded: boolean;
+	/** Renames/merges still being applied to transactions. */
+	pendingRewriteCount: number;
+	/** Active categories of a kind, parents followed by their children. */
+	categoriesFor: (kind: CategoryKind) => Category[];
+	findCategory: (name: string | undefined, kind?: CategoryKind) => Category | undefined;
+	/** Expense category name → its parent's name, for rolled-up breakdowns. */
+	rollup: (name: string) => string;
+	createCategory: (input: CategoryInput) => Promise<void>;
+	updateCategory: (
+		id: string,
+		patch: Partial<Pick<Category, 'name' | 'parentId' | 'icon' | 'color'>>
+	) => Promise<void>;
+	mergeCategories: (sourceId: string, targetId: string) => Promise<void>;
+	archiveCategory: (id: string, archived: boolean) => Promise<void>;
+	/** Auto-categorization rules, checked in order. */
+	rules: CategorizationRule[];
+	/** Profile preference when signed in, an on-device switch in local mode. */
+	autoCategorize: boolean;
+	setAutoCategorize: (enabled: boolean) => Promise<void>;
+	addRule: (input: RuleInput) => Promise<void>;
+	updateRule: (id: string, input: RuleInput) => Promise<void>;
+	removeRule: (id: string) => Promise<void>;
+	/** Rules, then learned history; null when auto-categorization is off or nothing applies. */
+	categorize: (draft: CategorizableDraft) => Categorization | null;
+	/** Runs the rules over every loaded transaction; resolves to how many changed. */
+	applyRulesToPast: () => Promise<number>;
+}
+
+export const CategoryContext = createContext<CategoryContextType>({
+	categories: DEFAULT_CATEGORIES,
+	hasLoaded: false,
+	pendingRewriteCount: 0,
+	categoriesFor: (kind) => orderedCategories(DEFAULT_CATEGORIES, kind),
+	findCategory: (name, kind) => findCategoryByName(DEFAULT_CATEGORIES, name, kind),
+	rollup: (name) => name,
+	createCategory: async () => {
+		throw new Error('createCategory not implemented');
+	},
+	updateCategory: async () => {
+		throw new Error('updateCategory not implemented');
+	},
+	mergeCategories: async () => {
+		throw new Error('mergeCategories not implemented');
+	},
+	archiveCategory: async () => {
+		throw new Error('archiveCategory not implemented');
+	},
+	rules: [],
+	autoCategorize: false,
+	setAutoCategorize: async () => {
+		throw new Error('setAutoCategorize not implemented');
+	},
+	addRule: async () => {
+		throw new Error('addRule not implemented');
+	},
+	updateRule: async () => {
+		throw new Error('updateRule not implemented');
+	},
+	removeRule: async () => {
+		throw new Error('removeRule not implemented');
+	},
+	categorize: () => null,
+	applyRulesToPast: async () => {
+		throw new Error('applyRulesToPast not implemented');
+	},
+});
+
+export function useCategories(): CategoryContextType {
+	return useContext(CategoryContext);
+}
+
+export function CategoryProvider({ children }: { children: ReactNode }) {
+	const { transactions, hasLoaded: transactionsLoaded, updateTransaction } =
+		useContext(TransactionContext);
+	const [state, setState] = useState<StoredCategories>({
+		categories: DEFAULT_CATEGORIES,
+		pendingRewrites: [],
+	});
+	const [hasLoaded, setHasLoaded] = useState(false);
+	const stateRef = useRef(state);
+	const transactionsRef = useRef(transactions);
+	transactionsRef.current = transactions;
+	const updateTransactionRef = useRef(updateTransaction);
+	updateTransactionRef.current = updateTransaction;
+	const rewritingRef = useRef(false);
+	// Only mounted in account mode; local mode keeps the switch with the rules
+	const profileContext = useContext(ProfileContext);
+	const [ruleState, setRuleState] = useState<StoredCategoryRules>({
+		rules: [],
+		autoCategorize: false,
+	});
+	const ruleStateRef = useRef(ruleState);
+
+	useEffect(() => {
+		let cancelled = false;
+		Promise.all([loadCategories(), loadCategoryRules()]).then(([loaded, loadedRules]) => {
+			if (cancelled) return;
+			stateRef.current = loaded;
+			setState(loaded);
+			ruleStateRef.current = loadedRules;
+			setRuleState(loadedRules);
+			setHasLoaded(true);
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, []);
+
+	const persist = useCallback(async (next: StoredCategories) => {
+		stateRef.current = next;
+		setState(next);
+		await saveCategories(next);
+	}, []);
+
+	const persistRules = useCallback(async (next: StoredCategoryRules) => {
+		ruleStateRef.current = next;
+		setRuleState(next);
+		await saveCategoryRules(next);
+	}, []);
+
+	/**
+	 * Apply pending rewrites to loaded transactions, stored budgets and rules. Cleared
+	 * only after every update succeeds; a failure leaves them for the next launch.
+	 */
+	const runRewrites = useCallback(async () => {
+		const pending = stateRef.current.pendingRewrites;
+		if (rewritingRef.current || pending.length === 0) return;
+		rewritingRef.current = true;
+		try {
+			const changed = rewriteTransactionCategories(transactionsRef.current, pending);
+			for (const tx of changed) {
+				await updateTransactionRef.current(tx.id, {
+					metadata: tx.metadata,
+					splits: tx.splits,
+				});
+			}
+			const budgets = await loadBudgets();
+			const changedBudgets = new Map(
+				rewriteBudgetCategories(budgets, pending).map((b) => [b.id, b])
+			);
+			if (changedBudgets.size > 0) {
+				await saveBudgets(budgets.map((b) => changedBudgets.get(b.id) ?? b));
+				AppEvents.emit(EVT_BUDGETS_CHANGED);
+			}
+			const changedRules = new Map(
+				rewriteRuleCategories(ruleStateRef.current.rules, pending).map((r) => [r.id, r])
+			);
+			if (changedRules.size > 0) {
+				await persistRules({
+					...ruleStateRef.current,
+					rules: ruleStateRef.current.rules.map((r) => changedRules.get(r.id) ?? r),
+				});
+			}
+			// Rewrites queued while this ran stay pending and trigger another pass
+			await persist({
+				...stateRef.current,
+				pendingRewrites: stateRef.current.pendingRewrites.slice(pending.length),
+			});
+			if (changed.length > 0) {
+				categoryContextLog.info('Rewrote categories on transactions', {
+					count: changed.length,
+				});
+			}
+		} catch (err) {
+			categoryContextLog.warn('Category rewrite failed; will retry', err);
+		} finally {
+			rewritingRef.current = false;
+		}
+	}, [persist, persistRules]);
+
+	useEffect(() => {
+		if (hasLoaded && transactionsLoaded && state.pendingRewrites.length > 0) {
+			void runRewrites();
+		}
+	}, [hasLoaded, transactionsLoaded, state.pendingRewrites, runRewrites]);
+
+	const createCategory = useCallback(
+		async (input: CategoryInput) => {
+			const categories = createCategoryIn(stateRef.current.categories, input);
+			await persist({ ...stateRef.current, categories });
+		},
+		[persist]
+	);
+
+	const updateCategory = useCallback<CategoryContextType['updateCategory']>(
+		async (id, patch) => {
+			const change = updateCategoryIn(stateRef.current.categories, id, patch);
+			await persist({
+				categories: change.categories,
+				pendingRewrites: [...stateRef.current.pendingRewrites, ...change.rewrites],
+			});
+		},
+		[persist]
+	);
+
+	const mergeCategories = useCallback(
+		async (sourceId: string, targetId: string) => {
+			const change = mergeCategoriesIn(stateRef.current.categories, sourceId, targetId);
+			await persist({
+				categories: change.categories,
+				pendingRewrites: [...stateRef.current.pendingRewrites, ...change.rewrites],
+			});
+		},
+		[persist]
+	);
+
+	const archiveCategory = useCallback(
+		async (id: string, archived: boolean) => {
+			const categories = setCategoryArchived(stateRef.current.categories, id, archived);
+			await persist({ ...stateRef.current, categories });
+		},
+		[persist]
+	);
+
+	const profilePreferences = profileContext?.profile?.preferences;
+	const updatePreferences = profileContext?.updatePreferences;
+	const autoCategorize = profilePreferences
+		? profilePreferences.recurringExpenses?.autoCategorization === true
+		: ruleState.autoCategorize;
+
+	const setAutoCategorize = useCallback(
+		async (enabled: boolean) => {
+			if (profilePreferences && updatePreferences) {
+				await updatePreferences({
+					recurringExpenses: {
+						...profilePreferences.recurringExpenses,
+						autoCategorization: enabled,
+					},
+				});
+				return;
+			}
+			await persistRules({ ...ruleStateRef.current, autoCategorize: enabled });
+		},
+		[profilePreferences, updatePreferences, persistRules]
+	);
+
+	const addRule = useCallback(
+		async (input: RuleInput) => {
+			const rule = createRule(input);
+			await persistRules({
+				...ruleStateRef.current,
+				rules: [...ruleStateRef.current.rules, rule],
+			});
+		},
+		[persistRules]
+	);
+
+	const updateRule = useCallback(
+		async (id: string, input: RuleInput) => {
+			const rule = createRule(input, id);
+			await persistRules({
+				...ruleStateRef.current,
+				rules: ruleStateRef.current.rules.map((r) => (r.id === id ? rule : r)),
+			});
+		},
+		[persistRules]
+	);
+
+	const removeRule = useCallback(
+		async (id: string) => {
+			await persistRules({
+				...ruleStateRef.current,
+				rules: ruleStateRef.current.rules.filter((r) => r.id !== id),
+			});
+		},
+		[persistRules]
+	);
+
+	// Shares the rewrite guard so the two never update the same transactions at once
+	const applyRulesToPast = useCallback(async () => {
+		if (rewritingRef.current) {
+			throw new Error('Categories are still being updated. Try again in a moment.');
+		}
+		rewritingRef.current = true;
+		let changed: Transaction[];
+		try {
+			changed = applyRulesToTransactions(
+				transactionsRef.current,
+				ruleStateRef.current.rules
+			);
+			for (const tx of changed) {
+				await updateTransactionRef.current(tx.id, {
+					description: tx.description,
+					vendor: tx.vendor,
+					metadata: tx.metadata,
+				});
+			}
+		} finally {
+			rewritingRef.current = false;
+		}
+		if (changed.length > 0) {
+			categoryContextLog.info('Applied rules to past transactions', {
+				count: changed.length,
+			});
+		}
+		// A rename or merge queued meanwhile waited for this pass
+		void runRewrites();
+		return changed.length;
+	}, [runRewrites]);
+
+	const history = useMemo(() => learnCategoryHistory(transactions), [transactions]);
+
+	const categorize = useCallback(
+		(draft: CategorizableDraft) =>
+			autoCategorize ? categorizeDraft(draft, ruleState.rules, history) : null,
+		[autoCategorize, ruleState.rules, history]
+	);
+
+	const value = useMemo<CategoryContextType>(
+		() => ({
+			categories: state.categories,
+			hasLoaded,
+			pendingRewriteCount: state.pendingRewrites.length,
+			categoriesFor: (kind) => orderedCategories(state.categories, kind),
+			findCategory: (name, kind) => findCategoryByName(state.categories, name, kind),
+			rollup: categoryRollup(state.categories),
+			createCategory,
+			updateCategory,
+			mergeCategories,
+			archiveCategory,
+			rules: ruleState.rules,
+			autoCategorize,
+			setAutoCategorize,
+			addRule,
+			updateRule,
+			removeRule,
+			categorize,
+			applyRulesToPast,
+		}),
+		[
+			state,
+			hasLoaded,
+			createCategory,
+			updateCategory,
+			mergeCategories,
+			archiveCategory,
+			ruleState.rules,
+			autoCategorize,
+			setAutoCategorize,
+			addRule,
+			updateRule,
+			removeRule,
+			categorize,
+			applyRulesToPast,
+		]
+	);
+
+	return <CategoryContext.Provider value={value}>{children}</CategoryContext.Provider>;
+}
@@ -0,0 +1,236 @@
+/**
+ * Home currency and exchange rates. Screens convert transactions with
+ * `toHome` before summing them and format totals with `format`. Signed-in
+ * users' home currency follows profile preferences; the rate table is
+ * always on device.
+ */
+import React, {
+	createContext,
+	useCallback,
+	useContext,
+	useEffect,
+	useMemo,
+	useRef,
+	useState,
+	ReactNode,
+} from 'react';
+import { TransactionContext, type Transaction } from './transactionContext';
+import { ProfileContext } from './profileContext';
+import {
+	COMMON_CURRENCIES,
+	DEFAULT_CURRENCY_SETTINGS,
+	changeHomeCurrency,
+	convertToHome,
+	missingRates,
+	normalizeCurrencyCode,
+	parseRatesFile,
+	removeRate as removeRateIn,
+	setRate as setRateIn,
+	stampCurrency,
+	toHomeTransactions,
+	type CurrencySettings,
+} from '../lib/currency';
+import {
+	DEFAULT_LOCALE_SETTINGS,
+	formatMoney,
+	type MoneyFormatOptions,
+} from '../lib/locale';
+import { loadCurrencySettings, saveCurrencySettings } from '../storage/currencyStorage';
+import { LocaleContext } from './localeContext';
+
+export interface CurrencyContextType {
+	settings: CurrencySettings;
+	homeCurrency: string;
+	hasLoaded: boolean;
+	/** Home first, then currencies with rates, then common ones. */
+	currencies: string[];
+	setHomeCurrency: (code: string) => Promise<void>;
+	setRate: (code: string, rate: number) => Promise<void>;
+	removeRate: (code: string) => Promise<void>;
+	/** Merge rates from a file's text; resolves to how many were read. */
+	importRates: (text: string) => Promise<number>;
+	/** Transactions with amounts in the home currency, for totals. */
+	toHome: (transactions: Transaction[]) => Transaction[];
+	convert: (amount: number, code: string | undefined) => number | null;
+	missingRates: (transactions: Transaction[]) => string[];
+	/** Format an amount in the user's number format; the home currency unless `code` says otherwise. */
+	format: (amount: number, code?: string, options?: MoneyFormatOptions) => string;
+}
+
+function listCurrencies(settings: CurrencySettings): string[] {
+	return [...new Set([settings.home, ...Object.keys(settings.rates).sort(), ...COMMON_CURRENCIES])];
+}
+
+export const CurrencyContext = createContext<CurrencyContextType>({
+	settings: DEFAULT_CURRENCY_SETTINGS,
+	homeCurrency: DEFAULT_CURRENCY_SETTINGS.home,
+	hasLoaded: false,
+	currencies: listCurrencies(DEFAULT_CURRENCY_SETTINGS),
+	setHomeCurrency: async () => {
+		throw new Error('setHomeCurrency not implemented');
+	},
+	setRate: async () => {
+		throw new Error('setRate not implemented');
+	},
+	removeRate: async () => {
+		throw new Error('removeRate not implemented');
+	},
+	importRates: async () => {
+		throw new Error('importRates not implemented');
+	},
+	toHome: (transactions) => transactions,
+	convert: (amount, code) =>
+		convertToHome(amount, code ?? DEFAULT_CURRENCY_SETTINGS.home, DEFAULT_CURRENCY_SETTINGS),
+	missingRates: () => [],
+	format: (amount, code, options) =>
+		formatMoney(amount, code, DEFAULT_LOCALE_SETTINGS, options),
+});
+
+export function useCurrency(): CurrencyContextType {
+	return useContext(CurrencyContext);
+}
+
+export function CurrencyProvider({ children }: { children: ReactNode }) {
+	// Only mounted in account mode; local mode keeps the home currency with the rates
+	const profileContext = useContext(ProfileContext);
+	const { settings: localeSettings } = useContext(LocaleContext);
+	const { transactions, updateTransaction } = useContext(TransactionContext);
+	const transactionsRef = useRef(transactions);
+	transactionsRef.current = transactions;
+	const [stored, setStored] = useState<CurrencySettings>(DEFAULT_CURRENCY_SETTINGS);
+	const [hasLoaded, setHasLoaded] = useState(false);
+	const storedRef = useRef(stored);
+	// Nothing saved on this device yet, e.g. a new phone
+	const unsavedRef = useRef(false);
+
+	useEffect(() => {
+		let cancelled = false;
+		loadCurrencySettings().then((loaded) => {
+			if (cancelled) return;
+			unsavedRef.current = !loaded;
+			storedRef.current = loaded ?? DEFAULT_CURRENCY_SETTINGS;
+			setStored(storedRef.current);
+			setHasLoaded(true);
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, []);
+
+	const persist = useCallback(async (next: CurrencySettings) => {
+		storedRef.current = next;
+		setStored(next);
+		await saveCurrencySettings(next);
+	}, []);
+
+	// Set while a home change writes the old home onto unstamped transactions
+	const switchingRef = useRef(false);
+
+	const switchHome = useCallback(
+		async (next: CurrencySettings) => {
+			const previous = storedRef.current.home;
+			if (next.home !== previous) {
+				for (const tx of stampCurrency(transactionsRef.current, previous)) {
+					await updateTransaction(tx.id, { currency: tx.currency });
+				}
+			}
+			await persist(next);
+		},
+		[persist, updateTransaction]
+	);
+
+	const profilePreferences = profileContext?.profile?.preferences;
+	const updatePreferences = profileContext?.updatePreferences;
+	const profileHome = normalizeCurrencyCode(profilePreferences?.goalSettings?.defaults?.currency);
+
+	// A device with nothing saved starts from the profile's home currency, and one
+	// changed elsewhere (e.g. on web) re-expresses the table when it can. Neither
+	// touches transactions; only setHomeCurrency stamps the old home on them.
+	useEffect(() => {
+		if (!hasLoaded || switchingRef.current) return;
+		if (!profileHome || profileHome === stored.home) return;
+		let next: CurrencySettings = { home: profileHome, rates: {} };
+		if (!unsavedRef.current) {
+			try {
+				next = changeHomeCurrency(stored, profileHome);
+			} catch {
+				// No rate for the new home; the old table can't be re-expressed
+			}
+		}
+		unsavedRef.current = false;
+		persist(next).catch((err) => console.warn('[Currency] home currency change failed:', err));
+	}, [hasLoaded, stored, profileHome, persist]);
+
+	const setHomeCurrency = useCallback(
+		async (code: string) => {
+			const next = changeHomeCurrency(storedRef.current, code);
+			if (switchingRef.current) {
+				throw new Error('The home currency is still changing; try again in a moment.');
+			}
+			switchingRef.current = true;
+			try {
+				await switchHome(next);
+				if (profilePreferences && updatePreferences) {
+					await updatePreferences({
+						goalSettings: {
+							...profilePreferences.goalSettings,
+							defaults: { ...profilePreferences.goalSettings.defaults, currency: next.home },
+						},
+					});
+				}
+			} finally {
+				switchingRef.current = false;
+			}
+		},
+		[switchHome, profilePreferences, updatePreferences]
+	);
+
+	const setRate = useCallback(
+		async (code: string, rate: number) => {
+			await persist(setRateIn(storedRef.current, code, rate));
+		},
+		[persist]
+	);
+
+	const removeRate = useCallback(
+		async (code: string) => {
+			await persist(removeRateIn(storedRef.current, code));
+		},
+		[persist]
+	);
+
+	const importRates = useCallback(
+		async (text: string) => {
+			const current = storedRef.current;
+			const rates = parseRatesFile(text, current.home);
+			await persist({
+				...current,
+				rates: { ...current.rates, ...rates },
+				updatedAt: new Date().toISOString(),
+			});
+			return Object.keys(rates).length;
+		},
+		[persist]
+	);
+
+	const value = useMemo<CurrencyContextType>(
+		() => ({
+			settings: stored,
+			homeCurrency: stored.home,
+			hasLoaded,
+			currencies: listCurrencies(stored),
+			setHomeCurrency,
+			setRate,
+			removeRate,
+			importRates,
+			toHome: (transactions) => toHomeTransactions(transactions, stored),
+			convert: (amount, code) => convertToHome(amount, code ?? stored.home, stored),
+			missingRates: (transactions) => missingRates(transactions, stored),
+			format: (amount, code, options) =>
+				formatMoney(amount, code ?? stored.home, localeSettings, options),
+		}),
+		[stored, localeSettings, hasLoaded, setHomeCurrency, setRate, removeRate, importRates]
+	);
+
+	return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+}
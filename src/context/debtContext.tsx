@@ -0,0 +1,169 @@
+/**
+ * Debts, their balances after linked payments, and the payoff plan. Must sit
+ * inside the transaction and currency providers: payments are the loaded
+ * transactions linked to a debt, in the home currency.
+ */
+import React, {
+	createContext,
+	useCallback,
+	useContext,
+	useEffect,
+	useMemo,
+	useRef,
+	useState,
+	ReactNode,
+} from 'react';
+import { TransactionContext } from './transactionContext';
+import { useCurrency } from './currencyContext';
+import {
+	comparePayoffPlans,
+	createDebt as createDebtIn,
+	debtProgress,
+	minimumPayment,
+	planDebts,
+	updateDebt as updateDebtIn,
+	type Debt,
+	type DebtInput,
+	type LocalDebt,
+	type PayoffComparison,
+} from '../lib/debts';
+import {
+	DEFAULT_DEBT_PLAN,
+	loadDebtPlan,
+	loadDebts,
+	saveDebtPlan,
+	saveDebts,
+	type DebtPlanSettings,
+} from '../storage/debtStorage';
+
+export interface DebtContextType {
+	debts: LocalDebt[];
+	hasLoaded: boolean;
+	/** What is still owed across all debts. */
+	totalOwed: number;
+	/** The minimums of debts not yet paid off. */
+	minimumTotal: number;
+	plan: DebtPlanSettings;
+	/** Both strategies at the plan's monthly payment; null without open debts. */
+	comparison: PayoffComparison | null;
+	findDebt: (id: string | undefined) => LocalDebt | undefined;
+	createDebt: (input: DebtInput) => Promise<void>;
+	updateDebt: (id: string, patch: Partial<DebtInput>) => Promise<void>;
+	/** Linked payments keep their link; they simply stop counting. */
+	deleteDebt: (id: string) => Promise<void>;
+	setPlan: (patch: Partial<DebtPlanSettings>) => Promise<void>;
+}
+
+export const DebtContext = createContext<DebtContextType>({
+	debts: [],
+	hasLoaded: false,
+	totalOwed: 0,
+	minimumTotal: 0,
+	plan: DEFAULT_DEBT_PLAN,
+	comparison: null,
+	findDebt: () => undefined,
+	createDebt: async () => {
+		throw new Error('createDebt not implemented');
+	},
+	updateDebt: async () => {
+		throw new Error('updateDebt not implemented');
+	},
+	deleteDebt: async () => {
+		throw new Error('deleteDebt not implemented');
+	},
+	setPlan: async () => {
+		throw new Error('setPlan not implemented');
+	},
+});
+
+export function useDebts(): DebtContextType {
+	return useContext(DebtContext);
+}
+
+export function DebtProvider({ children }: { children: ReactNode }) {
+	const { transactions } = useContext(TransactionContext);
+	const { toHome } = useCurrency();
+	const [stored, setStored] = useState<Debt[]>([]);
+	const [plan, setPlanState] = useState<DebtPlanSettings>(DEFAULT_DEBT_PLAN);
+	const [hasLoaded, setHasLoaded] = useState(false);
+	const storedRef = useRef(stored);
+	const planRef = useRef(plan);
+
+	useEffect(() => {
+		let cancelled = false;
+		Promise.all([loadDebts(), loadDebtPlan()]).then(([loaded, loadedPlan]) => {
+			if (cancelled) return;
+			storedRef.current = loaded;
+			planRef.current = loadedPlan;
+			setStored(loaded);
+			setPlanState(loadedPlan);
+			setHasLoaded(true);
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, []);
+
+	const persist = useCallback(async (next: Debt[]) => {
+		storedRef.current = next;
+		setStored(next);
+		await saveDebts(next);
+	}, []);
+
+	const createDebt = useCallback(
+		async (input: DebtInput) => {
+			await persist(createDebtIn(storedRef.current, input));
+		},
+		[persist]
+	);
+
+	const updateDebt = useCallback(
+		async (id: string, patch: Partial<DebtInput>) => {
+			await persist(updateDebtIn(storedRef.current, id, patch));
+		},
+		[persist]
+	);
+
+	const deleteDebt = useCallback(
+		async (id: string) => {
+			await persist(storedRef.current.filter((d) => d.id !== id));
+		},
+		[persist]
+	);
+
+	const setPlan = useCallback(async (patch: Partial<DebtPlanSettings>) => {
+		const next = { ...planRef.current, ...patch };
+		planRef.current = next;
+		setPlanState(next);
+		await saveDebtPlan(next);
+	}, []);
+
+	const debts = useMemo(() => {
+		const home = toHome(transactions);
+		return stored.map((debt) => debtProgress(debt, home));
+	}, [stored, transactions, toHome]);
+
+	const comparison = useMemo(() => {
+		const open = planDebts(debts);
+		return open.length ? comparePayoffPlans(open, plan.monthlyPayment) : null;
+	}, [debts, plan.monthlyPayment]);
+
+	const value = useMemo<DebtContextType>(
+		() => ({
+			debts,
+			hasLoaded,
+			totalOwed: Math.round(debts.reduce((sum, d) => sum + d.currentBalance, 0) * 100) / 100,
+			minimumTotal: minimumPayment(planDebts(debts)),
+			plan,
+			comparison,
+			findDebt: (id) => debts.find((d) => d.id === id),
+			createDebt,
+			updateDebt,
+			deleteDebt,
+			setPlan,
+		}),
+		[debts, hasLoaded, plan, comparison, createDebt, updateDebt, deleteDebt, setPlan]
+	);
+
+	return <DebtContext.Provider value={value}>{children}</DebtContext.Provider>;
+}
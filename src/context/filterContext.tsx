@@ -9,6 +9,7 @@ export type DateFilterMode = 'day' | 'month';
 export interface TransactionTypesFilter {
 	expense: boolean;
 	income: boolean;
+	transfer: boolean;
 }
 
 export interface FilterState {
@@ -22,7 +23,11 @@ export interface FilterState {
 	setSelectedPatternId: (id: string | null) => void;
 }
 
-const defaultTransactionTypes: TransactionTypesFilter = { expense: true, income: true };
+const defaultTransactionTypes: TransactionTypesFilter = {
+	expense: true,
+	income: true,
+	transfer: true,
+};
 
 const FilterContext = createContext<FilterState | null>(null);
 
@@ -4,10 +4,23 @@ import React, {
 	useEffect,
 	useCallback,
 	useMemo,
+	useContext,
+	useRef,
 	ReactNode,
 } from 'react';
 import { ApiService } from '../services';
 import { createLogger } from '../utils/sublogger';
+import {
+	createGoal,
+	goalProgress,
+	setStartingAmount,
+	updateGoal as updateGoalIn,
+	type GoalContribution,
+	type LocalGoal,
+} from '../lib/goals';
+import { loadGoals, saveGoals } from '../storage/goalStorage';
+import { TransactionContext } from './transactionContext';
+import { useCurrency } from './currencyContext';
 
 const goalContextLog = createLogger('GoalContext');
 
@@ -76,6 +89,8 @@ interface GoalContextType {
 	updateGoal: (id: string, updates: UpdateGoalData) => Promise<Goal>;
 	deleteGoal: (id: string) => Promise<void>;
 	updateGoalCurrent: (goalId: string, amount: number) => Promise<Goal>;
+	// Transactions linked to the goal, newest first
+	getGoalContributions: (goalId: string) => GoalContribution[];
 }
 
 export const GoalContext = createContext<GoalContextType>({
@@ -93,6 +108,7 @@ export const GoalContext = createContext<GoalContextType>({
 	updateGoalCurrent: async () => {
 		throw new Error('updateGoalCurrent not implemented');
 	},
+	getGoalContributions: () => [],
 });
 
 export const GoalProvider = ({ children }: { children: ReactNode }) => {
@@ -420,6 +436,9 @@ export const GoalProvider = ({ children }: { children: ReactNode }) => {
 		}
 	}, [refetch, hasLoaded]);
 
+	// The server reports totals only
+	const getGoalContributions = useCallback((): GoalContribution[] => [], []);
+
 	// Memoize the context value to prevent unnecessary re-renders
 	const value = useMemo(
 		() => ({
@@ -431,6 +450,7 @@ export const GoalProvider = ({ children }: { children: ReactNode }) => {
 			updateGoal,
 			deleteGoal,
 			updateGoalCurrent,
+			getGoalContributions,
 		}),
 		[
 			goals,
@@ -441,12 +461,119 @@ export const GoalProvider = ({ children }: { children: ReactNode }) => {
 			updateGoal,
 			deleteGoal,
 			updateGoalCurrent,
+			getGoalContributions,
 		]
 	);
 
 	return <GoalContext.Provider value={value}>{children}</GoalContext.Provider>;
 };
 
+function findGoal(goals: Goal[], id: string): Goal {
+	const goal = goals.find((g) => g.id === id);
+	if (!goal) throw new Error('Goal not found or already deleted.');
+	return goal;
+}
+
+/**
+ * Goals kept on the device, with progress from the transactions linked to
+ * them (`src/lib/goals.ts`). Used in local mode and when signed in.
+ */
+export function LocalGoalProvider({ children }: { children: ReactNode }) {
+	const { transactions } = useContext(TransactionContext);
+	const { toHome } = useCurrency();
+	const [stored, setStored] = useState<Goal[]>([]);
+	const [hasLoaded, setHasLoaded] = useState(false);
+	const storedRef = useRef(stored);
+
+	const refetch = useCallback(async () => {
+		const loaded = await loadGoals();
+		storedRef.current = loaded;
+		setStored(loaded);
+		setHasLoaded(true);
+	}, []);
+
+	useEffect(() => {
+		refetch();
+	}, [refetch]);
+
+	const persist = useCallback(async (next: Goal[]) => {
+		storedRef.current = next;
+		setStored(next);
+		await saveGoals(next);
+	}, []);
+
+	const addGoal = useCallback(
+		async (goalData: CreateGoalData) => {
+			const goal = createGoal(goalData);
+			await persist([...storedRef.current, goal]);
+			return goal;
+		},
+		[persist]
+	);
+
+	const updateGoal = useCallback(
+		async (id: string, updates: UpdateGoalData) => {
+			const goal = updateGoalIn(findGoal(storedRef.current, id), updates);
+			await persist(storedRef.current.map((g) => (g.id === id ? goal : g)));
+			return goal;
+		},
+		[persist]
+	);
+
+	// Linked transactions keep their link; they simply stop counting
+	const deleteGoal = useCallback(
+		async (id: string) => {
+			await persist(storedRef.current.filter((g) => g.id !== id));
+		},
+		[persist]
+	);
+
+	const updateGoalCurrent = useCallback(
+		async (goalId: string, amount: number) => {
+			const goal = setStartingAmount(findGoal(storedRef.current, goalId), amount);
+			await persist(storedRef.current.map((g) => (g.id === goalId ? goal : g)));
+			return goal;
+		},
+		[persist]
+	);
+
+	const goals = useMemo<LocalGoal[]>(() => {
+		const home = toHome(transactions);
+		return stored.map((goal) => goalProgress(goal, home));
+	}, [stored, transactions, toHome]);
+
+	const getGoalContributions = useCallback(
+		(goalId: string) => goals.find((g) => g.id === goalId)?.contributions ?? [],
+		[goals]
+	);
+
+	const value = useMemo<GoalContextType>(
+		() => ({
+			goals,
+			isLoading: !hasLoaded,
+			hasLoaded,
+			refetch,
+			addGoal,
+			updateGoal,
+			deleteGoal,
+			updateGoalCurrent,
+			getGoalContributions,
+		}),
+		[
+			goals,
+			hasLoaded,
+			refetch,
+			addGoal,
+			updateGoal,
+			deleteGoal,
+			updateGoalCurrent,
+			getGoalContributions,
+		]
+	);
+
+	return <GoalContext.Provider value={value}>{children}</GoalContext.Provider>;
+}
+
 // Hook to use goal context
 export const useGoal = () => {
 	const context = React.useContext(GoalContext);
@@ -1,6 +1,8 @@
 /**
  * Local-only TransactionProvider for MVP no-login mode.
  * Data stays on device. Same API as TransactionContext for drop-in replacement.
+ * Reads and writes go through the TransactionStore (SQLite, or AsyncStorage as
+ * fallback); each write touches only the changed row.
  */
 import React, {
 	createContext,
@@ -8,6 +10,7 @@ import React, {
 	useEffect,
 	useCallback,
 	useMemo,
+	useRef,
 	ReactNode,
 } from 'react';
 import {
@@ -15,34 +18,29 @@ import {
 	type Transaction,
 	TransactionContextType,
 } from './transactionContext';
+import { generateLocalId } from '../storage/localTransactionStorage';
+import { getTransactionStore } from '../storage/transactionStore';
 import {
-	loadTransactions,
-	saveTransactions,
-	generateLocalId,
-} from '../storage/localTransactionStorage';
+	compareTransactionsNewestFirst,
+	type TransactionQuery,
+} from '../storage/transactionQuery';
 
 function sortTransactions(transactions: Transaction[]): Transaction[] {
-	return [...transactions].sort((a, b) => {
-		const dateA = new Date(a.date);
-		const dateB = new Date(b.date);
-		if (dateA.getTime() !== dateB.getTime()) {
-			return dateB.getTime() - dateA.getTime();
-		}
-		const updatedAtA = a.updatedAt ? new Date(a.updatedAt) : new Date(0);
-		const updatedAtB = b.updatedAt ? new Date(b.updatedAt) : new Date(0);
-		return updatedAtB.getTime() - updatedAtA.getTime();
-	});
+	return [...transactions].sort(compareTransactionsNewestFirst);
 }
 
 export function LocalTransactionProvider({ children }: { children: ReactNode }) {
 	const [transactions, setTransactions] = useState<Transaction[]>([]);
 	const [isLoading, setIsLoading] = useState(true);
 	const [hasLoaded, setHasLoaded] = useState(false);
+	const transactionsRef = useRef<Transaction[]>([]);
+	transactionsRef.current = transactions;
 
 	const refetch = useCallback(async () => {
 		setIsLoading(true);
 		try {
-			const loaded = await loadTransactions();
+			const store = await getTransactionStore();
+			const loaded = await store.getAll();
 			setTransactions(sortTransactions(loaded));
 			setHasLoaded(true);
 		} catch (err) {
@@ -66,11 +64,9 @@ export function LocalTransactionProvider({ children }: { children: ReactNode })
 				updatedAt: new Date().toISOString(),
 			};
 
-			setTransactions((prev) => {
-				const next = [newTx, ...prev];
-				saveTransactions(next).catch(console.warn);
-				return sortTransactions(next);
-			});
+			const store = await getTransactionStore();
+			await store.put(newTx);
+			setTransactions((prev) => sortTransactions([newTx, ...prev]));
 
 			return newTx;
 		},
@@ -79,31 +75,33 @@ export function LocalTransactionProvider({ children }: { children: ReactNode })
 
 	const updateTransaction = useCallback(
 		async (id: string, updates: Partial<Omit<Transaction, 'id'>>) => {
-			let updatedTx: Transaction | null = null;
-			setTransactions((prev) => {
-				const next = prev.map((t) => {
-					if (t.id !== id) return t;
-					updatedTx = {
-						...t,
-						...updates,
-						updatedAt: new Date().toISOString(),
-					};
-					return updatedTx;
-				});
-				saveTransactions(next).catch(console.warn);
-				return sortTransactions(next);
-			});
-			return updatedTx!;
+			const existing = transactionsRef.current.find((t) => t.id === id);
+			if (!existing) throw new Error(`Transaction not found: ${id}`);
+			const updatedTx: Transaction = {
+				...existing,
+				...updates,
+				updatedAt: new Date().toISOString(),
+			};
+
+			const store = await getTransactionStore();
+			await store.put(updatedTx);
+			setTransactions((prev) =>
+				sortTransactions(prev.map((t) => (t.id === id ? updatedTx : t)))
+			);
+			return updatedTx;
 		},
 		[]
 	);
 
 	const deleteTransaction = useCallback(async (id: string) => {
-		setTransactions((prev) => {
-			const next = prev.filter((t) => t.id !== id);
-			saveTransactions(next).catch(console.warn);
-			return next;
-		});
+		const store = await getTransactionStore();
+		await store.remove(id);
+		setTransactions((prev) => prev.filter((t) => t.id !== id));
+	}, []);
+
+	const queryTransactions = useCallback(async (query: TransactionQuery) => {
+		const store = await getTransactionStore();
+		return store.query(query);
 	}, []);
 
 	const memoizedTransactions = useMemo(
@@ -116,11 +114,13 @@ export function LocalTransactionProvider({ children }: { children: ReactNode })
 			transactions: memoizedTransactions,
 			isLoading,
 			hasLoaded,
+			pendingSyncCount: 0,
 			refetch,
 			refreshTransactions: refetch,
 			deleteTransaction,
 			addTransaction,
 			updateTransaction,
+			queryTransactions,
 		}),
 		[
 			memoizedTransactions,
@@ -130,6 +130,7 @@ export function LocalTransactionProvider({ children }: { children: ReactNode })
 			deleteTransaction,
 			addTransaction,
 			updateTransaction,
+			queryTransactions,
 		]
 	);
 
@@ -0,0 +1,102 @@
+/**
+ * Number and date format for the whole app. Screens format with the helpers
+ * here (money goes through `useCurrency().format`, which reads this context)
+ * and parse typed amounts with `parseAmount`. Mounted above auth so sign-in
+ * and onboarding screens use the same format.
+ */
+import React, {
+	createContext,
+	useCallback,
+	useContext,
+	useEffect,
+	useMemo,
+	useRef,
+	useState,
+	ReactNode,
+} from 'react';
+import {
+	DEFAULT_LOCALE_SETTINGS,
+	formatDate,
+	formatNumber,
+	mergeLocaleSettings,
+	parseAmount,
+	sanitizeAmountInput,
+	weekdayNames,
+	type DateStyle,
+	type LocaleSettings,
+	type NumberFormatOptions,
+} from '../lib/locale';
+import { loadLocaleSettings, saveLocaleSettings } from '../storage/localeStorage';
+
+export interface LocaleContextType {
+	settings: LocaleSettings;
+	hasLoaded: boolean;
+	updateSettings: (patch: Partial<LocaleSettings>) => Promise<void>;
+	formatNumber: (value: number, options?: NumberFormatOptions) => string;
+	/** Empty string for an unreadable date. */
+	formatDate: (value: Date | string, style?: DateStyle) => string;
+	parseAmount: (text: string) => number | null;
+	/** Clean an amount field as it is typed. */
+	sanitizeAmount: (text: string) => string;
+	/** Short weekday names starting at the first day of the week. */
+	weekdays: string[];
+}
+
+export const LocaleContext = createContext<LocaleContextType>({
+	settings: DEFAULT_LOCALE_SETTINGS,
+	hasLoaded: false,
+	updateSettings: async () => {
+		throw new Error('updateSettings not implemented');
+	},
+	formatNumber: (value, options) => formatNumber(value, DEFAULT_LOCALE_SETTINGS, options),
+	formatDate: (value, style) => formatDate(value, DEFAULT_LOCALE_SETTINGS, style),
+	parseAmount: (text) => parseAmount(text, DEFAULT_LOCALE_SETTINGS),
+	sanitizeAmount: (text) => sanitizeAmountInput(text, DEFAULT_LOCALE_SETTINGS),
+	weekdays: weekdayNames(DEFAULT_LOCALE_SETTINGS),
+});
+
+export function useLocale(): LocaleContextType {
+	return useContext(LocaleContext);
+}
+
+export function LocaleProvider({ children }: { children: ReactNode }) {
+	const [settings, setSettings] = useState<LocaleSettings>(DEFAULT_LOCALE_SETTINGS);
+	const [hasLoaded, setHasLoaded] = useState(false);
+	const settingsRef = useRef(settings);
+
+	useEffect(() => {
+		let cancelled = false;
+		loadLocaleSettings().then((loaded) => {
+			if (cancelled) return;
+			settingsRef.current = loaded;
+			setSettings(loaded);
+			setHasLoaded(true);
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, []);
+
+	const updateSettings = useCallback(async (patch: Partial<LocaleSettings>) => {
+		const next = mergeLocaleSettings(settingsRef.current, patch);
+		settingsRef.current = next;
+		setSettings(next);
+		await saveLocaleSettings(next);
+	}, []);
+
+	const value = useMemo<LocaleContextType>(
+		() => ({
+			settings,
+			hasLoaded,
+			updateSettings,
+			formatNumber: (n, options) => formatNumber(n, settings, options),
+			formatDate: (date, style) => formatDate(date, settings, style),
+			parseAmount: (text) => parseAmount(text, settings),
+			sanitizeAmount: (text) => sanitizeAmountInput(text, settings),
+			weekdays: weekdayNames(settings),
+		}),
+		[settings, hasLoaded, updateSettings]
+	);
+
+	return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+}
@@ -16,6 +16,11 @@ import {
 import useAuth from './AuthContext';
 import { useOnboarding } from './OnboardingContext';
 import { createLogger } from '../utils/sublogger';
+import {
+	loadLocalNotifications,
+	saveLocalNotifications,
+	MAX_LOCAL_NOTIFICATIONS,
+} from '../storage/notificationStorage';
 
 const notificationContextLog = createLogger('NotificationContext');
 
@@ -25,6 +30,11 @@ interface NotificationFilter {
 	priority?: NotificationData['priority'];
 }
 
+type LocalNotificationInput = Pick<
+	NotificationData,
+	'title' | 'message' | 'type' | 'priority' | 'data'
+>;
+
 interface NotificationContextType {
 	expoPushToken: string | null;
 	notification: Notifications.Notification | null;
@@ -56,6 +66,22 @@ interface NotificationContextType {
 		type: NotificationData['type'],
 		category?: string
 	) => Promise<boolean>;
+	// Raised on the device (works without a server); listed with the rest
+	addLocalNotification: (notification: LocalNotificationInput) => Promise<NotificationData>;
+}
+
+const LOCAL_ID_PREFIX = 'local-';
+
+const isLocalId = (id: string) => id.startsWith(LOCAL_ID_PREFIX);
+
+// Server notifications come with `timeAgo`; device ones get the same shape
+function timeAgo(createdAt: string | undefined, now: number): string | undefined {
+	if (!createdAt) return undefined;
+	const minutes = Math.floor((now - new Date(createdAt).getTime()) / 60000);
+	if (minutes < 1) return 'Just now';
+	if (minutes < 60) return `${minutes}m ago`;
+	if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+	return `${Math.floor(minutes / (24 * 60))}d ago`;
 }
 
 const NotificationContext = createContext<NotificationContextType | undefined>(
@@ -72,6 +98,45 @@ export const useNotification = () => {
 	return context;
 };
 
+/** Device notifications, persisted so they stay in the list across launches. */
+function useLocalNotifications() {
+	const [localNotifications, setLocalNotifications] = useState<NotificationData[]>([]);
+	const localNotificationsRef = useRef(localNotifications);
+
+	const persistLocal = useCallback(async (next: NotificationData[]) => {
+		localNotificationsRef.current = next;
+		setLocalNotifications(next);
+		await saveLocalNotifications(next);
+	}, []);
+
+	const addLocalNotification = useCallback(
+		async (notification: LocalNotificationInput) => {
+			const entry: NotificationData = {
+				...notification,
+				id: `${LOCAL_ID_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+				read: false,
+				createdAt: new Date().toISOString(),
+			};
+			await persistLocal(
+				[entry, ...localNotificationsRef.current].slice(0, MAX_LOCAL_NOTIFICATIONS)
+			);
+			return entry;
+		},
+		[persistLocal]
+	);
+
+	useEffect(() => {
+		loadLocalNotifications().then((loaded) => {
+			// Keep anything added while loading
+			const next = [...localNotificationsRef.current, ...loaded];
+			localNotificationsRef.current = next;
+			setLocalNotifications(next);
+		});
+	}, []);
+
+	return { localNotifications, localNotificationsRef, persistLocal, addLocalNotification };
+}
+
 interface NotificationProviderProps {
 	children: ReactNode;
 }
@@ -79,6 +144,9 @@ interface NotificationProviderProps {
 export const NotificationProvider: React.FC<NotificationProviderProps> = ({
 	children,
 }) => {
+	const { localNotifications, localNotificationsRef, persistLocal, addLocalNotification } =
+		useLocalNotifications();
+
 	// Safety check for children prop - don't inspect it, just render it
 	if (!children) {
 		notificationContextLog.error(
@@ -335,6 +403,14 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({
 
 	const markAsRead = useCallback(
 		async (notificationId: string) => {
+			if (isLocalId(notificationId)) {
+				await persistLocal(
+					localNotificationsRef.current.map((n) =>
+						n.id === notificationId ? { ...n, read: true } : n
+					)
+				);
+				return;
+			}
 			try {
 				await notificationService.markAsRead(notificationId);
 				setNotifications((prev) =>
@@ -349,10 +425,11 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({
 				);
 			}
 		},
-		[refreshUnreadCount]
+		[refreshUnreadCount, persistLocal, localNotificationsRef]
 	);
 
 	const markAllAsRead = useCallback(async () => {
+		await persistLocal(localNotificationsRef.current.map((n) => ({ ...n, read: true })));
 		try {
 			await notificationService.markAllAsRead();
 			setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
@@ -364,10 +441,16 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({
 					: new Error('Failed to mark all notifications as read')
 			);
 		}
-	}, []);
+	}, [persistLocal, localNotificationsRef]);
 
 	const deleteNotification = useCallback(
 		async (notificationId: string) => {
+			if (isLocalId(notificationId)) {
+				await persistLocal(
+					localNotificationsRef.current.filter((n) => n.id !== notificationId)
+				);
+				return;
+			}
 			try {
 				await notificationService.deleteNotification(notificationId);
 				setNotifications((prev) => prev.filter((n) => n.id !== notificationId));
@@ -380,10 +463,11 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({
 				);
 			}
 		},
-		[refreshUnreadCount]
+		[refreshUnreadCount, persistLocal, localNotificationsRef]
 	);
 
 	const deleteAllNotifications = useCallback(async () => {
+		await persistLocal([]);
 		try {
 			await notificationService.deleteAllNotifications();
 			setNotifications([]);
@@ -395,7 +479,7 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({
 					: new Error('Failed to delete all notifications')
 				);
 		}
-	}, []);
+	}, [persistLocal]);
 
 	const sendTestNotification = useCallback(async () => {
 		try {
@@ -504,14 +588,23 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({
 		}
 	}, [expoPushToken, getNotifications, refreshUnreadCount]);
 
+	// Newest first across device and server
+	const now = Date.now();
+	const allNotifications = [
+		...localNotifications.map((n) => ({ ...n, timeAgo: timeAgo(n.createdAt, now) })),
+		...notifications,
+	].sort((a, b) => (b.createdAt ?? '').localeCompare(a.createdAt ?? ''));
+
+	const localUnread = localNotifications.filter((n) => !n.read).length;
+
 	return (
 		<NotificationContext.Provider
 			value={{
 				expoPushToken,
 				notification,
 				error,
-				notifications,
-				unreadCount,
+				notifications: allNotifications,
+				unreadCount: unreadCount + localUnread,
 				loading,
 				hasMore,
 				currentPage,
@@ -532,6 +625,7 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({
 				getConsentSettings,
 				updateConsentSettings,
 				isNotificationAllowed,
+				addLocalNotification,
 			}}
 		>
 			{children}
@@ -217,7 +217,7 @@ interface ProfileContextType {
 	syncProfile: () => Promise<void>;
 }
 
-const ProfileContext = createContext<ProfileContextType | undefined>(undefined);
+export const ProfileContext = createContext<ProfileContextType | undefined>(undefined);
 
 export const useProfile = () => {
 	const context = useContext(ProfileContext);
@@ -8,20 +8,49 @@ import React, {
 	ReactNode,
 } from 'react';
 import { ApiService, BillService } from '../services';
+import type { ApiResponse } from '../services/core/apiService';
 import { setCacheInvalidationFlags } from '../services/utility/cacheInvalidationUtils';
 import { createLogger } from '../utils/sublogger';
+import { useConnectivity } from '../utils/connectivity';
+import useAuth from './AuthContext';
+import { generateLocalId } from '../storage/localTransactionStorage';
+import {
+	applyOutbox,
+	enqueueOutboxOperation,
+	generateOutboxOpId,
+	isLocalTransactionId,
+	isRetryableWriteError,
+	loadOutbox,
+	remapOutboxIds,
+	replayOutbox,
+	saveOutbox,
+	type OutboxOperation,
+	type OutboxSender,
+} from '../storage/transactionOutbox';
+import {
+	filterTransactions,
+	type TransactionQuery,
+} from '../storage/transactionQuery';
 
 const transactionContextLog = createLogger('TransactionContext');
 
+/** One line of a split transaction; see `src/lib/transaction-splits.ts`. */
+export interface TransactionSplit {
+	amount: number; // Positive share of the transaction's absolute amount
+	category?: string;
+	note?: string;
+}
+
 // Transaction interface defined inline since we removed the mock data file
 export interface Transaction {
 	id: string;
 	description?: string;
 	amount: number;
+	currency?: string; // ISO 4217 code of `amount`; unset means the home currency (src/lib/currency.ts)
 	date: string; // ISO string
-	type: 'income' | 'expense';
-	target?: string; // ObjectId of the target Budget or Goal
-	targetModel?: 'Budget' | 'Goal';
+	type: 'income' | 'expense' | 'transfer'; // Transfers move |amount| between accounts
+	target?: string; // Id of the target Budget, Goal or Debt
+	targetModel?: 'Budget' | 'Goal' | 'Debt';
 	updatedAt?: string; // ISO string for sorting by time when dates are the same
 	recurringPattern?: {
 		patternId: string;
@@ -37,13 +66,18 @@ export interface Transaction {
 		paymentMethod?: string;
 		originalDescription?: string;
 		category?: string; // MVP: fixed category for cash spending (Food, Rides, etc.)
+		importId?: string; // Source-provided id (e.g. OFX FITID) so re-imports can skip it
+		account?: string; // Account id (src/lib/accounts.ts); unset means the default account
+		toAccount?: string; // Transfers only: the receiving account id
 	};
+	splits?: TransactionSplit[]; // Lines add up to |amount|; empty or missing means not split
 }
 
-interface TransactionContextType {
+export interface TransactionContextType {
 	transactions: Transaction[];
 	isLoading: boolean;
 	hasLoaded: boolean; // Track if data has been loaded at least once
+	pendingSyncCount: number; // Offline writes waiting to reach the server
 	refetch: () => Promise<void>;
 	refreshTransactions: () => void; // Add this new function
 	deleteTransaction: (id: string) => Promise<void>;
@@ -54,12 +88,15 @@ interface TransactionContextType {
 		id: string,
 		transactionData: Partial<Omit<Transaction, 'id'>>
 	) => Promise<Transaction>;
+	// Filtered, newest-first slice (date range, category, text) without scanning in screens
+	queryTransactions: (query: TransactionQuery) => Promise<Transaction[]>;
 }
 
 export const TransactionContext = createContext<TransactionContextType>({
 	transactions: [],
 	isLoading: false,
 	hasLoaded: false,
+	pendingSyncCount: 0,
 	refetch: async () => {},
 	refreshTransactions: () => {}, // Add this new function
 	deleteTransaction: async () => {},
@@ -69,13 +106,98 @@ export const TransactionContext = createContext<TransactionContextType>({
 	updateTransaction: async () => {
 		throw new Error('updateTransaction not implemented');
 	},
+	queryTransactions: async () => [],
 });
 
+/** Error carrying the HTTP status so the outbox can drop rejected writes and retry the rest. */
+function rejectedWrite(response: ApiResponse<unknown>, fallback: string): Error {
+	return Object.assign(new Error(response.error || fallback), {
+		status: response.status,
+	});
+}
+
+const outboxSender: OutboxSender = {
+	create: async (payload) => {
+		const response = await ApiService.post<any>('/api/transactions', payload);
+		const serverId = response.data?._id ?? response.data?.id;
+		if (!response.success || !serverId) {
+			throw rejectedWrite(response, 'Failed to create transaction');
+		}
+		return serverId;
+	},
+	update: async (id, payload) => {
+		const response = await ApiService.put<any>(
+			`/api/transactions/${id}`,
+			payload
+		);
+		if (!response.success) {
+			throw rejectedWrite(response, 'Failed to update transaction');
+		}
+	},
+	delete: async (id) => {
+		const response = await ApiService.delete(`/api/transactions/${id}`);
+		if (!response.success) {
+			throw rejectedWrite(response, 'Failed to delete transaction');
+		}
+	},
+};
+
 export const TransactionProvider = ({ children }: { children: ReactNode }) => {
 	const [transactions, setTransactions] = useState<Transaction[]>([]);
 	const [isLoading, setIsLoading] = useState<boolean>(false); // Changed from true to false
 	const [hasLoaded, setHasLoaded] = useState<boolean>(false); // Track if data has been loaded
 
+	// Offline outbox: writes made without a connection, replayed when we're back online
+	const { firebaseUser } = useAuth();
+	const outboxOwner = firebaseUser?.uid ?? null;
+	const { isOnline } = useConnectivity();
+	const isOnlineRef = useRef(isOnline);
+	const outboxRef = useRef<OutboxOperation[]>([]);
+	// Number of leading outbox entries currently being replayed (not safe to fold into)
+	const inFlightCountRef = useRef(0);
+	const [outboxLoaded, setOutboxLoaded] = useState(false);
+	const [pendingSyncCount, setPendingSyncCount] = useState(0);
+
+	useEffect(() => {
+		isOnlineRef.current = isOnline;
+	}, [isOnline]);
+
+	const persistOutbox = useCallback(
+		(next: OutboxOperation[]) => {
+			outboxRef.current = next;
+			setPendingSyncCount(next.length);
+			if (outboxOwner) {
+				saveOutbox(outboxOwner, next).catch(() => undefined);
+			}
+		},
+		[outboxOwner]
+	);
+
+	const queueOperation = useCallback(
+		(op: OutboxOperation) => {
+			const inFlight = outboxRef.current.slice(0, inFlightCountRef.current);
+			const waiting = outboxRef.current.slice(inFlightCountRef.current);
+			persistOutbox([...inFlight, ...enqueueOutboxOperation(waiting, op)]);
+		},
+		[persistOutbox]
+	);
+
+	useEffect(() => {
+		if (!outboxOwner) return;
+		let cancelled = false;
+		setOutboxLoaded(false);
+		loadOutbox(outboxOwner).then((ops) => {
+			if (cancelled) return;
+			outboxRef.current = ops;
+			setPendingSyncCount(ops.length);
+			setTransactions((prev) => applyOutbox(prev, ops));
+			setOutboxLoaded(true);
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, [outboxOwner]);
+
 	// MVP: Budget/Goal/Bill refetch removed - wallet out of scope
 	const refetch = useCallback(async () => {
 		setIsLoading(true);
@@ -149,12 +271,16 @@ export const TransactionProvider = ({ children }: { children: ReactNode }) => {
 						notes: tx.notes,
 						source: tx.source,
 						vendor: tx.vendor,
+						currency: tx.currency,
+						splits: tx.splits,
 						metadata: tx.metadata
 							? {
 									location: tx.metadata.location,
 									paymentMethod: tx.metadata.paymentMethod,
 									originalDescription: tx.metadata.originalDescription,
 									category: tx.metadata.category,
+									account: tx.metadata.account,
+									toAccount: tx.metadata.toAccount,
 							  }
 							: undefined,
 					};
@@ -162,7 +288,8 @@ export const TransactionProvider = ({ children }: { children: ReactNode }) => {
 					return transaction;
 				});
 
-				setTransactions(formatted);
+				// Keep offline writes visible until they have been replayed
+				setTransactions(applyOutbox(formatted, outboxRef.current));
 				setHasLoaded(true); // Mark as loaded
 			} else {
 				// Empty response: only clear if this is first load
@@ -215,8 +342,41 @@ export const TransactionProvider = ({ children }: { children: ReactNode }) => {
 		[transactions, sortTransactions]
 	);
 
+	/** Keep a create on device (with a `local-…` id) until the outbox can send it. */
+	const queueCreate = useCallback(
+		(transactionData: Omit<Transaction, 'id'>, replaceId?: string) => {
+			const localId = generateLocalId();
+			const queuedAt = new Date().toISOString();
+			const queued: Transaction = {
+				id: localId,
+				...transactionData,
+				target: transactionData.target || undefined,
+				targetModel: transactionData.targetModel || undefined,
+				updatedAt: queuedAt,
+			};
+			setTransactions((prev) =>
+				replaceId
+					? prev.map((t) => (t.id === replaceId ? queued : t))
+					: [queued, ...prev]
+			);
+			queueOperation({
+				opId: generateOutboxOpId(),
+				kind: 'create',
+				transactionId: localId,
+				payload: transactionData,
+				queuedAt,
+			});
+			return queued;
+		},
+		[queueOperation]
+	);
+
 	const addTransaction = useCallback(
 		async (transactionData: Omit<Transaction, 'id'>) => {
+			if (!isOnlineRef.current) {
+				return queueCreate(transactionData);
+			}
+
 			// Create a temporary ID for optimistic update
 			const tempId = `temp-${Date.now()}-${Math.random()}`;
 			const newTransaction: Transaction = {
@@ -311,6 +471,8 @@ export const TransactionProvider = ({ children }: { children: ReactNode }) => {
 						notes: response.data.notes,
 						source: response.data.source,
 						vendor: response.data.vendor,
+						currency: response.data.currency ?? transactionData.currency,
+						splits: response.data.splits ?? transactionData.splits,
 						metadata:
 							response.data.metadata || transactionData.metadata
 								? {
@@ -322,6 +484,12 @@ export const TransactionProvider = ({ children }: { children: ReactNode }) => {
 										category:
 											response.data.metadata?.category ??
 											transactionData.metadata?.category,
+										account:
+											response.data.metadata?.account ??
+											transactionData.metadata?.account,
+										toAccount:
+											response.data.metadata?.toAccount ??
+											transactionData.metadata?.toAccount,
 								  }
 								: undefined,
 					};
@@ -339,9 +507,13 @@ export const TransactionProvider = ({ children }: { children: ReactNode }) => {
 
 					return serverTransaction;
 				} else {
-					throw new Error('Failed to create transaction');
+					throw rejectedWrite(response, 'Failed to create transaction');
 				}
 			} catch (error) {
+				if (isRetryableWriteError(error)) {
+					transactionContextLog.info('Create queued for later sync', error);
+					return queueCreate(transactionData, tempId);
+				}
 				// Remove the optimistic transaction on error
 				setTransactions((prev) => {
 					const updated = prev.filter((t) => t.id !== tempId);
@@ -350,7 +522,7 @@ export const TransactionProvider = ({ children }: { children: ReactNode }) => {
 				throw error;
 			}
 		},
-		[]
+		[queueCreate]
 	);
 
 	const deleteTransaction = useCallback(
@@ -363,8 +535,24 @@ export const TransactionProvider = ({ children }: { children: ReactNode }) => {
 			// Optimistically update UI
 			setTransactions((prev) => prev.filter((t) => t.id !== id));
 
+			const queueDelete = () =>
+				queueOperation({
+					opId: generateOutboxOpId(),
+					kind: 'delete',
+					transactionId: id,
+					queuedAt: new Date().toISOString(),
+				});
+
+			if (!isOnlineRef.current || isLocalTransactionId(id)) {
+				queueDelete();
+				return;
+			}
+
 			try {
-				await ApiService.delete(`/api/transactions/${id}`);
+				const response = await ApiService.delete(`/api/transactions/${id}`);
+				if (!response.success) {
+					throw rejectedWrite(response, 'Failed to delete transaction');
+				}
 
 				// Clear bill payment cache if transaction was linked to a bill
 				if (transactionToDelete?.recurringPattern?.patternId) {
@@ -376,12 +564,17 @@ export const TransactionProvider = ({ children }: { children: ReactNode }) => {
 				// Invalidate relevant cache entries
 				setCacheInvalidationFlags.onNewTransaction();
 			} catch (err) {
+				if (isRetryableWriteError(err)) {
+					transactionContextLog.info('Delete queued for later sync', err);
+					queueDelete();
+					return;
+				}
 				transactionContextLog.warn('Delete failed, refetching', err);
 				// Rollback or just refetch
 				await refetch();
 			}
 		},
-		[refetch]
+		[refetch, queueOperation]
 	);
 
 	// Use a ref to access current transactions without causing re-renders
@@ -399,6 +592,31 @@ export const TransactionProvider = ({ children }: { children: ReactNode }) => {
 				(t) => t.id === id
 			);
 
+			const queueUpdate = (): Transaction => {
+				const queuedAt = new Date().toISOString();
+				queueOperation({
+					opId: generateOutboxOpId(),
+					kind: 'update',
+					transactionId: id,
+					payload: transactionData,
+					queuedAt,
+				});
+				const queued = {
+					...originalTransaction!,
+					...transactionData,
+					updatedAt: queuedAt,
+				};
+				setTransactions((prev) => prev.map((t) => (t.id === id ? queued : t)));
+				return queued;
+			};
+
+			if (
+				originalTransaction &&
+				(!isOnlineRef.current || isLocalTransactionId(id))
+			) {
+				return queueUpdate();
+			}
+
 			// Optimistically update UI
 			setTransactions((prev) =>
 				prev.map((t) =>
@@ -548,6 +766,14 @@ export const TransactionProvider = ({ children }: { children: ReactNode }) => {
 						notes: response.data.notes ?? transactionData.notes,
 						source: response.data.source ?? transactionData.source,
 						vendor: response.data.vendor ?? transactionData.vendor,
+						currency:
+							transactionData.currency ??
+							response.data.currency ??
+							originalTransaction?.currency,
+						splits:
+							transactionData.splits ??
+							response.data.splits ??
+							originalTransaction?.splits,
 						metadata: mergedMetadata,
 					};
 
@@ -572,9 +798,14 @@ export const TransactionProvider = ({ children }: { children: ReactNode }) => {
 
 					return updatedTransaction;
 				} else {
-					throw new Error('Failed to update transaction');
+					throw rejectedWrite(response, 'Failed to update transaction');
 				}
 			} catch (error) {
+				if (originalTransaction && isRetryableWriteError(error)) {
+					transactionContextLog.info('Update queued for later sync', error);
+					return queueUpdate();
+				}
+
 				transactionContextLog.error('Error in updateTransaction', error);
 
 				// Rollback to original transaction state on error
@@ -590,9 +821,59 @@ export const TransactionProvider = ({ children }: { children: ReactNode }) => {
 				throw error;
 			}
 		},
-		[refetch]
+		[refetch, queueOperation]
 	);
 
+	const flushingRef = useRef(false);
+
+	// Replay queued writes in order; local ids are swapped for server ids as creates land
+	const flushOutbox = useCallback(async () => {
+		if (flushingRef.current || !outboxOwner) return;
+		const batch = outboxRef.current;
+		if (batch.length === 0) return;
+
+		flushingRef.current = true;
+		inFlightCountRef.current = batch.length;
+		try {
+			transactionContextLog.info('Replaying offline changes', {
+				count: batch.length,
+			});
+			const { remaining, idMap, dropped } = await replayOutbox(
+				batch,
+				outboxSender
+			);
+			const queuedMeanwhile = remapOutboxIds(
+				outboxRef.current.slice(batch.length),
+				idMap
+			);
+			inFlightCountRef.current = 0;
+			persistOutbox([...remaining, ...queuedMeanwhile]);
+
+			setTransactions((prev) =>
+				prev.map((t) => (idMap[t.id] ? { ...t, id: idMap[t.id] } : t))
+			);
+
+			if (dropped.length > 0) {
+				transactionContextLog.warn('Server rejected offline changes', {
+					count: dropped.length,
+				});
+			}
+			if (remaining.length < batch.length) {
+				setCacheInvalidationFlags.onNewTransaction();
+				await refetch();
+			}
+		} finally {
+			inFlightCountRef.current = 0;
+			flushingRef.current = false;
+		}
+	}, [outboxOwner, persistOutbox, refetch]);
+
+	useEffect(() => {
+		if (isOnline && outboxLoaded && pendingSyncCount > 0) {
+			void flushOutbox();
+		}
+	}, [isOnline, outboxLoaded, pendingSyncCount, flushOutbox]);
+
 	const refreshTransactions = useCallback(() => {
 		refetch();
 	}, [refetch]);
@@ -603,26 +884,37 @@ export const TransactionProvider = ({ children }: { children: ReactNode }) => {
 		}
 	}, [refetch, hasLoaded]);
 
+	// Signed-in data is already in memory; filter it with the same semantics as the local store
+	const queryTransactions = useCallback(
+		async (query: TransactionQuery) =>
+			filterTransactions(memoizedTransactions, query),
+		[memoizedTransactions]
+	);
+
 	const value = useMemo(
 		() => ({
 			transactions: memoizedTransactions,
 			isLoading,
 			hasLoaded,
+			pendingSyncCount,
 			refetch,
 			refreshTransactions,
 			deleteTransaction,
 			addTransaction,
 			updateTransaction,
+			queryTransactions,
 		}),
 		[
 			memoizedTransactions,
 			isLoading,
 			hasLoaded,
+			pendingSyncCount,
 			refetch,
 			refreshTransactions,
 			deleteTransaction,
 			addTransaction,
 			updateTransaction,
+			queryTransactions,
 		]
 	);
 
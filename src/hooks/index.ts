@@ -1,2 +1,3 @@
 export { useAppInit } from './useAppInit';
 export { useDevModeEasterEgg } from './useDevModeEasterEgg';
+export { useTransactionQuery } from './useTransactionQuery';
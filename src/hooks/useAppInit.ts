@@ -1,18 +1,37 @@
 // useAppInit.ts
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { InteractionManager } from 'react-native';
 import * as Updates from 'expo-updates';
 import { featureFlags } from '../services/feature/featureFlags';
 import { crashReporting } from '../services/feature/crashReporting';
-import { runCacheMigrations } from '../services/security/cacheMigration';
+import {
+	runCacheMigrations,
+	runStorageSchemaMigrations,
+} from '../services/security/cacheMigration';
 import { createLogger } from '../utils/sublogger';
 import { isLogLevelEnabled } from '../utils/logger';
 import { isDevMode } from '../config/environment';
 
 const appInitLog = createLogger('AppInit');
 
-export function useAppInit() {
+/**
+ * App start-up work. Storage schema migrations run immediately and
+ * `storageReady` stays false until they finish, so callers can hold off
+ * mounting providers that read local data; everything else is deferred.
+ */
+export function useAppInit(): { storageReady: boolean } {
 	const didInit = useRef(false);
+	const [storageReady, setStorageReady] = useState(false);
+
+	useEffect(() => {
+		let cancelled = false;
+		runStorageSchemaMigrations().finally(() => {
+			if (!cancelled) setStorageReady(true);
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, []);
 
 	useEffect(() => {
 		if (didInit.current) return;
@@ -145,4 +164,6 @@ export function useAppInit() {
 			initializeTelemetry();
 		});
 	}, []);
+
+	return { storageReady };
 }
@@ -6,24 +6,29 @@ import { useEffect, useRef } from 'react';
 import {
 	migrateLocalTransactionsToBackend,
 	hasLocalTransactionsToMigrate,
+	type LocalMigrationResult,
 } from '../storage/migrateLocalTransactions';
 import { createLogger } from '../utils/sublogger';
 
 const migrationLog = createLogger('useMigrateLocalTransactions');
 
 export type UseMigrateLocalTransactionsOptions = {
-	onMigrated?: (migratedCount: number) => void;
+	/** Called after any run that touched at least one row, including partial ones. */
+	onMigrated?: (result: LocalMigrationResult) => void;
 };
 
 export function useMigrateLocalTransactions(
-	isAuthenticated: boolean,
+	ownerId: string | null | undefined,
 	options?: UseMigrateLocalTransactionsOptions
 ) {
 	const { onMigrated } = options ?? {};
 	const didRun = useRef(false);
+	// Read through a ref so a new callback identity doesn't cancel a run in flight
+	const onMigratedRef = useRef(onMigrated);
+	onMigratedRef.current = onMigrated;
 
 	useEffect(() => {
-		if (!isAuthenticated || didRun.current) return;
+		if (!ownerId || didRun.current) return;
 
 		let cancelled = false;
 		didRun.current = true;
@@ -34,18 +39,21 @@ export function useMigrateLocalTransactions(
 				if (!hasLocal || cancelled) return;
 
 				migrationLog.info('Migrating local transactions to backend...');
-				const result = await migrateLocalTransactionsToBackend();
+				const result = await migrateLocalTransactionsToBackend(ownerId);
 
 				if (cancelled) return;
-				if (result.success && result.migratedCount > 0) {
+				if (result.success) {
 					migrationLog.info(
 						`Migrated ${result.migratedCount} local transaction(s) to cloud.`
 					);
-					onMigrated?.(result.migratedCount);
-				} else if (!result.success && result.error) {
-					migrationLog.warn('Migration failed (will retry next session):', result.error);
+				} else {
+					migrationLog.warn(
+						'Migration incomplete (will resume next session):',
+						result.error
+					);
 					didRun.current = false; // allow retry
 				}
+				if (result.results.length > 0) onMigratedRef.current?.(result);
 			} catch (e) {
 				if (!cancelled) {
 					migrationLog.warn('Migration error:', e);
@@ -57,5 +65,5 @@ export function useMigrateLocalTransactions(
 		return () => {
 			cancelled = true;
 		};
-	}, [isAuthenticated, onMigrated]);
+	}, [ownerId]);
 }
@@ -0,0 +1,42 @@
+/**
+ * Run a TransactionQuery against the active provider and keep the result in
+ * sync: it re-runs when the query changes or the transaction list does.
+ */
+import { useContext, useEffect, useState } from 'react';
+import {
+	TransactionContext,
+	type Transaction,
+} from '../context/transactionContext';
+import type { TransactionQuery } from '../storage/transactionQuery';
+import { createLogger } from '../utils/sublogger';
+
+const queryLog = createLogger('useTransactionQuery');
+
+export function useTransactionQuery(query: TransactionQuery): {
+	results: Transaction[];
+	isQuerying: boolean;
+} {
+	const { transactions, queryTransactions } = useContext(TransactionContext);
+	const [results, setResults] = useState<Transaction[]>([]);
+	const [isQuerying, setIsQuerying] = useState(true);
+	// Callers usually build the query inline; compare by value
+	const queryKey = JSON.stringify(query);
+
+	useEffect(() => {
+		let cancelled = false;
+		setIsQuerying(true);
+		queryTransactions(JSON.parse(queryKey))
+			.then((rows) => {
+				if (!cancelled) setResults(rows);
+			})
+			.catch((err) => queryLog.warn('Query failed:', err))
+			.finally(() => {
+				if (!cancelled) setIsQuerying(false);
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [queryKey, queryTransactions, transactions]);
+
+	return { results, isQuerying };
+}
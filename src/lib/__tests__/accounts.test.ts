@@ -0,0 +1,105 @@
+/**
+ * Accounts: balances, transfers, validation, and transfers staying out of
+ * income and spending.
+ */
+import type { Transaction } from '../../context/transactionContext';
+import {
+	accountBalances,
+	buildTransfer,
+	createAccount,
+	defaultAccountId,
+	findAccountByName,
+	setAccountArchived,
+	totalBalance,
+	updateAccount,
+	type Account,
+} from '../accounts';
+import {
+	transactionToExportable,
+	transactionsToOfx,
+	transactionsToQif,
+} from '../transactions-export';
+import { summarizeWeekTransactions } from '../week-analytics';
+
+const accounts: Account[] = [
+	{ id: 'cash', name: 'Cash', kind: 'cash', openingBalance: 20 },
+	{ id: 'chk', name: 'Checking', kind: 'checking', openingBalance: 1000 },
+	{ id: 'visa', name: 'Visa', kind: 'card', openingBalance: -250.1 },
+];
+
+const tx = (partial: Partial<Transaction> & Pick<Transaction, 'id' | 'amount' | 'type'>): Transaction => ({
+	date: '2026-03-18',
+	...partial,
+});
+
+const transactions: Transaction[] = [
+	tx({ id: '1', amount: 12.5, type: 'income' }),
+	tx({ id: '2', amount: -40.2, type: 'expense', metadata: { account: 'visa' } }),
+	tx({ id: '3', amount: 2000, type: 'income', metadata: { account: 'chk' } }),
+	tx({
+		id: '4',
+		...buildTransfer({ fromId: 'chk', toId: 'visa', amount: 290.3, date: '2026-03-18' }),
+	}),
+];
+
+describe('accountBalances', () => {
+	it('adds opening balances, income and expenses per account', () => {
+		const balances = accountBalances(accounts, transactions);
+		expect(balances).toEqual({ cash: 32.5, chk: 2709.7, visa: 0 });
+		expect(totalBalance(balances)).toBe(2742.2);
+	});
+
+	it('counts entries without an account under the first active one', () => {
+		const archived = setAccountArchived(accounts, 'cash', true);
+		expect(defaultAccountId(archived)).toBe('chk');
+		expect(accountBalances(archived, transactions.slice(0, 1)).chk).toBe(1012.5);
+	});
+});
+
+describe('transfers', () => {
+	it('validates the accounts and amount', () => {
+		expect(() =>
+			buildTransfer({ fromId: 'chk', toId: 'chk', amount: 10, date: '2026-03-18' }),
+		).toThrow(/two different accounts/);
+		expect(() =>
+			buildTransfer({ fromId: 'chk', toId: 'visa', amount: 0, date: '2026-03-18' }),
+		).toThrow(/greater than 0/);
+	});
+
+	it('is neither income nor spending', () => {
+		const summary = summarizeWeekTransactions(transactions.slice(1), {
+			period: { kind: 'rolling', days: 1 },
+			now: new Date(2026, 2, 18, 12),
+		});
+		expect(summary.totals).toMatchObject({ in: 2000, out: 40.2 });
+	});
+
+	it('exports as a transfer between named accounts', () => {
+		const names = (id: string | undefined) => accounts.find((a) => a.id === (id ?? 'cash'))?.name;
+		const rows = transactions.map((t) => transactionToExportable(t, { accountName: names }));
+		expect(rows[0].metadata?.account).toBe('Cash');
+		expect(rows[3].metadata).toMatchObject({ account: 'Checking', toAccount: 'Visa' });
+
+		const qif = transactionsToQif(rows.slice(3)).split('\r\n');
+		expect(qif).toContain('T-290.3');
+		expect(qif).toContain('L[Visa]');
+		expect(transactionsToOfx(rows.slice(3))).toContain('<TRNTYPE>XFER');
+	});
+});
+
+describe('account edits', () => {
+	it('rejects duplicate names and finds accounts by name', () => {
+		expect(() => createAccount(accounts, { name: ' visa ', kind: 'card' })).toThrow(
+			/already exists/,
+		);
+		expect(() => updateAccount(accounts, 'cash', { name: '' })).toThrow(/required/);
+		expect(findAccountByName(accounts, 'CHECKING')?.id).toBe('chk');
+		const added = createAccount(accounts, { name: 'Savings', kind: 'savings' }, 'sav');
+		expect(added[3]).toEqual({ id: 'sav', name: 'Savings', kind: 'savings', openingBalance: 0 });
+	});
+
+	it('keeps at least one active account', () => {
+		const one = setAccountArchived(setAccountArchived(accounts, 'cash', true), 'chk', true);
+		expect(() => setAccountArchived(one, 'visa', true)).toThrow(/at least one/);
+	});
+});
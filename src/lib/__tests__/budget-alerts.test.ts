@@ -0,0 +1,77 @@
+import type { Budget } from '../../context/budgetContext';
+import type { Transaction } from '../../context/transactionContext';
+import { budgetProgress, type LocalBudget } from '../budgets';
+import {
+	budgetAlertLevel,
+	budgetAlertMessage,
+	dueBudgetAlerts,
+	pruneSentAlerts,
+} from '../budget-alerts';
+
+const now = new Date(2026, 2, 18, 12);
+
+const groceries: Budget = {
+	id: 'b1',
+	name: 'Groceries',
+	amount: 400,
+	period: 'monthly',
+	categories: ['Food'],
+	createdAt: '2026-03-01T10:00:00.000Z',
+};
+
+const spending = (amount: number, budget: Budget = groceries): LocalBudget => {
+	const transactions: Transaction[] = amount
+		? [{ id: 't1', date: '2026-03-10', amount: -amount, type: 'expense', metadata: { category: 'Food' } }]
+		: [];
+	return budgetProgress(budget, transactions, { now });
+};
+
+describe('budgetAlertLevel', () => {
+	it('reaches the threshold, the limit and overspent in turn', () => {
+		expect(budgetAlertLevel(spending(300))).toBeNull();
+		expect(budgetAlertLevel(spending(320))).toBe('threshold');
+		expect(budgetAlertLevel(spending(300), 75)).toBe('threshold');
+		expect(budgetAlertLevel(spending(400))).toBe('limit');
+		expect(budgetAlertLevel(spending(400.01))).toBe('over');
+		// A 100% threshold is the limit alert
+		expect(budgetAlertLevel(spending(399), 100)).toBeNull();
+	});
+});
+
+describe('dueBudgetAlerts', () => {
+	it('sends each level once per period and skips the ones passed over', () => {
+		const first = dueBudgetAlerts([spending(350)], []);
+		expect(first).toEqual([
+			expect.objectContaining({ budgetId: 'b1', level: 'threshold', key: 'b1:2026-03-01:threshold' }),
+		]);
+		const sent = first.flatMap((a) => a.sentKeys);
+		expect(dueBudgetAlerts([spending(390)], sent)).toEqual([]);
+
+		const over = dueBudgetAlerts([spending(450)], sent);
+		expect(over.map((a) => a.level)).toEqual(['over']);
+		expect(over[0].sentKeys).toEqual([
+			'b1:2026-03-01:threshold',
+			'b1:2026-03-01:limit',
+			'b1:2026-03-01:over',
+		]);
+	});
+
+	it('starts again next period and forgets deleted budgets', () => {
+		const sent = ['b1:2026-02-01:over', 'b1:2026-03-01:threshold', 'b9:2026-03-01:limit'];
+		expect(pruneSentAlerts(sent, [spending(0)])).toEqual(['b1:2026-03-01:threshold']);
+	});
+});
+
+describe('budgetAlertMessage', () => {
+	const format = { currency: (n: number) => `$${n.toFixed(2)}`, date: (ymd: string) => ymd };
+
+	it('says what is left or over for the period', () => {
+		expect(budgetAlertMessage({ level: 'threshold' }, spending(340), format, 80)).toEqual({
+			title: 'Groceries: 80% used',
+			body: '$60.00 left until 2026-03-31.',
+		});
+		expect(budgetAlertMessage({ level: 'over' }, spending(425), format).body).toBe(
+			'$25.00 over for the period ending 2026-03-31.'
+		);
+	});
+});
@@ -0,0 +1,271 @@
+import type { Budget } from '../../context/budgetContext';
+import type { Transaction } from '../../context/transactionContext';
+import {
+	budgetHistory,
+	budgetPeriod,
+	budgetProgress,
+	createBudget,
+	rewriteBudgetCategories,
+	spentInRange,
+	updateBudget,
+} from '../budgets';
+import { DEFAULT_CATEGORIES, mergeCategories, updateCategory } from '../categories';
+
+let seq = 0;
+const tx = (
+	date: string,
+	amount: number,
+	category?: string,
+	extra: Partial<Transaction> = {}
+): Transaction => ({
+	id: `t${++seq}`,
+	date,
+	amount,
+	type: amount < 0 ? 'expense' : 'income',
+	metadata: category ? { category } : undefined,
+	...extra,
+});
+
+// Wednesday
+const now = new Date(2026, 2, 18, 12);
+
+const groceries: Budget = {
+	id: 'b1',
+	name: 'Groceries',
+	amount: 400,
+	period: 'monthly',
+	categories: ['Food'],
+	createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('budgetPeriod', () => {
+	it('starts weeks on the chosen day', () => {
+		expect(budgetPeriod({ period: 'weekly', weekStartDay: 1 }, now)).toEqual({
+			start: '2026-03-16',
+			end: '2026-03-22',
+		});
+		expect(budgetPeriod({ period: 'weekly' }, now, -1)).toEqual({
+			start: '2026-03-08',
+			end: '2026-03-14',
+		});
+	});
+
+	it('runs months from the start day to the day before it', () => {
+		expect(budgetPeriod({ period: 'monthly' }, now)).toEqual({
+			start: '2026-03-01',
+			end: '2026-03-31',
+		});
+		// The 18th is before the 25th, so the period began in February
+		expect(budgetPeriod({ period: 'monthly', monthStartDay: 25 }, now)).toEqual({
+			start: '2026-02-25',
+			end: '2026-03-24',
+		});
+		expect(budgetPeriod({ period: 'monthly', monthStartDay: 25 }, now, 1).start).toBe(
+			'2026-03-25'
+		);
+		expect(budgetPeriod({ period: 'monthly', monthStartDay: 5 }, new Date(2026, 0, 3), -1)).toEqual({
+			start: '2025-11-05',
+			end: '2025-12-04',
+		});
+	});
+
+	it('counts fortnights from the week the budget was created', () => {
+		const biweekly = {
+			period: 'biweekly' as const,
+			weekStartDay: 1 as const,
+			createdAt: '2026-03-04T09:00:00.000Z',
+		};
+		// Created in the week of Mar 2, so Mar 16 starts the second fortnight
+		expect(budgetPeriod(biweekly, now)).toEqual({ start: '2026-03-16', end: '2026-03-29' });
+		expect(budgetPeriod(biweekly, now, -1)).toEqual({ start: '2026-03-02', end: '2026-03-15' });
+		expect(budgetPeriod({ ...biweekly, createdAt: '2026-03-10T09:00:00.000Z' }, now)).toEqual({
+			start: '2026-03-09',
+			end: '2026-03-22',
+		});
+	});
+});
+
+describe('spentInRange', () => {
+	const range = { start: '2026-03-01', end: '2026-03-31' };
+	const rollup = (category: string) => (category === 'Coffee' ? 'Food' : category);
+
+	it('counts matching expenses, split lines and subcategories', () => {
+		const transactions = [
+			tx('2026-03-02', -50, 'Food'),
+			tx('2026-03-03', -4.5, 'Coffee'),
+			tx('2026-03-04', -30, 'Rides'),
+			tx('2026-03-05', -100, undefined, {
+				splits: [
+					{ amount: 70, category: 'Food' },
+					{ amount: 30, category: 'Home' },
+				],
+			}),
+			tx('2026-02-28', -20, 'Food'),
+			tx('2026-03-06', 25, 'Food'),
+			tx('2026-03-07', -15, undefined, { target: 'b1', targetModel: 'Budget' }),
+		];
+		expect(spentInRange(groceries, transactions, range, rollup)).toBe(139.5);
+		expect(spentInRange(groceries, transactions, range)).toBe(135);
+	});
+
+	it('matches the budget name when no categories are picked', () => {
+		const rides = { id: 'b2', name: 'rides', categories: [] };
+		expect(spentInRange(rides, [tx('2026-03-04', -30, 'Rides')], range)).toBe(30);
+	});
+});
+
+describe('rewriteBudgetCategories', () => {
+	const range = { start: '2026-03-01', end: '2026-03-31' };
+
+	it('follows a renamed category, by category or by the budget name', () => {
+		const { rewrites } = updateCategory(DEFAULT_CATEGORIES, 'expense-food', { name: 'Eating' });
+		const rides = { ...groceries, id: 'b2', name: 'Rides', categories: [] };
+		const named = { ...groceries, id: 'b3', name: 'food', categories: [] };
+		const changed = rewriteBudgetCategories([groceries, rides, named], rewrites);
+		expect(changed.map((b) => [b.id, b.name, b.categories])).toEqual([
+			['b1', 'Groceries', ['Eating']],
+			['b3', 'food', ['Eating']],
+		]);
+		expect(spentInRange(changed[0], [tx('2026-03-02', -50, 'Eating')], range)).toBe(50);
+	});
+
+	it('keeps a merged category once', () => {
+		const { rewrites } = mergeCategories(DEFAULT_CATEGORIES, 'expense-drinks', 'expense-food');
+		const both = { ...groceries, categories: ['Food', 'Drinks'] };
+		expect(rewriteBudgetCategories([both], rewrites)[0].categories).toEqual(['Food']);
+		expect(rewriteBudgetCategories([groceries], rewrites)).toEqual([]);
+	});
+});
+
+describe('budgetProgress', () => {
+	it('reports spending, what is left and the alert flag', () => {
+		const progress = budgetProgress(
+			groceries,
+			[tx('2026-03-02', -250, 'Food'), tx('2026-03-10', -90, 'Food')],
+			{ now }
+		);
+		expect(progress).toMatchObject({
+			spent: 340,
+			spentPercentage: 85,
+			shouldAlert: true,
+			carriedOver: 0,
+			available: 400,
+			remaining: 60,
+			range: { start: '2026-03-01', end: '2026-03-31' },
+		});
+	});
+
+	it('carries what was left last period, and an overspend', () => {
+		const rollover = { ...groceries, rollover: true, createdAt: '2026-02-01T10:00:00.000Z' };
+		expect(
+			budgetProgress(rollover, [tx('2026-02-10', -300, 'Food'), tx('2026-03-02', -50, 'Food')], {
+				now,
+			})
+		).toMatchObject({ carriedOver: 100, available: 500, remaining: 450 });
+		expect(budgetProgress(rollover, [tx('2026-02-10', -450, 'Food')], { now })).toMatchObject({
+			carriedOver: -50,
+			available: 350,
+			remaining: 350,
+		});
+		// Created this month: nothing to carry from February
+		expect(
+			budgetProgress({ ...rollover, createdAt: '2026-03-05T10:00:00.000Z' }, [], { now })
+				.carriedOver
+		).toBe(0);
+	});
+
+	it('reports the whole envelope when overspent', () => {
+		const rollover = { ...groceries, rollover: true, createdAt: '2026-02-01T10:00:00.000Z' };
+		const progress = budgetProgress(
+			rollover,
+			[tx('2026-02-10', -900, 'Food'), tx('2026-03-02', -10, 'Food')],
+			{ now }
+		);
+		expect(progress).toMatchObject({ available: -100, remaining: -110, spentPercentage: 100 });
+	});
+});
+
+describe('budgetHistory', () => {
+	const transactions = [
+		tx('2026-01-15', -350, 'Food'),
+		tx('2026-02-10', -500, 'Food'),
+		tx('2026-03-02', -100, 'Food'),
+	];
+
+	it('chains each period\'s carry into the next', () => {
+		const history = budgetHistory({ ...groceries, rollover: true }, transactions, { now });
+		expect(history).toEqual([
+			{
+				range: { start: '2026-01-01', end: '2026-01-31' },
+				allocated: 400,
+				carriedIn: 0,
+				spent: 350,
+				carriedOut: 50,
+				current: false,
+			},
+			{
+				range: { start: '2026-02-01', end: '2026-02-28' },
+				allocated: 400,
+				carriedIn: 50,
+				spent: 500,
+				carriedOut: -50,
+				current: false,
+			},
+			{
+				range: { start: '2026-03-01', end: '2026-03-31' },
+				allocated: 400,
+				carriedIn: -50,
+				spent: 100,
+				carriedOut: 250,
+				current: true,
+			},
+		]);
+	});
+
+	it('carries nothing without rollover, unless the profile default turns it on', () => {
+		const history = budgetHistory(groceries, transactions, { now });
+		expect(history.map((p) => [p.spent, p.carriedIn, p.carriedOut])).toEqual([
+			[350, 0, 0],
+			[500, 0, 0],
+			[100, 0, 0],
+		]);
+		expect(budgetHistory(groceries, transactions, { now, carryOver: true })[2].carriedIn).toBe(-50);
+		expect(
+			budgetHistory({ ...groceries, rollover: false }, transactions, { now, carryOver: true })[2]
+				.carriedIn
+		).toBe(0);
+	});
+
+	it('follows pay-day months and shows the last 12 periods without a creation date', () => {
+		const payday = { ...groceries, monthStartDay: 25 as const, createdAt: '2026-01-30T10:00:00.000Z' };
+		expect(budgetHistory(payday, transactions, { now }).map((p) => p.range)).toEqual([
+			{ start: '2026-01-25', end: '2026-02-24' },
+			{ start: '2026-02-25', end: '2026-03-24' },
+		]);
+		const undated = budgetHistory({ ...groceries, createdAt: undefined }, transactions, { now });
+		expect(undated).toHaveLength(12);
+		expect(undated[0].range.start).toBe('2025-04-01');
+	});
+});
+
+describe('createBudget / updateBudget', () => {
+	it('validates and keeps only what defines the budget', () => {
+		expect(() => createBudget({ name: ' ', amount: 10, period: 'weekly' })).toThrow(/name/);
+		expect(() => createBudget({ name: 'Food', amount: 0, period: 'weekly' })).toThrow(
+			/greater than 0/
+		);
+
+		const budget = createBudget({ name: ' Food ', amount: -250, period: 'monthly' }, now, 'b9');
+		expect(budget).toMatchObject({
+			id: 'b9',
+			name: 'Food',
+			amount: 250,
+			categories: [],
+		});
+
+		const updated = updateBudget({ ...budget, spent: 99 }, { amount: 300, monthStartDay: 25 }, now);
+		expect(updated).toMatchObject({ amount: 300, monthStartDay: 25 });
+		expect(updated.spent).toBeUndefined();
+		expect(() => updateBudget(budget, { monthStartDay: 31 as 28 })).toThrow(/1 to 28/);
+	});
+});
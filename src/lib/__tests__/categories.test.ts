@@ -0,0 +1,109 @@
+/**
+ * Categories: validation, rename/merge rewrites, archive and rollups.
+ */
+import type { Transaction } from '../../context/transactionContext';
+import {
+	DEFAULT_CATEGORIES,
+	categoryRollup,
+	createCategory,
+	findCategoryByName,
+	mergeCategories,
+	orderedCategories,
+	rewriteTransactionCategories,
+	setCategoryArchived,
+	updateCategory,
+} from '../categories';
+import { summarizeRange } from '../week-analytics';
+
+const tx = (id: string, category: string, type: Transaction['type'] = 'expense'): Transaction => ({
+	id,
+	amount: type === 'expense' ? -10 : 10,
+	date: '2026-03-18',
+	type,
+	metadata: { category },
+});
+
+const withCoffee = () =>
+	createCategory(
+		DEFAULT_CATEGORIES,
+		{ name: 'Coffee', kind: 'expense', parentId: 'expense-food' },
+		'coffee'
+	);
+
+describe('createCategory', () => {
+	it('nests one level and rejects duplicate names per kind', () => {
+		const categories = withCoffee();
+		expect(orderedCategories(categories, 'expense').map((c) => c.name).slice(0, 5)).toEqual([
+			'Bills & utilities',
+			'Drinks',
+			'Entertainment',
+			'Food',
+			'Coffee',
+		]);
+		expect(() => createCategory(categories, { name: 'food', kind: 'expense' })).toThrow(
+			'already exists'
+		);
+		expect(() =>
+			createCategory(categories, { name: 'Espresso', kind: 'expense', parentId: 'coffee' })
+		).toThrow('cannot have their own subcategories');
+		// Same name is fine for the other kind
+		expect(() => createCategory(categories, { name: 'Coffee', kind: 'income' })).not.toThrow();
+	});
+});
+
+describe('rename and merge', () => {
+	it('rewrites only matching transactions of the same kind', () => {
+		const { rewrites } = updateCategory(DEFAULT_CATEGORIES, 'expense-other', { name: 'Misc' });
+		const changed = rewriteTransactionCategories(
+			[tx('a', 'Other'), tx('b', 'other'), tx('c', 'Other', 'income'), tx('d', 'Food')],
+			rewrites
+		);
+		expect(changed.map((t) => [t.id, t.metadata?.category])).toEqual([
+			['a', 'Misc'],
+			['b', 'Misc'],
+		]);
+	});
+
+	it('chains a rename and a merge to the final name', () => {
+		const renamed = updateCategory(DEFAULT_CATEGORIES, 'expense-drinks', { name: 'Bars' });
+		const merged = mergeCategories(renamed.categories, 'expense-drinks', 'expense-food');
+		const changed = rewriteTransactionCategories(
+			[tx('a', 'Drinks')],
+			[...renamed.rewrites, ...merged.rewrites]
+		);
+		expect(changed[0].metadata?.category).toBe('Food');
+		expect(findCategoryByName(merged.categories, 'Bars')).toBeUndefined();
+	});
+
+	it('moves subcategories under the merge target', () => {
+		const categories = withCoffee();
+		const { categories: merged } = mergeCategories(categories, 'expense-food', 'expense-groceries');
+		expect(merged.find((c) => c.id === 'coffee')?.parentId).toBe('expense-groceries');
+	});
+});
+
+describe('findCategoryByName', () => {
+	it('matches capture tags loosely and prefers active categories', () => {
+		expect(findCategoryByName(DEFAULT_CATEGORIES, 'Bills utilities', 'expense')?.id).toBe(
+			'expense-bills-utilities'
+		);
+		const archived = setCategoryArchived(DEFAULT_CATEGORIES, 'expense-food', true);
+		expect(findCategoryByName(archived, 'Food')?.archived).toBe(true);
+		expect(orderedCategories(archived, 'expense').some((c) => c.name === 'Food')).toBe(false);
+	});
+});
+
+describe('categoryRollup', () => {
+	it('rolls subcategories into their parent in breakdowns', () => {
+		const rollup = categoryRollup(withCoffee());
+		const summary = summarizeRange(
+			[tx('a', 'Coffee'), tx('b', 'Food'), tx('c', 'Groceries')],
+			{ start: '2026-03-01', end: '2026-03-31' },
+			rollup
+		);
+		expect(summary.categories).toEqual([
+			{ category: 'Food', amount: 20, pct: 67 },
+			{ category: 'Groceries', amount: 10, pct: 33 },
+		]);
+	});
+});
@@ -0,0 +1,150 @@
+/**
+ * Auto-categorization: rule matching, learned history and retroactive apply.
+ */
+import type { Transaction } from '../../context/transactionContext';
+import {
+	applyRulesToTransactions,
+	categorizeDraft,
+	createRule,
+	learnCategoryHistory,
+	normalizeDescription,
+	rewriteRuleCategories,
+	validateRule,
+} from '../categorization-rules';
+import { DEFAULT_CATEGORIES, mergeCategories, updateCategory } from '../categories';
+
+const tx = (
+	id: string,
+	description: string,
+	category: string | undefined,
+	date = '2026-03-18',
+	amount = -10
+): Transaction => ({
+	id,
+	description,
+	amount,
+	date,
+	type: amount < 0 ? 'expense' : 'income',
+	metadata: category ? { category } : undefined,
+});
+
+const coffeeRule = createRule(
+	{ match: 'contains', pattern: 'blue bottle', category: 'Drinks', vendor: 'Blue Bottle' },
+	'r1'
+);
+
+describe('normalizeDescription', () => {
+	it('drops processor prefixes, store numbers and punctuation', () => {
+		expect(normalizeDescription('SQ *Blue Bottle #1234')).toBe('blue bottle');
+		expect(normalizeDescription('  blue   bottle ')).toBe('blue bottle');
+	});
+});
+
+describe('validateRule', () => {
+	it('rejects empty patterns, bad regexes, inverted ranges and rules that set nothing', () => {
+		expect(() => validateRule({ match: 'contains', pattern: ' ', category: 'Food' })).toThrow(
+			'Enter text to match.'
+		);
+		expect(() => validateRule({ match: 'regex', pattern: '(', category: 'Food' })).toThrow(
+			/regular expression/
+		);
+		expect(() =>
+			validateRule({ match: 'contains', pattern: 'x', minAmount: 20, maxAmount: 5, category: 'Food' })
+		).toThrow(/minimum/);
+		expect(() => validateRule({ match: 'contains', pattern: 'x' })).toThrow(/Choose/);
+	});
+});
+
+describe('categorizeDraft', () => {
+	it('uses the first matching rule, honouring type and amount range', () => {
+		const small = createRule(
+			{ match: 'regex', pattern: '^uber', maxAmount: 30, category: 'Transportation' },
+			'small'
+		);
+		const large = createRule(
+			{ match: 'regex', pattern: '^uber', minAmount: 30, category: 'Food', type: 'expense' },
+			'large'
+		);
+		const rules = [small, large];
+		expect(categorizeDraft({ description: 'Uber trip', amount: 12, type: 'expense' }, rules)).toEqual({
+			category: 'Transportation',
+			vendor: undefined,
+			description: undefined,
+			ruleId: 'small',
+		});
+		expect(
+			categorizeDraft({ description: 'uber eats', amount: 45, type: 'expense' }, rules)?.ruleId
+		).toBe('large');
+		expect(categorizeDraft({ description: 'uber refund', amount: 45, type: 'income' }, rules)).toBeNull();
+	});
+
+	it('skips disabled rules and falls back to learned history', () => {
+		const history = learnCategoryHistory([tx('a', 'Blue Bottle #12', 'Food')]);
+		const disabled = { ...coffeeRule, enabled: false };
+		expect(
+			categorizeDraft({ description: 'blue bottle', amount: 5, type: 'expense' }, [disabled], history)
+		).toEqual({ category: 'Food', vendor: undefined });
+	});
+});
+
+describe('learnCategoryHistory', () => {
+	it('keeps the most used category per description, ties going to the latest', () => {
+		const history = learnCategoryHistory([
+			tx('a', 'Corner Store', 'Groceries', '2026-03-01'),
+			tx('b', 'corner store', 'Groceries', '2026-03-02'),
+			tx('c', 'CORNER STORE', 'Household', '2026-03-10'),
+			tx('d', 'Bakery', 'Food', '2026-03-01'),
+			tx('e', 'Bakery', 'Groceries', '2026-03-05'),
+			tx('f', 'Bakery', undefined, '2026-03-06'),
+		]);
+		expect(history['expense:corner store']).toEqual({ category: 'Groceries', count: 2, vendor: undefined });
+		expect(history['expense:bakery'].category).toBe('Groceries');
+	});
+});
+
+describe('applyRulesToTransactions', () => {
+	it('overwrites matching transactions and keeps the original description', () => {
+		const rename = createRule(
+			{ match: 'contains', pattern: 'amzn', description: 'Amazon', category: 'Shopping' },
+			'r2'
+		);
+		const changed = applyRulesToTransactions(
+			[
+				tx('a', 'AMZN Mktp US*2K4', 'Other'),
+				tx('b', 'Blue Bottle', 'Drinks'),
+				tx('c', 'Rent', 'Household'),
+			],
+			[rename, coffeeRule]
+		);
+		expect(changed).toHaveLength(2);
+		expect(changed[0]).toMatchObject({
+			id: 'a',
+			description: 'Amazon',
+			metadata: { category: 'Shopping', originalDescription: 'AMZN Mktp US*2K4' },
+		});
+		expect(changed[1]).toMatchObject({ id: 'b', vendor: 'Blue Bottle' });
+	});
+
+	it('returns nothing when rules are already applied', () => {
+		const done = { ...tx('b', 'Blue Bottle', 'Drinks'), vendor: 'Blue Bottle' };
+		expect(applyRulesToTransactions([done], [coffeeRule])).toEqual([]);
+	});
+});
+
+describe('rewriteRuleCategories', () => {
+	it('follows renames and merges of the kind the rule sets', () => {
+		const renamed = updateCategory(DEFAULT_CATEGORIES, 'expense-drinks', { name: 'Bars' });
+		const merged = mergeCategories(renamed.categories, 'expense-drinks', 'expense-food');
+		const incomeOnly = createRule(
+			{ match: 'contains', pattern: 'refund', type: 'income', category: 'Drinks' },
+			'r3'
+		);
+		const changed = rewriteRuleCategories(
+			[coffeeRule, incomeOnly],
+			[...renamed.rewrites, ...merged.rewrites]
+		);
+		expect(changed).toEqual([{ ...coffeeRule, category: 'Food' }]);
+		const [applied] = applyRulesToTransactions([tx('a', 'Blue Bottle', 'Drinks')], changed);
+		expect(applied.metadata?.category).toBe('Food');
+	});
+});
@@ -0,0 +1,152 @@
+/**
+ * Multi-currency: conversion to the home currency, rate table edits and
+ * imports, capture-line currencies, and exports carrying both amounts.
+ */
+import type { Transaction } from '../../context/transactionContext';
+import {
+	changeHomeCurrency,
+	convertToHome,
+	missingRates,
+	parseRatesFile,
+	setRate,
+	stampCurrency,
+	toHomeTransactions,
+	type CurrencySettings,
+} from '../currency';
+import { parseCaptureLine } from '../parse-capture-line';
+import {
+	DEFAULT_EXPORT_OPTIONS,
+	transactionToExportable,
+	transactionsToCsv,
+	transactionsToOfx,
+	transactionsToQif,
+} from '../transactions-export';
+
+const settings: CurrencySettings = {
+	home: 'USD',
+	rates: { EUR: 1.1, JPY: 0.0067 },
+};
+
+const transactions: Transaction[] = [
+	{ id: '1', amount: -4.5, type: 'expense', date: '2026-03-18' },
+	{ id: '2', amount: -20, type: 'expense', date: '2026-03-18', currency: 'EUR' },
+	{
+		id: '3',
+		amount: -1500,
+		type: 'expense',
+		date: '2026-03-18',
+		currency: 'JPY',
+		splits: [
+			{ category: 'Food', amount: 1000 },
+			{ category: 'Transport', amount: 500 },
+		],
+	},
+	{ id: '4', amount: -7, type: 'expense', date: '2026-03-18', currency: 'GBP' },
+];
+
+describe('conversion', () => {
+	it('converts amounts and split lines to the home currency', () => {
+		expect(convertToHome(20, 'EUR', settings)).toBe(22);
+		expect(convertToHome(20, 'GBP', settings)).toBeNull();
+
+		const home = toHomeTransactions(transactions, settings);
+		expect(home[0]).toBe(transactions[0]);
+		expect(home[1]).toMatchObject({ amount: -22, currency: 'USD' });
+		expect(home[2].amount).toBe(-10.05);
+		expect(home[2].splits?.map((s) => s.amount)).toEqual([6.7, 3.35]);
+		expect(home[3]).toBe(transactions[3]);
+		expect(missingRates(transactions, settings)).toEqual(['GBP']);
+	});
+
+	it('re-expresses rates when the home currency changes', () => {
+		const euro = changeHomeCurrency(settings, 'eur');
+		expect(euro.home).toBe('EUR');
+		expect(euro.rates.USD).toBeCloseTo(1 / 1.1);
+		expect(euro.rates.JPY).toBeCloseTo(0.0067 / 1.1);
+		expect(euro.rates.EUR).toBeUndefined();
+		expect(() => changeHomeCurrency(settings, 'GBP')).toThrow(/Add a rate for GBP/);
+	});
+
+	it('keeps unstamped amounts in the old home currency after switching', () => {
+		const stamped = stampCurrency(transactions, settings.home);
+		expect(stamped).toEqual([{ ...transactions[0], currency: 'USD' }]);
+
+		const euro = changeHomeCurrency(settings, 'EUR');
+		const saved = transactions.map((tx) => stamped.find((s) => s.id === tx.id) ?? tx);
+		const home = toHomeTransactions(saved, euro);
+		expect(home[0]).toMatchObject({ amount: -4.09, currency: 'EUR' });
+		expect(home[1]).toBe(saved[1]);
+		expect(stampCurrency(saved, euro.home)).toEqual([]);
+	});
+
+	it('rejects unusable rates', () => {
+		expect(() => setRate(settings, 'EURO', 1)).toThrow(/three-letter/);
+		expect(() => setRate(settings, 'USD', 1)).toThrow(/home currency/);
+		expect(() => setRate(settings, 'GBP', 0)).toThrow(/greater than 0/);
+		expect(setRate(settings, 'gbp', 1.27).rates.GBP).toBe(1.27);
+	});
+});
+
+describe('parseRatesFile', () => {
+	it('reads CSV lines', () => {
+		expect(parseRatesFile('\uFEFFcode,rate\nEUR,1.08\njpy;0,0067\nUSD,1\n', 'USD')).toEqual({
+			EUR: 1.08,
+			JPY: 0.0067,
+		});
+	});
+
+	it('reads a JSON table in home units', () => {
+		expect(parseRatesFile('{"EUR": 1.08, "GBP": "1.27"}', 'USD')).toEqual({
+			EUR: 1.08,
+			GBP: 1.27,
+		});
+	});
+
+	it('reads a rate service response quoted against another base', () => {
+		const rates = parseRatesFile('{"base": "EUR", "rates": {"USD": 1.1, "JPY": 165}}', 'USD');
+		expect(rates.EUR).toBe(1.1);
+		expect(rates.JPY).toBeCloseTo(1.1 / 165);
+		expect(() => parseRatesFile('{"base": "EUR", "rates": {"JPY": 165}}', 'USD')).toThrow(
+			/no USD rate/,
+		);
+		expect(() => parseRatesFile('hello', 'USD')).toThrow(/No exchange rates/);
+	});
+});
+
+describe('capture currencies', () => {
+	it('reads symbols and code words', () => {
+		expect(parseCaptureLine('crepe €12')).toMatchObject({ amount: -12, currency: 'EUR' });
+		expect(parseCaptureLine('ramen 1500 jpy')).toMatchObject({
+			description: 'ramen',
+			amount: -1500,
+			currency: 'JPY',
+		});
+		expect(parseCaptureLine('coffee $4')?.currency).toBeUndefined();
+	});
+});
+
+describe('exports', () => {
+	const rows = transactions
+		.slice(0, 3)
+		.map((tx) => transactionToExportable(tx, { currency: settings }));
+
+	it('keeps the original amount beside the home amount in CSV', () => {
+		const csv = transactionsToCsv(rows.slice(0, 2), {
+			...DEFAULT_EXPORT_OPTIONS,
+			columns: ['amount', 'currency', 'homeAmount'],
+		});
+		const lines = csv.replace(/^\uFEFF/, '').split('\r\n');
+		expect(lines).toContain('-4.5,USD,-4.5');
+		expect(lines).toContain('-20,EUR,-22');
+	});
+
+	it('writes home amounts to QIF and OFX', () => {
+		const qif = transactionsToQif(rows.slice(1, 2)).split('\r\n');
+		expect(qif).toContain('T-22');
+		expect(qif.some((line) => line.startsWith('M') && line.includes('€20.00'))).toBe(true);
+
+		const ofx = transactionsToOfx(rows, { currency: 'USD' });
+		expect(ofx).toContain('<CURDEF>USD');
+		expect(ofx).toContain('<TRNAMT>-10.05');
+	});
+});
@@ -0,0 +1,142 @@
+import type { Transaction } from '../../context/transactionContext';
+import {
+	comparePayoffPlans,
+	createDebt,
+	debtProgress,
+	nextDueDate,
+	payoffOrder,
+	payoffPlan,
+	updateDebt,
+	type Debt,
+	type PlanDebt,
+} from '../debts';
+
+let seq = 0;
+const tx = (date: string, amount: number, extra: Partial<Transaction> = {}): Transaction => ({
+	id: `t${++seq}`,
+	date,
+	amount,
+	type: amount < 0 ? 'expense' : 'income',
+	...extra,
+});
+
+const toCard = { target: 'd1', targetModel: 'Debt' as const };
+
+// Wednesday
+const now = new Date(2026, 2, 18, 12);
+
+const card: Debt = {
+	id: 'd1',
+	name: 'Card',
+	balance: 1000,
+	balanceDate: '2026-03-01',
+	apr: 24,
+	minPayment: 50,
+	dueDay: 31,
+	createdAt: '2026-03-01T10:00:00.000Z',
+	updatedAt: '2026-03-01T10:00:00.000Z',
+};
+
+describe('debtProgress', () => {
+	it('takes linked payments since the balance was set off it', () => {
+		const transactions = [
+			tx('2026-02-20', -300, toCard),
+			tx('2026-03-01', -100, toCard),
+			tx('2026-03-10T09:30:00.000Z', 150, { ...toCard, type: 'transfer' }),
+			tx('2026-03-11', -40, { target: 'd1', targetModel: 'Goal' }),
+		];
+		const debt = debtProgress(card, transactions, now);
+		expect(debt).toMatchObject({
+			paid: 250,
+			currentBalance: 750,
+			isPaidOff: false,
+			nextDueDate: '2026-03-31',
+		});
+		expect(debt.payments.map((p) => p.date)).toEqual(['2026-03-10', '2026-03-01']);
+		expect(debtProgress(card, [tx('2026-03-05', -1200, toCard)], now)).toMatchObject({
+			currentBalance: 0,
+			isPaidOff: true,
+		});
+	});
+});
+
+describe('nextDueDate', () => {
+	it('uses the last day of short months and moves on once the day has passed', () => {
+		expect(nextDueDate(18, now)).toBe('2026-03-18');
+		expect(nextDueDate(17, now)).toBe('2026-04-17');
+		expect(nextDueDate(31, new Date(2026, 1, 10))).toBe('2026-02-28');
+	});
+});
+
+const debts: PlanDebt[] = [
+	{ id: 'card', balance: 2000, apr: 24, minPayment: 60 },
+	{ id: 'loan', balance: 500, apr: 6, minPayment: 25 },
+];
+
+describe('payoffOrder', () => {
+	it('puts the highest rate first for avalanche, the smallest balance for snowball', () => {
+		expect(payoffOrder(debts, 'avalanche')).toEqual(['card', 'loan']);
+		expect(payoffOrder(debts, 'snowball')).toEqual(['loan', 'card']);
+	});
+});
+
+describe('payoffPlan', () => {
+	it('amortizes month by month, rolling extra into the first debt in order', () => {
+		const plan = payoffPlan(debts, 'avalanche', 300, now);
+		expect(plan.months[0]).toEqual({
+			month: '2026-04',
+			interest: { card: 40, loan: 2.5 },
+			payments: { card: 275, loan: 25 },
+			balances: { card: 1765, loan: 477.5 },
+		});
+		expect(plan.payoffMonths.card! < plan.payoffMonths.loan!).toBe(true);
+		expect(plan.debtFreeMonth).toBe(plan.payoffMonths.loan);
+		expect(plan.totalPaid).toBeCloseTo(2500 + plan.totalInterest, 2);
+		// The last payment only clears what is left
+		const last = plan.months[plan.months.length - 1];
+		expect(Object.values(last.balances)).toEqual([0]);
+	});
+
+	it('never pays less than the minimums, and stops when interest outpaces them', () => {
+		expect(payoffPlan(debts, 'snowball', 10, now).monthlyPayment).toBe(85);
+		const card = { id: 'card', balance: 5000, apr: 30, minPayment: 100 };
+		const stuck = payoffPlan([card], 'avalanche', 0, now);
+		expect(stuck).toMatchObject({ debtFreeMonth: null, payoffMonths: { card: null } });
+		expect(stuck.months).toHaveLength(1);
+	});
+});
+
+describe('comparePayoffPlans', () => {
+	it('shows the interest avalanche saves, and paying only the minimums', () => {
+		const comparison = comparePayoffPlans(debts, 300, now);
+		expect(comparison.avalanche.totalInterest).toBeLessThan(comparison.snowball.totalInterest);
+		expect(comparison.avalancheSaves).toBe(
+			Math.round(
+				(comparison.snowball.totalInterest - comparison.avalanche.totalInterest) * 100
+			) / 100
+		);
+		expect(comparison.minimumsOnly.monthlyPayment).toBe(85);
+		expect(comparison.minimumsOnly.totalInterest).toBeGreaterThan(
+			comparison.snowball.totalInterest
+		);
+	});
+});
+
+describe('createDebt / updateDebt', () => {
+	it('validates, and a new balance counts from today', () => {
+		const input = { name: ' Card ', balance: 1000, apr: 24, minPayment: 50, dueDay: 15 };
+		expect(() => createDebt([], { ...input, name: '' })).toThrow(/name/);
+		expect(() => createDebt([], { ...input, apr: 120 })).toThrow(/interest rate/);
+		expect(() => createDebt([], { ...input, minPayment: 0 })).toThrow(/minimum/);
+		expect(() => createDebt([], { ...input, dueDay: 32 })).toThrow(/due day/);
+
+		const [debt] = createDebt([], input, new Date(2026, 0, 5), 'd9');
+		expect(debt).toMatchObject({ id: 'd9', name: 'Card', balanceDate: '2026-01-05' });
+
+		const [renamed] = updateDebt([debt], 'd9', { name: 'Visa', balance: 1000 }, now);
+		expect(renamed).toMatchObject({ name: 'Visa', balanceDate: '2026-01-05' });
+		const [rebalanced] = updateDebt([debt], 'd9', { balance: 800 }, now);
+		expect(rebalanced).toMatchObject({ balance: 800, balanceDate: '2026-03-18' });
+		expect(() => updateDebt([debt], 'nope', {}, now)).toThrow(/not found/);
+	});
+});
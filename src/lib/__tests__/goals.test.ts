@@ -0,0 +1,132 @@
+import type { Goal } from '../../context/goalContext';
+import type { Transaction } from '../../context/transactionContext';
+import {
+	createGoal,
+	goalContributions,
+	goalProgress,
+	projectCompletion,
+	setStartingAmount,
+	updateGoal,
+} from '../goals';
+
+let seq = 0;
+const tx = (date: string, amount: number, extra: Partial<Transaction> = {}): Transaction => ({
+	id: `t${++seq}`,
+	date,
+	amount,
+	type: amount < 0 ? 'expense' : 'income',
+	...extra,
+});
+
+const toGoal = { target: 'g1', targetModel: 'Goal' as const };
+
+// Wednesday
+const now = new Date(2026, 2, 18, 12);
+
+const trip: Goal = {
+	id: 'g1',
+	name: 'Trip',
+	target: 1000,
+	current: 100,
+	deadline: '2026-06-30',
+	icon: 'airplane-outline',
+	color: '#4F46E5',
+	categories: [],
+	createdAt: '2026-02-01T10:00:00.000Z',
+};
+
+const transactions = [
+	tx('2026-02-10', -200, toGoal),
+	tx('2026-03-01T09:30:00.000Z', 100, { ...toGoal, type: 'transfer' }),
+	tx('2026-03-02', -40, { target: 'g1', targetModel: 'Budget' }),
+	tx('2026-03-03', -60, { target: 'g2', targetModel: 'Goal' }),
+];
+
+describe('goalContributions', () => {
+	it('lists transactions linked to the goal, newest first', () => {
+		expect(goalContributions(trip, transactions)).toEqual([
+			{ transactionId: expect.any(String), date: '2026-03-01', amount: 100, description: undefined },
+			{ transactionId: expect.any(String), date: '2026-02-10', amount: 200, description: undefined },
+		]);
+	});
+});
+
+describe('goalProgress', () => {
+	it('adds contributions to the amount set by hand and projects completion', () => {
+		expect(goalProgress(trip, transactions, { now })).toMatchObject({
+			startingAmount: 100,
+			contributed: 300,
+			current: 400,
+			remaining: 600,
+			percent: 40,
+			// 300 over the 46 days since the goal was created
+			ratePerWeek: 45.65,
+			projectedDate: '2026-06-19',
+			requiredPerWeek: 40.38,
+			status: 'on_track',
+			daysLeft: 104,
+			isOverdue: false,
+			isCompleted: false,
+		});
+	});
+
+	it('is behind when the projection misses the deadline, overdue after it', () => {
+		expect(goalProgress({ ...trip, deadline: '2026-05-01' }, transactions, { now }).status).toBe(
+			'behind'
+		);
+		expect(goalProgress({ ...trip, deadline: '2026-03-01' }, transactions, { now })).toMatchObject({
+			status: 'overdue',
+			isOverdue: true,
+			daysLeft: 0,
+		});
+	});
+
+	it('only counts the recent rate, and has no projection without saving', () => {
+		const old = [tx('2025-06-01', -300, toGoal)];
+		const stalled = goalProgress({ ...trip, createdAt: '2025-05-01T00:00:00.000Z' }, old, { now });
+		expect(stalled).toMatchObject({ ratePerWeek: 0, projectedDate: null, status: 'behind' });
+		expect(goalProgress(trip, [], { now })).toMatchObject({
+			projectedDate: null,
+			status: 'not_started',
+		});
+	});
+
+	it('is completed once the target is reached', () => {
+		const done = goalProgress({ ...trip, current: 950 }, transactions, { now });
+		expect(done).toMatchObject({
+			current: 1250,
+			remaining: 0,
+			percent: 100,
+			status: 'completed',
+			isCompleted: true,
+			projectedDate: null,
+			requiredPerWeek: 0,
+		});
+	});
+});
+
+describe('projectCompletion', () => {
+	it('projects a what-if weekly amount', () => {
+		expect(projectCompletion(600, 50, now)).toBe('2026-06-10');
+		expect(projectCompletion(600, 0, now)).toBeNull();
+		expect(projectCompletion(0, 0, now)).toBe('2026-03-18');
+	});
+});
+
+describe('createGoal / updateGoal', () => {
+	it('validates and keeps only what defines the goal', () => {
+		const input = { name: ' Trip ', target: 1000, deadline: '2026-06-30', icon: 'flag', color: '#000' };
+		expect(() => createGoal({ ...input, name: ' ' })).toThrow(/name/);
+		expect(() => createGoal({ ...input, target: 0 })).toThrow(/greater than 0/);
+		expect(() => createGoal({ ...input, deadline: '2026-02-30' })).toThrow(/date/);
+
+		const goal = createGoal(input, now, 'g9');
+		expect(goal).toMatchObject({ id: 'g9', name: 'Trip', current: 0, categories: [] });
+
+		const updated = updateGoal({ ...goal, percent: 50 }, { target: 1200 }, now);
+		expect(updated).toMatchObject({ target: 1200, deadline: '2026-06-30' });
+		expect(updated.percent).toBeUndefined();
+		expect(setStartingAmount(goal, 250, now).current).toBe(250);
+		expect(() => setStartingAmount(goal, -1, now)).toThrow(/negative/);
+	});
+});
@@ -0,0 +1,105 @@
+/**
+ * Locale format: reading typed amounts with either decimal separator, money
+ * and date output per region, and the capture line following the setting.
+ */
+import {
+	DEFAULT_LOCALE_SETTINGS,
+	formatDate,
+	formatMoney,
+	formatNumber,
+	localePreset,
+	mergeLocaleSettings,
+	parseAmount,
+	sanitizeAmountInput,
+	weekdayNames,
+} from '../locale';
+import { parseCaptureLine } from '../parse-capture-line';
+
+const us = DEFAULT_LOCALE_SETTINGS;
+const de = localePreset('de-DE');
+const gb = localePreset('en-GB');
+
+describe('parseAmount', () => {
+	it('reads grouping and decimal separators per locale', () => {
+		expect(parseAmount('1,200', us)).toBe(1200);
+		expect(parseAmount('1,200', de)).toBe(1.2);
+		expect(parseAmount('1.200', de)).toBe(1200);
+		expect(parseAmount('1.200,50', de)).toBe(1200.5);
+		expect(parseAmount('1,200.50', de)).toBe(1200.5);
+		expect(parseAmount('1,234,567', us)).toBe(1234567);
+	});
+
+	it('treats a separator without three-digit groups as the decimal point', () => {
+		expect(parseAmount('12,50', us)).toBe(12.5);
+		expect(parseAmount('12.5', de)).toBe(12.5);
+	});
+
+	it('reads signs and symbols and rejects non-numbers', () => {
+		expect(parseAmount('-€12,50', de)).toBe(-12.5);
+		expect(parseAmount('(12)', us)).toBe(-12);
+		expect(parseAmount('$ 1,000', us)).toBe(1000);
+		expect(parseAmount('abc', us)).toBeNull();
+		expect(parseAmount('1,2,3', us)).toBeNull();
+		expect(parseAmount('', us)).toBeNull();
+	});
+});
+
+describe('formatting', () => {
+	it('formats numbers and money per locale', () => {
+		expect(formatNumber(1234.5, us)).toBe('1,234.50');
+		expect(formatNumber(1234.5, de)).toBe('1.234,50');
+		expect(formatNumber(1234.5, de, { grouping: false })).toBe('1234,50');
+		expect(formatMoney(-1234.5, 'USD', us)).toBe('-$1,234.50');
+		expect(formatMoney(1234.5, 'EUR', de)).toBe('1.234,50 €');
+		expect(formatMoney(1500, 'JPY', us)).toBe('¥1,500');
+		expect(formatMoney(10, 'CHF', localePreset('de-CH'))).toBe('CHF 10.00');
+	});
+
+	it('orders dates per locale', () => {
+		expect(formatDate('2026-03-04', us, 'numeric')).toBe('03/04/2026');
+		expect(formatDate('2026-03-04', gb, 'numeric')).toBe('04/03/2026');
+		expect(formatDate('2026-03-04', us, 'medium')).toBe('Mar 4, 2026');
+		expect(formatDate('2026-03-04', gb, 'medium')).toBe('4 Mar 2026');
+		expect(formatDate('2026-03-04', gb, 'full')).toBe('Wednesday, 4 March 2026');
+		expect(formatDate('not a date', us)).toBe('');
+	});
+
+	it('starts the week on the configured day', () => {
+		expect(weekdayNames(us)[0]).toBe('Sun');
+		expect(weekdayNames(gb)).toEqual(['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']);
+	});
+});
+
+describe('settings', () => {
+	it('keeps the separators distinct', () => {
+		expect(mergeLocaleSettings(us, { decimalSeparator: ',' })).toMatchObject({
+			decimalSeparator: ',',
+			groupSeparator: '.',
+		});
+		expect(mergeLocaleSettings(de, { groupSeparator: ',' })).toMatchObject({
+			decimalSeparator: '.',
+			groupSeparator: ',',
+		});
+	});
+
+	it('cleans typed amounts with the locale decimal separator', () => {
+		expect(sanitizeAmountInput('0012,345', de)).toBe('12,34');
+		expect(sanitizeAmountInput('12.5', de)).toBe('125');
+		expect(sanitizeAmountInput('1a2.5', us)).toBe('12.5');
+	});
+});
+
+describe('capture line', () => {
+	const now = new Date(2026, 2, 18, 9, 30);
+
+	it('reads amounts in the configured format', () => {
+		expect(parseCaptureLine('rent 1,200', { now })?.amount).toBe(-1200);
+		expect(parseCaptureLine('coffee 1,20', { now, locale: de })?.amount).toBe(-1.2);
+		expect(parseCaptureLine('rent 1.200,00', { now, locale: de })?.amount).toBe(-1200);
+	});
+
+	it('reads slash dates day-first when the locale is', () => {
+		expect(parseCaptureLine('2/3 lunch 9', { now })?.date).toBe('2026-02-03');
+		expect(parseCaptureLine('2/3 lunch 9', { now, locale: gb })?.date).toBe('2026-03-02');
+	});
+});
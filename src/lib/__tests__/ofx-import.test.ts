@@ -0,0 +1,109 @@
+/**
+ * OFX/QFX import: SGML and XML statements, mapping and re-import dedupe.
+ */
+import type { Transaction } from '../../context/transactionContext';
+import { buildOfxImportRows, isOfxDocument, parseOfxDate } from '../ofx-import';
+import { markImportDuplicates } from '../transactions-import';
+
+const SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>USD
+<BANKACCTFROM><BANKID>123<ACCTID>9876<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20260301
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20260302120000.000[-5:EST]
+<TRNAMT>-12.50
+<FITID>A1
+<NAME>BLUE BOTTLE &amp; CO
+<MEMO>Card 1234
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20260303
+<TRNAMT>2000.00
+<FITID>A2
+<NAME>PAYROLL
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+const XML = `<?xml version="1.0"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+<CCACCTFROM><ACCTID>5555</ACCTID></CCACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20260304</DTPOSTED><TRNAMT>-40,00</TRNAMT><FITID>X9</FITID><MEMO>Groceries</MEMO></STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>bad</DTPOSTED><TRNAMT>-1</TRNAMT><FITID>X10</FITID></STMTTRN>
+</BANKTRANLIST>
+</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>`;
+
+describe('isOfxDocument', () => {
+	it('tells OFX from CSV', () => {
+		expect(isOfxDocument(SGML)).toBe(true);
+		expect(isOfxDocument(XML)).toBe(true);
+		expect(isOfxDocument('date,amount\n2026-03-01,5')).toBe(false);
+	});
+});
+
+describe('parseOfxDate', () => {
+	it('keeps the posted day and ignores time and zone', () => {
+		expect(parseOfxDate('20260302120000.000[-5:EST]')).toBe('2026-03-02');
+		expect(parseOfxDate('2026')).toBeNull();
+	});
+});
+
+describe('buildOfxImportRows', () => {
+	it('maps SGML STMTTRN entries to drafts', () => {
+		const rows = buildOfxImportRows(SGML);
+		expect(rows).toHaveLength(2);
+		expect(rows[0]).toMatchObject({
+			line: 1,
+			sourceId: 'ofx:9876:A1',
+			draft: {
+				description: 'BLUE BOTTLE & CO',
+				vendor: 'BLUE BOTTLE & CO',
+				notes: 'Card 1234',
+				amount: -12.5,
+				date: '2026-03-02',
+				type: 'expense',
+				source: 'import',
+				metadata: { importId: 'ofx:9876:A1' },
+			},
+		});
+		expect(rows[1].draft).toMatchObject({ amount: 2000, type: 'income' });
+	});
+
+	it('reads XML credit card statements and reports bad rows', () => {
+		const rows = buildOfxImportRows(XML);
+		expect(rows[0].draft).toMatchObject({ description: 'Groceries', amount: -40 });
+		expect(rows[0].sourceId).toBe('ofx:5555:X9');
+		expect(rows[1].draft).toBeUndefined();
+		expect(rows[1].errors).toEqual(['Unreadable date "bad"']);
+	});
+});
+
+describe('re-importing an overlapping statement', () => {
+	it('skips entries whose FITID was already imported', () => {
+		const [first] = buildOfxImportRows(SGML);
+		// Same FITID, but the bank edited the description since
+		const existing: Transaction[] = [
+			{ ...first.draft!, id: 't1', description: 'Blue Bottle' },
+		];
+		const rows = markImportDuplicates(buildOfxImportRows(SGML), existing);
+		expect(rows.map((r) => r.duplicate)).toEqual([true, false]);
+	});
+
+	it('only imports a FITID once when it appears twice in the file', () => {
+		const entries = SGML.slice(SGML.indexOf('<STMTTRN>'), SGML.indexOf('</BANKTRANLIST>'));
+		const doubled = SGML.replace('</BANKTRANLIST>', `${entries}</BANKTRANLIST>`);
+		const rows = markImportDuplicates(buildOfxImportRows(doubled), []);
+		expect(rows.map((r) => r.duplicate)).toEqual([false, false, true, true]);
+	});
+});
@@ -1,4 +1,4 @@
-import { parseCaptureLine } from '../parse-capture-line';
+import { parseCaptureLine, parseCaptureLines } from '../parse-capture-line';
 
 describe('parseCaptureLine', () => {
 	it('parses expense description then amount', () => {
@@ -23,3 +23,96 @@ describe('parseCaptureLine', () => {
 		expect(parseCaptureLine('just text')).toBeNull();
 	});
 });
+
+describe('parseCaptureLines', () => {
+	it('splits a comma-separated batch into drafts', () => {
+		const r = parseCaptureLines('coffee 5.75, bagel 3, paycheck 1200');
+		expect(r.errors).toEqual([]);
+		expect(r.drafts.map((d) => [d.description, d.amount])).toEqual([
+			['coffee', -5.75],
+			['bagel', -3],
+			['paycheck', 1200],
+		]);
+	});
+
+	it('splits pasted lines and keeps decimal commas intact', () => {
+		const r = parseCaptureLines('taxi 12,50\nlunch, tacos 9');
+		expect(r.drafts.map((d) => [d.description, d.amount])).toEqual([
+			['taxi', -12.5],
+			['lunch, tacos', -9],
+		]);
+	});
+
+	it('reports segments it cannot parse', () => {
+		const r = parseCaptureLines('coffee 5; 0 gum; tip');
+		expect(r.drafts).toHaveLength(1);
+		expect(r.errors).toEqual([
+			{ index: 1, segment: '0 gum', message: 'Needs a description and a non-zero amount' },
+			{ index: 2, segment: 'tip', message: 'Missing amount' },
+		]);
+	});
+});
+
+describe('parseCaptureLine tokens', () => {
+	// Wednesday, 18 March 2026 (local time)
+	const now = new Date(2026, 2, 18, 9, 30);
+
+	it('reads relative dates, category and payment method', () => {
+		const r = parseCaptureLine('yesterday groceries 42.10 #groceries @cash', {
+			now,
+		});
+		expect(r).toEqual({
+			description: 'groceries',
+			type: 'expense',
+			amount: -42.1,
+			date: '2026-03-17',
+			category: 'Groceries',
+			paymentMethod: 'cash',
+		});
+	});
+
+	it('resolves weekdays and slash dates against the clock', () => {
+		expect(parseCaptureLine('monday taxi 12', { now })?.date).toBe('2026-03-16');
+		expect(parseCaptureLine('Wednesday taxi 12', { now })?.date).toBe('2026-03-18');
+		expect(parseCaptureLine('3/14 lunch 9', { now })?.date).toBe('2026-03-14');
+		// A future month/day without a year means last year
+		expect(parseCaptureLine('12/24 gifts 80', { now })?.date).toBe(
+			'2025-12-24',
+		);
+	});
+
+	it('reads a weekday abbreviation as a date only as the last word', () => {
+		expect(parseCaptureLine('coffee 5 mon', { now })).toEqual({
+			description: 'coffee',
+			type: 'expense',
+			amount: -5,
+			date: '2026-03-16',
+		});
+		expect(parseCaptureLine('lunch 12 sat #food', { now })?.date).toBe('2026-03-14');
+		expect(parseCaptureLine('sun cream 8', { now })).toEqual({
+			description: 'sun cream',
+			type: 'expense',
+			amount: -8,
+		});
+		expect(parseCaptureLine('sat nav 30', { now })).toEqual({
+			description: 'sat nav',
+			type: 'expense',
+			amount: -30,
+		});
+		expect(parseCaptureLine('wed gift 40', { now })?.date).toBeUndefined();
+	});
+
+	it('does not count a date as the amount when splitting', () => {
+		const r = parseCaptureLines('3/14 lunch, tacos 9; 3/15 gum', { now });
+		expect(r.drafts.map((d) => [d.description, d.amount, d.date])).toEqual([
+			['lunch, tacos', -9, '2026-03-14'],
+		]);
+		expect(r.errors).toEqual([{ index: 1, segment: '3/15 gum', message: 'Missing amount' }]);
+	});
+
+	it('turns dashed tags into readable categories', () => {
+		expect(parseCaptureLine('haircut 30 #personal-care')?.category).toBe(
+			'Personal care',
+		);
+	});
+});
@@ -0,0 +1,38 @@
+import { isInQuietHours, parseQuietTime, quietHoursEnd } from '../quiet-hours';
+
+const overnight = { enabled: true, start: '22:00', end: '08:00' };
+
+describe('isInQuietHours', () => {
+	it('covers the window, across midnight, only when enabled', () => {
+		expect(isInQuietHours(overnight, new Date(2026, 2, 18, 23, 30))).toBe(true);
+		expect(isInQuietHours(overnight, new Date(2026, 2, 18, 7, 59))).toBe(true);
+		expect(isInQuietHours(overnight, new Date(2026, 2, 18, 8, 0))).toBe(false);
+		expect(isInQuietHours({ ...overnight, enabled: false }, new Date(2026, 2, 18, 23))).toBe(false);
+		expect(isInQuietHours(undefined, new Date(2026, 2, 18, 23))).toBe(false);
+	});
+});
+
+describe('quietHoursEnd', () => {
+	it('defers to the end of quiet hours, across midnight', () => {
+		expect(quietHoursEnd(overnight, new Date(2026, 2, 18, 23, 30))).toEqual(
+			new Date(2026, 2, 19, 8, 0)
+		);
+		expect(quietHoursEnd(overnight, new Date(2026, 2, 18, 6, 15))).toEqual(
+			new Date(2026, 2, 18, 8, 0)
+		);
+		expect(quietHoursEnd(overnight, new Date(2026, 2, 18, 12))).toBeNull();
+		expect(quietHoursEnd({ ...overnight, enabled: false }, new Date(2026, 2, 18, 23))).toBeNull();
+		expect(
+			quietHoursEnd({ enabled: true, start: '13:00', end: '14:00' }, new Date(2026, 2, 18, 13, 5))
+		).toEqual(new Date(2026, 2, 18, 14, 0));
+	});
+});
+
+describe('parseQuietTime', () => {
+	it('reads 24-hour times', () => {
+		expect(parseQuietTime('7:30')).toBe('07:30');
+		expect(parseQuietTime(' 2215 ')).toBe('22:15');
+		expect(parseQuietTime('24:00')).toBeNull();
+		expect(parseQuietTime('10pm')).toBeNull();
+	});
+});
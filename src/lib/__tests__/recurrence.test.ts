@@ -0,0 +1,237 @@
+/**
+ * Recurring bills: schedules (intervals, month ends, nth weekdays, business
+ * days), paid/skipped occurrences, and the on-device bill service writing
+ * due auto-pay entries.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Transaction } from '../../context/transactionContext';
+import {
+	describeRule,
+	frequencyForRule,
+	nextOccurrence,
+	occurrencesBetween,
+	previousOccurrence,
+} from '../recurrence';
+import {
+	createTemplate,
+	dueDates,
+	nextOpenDate,
+	resolveOccurrence,
+	templateToBill,
+	updateTemplate,
+} from '../recurring-bills';
+import { LocalBillService } from '../../services/feature/localBillService';
+
+describe('schedules', () => {
+	it('repeats every N weeks from the start date', () => {
+		expect(
+			occurrencesBetween({ freq: 'weekly', interval: 2 }, '2026-03-06', '2026-03-01', '2026-04-30')
+		).toEqual(['2026-03-06', '2026-03-20', '2026-04-03', '2026-04-17']);
+	});
+
+	it('keeps month-end dates in short months', () => {
+		expect(
+			occurrencesBetween({ freq: 'monthly' }, '2026-01-31', '2026-01-01', '2026-04-30')
+		).toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+		expect(
+			occurrencesBetween({ freq: 'yearly' }, '2024-02-29', '2024-01-01', '2025-12-31')
+		).toEqual(['2024-02-29', '2025-02-28']);
+	});
+
+	it('finds the last business day and nth weekdays', () => {
+		const lastBusinessDay = { freq: 'monthly' as const, monthDay: -1, businessDay: 'before' as const };
+		// May 31 2026 is a Sunday, Oct 31 a Saturday
+		expect(
+			occurrencesBetween(lastBusinessDay, '2026-05-01', '2026-05-01', '2026-10-31').filter((d) =>
+				['2026-05', '2026-10'].includes(d.slice(0, 7))
+			)
+		).toEqual(['2026-05-29', '2026-10-30']);
+		expect(
+			occurrencesBetween({ freq: 'monthly', weekday: 5, nth: -1 }, '2026-03-01', '2026-03-01', '2026-04-30')
+		).toEqual(['2026-03-27', '2026-04-24']);
+		expect(nextOccurrence({ freq: 'monthly', weekday: 1, nth: 2 }, '2026-03-01', '2026-03-10')).toBe(
+			'2026-04-13'
+		);
+	});
+
+	it('never starts before the start date', () => {
+		expect(nextOccurrence({ freq: 'monthly', monthDay: 5 }, '2026-03-18', '2026-03-01')).toBe(
+			'2026-04-05'
+		);
+		expect(previousOccurrence({ freq: 'monthly' }, '2026-03-18', '2026-03-17')).toBeNull();
+		expect(previousOccurrence({ freq: 'monthly' }, '2026-01-18', '2026-03-17')).toBe('2026-02-18');
+	});
+
+	it('describes rules and maps them to bill cadences', () => {
+		expect(describeRule({ freq: 'weekly', interval: 2 }, '2026-03-06')).toBe(
+			'Every 2 weeks on Friday'
+		);
+		expect(describeRule({ freq: 'monthly', monthDay: -1, businessDay: 'before' }, '2026-03-01')).toBe(
+			'Monthly on the last business day'
+		);
+		expect(describeRule({ freq: 'monthly', interval: 3 }, '2026-03-22')).toBe(
+			'Quarterly on the 22nd'
+		);
+		expect(frequencyForRule({ freq: 'weekly', interval: 2 })).toBe('biweekly');
+		expect(frequencyForRule({ freq: 'weekly', interval: 3 })).toBe('monthly');
+		expect(frequencyForRule({ freq: 'monthly', interval: 3 })).toBe('quarterly');
+	});
+});
+
+describe('bill templates', () => {
+	const now = new Date(2026, 2, 18, 9, 30);
+	const rent = createTemplate(
+		{ vendor: 'Rent', amount: 1200, frequency: 'monthly', nextExpectedDate: '2026-01-01' },
+		now,
+		'rent'
+	);
+
+	it('tracks due, paid and skipped occurrences', () => {
+		expect(dueDates(rent, '2026-03-18')).toEqual(['2026-01-01', '2026-02-01', '2026-03-01']);
+
+		const settled = resolveOccurrence(
+			resolveOccurrence(rent, '2026-01-01', 'paid', { transactionId: 't1', now }),
+			'2026-02-01',
+			'skipped',
+			{ now }
+		);
+		const bill = templateToBill(settled, '2026-03-18');
+		expect(bill).toMatchObject({
+			patternId: 'rent',
+			frequency: 'monthly',
+			nextExpectedDate: '2026-03-01',
+			isPaid: false,
+			isOverdue: true,
+			dueDates: ['2026-03-01'],
+			schedule: 'Monthly on the 1st',
+		});
+		expect(bill.transactions).toHaveLength(1);
+
+		const paidUp = resolveOccurrence(settled, '2026-03-01', 'paid', { now });
+		expect(templateToBill(paidUp, '2026-03-18')).toMatchObject({
+			nextExpectedDate: '2026-04-01',
+			isPaid: true,
+			isOverdue: false,
+		});
+		// Paying ahead moves the next date past it
+		expect(nextOpenDate(resolveOccurrence(paidUp, '2026-04-01', 'paid'), '2026-03-18')).toBe(
+			'2026-05-01'
+		);
+	});
+
+	it('validates input and restarts the schedule from a new date', () => {
+		expect(() =>
+			createTemplate({ vendor: ' ', amount: 5, nextExpectedDate: '2026-03-01' })
+		).toThrow(/name/);
+		expect(() =>
+			createTemplate({ vendor: 'Gym', amount: 0, nextExpectedDate: '2026-03-01' })
+		).toThrow(/greater than 0/);
+
+		const moved = updateTemplate(rent, { nextExpectedDate: '2026-03-15', amount: -1250 });
+		expect(moved.amount).toBe(1250);
+		expect(dueDates(moved, '2026-03-18')).toEqual(['2026-03-15']);
+	});
+});
+
+describe('LocalBillService', () => {
+	beforeEach(async () => {
+		await AsyncStorage.clear();
+	});
+
+	const setup = () => {
+		const written: Omit<Transaction, 'id'>[] = [];
+		const service = new LocalBillService(
+			async (data) => {
+				written.push(data);
+				return { id: `tx-${written.length}`, ...data };
+			},
+			async () => written.map((data, i) => ({ id: `tx-${i + 1}`, ...data })),
+			() => new Date(2026, 2, 18, 9, 30)
+		);
+		return { service, written };
+	};
+
+	it('writes due auto-pay occurrences once', async () => {
+		const { service, written } = setup();
+		const gym = await service.createRecurringExpense({
+			vendor: 'Gym',
+			amount: 30,
+			rule: { freq: 'weekly', interval: 2 },
+			nextExpectedDate: '2026-02-20',
+			autoPay: true,
+			category: 'Health',
+		});
+		await service.createRecurringExpense({
+			vendor: 'Rent',
+			amount: 1200,
+			frequency: 'monthly',
+			nextExpectedDate: '2026-03-01',
+		});
+
+		expect((await service.autoApplyTransactions()).appliedCount).toBe(2);
+		expect((await service.autoApplyTransactions()).appliedCount).toBe(0);
+		expect(written.map((t) => t.date)).toEqual(['2026-02-20', '2026-03-06']);
+		expect(written[0]).toMatchObject({
+			amount: -30,
+			type: 'expense',
+			description: 'Gym',
+			metadata: { category: 'Health' },
+			recurringPattern: { patternId: gym.patternId, nextExpectedDate: '2026-02-20' },
+		});
+
+		const bills = await service.getRecurringExpenses();
+		expect(bills.find((b) => b.vendor === 'Gym')).toMatchObject({
+			nextExpectedDate: '2026-03-20',
+			isPaid: true,
+		});
+		expect(bills.find((b) => b.vendor === 'Rent')).toMatchObject({ isOverdue: true });
+	});
+
+	it('does not pay twice when saving the bill failed after paying', async () => {
+		const { service, written } = setup();
+		const gym = await service.createRecurringExpense({
+			vendor: 'Gym',
+			amount: 30,
+			frequency: 'monthly',
+			nextExpectedDate: '2026-03-01',
+			autoPay: true,
+		});
+
+		jest.spyOn(AsyncStorage, 'setItem').mockRejectedValueOnce(new Error('full'));
+		await expect(service.autoApplyTransactions()).rejects.toThrow('full');
+		expect(written).toHaveLength(1);
+
+		expect((await service.autoApplyTransactions()).appliedCount).toBe(1);
+		expect(written).toHaveLength(1);
+		const [bill] = await service.getRecurringExpenses();
+		expect(bill).toMatchObject({ patternId: gym.patternId, nextExpectedDate: '2026-04-01' });
+	});
+
+	it('pays and skips manual bills', async () => {
+		const { service, written } = setup();
+		const rent = await service.createRecurringExpense({
+			vendor: 'Rent',
+			amount: 1200,
+			frequency: 'monthly',
+			nextExpectedDate: '2026-02-01',
+		});
+
+		const { bill, transaction } = await service.payBill(rent.patternId);
+		expect(transaction.date).toBe('2026-03-18');
+		expect(written[0].recurringPattern?.nextExpectedDate).toBe('2026-02-01');
+		expect(bill.nextExpectedDate).toBe('2026-03-01');
+
+		const skipped = await service.skipBill(rent.patternId);
+		expect(skipped).toMatchObject({ nextExpectedDate: '2026-04-01', isPaid: true });
+		expect(written).toHaveLength(1);
+		expect(await service.checkBatchPaidStatus([rent.patternId, 'gone'])).toEqual({
+			[rent.patternId]: true,
+			gone: null,
+		});
+		expect(await service.getPaymentHistory(rent.patternId)).toHaveLength(2);
+
+		await service.deleteRecurringExpense(rent.patternId);
+		expect(await service.getRecurringExpenses()).toEqual([]);
+		await expect(service.payBill(rent.patternId)).rejects.toThrow(/not found/);
+	});
+});
@@ -0,0 +1,143 @@
+import type { Transaction } from '../../context/transactionContext';
+import {
+	detectRecurringPatterns,
+	merchantKey,
+	recurringPatternFor,
+} from '../recurring-detection';
+
+let seq = 0;
+const tx = (
+	date: string,
+	amount: number,
+	description: string,
+	extra: Partial<Transaction> = {}
+): Transaction => ({
+	id: `t${++seq}`,
+	date,
+	amount,
+	description,
+	type: 'expense',
+	...extra,
+});
+
+const now = new Date(2026, 4, 20, 12);
+
+describe('merchantKey', () => {
+	it('ignores reference numbers, domains and payment words', () => {
+		expect(merchantKey({ description: 'NETFLIX.COM 0423' })).toBe('netflix');
+		expect(merchantKey({ description: 'Netflix' })).toBe('netflix');
+		expect(merchantKey({ description: 'POS CITY POWER AUTOPAY #7781' })).toBe('city power');
+		expect(merchantKey({ description: 'x', vendor: 'Spotify' })).toBe('spotify');
+	});
+});
+
+describe('detectRecurringPatterns', () => {
+	it('finds a monthly subscription and its next date', () => {
+		const patterns = detectRecurringPatterns(
+			[
+				tx('2026-01-15', -15.49, 'NETFLIX.COM 0423', { metadata: { category: 'Fun' } }),
+				tx('2026-02-15', -15.49, 'Netflix'),
+				tx('2026-03-16', -15.49, 'NETFLIX.COM 9911', { metadata: { category: 'Fun' } }),
+				tx('2026-04-15', -15.99, 'Netflix'),
+				tx('2026-04-02', -4.5, 'Coffee'),
+			],
+			[],
+			{ now }
+		);
+		expect(patterns).toHaveLength(1);
+		expect(patterns[0]).toMatchObject({
+			frequency: 'monthly',
+			amount: 15.49,
+			nextExpectedDate: '2026-05-15',
+			transactionCount: 4,
+			category: 'Fun',
+			rule: { freq: 'monthly' },
+		});
+		expect(patterns[0].confidence).toBeGreaterThan(0.8);
+	});
+
+	it('keeps the usual day of the month after a late payment', () => {
+		const [rent] = detectRecurringPatterns(
+			[
+				tx('2026-02-01', -1200, 'Rent'),
+				tx('2026-03-01', -1200, 'Rent'),
+				tx('2026-04-03', -1200, 'Rent'),
+			],
+			[],
+			{ now }
+		);
+		expect(rent.rule).toEqual({ freq: 'monthly', monthDay: 1 });
+		expect(rent.nextExpectedDate).toBe('2026-05-01');
+	});
+
+	it('detects fortnightly payments', () => {
+		const [gym] = detectRecurringPatterns(
+			['2026-03-27', '2026-04-10', '2026-04-24', '2026-05-08'].map((d) => tx(d, -30, 'Gym')),
+			[],
+			{ now }
+		);
+		expect(gym).toMatchObject({
+			frequency: 'biweekly',
+			intervalDays: 14,
+			nextExpectedDate: '2026-05-22',
+		});
+		expect(gym.rule).toEqual({ freq: 'weekly', interval: 2 });
+		expect(gym.patternId).toMatch(/\|biweekly$/);
+		expect(recurringPatternFor(gym).frequency).toBe('biweekly');
+	});
+
+	it('splits one merchant into separate patterns by amount', () => {
+		const months = ['2026-02-05', '2026-03-05', '2026-04-05', '2026-05-05'];
+		const patterns = detectRecurringPatterns(
+			[
+				...months.map((d) => tx(d, -9.99, 'Apple.com/bill')),
+				...months.map((d) => tx(d, -2.99, 'APPLE.COM/BILL')),
+			],
+			[],
+			{ now }
+		);
+		expect(patterns.map((p) => p.amount).sort()).toEqual([2.99, 9.99]);
+		expect(new Set(patterns.map((p) => p.patternId)).size).toBe(2);
+	});
+
+	it('skips irregular, stopped and already-tracked spending', () => {
+		const irregular = ['2026-03-01', '2026-03-04', '2026-04-20', '2026-05-12'].map((d) =>
+			tx(d, -20, 'Taxi')
+		);
+		const stopped = ['2025-10-10', '2025-11-10', '2025-12-10'].map((d) => tx(d, -12, 'Old gym'));
+		const known = ['2026-03-02', '2026-04-02', '2026-05-02'].map((d) => tx(d, -60, 'Phone'));
+		const billed = ['2026-03-09', '2026-04-09', '2026-05-09'].map((d) =>
+			tx(d, -40, 'Internet', {
+				recurringPattern: {
+					patternId: 'b1',
+					frequency: 'monthly',
+					confidence: 1,
+					nextExpectedDate: d,
+				},
+			})
+		);
+		expect(
+			detectRecurringPatterns([...irregular, ...stopped, ...known, ...billed], ['PHONE'], { now })
+		).toEqual([]);
+	});
+
+	it('ranks steadier patterns first and tags their transactions', () => {
+		const months = ['2026-01-20', '2026-02-20', '2026-03-20', '2026-04-20'];
+		const patterns = detectRecurringPatterns(
+			[
+				...months.map((d) => tx(d, -50, 'Insurance')),
+				...['2026-02-11', '2026-03-10', '2026-04-16'].map((d, i) => tx(d, -(80 + i * 5), 'Power')),
+			],
+			[],
+			{ now }
+		);
+		expect(patterns.map((p) => p.vendor)).toEqual(['Insurance', 'Power']);
+		expect(patterns[0].confidence).toBeGreaterThan(patterns[1].confidence);
+		expect(recurringPatternFor(patterns[0], 'bill-1')).toEqual({
+			patternId: 'bill-1',
+			frequency: 'monthly',
+			confidence: patterns[0].confidence,
+			nextExpectedDate: '2026-05-20',
+		});
+	});
+});
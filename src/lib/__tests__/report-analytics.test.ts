@@ -0,0 +1,57 @@
+/**
+ * Month/year reports with a fixed clock.
+ */
+import type { Transaction } from '../../context/transactionContext';
+import { buildReport, reportRange, reportTrendStart } from '../report-analytics';
+
+// Wednesday 18 March 2026
+const now = new Date(2026, 2, 18, 9, 30);
+
+const tx = (id: string, date: string, amount: number, category?: string): Transaction => ({
+	id,
+	date,
+	amount,
+	type: amount < 0 ? 'expense' : 'income',
+	metadata: category ? { category } : undefined,
+});
+
+const txs = [
+	tx('rent', '2026-03-01', -900, 'Housing'),
+	tx('food', '2026-03-10', -90, 'Food'),
+	tx('pay', '2026-03-15', 2000),
+	tx('feb', '2026-02-12', -600, 'Housing'),
+	tx('jan', '2026-01-05', -300, 'Food'),
+];
+
+describe('buildReport', () => {
+	it('summarizes the current month with a daily average over elapsed days', () => {
+		const report = buildReport(txs, 'month', { now, trendMonths: 3 });
+
+		expect(report.range).toEqual({ start: '2026-03-01', end: '2026-03-31' });
+		expect(report.totals).toEqual({ in: 2000, out: 990, net: 1010 });
+		expect(report.dailyAverageSpend).toBeCloseTo(990 / 18);
+		expect(report.largest.map((t) => t.id)).toEqual(['rent', 'food']);
+		expect(report.trend.map((p) => [p.month, p.out, p.outChange])).toEqual([
+			['2026-01', 300, null],
+			['2026-02', 600, 1],
+			['2026-03', 990, 0.65],
+		]);
+	});
+
+	it('uses every day of a finished month and pages back by offset', () => {
+		const report = buildReport(txs, 'month', { now, offset: -1 });
+		expect(report.range.start).toBe('2026-02-01');
+		expect(report.dailyAverageSpend).toBeCloseTo(600 / 28);
+	});
+
+	it('builds a January–December trend for a year', () => {
+		const report = buildReport(txs, 'year', { now });
+		expect(report.trend).toHaveLength(12);
+		expect(report.totals.out).toBe(1890);
+		expect(reportRange('year', { now, offset: -1 })).toEqual({
+			start: '2025-01-01',
+			end: '2025-12-31',
+		});
+		expect(reportTrendStart('month', { now, trendMonths: 3 })).toBe('2025-12-01');
+	});
+});
@@ -0,0 +1,120 @@
+/**
+ * Split transactions: validation, per-line analytics, exports and renames.
+ */
+import type { Transaction } from '../../context/transactionContext';
+import { rewriteTransactionCategories } from '../categories';
+import {
+	categoryLines,
+	primarySplitCategory,
+	splitRemainder,
+	validateSplits,
+} from '../transaction-splits';
+import {
+	DEFAULT_EXPORT_OPTIONS,
+	transactionToExportable,
+	transactionsToCsv,
+	transactionsToQif,
+} from '../transactions-export';
+import { summarizeWeekTransactions } from '../week-analytics';
+
+const receipt: Transaction = {
+	id: 'r1',
+	description: 'Supermarket',
+	amount: -120,
+	date: '2026-03-18',
+	type: 'expense',
+	metadata: { category: 'Groceries' },
+	splits: [
+		{ amount: 80, category: 'Groceries' },
+		{ amount: 40, category: 'Household', note: 'Detergent' },
+	],
+};
+
+describe('validateSplits', () => {
+	it('accepts lines that add up to the total', () => {
+		expect(validateSplits(-120, receipt.splits!, 'expense')).toBeNull();
+		expect(splitRemainder(120, [{ amount: 0.1 }, { amount: 0.2 }, { amount: 119.7 }])).toBe(0);
+	});
+
+	it('explains what is wrong', () => {
+		expect(validateSplits(120, [{ amount: 120, category: 'Food' }], 'expense')).toMatch(
+			/at least two/
+		);
+		expect(
+			validateSplits(120, [{ amount: 80, category: 'Food' }, { amount: 0, category: 'Food' }], 'expense')
+		).toMatch(/greater than 0/);
+		expect(validateSplits(120, [{ amount: 80, category: 'Food' }, { amount: 40 }], 'expense')).toMatch(
+			/needs a category/
+		);
+		expect(validateSplits(120, [{ amount: 80 }, { amount: 40 }], 'income')).toBeNull();
+		expect(
+			validateSplits(120, [{ amount: 80, category: 'Food' }, { amount: 30, category: 'Food' }], 'expense')
+		).toBe('$10.00 is not assigned to a line yet.');
+		expect(
+			validateSplits(120, [{ amount: 80, category: 'Food' }, { amount: 50, category: 'Food' }], 'expense')
+		).toBe('The lines are $10.00 more than the transaction.');
+	});
+});
+
+describe('categoryLines', () => {
+	it('uses the lines, or the parent category when they no longer add up', () => {
+		expect(categoryLines(receipt).map((l) => [l.category, l.amount])).toEqual([
+			['Groceries', 80],
+			['Household', 40],
+		]);
+		expect(categoryLines({ ...receipt, amount: -100 })).toEqual([
+			{ category: 'Groceries', amount: 100 },
+		]);
+		expect(primarySplitCategory(receipt.splits!)).toBe('Groceries');
+	});
+});
+
+describe('split analytics', () => {
+	it('attributes spending to each line', () => {
+		const summary = summarizeWeekTransactions([receipt], {
+			period: { kind: 'rolling', days: 1 },
+			now: new Date(2026, 2, 18, 12),
+		});
+		expect(summary.totals.out).toBe(120);
+		expect(summary.categories).toEqual([
+			{ category: 'Groceries', amount: 80, pct: 67 },
+			{ category: 'Household', amount: 40, pct: 33 },
+		]);
+	});
+});
+
+describe('split exports', () => {
+	const rows = [transactionToExportable(receipt)];
+
+	it('writes one CSV row per line', () => {
+		const csv = transactionsToCsv(rows, {
+			...DEFAULT_EXPORT_OPTIONS,
+			columns: ['id', 'amount', 'category', 'notes'],
+		});
+		expect(csv.replace('\uFEFF', '').split('\r\n')).toEqual([
+			'id,amount,category,notes',
+			'r1,-80,Groceries,',
+			'r1,-40,Household,Detergent',
+			'',
+		]);
+	});
+
+	it('writes QIF splits', () => {
+		const qif = transactionsToQif(rows).split('\r\n');
+		expect(qif).toContain('SHousehold');
+		expect(qif).toContain('EDetergent');
+		expect(qif).toContain('$-40');
+		expect(qif.some((line) => line.startsWith('L'))).toBe(false);
+	});
+});
+
+describe('split renames', () => {
+	it('rewrites line categories', () => {
+		const [changed] = rewriteTransactionCategories(
+			[receipt],
+			[{ kind: 'expense', from: 'household', to: 'Home' }]
+		);
+		expect(changed.metadata?.category).toBe('Groceries');
+		expect(changed.splits?.map((l) => l.category)).toEqual(['Groceries', 'Home']);
+	});
+});
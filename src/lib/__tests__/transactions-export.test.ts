@@ -0,0 +1,104 @@
+/**
+ * Export writers and the exporter registry.
+ */
+import {
+	getExporter,
+	listExporters,
+	transactionsToCsv,
+	transactionsToJson,
+	transactionsToOfx,
+	transactionsToQif,
+	DEFAULT_EXPORT_OPTIONS,
+	type ExportableTransaction,
+} from '../transactions-export';
+import { buildOfxImportRows } from '../ofx-import';
+import { buildCsvImportRows, detectCsvImportOptions, parseCsv } from '../transactions-import';
+
+const rows: ExportableTransaction[] = [
+	{
+		_id: 'a1',
+		date: '2026-03-18',
+		description: 'Tacos',
+		amount: -1234.5,
+		type: 'expense',
+		vendor: 'Taco Stand',
+		notes: 'Team lunch',
+		metadata: { category: 'Food' },
+	},
+	{
+		_id: 'a2',
+		date: '2026-03-20',
+		description: 'Paycheck',
+		amount: 2000,
+		type: 'income',
+		recurringPattern: {
+			patternId: 'p1',
+			frequency: 'biweekly',
+			confidence: 0.9,
+			nextExpectedDate: '2026-04-03',
+		},
+	},
+];
+
+describe('exporter registry', () => {
+	it('lists CSV, JSON, QIF and OFX writers', () => {
+		expect(listExporters().map((e) => e.format)).toEqual(['csv', 'json', 'qif', 'ofx']);
+		expect(getExporter('qif')?.extension).toBe('qif');
+	});
+});
+
+describe('transactionsToCsv', () => {
+	it('honours date format, decimal separator and columns', () => {
+		const csv = transactionsToCsv(rows, {
+			dateFormat: 'dmy',
+			decimalSeparator: ',',
+			columns: ['date', 'amount', 'vendor'],
+		});
+		expect(csv).toBe(
+			'\uFEFFdate;amount;vendor\r\n18/03/2026;-1234,5;Taco Stand\r\n20/03/2026;2000;\r\n',
+		);
+	});
+
+	it('round-trips through the CSV importer', () => {
+		const csv = transactionsToCsv(rows, { ...DEFAULT_EXPORT_OPTIONS, decimalSeparator: ',' });
+		const parsed = parseCsv(csv);
+		const imported = buildCsvImportRows(parsed, detectCsvImportOptions(parsed));
+		expect(imported.map((r) => r.draft?.amount)).toEqual([-1234.5, 2000]);
+	});
+});
+
+describe('transactionsToJson', () => {
+	it('keeps every field', () => {
+		expect(JSON.parse(transactionsToJson(rows))).toEqual(rows);
+	});
+});
+
+describe('transactionsToQif', () => {
+	it('writes bank records with payee, memo and category', () => {
+		expect(transactionsToQif(rows).split('\r\n')).toEqual([
+			'!Type:Bank',
+			'D03/18/2026',
+			'T-1234.5',
+			'PTaco Stand',
+			'MTacos - Team lunch',
+			'LFood',
+			'^',
+			'D03/20/2026',
+			'T2000',
+			'PPaycheck',
+			'^',
+			'',
+		]);
+	});
+});
+
+describe('transactionsToOfx', () => {
+	it('produces a statement our OFX importer reads back', () => {
+		const imported = buildOfxImportRows(transactionsToOfx(rows));
+		expect(imported.map((r) => r.draft)).toMatchObject([
+			{ date: '2026-03-18', amount: -1234.5, vendor: 'Taco Stand', notes: 'Tacos - Team lunch' },
+			{ date: '2026-03-20', amount: 2000, type: 'income' },
+		]);
+		expect(imported[0].sourceId).toBe('ofx:BRIE:a1');
+	});
+});
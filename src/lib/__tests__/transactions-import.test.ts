@@ -0,0 +1,86 @@
+/**
+ * CSV import: parsing, detection, validation and dedupe.
+ */
+import type { Transaction } from '../../context/transactionContext';
+import { transactionsToCsv } from '../transactions-export';
+import {
+	buildCsvImportRows,
+	detectCsvImportOptions,
+	markImportDuplicates,
+	parseCsv,
+	parseImportAmount,
+} from '../transactions-import';
+
+describe('parseCsv', () => {
+	it('reads back our own export, including BOM and quoted fields', () => {
+		const csv = transactionsToCsv([
+			{ _id: 'a1', date: '2026-03-18', description: 'Tacos, "large"', amount: -12.5, type: 'expense' },
+		]);
+		expect(parseCsv(csv)).toEqual([
+			['id', 'date', 'description', 'amount', 'type', 'category', 'account'],
+			['a1', '2026-03-18', 'Tacos, "large"', '-12.5', 'expense', 'Expense', ''],
+		]);
+	});
+
+	it('detects semicolon delimiters and keeps newlines inside quotes', () => {
+		expect(parseCsv('a;b\r\n"x\ny";2\n')).toEqual([
+			['a', 'b'],
+			['x\ny', '2'],
+		]);
+	});
+});
+
+describe('parseImportAmount', () => {
+	it('handles separators, symbols and accounting negatives', () => {
+		expect(parseImportAmount('$1,200.50', '.')).toBe(1200.5);
+		expect(parseImportAmount('1.234,56', ',')).toBe(1234.56);
+		expect(parseImportAmount('(12.00)', '.')).toBe(-12);
+		expect(parseImportAmount('$-5', '.')).toBe(-5);
+		expect(parseImportAmount('abc', '.')).toBeNull();
+	});
+});
+
+describe('bank CSV import', () => {
+	const csv = [
+		'Booking Date;Payee;Money Out;Money In',
+		'18.03.2026;Bakery;3,50;',
+		'19.03.2026;Salary;;2.000,00',
+		'31.02.2026;Broken;1,00;',
+	].join('\n');
+
+	it('maps debit/credit columns and day-first dates with comma decimals', () => {
+		const rows = parseCsv(csv);
+		const options = detectCsvImportOptions(rows);
+		expect(options).toMatchObject({
+			hasHeader: true,
+			dateFormat: 'dmy',
+			decimalSeparator: ',',
+			mapping: { date: 0, description: 1, debit: 2, credit: 3 },
+		});
+
+		const parsed = buildCsvImportRows(rows, options);
+		expect(parsed[0].draft).toMatchObject({
+			date: '2026-03-18',
+			description: 'Bakery',
+			amount: -3.5,
+			type: 'expense',
+			source: 'import',
+		});
+		expect(parsed[1].draft).toMatchObject({ amount: 2000, type: 'income' });
+		expect(parsed[2].line).toBe(4);
+		expect(parsed[2].draft).toBeUndefined();
+		expect(parsed[2].errors[0]).toMatch(/date/);
+	});
+
+	it('flags rows that already exist, one match per existing transaction', () => {
+		const existing: Transaction[] = [
+			{ id: 't1', date: '2026-03-18', description: 'bakery', amount: -3.5, type: 'expense' },
+		];
+		const rows = parseCsv(`${csv}\n18.03.2026;Bakery;3,50;`);
+		const marked = markImportDuplicates(
+			buildCsvImportRows(rows, detectCsvImportOptions(rows)),
+			existing
+		);
+		expect(marked.map((r) => r.duplicate)).toEqual([true, false, false, false]);
+	});
+});
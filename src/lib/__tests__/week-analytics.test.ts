@@ -0,0 +1,79 @@
+/**
+ * Period resolution and period-over-period comparison with a fixed clock.
+ */
+import type { Transaction } from '../../context/transactionContext';
+import {
+	comparePeriods,
+	previousPeriod,
+	resolvePeriod,
+	summarizeWeekTransactions,
+} from '../week-analytics';
+
+// Wednesday 18 March 2026
+const now = new Date(2026, 2, 18, 9, 30);
+
+const spend = (date: string, amount: number, category?: string): Transaction => ({
+	id: `${date}-${amount}`,
+	date,
+	amount: -amount,
+	type: 'expense',
+	metadata: category ? { category } : undefined,
+});
+
+describe('resolvePeriod', () => {
+	it('aligns calendar weeks to Sunday or Monday', () => {
+		expect(resolvePeriod({ kind: 'week', weekStartsOn: 0 }, now)).toEqual({
+			start: '2026-03-15',
+			end: '2026-03-21',
+		});
+		expect(resolvePeriod({ kind: 'week', weekStartsOn: 1, offset: -1 }, now)).toEqual({
+			start: '2026-03-09',
+			end: '2026-03-15',
+		});
+	});
+
+	it('resolves months and the period before', () => {
+		expect(resolvePeriod({ kind: 'month' }, now)).toEqual({
+			start: '2026-03-01',
+			end: '2026-03-31',
+		});
+		expect(previousPeriod({ kind: 'month' }, now)).toEqual({
+			start: '2026-02-01',
+			end: '2026-02-28',
+		});
+		expect(
+			previousPeriod({ kind: 'range', start: '2026-03-10', end: '2026-03-12' }, now)
+		).toEqual({ start: '2026-03-07', end: '2026-03-09' });
+	});
+});
+
+describe('comparePeriods', () => {
+	const txs = [
+		spend('2026-03-16', 50, 'Food'),
+		spend('2026-03-17T18:00:00.000Z', 12, 'Rides'),
+		spend('2026-03-10', 8, 'Food'),
+		spend('2026-03-11', 20, 'Rides'),
+		spend('2026-03-01', 99, 'Food'),
+	];
+
+	it('reports totals and per-category deltas against last week', () => {
+		const result = comparePeriods(txs, {
+			period: { kind: 'week', weekStartsOn: 0 },
+			now,
+		});
+
+		expect(result.current.totals.out).toBe(62);
+		expect(result.previous.totals.out).toBe(28);
+		expect(result.totalsDelta.out).toBe(34);
+		expect(result.categoryDeltas).toEqual([
+			{ category: 'Food', current: 50, previous: 8, delta: 42 },
+			{ category: 'Rides', current: 12, previous: 20, delta: -8 },
+		]);
+	});
+
+	it('defaults to the last 7 days ending today', () => {
+		const { range, totals } = summarizeWeekTransactions(txs, { now });
+		expect(range).toEqual({ start: '2026-03-12', end: '2026-03-18' });
+		expect(totals.out).toBe(62);
+	});
+});
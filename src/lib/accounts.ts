@@ -0,0 +1,182 @@
+/**
+ * Where money sits: cash, checking, card and savings accounts with opening
+ * balances. Transactions name their account by id in `metadata.account`;
+ * ones without it belong to the default (first active) account, so history
+ * from before accounts existed stays in Cash. A `transfer` moves its
+ * absolute amount from `metadata.account` to `metadata.toAccount` and is
+ * neither income nor expense. Everything here is pure.
+ */
+import type { Transaction } from '../context/transactionContext';
+
+export type AccountKind = 'cash' | 'checking' | 'card' | 'savings';
+
+export type Account = {
+	id: string;
+	name: string;
+	kind: AccountKind;
+	/** Balance before the first transaction; negative for money owed on a card. */
+	openingBalance: number;
+	/** Hidden from pickers; balances and history stay. */
+	archived?: boolean;
+};
+
+export type AccountInput = {
+	name: string;
+	kind: AccountKind;
+	openingBalance?: number;
+};
+
+export const ACCOUNT_KINDS: { kind: AccountKind; label: string; icon: string }[] = [
+	{ kind: 'cash', label: 'Cash', icon: 'wallet-outline' },
+	{ kind: 'checking', label: 'Checking', icon: 'business-outline' },
+	{ kind: 'card', label: 'Card', icon: 'card-outline' },
+	{ kind: 'savings', label: 'Savings', icon: 'cash-outline' },
+];
+
+/** Until the user adds accounts, everything is cash on hand. */
+export const DEFAULT_ACCOUNTS: Account[] = [
+	{ id: 'cash', name: 'Cash', kind: 'cash', openingBalance: 0 },
+];
+
+function sameName(a: string, b: string): boolean {
+	return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function accountIcon(kind: AccountKind): string {
+	return ACCOUNT_KINDS.find((k) => k.kind === kind)?.icon ?? 'wallet-outline';
+}
+
+export function activeAccounts(accounts: Account[]): Account[] {
+	return accounts.filter((a) => !a.archived);
+}
+
+/** Account that transactions without `metadata.account` belong to. */
+export function defaultAccountId(accounts: Account[]): string {
+	return (activeAccounts(accounts)[0] ?? accounts[0] ?? DEFAULT_ACCOUNTS[0]).id;
+}
+
+/** Case-insensitive name lookup, so `@card` on a capture line finds "Card". */
+export function findAccountByName(
+	accounts: Account[],
+	name: string | undefined
+): Account | undefined {
+	if (!name?.trim()) return undefined;
+	const matches = accounts.filter((a) => sameName(a.name, name));
+	return matches.find((a) => !a.archived) ?? matches[0];
+}
+
+function validate(accounts: Account[], candidate: Account, ignoreId?: string): void {
+	if (!candidate.name.trim()) throw new Error('Account name is required.');
+	const clash = accounts.find((a) => a.id !== ignoreId && sameName(a.name, candidate.name));
+	if (clash) throw new Error(`An account named "${clash.name}" already exists.`);
+	if (!Number.isFinite(candidate.openingBalance)) {
+		throw new Error('Opening balance must be a number.');
+	}
+}
+
+export function createAccount(
+	accounts: Account[],
+	input: AccountInput,
+	id: string = `acct-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+): Account[] {
+	const account: Account = {
+		id,
+		name: input.name.trim(),
+		kind: input.kind,
+		openingBalance: input.openingBalance ?? 0,
+	};
+	validate(accounts, account);
+	return [...accounts, account];
+}
+
+export function updateAccount(
+	accounts: Account[],
+	id: string,
+	patch: Partial<Pick<Account, 'name' | 'kind' | 'openingBalance'>>
+): Account[] {
+	const current = accounts.find((a) => a.id === id);
+	if (!current) throw new Error('Account not found.');
+	const next: Account = { ...current, ...patch, name: (patch.name ?? current.name).trim() };
+	validate(accounts, next, id);
+	return accounts.map((a) => (a.id === id ? next : a));
+}
+
+/** The last active account cannot be archived: new entries need somewhere to go. */
+export function setAccountArchived(
+	accounts: Account[],
+	id: string,
+	archived: boolean
+): Account[] {
+	if (archived && activeAccounts(accounts).every((a) => a.id === id)) {
+		throw new Error('Keep at least one account.');
+	}
+	return accounts.map((a) => (a.id === id ? { ...a, archived } : a));
+}
+
+function absAmount(tx: Transaction): number {
+	const amount = Number(tx.amount);
+	return Number.isFinite(amount) ? Math.abs(amount) : 0;
+}
+
+/** Account a transaction draws on (the source account for transfers). */
+export function transactionAccountId(tx: Transaction, fallbackId: string): string {
+	return tx.metadata?.account || fallbackId;
+}
+
+/**
+ * Balance per account id: opening balance, plus income, minus expenses,
+ * with transfers moving money between the two accounts. Transactions that
+ * name an unknown account are counted under it, so nothing goes missing.
+ */
+export function accountBalances(
+	accounts: Account[],
+	transactions: Transaction[]
+): Record<string, number> {
+	const fallback = defaultAccountId(accounts);
+	const balances: Record<string, number> = {};
+	for (const account of accounts) balances[account.id] = account.openingBalance;
+	const add = (id: string, cents: number) => {
+		balances[id] = Math.round(((balances[id] ?? 0) + cents / 100) * 100) / 100;
+	};
+	for (const tx of transactions) {
+		const cents = Math.round(absAmount(tx) * 100);
+		const from = transactionAccountId(tx, fallback);
+		if (tx.type === 'transfer') {
+			const to = tx.metadata?.toAccount;
+			if (!to || to === from) continue;
+			add(from, -cents);
+			add(to, cents);
+		} else {
+			add(from, tx.type === 'income' ? cents : -cents);
+		}
+	}
+	return balances;
+}
+
+/** Sum across accounts; archived ones still count while they hold money. */
+export function totalBalance(balances: Record<string, number>): number {
+	const cents = Object.values(balances).reduce((sum, b) => sum + Math.round(b * 100), 0);
+	return cents / 100;
+}
+
+/** Transaction data for moving `amount` between two accounts. */
+export function buildTransfer(input: {
+	fromId: string;
+	toId: string;
+	amount: number;
+	date: string;
+	note?: string;
+}): Omit<Transaction, 'id'> {
+	if (input.fromId === input.toId) throw new Error('Choose two different accounts.');
+	if (!Number.isFinite(input.amount) || input.amount <= 0) {
+		throw new Error('Enter an amount greater than 0.');
+	}
+	return {
+		type: 'transfer',
+		amount: Math.abs(input.amount),
+		date: input.date,
+		description: input.note?.trim() || 'Transfer',
+		source: 'manual',
+		metadata: { account: input.fromId, toAccount: input.toId },
+	};
+}
@@ -0,0 +1,98 @@
+/**
+ * On-device budget alerts. A budget alerts once per period for each level it
+ * crosses: the profile's `alertPct`, all of it spent, and overspent. Sent
+ * alerts are remembered by key (budget, period start, level) so re-checking
+ * never repeats one; jumping straight past a level counts it as sent.
+ * Everything here is pure; the provider sends and stores.
+ */
+import { BUDGET_ALERT_PCT, type LocalBudget } from './budgets';
+
+export type BudgetAlertLevel = 'threshold' | 'limit' | 'over';
+
+export type BudgetAlert = {
+	budgetId: string;
+	level: BudgetAlertLevel;
+	/** Dedupe key; see `budgetAlertKey`. */
+	key: string;
+	/** This level and the ones below it, to record as sent. */
+	sentKeys: string[];
+};
+
+const LEVELS: BudgetAlertLevel[] = ['threshold', 'limit', 'over'];
+
+export function budgetAlertKey(
+	budgetId: string,
+	periodStart: string,
+	level: BudgetAlertLevel
+): string {
+	return `${budgetId}:${periodStart}:${level}`;
+}
+
+/** The highest level `budget` has reached this period, if any. */
+export function budgetAlertLevel(
+	budget: LocalBudget,
+	alertPct: number = BUDGET_ALERT_PCT
+): BudgetAlertLevel | null {
+	if (budget.remaining < 0) return 'over';
+	if (budget.spent > 0 && budget.remaining === 0) return 'limit';
+	// At 100% the threshold is the limit itself
+	if (alertPct < 100 && budget.spentPercentage >= alertPct) return 'threshold';
+	return null;
+}
+
+/** Alerts not yet sent for this period, at most one per budget. */
+export function dueBudgetAlerts(
+	budgets: LocalBudget[],
+	sent: Iterable<string>,
+	alertPct: number = BUDGET_ALERT_PCT
+): BudgetAlert[] {
+	const sentSet = new Set(sent);
+	const due: BudgetAlert[] = [];
+	for (const budget of budgets) {
+		const level = budgetAlertLevel(budget, alertPct);
+		if (!level) continue;
+		const key = budgetAlertKey(budget.id, budget.range.start, level);
+		if (sentSet.has(key)) continue;
+		due.push({
+			budgetId: budget.id,
+			level,
+			key,
+			sentKeys: LEVELS.slice(0, LEVELS.indexOf(level) + 1).map((l) =>
+				budgetAlertKey(budget.id, budget.range.start, l)
+			),
+		});
+	}
+	return due;
+}
+
+/** Drops keys for past periods and deleted budgets. */
+export function pruneSentAlerts(sent: string[], budgets: LocalBudget[]): string[] {
+	const current = new Set(budgets.map((b) => `${b.id}:${b.range.start}:`));
+	return sent.filter((key) => current.has(key.slice(0, key.lastIndexOf(':') + 1)));
+}
+
+export function budgetAlertMessage(
+	alert: Pick<BudgetAlert, 'level'>,
+	budget: LocalBudget,
+	format: { currency: (amount: number) => string; date: (ymd: string) => string },
+	alertPct: number = BUDGET_ALERT_PCT
+): { title: string; body: string } {
+	const until = format.date(budget.range.end);
+	switch (alert.level) {
+		case 'over':
+			return {
+				title: `${budget.name} is over budget`,
+				body: `${format.currency(-budget.remaining)} over for the period ending ${until}.`,
+			};
+		case 'limit':
+			return {
+				title: `${budget.name} budget used up`,
+				body: `All ${format.currency(budget.available)} is spent until ${until}.`,
+			};
+		default:
+			return {
+				title: `${budget.name}: ${Math.round(alertPct)}% used`,
+				body: `${format.currency(budget.remaining)} left until ${until}.`,
+			};
+	}
+}
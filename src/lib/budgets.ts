@@ -0,0 +1,352 @@
+/**
+ * On-device budgets. A budget is an amount per week, fortnight or month for
+ * one or more expense categories; its spending is never stored but summed
+ * from the transactions in each period. Weekly and fortnightly periods start
+ * on `weekStartDay` (fortnights counted from the week the budget was
+ * created), monthly ones on `monthStartDay` (a pay-day month runs from the
+ * 25th to the 24th).
+ *
+ * With `rollover` a budget works like an envelope: each period's leftover is
+ * carried into the next, and so is an overspend, as a negative amount. The
+ * history is replayed from the budget's first period so the carry is exact.
+ * Everything here is pure; pass `now` for deterministic results.
+ */
+import type {
+	Budget,
+	CreateBudgetData,
+	UpdateBudgetData,
+} from '../context/budgetContext';
+import type { Transaction } from '../context/transactionContext';
+import { rewriteCategoryName, type CategoryRewrite } from './categories';
+import { categoryLines } from './transaction-splits';
+import { isWithinRange, toYmd, type PeriodRange } from './week-analytics';
+
+export type MonthStartDay = NonNullable<Budget['monthStartDay']>;
+
+/** One period of a budget's envelope. */
+export type BudgetPeriod = {
+	range: PeriodRange;
+	/** The budget amount. */
+	allocated: number;
+	/** Last period's `carriedOut`; negative after an overspend. */
+	carriedIn: number;
+	spent: number;
+	/**
+	 * `allocated + carriedIn - spent` for rollover budgets, otherwise 0. For
+	 * the current period, what carries if nothing more is spent.
+	 */
+	carriedOut: number;
+	current: boolean;
+};
+
+/** Budgets report their spending for the current period. */
+export type LocalBudget = Budget & {
+	spent: number;
+	spentPercentage: number;
+	shouldAlert: boolean;
+	/** The current period, inclusive. */
+	range: PeriodRange;
+	/** Carried in from last period (rollover budgets only); negative after an overspend. */
+	carriedOver: number;
+	/** `amount + carriedOver`. */
+	available: number;
+	/** `available - spent`; negative when overspent. */
+	remaining: number;
+	/** Every period from the first one, oldest first; the last is the current one. */
+	history: BudgetPeriod[];
+};
+
+export type BudgetOptions = {
+	/** Clock for the current period; defaults to the current time. */
+	now?: Date;
+	/** Week start for budgets without `weekStartDay`; Sunday by default. */
+	weekStartsOn?: 0 | 1;
+	/** Map a category to its parent, so a budget on a parent covers its children. */
+	rollupCategory?: (category: string) => string;
+	/** Rollover for budgets that don't set it (the profile's `budgetSettings.carryOver`). */
+	carryOver?: boolean;
+	/** Percent spent that sets `shouldAlert` (the profile's `budgetSettings.alertPct`). */
+	alertPct?: number;
+};
+
+/** Share of a budget spent before it is flagged, in percent. */
+export const BUDGET_ALERT_PCT = 80;
+
+/** Periods shown for a budget with no creation date. */
+const DEFAULT_HISTORY = 12;
+
+/** Guards the replay against a creation date far in the past. */
+const MAX_PERIODS = 2000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function fromYmd(ymd: string): Date {
+	const [y, m, d] = ymd.split('-').map(Number);
+	return new Date(y, m - 1, d);
+}
+
+function addDays(ymd: string, days: number): string {
+	const d = fromYmd(ymd);
+	d.setDate(d.getDate() + days);
+	return toYmd(d);
+}
+
+function round2(n: number): number {
+	return Math.round(n * 100) / 100;
+}
+
+function weekStart(day: Date, startDay: number): string {
+	return addDays(toYmd(day), -((day.getDay() - startDay + 7) % 7));
+}
+
+/**
+ * The period containing `now`, or `offset` periods before (-1) or after it.
+ */
+export function budgetPeriod(
+	budget: Pick<Budget, 'period' | 'weekStartDay' | 'monthStartDay' | 'createdAt'>,
+	now: Date = new Date(),
+	offset: number = 0,
+	weekStartsOn: 0 | 1 = 0
+): PeriodRange {
+	const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+	if (budget.period === 'weekly') {
+		const start = addDays(weekStart(today, budget.weekStartDay ?? weekStartsOn), 7 * offset);
+		return { start, end: addDays(start, 6) };
+	}
+	if (budget.period === 'biweekly') {
+		const startDay = budget.weekStartDay ?? weekStartsOn;
+		const anchor = weekStart(
+			budget.createdAt ? fromYmd(budget.createdAt.slice(0, 10)) : new Date(1970, 0, 4),
+			startDay
+		);
+		let start = weekStart(today, startDay);
+		const weeks = Math.round(
+			(fromYmd(start).getTime() - fromYmd(anchor).getTime()) / (7 * DAY_MS)
+		);
+		if (Math.abs(weeks) % 2 === 1) start = addDays(start, -7);
+		start = addDays(start, 14 * offset);
+		return { start, end: addDays(start, 13) };
+	}
+	const startDay = budget.monthStartDay ?? 1;
+	// Before the start day we are still in the period that began last month
+	const month = today.getMonth() - (today.getDate() < startDay ? 1 : 0) + offset;
+	const start = new Date(today.getFullYear(), month, startDay);
+	const next = new Date(today.getFullYear(), month + 1, startDay);
+	return { start: toYmd(start), end: addDays(toYmd(next), -1) };
+}
+
+function sameName(a: string, b: string): boolean {
+	return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Whether spending in `category` counts toward `budget`: one of its
+ * categories, or its name when it has none, matched directly or through the
+ * category's parent.
+ */
+export function budgetCoversCategory(
+	budget: Pick<Budget, 'name' | 'categories'>,
+	category: string | undefined,
+	rollupCategory: (category: string) => string = (c) => c
+): boolean {
+	if (!category) return false;
+	const targets = budget.categories?.length ? budget.categories : [budget.name];
+	const parent = rollupCategory(category);
+	return targets.some((target) => sameName(target, category) || sameName(target, parent));
+}
+
+/**
+ * Budgets whose categories change under `rewrites`, with the new names
+ * applied. A budget that matches by its name gets the new name as its
+ * category, so it keeps counting the same spending under the same label.
+ */
+export function rewriteBudgetCategories(budgets: Budget[], rewrites: CategoryRewrite[]): Budget[] {
+	if (rewrites.length === 0) return [];
+	const changed: Budget[] = [];
+	for (const budget of budgets) {
+		const targets = budget.categories?.length ? budget.categories : [budget.name];
+		const renamed = targets.map((c) => rewriteCategoryName(c, 'expense', rewrites));
+		if (renamed.every((c, i) => c === targets[i])) continue;
+		// A merge can leave the same category twice
+		const categories = renamed.filter((c, i) => renamed.findIndex((o) => sameName(o, c)) === i);
+		changed.push({ ...budget, categories });
+	}
+	return changed;
+}
+
+/**
+ * How much of `tx` counts toward `budget`: matching split lines, or all of
+ * it when it is assigned to the budget itself (`target`).
+ */
+function spentOn(
+	budget: Pick<Budget, 'id' | 'name' | 'categories'>,
+	tx: Transaction,
+	rollupCategory?: (category: string) => string
+): number {
+	if (tx.type !== 'expense') return 0;
+	if (tx.targetModel === 'Budget' && tx.target === budget.id) {
+		return Math.abs(Number(tx.amount) || 0);
+	}
+	let spent = 0;
+	for (const line of categoryLines(tx)) {
+		if (budgetCoversCategory(budget, line.category, rollupCategory)) spent += line.amount;
+	}
+	return spent;
+}
+
+/** Expenses in `range` that count toward `budget`. */
+export function spentInRange(
+	budget: Pick<Budget, 'id' | 'name' | 'categories'>,
+	transactions: Transaction[],
+	range: PeriodRange,
+	rollupCategory?: (category: string) => string
+): number {
+	let spent = 0;
+	for (const tx of transactions) {
+		if (isWithinRange(range, tx.date)) spent += spentOn(budget, tx, rollupCategory);
+	}
+	return round2(spent);
+}
+
+/**
+ * Every period of `budget` from the one it was created in (or the last 12
+ * without a creation date) to the current one, with what was allocated,
+ * spent and carried in and out.
+ */
+export function budgetHistory(
+	budget: Budget,
+	transactions: Transaction[],
+	options: BudgetOptions = {}
+): BudgetPeriod[] {
+	const now = options.now ?? new Date();
+	const rollover = budget.rollover ?? options.carryOver ?? false;
+	const current = budgetPeriod(budget, now, 0, options.weekStartsOn);
+	let range = budget.createdAt
+		? budgetPeriod(budget, fromYmd(budget.createdAt.slice(0, 10)), 0, options.weekStartsOn)
+		: budgetPeriod(budget, now, -(DEFAULT_HISTORY - 1), options.weekStartsOn);
+	if (range.start > current.start) range = current;
+
+	// Spending per day, so each period is a sum over a sorted list
+	const byDay = new Map<string, number>();
+	for (const tx of transactions) {
+		if (!tx.date || tx.date.slice(0, 10) < range.start) continue;
+		const amount = spentOn(budget, tx, options.rollupCategory);
+		const day = tx.date.slice(0, 10);
+		if (amount) byDay.set(day, (byDay.get(day) ?? 0) + amount);
+	}
+	const days = [...byDay.keys()].sort();
+
+	const history: BudgetPeriod[] = [];
+	let carriedIn = 0;
+	let d = 0;
+	while (history.length < MAX_PERIODS) {
+		let spent = 0;
+		while (d < days.length && days[d] <= range.end) spent += byDay.get(days[d++]) ?? 0;
+		spent = round2(spent);
+		const carriedOut = rollover ? round2(budget.amount + carriedIn - spent) : 0;
+		const isCurrent = range.start === current.start;
+		history.push({
+			range,
+			allocated: budget.amount,
+			carriedIn,
+			spent,
+			carriedOut,
+			current: isCurrent,
+		});
+		if (isCurrent) break;
+		carriedIn = carriedOut;
+		range = budgetPeriod(budget, fromYmd(addDays(range.end, 1)), 0, options.weekStartsOn);
+	}
+	return history;
+}
+
+/** The budget with this period's spending and its history filled in. */
+export function budgetProgress(
+	budget: Budget,
+	transactions: Transaction[],
+	options: BudgetOptions = {}
+): LocalBudget {
+	const history = budgetHistory(budget, transactions, options);
+	const { range, spent, carriedIn } = history[history.length - 1];
+	const available = round2(budget.amount + carriedIn);
+	const spentPercentage =
+		available > 0 ? (spent / available) * 100 : spent > 0 || available < 0 ? 100 : 0;
+	return {
+		...budget,
+		spent,
+		spentPercentage,
+		shouldAlert: spentPercentage >= (options.alertPct ?? BUDGET_ALERT_PCT),
+		range,
+		carriedOver: carriedIn,
+		available,
+		remaining: round2(available - spent),
+		history,
+	};
+}
+
+function validate(budget: Budget): void {
+	if (!budget.name.trim()) throw new Error('Give the budget a name.');
+	if (!Number.isFinite(budget.amount) || budget.amount <= 0) {
+		throw new Error('Enter an amount greater than 0.');
+	}
+	if (
+		budget.monthStartDay != null &&
+		(!Number.isInteger(budget.monthStartDay) || budget.monthStartDay < 1 || budget.monthStartDay > 28)
+	) {
+		throw new Error('Months can start on day 1 to 28.');
+	}
+}
+
+/** Only what defines a budget is stored; spending is recomputed. */
+function stored(budget: Budget): Budget {
+	return {
+		id: budget.id,
+		name: budget.name,
+		amount: budget.amount,
+		period: budget.period,
+		weekStartDay: budget.weekStartDay,
+		monthStartDay: budget.monthStartDay,
+		rollover: budget.rollover,
+		icon: budget.icon,
+		color: budget.color,
+		categories: budget.categories,
+		createdAt: budget.createdAt,
+		updatedAt: budget.updatedAt,
+	};
+}
+
+export function createBudget(
+	input: CreateBudgetData,
+	now: Date = new Date(),
+	id: string = `budget-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`
+): Budget {
+	const budget = stored({
+		...input,
+		id,
+		name: input.name.trim(),
+		amount: round2(Math.abs(input.amount)),
+		period: input.period ?? 'monthly',
+		rollover: input.rollover,
+		categories: input.categories ?? [],
+		createdAt: now.toISOString(),
+		updatedAt: now.toISOString(),
+	});
+	validate(budget);
+	return budget;
+}
+
+export function updateBudget(
+	budget: Budget,
+	patch: UpdateBudgetData,
+	now: Date = new Date()
+): Budget {
+	const next = stored({
+		...budget,
+		...patch,
+		name: patch.name?.trim() ?? budget.name,
+		amount: patch.amount != null ? round2(Math.abs(patch.amount)) : budget.amount,
+		updatedAt: now.toISOString(),
+	});
+	validate(next);
+	return next;
+}
@@ -0,0 +1,332 @@
+/**
+ * User-defined categories. Transactions keep the category *name* in
+ * `metadata.category`, so renames and merges return `CategoryRewrite`s that
+ * the category context applies to existing transactions. Categories nest one
+ * level (parent → child) and breakdowns can roll children up into their
+ * parent with `categoryRollup`. Everything here is pure.
+ */
+import type { Transaction } from '../context/transactionContext';
+
+export type CategoryKind = 'expense' | 'income';
+
+export type Category = {
+	id: string;
+	name: string;
+	kind: CategoryKind;
+	/** Parent category id; parents are top-level, so there is one level of nesting. */
+	parentId?: string;
+	/** Ionicons name. */
+	icon: string;
+	/** Hex color. */
+	color: string;
+	/** Hidden from pickers; existing transactions keep the name. */
+	archived?: boolean;
+};
+
+export type CategoryInput = {
+	name: string;
+	kind: CategoryKind;
+	parentId?: string;
+	icon?: string;
+	color?: string;
+};
+
+/** Rename `from` to `to` on every transaction of `kind` that has it (case-insensitive). */
+export type CategoryRewrite = { kind: CategoryKind; from: string; to: string };
+
+export type CategoryChange = {
+	categories: Category[];
+	rewrites: CategoryRewrite[];
+};
+
+export const CATEGORY_COLORS = [
+	'#F97316',
+	'#EAB308',
+	'#22C55E',
+	'#14B8A6',
+	'#0EA5E9',
+	'#6366F1',
+	'#A855F7',
+	'#EC4899',
+	'#EF4444',
+	'#64748B',
+];
+
+export const CATEGORY_ICONS = [
+	'pricetag-outline',
+	'restaurant-outline',
+	'cart-outline',
+	'cafe-outline',
+	'car-outline',
+	'film-outline',
+	'bag-outline',
+	'sparkles-outline',
+	'flash-outline',
+	'home-outline',
+	'medkit-outline',
+	'gift-outline',
+	'airplane-outline',
+	'school-outline',
+	'paw-outline',
+	'cash-outline',
+	'briefcase-outline',
+	'trending-up-outline',
+	'refresh-outline',
+];
+
+const seed = (
+	kind: CategoryKind,
+	name: string,
+	icon: string,
+	color: string
+): Category => ({
+	id: `${kind}-${slug(name)}`,
+	name,
+	kind,
+	icon,
+	color,
+});
+
+/** The categories the ledger shipped with, used until the user changes anything. */
+export const DEFAULT_CATEGORIES: Category[] = [
+	seed('expense', 'Food', 'restaurant-outline', '#F97316'),
+	seed('expense', 'Groceries', 'cart-outline', '#22C55E'),
+	seed('expense', 'Drinks', 'cafe-outline', '#EAB308'),
+	seed('expense', 'Transportation', 'car-outline', '#0EA5E9'),
+	seed('expense', 'Entertainment', 'film-outline', '#A855F7'),
+	seed('expense', 'Shopping', 'bag-outline', '#EC4899'),
+	seed('expense', 'Personal care', 'sparkles-outline', '#14B8A6'),
+	seed('expense', 'Bills & utilities', 'flash-outline', '#6366F1'),
+	seed('expense', 'Household', 'home-outline', '#64748B'),
+	seed('expense', 'Health', 'medkit-outline', '#EF4444'),
+	seed('expense', 'Gifts & donations', 'gift-outline', '#EC4899'),
+	seed('expense', 'Other', 'pricetag-outline', '#64748B'),
+	seed('income', 'Paycheck', 'briefcase-outline', '#22C55E'),
+	seed('income', 'Freelance', 'cash-outline', '#14B8A6'),
+	seed('income', 'Bonus', 'sparkles-outline', '#EAB308'),
+	seed('income', 'Refund', 'refresh-outline', '#0EA5E9'),
+	seed('income', 'Interest', 'trending-up-outline', '#6366F1'),
+	seed('income', 'Investment', 'trending-up-outline', '#A855F7'),
+	seed('income', 'Gift', 'gift-outline', '#EC4899'),
+	seed('income', 'Other', 'pricetag-outline', '#64748B'),
+];
+
+function slug(name: string): string {
+	return name
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-|-$/g, '');
+}
+
+function sameName(a: string, b: string): boolean {
+	return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Look a category up by name, ignoring case; failing that, ignoring
+ * punctuation too, so a `#bills-utilities` tag finds "Bills & utilities".
+ * Active categories win over archived ones.
+ */
+export function findCategoryByName(
+	categories: Category[],
+	name: string | undefined,
+	kind?: CategoryKind
+): Category | undefined {
+	if (!name?.trim()) return undefined;
+	const ofKind = categories.filter((c) => !kind || c.kind === kind);
+	let matches = ofKind.filter((c) => sameName(c.name, name));
+	if (matches.length === 0) matches = ofKind.filter((c) => slug(c.name) === slug(name));
+	return matches.find((c) => !c.archived) ?? matches[0];
+}
+
+/** Active categories of one kind, each parent followed by its children, alphabetical within a level. */
+export function orderedCategories(
+	categories: Category[],
+	kind: CategoryKind,
+	options: { includeArchived?: boolean } = {}
+): Category[] {
+	const visible = categories.filter(
+		(c) => c.kind === kind && (options.includeArchived || !c.archived)
+	);
+	const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+	const ids = new Set(visible.map((c) => c.id));
+	const roots = visible.filter((c) => !c.parentId || !ids.has(c.parentId)).sort(byName);
+	return roots.flatMap((root) => [
+		root,
+		...visible.filter((c) => c.parentId === root.id).sort(byName),
+	]);
+}
+
+function validate(
+	categories: Category[],
+	candidate: Category,
+	ignoreId?: string
+): void {
+	const name = candidate.name.trim();
+	if (!name) throw new Error('Category name is required.');
+	const clash = categories.find(
+		(c) => c.id !== ignoreId && c.kind === candidate.kind && sameName(c.name, name)
+	);
+	if (clash) throw new Error(`A category named "${clash.name}" already exists.`);
+	if (candidate.parentId) {
+		const parent = categories.find((c) => c.id === candidate.parentId);
+		if (!parent) throw new Error('Parent category not found.');
+		if (parent.kind !== candidate.kind) {
+			throw new Error('A subcategory must be the same kind as its parent.');
+		}
+		if (parent.parentId) throw new Error('Subcategories cannot have their own subcategories.');
+		if (parent.id === ignoreId) throw new Error('A category cannot be its own parent.');
+		if (ignoreId && categories.some((c) => c.parentId === ignoreId)) {
+			throw new Error('A category with subcategories cannot become a subcategory.');
+		}
+	}
+}
+
+export function createCategory(
+	categories: Category[],
+	input: CategoryInput,
+	id: string = `cat-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+): Category[] {
+	const category: Category = {
+		id,
+		name: input.name.trim(),
+		kind: input.kind,
+		parentId: input.parentId,
+		icon: input.icon ?? 'pricetag-outline',
+		color: input.color ?? CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length],
+	};
+	validate(categories, category);
+	return [...categories, category];
+}
+
+/**
+ * Update a category. A name change returns a rewrite; the kind cannot change
+ * because transactions of the other type would then point at it.
+ */
+export function updateCategory(
+	categories: Category[],
+	id: string,
+	patch: Partial<Pick<Category, 'name' | 'parentId' | 'icon' | 'color'>>
+): CategoryChange {
+	const current = categories.find((c) => c.id === id);
+	if (!current) throw new Error('Category not found.');
+	const next: Category = {
+		...current,
+		...patch,
+		name: (patch.name ?? current.name).trim(),
+	};
+	if (!next.parentId) delete next.parentId;
+	validate(categories, next, id);
+	return {
+		categories: categories.map((c) => (c.id === id ? next : c)),
+		rewrites:
+			next.name !== current.name
+					? [{ kind: current.kind, from: current.name, to: next.name }]
+					: [],
+	};
+}
+
+/**
+ * Fold `sourceId` into `targetId`: transactions move to the target's name,
+ * the source's subcategories move under the target (or become top-level
+ * when the target is nested elsewhere; a target that was the source's own
+ * child moves up a level), and the source is removed.
+ */
+export function mergeCategories(
+	categories: Category[],
+	sourceId: string,
+	targetId: string
+): CategoryChange {
+	const source = categories.find((c) => c.id === sourceId);
+	const target = categories.find((c) => c.id === targetId);
+	if (!source || !target) throw new Error('Category not found.');
+	if (source.id === target.id) throw new Error('Choose a different category to merge into.');
+	if (source.kind !== target.kind) {
+		throw new Error('Only categories of the same kind can be merged.');
+	}
+	const newParent =
+		target.parentId && target.parentId !== sourceId ? undefined : target.id;
+	return {
+		categories: categories
+			.filter((c) => c.id !== sourceId)
+			.map((c) => {
+				if (c.parentId !== sourceId) return c;
+				const next: Category = { ...c };
+				delete next.parentId;
+				if (newParent && c.id !== targetId) next.parentId = newParent;
+				return next;
+			}),
+		rewrites: [{ kind: source.kind, from: source.name, to: target.name }],
+	};
+}
+
+export function setCategoryArchived(
+	categories: Category[],
+	id: string,
+	archived: boolean
+): Category[] {
+	return categories.map((c) =>
+		c.id === id || (archived && c.parentId === id) ? { ...c, archived } : c
+	);
+}
+
+/** Apply rewrites in order, so a rename followed by a merge lands on the final name. */
+export function rewriteCategoryName(
+	name: string,
+	kind: CategoryKind,
+	rewrites: CategoryRewrite[]
+): string {
+	return rewrites.reduce(
+		(current, r) => (r.kind === kind && sameName(current, r.from) ? r.to : current),
+		name
+	);
+}
+
+/**
+ * Transactions whose category, or any split line's category, changes under
+ * `rewrites`, with the new names applied.
+ */
+export function rewriteTransactionCategories(
+	transactions: Transaction[],
+	rewrites: CategoryRewrite[]
+): Transaction[] {
+	if (rewrites.length === 0) return [];
+	const changed: Transaction[] = [];
+	for (const tx of transactions) {
+		const kind = tx.type;
+		if (kind === 'transfer') continue;
+		const category = tx.metadata?.category;
+		const next = category ? rewriteCategoryName(category, kind, rewrites) : category;
+		const splits = tx.splits?.map((line) =>
+			line.category
+				? { ...line, category: rewriteCategoryName(line.category, kind, rewrites) }
+				: line
+		);
+		const splitsChanged = splits?.some((line, i) => line.category !== tx.splits![i].category);
+		if (next === category && !splitsChanged) continue;
+		changed.push({
+			...tx,
+			metadata: { ...tx.metadata, category: next },
+			...(splitsChanged ? { splits } : {}),
+		});
+	}
+	return changed;
+}
+
+/**
+ * Map a category name to its top-level parent's name (unknown names pass
+ * through). Breakdowns only split spending, so expense categories by default.
+ */
+export function categoryRollup(
+	categories: Category[],
+	kind: CategoryKind = 'expense'
+): (name: string) => string {
+	const byId = new Map(categories.map((c) => [c.id, c]));
+	const parents = new Map<string, string>();
+	for (const c of categories) {
+		if (c.kind !== kind) continue;
+		const parent = c.parentId ? byId.get(c.parentId) : undefined;
+		if (parent) parents.set(c.name.trim().toLowerCase(), parent.name);
+	}
+	return (name) => parents.get(name.trim().toLowerCase()) ?? name;
+}
@@ -0,0 +1,267 @@
+/**
+ * Auto-categorization: user rules first, then what the user did last time.
+ * A rule matches a description (`contains` or a case-insensitive regex),
+ * optionally narrowed by type and amount range, and sets any of category,
+ * vendor and a cleaned-up description. When no rule matches, the history
+ * learned from past transactions supplies the category (and vendor) the
+ * user most often gave the same description. Everything here is pure.
+ */
+import type { Transaction } from '../context/transactionContext';
+import { rewriteCategoryName, type CategoryRewrite } from './categories';
+
+export type RuleMatch = 'contains' | 'regex';
+
+export type CategorizationRule = {
+	id: string;
+	match: RuleMatch;
+	pattern: string;
+	/** Only transactions of this type; both when unset. */
+	type?: 'income' | 'expense';
+	/** Inclusive bounds on the absolute amount. */
+	minAmount?: number;
+	maxAmount?: number;
+	category?: string;
+	vendor?: string;
+	/** Replaces the description; the original is kept in `metadata.originalDescription`. */
+	description?: string;
+	enabled: boolean;
+};
+
+export type RuleInput = Omit<CategorizationRule, 'id' | 'enabled'> & {
+	enabled?: boolean;
+};
+
+/** The fields auto-categorization reads from a capture draft or transaction. */
+export type CategorizableDraft = {
+	description: string;
+	amount: number;
+	type: 'income' | 'expense';
+};
+
+export type Categorization = {
+	category?: string;
+	vendor?: string;
+	description?: string;
+	/** Id of the rule that matched; unset when the result came from history. */
+	ruleId?: string;
+};
+
+export type HistoryEntry = { category: string; vendor?: string; count: number };
+
+/** `type:normalized description` → the category the user picks most for it. */
+export type CategoryHistory = Record<string, HistoryEntry>;
+
+/**
+ * Reduce a description to what identifies the merchant: lowercase, card
+ * processor prefixes and store/reference numbers dropped, punctuation and
+ * whitespace collapsed. `SQ *Blue Bottle #1234` and `blue bottle` agree.
+ */
+export function normalizeDescription(description: string): string {
+	return description
+		.toLowerCase()
+		.replace(/^(?:pos|debit|dbt|purchase|card|sq|tst|pp|paypal)\b\s*\*?\s*/g, '')
+		.replace(/[#*]?\d[\d-]*/g, ' ')
+		.replace(/[^\p{L}\p{N}&]+/gu, ' ')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+function compilePattern(pattern: string): RegExp | null {
+	try {
+		return new RegExp(pattern, 'i');
+	} catch {
+		return null;
+	}
+}
+
+/** Throws `Error` with a user-facing message when the rule cannot be saved. */
+export function validateRule(rule: RuleInput): void {
+	if (!rule.pattern.trim()) throw new Error('Enter text to match.');
+	if (rule.match === 'regex' && !compilePattern(rule.pattern)) {
+		throw new Error('That pattern is not a valid regular expression.');
+	}
+	const { minAmount, maxAmount } = rule;
+	if (
+		(minAmount != null && !(minAmount >= 0)) ||
+		(maxAmount != null && !(maxAmount >= 0))
+	) {
+		throw new Error('Amounts must be zero or more.');
+	}
+	if (minAmount != null && maxAmount != null && minAmount > maxAmount) {
+		throw new Error('The minimum amount is larger than the maximum.');
+	}
+	if (!rule.category?.trim() && !rule.vendor?.trim() && !rule.description?.trim()) {
+		throw new Error('Choose a category, vendor or description to set.');
+	}
+}
+
+export function ruleMatches(rule: CategorizationRule, draft: CategorizableDraft): boolean {
+	if (!rule.enabled) return false;
+	if (rule.type && rule.type !== draft.type) return false;
+	const amount = Math.abs(draft.amount);
+	if (rule.minAmount != null && amount < rule.minAmount) return false;
+	if (rule.maxAmount != null && amount > rule.maxAmount) return false;
+	if (rule.match === 'regex') {
+		return compilePattern(rule.pattern)?.test(draft.description) ?? false;
+	}
+	const needle = rule.pattern.trim().toLowerCase();
+	return needle.length > 0 && draft.description.toLowerCase().includes(needle);
+}
+
+/** First enabled rule that matches; rules are checked in list order. */
+export function findMatchingRule(
+	rules: CategorizationRule[],
+	draft: CategorizableDraft
+): CategorizationRule | undefined {
+	return rules.find((rule) => ruleMatches(rule, draft));
+}
+
+function historyKey(type: 'income' | 'expense', description: string): string | null {
+	const normalized = normalizeDescription(description);
+	return normalized ? `${type}:${normalized}` : null;
+}
+
+/**
+ * Learn from categorized transactions: for each description, the category
+ * used most often, ties going to the most recent one.
+ */
+export function learnCategoryHistory(transactions: Transaction[]): CategoryHistory {
+	const tallies = new Map<
+		string,
+		Map<string, { count: number; latest: string; vendor?: string }>
+	>();
+	for (const tx of transactions) {
+		if (tx.type === 'transfer') continue;
+		const category = tx.metadata?.category?.trim();
+		const key = tx.description ? historyKey(tx.type, tx.description) : null;
+		if (!category || !key) continue;
+		const byCategory = tallies.get(key) ?? new Map();
+		tallies.set(key, byCategory);
+		const tally = byCategory.get(category) ?? { count: 0, latest: '' };
+		tally.count += 1;
+		if (tx.date >= tally.latest) {
+			tally.latest = tx.date;
+			if (tx.vendor) tally.vendor = tx.vendor;
+		}
+		byCategory.set(category, tally);
+	}
+
+	const history: CategoryHistory = {};
+	for (const [key, byCategory] of tallies) {
+		let best: [string, { count: number; latest: string; vendor?: string }] | undefined;
+		for (const entry of byCategory) {
+			if (
+				!best ||
+				entry[1].count > best[1].count ||
+				(entry[1].count === best[1].count && entry[1].latest > best[1].latest)
+			) {
+				best = entry;
+			}
+		}
+		if (best) {
+			history[key] = { category: best[0], vendor: best[1].vendor, count: best[1].count };
+		}
+	}
+	return history;
+}
+
+/** What auto-categorization would set on a draft, or null when nothing applies. */
+export function categorizeDraft(
+	draft: CategorizableDraft,
+	rules: CategorizationRule[],
+	history: CategoryHistory = {}
+): Categorization | null {
+	const rule = findMatchingRule(rules, draft);
+	if (rule) {
+		return {
+			category: rule.category?.trim() || undefined,
+			vendor: rule.vendor?.trim() || undefined,
+			description: rule.description?.trim() || undefined,
+			ruleId: rule.id,
+		};
+	}
+	const key = historyKey(draft.type, draft.description);
+	const learned = key ? history[key] : undefined;
+	return learned ? { category: learned.category, vendor: learned.vendor } : null;
+}
+
+/**
+ * Run rules over existing transactions. Unlike capture, a matching rule
+ * replaces the category, vendor and description already there, since the
+ * user asked for it. Returns only the transactions that change.
+ */
+export function applyRulesToTransactions(
+	transactions: Transaction[],
+	rules: CategorizationRule[]
+): Transaction[] {
+	const changed: Transaction[] = [];
+	for (const tx of transactions) {
+		if (tx.type === 'transfer') continue;
+		const description = tx.description ?? '';
+		const rule = findMatchingRule(rules, {
+			description: tx.metadata?.originalDescription ?? description,
+			amount: tx.amount,
+			type: tx.type,
+		});
+		if (!rule) continue;
+
+		const next: Transaction = { ...tx, metadata: { ...tx.metadata } };
+		const category = rule.category?.trim();
+		const vendor = rule.vendor?.trim();
+		const cleaned = rule.description?.trim();
+		// A split keeps its per-line categories
+		if (category && !tx.splits?.length) next.metadata!.category = category;
+		if (vendor) next.vendor = vendor;
+		if (cleaned && cleaned !== description) {
+			next.description = cleaned;
+			next.metadata!.originalDescription = tx.metadata?.originalDescription ?? description;
+		}
+		if (
+			next.metadata!.category !== tx.metadata?.category ||
+			next.vendor !== tx.vendor ||
+			next.description !== tx.description
+		) {
+			changed.push(next);
+		}
+	}
+	return changed;
+}
+
+/**
+ * Rules whose category changes under `rewrites`, with the new names applied.
+ * A rule for both types follows a rename of either kind.
+ */
+export function rewriteRuleCategories(
+	rules: CategorizationRule[],
+	rewrites: CategoryRewrite[]
+): CategorizationRule[] {
+	const changed: CategorizationRule[] = [];
+	for (const rule of rules) {
+		if (!rule.category) continue;
+		const category = rewrites
+			.filter((r) => !rule.type || r.kind === rule.type)
+			.reduce((current, r) => rewriteCategoryName(current, r.kind, [r]), rule.category);
+		if (category !== rule.category) changed.push({ ...rule, category });
+	}
+	return changed;
+}
+
+export function createRule(
+	input: RuleInput,
+	id: string = `rule-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+): CategorizationRule {
+	validateRule(input);
+	const rule: CategorizationRule = {
+		id,
+		match: input.match,
+		pattern: input.pattern.trim(),
+		enabled: input.enabled ?? true,
+	};
+	if (input.type) rule.type = input.type;
+	if (input.minAmount != null) rule.minAmount = input.minAmount;
+	if (input.maxAmount != null) rule.maxAmount = input.maxAmount;
+	if (input.category?.trim()) rule.category = input.category.trim();
+	if (input.vendor?.trim()) rule.vendor = input.vendor.trim();
+	if (input.description?.trim()) rule.description = input.description.trim();
+	return rule;
+}
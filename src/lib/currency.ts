@@ -0,0 +1,289 @@
+/**
+ * Multi-currency: each transaction keeps the amount it was logged in
+ * (`tx.currency`, unset meaning the home currency) and totals convert it
+ * with a local rate table. `rates[code]` is what one unit of `code` is worth
+ * in the home currency, so "1 EUR = 1.08 USD" is `{ EUR: 1.08 }` with a USD
+ * home. Everything here is pure.
+ */
+import type { Transaction, TransactionSplit } from '../context/transactionContext';
+
+export type CurrencySettings = {
+	/** ISO 4217 code totals are shown in. */
+	home: string;
+	/** Code → value of one unit in the home currency. */
+	rates: Record<string, number>;
+	/** ISO timestamp of the last rate change or import. */
+	updatedAt?: string;
+};
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+	home: DEFAULT_CURRENCY,
+	rates: {},
+};
+
+/** Offered in pickers and recognised as words on a capture line (`12 eur`). */
+export const COMMON_CURRENCIES = [
+	'USD',
+	'EUR',
+	'GBP',
+	'JPY',
+	'CAD',
+	'AUD',
+	'NZD',
+	'CHF',
+	'SEK',
+	'NOK',
+	'DKK',
+	'MXN',
+	'BRL',
+	'CNY',
+	'HKD',
+	'SGD',
+	'KRW',
+	'THB',
+	'INR',
+	'ZAR',
+];
+
+/** Symbols that name one currency unambiguously. `$` is left to the home currency. */
+export const CURRENCY_SYMBOLS: Record<string, string> = {
+	'€': 'EUR',
+	'£': 'GBP',
+	'¥': 'JPY',
+	'₩': 'KRW',
+	'₹': 'INR',
+};
+
+/** Uppercased code, or null when it is not three letters. */
+export function normalizeCurrencyCode(code: string | undefined): string | null {
+	const trimmed = code?.trim().toUpperCase() ?? '';
+	return /^[A-Z]{3}$/.test(trimmed) ? trimmed : null;
+}
+
+/** Minor-unit digits, e.g. 2 for USD and 0 for JPY. */
+export function currencyDecimals(code: string): number {
+	try {
+		return (
+			new Intl.NumberFormat('en-US', { style: 'currency', currency: code }).resolvedOptions()
+				.maximumFractionDigits ?? 2
+		);
+	} catch {
+		return 2;
+	}
+}
+
+export function roundTo(amount: number, code: string): number {
+	const factor = 10 ** currencyDecimals(code);
+	return Math.round(amount * factor) / factor;
+}
+
+/** `$`, `€`, `¥`…; the code itself when the platform has no symbol for it. */
+export function currencySymbol(code: string, locale = 'en-US'): string {
+	try {
+		const parts = new Intl.NumberFormat(locale, {
+			style: 'currency',
+			currency: code,
+			currencyDisplay: 'narrowSymbol',
+		}).formatToParts(0);
+		return parts.find((part) => part.type === 'currency')?.value ?? code;
+	} catch {
+		return code;
+	}
+}
+
+export function transactionCurrency(
+	tx: Pick<Transaction, 'currency'>,
+	home: string,
+): string {
+	return normalizeCurrencyCode(tx.currency) ?? home;
+}
+
+/** Value of one unit of `code` in the home currency; null when no rate is known. */
+export function rateToHome(code: string, settings: CurrencySettings): number | null {
+	if (code === settings.home) return 1;
+	const rate = settings.rates[code];
+	return rate != null && Number.isFinite(rate) && rate > 0 ? rate : null;
+}
+
+export function convertToHome(
+	amount: number,
+	code: string,
+	settings: CurrencySettings,
+): number | null {
+	const rate = rateToHome(code, settings);
+	return rate == null ? null : roundTo(amount * rate, settings.home);
+}
+
+/** Currencies used by `transactions` that have no rate, so their totals count them 1:1. */
+export function missingRates(
+	transactions: Pick<Transaction, 'currency'>[],
+	settings: CurrencySettings,
+): string[] {
+	const missing = new Set<string>();
+	for (const tx of transactions) {
+		const code = transactionCurrency(tx, settings.home);
+		if (rateToHome(code, settings) == null) missing.add(code);
+	}
+	return [...missing].sort();
+}
+
+function convertSplits(
+	splits: TransactionSplit[],
+	total: number,
+	rate: number,
+	home: string,
+): TransactionSplit[] {
+	// Round every line, then let the last one absorb the rounding so the lines still add up
+	const converted = splits.map((line) => ({ ...line, amount: roundTo(line.amount * rate, home) }));
+	const rest = converted.slice(0, -1).reduce((sum, line) => sum + line.amount, 0);
+	converted[converted.length - 1].amount = roundTo(Math.abs(total) - rest, home);
+	return converted;
+}
+
+/**
+ * Copies of `transactions` with amounts (and split lines) in the home
+ * currency, for totals and analytics. Amounts without a rate are left as
+ * they are; `missingRates` names those currencies.
+ */
+export function toHomeTransactions(
+	transactions: Transaction[],
+	settings: CurrencySettings,
+): Transaction[] {
+	return transactions.map((tx) => {
+		const code = transactionCurrency(tx, settings.home);
+		if (code === settings.home) return tx;
+		const rate = rateToHome(code, settings);
+		if (rate == null) return tx;
+		const amount = roundTo(Number(tx.amount) * rate, settings.home);
+		return {
+			...tx,
+			amount,
+			currency: settings.home,
+			splits: tx.splits?.length
+				? convertSplits(tx.splits, amount, rate, settings.home)
+				: tx.splits,
+		};
+	});
+}
+
+/** Throws `Error` with a user-facing message for an unusable rate. */
+export function setRate(
+	settings: CurrencySettings,
+	code: string,
+	rate: number,
+	now: Date = new Date(),
+): CurrencySettings {
+	const normalized = normalizeCurrencyCode(code);
+	if (!normalized) throw new Error('Use a three-letter currency code, e.g. EUR.');
+	if (normalized === settings.home) {
+		throw new Error(`${normalized} is your home currency.`);
+	}
+	if (!Number.isFinite(rate) || rate <= 0) {
+		throw new Error('Enter a rate greater than 0.');
+	}
+	return {
+		...settings,
+		rates: { ...settings.rates, [normalized]: rate },
+		updatedAt: now.toISOString(),
+	};
+}
+
+export function removeRate(settings: CurrencySettings, code: string): CurrencySettings {
+	const rates = { ...settings.rates };
+	delete rates[code];
+	return { ...settings, rates };
+}
+
+/**
+ * The transactions with no currency of their own, stamped with `home`.
+ * Write these back before the home currency changes, or their amounts would
+ * be read in the new one.
+ */
+export function stampCurrency(transactions: Transaction[], home: string): Transaction[] {
+	return transactions
+		.filter((tx) => !normalizeCurrencyCode(tx.currency))
+		.map((tx) => ({ ...tx, currency: home }));
+}
+
+/**
+ * Switch the home currency, re-expressing every rate against it. The new
+ * home needs a rate first unless the table is empty.
+ */
+export function changeHomeCurrency(
+	settings: CurrencySettings,
+	code: string,
+): CurrencySettings {
+	const next = normalizeCurrencyCode(code);
+	if (!next) throw new Error('Use a three-letter currency code, e.g. EUR.');
+	if (next === settings.home) return settings;
+	if (Object.keys(settings.rates).length === 0) return { ...settings, home: next };
+	const pivot = settings.rates[next];
+	if (!pivot) {
+		throw new Error(`Add a rate for ${next} before making it your home currency.`);
+	}
+	const rates: Record<string, number> = { [settings.home]: 1 / pivot };
+	for (const [other, rate] of Object.entries(settings.rates)) {
+		if (other !== next) rates[other] = rate / pivot;
+	}
+	return { ...settings, home: next, rates };
+}
+
+/**
+ * Read a rate file. Accepted shapes:
+ * - CSV or plain lines `EUR,1.08` (also `;`, tab or `=` separated): one unit
+ *   of the code in the home currency, like the table itself;
+ * - JSON `{ "EUR": 1.08 }`, the same meaning;
+ * - JSON `{ "base": "EUR", "rates": { "USD": 1.08, … } }` as published by
+ *   rate services, where one `base` buys `rates[code]` of each code.
+ * Returns the rates to merge; throws `Error` when nothing usable is found.
+ */
+export function parseRatesFile(text: string, home: string): Record<string, number> {
+	const trimmed = text.replace(/^\uFEFF/, '').trim();
+	const rates: Record<string, number> = {};
+	const add = (code: string, rate: unknown) => {
+		const normalized = normalizeCurrencyCode(code);
+		const value = typeof rate === 'string' ? Number(rate.replace(',', '.')) : rate;
+		if (!normalized || normalized === home) return;
+		if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) return;
+		rates[normalized] = value;
+	};
+
+	if (trimmed.startsWith('{')) {
+		let json: unknown;
+		try {
+			json = JSON.parse(trimmed);
+		} catch {
+			throw new Error('The file is not valid JSON.');
+		}
+		const data = json as { base?: unknown; rates?: unknown };
+		if (typeof data.base === 'string' && data.rates && typeof data.rates === 'object') {
+			const base = normalizeCurrencyCode(data.base);
+			const quoted = data.rates as Record<string, unknown>;
+			// Home per base: 1 when the file is based on home, else how much home one base buys
+			const homePerBase = base === home ? 1 : Number(quoted[home]);
+			if (!base || !Number.isFinite(homePerBase) || homePerBase <= 0) {
+				throw new Error(`The file has no ${home} rate to convert from.`);
+			}
+			if (base !== home) rates[base] = homePerBase;
+			for (const [code, perBase] of Object.entries(quoted)) {
+				const value = Number(perBase);
+				if (Number.isFinite(value) && value > 0) add(code, homePerBase / value);
+			}
+		} else {
+			for (const [code, rate] of Object.entries(json as Record<string, unknown>)) {
+				add(code, rate);
+			}
+		}
+	} else {
+		for (const line of trimmed.split(/\r?\n/)) {
+			// Split at the first separator only, so `JPY;0,0067` keeps its decimal comma
+			const match = line.match(/^\s*([A-Za-z]{3})\s*[,;\t=]\s*(.+?)\s*$/);
+			if (match) add(match[1], match[2]);
+		}
+	}
+
+	if (Object.keys(rates).length === 0) throw new Error('No exchange rates found in the file.');
+	return rates;
+}
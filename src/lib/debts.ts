@@ -0,0 +1,346 @@
+/**
+ * Debts and payoff planning. A debt's balance is what was owed on
+ * `balanceDate`; payments are the transactions linked to it with
+ * `target`/`targetModel: 'Debt'` dated on or after that, counted by size
+ * whatever their type. Setting the balance again moves `balanceDate`, so
+ * payments already in it aren't subtracted twice. Interest isn't charged on
+ * the tracked balance, only in the plans.
+ *
+ * Plans pay a fixed amount each month, starting next month: interest accrues
+ * monthly at APR / 12, every debt gets its minimum, and the rest goes to one
+ * debt at a time in strategy order. A paid-off debt's minimum rolls into the
+ * next one. Everything here is pure; pass `now` for deterministic results.
+ */
+import type { Transaction } from '../context/transactionContext';
+import { toYmd } from './week-analytics';
+
+export type PayoffStrategy = 'avalanche' | 'snowball';
+
+export const PAYOFF_STRATEGIES: { strategy: PayoffStrategy; label: string; hint: string }[] = [
+	{ strategy: 'avalanche', label: 'Avalanche', hint: 'Highest interest rate first' },
+	{ strategy: 'snowball', label: 'Snowball', hint: 'Smallest balance first' },
+];
+
+export type Debt = {
+	id: string;
+	name: string;
+	/** Owed on `balanceDate`. */
+	balance: number;
+	/** YYYY-MM-DD; payments from this day on reduce the balance. */
+	balanceDate: string;
+	/** Annual rate, in percent. */
+	apr: number;
+	minPayment: number;
+	/** Day of the month the payment is due, 1–31; shorter months use their last day. */
+	dueDay: number;
+	createdAt: string;
+	updatedAt: string;
+};
+
+export type DebtInput = {
+	name: string;
+	balance: number;
+	apr: number;
+	minPayment: number;
+	dueDay: number;
+};
+
+export type DebtPayment = {
+	transactionId: string;
+	/** YYYY-MM-DD */
+	date: string;
+	amount: number;
+	description?: string;
+};
+
+export type LocalDebt = Debt & {
+	/** Newest first. */
+	payments: DebtPayment[];
+	paid: number;
+	/** `balance` less the payments since. */
+	currentBalance: number;
+	isPaidOff: boolean;
+	/** YYYY-MM-DD */
+	nextDueDate: string;
+};
+
+/** What a plan needs of a debt. */
+export type PlanDebt = Pick<Debt, 'id' | 'apr' | 'minPayment'> & { balance: number };
+
+export type PayoffMonth = {
+	/** YYYY-MM */
+	month: string;
+	/** Debt id → amount paid, interest charged and balance after, for debts still open. */
+	payments: Record<string, number>;
+	interest: Record<string, number>;
+	balances: Record<string, number>;
+};
+
+export type PayoffPlan = {
+	strategy: PayoffStrategy;
+	/** Paid each month; never less than the minimums together. */
+	monthlyPayment: number;
+	months: PayoffMonth[];
+	totalInterest: number;
+	totalPaid: number;
+	/** Debt id → YYYY-MM of its last payment, or null if the plan never clears it. */
+	payoffMonths: Record<string, string | null>;
+	/** YYYY-MM of the last payment, or null when the payments don't outpace interest. */
+	debtFreeMonth: string | null;
+};
+
+export type PayoffComparison = {
+	avalanche: PayoffPlan;
+	snowball: PayoffPlan;
+	/** Each debt paying only its own minimum, with nothing rolled over. */
+	minimumsOnly: PayoffPlan;
+	/** Interest avalanche saves over snowball; zero when they match. */
+	avalancheSaves: number;
+};
+
+/** Plans stop after this many months; a longer payoff reads as never. */
+export const MAX_PLAN_MONTHS = 600;
+
+function round2(n: number): number {
+	return Math.round(n * 100) / 100;
+}
+
+function lastDayOfMonth(year: number, monthIndex: number): number {
+	return new Date(year, monthIndex + 1, 0).getDate();
+}
+
+function addMonths(now: Date, months: number): string {
+	const d = new Date(now.getFullYear(), now.getMonth() + months, 1);
+	return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/** The next `dueDay` on or after today. */
+export function nextDueDate(dueDay: number, now: Date = new Date()): string {
+	const year = now.getFullYear();
+	const month = now.getMonth();
+	const thisMonth = Math.min(dueDay, lastDayOfMonth(year, month));
+	if (thisMonth >= now.getDate()) return toYmd(new Date(year, month, thisMonth));
+	return toYmd(new Date(year, month + 1, Math.min(dueDay, lastDayOfMonth(year, month + 1))));
+}
+
+/** Transactions linked to `debt` since its balance was set, newest first. */
+export function debtPayments(
+	debt: Pick<Debt, 'id' | 'balanceDate'>,
+	transactions: Transaction[]
+): DebtPayment[] {
+	return transactions
+		.filter(
+			(tx) =>
+				tx.targetModel === 'Debt' &&
+				tx.target === debt.id &&
+				tx.date &&
+				tx.date.slice(0, 10) >= debt.balanceDate
+		)
+		.map((tx) => ({
+			transactionId: tx.id,
+			date: tx.date.slice(0, 10),
+			amount: round2(Math.abs(Number(tx.amount) || 0)),
+			description: tx.description,
+		}))
+		.filter((p) => p.amount > 0)
+		.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/** The debt with its payments and current balance filled in. */
+export function debtProgress(
+	debt: Debt,
+	transactions: Transaction[],
+	now: Date = new Date()
+): LocalDebt {
+	const payments = debtPayments(debt, transactions);
+	const paid = round2(payments.reduce((sum, p) => sum + p.amount, 0));
+	const currentBalance = round2(Math.max(0, debt.balance - paid));
+	return {
+		...debt,
+		payments,
+		paid,
+		currentBalance,
+		isPaidOff: currentBalance === 0,
+		nextDueDate: nextDueDate(debt.dueDay, now),
+	};
+}
+
+/** Ids in the order extra payments go to them. */
+export function payoffOrder(debts: PlanDebt[], strategy: PayoffStrategy): string[] {
+	return [...debts]
+		.sort((a, b) =>
+			strategy === 'avalanche'
+				? b.apr - a.apr || a.balance - b.balance
+				: a.balance - b.balance || b.apr - a.apr
+		)
+		.map((d) => d.id);
+}
+
+function simulate(
+	debts: PlanDebt[],
+	strategy: PayoffStrategy,
+	monthlyPayment: number,
+	rollover: boolean,
+	now: Date
+): PayoffPlan {
+	const order = payoffOrder(debts, strategy);
+	const byId = new Map(debts.map((d) => [d.id, d]));
+	const balances = new Map(debts.map((d) => [d.id, round2(Math.max(0, d.balance))]));
+	const payoffMonths: Record<string, string | null> = Object.fromEntries(
+		debts.map((d) => [d.id, d.balance > 0 ? null : addMonths(now, 0)])
+	);
+	const months: PayoffMonth[] = [];
+	let totalInterest = 0;
+	let totalPaid = 0;
+	let owed = [...balances.values()].reduce((sum, b) => sum + b, 0);
+
+	for (let i = 1; owed > 0 && i <= MAX_PLAN_MONTHS; i++) {
+		const row: PayoffMonth = { month: addMonths(now, i), payments: {}, interest: {}, balances: {} };
+		const open = order.filter((id) => balances.get(id)! > 0);
+		for (const id of open) {
+			const interest = round2((balances.get(id)! * byId.get(id)!.apr) / 1200);
+			row.interest[id] = interest;
+			row.payments[id] = 0;
+			balances.set(id, round2(balances.get(id)! + interest));
+			totalInterest += interest;
+		}
+		let pool = monthlyPayment;
+		const pay = (id: string, amount: number) => {
+			const paid = round2(Math.min(amount, balances.get(id)!, pool));
+			if (paid <= 0) return;
+			balances.set(id, round2(balances.get(id)! - paid));
+			row.payments[id] = round2(row.payments[id] + paid);
+			pool = round2(pool - paid);
+			totalPaid += paid;
+		};
+		for (const id of open) pay(id, byId.get(id)!.minPayment);
+		if (rollover) for (const id of open) pay(id, Infinity);
+
+		const before = owed;
+		owed = 0;
+		for (const id of open) {
+			const balance = balances.get(id)!;
+			row.balances[id] = balance;
+			owed = round2(owed + balance);
+			if (balance === 0) payoffMonths[id] = row.month;
+		}
+		months.push(row);
+		// Interest is outpacing the payments; it would never end
+		if (owed >= before) break;
+	}
+
+	return {
+		strategy,
+		monthlyPayment,
+		months,
+		totalInterest: round2(totalInterest),
+		totalPaid: round2(totalPaid),
+		payoffMonths,
+		debtFreeMonth: owed > 0 ? null : (months[months.length - 1]?.month ?? addMonths(now, 0)),
+	};
+}
+
+/** What every debt's minimum adds up to. */
+export function minimumPayment(debts: PlanDebt[]): number {
+	return round2(
+		debts.filter((d) => d.balance > 0).reduce((sum, d) => sum + d.minPayment, 0)
+	);
+}
+
+/**
+ * Month-by-month schedule paying `monthlyPayment` in total, raised to the
+ * minimums when it's short of them.
+ */
+export function payoffPlan(
+	debts: PlanDebt[],
+	strategy: PayoffStrategy,
+	monthlyPayment: number,
+	now: Date = new Date()
+): PayoffPlan {
+	const payment = Math.max(round2(monthlyPayment) || 0, minimumPayment(debts));
+	return simulate(debts, strategy, payment, true, now);
+}
+
+/** Both strategies at the same monthly payment, and paying only the minimums. */
+export function comparePayoffPlans(
+	debts: PlanDebt[],
+	monthlyPayment: number,
+	now: Date = new Date()
+): PayoffComparison {
+	const avalanche = payoffPlan(debts, 'avalanche', monthlyPayment, now);
+	const snowball = payoffPlan(debts, 'snowball', monthlyPayment, now);
+	return {
+		avalanche,
+		snowball,
+		minimumsOnly: simulate(debts, 'avalanche', minimumPayment(debts), false, now),
+		avalancheSaves: round2(Math.max(0, snowball.totalInterest - avalanche.totalInterest)),
+	};
+}
+
+/** The debts as of today, for planning. */
+export function planDebts(debts: LocalDebt[]): PlanDebt[] {
+	return debts
+		.filter((d) => !d.isPaidOff)
+		.map((d) => ({ id: d.id, balance: d.currentBalance, apr: d.apr, minPayment: d.minPayment }));
+}
+
+function validate(debt: Debt): void {
+	if (!debt.name.trim()) throw new Error('Give the debt a name.');
+	if (!Number.isFinite(debt.balance) || debt.balance < 0) {
+		throw new Error('Enter a balance of 0 or more.');
+	}
+	if (!Number.isFinite(debt.apr) || debt.apr < 0 || debt.apr > 100) {
+		throw new Error('Enter an interest rate between 0 and 100%.');
+	}
+	if (!Number.isFinite(debt.minPayment) || debt.minPayment <= 0) {
+		throw new Error('Enter a minimum payment greater than 0.');
+	}
+	if (!Number.isInteger(debt.dueDay) || debt.dueDay < 1 || debt.dueDay > 31) {
+		throw new Error('Pick a due day from 1 to 31.');
+	}
+}
+
+export function createDebt(
+	debts: Debt[],
+	input: DebtInput,
+	now: Date = new Date(),
+	id: string = `debt-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`
+): Debt[] {
+	const debt: Debt = {
+		id,
+		name: input.name.trim(),
+		balance: round2(input.balance),
+		balanceDate: toYmd(now),
+		apr: input.apr,
+		minPayment: round2(input.minPayment),
+		dueDay: input.dueDay,
+		createdAt: now.toISOString(),
+		updatedAt: now.toISOString(),
+	};
+	validate(debt);
+	return [...debts, debt];
+}
+
+/** A new balance counts from today; payments before it are taken to be in it. */
+export function updateDebt(
+	debts: Debt[],
+	id: string,
+	patch: Partial<DebtInput>,
+	now: Date = new Date()
+): Debt[] {
+	const debt = debts.find((d) => d.id === id);
+	if (!debt) throw new Error('Debt not found or already deleted.');
+	const balanceChanged = patch.balance != null && round2(patch.balance) !== debt.balance;
+	const next: Debt = {
+		...debt,
+		name: patch.name?.trim() ?? debt.name,
+		balance: patch.balance != null ? round2(patch.balance) : debt.balance,
+		balanceDate: balanceChanged ? toYmd(now) : debt.balanceDate,
+		apr: patch.apr ?? debt.apr,
+		minPayment: patch.minPayment != null ? round2(patch.minPayment) : debt.minPayment,
+		dueDay: patch.dueDay ?? debt.dueDay,
+		updatedAt: now.toISOString(),
+	};
+	validate(next);
+	return debts.map((d) => (d.id === id ? next : d));
+}
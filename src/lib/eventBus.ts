@@ -40,6 +40,8 @@ export const AppEvents = new AppEventEmitter();
 // Common event names
 export const EVT_AI_INSIGHTS_CHANGED = 'ai-insights-changed';
 export const EVT_ASSISTANT_CONFIG_CHANGED = 'assistant-config-changed';
+/** Stored budgets were rewritten outside the budget provider (e.g. a category rename). */
+export const EVT_BUDGETS_CHANGED = 'budgets-changed';
 
 export interface AIInsightsChangedEvent {
 	enabled: boolean;
@@ -0,0 +1,246 @@
+/**
+ * On-device savings goals. A goal's progress is what was set by hand
+ * (`current`, e.g. savings from before tracking) plus its contributions: the
+ * transactions linked to it with `target`/`targetModel: 'Goal'`, counted by
+ * size whatever their type. Contributions are never stored, only summed.
+ *
+ * The completion date is projected from the recent saving rate (the last 12
+ * weeks) and compared with the deadline for an on track / behind status.
+ * Everything here is pure; pass `now` for deterministic results.
+ */
+import type { CreateGoalData, Goal, UpdateGoalData } from '../context/goalContext';
+import type { Transaction } from '../context/transactionContext';
+import { toYmd } from './week-analytics';
+
+export type GoalStatus = 'completed' | 'on_track' | 'behind' | 'overdue' | 'not_started';
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+	completed: 'Reached',
+	on_track: 'On track',
+	behind: 'Behind',
+	overdue: 'Past its date',
+	not_started: 'Not started',
+};
+
+export type GoalContribution = {
+	transactionId: string;
+	/** YYYY-MM-DD */
+	date: string;
+	amount: number;
+	description?: string;
+};
+
+export type LocalGoal = Goal & {
+	/** Set by hand; `current` adds the contributions to it. */
+	startingAmount: number;
+	contributed: number;
+	/** Newest first. */
+	contributions: GoalContribution[];
+	remaining: number;
+	/** Average saved per week over the recent window. */
+	ratePerWeek: number;
+	/** Per week needed from today to finish by the deadline. */
+	requiredPerWeek: number;
+	/** When the goal completes at `ratePerWeek`; null when complete or not saving. */
+	projectedDate: string | null;
+	status: GoalStatus;
+	isCompleted: boolean;
+	isOverdue: boolean;
+	daysLeft: number;
+	percent: number;
+};
+
+export type GoalOptions = {
+	/** Clock for today; defaults to the current time. */
+	now?: Date;
+};
+
+/** Contributions in this many days set the saving rate. */
+export const RATE_WINDOW_DAYS = 84;
+
+/** The rate is averaged over at least a week, so one early deposit doesn't project a sprint. */
+const MIN_RATE_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function fromYmd(ymd: string): Date {
+	const [y, m, d] = ymd.split('-').map(Number);
+	return new Date(y, m - 1, d);
+}
+
+function addDays(ymd: string, days: number): string {
+	const d = fromYmd(ymd);
+	d.setDate(d.getDate() + days);
+	return toYmd(d);
+}
+
+/** Whole days from `a` to `b` (YYYY-MM-DD), negative when `b` is earlier. */
+function daysBetween(a: string, b: string): number {
+	return Math.round((fromYmd(b).getTime() - fromYmd(a).getTime()) / DAY_MS);
+}
+
+function round2(n: number): number {
+	return Math.round(n * 100) / 100;
+}
+
+function isYmd(value: string): boolean {
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+	return toYmd(fromYmd(value)) === value;
+}
+
+/** Transactions linked to `goal`, newest first. */
+export function goalContributions(
+	goal: Pick<Goal, 'id'>,
+	transactions: Transaction[]
+): GoalContribution[] {
+	return transactions
+		.filter((tx) => tx.targetModel === 'Goal' && tx.target === goal.id && tx.date)
+		.map((tx) => ({
+			transactionId: tx.id,
+			date: tx.date.slice(0, 10),
+			amount: round2(Math.abs(Number(tx.amount) || 0)),
+			description: tx.description,
+		}))
+		.filter((c) => c.amount > 0)
+		.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * When `remaining` is saved at `perWeek` starting today, or null when
+ * nothing is put aside.
+ */
+export function projectCompletion(
+	remaining: number,
+	perWeek: number,
+	now: Date = new Date()
+): string | null {
+	const today = toYmd(now);
+	if (remaining <= 0) return today;
+	if (!(perWeek > 0)) return null;
+	return addDays(today, Math.ceil(remaining / (perWeek / 7)));
+}
+
+/** The goal with its contributions, projection and status filled in. */
+export function goalProgress(
+	goal: Goal,
+	transactions: Transaction[],
+	options: GoalOptions = {}
+): LocalGoal {
+	const today = toYmd(options.now ?? new Date());
+	const deadline = goal.deadline.slice(0, 10);
+	const contributions = goalContributions(goal, transactions);
+	const startingAmount = round2(goal.current || 0);
+	const contributed = round2(contributions.reduce((sum, c) => sum + c.amount, 0));
+	const current = round2(startingAmount + contributed);
+	const remaining = round2(Math.max(0, goal.target - current));
+	const isCompleted = current >= goal.target;
+	const daysLeft = Math.max(0, daysBetween(today, deadline));
+	const isOverdue = !isCompleted && today > deadline;
+
+	// Averaged from the window start, or from when saving began if that is later
+	const windowStart = addDays(today, -(RATE_WINDOW_DAYS - 1));
+	const recent = contributions.filter((c) => c.date >= windowStart && c.date <= today);
+	const firstDay = [goal.createdAt?.slice(0, 10), recent[recent.length - 1]?.date]
+		.filter((d): d is string => !!d)
+		.sort()[0];
+	const rateStart = firstDay && firstDay > windowStart ? firstDay : windowStart;
+	const rateDays = Math.max(MIN_RATE_DAYS, daysBetween(rateStart, today) + 1);
+	const ratePerWeek = round2((recent.reduce((sum, c) => sum + c.amount, 0) / rateDays) * 7);
+
+	const projectedDate = isCompleted ? null : projectCompletion(remaining, ratePerWeek, options.now);
+	const requiredPerWeek = isCompleted
+		? 0
+		: daysLeft > 0
+			? round2((remaining / daysLeft) * 7)
+			: remaining;
+
+	let status: GoalStatus;
+	if (isCompleted) status = 'completed';
+	else if (isOverdue) status = 'overdue';
+	else if (!projectedDate) status = contributions.length ? 'behind' : 'not_started';
+	else status = projectedDate <= deadline ? 'on_track' : 'behind';
+
+	return {
+		...goal,
+		current,
+		startingAmount,
+		contributed,
+		contributions,
+		remaining,
+		ratePerWeek,
+		requiredPerWeek,
+		projectedDate,
+		status,
+		isCompleted,
+		isOverdue,
+		daysLeft,
+		percent: goal.target > 0 ? Math.min(100, (current / goal.target) * 100) : 0,
+	};
+}
+
+function validate(goal: Goal): void {
+	if (!goal.name.trim()) throw new Error('Give the goal a name.');
+	if (!Number.isFinite(goal.target) || goal.target <= 0) {
+		throw new Error('Enter a target greater than 0.');
+	}
+	if (!isYmd(goal.deadline)) throw new Error('Pick a target date.');
+	if (!Number.isFinite(goal.current) || goal.current < 0) {
+		throw new Error('The amount saved so far can’t be negative.');
+	}
+}
+
+/** Only what defines a goal is stored; contributions are recomputed. */
+function stored(goal: Goal): Goal {
+	return {
+		id: goal.id,
+		name: goal.name,
+		target: goal.target,
+		current: goal.current,
+		deadline: goal.deadline,
+		icon: goal.icon,
+		color: goal.color,
+		categories: goal.categories,
+		createdAt: goal.createdAt,
+		updatedAt: goal.updatedAt,
+	};
+}
+
+export function createGoal(
+	input: CreateGoalData,
+	now: Date = new Date(),
+	id: string = `goal-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`
+): Goal {
+	const goal = stored({
+		...input,
+		id,
+		name: input.name.trim(),
+		target: round2(Math.abs(input.target)),
+		current: 0,
+		deadline: input.deadline.slice(0, 10),
+		categories: input.categories ?? [],
+		createdAt: now.toISOString(),
+		updatedAt: now.toISOString(),
+	});
+	validate(goal);
+	return goal;
+}
+
+export function updateGoal(goal: Goal, patch: UpdateGoalData, now: Date = new Date()): Goal {
+	const next = stored({
+		...goal,
+		...patch,
+		name: patch.name?.trim() ?? goal.name,
+		target: patch.target != null ? round2(Math.abs(patch.target)) : goal.target,
+		deadline: patch.deadline?.slice(0, 10) ?? goal.deadline,
+		updatedAt: now.toISOString(),
+	});
+	validate(next);
+	return next;
+}
+
+/** Sets the amount saved by hand; linked transactions still add to it. */
+export function setStartingAmount(goal: Goal, amount: number, now: Date = new Date()): Goal {
+	const next = stored({ ...goal, current: round2(amount), updatedAt: now.toISOString() });
+	validate(next);
+	return next;
+}
@@ -0,0 +1,332 @@
+/**
+ * Locale-aware formatting and parsing of money, numbers and dates. Every
+ * screen formats through here (usually via `useLocale` / `useCurrency`) and
+ * the capture parser reads amounts with `parseAmount`, so "1,200" means
+ * twelve hundred for en-US and 1.2 for de-DE. Separators, symbol placement,
+ * date order and the first day of the week are separate settings so users can
+ * mix them; `LOCALE_PRESETS` fills them in from a region. Everything here is
+ * pure.
+ */
+import { currencyDecimals, currencySymbol, DEFAULT_CURRENCY } from './currency';
+
+export type DecimalSeparator = '.' | ',';
+export type GroupSeparator = ',' | '.' | ' ' | "'" | '';
+export type SymbolPosition = 'before' | 'after';
+/** Order of day, month and year in dates. */
+export type DateFormat = 'ymd' | 'mdy' | 'dmy';
+/** 0 = Sunday, 1 = Monday. */
+export type WeekStart = 0 | 1;
+
+export type LocaleSettings = {
+	/** BCP 47 tag used for month and weekday names. */
+	locale: string;
+	decimalSeparator: DecimalSeparator;
+	groupSeparator: GroupSeparator;
+	symbolPosition: SymbolPosition;
+	dateOrder: DateFormat;
+	weekStartsOn: WeekStart;
+};
+
+export type LocalePreset = { label: string; settings: LocaleSettings };
+
+export const DEFAULT_LOCALE_SETTINGS: LocaleSettings = {
+	locale: 'en-US',
+	decimalSeparator: '.',
+	groupSeparator: ',',
+	symbolPosition: 'before',
+	dateOrder: 'mdy',
+	weekStartsOn: 0,
+};
+
+const preset = (
+	label: string,
+	locale: string,
+	decimalSeparator: DecimalSeparator,
+	groupSeparator: GroupSeparator,
+	symbolPosition: SymbolPosition,
+	dateOrder: DateFormat,
+	weekStartsOn: WeekStart,
+): LocalePreset => ({
+	label,
+	settings: { locale, decimalSeparator, groupSeparator, symbolPosition, dateOrder, weekStartsOn },
+});
+
+/** Regions offered in settings. Spelled out rather than read from `Intl`, which varies by engine. */
+export const LOCALE_PRESETS: LocalePreset[] = [
+	preset('United States', 'en-US', '.', ',', 'before', 'mdy', 0),
+	preset('United Kingdom', 'en-GB', '.', ',', 'before', 'dmy', 1),
+	preset('Canada', 'en-CA', '.', ',', 'before', 'ymd', 0),
+	preset('Australia', 'en-AU', '.', ',', 'before', 'dmy', 1),
+	preset('India', 'en-IN', '.', ',', 'before', 'dmy', 0),
+	preset('Germany', 'de-DE', ',', '.', 'after', 'dmy', 1),
+	preset('France', 'fr-FR', ',', ' ', 'after', 'dmy', 1),
+	preset('Spain', 'es-ES', ',', '.', 'after', 'dmy', 1),
+	preset('Italy', 'it-IT', ',', '.', 'after', 'dmy', 1),
+	preset('Netherlands', 'nl-NL', ',', '.', 'before', 'dmy', 1),
+	preset('Switzerland', 'de-CH', '.', "'", 'before', 'dmy', 1),
+	preset('Brazil', 'pt-BR', ',', '.', 'before', 'dmy', 0),
+	preset('Japan', 'ja-JP', '.', ',', 'before', 'ymd', 0),
+];
+
+/** The preset for a tag (`de-DE`, or just `de`), keeping the tag itself for names. */
+export function localePreset(tag: string | undefined): LocaleSettings {
+	if (!tag) return DEFAULT_LOCALE_SETTINGS;
+	const lower = tag.toLowerCase();
+	const match =
+		LOCALE_PRESETS.find((p) => p.settings.locale.toLowerCase() === lower) ??
+		LOCALE_PRESETS.find((p) => p.settings.locale.slice(0, 2).toLowerCase() === lower.slice(0, 2));
+	return { ...(match?.settings ?? DEFAULT_LOCALE_SETTINGS), locale: tag };
+}
+
+/**
+ * Apply a settings change, keeping the two separators apart: picking `,` as
+ * the decimal point moves a `,` grouping to `.` and the other way round.
+ */
+export function mergeLocaleSettings(
+	settings: LocaleSettings,
+	patch: Partial<LocaleSettings>,
+): LocaleSettings {
+	const next = { ...settings, ...patch };
+	if (next.decimalSeparator !== next.groupSeparator) return next;
+	if (patch.groupSeparator) {
+		return { ...next, decimalSeparator: next.groupSeparator === '.' ? ',' : '.' };
+	}
+	return { ...next, groupSeparator: next.decimalSeparator === '.' ? ',' : '.' };
+}
+
+/* ---------------------------------- Numbers --------------------------------- */
+
+export type NumberFormatOptions = {
+	/** Fraction digits; 2 by default. */
+	decimals?: number;
+	/** Group thousands; true by default. */
+	grouping?: boolean;
+};
+
+export function formatNumber(
+	value: number,
+	settings: LocaleSettings = DEFAULT_LOCALE_SETTINGS,
+	{ decimals = 2, grouping = true }: NumberFormatOptions = {},
+): string {
+	if (!Number.isFinite(value)) return '';
+	const [whole, fraction] = Math.abs(value).toFixed(decimals).split('.');
+	const grouped = grouping
+		? whole.replace(/\B(?=(\d{3})+(?!\d))/g, settings.groupSeparator)
+		: whole;
+	const negative = value < 0 && Number(`${whole}.${fraction ?? 0}`) !== 0;
+	return `${negative ? '-' : ''}${grouped}${fraction ? settings.decimalSeparator + fraction : ''}`;
+}
+
+export type MoneyFormatOptions = {
+	/** Fraction digits; the currency's own (2 for USD, 0 for JPY) by default. */
+	decimals?: number;
+};
+
+/** `$1,234.50`, `1.234,50 €`, `¥1,500`; the amount's sign goes in front. */
+export function formatMoney(
+	amount: number,
+	code: string = DEFAULT_CURRENCY,
+	settings: LocaleSettings = DEFAULT_LOCALE_SETTINGS,
+	{ decimals = currencyDecimals(code) }: MoneyFormatOptions = {},
+): string {
+	const number = formatNumber(Math.abs(amount), settings, { decimals });
+	const symbol = currencySymbol(code);
+	const sign = amount < 0 && /[1-9]/.test(number) ? '-' : '';
+	if (settings.symbolPosition === 'after') return `${sign}${number} ${symbol}`;
+	// Letter symbols (`CHF`) need a space; `$` and `€` sit against the number
+	return /\p{L}$/u.test(symbol) ? `${sign}${symbol} ${number}` : `${sign}${symbol}${number}`;
+}
+
+/**
+ * Digits with `.`/`,` separators → a JS number string, or null. When both
+ * separators appear the last one is the decimal point. A lone separator is the
+ * decimal point when it is the locale's, or when it is not followed by groups
+ * of exactly three digits (so en-US `12,50` still reads as 12.5).
+ */
+function normalizeDigits(text: string, decimal: DecimalSeparator): string | null {
+	if (!/^\d[\d.,]*$/.test(text) || /[.,]$/.test(text)) return null;
+	const lastDot = text.lastIndexOf('.');
+	const lastComma = text.lastIndexOf(',');
+	if (lastDot < 0 && lastComma < 0) return text;
+
+	let decimalMark: string | null;
+	if (lastDot >= 0 && lastComma >= 0) {
+		decimalMark = lastDot > lastComma ? '.' : ',';
+	} else {
+		const mark = lastDot >= 0 ? '.' : ',';
+		const groups = text.split(mark);
+		const groupsOfThree = groups.slice(1).every((group) => group.length === 3);
+		if (groups.length > 2) decimalMark = groupsOfThree ? null : '';
+		else if (mark === decimal) decimalMark = mark;
+		else decimalMark = groupsOfThree ? null : mark;
+	}
+	if (decimalMark === '') return null;
+
+	const [whole, ...rest] = decimalMark ? splitLast(text, decimalMark) : [text];
+	const digits = whole.replace(/[.,]/g, '');
+	if (rest.length && /[.,]/.test(rest[0])) return null;
+	return rest.length ? `${digits}.${rest[0]}` : digits;
+}
+
+function splitLast(text: string, mark: string): [string, string] {
+	const at = text.lastIndexOf(mark);
+	return [text.slice(0, at), text.slice(at + 1)];
+}
+
+/**
+ * Read an amount someone typed: separators per `normalizeDigits`, currency
+ * symbols and spaces ignored, `-12` and `(12)` negative. Null when there is
+ * no number.
+ */
+export function parseAmount(
+	input: string,
+	settings: LocaleSettings = DEFAULT_LOCALE_SETTINGS,
+): number | null {
+	let text = input.trim();
+	if (!text) return null;
+	let negative = false;
+	if (/^\(.*\)$/.test(text)) {
+		negative = true;
+		text = text.slice(1, -1);
+	}
+	if (/^[^\d]*-/.test(text)) negative = !negative;
+	const digits = text.replace(/[^\d.,]/g, '');
+	const normalized = normalizeDigits(digits, settings.decimalSeparator);
+	if (normalized == null) return null;
+	const n = Number(normalized);
+	if (!Number.isFinite(n)) return null;
+	return negative ? -n : n;
+}
+
+/**
+ * Clean an amount field as it is typed: digits and one decimal separator
+ * (the locale's) with at most two decimals, and no leading zeros.
+ */
+export function sanitizeAmountInput(
+	input: string,
+	settings: LocaleSettings = DEFAULT_LOCALE_SETTINGS,
+): string {
+	const mark = settings.decimalSeparator;
+	const cleaned = input.replace(mark === ',' ? /[^0-9,]/g : /[^0-9.]/g, '');
+	if (!cleaned) return '';
+	const [whole, ...rest] = cleaned.split(mark);
+	const normalizedWhole = whole.replace(/^0+(?=\d)/, '') || (rest.length ? '0' : '');
+	return rest.length > 0 ? `${normalizedWhole}${mark}${rest.join('').slice(0, 2)}` : normalizedWhole;
+}
+
+/* ----------------------------------- Dates ---------------------------------- */
+
+export type DateStyle =
+	/** `Mar 18` / `18 Mar` */
+	| 'monthDay'
+	/** `Mar 18, 2026` / `18 Mar 2026` */
+	| 'medium'
+	/** `Wednesday, March 18, 2026` / `Wednesday, 18 March 2026` */
+	| 'full'
+	/** `03/18/2026` / `18/03/2026` / `2026-03-18` */
+	| 'numeric'
+	/** `March 2026` */
+	| 'monthYear'
+	/** `Mar` */
+	| 'monthShort';
+
+const FALLBACK_MONTHS = [
+	'January',
+	'February',
+	'March',
+	'April',
+	'May',
+	'June',
+	'July',
+	'August',
+	'September',
+	'October',
+	'November',
+	'December',
+];
+const FALLBACK_WEEKDAYS = [
+	'Sunday',
+	'Monday',
+	'Tuesday',
+	'Wednesday',
+	'Thursday',
+	'Friday',
+	'Saturday',
+];
+
+function nameOf(
+	date: Date,
+	locale: string,
+	options: Intl.DateTimeFormatOptions,
+	fallback: string,
+): string {
+	try {
+		return new Intl.DateTimeFormat(locale, options).format(date);
+	} catch {
+		return fallback;
+	}
+}
+
+/** A `Date`, or a local date from `YYYY-MM-DD` (anything after the day is ignored). */
+export function toLocalDate(value: Date | string): Date | null {
+	if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+	const m = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+	if (!m) return null;
+	const date = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+	return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** Empty string for an unreadable date. */
+export function formatDate(
+	value: Date | string,
+	settings: LocaleSettings = DEFAULT_LOCALE_SETTINGS,
+	style: DateStyle = 'medium',
+): string {
+	const date = toLocalDate(value);
+	if (!date) return '';
+	const { locale, dateOrder } = settings;
+	const year = String(date.getFullYear());
+	const day = String(date.getDate());
+	const monthIndex = date.getMonth();
+	const short = () =>
+		nameOf(date, locale, { month: 'short' }, FALLBACK_MONTHS[monthIndex].slice(0, 3));
+	const long = () => nameOf(date, locale, { month: 'long' }, FALLBACK_MONTHS[monthIndex]);
+
+	switch (style) {
+		case 'monthShort':
+			return short();
+		case 'monthYear':
+			return dateOrder === 'ymd' ? `${year} ${long()}` : `${long()} ${year}`;
+		case 'numeric': {
+			const mm = String(monthIndex + 1).padStart(2, '0');
+			const dd = day.padStart(2, '0');
+			if (dateOrder === 'ymd') return `${year}-${mm}-${dd}`;
+			return dateOrder === 'dmy' ? `${dd}/${mm}/${year}` : `${mm}/${dd}/${year}`;
+		}
+		case 'monthDay':
+			return dateOrder === 'dmy' ? `${day} ${short()}` : `${short()} ${day}`;
+		case 'medium':
+			if (dateOrder === 'dmy') return `${day} ${short()} ${year}`;
+			return dateOrder === 'ymd' ? `${year} ${short()} ${day}` : `${short()} ${day}, ${year}`;
+		case 'full': {
+			const weekday = nameOf(date, locale, { weekday: 'long' }, FALLBACK_WEEKDAYS[date.getDay()]);
+			if (dateOrder === 'dmy') return `${weekday}, ${day} ${long()} ${year}`;
+			if (dateOrder === 'ymd') return `${weekday}, ${year} ${long()} ${day}`;
+			return `${weekday}, ${long()} ${day}, ${year}`;
+		}
+	}
+}
+
+/** Short weekday names starting at the configured first day of the week. */
+export function weekdayNames(settings: LocaleSettings = DEFAULT_LOCALE_SETTINGS): string[] {
+	// 2026-03-01 is a Sunday
+	return Array.from({ length: 7 }, (_, i) => {
+		const weekday = (settings.weekStartsOn + i) % 7;
+		return nameOf(
+			new Date(2026, 2, 1 + weekday),
+			settings.locale,
+			{ weekday: 'short' },
+			FALLBACK_WEEKDAYS[weekday].slice(0, 3),
+		);
+	});
+}
@@ -0,0 +1,124 @@
+/**
+ * OFX/QFX statement import. Handles OFX 1.x (SGML, leaf tags left unclosed)
+ * and 2.x (XML); QFX is OFX with extra Intuit tags, which are ignored. Each
+ * `STMTTRN` becomes an `ImportRow` for the same preview and
+ * `markImportDuplicates` step as CSV. The FITID (scoped by account when the
+ * statement names one) is the row's `sourceId` and is kept on the draft as
+ * `metadata.importId`, so an overlapping statement imported later is skipped.
+ */
+import type { Transaction } from '../context/transactionContext';
+import type { ImportRow } from './transactions-import';
+
+/** True when the text looks like an OFX/QFX document rather than CSV. */
+export function isOfxDocument(text: string): boolean {
+	const head = text.slice(0, 2000);
+	return /OFXHEADER\s*[:=]/i.test(head) || /<OFX>/i.test(head);
+}
+
+const ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+	nbsp: ' ',
+};
+
+function decodeEntities(value: string): string {
+	return value.replace(/&(#\d+|[a-z]+);/gi, (match, name: string) => {
+		if (name.startsWith('#')) return String.fromCharCode(Number(name.slice(1)));
+		return ENTITIES[name.toLowerCase()] ?? match;
+	});
+}
+
+/**
+ * First value of a leaf element inside `block`. Works for both `<NAME>x` (SGML)
+ * and `<NAME>x</NAME>` (XML) since the value stops at the next tag or newline.
+ */
+function leafValue(block: string, tag: string): string {
+	const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+	return m ? decodeEntities(m[1]).trim() : '';
+}
+
+/** `YYYYMMDD[HHMMSS[.XXX]][[-5:EST]]` → `YYYY-MM-DD`, in the statement's own day. */
+export function parseOfxDate(value: string): string | null {
+	const m = value.trim().match(/^(\d{4})(\d{2})(\d{2})/);
+	if (!m) return null;
+	const [month, day] = [m[2], m[3]].map(Number);
+	if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+	return `${m[1]}-${m[2]}-${m[3]}`;
+}
+
+/** OFX amounts are signed decimals; some banks write a comma decimal separator. */
+export function parseOfxAmount(value: string): number | null {
+	const text = value.trim().replace(/^\+/, '').replace(',', '.');
+	if (!/^-?\d*\.?\d+$/.test(text)) return null;
+	return Number(text);
+}
+
+function transactionBlocks(text: string): string[] {
+	const blocks: string[] = [];
+	const pattern = /<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>|$)/gi;
+	let m: RegExpExecArray | null;
+	while ((m = pattern.exec(text))) blocks.push(m[1]);
+	return blocks;
+}
+
+function stmtToImport(block: string, line: number, account: string): ImportRow {
+	const errors: string[] = [];
+
+	const rawDate = leafValue(block, 'DTPOSTED') || leafValue(block, 'DTUSER');
+	const date = parseOfxDate(rawDate);
+	if (!date) errors.push(`Unreadable date "${rawDate}"`);
+
+	const rawAmount = leafValue(block, 'TRNAMT');
+	const signed = parseOfxAmount(rawAmount);
+	if (signed == null || signed === 0) errors.push('Missing or zero amount');
+
+	const fitId = leafValue(block, 'FITID');
+	const sourceId = fitId ? `ofx:${account ? `${account}:` : ''}${fitId}` : undefined;
+	if (errors.length > 0) return { line, errors, duplicate: false, sourceId };
+
+	// NAME is the payee; MEMO is free text that often repeats or extends it
+	const name = leafValue(block, 'NAME');
+	const memo = leafValue(block, 'MEMO');
+	const type: Transaction['type'] = signed! > 0 ? 'income' : 'expense';
+	const amount = Math.abs(signed!);
+
+	return {
+		line,
+		errors,
+		duplicate: false,
+		sourceId,
+		draft: {
+			description: name || memo || 'Imported entry',
+			amount: type === 'income' ? amount : -amount,
+			date: date!,
+			type,
+			source: 'import',
+			vendor: name || undefined,
+			notes: memo && memo !== name ? memo : undefined,
+			metadata: {
+				originalDescription: [name, memo].filter(Boolean).join(' ') || undefined,
+				importId: sourceId,
+			},
+		},
+	};
+}
+
+/**
+ * Parse every `STMTTRN` in an OFX/QFX document, in file order. Bank and credit
+ * card statements are both read; FITIDs are scoped to their statement's account.
+ */
+export function buildOfxImportRows(text: string): ImportRow[] {
+	const start = text.search(/<OFX>/i);
+	const body = start >= 0 ? text.slice(start) : text;
+	const rows: ImportRow[] = [];
+	for (const statement of body.split(/<(?:CC)?STMTRS>/i).slice(1)) {
+		const account = leafValue(statement, 'ACCTID');
+		for (const block of transactionBlocks(statement)) {
+			rows.push(stmtToImport(block, rows.length + 1, account));
+		}
+	}
+	return rows;
+}
@@ -1,25 +1,226 @@
 /**
- * Parse a single capture line like `coffee 5.75` or `paycheck 1200`.
+ * Parse a single capture line like `coffee 5.75` or `paycheck 1200`, or a
+ * pasted batch like `coffee 5.75, bagel 3, paycheck 1200`.
  * Keep in sync with `apps/web/src/lib/parse-capture-line.ts`.
+ *
+ * Line grammar (shared with web — both clients must accept the same syntax):
+ * - `description amount` or `amount description`; the first number is the amount.
+ * - The amount is read in the user's number format (`options.locale`):
+ *   `1,200` is twelve hundred with a `.` decimal point and 1.2 with a `,`
+ *   one; `1.200,50` and `1,200.50` work either way.
+ * - Date tokens: `today`, `yesterday`, a weekday (`monday`, `tue`…, the most
+ *   recent one on or before today), `M/D`, `M/D/YY`, `M/D/YYYY` or
+ *   `YYYY-MM-DD`. An abbreviated weekday is a date only as the last word
+ *   left once tags are taken out (`coffee 5 mon`), so `sat nav 30` and
+ *   `sun cream 8` keep it in the description.
+ *   Slash dates are `D/M…` when the locale's date order is day-first. A slash
+ *   date without a year that lands in the future means last year.
+ * - `#category` sets the category; `-`/`_` become spaces (`#personal-care`).
+ * - `@method` sets the payment method (`@cash`, `@card`).
+ * - A currency code word (`eur`, `JPY`) or a symbol on the amount (`€12`,
+ *   `12€`, `¥1500`) logs the entry in that currency; `$` and no marker mean
+ *   the home currency.
+ * Tokens are whole words, may appear anywhere, and are removed from the
+ * description. Without a date token the entry is for today.
+ *
+ * Batch grammar: segments are separated by newlines, `;`, or a comma followed
+ * by whitespace. A comma with no space after it stays part of the amount
+ * (`5,75`, `1,200`). A segment with no amount (a date like `3/14` is not one)
+ * is glued onto the next one so descriptions like `lunch, tacos 12` survive.
  */
+import { COMMON_CURRENCIES, CURRENCY_SYMBOLS } from './currency';
+import { parseAmount, type LocaleSettings } from './locale';
+
 const INCOME_HINT = /paycheck|salary|deposit|income|paid me|reimbursement|refund/i;
-const NUMBER_IN_TEXT = /-?\$?\d[\d,]*(?:[.,]\d+)?/;
+const NUMBER_IN_TEXT = /-?[$€£¥₩₹]?\d(?:[\d.,]*\d)?[€£¥₩₹]?/;
+const CURRENCY_MARK = /[$€£¥₩₹]/;
+const SEGMENT_SEPARATOR = /\r?\n|;|,(?=\s)/;
+const SLASH_DATE = /^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/;
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const CATEGORY_TAG = /^#([\p{L}\p{N}][\p{L}\p{N}&_-]*)$/u;
+const PAYMENT_TAG = /^@([\p{L}\p{N}][\p{L}\p{N}_-]*)$/u;
+// The full name comes last; the others are abbreviations
+const WEEKDAYS = [
+	['sun', 'sunday'],
+	['mon', 'monday'],
+	['tue', 'tues', 'tuesday'],
+	['wed', 'weds', 'wednesday'],
+	['thu', 'thur', 'thurs', 'thursday'],
+	['fri', 'friday'],
+	['sat', 'saturday'],
+];
+
+export type CaptureParseOptions = {
+	/** Clock used to resolve relative dates; defaults to the current time. */
+	now?: Date;
+	/** Number format and date order; en-US when unset. */
+	locale?: LocaleSettings;
+};
 
-export function parseCaptureLine(line: string): {
+export type CaptureDraft = {
 	description: string;
 	type: 'income' | 'expense';
 	amount: number;
-} | null {
-	const trimmed = line.trim();
+	/** Local `YYYY-MM-DD`, only set when the line carried a date token. */
+	date?: string;
+	category?: string;
+	paymentMethod?: string;
+	/** ISO 4217 code, only set when the line named a currency. */
+	currency?: string;
+};
+
+export type CaptureBatchDraft = CaptureDraft & {
+	/** Position of the source segment in the pasted text. */
+	index: number;
+	segment: string;
+};
+
+export type CaptureSegmentError = {
+	index: number;
+	segment: string;
+	message: string;
+};
+
+export type CaptureBatch = {
+	drafts: CaptureBatchDraft[];
+	errors: CaptureSegmentError[];
+};
+
+function toYmd(d: Date): string {
+	const pad = (n: number) => String(n).padStart(2, '0');
+	return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function validDate(y: number, m: number, d: number): Date | null {
+	const date = new Date(y, m - 1, d);
+	if (
+		date.getFullYear() !== y ||
+		date.getMonth() !== m - 1 ||
+		date.getDate() !== d
+	) {
+		return null;
+	}
+	return date;
+}
+
+function resolveDateToken(
+	token: string,
+	now: Date,
+	dayFirst: boolean,
+	abbreviated = false,
+): string | null {
+	const lower = token.toLowerCase();
+	const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+	if (lower === 'today') return toYmd(today);
+	if (lower === 'yesterday') {
+		today.setDate(today.getDate() - 1);
+		return toYmd(today);
+	}
+
+	const weekday = WEEKDAYS.findIndex((names) =>
+		abbreviated ? names.includes(lower) : names[names.length - 1] === lower,
+	);
+	if (weekday >= 0) {
+		today.setDate(today.getDate() - ((today.getDay() - weekday + 7) % 7));
+		return toYmd(today);
+	}
+
+	const iso = token.match(ISO_DATE);
+	if (iso) {
+		const date = validDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+		return date ? toYmd(date) : null;
+	}
+
+	const slash = token.match(SLASH_DATE);
+	if (slash) {
+		const month = Number(slash[dayFirst ? 2 : 1]);
+		const day = Number(slash[dayFirst ? 1 : 2]);
+		if (slash[3]) {
+			const rawYear = Number(slash[3]);
+			const year = slash[3].length === 2 ? 2000 + rawYear : rawYear;
+			const date = validDate(year, month, day);
+			return date ? toYmd(date) : null;
+		}
+		let date = validDate(today.getFullYear(), month, day);
+		if (date && date.getTime() > today.getTime()) {
+			date = validDate(today.getFullYear() - 1, month, day);
+		}
+		return date ? toYmd(date) : null;
+	}
+
+	return null;
+}
+
+function categoryFromTag(tag: string): string {
+	const words = tag.replace(/[-_]+/g, ' ').trim();
+	return words.charAt(0).toUpperCase() + words.slice(1).toLowerCase();
+}
+
+type CaptureTokens = Pick<CaptureDraft, 'date' | 'category' | 'paymentMethod' | 'currency'>;
+
+/** Pull date, `#category`, `@method` and currency tokens out of a line; the rest is returned as `text`. */
+function extractCaptureTokens(
+	line: string,
+	now: Date,
+	dayFirst: boolean,
+): CaptureTokens & { text: string } {
+	const rest: string[] = [];
+	const found: CaptureTokens = {};
+
+	for (const token of line.split(/\s+/)) {
+		if (!token) continue;
+		const category = token.match(CATEGORY_TAG);
+		if (category && !found.category) {
+			found.category = categoryFromTag(category[1]);
+			continue;
+		}
+		const payment = token.match(PAYMENT_TAG);
+		if (payment && !found.paymentMethod) {
+			found.paymentMethod = payment[1].toLowerCase();
+			continue;
+		}
+		if (!found.currency && COMMON_CURRENCIES.includes(token.toUpperCase())) {
+			found.currency = token.toUpperCase();
+			continue;
+		}
+		if (!found.date) {
+			const date = resolveDateToken(token, now, dayFirst);
+			if (date) {
+				found.date = date;
+				continue;
+			}
+		}
+		rest.push(token);
+	}
+
+	const last = rest[rest.length - 1];
+	if (!found.date && last) {
+		const date = resolveDateToken(last, now, dayFirst, true);
+		if (date) {
+			found.date = date;
+			rest.pop();
+		}
+	}
+
+	return { ...found, text: rest.join(' ') };
+}
+
+export function parseCaptureLine(
+	line: string,
+	options: CaptureParseOptions = {},
+): CaptureDraft | null {
+	const { text, ...tokens } = extractCaptureTokens(
+		line.trim(),
+		options.now ?? new Date(),
+		options.locale?.dateOrder === 'dmy',
+	);
+	const trimmed = text.trim();
 	const amountMatch = trimmed.match(NUMBER_IN_TEXT);
 	if (!amountMatch || typeof amountMatch.index !== 'number') return null;
 
-	const rawAmountText = amountMatch[0].replace('$', '');
-	const amountText =
-		rawAmountText.includes(',') && !rawAmountText.includes('.')
-			? rawAmountText.replace(',', '.')
-			: rawAmountText.replaceAll(',', '');
-	const n = Number(amountText);
+	const symbol = amountMatch[0].match(CURRENCY_MARK)?.[0];
+	const n = parseAmount(amountMatch[0].replace(CURRENCY_MARK, ''), options.locale) ?? NaN;
 	const before = trimmed.slice(0, amountMatch.index).trim();
 	const after = trimmed
 		.slice(amountMatch.index + amountMatch[0].length)
@@ -28,8 +229,67 @@ export function parseCaptureLine(line: string): {
 	if (!description || !Number.isFinite(n) || n === 0) return null;
 
 	const isIncome = INCOME_HINT.test(trimmed);
-	if (isIncome) {
-		return { description, type: 'income', amount: Math.abs(n) };
+	const draft: CaptureDraft = isIncome
+		? { description, type: 'income', amount: Math.abs(n) }
+		: { description, type: 'expense', amount: -Math.abs(n) };
+	if (tokens.date) draft.date = tokens.date;
+	if (tokens.category) draft.category = tokens.category;
+	if (tokens.paymentMethod) draft.paymentMethod = tokens.paymentMethod;
+	const currency = tokens.currency ?? (symbol ? CURRENCY_SYMBOLS[symbol] : undefined);
+	if (currency) draft.currency = currency;
+	return draft;
+}
+
+/** True when `segment` has a number other than a date token. */
+function hasAmount(segment: string): boolean {
+	return segment
+		.split(/\s+/)
+		.some((token) => !SLASH_DATE.test(token) && !ISO_DATE.test(token) && NUMBER_IN_TEXT.test(token));
+}
+
+/** Split pasted text into capture segments (see grammar in the file header). */
+export function splitCaptureSegments(text: string): string[] {
+	const raw = text
+		.split(SEGMENT_SEPARATOR)
+		.map((s) => s.trim())
+		.filter(Boolean);
+
+	const segments: string[] = [];
+	let pending = '';
+	for (const part of raw) {
+		const joined = pending ? `${pending}, ${part}` : part;
+		if (hasAmount(part)) {
+			segments.push(joined);
+			pending = '';
+		} else {
+			pending = joined;
+		}
 	}
-	return { description, type: 'expense', amount: -Math.abs(n) };
+	if (pending) segments.push(pending);
+	return segments;
+}
+
+function segmentErrorMessage(segment: string): string {
+	if (!hasAmount(segment)) return 'Missing amount';
+	return 'Needs a description and a non-zero amount';
+}
+
+/** Parse every segment of a pasted line or block; invalid segments are reported, not dropped. */
+export function parseCaptureLines(
+	text: string,
+	options: CaptureParseOptions = {},
+): CaptureBatch {
+	const drafts: CaptureBatchDraft[] = [];
+	const errors: CaptureSegmentError[] = [];
+
+	splitCaptureSegments(text).forEach((segment, index) => {
+		const parsed = parseCaptureLine(segment, options);
+		if (parsed) {
+			drafts.push({ ...parsed, index, segment });
+		} else {
+			errors.push({ index, segment, message: segmentErrorMessage(segment) });
+		}
+	});
+
+	return { drafts, errors };
 }
@@ -0,0 +1,42 @@
+/**
+ * Quiet hours: a daily window (local "HH:MM" times) when pushes wait. Used by
+ * budget alerts, which defer to the end of the window, and by
+ * NotificationService, which suppresses. Windows that span midnight
+ * (22:00–08:00) end the next morning.
+ */
+
+export type QuietHours = { enabled: boolean; start: string; end: string };
+
+export const DEFAULT_QUIET_HOURS: QuietHours = { enabled: false, start: '22:00', end: '08:00' };
+
+/** "HH:MM" in 24-hour time, or null. Accepts "7:30" and "0730". */
+export function parseQuietTime(text: string): string | null {
+	const match = /^\s*(\d{1,2}):?(\d{2})\s*$/.exec(text);
+	if (!match) return null;
+	const hours = Number(match[1]);
+	const mins = Number(match[2]);
+	if (hours > 23 || mins > 59) return null;
+	return `${String(hours).padStart(2, '0')}:${match[2]}`;
+}
+
+function minutes(hhmm: string): number {
+	const [h, m] = hhmm.split(':').map(Number);
+	return (h || 0) * 60 + (m || 0);
+}
+
+export function isInQuietHours(quietHours: QuietHours | undefined, now: Date): boolean {
+	if (!quietHours?.enabled) return false;
+	const start = minutes(quietHours.start);
+	const end = minutes(quietHours.end);
+	if (start === end) return false;
+	const current = now.getHours() * 60 + now.getMinutes();
+	return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+/** When the quiet hours around `now` end, or null outside them. */
+export function quietHoursEnd(quietHours: QuietHours | undefined, now: Date): Date | null {
+	if (!quietHours || !isInQuietHours(quietHours, now)) return null;
+	const until = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 0, minutes(quietHours.end));
+	if (until.getTime() <= now.getTime()) until.setDate(until.getDate() + 1);
+	return until;
+}
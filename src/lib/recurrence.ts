@@ -0,0 +1,248 @@
+/**
+ * Repeating schedules in the spirit of iCalendar RRULEs: every N days,
+ * weeks, months or years from a start date, with month dates given as a day
+ * number (negative counts from the end) or the nth weekday, optionally moved
+ * off weekends ("last business day of the month"). Dates are local
+ * `YYYY-MM-DD` strings. Everything here is pure.
+ */
+import { toYmd } from './week-analytics';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+/** The cadences bills carry on the server (`Bill.frequency`). */
+export type BillFrequency = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export type RecurrenceRule = {
+	freq: RecurrenceFrequency;
+	/** Every `interval` days, weeks, months or years; 1 when unset. */
+	interval?: number;
+	/**
+	 * Monthly and yearly: day of the month, negative from the end (-1 is the
+	 * last day). Short months use their last day. Defaults to the start date's day.
+	 */
+	monthDay?: number;
+	/** Monthly and yearly: use the `nth` `weekday` (0 = Sunday) instead of a day number. */
+	weekday?: number;
+	/** 1–4, or -1 for the last one in the month. */
+	nth?: number;
+	/** Move dates that land on a weekend to the Friday before or the Monday after. */
+	businessDay?: 'before' | 'after';
+};
+
+export const WEEKDAY_NAMES = [
+	'Sunday',
+	'Monday',
+	'Tuesday',
+	'Wednesday',
+	'Thursday',
+	'Friday',
+	'Saturday',
+];
+
+const MONTH_NAMES = [
+	'Jan',
+	'Feb',
+	'Mar',
+	'Apr',
+	'May',
+	'Jun',
+	'Jul',
+	'Aug',
+	'Sep',
+	'Oct',
+	'Nov',
+	'Dec',
+];
+
+/** Upper bound on generated periods, so a daily rule over decades still returns. */
+const MAX_STEPS = 20000;
+
+function fromYmd(ymd: string): Date | null {
+	const m = ymd.match(/^(\d{4})-(\d{2})-(\d{2})/);
+	if (!m) return null;
+	const date = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+	return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function daysInMonth(year: number, month: number): number {
+	return new Date(year, month + 1, 0).getDate();
+}
+
+function intervalOf(rule: RecurrenceRule): number {
+	const n = Math.floor(rule.interval ?? 1);
+	return Number.isFinite(n) && n >= 1 ? n : 1;
+}
+
+function nthWeekday(year: number, month: number, weekday: number, nth: number): Date {
+	if (nth < 0) {
+		const last = new Date(year, month, daysInMonth(year, month));
+		last.setDate(last.getDate() - ((last.getDay() - weekday + 7) % 7));
+		return last;
+	}
+	const first = new Date(year, month, 1);
+	const offset = (weekday - first.getDay() + 7) % 7;
+	const day = 1 + offset + (Math.min(Math.max(nth, 1), 5) - 1) * 7;
+	// A fifth weekday that the month doesn't have falls back to the last one
+	return day > daysInMonth(year, month)
+		? nthWeekday(year, month, weekday, -1)
+		: new Date(year, month, day);
+}
+
+function dateInMonth(year: number, month: number, rule: RecurrenceRule, start: Date): Date {
+	if (rule.weekday != null && rule.nth != null) {
+		return nthWeekday(year, month, rule.weekday, rule.nth);
+	}
+	const length = daysInMonth(year, month);
+	const wanted = rule.monthDay ?? start.getDate();
+	const day = wanted < 0 ? Math.max(length + 1 + wanted, 1) : Math.min(wanted, length);
+	return new Date(year, month, day);
+}
+
+function toBusinessDay(date: Date, direction: RecurrenceRule['businessDay']): Date {
+	if (!direction) return date;
+	const moved = new Date(date);
+	const step = direction === 'before' ? -1 : 1;
+	while (moved.getDay() === 0 || moved.getDay() === 6) moved.setDate(moved.getDate() + step);
+	return moved;
+}
+
+/** The date of period `k` (0 = the start's period), before weekend moves. */
+function periodDate(rule: RecurrenceRule, start: Date, k: number): Date {
+	const step = k * intervalOf(rule);
+	switch (rule.freq) {
+		case 'daily':
+			return new Date(start.getFullYear(), start.getMonth(), start.getDate() + step);
+		case 'weekly':
+			return new Date(start.getFullYear(), start.getMonth(), start.getDate() + step * 7);
+		case 'monthly': {
+			const month = start.getMonth() + step;
+			return dateInMonth(start.getFullYear() + Math.floor(month / 12), month % 12, rule, start);
+		}
+		case 'yearly':
+			return dateInMonth(start.getFullYear() + step, start.getMonth(), rule, start);
+	}
+}
+
+/**
+ * Occurrences from `from` to `to` (both inclusive, `YYYY-MM-DD`). Nothing
+ * falls before `start`: a monthly rule on the 5th that starts on the 18th
+ * first occurs the next month.
+ */
+export function occurrencesBetween(
+	rule: RecurrenceRule,
+	start: string,
+	from: string,
+	to: string,
+	limit: number = Infinity
+): string[] {
+	const startDate = fromYmd(start);
+	if (!startDate || from > to) return [];
+	const dates: string[] = [];
+	for (let k = 0; k < MAX_STEPS && dates.length < limit; k++) {
+		const ymd = toYmd(toBusinessDay(periodDate(rule, startDate, k), rule.businessDay));
+		if (ymd > to) break;
+		if (ymd >= start && ymd >= from && dates[dates.length - 1] !== ymd) dates.push(ymd);
+	}
+	return dates;
+}
+
+/** First occurrence on or after `from`, or null past `MAX_STEPS` periods. */
+export function nextOccurrence(
+	rule: RecurrenceRule,
+	start: string,
+	from: string
+): string | null {
+	const startDate = fromYmd(start);
+	if (!startDate) return null;
+	for (let k = 0; k < MAX_STEPS; k++) {
+		const ymd = toYmd(toBusinessDay(periodDate(rule, startDate, k), rule.businessDay));
+		if (ymd >= start && ymd >= from) return ymd;
+	}
+	return null;
+}
+
+/** Last occurrence on or before `to`, or null when the schedule starts later. */
+export function previousOccurrence(
+	rule: RecurrenceRule,
+	start: string,
+	to: string
+): string | null {
+	const startDate = fromYmd(start);
+	if (!startDate || start > to) return null;
+	let last: string | null = null;
+	for (let k = 0; k < MAX_STEPS; k++) {
+		const ymd = toYmd(toBusinessDay(periodDate(rule, startDate, k), rule.businessDay));
+		if (ymd > to) break;
+		if (ymd >= start) last = ymd;
+	}
+	return last;
+}
+
+/** A rule for one of the server's bill cadences, on the start date's day. */
+export function ruleForFrequency(frequency: BillFrequency): RecurrenceRule {
+	switch (frequency) {
+		case 'weekly':
+			return { freq: 'weekly' };
+		case 'biweekly':
+			return { freq: 'weekly', interval: 2 };
+		case 'quarterly':
+			return { freq: 'monthly', interval: 3 };
+		case 'yearly':
+			return { freq: 'yearly' };
+		default:
+			return { freq: 'monthly' };
+	}
+}
+
+/** The bill cadence closest to a rule's spacing (every 3 weeks is `monthly`). */
+export function frequencyForRule(rule: RecurrenceRule): BillFrequency {
+	const unitDays = { daily: 1, weekly: 7, monthly: 30, yearly: 365 }[rule.freq];
+	const days = unitDays * intervalOf(rule);
+	if (days < 10) return 'weekly';
+	if (days < 20) return 'biweekly';
+	if (days < 60) return 'monthly';
+	if (days < 200) return 'quarterly';
+	return 'yearly';
+}
+
+function ordinal(n: number): string {
+	if (n === -1) return 'last';
+	if (n < 0) return `${ordinal(-n)} to last`;
+	const tens = n % 100;
+	if (tens >= 11 && tens <= 13) return `${n}th`;
+	return `${n}${['th', 'st', 'nd', 'rd'][n % 10] ?? 'th'}`;
+}
+
+/** `Every 2 weeks on Friday`, `Monthly on the last business day`, … */
+export function describeRule(rule: RecurrenceRule, start: string): string {
+	const startDate = fromYmd(start);
+	const interval = intervalOf(rule);
+	const every = (unit: string, adverb: string) =>
+		interval === 1 ? adverb : `Every ${interval} ${unit}s`;
+
+	if (rule.freq === 'daily') return every('day', 'Daily');
+	if (rule.freq === 'weekly') {
+		const day = startDate ? WEEKDAY_NAMES[startDate.getDay()] : '';
+		return `${every('week', 'Weekly')}${day ? ` on ${day}` : ''}`;
+	}
+
+	let when: string;
+	let weekend = rule.businessDay ? ', moved off weekends' : '';
+	if (rule.weekday != null && rule.nth != null) {
+		when = `the ${ordinal(rule.nth)} ${WEEKDAY_NAMES[rule.weekday]}`;
+	} else {
+		const day = rule.monthDay ?? startDate?.getDate() ?? 1;
+		when = `the ${ordinal(day)} day`;
+		if (day > 0) when = `the ${ordinal(day)}`;
+		if (day === -1 && rule.businessDay === 'before') {
+			when = 'the last business day';
+			weekend = '';
+		}
+	}
+	if (rule.freq === 'yearly') {
+		const month = startDate ? MONTH_NAMES[startDate.getMonth()] : '';
+		return `${every('year', 'Yearly')} on ${when} of ${month}${weekend}`;
+	}
+	const monthly = interval === 3 ? 'Quarterly' : every('month', 'Monthly');
+	return `${monthly} on ${when}${weekend}`;
+}
@@ -0,0 +1,259 @@
+/**
+ * On-device bills: a template (vendor, amount, schedule) plus a record of
+ * what happened to each occurrence. An occurrence on or before today that is
+ * neither paid nor skipped is due; auto-pay templates turn due occurrences
+ * into transactions when the app opens. Templates are shown to the rest of
+ * the app as the server's `Bill` shape, so `BillContext` works against
+ * either. Everything here is pure.
+ */
+import type { Transaction } from '../context/transactionContext';
+import type { Bill } from '../services/feature/billService';
+import {
+	describeRule,
+	frequencyForRule,
+	nextOccurrence,
+	occurrencesBetween,
+	ruleForFrequency,
+	type BillFrequency,
+	type RecurrenceRule,
+} from './recurrence';
+import { toYmd } from './week-analytics';
+
+export type RecurringInstance = {
+	status: 'paid' | 'skipped';
+	/** The transaction a payment created. */
+	transactionId?: string;
+	/** When it was paid or skipped (ISO timestamp). */
+	at: string;
+};
+
+export type RecurringTemplate = {
+	id: string;
+	vendor: string;
+	/** Positive; entries are written as expenses. */
+	amount: number;
+	rule: RecurrenceRule;
+	/** First possible occurrence, `YYYY-MM-DD`. */
+	startDate: string;
+	/** Last possible occurrence, `YYYY-MM-DD`; open-ended when unset. */
+	endDate?: string;
+	autoPay: boolean;
+	category?: string;
+	/** Account id (src/lib/accounts.ts). */
+	account?: string;
+	/** ISO 4217 code; the home currency when unset. */
+	currency?: string;
+	appearanceMode?: 'custom' | 'brand' | 'default';
+	icon?: string;
+	color?: string;
+	/** Occurrence date → what happened to it. Dates not listed are still open. */
+	instances: Record<string, RecurringInstance>;
+	createdAt: string;
+};
+
+export type RecurringInput = {
+	vendor: string;
+	amount: number;
+	/** First occurrence, `YYYY-MM-DD` (anything after the day is ignored). */
+	nextExpectedDate: string;
+	/** Used when no `rule` is given. */
+	frequency?: BillFrequency;
+	rule?: RecurrenceRule;
+	endDate?: string;
+	autoPay?: boolean;
+	category?: string;
+	account?: string;
+	currency?: string;
+	appearanceMode?: 'custom' | 'brand' | 'default';
+	icon?: string;
+	color?: string;
+};
+
+/** Local bills report a `Bill` with the schedule and paid state filled in. */
+export type LocalBill = Bill & {
+	rule: RecurrenceRule;
+	/** `Monthly on the last business day` */
+	schedule: string;
+	isPaid: boolean;
+	isOverdue: boolean;
+	/** Open occurrences on or before today, oldest first. */
+	dueDates: string[];
+};
+
+function ymdOf(value: string): string {
+	return value.slice(0, 10);
+}
+
+function validate(template: RecurringTemplate): void {
+	if (!template.vendor.trim()) throw new Error('Give the bill a name.');
+	if (!Number.isFinite(template.amount) || template.amount <= 0) {
+		throw new Error('Enter an amount greater than 0.');
+	}
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(template.startDate)) {
+		throw new Error('Pick the date of the next payment.');
+	}
+	if (template.endDate && template.endDate < template.startDate) {
+		throw new Error('The end date is before the first payment.');
+	}
+}
+
+export function createTemplate(
+	input: RecurringInput,
+	now: Date = new Date(),
+	id: string = `bill-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`
+): RecurringTemplate {
+	const template: RecurringTemplate = {
+		id,
+		vendor: input.vendor.trim(),
+		amount: Math.abs(input.amount),
+		rule: input.rule ?? ruleForFrequency(input.frequency ?? 'monthly'),
+		startDate: ymdOf(input.nextExpectedDate),
+		endDate: input.endDate ? ymdOf(input.endDate) : undefined,
+		autoPay: input.autoPay ?? false,
+		category: input.category,
+		account: input.account,
+		currency: input.currency,
+		appearanceMode: input.appearanceMode,
+		icon: input.icon,
+		color: input.color,
+		instances: {},
+		createdAt: now.toISOString(),
+	};
+	validate(template);
+	return template;
+}
+
+/**
+ * Apply an edit. A new `nextExpectedDate` restarts the schedule from that
+ * date; paid and skipped records before it are kept as history.
+ */
+export function updateTemplate(
+	template: RecurringTemplate,
+	patch: Partial<RecurringInput> & { categories?: string[] }
+): RecurringTemplate {
+	const category = patch.category ?? patch.categories?.[0];
+	const next: RecurringTemplate = {
+		...template,
+		vendor: patch.vendor?.trim() ?? template.vendor,
+		amount: patch.amount != null ? Math.abs(patch.amount) : template.amount,
+		rule: patch.rule ?? (patch.frequency ? ruleForFrequency(patch.frequency) : template.rule),
+		startDate: patch.nextExpectedDate ? ymdOf(patch.nextExpectedDate) : template.startDate,
+		endDate: patch.endDate !== undefined ? patch.endDate || undefined : template.endDate,
+		autoPay: patch.autoPay ?? template.autoPay,
+		category: category ?? template.category,
+		account: patch.account ?? template.account,
+		currency: patch.currency ?? template.currency,
+		appearanceMode: patch.appearanceMode ?? template.appearanceMode,
+		icon: patch.icon ?? template.icon,
+		color: patch.color ?? template.color,
+	};
+	validate(next);
+	return next;
+}
+
+/** Occurrences on or before `today` with no paid or skipped record, oldest first. */
+export function dueDates(template: RecurringTemplate, today: string): string[] {
+	const last = template.endDate && template.endDate < today ? template.endDate : today;
+	return occurrencesBetween(template.rule, template.startDate, template.startDate, last).filter(
+		(date) => !template.instances[date]
+	);
+}
+
+/** The oldest open occurrence (overdue when before today), or null once the schedule has ended. */
+export function nextOpenDate(template: RecurringTemplate, today: string): string | null {
+	const due = dueDates(template, today);
+	if (due.length > 0) return due[0];
+	let from = today;
+	// Paying ahead records future dates; step past them
+	for (;;) {
+		const date = nextOccurrence(template.rule, template.startDate, from);
+		if (!date || (template.endDate && date > template.endDate)) return null;
+		if (!template.instances[date]) return date;
+		from = nextDay(date);
+	}
+}
+
+function nextDay(ymd: string): string {
+	const [y, m, d] = ymd.split('-').map(Number);
+	return toYmd(new Date(y, m - 1, d + 1));
+}
+
+/** Record a payment or skip for one occurrence. */
+export function resolveOccurrence(
+	template: RecurringTemplate,
+	date: string,
+	status: RecurringInstance['status'],
+	options: { transactionId?: string; now?: Date } = {}
+): RecurringTemplate {
+	return {
+		...template,
+		instances: {
+			...template.instances,
+			[date]: {
+				status,
+				transactionId: options.transactionId,
+				at: (options.now ?? new Date()).toISOString(),
+			},
+		},
+	};
+}
+
+/** Transaction data for paying `occurrence`, dated `paidOn` (the occurrence by default). */
+export function billTransaction(
+	template: RecurringTemplate,
+	occurrence: string,
+	paidOn: string = occurrence
+): Omit<Transaction, 'id'> {
+	return {
+		description: template.vendor,
+		amount: -template.amount,
+		currency: template.currency,
+		date: paidOn,
+		type: 'expense',
+		source: 'manual',
+		vendor: template.vendor,
+		recurringPattern: {
+			patternId: template.id,
+			frequency: frequencyForRule(template.rule),
+			confidence: 1,
+			nextExpectedDate: occurrence,
+		},
+		metadata:
+			template.category || template.account
+				? { category: template.category, account: template.account }
+				: undefined,
+	};
+}
+
+/** Paid and skipped occurrences, newest first. */
+export function instanceHistory(
+	template: RecurringTemplate
+): (RecurringInstance & { date: string; amount: number })[] {
+	return Object.entries(template.instances)
+		.map(([date, instance]) => ({ ...instance, date, amount: template.amount }))
+		.sort((a, b) => (a.date < b.date ? 1 : a.date > b.date ? -1 : 0));
+}
+
+export function templateToBill(template: RecurringTemplate, today: string): LocalBill {
+	const due = dueDates(template, today);
+	const next = nextOpenDate(template, today);
+	return {
+		patternId: template.id,
+		vendor: template.vendor,
+		amount: template.amount,
+		frequency: frequencyForRule(template.rule),
+		confidence: 1,
+		nextExpectedDate: next ?? template.endDate ?? template.startDate,
+		autoPay: template.autoPay,
+		transactions: instanceHistory(template).filter((i) => i.status === 'paid'),
+		appearanceMode: template.appearanceMode,
+		icon: template.icon,
+		color: template.color,
+		categories: template.category ? [template.category] : undefined,
+		rule: template.rule,
+		schedule: describeRule(template.rule, template.startDate),
+		isPaid: due.length === 0,
+		isOverdue: due.length > 0 && due[0] < today,
+		dueDates: due,
+	};
+}
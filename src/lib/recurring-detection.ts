@@ -0,0 +1,238 @@
+/**
+ * On-device recurring-payment detection. Expenses are grouped by merchant
+ * (normalized vendor or description) and then by amount, within a tolerance
+ * so a bill that creeps up by a few cents stays one group. A group with
+ * enough entries spaced like a weekly, fortnightly, monthly, quarterly or
+ * yearly cadence becomes a pattern with the next expected date and a 0–1
+ * confidence: how regular the gaps are, how steady the amount is, and how
+ * much history backs it. Patterns use the server's `BillPattern` shape so
+ * they can be confirmed into a bill. Everything here is pure.
+ */
+import type { Transaction } from '../context/transactionContext';
+import type { BillPattern } from '../services/feature/billService';
+import { normalizeDescription } from './categorization-rules';
+import {
+	frequencyForRule,
+	nextOccurrence,
+	type RecurrenceRule,
+} from './recurrence';
+import { toYmd } from './week-analytics';
+
+export type DetectedPattern = BillPattern & {
+	/** Schedule to create the bill with. */
+	rule: RecurrenceRule;
+	/** Matched transactions, oldest first. */
+	transactionIds: string[];
+	/** Most common category among the matches. */
+	category?: string;
+	currency?: string;
+	/** Typical gap between payments, in days. */
+	intervalDays: number;
+};
+
+export type DetectionOptions = {
+	/** Clock for staleness and the next date; defaults to the current time. */
+	now?: Date;
+	/** Fewest payments that make a pattern; 3 by default. */
+	minOccurrences?: number;
+	/** Amount spread allowed within a group, as a fraction of the amount (0.1 = ±10%). */
+	amountTolerance?: number;
+	/** Lowest confidence reported; 0.5 by default. */
+	minConfidence?: number;
+};
+
+type Cadence = {
+	rule: RecurrenceRule;
+	days: number;
+	/** Gap error still counted as on schedule. */
+	slack: number;
+};
+
+const CADENCES: Cadence[] = [
+	{ rule: { freq: 'weekly' }, days: 7, slack: 2 },
+	{ rule: { freq: 'weekly', interval: 2 }, days: 14, slack: 3 },
+	{ rule: { freq: 'monthly' }, days: 30.4, slack: 5 },
+	{ rule: { freq: 'monthly', interval: 3 }, days: 91.3, slack: 12 },
+	{ rule: { freq: 'yearly' }, days: 365.25, slack: 20 },
+];
+
+/** Words that name a payment rather than a merchant. */
+const NOISE_WORDS = new Set([
+	'ach',
+	'autopay',
+	'bill',
+	'com',
+	'inc',
+	'llc',
+	'ltd',
+	'online',
+	'payment',
+	'recurring',
+	'www',
+]);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Stable grouping key for a merchant: `Netflix.com 0423` and `NETFLIX` agree. */
+export function merchantKey(tx: Pick<Transaction, 'description' | 'vendor' | 'metadata'>): string {
+	const text = tx.vendor || tx.metadata?.originalDescription || tx.description || '';
+	return normalizeDescription(text)
+		.split(' ')
+		.filter((word) => word && !NOISE_WORDS.has(word))
+		.slice(0, 3)
+		.join(' ');
+}
+
+function dayNumber(ymd: string): number {
+	const [y, m, d] = ymd.split('-').map(Number);
+	return Math.round(new Date(y, m - 1, d).getTime() / DAY_MS);
+}
+
+function median(values: number[]): number {
+	const sorted = [...values].sort((a, b) => a - b);
+	const mid = Math.floor(sorted.length / 2);
+	return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function mostCommon(values: (string | undefined)[]): string | undefined {
+	const counts = new Map<string, number>();
+	let best: string | undefined;
+	for (const value of values) {
+		if (!value) continue;
+		const count = (counts.get(value) ?? 0) + 1;
+		counts.set(value, count);
+		if (!best || count > (counts.get(best) ?? 0)) best = value;
+	}
+	return best;
+}
+
+/** Split one merchant's payments into runs of similar amounts, largest first. */
+function clusterByAmount(transactions: Transaction[], tolerance: number): Transaction[][] {
+	const sorted = [...transactions].sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+	const clusters: Transaction[][] = [];
+	for (const tx of sorted) {
+		const amount = Math.abs(tx.amount);
+		const cluster = clusters.find((c) => {
+			const center = median(c.map((t) => Math.abs(t.amount)));
+			return Math.abs(amount - center) <= Math.max(center * tolerance, 0.01);
+		});
+		if (cluster) cluster.push(tx);
+		else clusters.push([tx]);
+	}
+	return clusters;
+}
+
+function detectCluster(
+	key: string,
+	cluster: Transaction[],
+	today: string,
+	minOccurrences: number
+): DetectedPattern | null {
+	// One payment per day; a same-day duplicate says nothing about the cadence
+	const byDay = new Map<string, Transaction>();
+	for (const tx of cluster) byDay.set(tx.date.slice(0, 10), tx);
+	const dated = [...byDay.entries()].sort(([a], [b]) => (a < b ? -1 : 1));
+	if (dated.length < minOccurrences) return null;
+
+	const days = dated.map(([ymd]) => dayNumber(ymd));
+	const gaps = days.slice(1).map((day, i) => day - days[i]);
+	const typicalGap = median(gaps);
+	const cadence = CADENCES.find((c) => Math.abs(typicalGap - c.days) <= c.slack);
+	if (!cadence) return null;
+
+	const lastDate = dated[dated.length - 1][0];
+	// Two missed payments in a row: it has probably stopped
+	if (dayNumber(today) - dayNumber(lastDate) > cadence.days * 2 + cadence.slack) return null;
+
+	const amounts = dated.map(([, tx]) => Math.abs(tx.amount));
+	const typicalAmount = median(amounts);
+	const onSchedule = gaps.filter((gap) => Math.abs(gap - cadence.days) <= cadence.slack).length;
+	const gapScore = onSchedule / gaps.length;
+	const spread = amounts.reduce((sum, a) => sum + Math.abs(a - typicalAmount), 0) / amounts.length;
+	const amountScore = typicalAmount > 0 ? Math.max(0, 1 - spread / typicalAmount / 0.1) : 0;
+	const historyScore = Math.min(1, (dated.length - 1) / 5);
+	const confidence = Math.round((0.5 * gapScore + 0.3 * amountScore + 0.2 * historyScore) * 100) / 100;
+
+	const transactions = dated.map(([, tx]) => tx);
+	const last = transactions[transactions.length - 1];
+	// Monthly bills keep their usual day, even after a short month moved the last one
+	const usualDay = Number(mostCommon(dated.map(([ymd]) => ymd.slice(8, 10))));
+	const rule: RecurrenceRule =
+		cadence.rule.freq === 'monthly' && usualDay !== Number(lastDate.slice(8, 10))
+			? { ...cadence.rule, monthDay: usualDay }
+			: cadence.rule;
+	const next = nextOccurrence(rule, lastDate, nextDayOf(lastDate)) ?? lastDate;
+
+	return {
+		patternId: `${key}|${Math.round(typicalAmount * 100)}|${frequencyForRule(cadence.rule)}`,
+		vendor: mostCommon(transactions.map((tx) => tx.vendor)) ?? last.description ?? key,
+		amount: Math.round(typicalAmount * 100) / 100,
+		frequency: frequencyForRule(cadence.rule),
+		confidence,
+		nextExpectedDate: next,
+		lastTransaction: last,
+		transactionCount: transactions.length,
+		rule,
+		transactionIds: transactions.map((tx) => tx.id),
+		category: mostCommon(transactions.map((tx) => tx.metadata?.category)),
+		currency: last.currency,
+		intervalDays: typicalGap,
+	};
+}
+
+function nextDayOf(ymd: string): string {
+	const [y, m, d] = ymd.split('-').map(Number);
+	return toYmd(new Date(y, m - 1, d + 1));
+}
+
+/**
+ * Recurring expenses in `transactions`, most confident first. Transactions a
+ * bill already wrote (`recurringPattern` set) are left out, as are merchants
+ * in `knownVendors` (existing bills' names).
+ */
+export function detectRecurringPatterns(
+	transactions: Transaction[],
+	knownVendors: string[] = [],
+	options: DetectionOptions = {}
+): DetectedPattern[] {
+	const today = toYmd(options.now ?? new Date());
+	const minOccurrences = Math.max(2, options.minOccurrences ?? 3);
+	const tolerance = options.amountTolerance ?? 0.1;
+	const minConfidence = options.minConfidence ?? 0.5;
+	const known = new Set(knownVendors.map((vendor) => merchantKey({ vendor })));
+
+	const groups = new Map<string, Transaction[]>();
+	for (const tx of transactions) {
+		if (tx.type !== 'expense' || tx.recurringPattern || !/^\d{4}-\d{2}-\d{2}/.test(tx.date)) {
+			continue;
+		}
+		const key = merchantKey(tx);
+		if (!key || known.has(key)) continue;
+		// Different currencies are different subscriptions
+		const groupKey = `${key}|${tx.currency ?? ''}`;
+		groups.set(groupKey, [...(groups.get(groupKey) ?? []), tx]);
+	}
+
+	const patterns: DetectedPattern[] = [];
+	for (const [groupKey, group] of groups) {
+		const key = groupKey.slice(0, groupKey.lastIndexOf('|'));
+		for (const cluster of clusterByAmount(group, tolerance)) {
+			const pattern = detectCluster(key, cluster, today, minOccurrences);
+			if (pattern && pattern.confidence >= minConfidence) patterns.push(pattern);
+		}
+	}
+	return patterns.sort((a, b) => b.confidence - a.confidence || b.amount - a.amount);
+}
+
+/** The `Transaction.recurringPattern` to stamp on a pattern's payments once it is a bill. */
+export function recurringPatternFor(
+	pattern: DetectedPattern,
+	billId: string = pattern.patternId
+): NonNullable<Transaction['recurringPattern']> {
+	return {
+		patternId: billId,
+		frequency: pattern.frequency,
+		confidence: pattern.confidence,
+		nextExpectedDate: pattern.nextExpectedDate,
+	};
+}
@@ -0,0 +1,146 @@
+/**
+ * Month and year reports built on the period helpers in `week-analytics.ts`:
+ * totals, category split, daily average spend, largest expenses and a
+ * month-by-month trend. Pure — pass `now` for deterministic results.
+ */
+import type { Transaction } from '../context/transactionContext';
+import {
+	amountByType,
+	dayCount,
+	isWithinRange,
+	summarizeRange,
+	toYmd,
+	type PeriodRange,
+	type PeriodSummary,
+} from './week-analytics';
+
+export type ReportScope = 'month' | 'year';
+
+export type MonthTrendPoint = {
+	/** `YYYY-MM` */
+	month: string;
+	in: number;
+	out: number;
+	net: number;
+	/** Change in spending vs the month before, as a fraction (0.1 = +10%); null without a base. */
+	outChange: number | null;
+};
+
+export type PeriodReport = PeriodSummary & {
+	scope: ReportScope;
+	transactionCount: number;
+	/** Spending divided by the days elapsed in the period (all of it, once it is over). */
+	dailyAverageSpend: number;
+	/** Biggest expenses in the period, largest first. */
+	largest: Transaction[];
+	/** One point per month: the trailing months for a month report, Jan–Dec for a year. */
+	trend: MonthTrendPoint[];
+};
+
+export type ReportOptions = {
+	/** 0 = the current month or year, -1 = the one before, … */
+	offset?: number;
+	now?: Date;
+	/** Trailing months in a month report's trend (including the month itself). */
+	trendMonths?: number;
+	largestCount?: number;
+	/** Map a category to the one it is reported under, e.g. a subcategory to its parent. */
+	rollupCategory?: (category: string) => string;
+};
+
+function monthRange(year: number, monthIndex: number): PeriodRange {
+	return {
+		start: toYmd(new Date(year, monthIndex, 1)),
+		end: toYmd(new Date(year, monthIndex + 1, 0)),
+	};
+}
+
+/** The range a report covers, e.g. for querying only the rows it needs. */
+export function reportRange(
+	scope: ReportScope,
+	options: Pick<ReportOptions, 'offset' | 'now'> = {}
+): PeriodRange {
+	const now = options.now ?? new Date();
+	const offset = options.offset ?? 0;
+	if (scope === 'year') {
+		const year = now.getFullYear() + offset;
+		return { start: `${year}-01-01`, end: `${year}-12-31` };
+	}
+	return monthRange(now.getFullYear(), now.getMonth() + offset);
+}
+
+/** First day the report's trend needs data from (earlier than the range for month reports). */
+export function reportTrendStart(
+	scope: ReportScope,
+	options: Pick<ReportOptions, 'offset' | 'now' | 'trendMonths'> = {}
+): string {
+	const now = options.now ?? new Date();
+	const offset = options.offset ?? 0;
+	// One month before the first trend point so it still has a change to report
+	if (scope === 'year') return `${now.getFullYear() + offset - 1}-12-01`;
+	const months = Math.max(1, options.trendMonths ?? 6);
+	return toYmd(new Date(now.getFullYear(), now.getMonth() + offset - months, 1));
+}
+
+export function monthlyTrend(
+	txs: Transaction[],
+	startMonth: Date,
+	months: number
+): MonthTrendPoint[] {
+	const points: MonthTrendPoint[] = [];
+	let previousOut: number | null = null;
+	for (let i = -1; i < months; i++) {
+		const d = new Date(startMonth.getFullYear(), startMonth.getMonth() + i, 1);
+		const { totals } = summarizeRange(txs, monthRange(d.getFullYear(), d.getMonth()));
+		if (i >= 0) {
+			points.push({
+				month: toYmd(d).slice(0, 7),
+				...totals,
+				outChange:
+					previousOut && previousOut > 0
+						? (totals.out - previousOut) / previousOut
+						: null,
+			});
+		}
+		previousOut = totals.out;
+	}
+	return points;
+}
+
+export function buildReport(
+	txs: Transaction[],
+	scope: ReportScope,
+	options: ReportOptions = {}
+): PeriodReport {
+	const now = options.now ?? new Date();
+	const range = reportRange(scope, { ...options, now });
+	const summary = summarizeRange(txs, range, options.rollupCategory);
+	const inRange = txs.filter((tx) => isWithinRange(range, tx.date));
+
+	const today = toYmd(now);
+	const elapsed =
+		today < range.start
+			? 0
+			: dayCount({ start: range.start, end: today < range.end ? today : range.end });
+
+	const largest = inRange
+		.filter((tx) => amountByType(tx).outValue > 0)
+		.sort((a, b) => amountByType(b).outValue - amountByType(a).outValue)
+		.slice(0, options.largestCount ?? 5);
+
+	const trendMonths = scope === 'year' ? 12 : Math.max(1, options.trendMonths ?? 6);
+	const rangeStart = new Date(`${range.start}T00:00:00`);
+	const trendStart =
+		scope === 'year'
+			? rangeStart
+			: new Date(rangeStart.getFullYear(), rangeStart.getMonth() - (trendMonths - 1), 1);
+
+	return {
+		...summary,
+		scope,
+		transactionCount: inRange.length,
+		dailyAverageSpend: elapsed > 0 ? summary.totals.out / elapsed : 0,
+		largest,
+		trend: monthlyTrend(txs, trendStart, trendMonths),
+	};
+}
@@ -0,0 +1,81 @@
+/**
+ * Split transactions: one receipt, several categories. `tx.splits` holds
+ * lines with positive amounts that add up to the transaction's absolute
+ * amount; `metadata.category` keeps the largest line's category so lists,
+ * filters and older clients still have one to show. Analytics and exports
+ * read `categoryLines` instead of `metadata.category`.
+ */
+import type { Transaction, TransactionSplit } from '../context/transactionContext';
+
+/** A category and the share of the transaction's absolute amount it gets. */
+export type CategoryLine = {
+	category?: string;
+	amount: number;
+	note?: string;
+};
+
+function toCents(value: number): number {
+	return Math.round(value * 100);
+}
+
+export function hasSplits(tx: Pick<Transaction, 'splits'>): boolean {
+	return (tx.splits?.length ?? 0) > 0;
+}
+
+/** What is left to assign: the absolute total minus the lines, to the cent. */
+export function splitRemainder(total: number, splits: TransactionSplit[]): number {
+	const assigned = splits.reduce((sum, line) => sum + toCents(Math.abs(line.amount)), 0);
+	return (toCents(Math.abs(total)) - assigned) / 100;
+}
+
+/** A user-facing reason the lines cannot be saved, or null when they are valid. */
+export function validateSplits(
+	total: number,
+	splits: TransactionSplit[],
+	type: Transaction['type']
+): string | null {
+	if (splits.length < 2) return 'A split needs at least two lines.';
+	if (splits.some((line) => !Number.isFinite(line.amount) || line.amount <= 0)) {
+		return 'Each split line needs an amount greater than 0.';
+	}
+	if (type === 'expense' && splits.some((line) => !line.category?.trim())) {
+		return 'Each split line needs a category.';
+	}
+	const remainder = splitRemainder(total, splits);
+	if (remainder !== 0) {
+		const amount = Math.abs(remainder).toFixed(2);
+		return remainder > 0
+			? `$${amount} is not assigned to a line yet.`
+			: `The lines are $${amount} more than the transaction.`;
+	}
+	return null;
+}
+
+/** Category of the largest line (the first on ties), for `metadata.category`. */
+export function primarySplitCategory(splits: TransactionSplit[]): string | undefined {
+	let best: TransactionSplit | undefined;
+	for (const line of splits) {
+		if (!best || Math.abs(line.amount) > Math.abs(best.amount)) best = line;
+	}
+	return best?.category;
+}
+
+/**
+ * How a transaction's absolute amount divides across categories. Lines that
+ * no longer add up (the amount was edited elsewhere) are ignored and the
+ * whole amount goes to `metadata.category`.
+ */
+export function categoryLines(
+	tx: Pick<Transaction, 'amount' | 'splits' | 'metadata'>
+): CategoryLine[] {
+	const total = Math.abs(Number(tx.amount) || 0);
+	const splits = tx.splits ?? [];
+	if (splits.length > 0 && splitRemainder(total, splits) === 0) {
+		return splits.map((line) => ({
+			category: line.category,
+			amount: Math.abs(line.amount),
+			note: line.note,
+		}));
+	}
+	return [{ category: tx.metadata?.category, amount: total }];
+}
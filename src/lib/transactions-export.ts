@@ -1,77 +1,493 @@
 /**
- * CSV export aligned with `apps/web/src/lib/export-csv.ts`.
+ * Transaction exports. CSV is aligned with `apps/web/src/lib/export-csv.ts`;
+ * JSON, QIF and OFX writers sit beside it in a registry keyed by
+ * `ExportFormat`, so the export screen lists whatever is registered. Writers
+ * are pure and take `ExportOptions` for date format, decimal separator and
+ * (CSV only) column selection. CSV and JSON carry each transaction's own
+ * amount and currency beside the home-currency amount; QIF and OFX, which
+ * hold one currency per file, write the home amounts.
  */
 import type { Transaction } from '../context/transactionContext';
+import type { DateFormat, DecimalSeparator } from './transactions-import';
+import { categoryLines, hasSplits } from './transaction-splits';
+import {
+	DEFAULT_CURRENCY,
+	convertToHome,
+	transactionCurrency,
+	type CurrencySettings,
+} from './currency';
+import { formatMoney } from './locale';
 
 export type ExportableTransaction = {
 	_id: string;
 	description?: string;
 	amount: number;
-	type?: 'income' | 'expense';
+	/** ISO 4217 code of `amount`. */
+	currency?: string;
+	/** `amount` in the home currency; unset when it is the home currency or no rate is known. */
+	homeAmount?: number;
+	type?: Transaction['type'];
 	date?: string;
-	metadata?: { category?: string; account?: string };
+	updatedAt?: string;
+	notes?: string;
+	vendor?: string;
+	source?: Transaction['source'];
+	target?: string;
+	targetModel?: Transaction['targetModel'];
+	recurringPattern?: Transaction['recurringPattern'];
+	/** `account` and `toAccount` hold account names, not ids (see `transactionToExportable`). */
+	metadata?: NonNullable<Transaction['metadata']>;
+	splits?: Transaction['splits'];
 };
 
-function csvEscape(value: string): string {
-	if (/[",\n\r]/.test(value)) {
+export type ExportFormat = 'csv' | 'json' | 'qif' | 'ofx';
+
+export type ExportColumn =
+	| 'id'
+	| 'date'
+	| 'description'
+	| 'amount'
+	| 'currency'
+	| 'homeAmount'
+	| 'type'
+	| 'category'
+	| 'account'
+	| 'vendor'
+	| 'notes';
+
+/** `iso` writes dates as stored; the others write the day only. */
+export type ExportDateFormat = 'iso' | DateFormat;
+
+export type ExportOptions = {
+	dateFormat: ExportDateFormat;
+	decimalSeparator: DecimalSeparator;
+	/** CSV columns, in order. */
+	columns: ExportColumn[];
+	/** Home currency: QIF and OFX amounts, and CSV `homeAmount`, are in it. USD when unset. */
+	currency?: string;
+};
+
+export type TransactionExporter = {
+	format: ExportFormat;
+	label: string;
+	extension: string;
+	mimeType: string;
+	/** Which `ExportOptions` the writer honours; the screen hides the rest. */
+	supports: { dateFormat: boolean; decimalSeparator: boolean; columns: boolean };
+	write: (rows: ExportableTransaction[], options: ExportOptions) => string;
+};
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+	'id',
+	'date',
+	'description',
+	'amount',
+	'currency',
+	'homeAmount',
+	'type',
+	'category',
+	'account',
+	'vendor',
+	'notes',
+];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+	dateFormat: 'iso',
+	decimalSeparator: '.',
+	columns: [
+		'id',
+		'date',
+		'description',
+		'amount',
+		'type',
+		'category',
+		'account',
+	],
+};
+
+function csvEscape(value: string, delimiter: string): string {
+	if (value.includes(delimiter) || /["\n\r]/.test(value)) {
 		return `"${value.replace(/"/g, '""')}"`;
 	}
 	return value;
 }
 
-function line(cells: string[]): string {
-	return cells.map(csvEscape).join(',');
+function line(cells: string[], delimiter = ','): string {
+	return cells.map((cell) => csvEscape(cell, delimiter)).join(delimiter);
 }
 
 function categoryFor(tx: ExportableTransaction): string {
+	if (tx.type === 'transfer') return 'Transfer';
 	return (
 		tx.metadata?.category || (tx.type === 'income' ? 'Income' : 'Expense')
 	);
 }
 
-/** UTF-8 with BOM so Excel opens special characters reliably. */
-export function transactionsToCsv(rows: ExportableTransaction[]): string {
-	const header = [
-		'id',
-		'date',
-		'description',
-		'amount',
-		'type',
-		'category',
-		'account',
-	];
-	const lines = [line(header)];
-	for (const tx of rows) {
-		const amount =
-			typeof tx.amount === 'number' ? tx.amount : Number(tx.amount);
+function descriptionFor(tx: ExportableTransaction): string {
+	return (tx.description ?? '').trim() || 'Entry';
+}
+
+function numericAmount(tx: ExportableTransaction): number | null {
+	const amount = typeof tx.amount === 'number' ? tx.amount : Number(tx.amount);
+	return Number.isFinite(amount) ? amount : null;
+}
+
+/**
+ * Amount with the sign taken from `type` when there is one. Expenses are
+ * negative, and so are transfers: money leaving the account they are listed under.
+ */
+function signedAmount(tx: ExportableTransaction): number | null {
+	const amount = numericAmount(tx);
+	if (amount == null) return null;
+	if (tx.type === 'income') return Math.abs(amount);
+	if (tx.type === 'expense' || tx.type === 'transfer') return -Math.abs(amount);
+	return amount;
+}
+
+/**
+ * The row with amounts (and split lines) in the home currency, for writers
+ * that hold one currency per file. The original amount moves to the notes.
+ */
+function inHomeCurrency(tx: ExportableTransaction): ExportableTransaction {
+	const amount = numericAmount(tx);
+	if (tx.homeAmount == null || amount == null || amount === 0) return tx;
+	const factor = tx.homeAmount / amount;
+	const original = formatMoney(Math.abs(amount), tx.currency);
+	return {
+		...tx,
+		amount: tx.homeAmount,
+		notes: [tx.notes, original].filter(Boolean).join(' - '),
+		splits: tx.splits?.map((split) => ({
+			...split,
+			amount: Math.round(split.amount * factor * 100) / 100,
+		})),
+	};
+}
+
+function formatNumber(n: number, decimalSeparator: DecimalSeparator): string {
+	const text = String(n);
+	return decimalSeparator === ',' ? text.replace('.', ',') : text;
+}
+
+export function formatExportDate(
+	date: string | undefined,
+	format: ExportDateFormat,
+): string {
+	if (!date) return '';
+	if (format === 'iso') return date;
+	const m = date.match(/^(\d{4})-(\d{2})-(\d{2})/);
+	if (!m) return date;
+	const [, y, mo, d] = m;
+	if (format === 'mdy') return `${mo}/${d}/${y}`;
+	if (format === 'dmy') return `${d}/${mo}/${y}`;
+	return `${y}-${mo}-${d}`;
+}
+
+function csvCell(
+	tx: ExportableTransaction,
+	column: ExportColumn,
+	options: ExportOptions,
+): string {
+	switch (column) {
+		case 'id':
+			return String(tx._id);
+		case 'date':
+			return formatExportDate(tx.date, options.dateFormat);
+		case 'description':
+			return descriptionFor(tx);
+		case 'amount': {
+			const amount = numericAmount(tx);
+			return amount == null ? '' : formatNumber(amount, options.decimalSeparator);
+		}
+		case 'currency':
+			return tx.currency ?? options.currency ?? '';
+		case 'homeAmount': {
+			const amount = tx.homeAmount ?? numericAmount(tx);
+			return amount == null ? '' : formatNumber(amount, options.decimalSeparator);
+		}
+		case 'type':
+			return tx.type ?? '';
+		case 'category':
+			return categoryFor(tx);
+		case 'account':
+			return tx.metadata?.account ?? '';
+		case 'vendor':
+			return tx.vendor ?? '';
+		case 'notes':
+			return tx.notes ?? '';
+	}
+}
+
+/** One row per split line (same id, the line's amount, category and note), else the row itself. */
+function csvRows(tx: ExportableTransaction): ExportableTransaction[] {
+	const amount = numericAmount(tx);
+	if (amount == null || !hasSplits(tx)) return [tx];
+	const sign = amount < 0 ? -1 : 1;
+	const factor = tx.homeAmount != null && amount !== 0 ? Math.abs(tx.homeAmount / amount) : null;
+	return categoryLines(tx).map((split) => ({
+		...tx,
+		amount: sign * split.amount,
+		homeAmount: factor == null ? undefined : Math.round(sign * split.amount * factor * 100) / 100,
+		notes: split.note || tx.notes,
+		metadata: { ...tx.metadata, category: split.category },
+	}));
+}
+
+/**
+ * UTF-8 with BOM so Excel opens special characters reliably. With a comma
+ * decimal separator the delimiter becomes `;`, as European spreadsheets expect.
+ * Split transactions become one row per line sharing the transaction's id.
+ */
+export function transactionsToCsv(
+	rows: ExportableTransaction[],
+	options: ExportOptions = DEFAULT_EXPORT_OPTIONS,
+): string {
+	const delimiter = options.decimalSeparator === ',' ? ';' : ',';
+	const columns = options.columns.length > 0 ? options.columns : DEFAULT_EXPORT_OPTIONS.columns;
+	const lines = [line(columns, delimiter)];
+	for (const tx of rows.flatMap(csvRows)) {
 		lines.push(
-			line([
-				String(tx._id),
-				tx.date ?? '',
-				(tx.description ?? '').trim() || 'Entry',
-				Number.isFinite(amount) ? String(amount) : '',
-				tx.type ?? '',
-				categoryFor(tx),
-				tx.metadata?.account ?? '',
-			]),
+			line(
+				columns.map((column) => csvCell(tx, column, options)),
+				delimiter,
+			),
 		);
 	}
 	return `\uFEFF${lines.join('\r\n')}\r\n`;
 }
 
-export function transactionToExportable(tx: Transaction): ExportableTransaction {
+/** Every field we hold, as stored, for lossless backup. Options do not apply. */
+export function transactionsToJson(rows: ExportableTransaction[]): string {
+	return JSON.stringify(rows, null, 2) + '\n';
+}
+
+function qifText(value: string): string {
+	return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+/**
+ * Quicken Interchange Format for desktop finance tools: one `!Type:Bank`
+ * section, `^`-terminated records. QIF has no ISO dates, so `iso` writes
+ * US-style `MM/DD/YYYY`, which most importers assume. Split lines are
+ * written as QIF splits (`S` category, `E` memo, `$` amount); transfers name
+ * the receiving account as a bracketed `L[Account]` category.
+ */
+export function transactionsToQif(
+	rows: ExportableTransaction[],
+	options: ExportOptions = DEFAULT_EXPORT_OPTIONS,
+): string {
+	const dateFormat = options.dateFormat === 'iso' ? 'mdy' : options.dateFormat;
+	const lines = ['!Type:Bank'];
+	for (const tx of rows.map(inHomeCurrency)) {
+		const amount = signedAmount(tx);
+		if (amount == null || !tx.date) continue;
+		const description = descriptionFor(tx);
+		const payee = tx.vendor?.trim() || description;
+		lines.push(`D${formatExportDate(tx.date, dateFormat)}`);
+		lines.push(`T${formatNumber(amount, options.decimalSeparator)}`);
+		lines.push(`P${qifText(payee)}`);
+		const memo = [payee !== description ? description : '', tx.notes ?? '']
+			.map(qifText)
+			.filter(Boolean)
+			.join(' - ');
+		if (memo) lines.push(`M${memo}`);
+		if (tx.type === 'transfer') {
+			if (tx.metadata?.toAccount) lines.push(`L[${qifText(tx.metadata.toAccount)}]`);
+		} else if (hasSplits(tx)) {
+			const sign = amount < 0 ? -1 : 1;
+			for (const split of categoryLines(tx)) {
+				lines.push(`S${qifText(split.category ?? '')}`);
+				if (split.note) lines.push(`E${qifText(split.note)}`);
+				lines.push(`$${formatNumber(sign * split.amount, options.decimalSeparator)}`);
+			}
+		} else if (tx.metadata?.category) {
+			lines.push(`L${qifText(tx.metadata.category)}`);
+		}
+		lines.push('^');
+	}
+	return `${lines.join('\r\n')}\r\n`;
+}
+
+function ofxText(value: string, max: number): string {
+	return qifText(value)
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.slice(0, max);
+}
+
+function ofxDate(date: string): string {
+	return date.slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * OFX 1.02 (SGML) bank statement, the dialect most desktop tools still read.
+ * The spec fixes dates (`YYYYMMDD`) and decimals (`.`), so only the home
+ * currency (`CURDEF`) comes from options; entries logged in another currency
+ * note their original amount in the memo. FITID is our transaction id, so
+ * tools can dedupe a re-import.
+ */
+export function transactionsToOfx(
+	rows: ExportableTransaction[],
+	options: Pick<ExportOptions, 'currency'> = {},
+): string {
+	const home = options.currency ?? DEFAULT_CURRENCY;
+	const dated = rows
+		.map(inHomeCurrency)
+		.filter((tx) => tx.date && signedAmount(tx) != null);
+	const days = dated.map((tx) => ofxDate(tx.date!)).sort();
+	const start = days[0] ?? '';
+	const end = days[days.length - 1] ?? '';
+
+	const entries = dated.map((tx) => {
+		const amount = signedAmount(tx)!;
+		const description = descriptionFor(tx);
+		const name = tx.vendor?.trim() || description;
+		const memo = [name !== description ? description : '', tx.notes ?? '']
+			.map(qifText)
+			.filter(Boolean)
+			.join(' - ');
+		return [
+			'<STMTTRN>',
+			`<TRNTYPE>${tx.type === 'transfer' ? 'XFER' : amount >= 0 ? 'CREDIT' : 'DEBIT'}`,
+			`<DTPOSTED>${ofxDate(tx.date!)}`,
+			`<TRNAMT>${amount.toFixed(2)}`,
+			`<FITID>${ofxText(String(tx._id), 255)}`,
+			`<NAME>${ofxText(name, 32)}`,
+			...(memo ? [`<MEMO>${ofxText(memo, 255)}`] : []),
+			'</STMTTRN>',
+		].join('\r\n');
+	});
+
+	return [
+		'OFXHEADER:100',
+		'DATA:OFXSGML',
+		'VERSION:102',
+		'SECURITY:NONE',
+		'ENCODING:USASCII',
+		'CHARSET:1252',
+		'COMPRESSION:NONE',
+		'OLDFILEUID:NONE',
+		'NEWFILEUID:NONE',
+		'',
+		'<OFX>',
+		'<SIGNONMSGSRSV1><SONRS>',
+		'<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+		`<DTSERVER>${end}`,
+		'<LANGUAGE>ENG',
+		'</SONRS></SIGNONMSGSRSV1>',
+		'<BANKMSGSRSV1><STMTTRNRS>',
+		'<TRNUID>0',
+		'<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+		'<STMTRS>',
+		`<CURDEF>${home}`,
+		'<BANKACCTFROM><BANKID>BRIE<ACCTID>BRIE<ACCTTYPE>CHECKING</BANKACCTFROM>',
+		'<BANKTRANLIST>',
+		`<DTSTART>${start}`,
+		`<DTEND>${end}`,
+		...entries,
+		'</BANKTRANLIST>',
+		'</STMTRS>',
+		'</STMTTRNRS></BANKMSGSRSV1>',
+		'</OFX>',
+		'',
+	].join('\r\n');
+}
+
+const exporters = new Map<ExportFormat, TransactionExporter>();
+
+/** Add or replace the writer for a format. */
+export function registerExporter(exporter: TransactionExporter): void {
+	exporters.set(exporter.format, exporter);
+}
+
+export function getExporter(format: ExportFormat): TransactionExporter | undefined {
+	return exporters.get(format);
+}
+
+/** Registered writers in registration order. */
+export function listExporters(): TransactionExporter[] {
+	return [...exporters.values()];
+}
+
+registerExporter({
+	format: 'csv',
+	label: 'CSV',
+	extension: 'csv',
+	mimeType: 'text/csv;charset=utf-8',
+	supports: { dateFormat: true, decimalSeparator: true, columns: true },
+	write: transactionsToCsv,
+});
+registerExporter({
+	format: 'json',
+	label: 'JSON',
+	extension: 'json',
+	mimeType: 'application/json;charset=utf-8',
+	supports: { dateFormat: false, decimalSeparator: false, columns: false },
+	write: (rows) => transactionsToJson(rows),
+});
+registerExporter({
+	format: 'qif',
+	label: 'QIF',
+	extension: 'qif',
+	mimeType: 'application/qif',
+	supports: { dateFormat: true, decimalSeparator: true, columns: false },
+	write: transactionsToQif,
+});
+registerExporter({
+	format: 'ofx',
+	label: 'OFX',
+	extension: 'ofx',
+	mimeType: 'application/x-ofx',
+	supports: { dateFormat: false, decimalSeparator: false, columns: false },
+	write: (rows, options) => transactionsToOfx(rows, options),
+});
+
+export type ExportContext = {
+	/**
+	 * Turns account ids into the names people see; without it the ids are
+	 * written as stored. It is also asked for the account of transactions
+	 * that have none, so it can answer with the default account.
+	 */
+	accountName?: (id: string | undefined) => string | undefined;
+	/** Home currency and rates; fills in `currency` and `homeAmount`. */
+	currency?: CurrencySettings;
+};
+
+export function transactionToExportable(
+	tx: Transaction,
+	{ accountName, currency }: ExportContext = {},
+): ExportableTransaction {
+	let metadata = tx.metadata ? { ...tx.metadata } : undefined;
+	if (accountName) {
+		const account = accountName(tx.metadata?.account) ?? tx.metadata?.account;
+		metadata = { ...metadata, account };
+		if (tx.metadata?.toAccount) {
+			metadata.toAccount = accountName(tx.metadata.toAccount) ?? tx.metadata.toAccount;
+		}
+	}
+	const code = currency ? transactionCurrency(tx, currency.home) : tx.currency;
+	const homeAmount =
+		currency && code !== currency.home
+			? (convertToHome(Number(tx.amount), code!, currency) ?? undefined)
+			: undefined;
 	return {
 		_id: tx.id,
 		description: tx.description,
 		amount: tx.amount,
+		...(code ? { currency: code } : {}),
+		...(homeAmount != null ? { homeAmount } : {}),
 		type: tx.type,
 		date: tx.date,
-		metadata: tx.metadata
-			? {
-					category: tx.metadata.category,
-					account: undefined,
-				}
-			: undefined,
+		updatedAt: tx.updatedAt,
+		notes: tx.notes,
+		vendor: tx.vendor,
+		source: tx.source,
+		target: tx.target,
+		targetModel: tx.targetModel,
+		recurringPattern: tx.recurringPattern,
+		metadata,
+		splits: tx.splits?.length ? tx.splits.map((split) => ({ ...split })) : undefined,
 	};
 }
 
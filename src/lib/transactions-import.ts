@@ -0,0 +1,347 @@
+/**
+ * CSV import: the reverse of `transactions-export.ts`, plus enough slack for
+ * foreign bank exports. Pipeline: `parseCsv` → `guessColumnMapping` /
+ * `detectDateFormat` / `detectDecimalSeparator` → `buildCsvImportRows` →
+ * `markImportDuplicates`. OFX/QFX files produce the same `ImportRow`s via
+ * `ofx-import.ts`. Everything here is pure; the screen does the I/O.
+ */
+import type { Transaction } from '../context/transactionContext';
+import { transactionFingerprint } from '../storage/transactionQuery';
+import type { DateFormat, DecimalSeparator } from './locale';
+
+export type ImportField =
+	| 'id'
+	| 'date'
+	| 'description'
+	| 'amount'
+	| 'debit'
+	| 'credit'
+	| 'type'
+	| 'category';
+
+/** Column index for each field; unmapped fields are absent. */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type { DateFormat, DecimalSeparator } from './locale';
+
+export type ImportDraft = Omit<Transaction, 'id'>;
+
+/** One source row after parsing; `draft` is set only when there are no errors. */
+export type ImportRow = {
+	/** 1-based line (CSV) or record number (OFX) for error messages. */
+	line: number;
+	draft?: ImportDraft;
+	errors: string[];
+	duplicate: boolean;
+	/** Id carried by the source (our own CSV `id`, an OFX FITID), used for dedupe. */
+	sourceId?: string;
+};
+
+export type CsvImportOptions = {
+	mapping: ColumnMapping;
+	hasHeader: boolean;
+	dateFormat: DateFormat;
+	decimalSeparator: DecimalSeparator;
+};
+
+const HEADER_SYNONYMS: Record<ImportField, string[]> = {
+	id: ['id', 'transaction id', 'reference', 'ref'],
+	date: ['date', 'transaction date', 'posted date', 'posting date', 'booking date', 'value date'],
+	description: ['description', 'memo', 'payee', 'name', 'details', 'narrative', 'merchant'],
+	amount: ['amount', 'value', 'transaction amount'],
+	debit: ['debit', 'withdrawal', 'withdrawals', 'money out', 'paid out'],
+	credit: ['credit', 'deposit', 'deposits', 'money in', 'paid in'],
+	type: ['type', 'transaction type'],
+	category: ['category'],
+};
+
+/**
+ * Split CSV text into rows of cells. Handles the BOM, quoted fields with
+ * embedded commas/newlines and `""` escapes, CRLF or LF line endings, and
+ * `;` or tab delimiters (detected from the first line).
+ */
+export function parseCsv(text: string): string[][] {
+	const source = text.replace(/^\uFEFF/, '');
+	const firstLine = source.split(/\r?\n/, 1)[0] ?? '';
+	const delimiter = [',', ';', '\t'].reduce((best, d) =>
+		firstLine.split(d).length > firstLine.split(best).length ? d : best
+	);
+
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let cell = '';
+	let quoted = false;
+
+	for (let i = 0; i < source.length; i++) {
+		const ch = source[i];
+		if (quoted) {
+			if (ch === '"' && source[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (ch === '"') {
+				quoted = false;
+			} else {
+				cell += ch;
+			}
+		} else if (ch === '"' && cell === '') {
+			quoted = true;
+		} else if (ch === delimiter) {
+			row.push(cell);
+			cell = '';
+		} else if (ch === '\n' || ch === '\r') {
+			if (ch === '\r' && source[i + 1] === '\n') i++;
+			row.push(cell);
+			rows.push(row);
+			row = [];
+			cell = '';
+		} else {
+			cell += ch;
+		}
+	}
+	if (cell !== '' || row.length > 0) {
+		row.push(cell);
+		rows.push(row);
+	}
+	return rows.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+function normalizeHeader(value: string): string {
+	return value.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ');
+}
+
+/** Map header cells to fields by common names; exact matches win over partial ones. */
+export function guessColumnMapping(header: string[]): ColumnMapping {
+	const names = header.map(normalizeHeader);
+	const mapping: ColumnMapping = {};
+	const taken = new Set<number>();
+
+	for (const exact of [true, false]) {
+		for (const field of Object.keys(HEADER_SYNONYMS) as ImportField[]) {
+			if (mapping[field] != null) continue;
+			const index = names.findIndex(
+				(name, i) =>
+					!taken.has(i) &&
+					HEADER_SYNONYMS[field].some((syn) =>
+						exact ? name === syn : name.includes(syn)
+					)
+			);
+			if (index >= 0) {
+				mapping[field] = index;
+				taken.add(index);
+			}
+		}
+	}
+	// A single signed column beats debit/credit guesses from partial matches
+	if (mapping.amount != null) {
+		delete mapping.debit;
+		delete mapping.credit;
+	}
+	return mapping;
+}
+
+/** True when the first row looks like column names rather than data. */
+export function looksLikeHeader(row: string[]): boolean {
+	const hasDateCell = row.some((cell) => /\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}/.test(cell));
+	return !hasDateCell && Object.keys(guessColumnMapping(row)).length >= 2;
+}
+
+/**
+ * Pick the date order that fits every sample: ISO wins outright, a first part
+ * over 12 means day-first, a second part over 12 means month-first. Ambiguous
+ * samples default to month-first.
+ */
+export function detectDateFormat(samples: string[]): DateFormat {
+	const parts = samples
+		.map((s) => s.trim().match(/^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})/))
+		.filter((m): m is RegExpMatchArray => !!m);
+	if (parts.length > 0 && parts.every((m) => m[1].length === 4)) return 'ymd';
+	if (parts.some((m) => Number(m[1]) > 12)) return 'dmy';
+	return 'mdy';
+}
+
+/** `1.234,56` and `12,50` mean a comma decimal separator; anything else is a dot. */
+export function detectDecimalSeparator(samples: string[]): DecimalSeparator {
+	const comma = samples.filter((s) => /\d,\d{1,2}(?!\d)\s*\)?-?$/.test(s.trim()));
+	const dot = samples.filter((s) => /\d\.\d{1,2}(?!\d)\s*\)?-?$/.test(s.trim()));
+	return comma.length > dot.length ? ',' : '.';
+}
+
+function toYmd(y: number, m: number, d: number): string | null {
+	const date = new Date(y, m - 1, d);
+	if (
+		date.getFullYear() !== y ||
+		date.getMonth() !== m - 1 ||
+		date.getDate() !== d
+	) {
+		return null;
+	}
+	const pad = (n: number) => String(n).padStart(2, '0');
+	return `${y}-${pad(m)}-${pad(d)}`;
+}
+
+/** Parse a date cell to `YYYY-MM-DD`; a time part after the date is ignored. */
+export function parseImportDate(value: string, format: DateFormat): string | null {
+	const m = value.trim().match(/^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})/);
+	if (!m) return null;
+	const [a, b, c] = [m[1], m[2], m[3]].map(Number);
+	const year = (n: number, raw: string) => (raw.length === 2 ? 2000 + n : n);
+	if (m[1].length === 4 || format === 'ymd') return toYmd(a, b, c);
+	if (format === 'dmy') return toYmd(year(c, m[3]), b, a);
+	return toYmd(year(c, m[3]), a, b);
+}
+
+/**
+ * Parse an amount cell. Accepts currency symbols, thousands separators,
+ * `(12.50)` and trailing-minus negatives.
+ */
+export function parseImportAmount(
+	value: string,
+	decimalSeparator: DecimalSeparator
+): number | null {
+	let text = value.trim();
+	if (!text) return null;
+	let negative = false;
+	if (/^\(.*\)$/.test(text)) {
+		negative = true;
+		text = text.slice(1, -1);
+	}
+	if (text.endsWith('-')) {
+		negative = true;
+		text = text.slice(0, -1);
+	}
+	// Leading minus, possibly after a currency symbol (`-$5`, `$-5`)
+	if (/^[^\d]*-/.test(text)) negative = !negative;
+	text = text.replace(/[^\d.,]/g, '');
+	const thousands = decimalSeparator === '.' ? /,/g : /\./g;
+	text = text.replace(thousands, '');
+	if (decimalSeparator === ',') text = text.replace(',', '.');
+	if (!/^\d+(\.\d+)?$/.test(text)) return null;
+	const n = Number(text);
+	return negative ? -n : n;
+}
+
+function cellAt(row: string[], index: number | undefined): string {
+	return index == null ? '' : (row[index] ?? '').trim();
+}
+
+function rowToImport(
+	row: string[],
+	line: number,
+	options: CsvImportOptions
+): ImportRow {
+	const { mapping } = options;
+	const errors: string[] = [];
+
+	const date = parseImportDate(cellAt(row, mapping.date), options.dateFormat);
+	if (!date) errors.push(`Unreadable date "${cellAt(row, mapping.date)}"`);
+
+	let signed: number | null = null;
+	if (mapping.amount != null) {
+		signed = parseImportAmount(cellAt(row, mapping.amount), options.decimalSeparator);
+	} else {
+		const debit = parseImportAmount(cellAt(row, mapping.debit), options.decimalSeparator);
+		const credit = parseImportAmount(cellAt(row, mapping.credit), options.decimalSeparator);
+		if (debit || credit) signed = (credit ? Math.abs(credit) : 0) - (debit ? Math.abs(debit) : 0);
+	}
+	if (signed == null || signed === 0) errors.push('Missing or zero amount');
+
+	const typeCell = cellAt(row, mapping.type).toLowerCase();
+	const type: Transaction['type'] =
+		typeCell === 'income' || typeCell === 'credit'
+			? 'income'
+			: typeCell === 'expense' || typeCell === 'debit'
+				? 'expense'
+				: (signed ?? 0) >= 0
+					? 'income'
+					: 'expense';
+
+	const sourceId = cellAt(row, mapping.id) || undefined;
+	if (errors.length > 0) return { line, errors, duplicate: false, sourceId };
+
+	const amount = Math.abs(signed!);
+	// Our own export writes "Income"/"Expense" when a row has no category
+	const rawCategory = cellAt(row, mapping.category);
+	const category = rawCategory.toLowerCase() === type ? '' : rawCategory;
+	const description = cellAt(row, mapping.description) || 'Imported entry';
+
+	return {
+		line,
+		errors,
+		duplicate: false,
+		sourceId,
+		draft: {
+			description,
+			amount: type === 'income' ? amount : -amount,
+			date: date!,
+			type,
+			source: 'import',
+			metadata: category ? { category } : undefined,
+		},
+	};
+}
+
+/** Turn parsed CSV rows into import rows with per-row validation errors. */
+export function buildCsvImportRows(
+	rows: string[][],
+	options: CsvImportOptions
+): ImportRow[] {
+	const body = options.hasHeader ? rows.slice(1) : rows;
+	const offset = options.hasHeader ? 2 : 1;
+	return body.map((row, i) => rowToImport(row, i + offset, options));
+}
+
+/**
+ * Flag rows already present: same source id as an existing transaction (its id
+ * or `metadata.importId`), or same date, amount and description. Fingerprint
+ * matches are one-to-one, so two identical coffees in the file against one
+ * existing coffee leave one to import. A source id repeated within the file
+ * (overlapping statements) is only imported once.
+ */
+export function markImportDuplicates(
+	rows: ImportRow[],
+	existing: Transaction[]
+): ImportRow[] {
+	const ids = new Set<string>();
+	const counts = new Map<string, number>();
+	for (const tx of existing) {
+		ids.add(tx.id);
+		if (tx.metadata?.importId) ids.add(tx.metadata.importId);
+		const key = transactionFingerprint(tx);
+		counts.set(key, (counts.get(key) ?? 0) + 1);
+	}
+
+	return rows.map((row) => {
+		if (!row.draft) return row;
+		if (row.sourceId) {
+			if (ids.has(row.sourceId)) return { ...row, duplicate: true };
+			ids.add(row.sourceId);
+		}
+		const key = transactionFingerprint(row.draft);
+		const matches = counts.get(key) ?? 0;
+		if (matches === 0) return { ...row, duplicate: false };
+		counts.set(key, matches - 1);
+		return { ...row, duplicate: true };
+	});
+}
+
+/** Sensible defaults for a parsed file: header detection, mapping and formats. */
+export function detectCsvImportOptions(rows: string[][]): CsvImportOptions {
+	const hasHeader = rows.length > 0 && looksLikeHeader(rows[0]);
+	const mapping: ColumnMapping = hasHeader
+		? guessColumnMapping(rows[0])
+		: { date: 0, description: 1, amount: 2 };
+	const body = hasHeader ? rows.slice(1) : rows;
+	const column = (index?: number) =>
+		index == null ? [] : body.slice(0, 50).map((r) => r[index] ?? '');
+
+	return {
+		hasHeader,
+		mapping,
+		dateFormat: detectDateFormat(column(mapping.date)),
+		decimalSeparator: detectDecimalSeparator([
+			...column(mapping.amount),
+			...column(mapping.debit),
+			...column(mapping.credit),
+		]),
+	};
+}
@@ -1,7 +1,11 @@
 /**
- * 7-day rollups aligned with `apps/web/src/components/week/week-from-server.tsx`.
+ * Period rollups aligned with `apps/web/src/components/week/week-from-server.tsx`.
+ * Periods are whole local days (`YYYY-MM-DD`, inclusive); a transaction belongs
+ * to the day in the first 10 characters of its `date`. Pass `now` for
+ * deterministic results — nothing here reads the clock otherwise.
  */
 import type { Transaction } from '../context/transactionContext';
+import { categoryLines } from './transaction-splits';
 
 export type WeekTotals = {
 	in: number;
@@ -15,18 +19,134 @@ export type WeekCategorySlice = {
 	pct: number;
 };
 
-function isWithinLastSevenDays(iso?: string): boolean {
+export type AnalyticsPeriod =
+	/** The last `days` days, ending today. */
+	| { kind: 'rolling'; days: number }
+	/** Calendar week; `offset` -1 is last week. */
+	| { kind: 'week'; weekStartsOn: 0 | 1; offset?: number }
+	/** Calendar month; `offset` -1 is last month. */
+	| { kind: 'month'; offset?: number }
+	/** Explicit inclusive range. */
+	| { kind: 'range'; start: string; end: string };
+
+export type PeriodRange = {
+	/** Inclusive `YYYY-MM-DD`. */
+	start: string;
+	/** Inclusive `YYYY-MM-DD`. */
+	end: string;
+};
+
+export type PeriodSummary = {
+	range: PeriodRange;
+	totals: WeekTotals;
+	categories: WeekCategorySlice[];
+};
+
+export type CategoryDelta = {
+	category: string;
+	current: number;
+	previous: number;
+	/** `current - previous`; positive means more spent this period. */
+	delta: number;
+};
+
+export type PeriodComparison = {
+	current: PeriodSummary;
+	previous: PeriodSummary;
+	totalsDelta: WeekTotals;
+	/** Every category spent in either period, largest change first. */
+	categoryDeltas: CategoryDelta[];
+};
+
+export type PeriodOptions = {
+	period?: AnalyticsPeriod;
+	/** Clock for relative periods; defaults to the current time. */
+	now?: Date;
+	/** Map a category to the one it is reported under, e.g. a subcategory to its parent. */
+	rollupCategory?: (category: string) => string;
+};
+
+const DEFAULT_PERIOD: AnalyticsPeriod = { kind: 'rolling', days: 7 };
+
+export function toYmd(d: Date): string {
+	const pad = (n: number) => String(n).padStart(2, '0');
+	return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function fromYmd(ymd: string): Date {
+	const [y, m, d] = ymd.split('-').map(Number);
+	return new Date(y, m - 1, d);
+}
+
+function addDays(ymd: string, days: number): string {
+	const d = fromYmd(ymd);
+	d.setDate(d.getDate() + days);
+	return toYmd(d);
+}
+
+/** Whole days from `start` to `end`, inclusive. */
+export function dayCount(range: PeriodRange): number {
+	const ms = fromYmd(range.end).getTime() - fromYmd(range.start).getTime();
+	return Math.round(ms / (24 * 60 * 60 * 1000)) + 1;
+}
+
+export function resolvePeriod(
+	period: AnalyticsPeriod,
+	now: Date = new Date()
+): PeriodRange {
+	const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+	switch (period.kind) {
+		case 'rolling': {
+			const end = toYmd(today);
+			return { start: addDays(end, -(Math.max(1, period.days) - 1)), end };
+		}
+		case 'week': {
+			const back = (today.getDay() - period.weekStartsOn + 7) % 7;
+			const start = addDays(toYmd(today), -back + 7 * (period.offset ?? 0));
+			return { start, end: addDays(start, 6) };
+		}
+		case 'month': {
+			const offset = period.offset ?? 0;
+			const first = new Date(today.getFullYear(), today.getMonth() + offset, 1);
+			const last = new Date(first.getFullYear(), first.getMonth() + 1, 0);
+			return { start: toYmd(first), end: toYmd(last) };
+		}
+		case 'range':
+			return period.start <= period.end
+				? { start: period.start, end: period.end }
+				: { start: period.end, end: period.start };
+	}
+}
+
+/** The equivalent period immediately before: last week, last month, or the same number of days. */
+export function previousPeriod(
+	period: AnalyticsPeriod,
+	now: Date = new Date()
+): PeriodRange {
+	if (period.kind === 'week' || period.kind === 'month') {
+		return resolvePeriod({ ...period, offset: (period.offset ?? 0) - 1 }, now);
+	}
+	const current = resolvePeriod(period, now);
+	const end = addDays(current.start, -1);
+	return { start: addDays(end, -(dayCount(current) - 1)), end };
+}
+
+export function isWithinRange(range: PeriodRange, iso?: string): boolean {
 	if (!iso) return false;
-	const time = new Date(iso).getTime();
-	if (!Number.isFinite(time)) return false;
-	const sevenDaysMs = 7 * 24 * 60 * 60 * 1000;
-	return Date.now() - time <= sevenDaysMs;
+	const day = iso.slice(0, 10);
+	return day >= range.start && day <= range.end;
 }
 
-function amountByType(tx: Pick<Transaction, 'amount' | 'type'>): {
+/**
+ * Split a signed or typed amount into money in and money out (both
+ * non-negative). Transfers between the user's own accounts are neither.
+ */
+export function amountByType(tx: Pick<Transaction, 'amount' | 'type'>): {
 	inValue: number;
 	outValue: number;
 } {
+	if (tx.type === 'transfer') return { inValue: 0, outValue: 0 };
 	const raw = typeof tx.amount === 'number' ? tx.amount : Number(tx.amount);
 	const safe = Number.isFinite(raw) ? raw : 0;
 	if (tx.type === 'income') return { inValue: Math.abs(safe), outValue: 0 };
@@ -35,23 +155,28 @@ function amountByType(tx: Pick<Transaction, 'amount' | 'type'>): {
 	return { inValue: 0, outValue: Math.abs(safe) };
 }
 
-export function summarizeWeekTransactions(txs: Transaction[]): {
-	totals: WeekTotals;
-	categories: WeekCategorySlice[];
-} {
+export function summarizeRange(
+	txs: Transaction[],
+	range: PeriodRange,
+	rollupCategory: (category: string) => string = (category) => category
+): PeriodSummary {
 	let totalIn = 0;
 	let totalOut = 0;
 	const categoryTotals = new Map<string, number>();
 
 	for (const tx of txs) {
-		if (!isWithinLastSevenDays(tx.date)) continue;
+		if (!isWithinRange(range, tx.date)) continue;
 		const { inValue, outValue } = amountByType(tx);
 		totalIn += inValue;
 		totalOut += outValue;
 
 		if (outValue > 0) {
-			const category = tx.metadata?.category?.trim() || 'Uncategorized';
-			categoryTotals.set(category, (categoryTotals.get(category) ?? 0) + outValue);
+			// Split transactions count toward each line's category
+			for (const line of categoryLines(tx)) {
+				const name = line.category?.trim();
+				const category = name ? rollupCategory(name) : 'Uncategorized';
+				categoryTotals.set(category, (categoryTotals.get(category) ?? 0) + line.amount);
+			}
 		}
 	}
 
@@ -64,6 +189,7 @@ export function summarizeWeekTransactions(txs: Transaction[]): {
 		}));
 
 	return {
+		range,
 		totals: {
 			in: totalIn,
 			out: totalOut,
@@ -72,3 +198,59 @@ export function summarizeWeekTransactions(txs: Transaction[]): {
 		categories,
 	};
 }
+
+/** Totals and category split for one period (the last 7 days by default). */
+export function summarizeWeekTransactions(
+	txs: Transaction[],
+	options: PeriodOptions = {}
+): PeriodSummary {
+	const range = resolvePeriod(options.period ?? DEFAULT_PERIOD, options.now);
+	return summarizeRange(txs, range, options.rollupCategory);
+}
+
+/** Summarize a period and the one before it, with per-category spending changes. */
+export function comparePeriods(
+	txs: Transaction[],
+	options: PeriodOptions = {}
+): PeriodComparison {
+	const period = options.period ?? DEFAULT_PERIOD;
+	const current = summarizeRange(
+		txs,
+		resolvePeriod(period, options.now),
+		options.rollupCategory
+	);
+	const previous = summarizeRange(
+		txs,
+		previousPeriod(period, options.now),
+		options.rollupCategory
+	);
+
+	const amounts = new Map<string, { current: number; previous: number }>();
+	for (const slice of current.categories) {
+		amounts.set(slice.category, { current: slice.amount, previous: 0 });
+	}
+	for (const slice of previous.categories) {
+		const entry = amounts.get(slice.category) ?? { current: 0, previous: 0 };
+		amounts.set(slice.category, { ...entry, previous: slice.amount });
+	}
+
+	const categoryDeltas = [...amounts.entries()]
+		.map(([category, a]) => ({
+			category,
+			current: a.current,
+			previous: a.previous,
+			delta: a.current - a.previous,
+		}))
+		.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || b.current - a.current);
+
+	return {
+		current,
+		previous,
+		totalsDelta: {
+			in: current.totals.in - previous.totals.in,
+			out: current.totals.out - previous.totals.out,
+			net: current.totals.net - previous.totals.net,
+		},
+		categoryDeltas,
+	};
+}
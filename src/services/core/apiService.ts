@@ -553,6 +553,7 @@ export class ApiService {
 						return {
 							success: false,
 							error: `HTTP error! status: ${response.status}`,
+							status: response.status,
 						};
 					}
 
@@ -594,6 +595,7 @@ export class ApiService {
 					return {
 						success: false,
 						error: errorMessage || `HTTP error! status: ${response.status}`,
+						status: response.status,
 					};
 				}
 
@@ -723,6 +725,7 @@ export class ApiService {
 					return {
 						success: false,
 						error: `HTTP error! status: ${response.status}`,
+						status: response.status,
 					} as ApiResponse<T>;
 				}
 
@@ -975,6 +978,7 @@ export class ApiService {
 						error: `HTTP ${response.status}: ${
 							textResponse || response.statusText
 						}`,
+						status: response.status,
 					};
 				}
 
@@ -999,6 +1003,7 @@ export class ApiService {
 				return {
 					success: false,
 					error: errorMsg,
+					status: response.status,
 				};
 			}
 
@@ -7,7 +7,7 @@ export interface BillPattern {
 	patternId: string;
 	vendor: string;
 	amount: number;
-	frequency: 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+	frequency: 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
 	confidence: number;
 	nextExpectedDate: string;
 	lastTransaction: any;
@@ -18,7 +18,7 @@ export interface Bill {
 	patternId: string;
 	vendor: string;
 	amount: number;
-	frequency: 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+	frequency: 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
 	confidence: number;
 	nextExpectedDate: string;
 	autoPay?: boolean; // Whether this bill is set to auto-pay (default: false)
@@ -38,6 +38,26 @@ export interface BillAlert {
 	notificationId: string;
 }
 
+/**
+ * What `BillContext` needs from wherever bills live. `BillService` is the
+ * server; `LocalBillService` keeps bills on the device.
+ */
+export type BillBackend = Pick<
+	typeof BillService,
+	| 'getRecurringExpenses'
+	| 'checkBatchPaidStatus'
+	| 'createRecurringExpense'
+	| 'updateRecurringExpense'
+	| 'deleteRecurringExpense'
+	| 'payBill'
+	| 'getPaymentHistory'
+	| 'generateRecurringTransactions'
+	| 'autoApplyTransactions'
+> & {
+	/** Mark the current occurrence as not happening; on-device bills only. */
+	skipBill?: (patternId: string, date?: string) => Promise<Bill>;
+};
+
 export class BillService {
 	// Cache for payment status checks to prevent duplicate API calls
 	private static paymentStatusCache = new Map<
@@ -167,6 +187,8 @@ export class BillService {
 		switch (frequency) {
 			case 'weekly':
 				return 'Weekly';
+			case 'biweekly':
+				return 'Every 2 weeks';
 			case 'monthly':
 				return 'Monthly';
 			case 'quarterly':
@@ -247,7 +269,7 @@ export class BillService {
 	static async createRecurringExpense(data: {
 		vendor: string;
 		amount: number;
-		frequency: 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+		frequency: 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
 		nextExpectedDate: string;
 		autoPay?: boolean; // Default to false (manual payment)
 		appearanceMode?: 'custom' | 'brand' | 'default';
@@ -399,7 +421,7 @@ export class BillService {
 		data: {
 			vendor?: string;
 			amount?: number;
-			frequency?: 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+			frequency?: 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
 			nextExpectedDate?: string;
 			appearanceMode?: 'custom' | 'brand' | 'default';
 			icon?: string;
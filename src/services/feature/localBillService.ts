@@ -0,0 +1,288 @@
+import type { Transaction } from '../../context/transactionContext';
+import type { TransactionQuery } from '../../storage/transactionQuery';
+import {
+	billTransaction,
+	createTemplate,
+	dueDates,
+	instanceHistory,
+	nextOpenDate,
+	resolveOccurrence,
+	templateToBill,
+	updateTemplate,
+	type LocalBill,
+	type RecurringInput,
+	type RecurringTemplate,
+} from '../../lib/recurring-bills';
+import { toYmd } from '../../lib/week-analytics';
+import {
+	loadRecurringTemplates,
+	saveRecurringTemplates,
+} from '../../storage/recurringStorage';
+import { createLogger } from '../../utils/sublogger';
+import type { BillBackend } from './billService';
+
+const localBillLog = createLogger('LocalBillService');
+
+type AddTransaction = (data: Omit<Transaction, 'id'>) => Promise<Transaction>;
+type QueryTransactions = (query: TransactionQuery) => Promise<Transaction[]>;
+
+/**
+ * Bills for local mode, with the same methods as `BillService` so
+ * `BillContext` can run on either. Templates live in AsyncStorage; payments
+ * are written through the transaction provider's `addTransaction` and found
+ * again with its `queryTransactions`.
+ */
+export class LocalBillService implements BillBackend {
+	// Writes run one after another so a payment can't overwrite an auto-apply
+	private queue: Promise<unknown> = Promise.resolve();
+
+	constructor(
+		private readonly addTransaction: AddTransaction,
+		private readonly queryTransactions: QueryTransactions = async () => [],
+		private readonly now: () => Date = () => new Date()
+	) {}
+
+	private today(): string {
+		return toYmd(this.now());
+	}
+
+	private mutate<T>(
+		change: (templates: RecurringTemplate[]) => Promise<{ templates: RecurringTemplate[]; result: T }>
+	): Promise<T> {
+		const run = this.queue.then(async () => {
+			const { templates, result } = await change(await loadRecurringTemplates());
+			await saveRecurringTemplates(templates);
+			return result;
+		});
+		this.queue = run.catch(() => undefined);
+		return run;
+	}
+
+	private static find(templates: RecurringTemplate[], patternId: string): RecurringTemplate {
+		const template = templates.find((t) => t.id === patternId);
+		if (!template) throw new Error('Bill not found.');
+		return template;
+	}
+
+	private static replace(
+		templates: RecurringTemplate[],
+		template: RecurringTemplate
+	): RecurringTemplate[] {
+		return templates.map((t) => (t.id === template.id ? template : t));
+	}
+
+	/**
+	 * Payments already in the ledger for `template`, by occurrence. One can be
+	 * there with its occurrence still open when saving the template failed
+	 * after the transaction was written.
+	 */
+	private async writtenPayments(template: RecurringTemplate): Promise<Map<string, Transaction>> {
+		const written = new Map<string, Transaction>();
+		for (const tx of await this.queryTransactions({ types: ['expense'] })) {
+			const pattern = tx.recurringPattern;
+			if (pattern?.patternId === template.id) written.set(pattern.nextExpectedDate, tx);
+		}
+		return written;
+	}
+
+	/** Pay `dates` in order, writing one transaction each unless one was written before. */
+	private async payDates(
+		template: RecurringTemplate,
+		dates: string[],
+		paidOn?: string
+	): Promise<{ template: RecurringTemplate; transactions: Transaction[] }> {
+		const transactions: Transaction[] = [];
+		const written = dates.length ? await this.writtenPayments(template) : new Map();
+		let next = template;
+		for (const date of dates) {
+			let tx: Transaction | undefined = written.get(date);
+			if (tx) {
+				localBillLog.info('Matched an earlier payment to its occurrence', { date });
+				transactions.push(tx);
+				next = resolveOccurrence(next, date, 'paid', { transactionId: tx.id, now: this.now() });
+				continue;
+			}
+			try {
+				tx = await this.addTransaction(billTransaction(next, date, paidOn));
+			} catch (err) {
+				if (transactions.length === 0) throw err;
+				// Keep the payments already written so they aren't written twice
+				localBillLog.warn('Stopped after a failed payment', err);
+				break;
+			}
+			transactions.push(tx);
+			next = resolveOccurrence(next, date, 'paid', { transactionId: tx.id, now: this.now() });
+		}
+		return { template: next, transactions };
+	}
+
+	async getRecurringExpenses(): Promise<LocalBill[]> {
+		const today = this.today();
+		const templates = await loadRecurringTemplates();
+		return templates.map((t) => templateToBill(t, today));
+	}
+
+	/** True when nothing on or before today is still open. */
+	async checkBatchPaidStatus(patternIds: string[]): Promise<Record<string, boolean | null>> {
+		const today = this.today();
+		const templates = await loadRecurringTemplates();
+		const status: Record<string, boolean | null> = {};
+		for (const id of patternIds) {
+			const template = templates.find((t) => t.id === id);
+			status[id] = template ? dueDates(template, today).length === 0 : null;
+		}
+		return status;
+	}
+
+	async createRecurringExpense(data: RecurringInput): Promise<LocalBill> {
+		return this.mutate(async (templates) => {
+			const template = createTemplate(data, this.now());
+			localBillLog.debug('Created bill', { id: template.id, vendor: template.vendor });
+			return {
+				templates: [...templates, template],
+				result: templateToBill(template, this.today()),
+			};
+		});
+	}
+
+	async updateRecurringExpense(
+		patternId: string,
+		data: Partial<RecurringInput> & { categories?: string[] }
+	): Promise<LocalBill> {
+		return this.mutate(async (templates) => {
+			const template = updateTemplate(LocalBillService.find(templates, patternId), data);
+			return {
+				templates: LocalBillService.replace(templates, template),
+				result: templateToBill(template, this.today()),
+			};
+		});
+	}
+
+	/** Removes the template; transactions it already wrote stay in the ledger. */
+	async deleteRecurringExpense(patternId: string): Promise<{ success: boolean; message: string }> {
+		return this.mutate(async (templates) => {
+			LocalBillService.find(templates, patternId);
+			return {
+				templates: templates.filter((t) => t.id !== patternId),
+				result: { success: true, message: 'Recurring expense deleted successfully' },
+			};
+		});
+	}
+
+	/**
+	 * Pay the oldest open occurrence (or the next one, paying ahead), dated
+	 * `date` or today.
+	 */
+	async payBill(
+		patternId: string,
+		date?: string
+	): Promise<{ bill: LocalBill; transaction: Transaction }> {
+		return this.mutate(async (templates) => {
+			const today = this.today();
+			const template = LocalBillService.find(templates, patternId);
+			const occurrence = nextOpenDate(template, today);
+			if (!occurrence) throw new Error('This bill has no payments left.');
+			const paid = await this.payDates(template, [occurrence], date?.slice(0, 10) ?? today);
+			return {
+				templates: LocalBillService.replace(templates, paid.template),
+				result: {
+					bill: templateToBill(paid.template, today),
+					transaction: paid.transactions[0],
+				},
+			};
+		});
+	}
+
+	/** Skip the oldest open occurrence, or the one on `date`. No transaction is written. */
+	async skipBill(patternId: string, date?: string): Promise<LocalBill> {
+		return this.mutate(async (templates) => {
+			const today = this.today();
+			const template = LocalBillService.find(templates, patternId);
+			const occurrence = date?.slice(0, 10) ?? nextOpenDate(template, today);
+			if (!occurrence) throw new Error('This bill has no payments left.');
+			const skipped = resolveOccurrence(template, occurrence, 'skipped', { now: this.now() });
+			return {
+				templates: LocalBillService.replace(templates, skipped),
+				result: templateToBill(skipped, today),
+			};
+		});
+	}
+
+	async getPaymentHistory(patternId: string, limit: number = 10): Promise<any[]> {
+		const templates = await loadRecurringTemplates();
+		const template = templates.find((t) => t.id === patternId);
+		return template ? instanceHistory(template).slice(0, limit) : [];
+	}
+
+	/**
+	 * Pay every open occurrence up to today, or the next `cycles` open ones
+	 * (paying ahead), each dated on its occurrence.
+	 */
+	async generateRecurringTransactions(data: {
+		patternId: string;
+		cycles?: number;
+	}): Promise<{ success: boolean; transactions: any[]; message: string }> {
+		return this.mutate(async (templates) => {
+			const today = this.today();
+			const template = LocalBillService.find(templates, data.patternId);
+			const dates: string[] = [];
+			if (data.cycles == null) {
+				dates.push(...dueDates(template, today));
+			} else {
+				let preview = template;
+				for (let i = 0; i < data.cycles; i++) {
+					const date = nextOpenDate(preview, today);
+					if (!date) break;
+					dates.push(date);
+					preview = resolveOccurrence(preview, date, 'paid');
+				}
+			}
+			const paid = await this.payDates(template, dates);
+			return {
+				templates: LocalBillService.replace(templates, paid.template),
+				result: {
+					success: true,
+					transactions: paid.transactions,
+					message: `Generated ${paid.transactions.length} transactions`,
+				},
+			};
+		});
+	}
+
+	/** Write the due occurrences of every auto-pay bill; runs when the app opens. */
+	async autoApplyTransactions(): Promise<{
+		success: boolean;
+		appliedCount: number;
+		message: string;
+	}> {
+		return this.mutate(async (templates) => {
+			const today = this.today();
+			let appliedCount = 0;
+			const next: RecurringTemplate[] = [];
+			for (const template of templates) {
+				const due = template.autoPay ? dueDates(template, today) : [];
+				if (due.length === 0) {
+					next.push(template);
+					continue;
+				}
+				try {
+					const paid = await this.payDates(template, due);
+					appliedCount += paid.transactions.length;
+					next.push(paid.template);
+				} catch (err) {
+					localBillLog.warn(`Auto-pay failed for ${template.vendor}`, err);
+					next.push(template);
+				}
+			}
+			if (appliedCount > 0) localBillLog.info(`Auto-paid ${appliedCount} bill payments`);
+			return {
+				templates: next,
+				result: {
+					success: true,
+					appliedCount,
+					message: `Applied ${appliedCount} transactions`,
+				},
+			};
+		});
+	}
+}
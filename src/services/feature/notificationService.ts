@@ -8,6 +8,7 @@ import {
 	normalizeUnreadCountResponse,
 } from '../notifications/normalizer';
 import { createLogger } from '../../utils/sublogger';
+import { isInQuietHours } from '../../lib/quiet-hours';
 
 const notificationServiceLog = createLogger('NotificationService');
 
@@ -1511,27 +1512,6 @@ class NotificationService {
 		}
 	}
 
-	// Check if notifications are in quiet hours
-	private isInQuietHours(quietHours?: { start: string; end: string }): boolean {
-		if (!quietHours) return false;
-
-		const now = new Date();
-		const currentTime = now.getHours() * 60 + now.getMinutes();
-
-		const [startHour, startMinute] = quietHours.start.split(':').map(Number);
-		const [endHour, endMinute] = quietHours.end.split(':').map(Number);
-
-		const startTime = startHour * 60 + startMinute;
-		const endTime = endHour * 60 + endMinute;
-
-		// Handle quiet hours that span midnight
-		if (startTime <= endTime) {
-			return currentTime >= startTime && currentTime <= endTime;
-		} else {
-			return currentTime >= startTime || currentTime <= endTime;
-		}
-	}
-
 	// Send notification with quiet hours check
 	async sendNotificationWithQuietHours(
 		title: string,
@@ -1541,7 +1521,7 @@ class NotificationService {
 		quietHours?: { start: string; end: string }
 	): Promise<boolean> {
 		// Check if we're in quiet hours
-		if (this.isInQuietHours(quietHours)) {
+		if (quietHours && isInQuietHours({ enabled: true, ...quietHours }, new Date())) {
 			notificationServiceLog.debug(
 				'Notification suppressed during quiet hours'
 			);
@@ -9,7 +9,9 @@ export {
 	type Bill,
 	type BillPattern,
 	type BillAlert,
+	type BillBackend,
 } from './feature/billService';
+export { LocalBillService } from './feature/localBillService';
 export {
 	notificationService,
 	type NotificationData,
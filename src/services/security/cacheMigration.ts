@@ -1,6 +1,12 @@
 // cacheMigration.ts - One-time migration for cache format changes
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { createLogger } from '../../utils/sublogger';
+import {
+	runStorageMigrations,
+	type StorageMigrationOptions,
+	type StorageMigrationReport,
+} from '../../storage/storageMigrations';
+import { STORAGE_MIGRATIONS } from '../../storage/storageMigrationRegistry';
 
 const cacheMigrationLog = createLogger('CacheMigration');
 
@@ -81,3 +87,34 @@ export async function runCacheMigrations(): Promise<void> {
 		cacheMigrationLog.error('Some migrations failed', error);
 	}
 }
+
+/**
+ * Bring versioned on-device keys (local transactions, …) up to their latest
+ * schema. Must finish before providers read storage; never throws.
+ */
+export async function runStorageSchemaMigrations(
+	options: StorageMigrationOptions = {}
+): Promise<StorageMigrationReport[]> {
+	try {
+		const reports = await runStorageMigrations(STORAGE_MIGRATIONS, options);
+		for (const report of reports) {
+			if (report.status === 'failed') {
+				cacheMigrationLog.error(`Storage migration failed for ${report.key}`, {
+					fromVersion: report.fromVersion,
+					error: report.error,
+				});
+			} else if (report.status === 'migrated' || report.status === 'dry-run') {
+				cacheMigrationLog.info(`Storage migration ${report.status} for ${report.key}`, {
+					fromVersion: report.fromVersion,
+					toVersion: report.toVersion,
+					steps: report.applied,
+				});
+			}
+		}
+		return reports;
+	} catch (error) {
+		// Malformed registry — surface loudly but let the app start on old data
+		cacheMigrationLog.error('Storage migrations could not run', error);
+		return [];
+	}
+}
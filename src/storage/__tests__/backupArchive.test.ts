@@ -0,0 +1,151 @@
+/**
+ * Backup archive: round trip, encryption, validation and merge vs replace.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+	BackupError,
+	createBackupArchive,
+	isEncryptedBackup,
+	parseBackup,
+	restoreBackup,
+	serializeBackup,
+	summarizeBackup,
+} from '../backupArchive';
+import { loadTransactions, saveTransactions } from '../localTransactionStorage';
+import { LOCAL_NOTIFICATIONS_KEY, QUIET_HOURS_KEY } from '../notificationStorage';
+
+const row = (id: string, description: string, updatedAt: string) => ({
+	id,
+	description,
+	amount: -5,
+	date: '2026-03-18',
+	type: 'expense' as const,
+	updatedAt,
+});
+
+describe('backup archive', () => {
+	beforeEach(async () => {
+		await AsyncStorage.clear();
+	});
+
+	it('bundles transactions and app-owned keys, and previews counts', async () => {
+		await saveTransactions([row('t1', 'Coffee', '2026-03-18T09:00:00.000Z')]);
+		await AsyncStorage.setItem('@flags', '{"aiInsights":true}');
+		await AsyncStorage.setItem('firebaseUID', 'not-backed-up');
+		const quietHours = '{"enabled":true,"start":"22:00","end":"07:00"}';
+		await AsyncStorage.setItem(QUIET_HOURS_KEY, quietHours);
+		await AsyncStorage.setItem(LOCAL_NOTIFICATIONS_KEY, '[]');
+
+		const text = serializeBackup(await createBackupArchive(new Date('2026-03-20T00:00:00Z')));
+		const archive = parseBackup(text);
+
+		expect(archive.keys).toEqual({
+			'@flags': '{"aiInsights":true}',
+			[QUIET_HOURS_KEY]: quietHours,
+			[LOCAL_NOTIFICATIONS_KEY]: '[]',
+		});
+		expect(summarizeBackup(archive)).toEqual({
+			createdAt: '2026-03-20T00:00:00.000Z',
+			transactionCount: 1,
+			settings: ['Feature overrides', 'Quiet hours', 'Notification history'],
+		});
+
+		await AsyncStorage.clear();
+		await restoreBackup(archive, 'replace');
+		expect(await AsyncStorage.getItem(QUIET_HOURS_KEY)).toBe(quietHours);
+	});
+
+	// Key derivation is deliberately slow, so the encrypted cases get a longer timeout
+	it('encrypts with a passphrase and rejects the wrong one', async () => {
+		await saveTransactions([row('t1', 'Coffee', '2026-03-18T09:00:00.000Z')]);
+		const text = serializeBackup(await createBackupArchive(), 'correct horse');
+
+		expect(isEncryptedBackup(text)).toBe(true);
+		expect(text).not.toContain('Coffee');
+		expect(() => parseBackup(text)).toThrow(
+			expect.objectContaining({ code: 'passphrase_required' })
+		);
+		expect(() => parseBackup(text, 'wrong')).toThrow(
+			expect.objectContaining({ code: 'wrong_passphrase' })
+		);
+		expect(parseBackup(text, 'correct horse').transactions[0].description).toBe('Coffee');
+	}, 30000);
+
+	it('rejects damaged envelopes and other iteration counts', async () => {
+		const text = serializeBackup(await createBackupArchive(), 'correct horse');
+		const envelope = JSON.parse(text);
+		const withEncrypted = (patch: Record<string, unknown>) =>
+			JSON.stringify({ ...envelope, encrypted: { ...envelope.encrypted, ...patch } });
+
+		const { iterations } = envelope.encrypted;
+		for (const other of [iterations * 10, iterations / 10]) {
+			expect(() => parseBackup(withEncrypted({ iterations: other }), 'correct horse')).toThrow(
+				expect.objectContaining({ code: 'invalid' })
+			);
+		}
+		expect(() => parseBackup(withEncrypted({ salt: 42 }), 'correct horse')).toThrow(BackupError);
+		expect(() =>
+			parseBackup(JSON.stringify({ format: 'brie-backup', version: 1, encrypted: 'x' }), 'pw')
+		).toThrow(BackupError);
+	}, 30000);
+
+	it('rejects files that are not backups or come from a newer version', () => {
+		expect(() => parseBackup('date,amount')).toThrow(BackupError);
+		expect(() => parseBackup(JSON.stringify({ format: 'brie-backup', version: 99 }))).toThrow(
+			expect.objectContaining({ code: 'unsupported_version' })
+		);
+		expect(() =>
+			parseBackup(
+				JSON.stringify({ format: 'brie-backup', version: 1, transactions: [{ id: 1 }], keys: {} })
+			)
+		).toThrow(expect.objectContaining({ code: 'invalid' }));
+	});
+
+	it('merges by id with the newer edit winning, keeping device settings', async () => {
+		await saveTransactions([
+			row('t1', 'Coffee (edited here)', '2026-03-19T09:00:00.000Z'),
+			row('t2', 'Bagel', '2026-03-18T09:00:00.000Z'),
+		]);
+		await AsyncStorage.setItem('theme_preference', 'dark');
+		const archive = parseBackup(
+			JSON.stringify({
+				format: 'brie-backup',
+				version: 1,
+				createdAt: '2026-03-20T00:00:00.000Z',
+				transactions: [
+					row('t1', 'Coffee', '2026-03-18T09:00:00.000Z'),
+					row('t2', 'Bagel (edited there)', '2026-03-20T09:00:00.000Z'),
+					row('t3', 'Lunch', '2026-03-18T12:00:00.000Z'),
+				],
+				keys: { theme_preference: 'light', '@flags': '{}' },
+			})
+		);
+
+		const result = await restoreBackup(archive, 'merge');
+
+		expect(result).toEqual({ transactionCount: 3, transactionsWritten: 2, settingsWritten: 1 });
+		const descriptions = (await loadTransactions()).map((t) => t.description).sort();
+		expect(descriptions).toEqual(['Bagel (edited there)', 'Coffee (edited here)', 'Lunch']);
+		expect(await AsyncStorage.getItem('theme_preference')).toBe('dark');
+		expect(await AsyncStorage.getItem('@flags')).toBe('{}');
+	});
+
+	it('replace makes the device match the archive', async () => {
+		await saveTransactions([row('t1', 'Coffee', '2026-03-18T09:00:00.000Z')]);
+		await AsyncStorage.setItem('theme_preference', 'dark');
+		const archive = parseBackup(
+			JSON.stringify({
+				format: 'brie-backup',
+				version: 1,
+				createdAt: '',
+				transactions: [row('t9', 'Rent', '2026-03-01T00:00:00.000Z')],
+				keys: {},
+			})
+		);
+
+		await restoreBackup(archive, 'replace');
+
+		expect((await loadTransactions()).map((t) => t.id)).toEqual(['t9']);
+		expect(await AsyncStorage.getItem('theme_preference')).toBeNull();
+	});
+});
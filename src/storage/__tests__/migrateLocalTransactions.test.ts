@@ -0,0 +1,130 @@
+/**
+ * Local → account migration: dedupe, resume and partial success.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ApiService } from '../../services';
+import { migrateLocalTransactionsToBackend } from '../migrateLocalTransactions';
+import { loadTransactions, saveTransactions } from '../localTransactionStorage';
+
+jest.mock('../../services', () => ({
+	ApiService: { get: jest.fn(), post: jest.fn() },
+}));
+
+const api = ApiService as unknown as { get: jest.Mock; post: jest.Mock };
+
+let clock = 0;
+const row = (id: string, description: string, amount: number) => ({
+	id,
+	description,
+	amount,
+	date: '2026-03-18',
+	type: 'expense' as const,
+	updatedAt: new Date(Date.UTC(2026, 2, 18, 9, clock++)).toISOString(),
+});
+
+describe('migrateLocalTransactionsToBackend', () => {
+	beforeEach(async () => {
+		await AsyncStorage.clear();
+		api.get.mockReset();
+		api.post.mockReset();
+	});
+
+	it('skips rows the account already has and uploads the rest', async () => {
+		await saveTransactions([row('local-1', 'Coffee', -5), row('local-2', 'Bagel', -3)]);
+		api.get.mockResolvedValue({
+			success: true,
+			data: [{ _id: 's1', description: 'coffee', amount: 5, date: '2026-03-18T00:00:00.000Z' }],
+		});
+		api.post.mockResolvedValue({ success: true, data: { _id: 's2' } });
+
+		const result = await migrateLocalTransactionsToBackend('uid-1');
+
+		expect(result.success).toBe(true);
+		expect(result.migratedCount).toBe(1);
+		expect(result.results.map((r) => r.status)).toEqual(['duplicate', 'uploaded']);
+		expect(api.post).toHaveBeenCalledTimes(1);
+		expect(await loadTransactions()).toEqual([]);
+	});
+
+	it('keeps unsent rows after a dropped connection and resumes without re-sending', async () => {
+		await saveTransactions([row('local-1', 'Coffee', -5), row('local-2', 'Bagel', -3)]);
+		api.get.mockResolvedValue({ success: true, data: [] });
+		api.post
+			.mockResolvedValueOnce({ success: true, data: { _id: 's1' } })
+			.mockRejectedValueOnce(new TypeError('Network request failed'));
+
+		const first = await migrateLocalTransactionsToBackend('uid-1');
+		expect(first.success).toBe(false);
+		expect(first.results.map((r) => r.status)).toEqual(['uploaded', 'pending']);
+		expect((await loadTransactions()).map((t) => t.id)).toEqual(['local-2']);
+
+		api.get.mockResolvedValue({
+			success: true,
+			data: [{ _id: 's1', description: 'Coffee', amount: -5, date: '2026-03-18' }],
+		});
+		api.post.mockResolvedValueOnce({ success: true, data: { _id: 's2' } });
+
+		const second = await migrateLocalTransactionsToBackend('uid-1');
+		expect(second.success).toBe(true);
+		expect(second.results.map((r) => r.status)).toEqual(['uploaded']);
+		expect(api.post).toHaveBeenCalledTimes(3);
+	});
+
+	it('reports server rejections per row and keeps them on the device', async () => {
+		await saveTransactions([row('local-1', 'Coffee', -5), row('local-2', 'Bagel', -3)]);
+		api.get.mockResolvedValue({ success: true, data: [] });
+		api.post
+			.mockResolvedValueOnce({ success: false, error: 'Invalid amount', status: 400 })
+			.mockResolvedValueOnce({ success: true, data: { _id: 's2' } });
+
+		const result = await migrateLocalTransactionsToBackend('uid-1');
+
+		expect(result.success).toBe(false);
+		expect(result.migratedCount).toBe(1);
+		expect(result.results[0]).toMatchObject({ status: 'failed', error: 'Invalid amount' });
+		expect((await loadTransactions()).map((t) => t.id)).toEqual(['local-1']);
+	});
+
+	it('stops and keeps rows pending when a failure has no status', async () => {
+		await saveTransactions([row('local-1', 'Coffee', -5), row('local-2', 'Bagel', -3)]);
+		api.get.mockResolvedValue({ success: true, data: [] });
+		api.post.mockResolvedValue({ success: false, error: 'User not authenticated' });
+
+		const result = await migrateLocalTransactionsToBackend('uid-1');
+
+		expect(result.success).toBe(false);
+		expect(result.results.map((r) => r.status)).toEqual(['pending', 'pending']);
+		expect(api.post).toHaveBeenCalledTimes(1);
+		expect(await loadTransactions()).toHaveLength(2);
+	});
+
+	it('uploads an entry in its own currency', async () => {
+		await saveTransactions([{ ...row('local-1', 'Ramen', -1500), currency: 'JPY' }]);
+		api.get.mockResolvedValue({ success: true, data: [] });
+		api.post.mockResolvedValue({ success: true, data: { _id: 's1' } });
+
+		await migrateLocalTransactionsToBackend('uid-1');
+
+		expect(api.post).toHaveBeenCalledWith(
+			'/api/transactions',
+			expect.objectContaining({ amount: -1500, currency: 'JPY' })
+		);
+	});
+
+	it('uploads the lines of a split entry', async () => {
+		const splits = [
+			{ amount: 60, category: 'Groceries' },
+			{ amount: 20, category: 'Household', note: 'soap' },
+		];
+		await saveTransactions([{ ...row('local-1', 'Market', -80), splits }]);
+		api.get.mockResolvedValue({ success: true, data: [] });
+		api.post.mockResolvedValue({ success: true, data: { _id: 's1' } });
+
+		await migrateLocalTransactionsToBackend('uid-1');
+
+		expect(api.post).toHaveBeenCalledWith(
+			'/api/transactions',
+			expect.objectContaining({ amount: -80, splits })
+		);
+	});
+});
@@ -0,0 +1,81 @@
+/**
+ * Versioned storage migrations: ordering, dry run, failure isolation, rollback.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+	getStorageVersion,
+	groupStorageMigrations,
+	rollbackStorageMigration,
+	runStorageMigrations,
+	type StorageMigration,
+} from '../storageMigrations';
+
+const KEY = 'test_rows';
+
+const registry: StorageMigration[] = [
+	{
+		key: KEY,
+		version: 2,
+		description: 'add currency',
+		migrate: (rows) => (rows as any[]).map((r) => ({ ...r, currency: 'USD' })),
+	},
+	{
+		key: KEY,
+		version: 1,
+		description: 'amount to number',
+		migrate: (rows) => (rows as any[]).map((r) => ({ ...r, amount: Number(r.amount) })),
+	},
+];
+
+describe('storageMigrations', () => {
+	beforeEach(async () => {
+		await AsyncStorage.clear();
+		await AsyncStorage.setItem(KEY, JSON.stringify([{ amount: '5' }]));
+	});
+
+	it('runs steps in version order and stamps the key', async () => {
+		const [report] = await runStorageMigrations(registry);
+
+		expect(report).toMatchObject({ status: 'migrated', fromVersion: 0, toVersion: 2 });
+		expect(report.applied).toEqual(['amount to number', 'add currency']);
+		expect(JSON.parse((await AsyncStorage.getItem(KEY))!)).toEqual([
+			{ amount: 5, currency: 'USD' },
+		]);
+		expect(await getStorageVersion(KEY)).toBe(2);
+
+		const [again] = await runStorageMigrations(registry);
+		expect(again.status).toBe('up-to-date');
+	});
+
+	it('writes nothing on a dry run', async () => {
+		const [report] = await runStorageMigrations(registry, { dryRun: true });
+
+		expect(report.status).toBe('dry-run');
+		expect(await AsyncStorage.getItem(KEY)).toBe(JSON.stringify([{ amount: '5' }]));
+		expect(await getStorageVersion(KEY)).toBe(0);
+	});
+
+	it('leaves data untouched when a step throws', async () => {
+		const broken: StorageMigration[] = [
+			registry[1],
+			{ key: KEY, version: 2, description: 'boom', migrate: () => { throw new Error('boom'); } },
+		];
+		const [report] = await runStorageMigrations(broken);
+
+		expect(report).toMatchObject({ status: 'failed', error: 'boom' });
+		expect(await AsyncStorage.getItem(KEY)).toBe(JSON.stringify([{ amount: '5' }]));
+	});
+
+	it('rolls back to the snapshot taken before migrating', async () => {
+		await runStorageMigrations(registry);
+
+		expect(await rollbackStorageMigration(KEY)).toBe(true);
+		expect(await AsyncStorage.getItem(KEY)).toBe(JSON.stringify([{ amount: '5' }]));
+		expect(await getStorageVersion(KEY)).toBe(0);
+		expect(await rollbackStorageMigration(KEY)).toBe(false);
+	});
+
+	it('rejects gaps in a key’s version numbers', () => {
+		expect(() => groupStorageMigrations([registry[0]])).toThrow(/numbered 1..1/);
+	});
+});
@@ -0,0 +1,122 @@
+/**
+ * Offline outbox: what gets sent, in what order, and with which ids.
+ */
+import {
+	enqueueOutboxOperation,
+	isRetryableWriteError,
+	replayOutbox,
+	type OutboxOperation,
+} from '../transactionOutbox';
+
+const at = '2026-03-18T09:00:00.000Z';
+const create = (id: string, amount: number): OutboxOperation => ({
+	opId: `c-${id}`,
+	kind: 'create',
+	transactionId: id,
+	payload: { amount, date: at, type: 'expense' },
+	queuedAt: at,
+});
+
+describe('transactionOutbox', () => {
+	it('folds edits into an unsent create and cancels it on delete', () => {
+		let ops = enqueueOutboxOperation([], create('local-1', -5));
+		ops = enqueueOutboxOperation(ops, {
+			opId: 'u1',
+			kind: 'update',
+			transactionId: 'local-1',
+			payload: { amount: -6 },
+			queuedAt: at,
+		});
+		expect(ops).toHaveLength(1);
+		expect(ops[0].kind === 'create' && ops[0].payload.amount).toBe(-6);
+
+		ops = enqueueOutboxOperation(ops, {
+			opId: 'd1',
+			kind: 'delete',
+			transactionId: 'local-1',
+			queuedAt: at,
+		});
+		expect(ops).toEqual([]);
+	});
+
+	it('replays in order and remaps local ids to server ids', async () => {
+		const calls: string[] = [];
+		const ops: OutboxOperation[] = [
+			create('local-1', -5),
+			{ opId: 'd1', kind: 'delete', transactionId: 'local-1', queuedAt: at },
+		];
+		const result = await replayOutbox(ops, {
+			create: async () => {
+				calls.push('create');
+				return 'srv-1';
+			},
+			update: async () => {},
+			delete: async (id) => {
+				calls.push(`delete ${id}`);
+			},
+		});
+		expect(calls).toEqual(['create', 'delete srv-1']);
+		expect(result.idMap).toEqual({ 'local-1': 'srv-1' });
+		expect(result.remaining).toEqual([]);
+	});
+
+	it('stops at a network failure and keeps the rest queued', async () => {
+		const result = await replayOutbox([create('local-1', -5), create('local-2', -3)], {
+			create: async () => {
+				throw new TypeError('Network request failed');
+			},
+			update: async () => {},
+			delete: async () => {},
+		});
+		expect(result.remaining.map((o) => o.transactionId)).toEqual([
+			'local-1',
+			'local-2',
+		]);
+		expect(result.dropped).toEqual([]);
+	});
+
+	it('keeps an op queued when the write fails without an HTTP status', async () => {
+		const update: OutboxOperation = {
+			opId: 'u1',
+			kind: 'update',
+			transactionId: 'srv-1',
+			payload: { amount: -6 },
+			queuedAt: at,
+		};
+		const result = await replayOutbox([update], {
+			create: async () => 'srv-2',
+			// ApiService.put returns { success: false } with no status on a network error
+			update: async () => {
+				throw Object.assign(new Error('Network request failed'), { status: undefined });
+			},
+			delete: async () => {},
+		});
+		expect(result.remaining).toEqual([update]);
+		expect(result.dropped).toEqual([]);
+	});
+
+	it('keeps writes queued while the sign-in has expired', async () => {
+		const result = await replayOutbox([create('local-1', -5), create('local-2', -3)], {
+			create: async () => {
+				throw Object.assign(new Error('Unauthorized'), { status: 401 });
+			},
+			update: async () => {},
+			delete: async () => {},
+		});
+		expect(result.remaining.map((o) => o.transactionId)).toEqual(['local-1', 'local-2']);
+		expect(result.dropped).toEqual([]);
+	});
+
+	it('drops only writes the server rejected as invalid', () => {
+		const withStatus = (status: number) => Object.assign(new Error('x'), { status });
+		for (const status of [400, 404, 409, 422]) {
+			expect(isRetryableWriteError(withStatus(status))).toBe(false);
+		}
+		expect(isRetryableWriteError(withStatus(401))).toBe(true);
+		expect(isRetryableWriteError(withStatus(403))).toBe(true);
+		expect(isRetryableWriteError(withStatus(408))).toBe(true);
+		expect(isRetryableWriteError(withStatus(429))).toBe(true);
+		expect(isRetryableWriteError(withStatus(503))).toBe(true);
+		expect(isRetryableWriteError(new Error('Failed to update transaction'))).toBe(true);
+	});
+});
@@ -0,0 +1,39 @@
+/**
+ * In-memory query semantics; the SQLite store mirrors these in SQL.
+ */
+import { filterTransactions } from '../transactionQuery';
+import type { Transaction } from '../../context/transactionContext';
+
+const tx = (id: string, date: string, extra: Partial<Transaction> = {}): Transaction => ({
+	id,
+	date,
+	amount: -5,
+	type: 'expense',
+	...extra,
+});
+
+const list = [
+	tx('a', '2026-03-01', { description: 'Coffee', metadata: { category: 'Food' } }),
+	tx('b', '2026-03-10T12:00:00.000Z', { vendor: 'Corner Store' }),
+	tx('c', '2026-03-20', { type: 'income', amount: 100, description: 'Paycheck' }),
+];
+
+describe('filterTransactions', () => {
+	it('applies inclusive day bounds to date-only and ISO dates', () => {
+		expect(
+			filterTransactions(list, { from: '2026-03-10', to: '2026-03-20' }).map((t) => t.id)
+		).toEqual(['c', 'b']);
+	});
+
+	it('matches category case-insensitively and text across fields', () => {
+		expect(filterTransactions(list, { category: 'food' }).map((t) => t.id)).toEqual(['a']);
+		expect(filterTransactions(list, { text: 'corner' }).map((t) => t.id)).toEqual(['b']);
+	});
+
+	it('filters by type and honours limit', () => {
+		expect(filterTransactions(list, { types: ['expense'], limit: 1 }).map((t) => t.id)).toEqual([
+			'b',
+		]);
+		expect(filterTransactions(list, { types: [] })).toEqual([]);
+	});
+});
@@ -0,0 +1,42 @@
+/**
+ * On-device account list, shared by local and signed-in modes. Balances are
+ * not stored: they are derived from opening balances and transactions.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_ACCOUNTS, type Account } from '../lib/accounts';
+
+export const ACCOUNTS_KEY = 'brie_accounts';
+
+function isAccount(value: unknown): value is Account {
+	if (!value || typeof value !== 'object') return false;
+	const a = value as Record<string, unknown>;
+	return (
+		typeof a.id === 'string' &&
+		typeof a.name === 'string' &&
+		typeof a.kind === 'string' &&
+		typeof a.openingBalance === 'number'
+	);
+}
+
+/** The stored list, or the defaults when nothing has been saved yet. */
+export async function loadAccounts(): Promise<Account[]> {
+	try {
+		const json = await AsyncStorage.getItem(ACCOUNTS_KEY);
+		if (!json) return DEFAULT_ACCOUNTS;
+		const parsed = JSON.parse(json);
+		const accounts = Array.isArray(parsed) ? parsed.filter(isAccount) : [];
+		return accounts.length > 0 ? accounts : DEFAULT_ACCOUNTS;
+	} catch (err) {
+		console.warn('[AccountStorage] load failed:', err);
+		return DEFAULT_ACCOUNTS;
+	}
+}
+
+export async function saveAccounts(accounts: Account[]): Promise<void> {
+	try {
+		await AsyncStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+	} catch (err) {
+		console.warn('[AccountStorage] save failed:', err);
+		throw err;
+	}
+}
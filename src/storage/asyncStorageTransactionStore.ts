@@ -0,0 +1,38 @@
+/**
+ * Fallback TransactionStore: the whole list as one JSON string in AsyncStorage
+ * (`brie_transactions`). Every write rewrites the list.
+ */
+import type { Transaction } from '../context/transactionContext';
+import { loadTransactions, saveTransactions } from './localTransactionStorage';
+import {
+	compareTransactionsNewestFirst,
+	filterTransactions,
+} from './transactionQuery';
+import type { TransactionStore } from './transactionStore';
+
+export function createAsyncStorageTransactionStore(): TransactionStore {
+	return {
+		kind: 'async-storage',
+		async getAll() {
+			const all = await loadTransactions();
+			return all.sort(compareTransactionsNewestFirst);
+		},
+		async query(query) {
+			return filterTransactions(await loadTransactions(), query);
+		},
+		async put(transaction: Transaction) {
+			const all = await loadTransactions();
+			const index = all.findIndex((t) => t.id === transaction.id);
+			if (index >= 0) all[index] = transaction;
+			else all.unshift(transaction);
+			await saveTransactions(all);
+		},
+		async remove(id) {
+			const all = await loadTransactions();
+			await saveTransactions(all.filter((t) => t.id !== id));
+		},
+		async replaceAll(transactions) {
+			await saveTransactions(transactions);
+		},
+	};
+}
@@ -0,0 +1,366 @@
+/**
+ * Full backup of on-device data: local-mode transactions plus every
+ * app-owned storage key in `BACKUP_KEYS`, bundled into a versioned JSON
+ * archive. With a passphrase the archive is wrapped in an encrypted envelope
+ * (PBKDF2-SHA256 key, AES-256-CBC, HMAC-SHA256 over the ciphertext). Restore
+ * validates first, then merges into or replaces what is on the device.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import CryptoJS from 'crypto-js';
+import type { Transaction } from '../context/transactionContext';
+import * as safeStorage from '../utils/safeStorage';
+import { CATEGORIES_KEY } from './categoryStorage';
+import { CATEGORY_RULES_KEY } from './categoryRuleStorage';
+import { ACCOUNTS_KEY } from './accountStorage';
+import { BUDGETS_KEY } from './budgetStorage';
+import { GOALS_KEY } from './goalStorage';
+import { DEBT_PLAN_KEY, DEBTS_KEY } from './debtStorage';
+import { CURRENCY_KEY } from './currencyStorage';
+import { LOCALE_KEY } from './localeStorage';
+import { DISMISSED_PATTERNS_KEY, RECURRING_KEY } from './recurringStorage';
+import { LOCAL_NOTIFICATIONS_KEY, QUIET_HOURS_KEY } from './notificationStorage';
+import { getTransactionStore } from './transactionStore';
+
+export const BACKUP_FORMAT = 'brie-backup';
+export const BACKUP_VERSION = 1;
+
+/** The only count accepted from a file, so a crafted one can neither weaken the key nor hang restore. */
+const PBKDF2_ITERATIONS = 100000;
+
+export type BackupKey = {
+	key: string;
+	/** Shown in the restore preview. */
+	label: string;
+	/** Stored through `safeStorage` (SecureStore when available). */
+	secure?: boolean;
+};
+
+/** App-owned keys worth carrying to a new phone. Auth, caches and sync state are left out. */
+export const BACKUP_KEYS: BackupKey[] = [
+	// src/config/features.ts
+	{ key: '@flags', label: 'Feature overrides' },
+	// src/lib/captureRecentChips.ts
+	{ key: 'capture_recent_chips', label: 'Capture shortcuts', secure: true },
+	// src/context/ThemeContext.tsx
+	{ key: 'theme_preference', label: 'Theme' },
+	// src/storage/categoryStorage.ts
+	{ key: CATEGORIES_KEY, label: 'Categories' },
+	// src/storage/categoryRuleStorage.ts
+	{ key: CATEGORY_RULES_KEY, label: 'Category rules' },
+	// src/storage/accountStorage.ts
+	{ key: ACCOUNTS_KEY, label: 'Accounts' },
+	// src/storage/currencyStorage.ts
+	{ key: CURRENCY_KEY, label: 'Currency and exchange rates' },
+	// src/storage/localeStorage.ts
+	{ key: LOCALE_KEY, label: 'Number and date format' },
+	// src/storage/recurringStorage.ts
+	{ key: RECURRING_KEY, label: 'Recurring bills' },
+	{ key: DISMISSED_PATTERNS_KEY, label: 'Dismissed bill suggestions' },
+	// src/storage/budgetStorage.ts
+	{ key: BUDGETS_KEY, label: 'Budgets' },
+	// src/storage/goalStorage.ts
+	{ key: GOALS_KEY, label: 'Goals' },
+	// src/storage/debtStorage.ts
+	{ key: DEBTS_KEY, label: 'Debts' },
+	{ key: DEBT_PLAN_KEY, label: 'Debt payoff plan' },
+	// src/storage/notificationStorage.ts
+	{ key: QUIET_HOURS_KEY, label: 'Quiet hours' },
+	{ key: LOCAL_NOTIFICATIONS_KEY, label: 'Notification history' },
+];
+
+export type BackupArchive = {
+	format: typeof BACKUP_FORMAT;
+	version: number;
+	createdAt: string;
+	transactions: Transaction[];
+	/** Raw stored values; keys unset on the source device are absent. */
+	keys: Record<string, string>;
+};
+
+type EncryptedBackupEnvelope = {
+	format: typeof BACKUP_FORMAT;
+	version: number;
+	encrypted: {
+		kdf: 'pbkdf2-sha256';
+		iterations: number;
+		salt: string;
+		iv: string;
+		mac: string;
+		ciphertext: string;
+	};
+};
+
+export type BackupErrorCode =
+	| 'invalid'
+	| 'unsupported_version'
+	| 'passphrase_required'
+	| 'wrong_passphrase';
+
+export class BackupError extends Error {
+	constructor(
+		message: string,
+		public code: BackupErrorCode
+	) {
+		super(message);
+		this.name = 'BackupError';
+	}
+}
+
+export type BackupSummary = {
+	createdAt: string;
+	transactionCount: number;
+	/** Labels of the settings the archive carries. */
+	settings: string[];
+};
+
+/** `merge` keeps device data and adds what is missing; `replace` makes the device match the archive. */
+export type BackupRestoreMode = 'merge' | 'replace';
+
+export type BackupRestoreResult = {
+	transactionCount: number;
+	/** Transactions new to this device (or newer than the device copy). */
+	transactionsWritten: number;
+	settingsWritten: number;
+};
+
+async function readKey(entry: BackupKey): Promise<string | null> {
+	return entry.secure ? safeStorage.getItem(entry.key) : AsyncStorage.getItem(entry.key);
+}
+
+async function writeKey(entry: BackupKey, value: string): Promise<void> {
+	if (entry.secure) await safeStorage.setItem(entry.key, value);
+	else await AsyncStorage.setItem(entry.key, value);
+}
+
+async function removeKey(entry: BackupKey): Promise<void> {
+	if (entry.secure) await safeStorage.removeItem(entry.key);
+	else await AsyncStorage.removeItem(entry.key);
+}
+
+export async function createBackupArchive(now: Date = new Date()): Promise<BackupArchive> {
+	const store = await getTransactionStore();
+	const transactions = await store.getAll();
+	const keys: Record<string, string> = {};
+	for (const entry of BACKUP_KEYS) {
+		const value = await readKey(entry);
+		if (value != null) keys[entry.key] = value;
+	}
+	return {
+		format: BACKUP_FORMAT,
+		version: BACKUP_VERSION,
+		createdAt: now.toISOString(),
+		transactions,
+		keys,
+	};
+}
+
+/** One PBKDF2 run (it is slow in JS); the MAC key is derived from its output. */
+function deriveKeys(passphrase: string, salt: CryptoJS.lib.WordArray, iterations: number) {
+	const encKey = CryptoJS.PBKDF2(passphrase, salt, {
+		keySize: 256 / 32,
+		iterations,
+		hasher: CryptoJS.algo.SHA256,
+	});
+	return { encKey, macKey: CryptoJS.HmacSHA256('brie-backup-mac', encKey) };
+}
+
+/** Archive as a file body; encrypted when a non-empty passphrase is given. */
+export function serializeBackup(archive: BackupArchive, passphrase?: string): string {
+	const plain = JSON.stringify(archive);
+	if (!passphrase) return plain + '\n';
+
+	const salt = CryptoJS.lib.WordArray.random(16);
+	const iv = CryptoJS.lib.WordArray.random(16);
+	const { encKey, macKey } = deriveKeys(passphrase, salt, PBKDF2_ITERATIONS);
+	const ciphertext = CryptoJS.AES.encrypt(plain, encKey, { iv }).ciphertext.toString(
+		CryptoJS.enc.Base64
+	);
+	const ivText = iv.toString(CryptoJS.enc.Base64);
+	const envelope: EncryptedBackupEnvelope = {
+		format: BACKUP_FORMAT,
+		version: archive.version,
+		encrypted: {
+			kdf: 'pbkdf2-sha256',
+			iterations: PBKDF2_ITERATIONS,
+			salt: salt.toString(CryptoJS.enc.Base64),
+			iv: ivText,
+			mac: CryptoJS.HmacSHA256(ivText + ciphertext, macKey).toString(CryptoJS.enc.Hex),
+			ciphertext,
+		},
+	};
+	return JSON.stringify(envelope) + '\n';
+}
+
+function parseJson(text: string): Record<string, unknown> {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text.replace(/^\uFEFF/, ''));
+	} catch {
+		throw new BackupError('This file is not a Brie backup.', 'invalid');
+	}
+	const raw = parsed as Record<string, unknown> | null;
+	if (!raw || typeof raw !== 'object' || raw.format !== BACKUP_FORMAT) {
+		throw new BackupError('This file is not a Brie backup.', 'invalid');
+	}
+	if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+		throw new BackupError(
+			'This backup was made by a newer version of Brie. Update the app and try again.',
+			'unsupported_version'
+		);
+	}
+	return raw;
+}
+
+/** True when the file needs a passphrase before it can be read. */
+export function isEncryptedBackup(text: string): boolean {
+	try {
+		return 'encrypted' in parseJson(text);
+	} catch {
+		return false;
+	}
+}
+
+/** Compares every character so the time taken does not reveal how much of the MAC matched. */
+function constantTimeEqual(a: string, b: string): boolean {
+	if (a.length !== b.length) return false;
+	let diff = 0;
+	for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+	return diff === 0;
+}
+
+function isEnvelope(value: unknown): value is EncryptedBackupEnvelope['encrypted'] {
+	if (!value || typeof value !== 'object') return false;
+	const e = value as Record<string, unknown>;
+	return (
+		e.kdf === 'pbkdf2-sha256' &&
+		e.iterations === PBKDF2_ITERATIONS &&
+		typeof e.salt === 'string' &&
+		typeof e.iv === 'string' &&
+		typeof e.mac === 'string' &&
+		typeof e.ciphertext === 'string'
+	);
+}
+
+function decrypt(envelope: unknown, passphrase: string): string {
+	if (!isEnvelope(envelope)) {
+		throw new BackupError('The encryption details in this backup are damaged.', 'invalid');
+	}
+	const salt = CryptoJS.enc.Base64.parse(envelope.salt);
+	const { encKey, macKey } = deriveKeys(passphrase, salt, envelope.iterations);
+	const mac = CryptoJS.HmacSHA256(envelope.iv + envelope.ciphertext, macKey).toString(
+		CryptoJS.enc.Hex
+	);
+	if (!constantTimeEqual(mac, envelope.mac)) {
+		throw new BackupError('That passphrase does not open this backup.', 'wrong_passphrase');
+	}
+	try {
+		const params = CryptoJS.lib.CipherParams.create({
+			ciphertext: CryptoJS.enc.Base64.parse(envelope.ciphertext),
+		});
+		return CryptoJS.AES.decrypt(params, encKey, {
+			iv: CryptoJS.enc.Base64.parse(envelope.iv),
+		}).toString(CryptoJS.enc.Utf8);
+	} catch {
+		// e.g. "Malformed UTF-8 data" from a file altered before its MAC was computed
+		throw new BackupError('This backup is damaged and cannot be decrypted.', 'invalid');
+	}
+}
+
+function isTransaction(value: unknown): value is Transaction {
+	if (!value || typeof value !== 'object') return false;
+	const tx = value as Record<string, unknown>;
+	return (
+		typeof tx.id === 'string' &&
+		typeof tx.date === 'string' &&
+		typeof tx.amount === 'number' &&
+		Number.isFinite(tx.amount) &&
+		(tx.type === 'income' || tx.type === 'expense' || tx.type === 'transfer')
+	);
+}
+
+/** Read and validate a backup file. Throws `BackupError` with a user-facing message. */
+export function parseBackup(text: string, passphrase?: string): BackupArchive {
+	let raw = parseJson(text);
+	if ('encrypted' in raw) {
+		if (!passphrase) {
+			throw new BackupError('This backup is encrypted. Enter its passphrase.', 'passphrase_required');
+		}
+		raw = parseJson(decrypt(raw.encrypted, passphrase));
+	}
+
+	const { transactions, keys, createdAt } = raw;
+	if (!Array.isArray(transactions) || !transactions.every(isTransaction)) {
+		throw new BackupError('The transactions in this backup are damaged.', 'invalid');
+	}
+	if (
+		!keys ||
+		typeof keys !== 'object' ||
+		!Object.values(keys).every((v) => typeof v === 'string')
+	) {
+		throw new BackupError('The settings in this backup are damaged.', 'invalid');
+	}
+	return {
+		format: BACKUP_FORMAT,
+		version: raw.version as number,
+		createdAt: typeof createdAt === 'string' ? createdAt : '',
+		transactions,
+		keys: keys as Record<string, string>,
+	};
+}
+
+export function summarizeBackup(archive: BackupArchive): BackupSummary {
+	return {
+		createdAt: archive.createdAt,
+		transactionCount: archive.transactions.length,
+		settings: BACKUP_KEYS.filter((entry) => entry.key in archive.keys).map((e) => e.label),
+	};
+}
+
+function updatedMs(tx: Transaction): number {
+	const ms = tx.updatedAt ? Date.parse(tx.updatedAt) : NaN;
+	return Number.isFinite(ms) ? ms : 0;
+}
+
+/** Union by id; when both sides have a transaction, the later `updatedAt` wins (device on ties). */
+export function mergeBackupTransactions(
+	current: Transaction[],
+	incoming: Transaction[]
+): { transactions: Transaction[]; written: number } {
+	const byId = new Map(current.map((tx) => [tx.id, tx]));
+	let written = 0;
+	for (const tx of incoming) {
+		const existing = byId.get(tx.id);
+		if (existing && updatedMs(existing) >= updatedMs(tx)) continue;
+		byId.set(tx.id, tx);
+		written += 1;
+	}
+	return { transactions: [...byId.values()], written };
+}
+
+export async function restoreBackup(
+	archive: BackupArchive,
+	mode: BackupRestoreMode
+): Promise<BackupRestoreResult> {
+	const store = await getTransactionStore();
+	const current = await store.getAll();
+	const { transactions, written } =
+		mode === 'replace'
+			? { transactions: archive.transactions, written: archive.transactions.length }
+			: mergeBackupTransactions(current, archive.transactions);
+	await store.replaceAll(transactions);
+
+	let settingsWritten = 0;
+	for (const entry of BACKUP_KEYS) {
+		const value = archive.keys[entry.key];
+		if (value == null) {
+			if (mode === 'replace') await removeKey(entry);
+			continue;
+		}
+		// Merge keeps settings already chosen on this device
+		if (mode === 'merge' && (await readKey(entry)) != null) continue;
+		await writeKey(entry, value);
+		settingsWritten += 1;
+	}
+
+	return { transactionCount: transactions.length, transactionsWritten: written, settingsWritten };
+}
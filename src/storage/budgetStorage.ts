@@ -0,0 +1,69 @@
+/**
+ * On-device budgets, shared by local and signed-in modes, and the alerts
+ * already sent for their current periods. Spending is not stored: it is
+ * summed from the transactions in each budget's period.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Budget } from '../context/budgetContext';
+
+export const BUDGETS_KEY = 'brie_budgets';
+export const BUDGET_ALERTS_KEY = 'brie_budget_alerts';
+
+function isBudget(value: unknown): value is Budget {
+	if (!value || typeof value !== 'object') return false;
+	const b = value as Record<string, unknown>;
+	return (
+		typeof b.id === 'string' &&
+		typeof b.name === 'string' &&
+		typeof b.amount === 'number' &&
+		(b.period === 'weekly' || b.period === 'biweekly' || b.period === 'monthly')
+	);
+}
+
+/** The stored budgets, or none when nothing has been saved yet. */
+export async function loadBudgets(): Promise<Budget[]> {
+	try {
+		const json = await AsyncStorage.getItem(BUDGETS_KEY);
+		if (!json) return [];
+		const parsed = JSON.parse(json);
+		return Array.isArray(parsed)
+			? parsed.filter(isBudget).map((b) => ({
+					...b,
+					categories: Array.isArray(b.categories) ? b.categories : [],
+				}))
+			: [];
+	} catch (err) {
+		console.warn('[BudgetStorage] load failed:', err);
+		return [];
+	}
+}
+
+export async function saveBudgets(budgets: Budget[]): Promise<void> {
+	try {
+		await AsyncStorage.setItem(BUDGETS_KEY, JSON.stringify(budgets));
+	} catch (err) {
+		console.warn('[BudgetStorage] save failed:', err);
+		throw err;
+	}
+}
+
+/** `budgetAlertKey`s already notified. */
+export async function loadSentBudgetAlerts(): Promise<string[]> {
+	try {
+		const json = await AsyncStorage.getItem(BUDGET_ALERTS_KEY);
+		const parsed = json ? JSON.parse(json) : [];
+		return Array.isArray(parsed) ? parsed.filter((key) => typeof key === 'string') : [];
+	} catch (err) {
+		console.warn('[BudgetStorage] load alerts failed:', err);
+		return [];
+	}
+}
+
+export async function saveSentBudgetAlerts(keys: string[]): Promise<void> {
+	try {
+		await AsyncStorage.setItem(BUDGET_ALERTS_KEY, JSON.stringify(keys));
+	} catch (err) {
+		console.warn('[BudgetStorage] save alerts failed:', err);
+		throw err;
+	}
+}
@@ -0,0 +1,54 @@
+/**
+ * On-device auto-categorization rules. `autoCategorize` is the switch used
+ * in local mode; signed-in users have it in their profile preferences
+ * (`recurringExpenses.autoCategorization`) instead.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { CategorizationRule } from '../lib/categorization-rules';
+
+export const CATEGORY_RULES_KEY = 'brie_category_rules';
+
+export type StoredCategoryRules = {
+	rules: CategorizationRule[];
+	autoCategorize: boolean;
+};
+
+const EMPTY: StoredCategoryRules = { rules: [], autoCategorize: false };
+
+function isRule(value: unknown): value is CategorizationRule {
+	if (!value || typeof value !== 'object') return false;
+	const r = value as Record<string, unknown>;
+	return (
+		typeof r.id === 'string' &&
+		typeof r.pattern === 'string' &&
+		(r.match === 'contains' || r.match === 'regex')
+	);
+}
+
+export async function loadCategoryRules(): Promise<StoredCategoryRules> {
+	try {
+		const json = await AsyncStorage.getItem(CATEGORY_RULES_KEY);
+		if (!json) return EMPTY;
+		const parsed = JSON.parse(json);
+		return {
+			rules: Array.isArray(parsed?.rules)
+				? parsed.rules
+						.filter(isRule)
+						.map((r: CategorizationRule) => ({ ...r, enabled: r.enabled !== false }))
+				: [],
+			autoCategorize: parsed?.autoCategorize === true,
+		};
+	} catch (err) {
+		console.warn('[CategoryRuleStorage] load failed:', err);
+		return EMPTY;
+	}
+}
+
+export async function saveCategoryRules(state: StoredCategoryRules): Promise<void> {
+	try {
+		await AsyncStorage.setItem(CATEGORY_RULES_KEY, JSON.stringify(state));
+	} catch (err) {
+		console.warn('[CategoryRuleStorage] save failed:', err);
+		throw err;
+	}
+}
@@ -0,0 +1,57 @@
+/**
+ * On-device category list, shared by local and signed-in modes. Rewrites
+ * from a rename or merge are stored with the list and cleared only once
+ * every matching transaction has been updated, so an interrupted rewrite
+ * resumes on the next launch.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+	DEFAULT_CATEGORIES,
+	type Category,
+	type CategoryRewrite,
+} from '../lib/categories';
+
+export const CATEGORIES_KEY = 'brie_categories';
+
+export type StoredCategories = {
+	categories: Category[];
+	pendingRewrites: CategoryRewrite[];
+};
+
+function isCategory(value: unknown): value is Category {
+	if (!value || typeof value !== 'object') return false;
+	const c = value as Record<string, unknown>;
+	return (
+		typeof c.id === 'string' &&
+		typeof c.name === 'string' &&
+		(c.kind === 'expense' || c.kind === 'income')
+	);
+}
+
+/** The stored list, or the defaults when nothing has been saved yet. */
+export async function loadCategories(): Promise<StoredCategories> {
+	try {
+		const json = await AsyncStorage.getItem(CATEGORIES_KEY);
+		if (!json) return { categories: DEFAULT_CATEGORIES, pendingRewrites: [] };
+		const parsed = JSON.parse(json);
+		const categories = Array.isArray(parsed?.categories)
+			? parsed.categories.filter(isCategory)
+			: DEFAULT_CATEGORIES;
+		const pendingRewrites = Array.isArray(parsed?.pendingRewrites)
+			? parsed.pendingRewrites
+			: [];
+		return { categories, pendingRewrites };
+	} catch (err) {
+		console.warn('[CategoryStorage] load failed:', err);
+		return { categories: DEFAULT_CATEGORIES, pendingRewrites: [] };
+	}
+}
+
+export async function saveCategories(state: StoredCategories): Promise<void> {
+	try {
+		await AsyncStorage.setItem(CATEGORIES_KEY, JSON.stringify(state));
+	} catch (err) {
+		console.warn('[CategoryStorage] save failed:', err);
+		throw err;
+	}
+}
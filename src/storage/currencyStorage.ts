@@ -0,0 +1,54 @@
+/**
+ * On-device home currency and exchange-rate table, shared by local and
+ * signed-in modes. Signed-in users' home currency also lives in profile
+ * preferences (`goalSettings.defaults.currency`), which wins when present.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+	DEFAULT_CURRENCY_SETTINGS,
+	normalizeCurrencyCode,
+	type CurrencySettings,
+} from '../lib/currency';
+
+export const CURRENCY_KEY = 'brie_currency';
+
+function sanitizeRates(value: unknown): Record<string, number> {
+	const rates: Record<string, number> = {};
+	if (!value || typeof value !== 'object') return rates;
+	for (const [code, rate] of Object.entries(value as Record<string, unknown>)) {
+		const normalized = normalizeCurrencyCode(code);
+		if (normalized && typeof rate === 'number' && Number.isFinite(rate) && rate > 0) {
+			rates[normalized] = rate;
+		}
+	}
+	return rates;
+}
+
+/**
+ * The stored settings, or null when nothing has been saved on this device yet.
+ * Unreadable settings fall back to a USD home with no rates.
+ */
+export async function loadCurrencySettings(): Promise<CurrencySettings | null> {
+	try {
+		const json = await AsyncStorage.getItem(CURRENCY_KEY);
+		if (!json) return null;
+		const parsed = JSON.parse(json);
+		return {
+			home: normalizeCurrencyCode(parsed?.home) ?? DEFAULT_CURRENCY_SETTINGS.home,
+			rates: sanitizeRates(parsed?.rates),
+			updatedAt: typeof parsed?.updatedAt === 'string' ? parsed.updatedAt : undefined,
+		};
+	} catch (err) {
+		console.warn('[CurrencyStorage] load failed:', err);
+		return DEFAULT_CURRENCY_SETTINGS;
+	}
+}
+
+export async function saveCurrencySettings(settings: CurrencySettings): Promise<void> {
+	try {
+		await AsyncStorage.setItem(CURRENCY_KEY, JSON.stringify(settings));
+	} catch (err) {
+		console.warn('[CurrencyStorage] save failed:', err);
+		throw err;
+	}
+}
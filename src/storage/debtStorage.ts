@@ -0,0 +1,81 @@
+/**
+ * On-device debts and the chosen payoff plan, shared by local and signed-in
+ * modes. Payments are not stored: they are the transactions linked to each
+ * debt.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Debt, PayoffStrategy } from '../lib/debts';
+
+export const DEBTS_KEY = 'brie_debts';
+export const DEBT_PLAN_KEY = 'brie_debt_plan';
+
+export type DebtPlanSettings = {
+	strategy: PayoffStrategy;
+	/** Paid toward all debts each month; 0 means just the minimums. */
+	monthlyPayment: number;
+};
+
+export const DEFAULT_DEBT_PLAN: DebtPlanSettings = { strategy: 'avalanche', monthlyPayment: 0 };
+
+function isDebt(value: unknown): value is Debt {
+	if (!value || typeof value !== 'object') return false;
+	const d = value as Record<string, unknown>;
+	return (
+		typeof d.id === 'string' &&
+		typeof d.name === 'string' &&
+		typeof d.balance === 'number' &&
+		typeof d.balanceDate === 'string' &&
+		typeof d.apr === 'number' &&
+		typeof d.minPayment === 'number' &&
+		typeof d.dueDay === 'number'
+	);
+}
+
+/** The stored debts, or none when nothing has been saved yet. */
+export async function loadDebts(): Promise<Debt[]> {
+	try {
+		const json = await AsyncStorage.getItem(DEBTS_KEY);
+		if (!json) return [];
+		const parsed = JSON.parse(json);
+		return Array.isArray(parsed) ? parsed.filter(isDebt) : [];
+	} catch (err) {
+		console.warn('[DebtStorage] load failed:', err);
+		return [];
+	}
+}
+
+export async function saveDebts(debts: Debt[]): Promise<void> {
+	try {
+		await AsyncStorage.setItem(DEBTS_KEY, JSON.stringify(debts));
+	} catch (err) {
+		console.warn('[DebtStorage] save failed:', err);
+		throw err;
+	}
+}
+
+export async function loadDebtPlan(): Promise<DebtPlanSettings> {
+	try {
+		const json = await AsyncStorage.getItem(DEBT_PLAN_KEY);
+		if (!json) return DEFAULT_DEBT_PLAN;
+		const parsed = JSON.parse(json);
+		return {
+			strategy: parsed?.strategy === 'snowball' ? 'snowball' : 'avalanche',
+			monthlyPayment:
+				typeof parsed?.monthlyPayment === 'number' && parsed.monthlyPayment > 0
+					? parsed.monthlyPayment
+					: 0,
+		};
+	} catch (err) {
+		console.warn('[DebtStorage] plan load failed:', err);
+		return DEFAULT_DEBT_PLAN;
+	}
+}
+
+export async function saveDebtPlan(plan: DebtPlanSettings): Promise<void> {
+	try {
+		await AsyncStorage.setItem(DEBT_PLAN_KEY, JSON.stringify(plan));
+	} catch (err) {
+		console.warn('[DebtStorage] plan save failed:', err);
+		throw err;
+	}
+}
@@ -0,0 +1,47 @@
+/**
+ * On-device goals, shared by local and signed-in modes. Contributions are
+ * not stored: they are the transactions linked to each goal.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Goal } from '../context/goalContext';
+
+export const GOALS_KEY = 'brie_goals';
+
+function isGoal(value: unknown): value is Goal {
+	if (!value || typeof value !== 'object') return false;
+	const g = value as Record<string, unknown>;
+	return (
+		typeof g.id === 'string' &&
+		typeof g.name === 'string' &&
+		typeof g.target === 'number' &&
+		typeof g.deadline === 'string'
+	);
+}
+
+/** The stored goals, or none when nothing has been saved yet. */
+export async function loadGoals(): Promise<Goal[]> {
+	try {
+		const json = await AsyncStorage.getItem(GOALS_KEY);
+		if (!json) return [];
+		const parsed = JSON.parse(json);
+		return Array.isArray(parsed)
+			? parsed.filter(isGoal).map((g) => ({
+					...g,
+					current: typeof g.current === 'number' ? g.current : 0,
+					categories: Array.isArray(g.categories) ? g.categories : [],
+				}))
+			: [];
+	} catch (err) {
+		console.warn('[GoalStorage] load failed:', err);
+		return [];
+	}
+}
+
+export async function saveGoals(goals: Goal[]): Promise<void> {
+	try {
+		await AsyncStorage.setItem(GOALS_KEY, JSON.stringify(goals));
+	} catch (err) {
+		console.warn('[GoalStorage] save failed:', err);
+		throw err;
+	}
+}
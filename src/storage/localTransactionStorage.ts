@@ -5,7 +5,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import type { Transaction } from '../context/transactionContext';
 
-const STORAGE_KEY = 'brie_transactions';
+export const LOCAL_TRANSACTIONS_KEY = 'brie_transactions';
 
 function formatFromStorage(raw: any): Transaction {
 	const amount =
@@ -23,13 +23,15 @@ function formatFromStorage(raw: any): Transaction {
 		notes: raw.notes,
 		source: raw.source ?? 'manual',
 		vendor: raw.vendor,
+		currency: raw.currency,
 		metadata: raw.metadata,
+		splits: raw.splits,
 	};
 }
 
 export async function loadTransactions(): Promise<Transaction[]> {
 	try {
-		const json = await AsyncStorage.getItem(STORAGE_KEY);
+		const json = await AsyncStorage.getItem(LOCAL_TRANSACTIONS_KEY);
 		if (!json) return [];
 		const parsed = JSON.parse(json);
 		const arr = Array.isArray(parsed) ? parsed : [];
@@ -42,7 +44,7 @@ export async function loadTransactions(): Promise<Transaction[]> {
 
 export async function saveTransactions(transactions: Transaction[]): Promise<void> {
 	try {
-		await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+		await AsyncStorage.setItem(LOCAL_TRANSACTIONS_KEY, JSON.stringify(transactions));
 	} catch (err) {
 		console.warn('[LocalTransactionStorage] save failed:', err);
 		throw err;
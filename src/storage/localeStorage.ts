@@ -0,0 +1,54 @@
+/**
+ * On-device number and date format settings. Nothing is synced: the format is
+ * a property of the phone, like the theme.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+	DEFAULT_LOCALE_SETTINGS,
+	localePreset,
+	type LocaleSettings,
+} from '../lib/locale';
+
+export const LOCALE_KEY = 'brie_locale';
+
+function deviceLocale(): string | undefined {
+	try {
+		return Intl.DateTimeFormat().resolvedOptions().locale;
+	} catch {
+		return undefined;
+	}
+}
+
+function pick<T>(value: unknown, allowed: readonly T[], fallback: T): T {
+	return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+/** The stored settings, or the preset for the device's region when nothing has been saved yet. */
+export async function loadLocaleSettings(): Promise<LocaleSettings> {
+	const device = localePreset(deviceLocale());
+	try {
+		const json = await AsyncStorage.getItem(LOCALE_KEY);
+		if (!json) return device;
+		const parsed = JSON.parse(json);
+		return {
+			locale: typeof parsed?.locale === 'string' && parsed.locale ? parsed.locale : device.locale,
+			decimalSeparator: pick(parsed?.decimalSeparator, ['.', ','], device.decimalSeparator),
+			groupSeparator: pick(parsed?.groupSeparator, [',', '.', ' ', "'", ''], device.groupSeparator),
+			symbolPosition: pick(parsed?.symbolPosition, ['before', 'after'], device.symbolPosition),
+			dateOrder: pick(parsed?.dateOrder, ['ymd', 'mdy', 'dmy'], device.dateOrder),
+			weekStartsOn: pick(parsed?.weekStartsOn, [0, 1], device.weekStartsOn),
+		};
+	} catch (err) {
+		console.warn('[LocaleStorage] load failed:', err);
+		return DEFAULT_LOCALE_SETTINGS;
+	}
+}
+
+export async function saveLocaleSettings(settings: LocaleSettings): Promise<void> {
+	try {
+		await AsyncStorage.setItem(LOCALE_KEY, JSON.stringify(settings));
+	} catch (err) {
+		console.warn('[LocaleStorage] save failed:', err);
+		throw err;
+	}
+}
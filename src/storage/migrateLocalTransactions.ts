@@ -1,16 +1,56 @@
 /**
  * Migrate local-only transactions to the backend when user signs in.
- * Runs once after first sign-in; clears local data only on full success.
+ * Resumable and idempotent: every uploaded row is recorded before moving on,
+ * rows already on the server (same date, amount and description) are skipped,
+ * and only rows that made it to the account are removed from the device.
  */
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ApiService } from '../services';
-import {
-	loadTransactions,
-	saveTransactions,
-} from './localTransactionStorage';
+import { getTransactionStore } from './transactionStore';
+import { isRetryableWriteError } from './transactionOutbox';
+import { transactionFingerprint } from './transactionQuery';
 import type { Transaction } from '../context/transactionContext';
 
 const MIGRATED_KEY = 'brie_local_migrated';
+const PROGRESS_KEY_PREFIX = 'brie_local_migration_progress';
+
+export type LocalMigrationRowStatus =
+	/** POSTed during this run */
+	| 'uploaded'
+	/** Uploaded by an earlier, interrupted run */
+	| 'resumed'
+	/** A matching row already exists in the account */
+	| 'duplicate'
+	/** The server rejected the row; it stays on the device */
+	| 'failed'
+	/** Not uploaded because the connection or sign-in dropped; retried next time */
+	| 'pending';
+
+export type LocalMigrationRowResult = {
+	localId: string;
+	description?: string;
+	amount: number;
+	date: string;
+	status: LocalMigrationRowStatus;
+	serverId?: string;
+	error?: string;
+};
+
+export type LocalMigrationResult = {
+	/** True when every local row is now in the account. */
+	success: boolean;
+	/** Rows newly saved to the account (uploaded or resumed). */
+	migratedCount: number;
+	results: LocalMigrationRowResult[];
+	error?: string;
+};
+
+/** Local id → server id for rows whose POST already went through. */
+type MigrationProgress = Record<string, string>;
+
+function progressKey(ownerId: string): string {
+	return `${PROGRESS_KEY_PREFIX}:${ownerId}`;
+}
 
 /**
  * Clear the migration flag so that the next sign-in will run migration again
@@ -25,10 +65,33 @@ export async function clearLocalMigrationFlag(): Promise<void> {
 	}
 }
 
+async function loadProgress(ownerId: string): Promise<MigrationProgress> {
+	try {
+		const json = await AsyncStorage.getItem(progressKey(ownerId));
+		const parsed = json ? JSON.parse(json) : null;
+		return parsed && typeof parsed === 'object' ? parsed : {};
+	} catch (err) {
+		console.warn('[MigrateLocalTransactions] progress load failed:', err);
+		return {};
+	}
+}
+
+async function saveProgress(
+	ownerId: string,
+	progress: MigrationProgress
+): Promise<void> {
+	if (Object.keys(progress).length === 0) {
+		await AsyncStorage.removeItem(progressKey(ownerId));
+		return;
+	}
+	await AsyncStorage.setItem(progressKey(ownerId), JSON.stringify(progress));
+}
+
 function toPayload(tx: Transaction): Omit<Transaction, 'id'> {
 	return {
 		description: tx.description,
 		amount: tx.amount,
+		currency: tx.currency,
 		date: tx.date,
 		type: tx.type,
 		target: tx.target,
@@ -38,14 +101,36 @@ function toPayload(tx: Transaction): Omit<Transaction, 'id'> {
 		source: tx.source ?? 'manual',
 		vendor: tx.vendor,
 		metadata: tx.metadata,
+		splits: tx.splits,
 	};
 }
 
+/** How many server rows share each fingerprint, so duplicates match one-to-one. */
+async function loadServerFingerprints(): Promise<Map<string, number>> {
+	const response = await ApiService.get<any>('/api/transactions');
+	if (!response.success) {
+		throw new Error(response.error || 'Failed to load account transactions');
+	}
+	const rows: any[] = Array.isArray(response.data)
+		? response.data
+		: Array.isArray(response.data?.data)
+			? response.data.data
+			: [];
+
+	const counts = new Map<string, number>();
+	for (const row of rows) {
+		const key = transactionFingerprint(row);
+		counts.set(key, (counts.get(key) ?? 0) + 1);
+	}
+	return counts;
+}
+
 export async function hasLocalTransactionsToMigrate(): Promise<boolean> {
 	try {
 		const migrated = await AsyncStorage.getItem(MIGRATED_KEY);
 		if (migrated === 'true') return false;
-		const list = await loadTransactions();
+		const store = await getTransactionStore();
+		const list = await store.getAll();
 		return list.length > 0;
 	} catch {
 		return false;
@@ -53,49 +138,135 @@ export async function hasLocalTransactionsToMigrate(): Promise<boolean> {
 }
 
 /**
- * Load local transactions, POST each to the API, then clear local storage
- * and set migrated flag. Only clears local data if every POST succeeds.
+ * Upload local transactions to the signed-in account, one row at a time.
+ * Safe to call again after any interruption: rows recorded in progress are not
+ * re-sent, and rows matching an existing server transaction are skipped.
+ * Rows that are now in the account are removed from the device; the migrated
+ * flag is only set once nothing is left.
  */
-export async function migrateLocalTransactionsToBackend(): Promise<{
-	success: boolean;
-	migratedCount: number;
-	error?: string;
-}> {
+export async function migrateLocalTransactionsToBackend(
+	ownerId: string
+): Promise<LocalMigrationResult> {
 	try {
 		const alreadyMigrated = await AsyncStorage.getItem(MIGRATED_KEY);
 		if (alreadyMigrated === 'true') {
-			return { success: true, migratedCount: 0 };
+			return { success: true, migratedCount: 0, results: [] };
 		}
 
-		const local = await loadTransactions();
+		const store = await getTransactionStore();
+		// Oldest first so the account receives rows in the order they were made
+		const local = (await store.getAll()).reverse();
 		if (local.length === 0) {
+			await saveProgress(ownerId, {});
 			await AsyncStorage.setItem(MIGRATED_KEY, 'true');
-			return { success: true, migratedCount: 0 };
+			return { success: true, migratedCount: 0, results: [] };
+		}
+
+		const progress = await loadProgress(ownerId);
+		const serverCounts = await loadServerFingerprints();
+
+		// Rows an earlier run uploaded are already on the server; don't let them
+		// consume a match meant for another local row.
+		for (const tx of local) {
+			if (!progress[tx.id]) continue;
+			const key = transactionFingerprint(tx);
+			const count = serverCounts.get(key) ?? 0;
+			if (count > 0) serverCounts.set(key, count - 1);
 		}
 
-		let migratedCount = 0;
+		const results: LocalMigrationRowResult[] = [];
+		let connectionLost = false;
+
 		for (const tx of local) {
-			const payload = toPayload(tx);
-			const response = await ApiService.post<any>(
-				'/api/transactions',
-				payload
-			);
-			if (!response.success) {
-				throw new Error(
-					response.error || `Failed to upload transaction: ${tx.id}`
+			const row = {
+				localId: tx.id,
+				description: tx.description,
+				amount: tx.amount,
+				date: tx.date,
+			};
+
+			if (progress[tx.id]) {
+				results.push({ ...row, status: 'resumed', serverId: progress[tx.id] });
+				continue;
+			}
+
+			const key = transactionFingerprint(tx);
+			const matches = serverCounts.get(key) ?? 0;
+			if (matches > 0) {
+				serverCounts.set(key, matches - 1);
+				results.push({ ...row, status: 'duplicate' });
+				continue;
+			}
+
+			if (connectionLost) {
+				results.push({ ...row, status: 'pending' });
+				continue;
+			}
+
+			try {
+				const response = await ApiService.post<any>(
+					'/api/transactions',
+					toPayload(tx)
 				);
+				const serverId = response.data?._id ?? response.data?.id;
+				if (!response.success) {
+					// Judged like a thrown error: only a real rejection fails the row
+					throw Object.assign(new Error(response.error || 'Rejected by server'), {
+						status: response.status,
+					});
+				}
+				// Record before moving on so a crash here can't cause a re-upload
+				progress[tx.id] = serverId ?? 'unknown';
+				await saveProgress(ownerId, progress);
+				results.push({ ...row, status: 'uploaded', serverId });
+			} catch (err: any) {
+				if (isRetryableWriteError(err)) {
+					connectionLost = true;
+					results.push({ ...row, status: 'pending' });
+				} else {
+					results.push({
+						...row,
+						status: 'failed',
+						error: err?.message || String(err),
+					});
+				}
 			}
-			migratedCount += 1;
 		}
 
-		await saveTransactions([]);
-		await AsyncStorage.setItem(MIGRATED_KEY, 'true');
-		return { success: true, migratedCount };
+		const settled = new Set(
+			results
+				.filter((r) => r.status !== 'failed' && r.status !== 'pending')
+				.map((r) => r.localId)
+		);
+		for (const id of settled) await store.remove(id);
+		const remaining = local.filter((tx) => !settled.has(tx.id));
+
+		for (const id of settled) delete progress[id];
+		await saveProgress(ownerId, progress);
+
+		const migratedCount = results.filter(
+			(r) => r.status === 'uploaded' || r.status === 'resumed'
+		).length;
+
+		if (remaining.length === 0) {
+			await AsyncStorage.setItem(MIGRATED_KEY, 'true');
+			return { success: true, migratedCount, results };
+		}
+
+		return {
+			success: false,
+			migratedCount,
+			results,
+			error: connectionLost
+				? 'Connection lost during migration'
+				: `${remaining.length} transaction(s) could not be uploaded`,
+		};
 	} catch (err: any) {
 		const message = err?.message || String(err);
 		return {
 			success: false,
 			migratedCount: 0,
+			results: [],
 			error: message,
 		};
 	}
@@ -0,0 +1,77 @@
+/**
+ * Notifications raised on the device (budget alerts), kept for the in-app
+ * notification list, and the quiet hours they respect. Server notifications
+ * are fetched, not stored here. Quiet hours are a property of the phone and
+ * apply in both modes.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { NotificationData } from '../services';
+import { DEFAULT_QUIET_HOURS, parseQuietTime, type QuietHours } from '../lib/quiet-hours';
+
+export const LOCAL_NOTIFICATIONS_KEY = 'brie_notifications';
+export const QUIET_HOURS_KEY = 'brie_quiet_hours';
+
+/** Oldest entries are dropped beyond this. */
+export const MAX_LOCAL_NOTIFICATIONS = 100;
+
+function isNotification(value: unknown): value is NotificationData {
+	if (!value || typeof value !== 'object') return false;
+	const n = value as Record<string, unknown>;
+	return (
+		typeof n.id === 'string' &&
+		typeof n.title === 'string' &&
+		typeof n.message === 'string' &&
+		typeof n.createdAt === 'string'
+	);
+}
+
+/** Newest first, or none when nothing has been saved yet. */
+export async function loadLocalNotifications(): Promise<NotificationData[]> {
+	try {
+		const json = await AsyncStorage.getItem(LOCAL_NOTIFICATIONS_KEY);
+		if (!json) return [];
+		const parsed = JSON.parse(json);
+		return Array.isArray(parsed) ? parsed.filter(isNotification) : [];
+	} catch (err) {
+		console.warn('[NotificationStorage] load failed:', err);
+		return [];
+	}
+}
+
+export async function saveLocalNotifications(notifications: NotificationData[]): Promise<void> {
+	try {
+		await AsyncStorage.setItem(
+			LOCAL_NOTIFICATIONS_KEY,
+			JSON.stringify(notifications.slice(0, MAX_LOCAL_NOTIFICATIONS))
+		);
+	} catch (err) {
+		console.warn('[NotificationStorage] save failed:', err);
+		throw err;
+	}
+}
+
+/** The saved quiet hours, or the (off) defaults. */
+export async function loadQuietHours(): Promise<QuietHours> {
+	try {
+		const json = await AsyncStorage.getItem(QUIET_HOURS_KEY);
+		if (!json) return DEFAULT_QUIET_HOURS;
+		const parsed = JSON.parse(json);
+		return {
+			enabled: parsed?.enabled === true,
+			start: parseQuietTime(String(parsed?.start)) ?? DEFAULT_QUIET_HOURS.start,
+			end: parseQuietTime(String(parsed?.end)) ?? DEFAULT_QUIET_HOURS.end,
+		};
+	} catch (err) {
+		console.warn('[NotificationStorage] quiet hours load failed:', err);
+		return DEFAULT_QUIET_HOURS;
+	}
+}
+
+export async function saveQuietHours(quietHours: QuietHours): Promise<void> {
+	try {
+		await AsyncStorage.setItem(QUIET_HOURS_KEY, JSON.stringify(quietHours));
+	} catch (err) {
+		console.warn('[NotificationStorage] quiet hours save failed:', err);
+		throw err;
+	}
+}
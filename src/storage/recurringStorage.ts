@@ -0,0 +1,72 @@
+/**
+ * On-device bill templates and their paid/skipped occurrences (local mode),
+ * and the detected patterns the user said are not bills. Signed-in users'
+ * bills live on the server.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { RecurringTemplate } from '../lib/recurring-bills';
+
+export const RECURRING_KEY = 'brie_recurring';
+export const DISMISSED_PATTERNS_KEY = 'brie_recurring_dismissed';
+
+function isTemplate(value: unknown): value is RecurringTemplate {
+	if (!value || typeof value !== 'object') return false;
+	const t = value as Record<string, unknown>;
+	return (
+		typeof t.id === 'string' &&
+		typeof t.vendor === 'string' &&
+		typeof t.amount === 'number' &&
+		typeof t.startDate === 'string' &&
+		!!t.rule &&
+		typeof t.rule === 'object'
+	);
+}
+
+/** The stored templates, or none when nothing has been saved yet. */
+export async function loadRecurringTemplates(): Promise<RecurringTemplate[]> {
+	try {
+		const json = await AsyncStorage.getItem(RECURRING_KEY);
+		if (!json) return [];
+		const parsed = JSON.parse(json);
+		return Array.isArray(parsed)
+			? parsed.filter(isTemplate).map((t) => ({
+					...t,
+					autoPay: !!t.autoPay,
+					instances: t.instances && typeof t.instances === 'object' ? t.instances : {},
+				}))
+			: [];
+	} catch (err) {
+		console.warn('[RecurringStorage] load failed:', err);
+		return [];
+	}
+}
+
+export async function saveRecurringTemplates(templates: RecurringTemplate[]): Promise<void> {
+	try {
+		await AsyncStorage.setItem(RECURRING_KEY, JSON.stringify(templates));
+	} catch (err) {
+		console.warn('[RecurringStorage] save failed:', err);
+		throw err;
+	}
+}
+
+/** `DetectedPattern.patternId`s hidden from suggestions. */
+export async function loadDismissedPatterns(): Promise<string[]> {
+	try {
+		const json = await AsyncStorage.getItem(DISMISSED_PATTERNS_KEY);
+		const parsed = json ? JSON.parse(json) : [];
+		return Array.isArray(parsed) ? parsed.filter((id) => typeof id === 'string') : [];
+	} catch (err) {
+		console.warn('[RecurringStorage] load dismissed failed:', err);
+		return [];
+	}
+}
+
+export async function saveDismissedPatterns(ids: string[]): Promise<void> {
+	try {
+		await AsyncStorage.setItem(DISMISSED_PATTERNS_KEY, JSON.stringify(ids));
+	} catch (err) {
+		console.warn('[RecurringStorage] save dismissed failed:', err);
+		throw err;
+	}
+}
@@ -0,0 +1,157 @@
+/**
+ * SQLite TransactionStore. Each transaction is one row: the full object as
+ * JSON in `data`, plus indexed columns (`date`, `category`) and a lowercased
+ * `search_text` so queries don't have to load the whole list.
+ *
+ * Schema changes are tracked with `PRAGMA user_version`. Version 1 creates the
+ * table and moves any existing `brie_transactions` AsyncStorage data across.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SQLite from 'expo-sqlite';
+import type { Transaction } from '../context/transactionContext';
+import {
+	LOCAL_TRANSACTIONS_KEY,
+	loadTransactions,
+} from './localTransactionStorage';
+import { transactionSearchText, type TransactionQuery } from './transactionQuery';
+import type { TransactionStore } from './transactionStore';
+
+const DATABASE_NAME = 'brie.db';
+const SCHEMA_VERSION = 1;
+
+type TransactionRow = { data: string };
+
+const UPSERT_SQL = `INSERT OR REPLACE INTO transactions
+	(id, date, updated_at, type, amount, category, search_text, data)
+	VALUES (?, ?, ?, ?, ?, ?, ?, ?)`;
+
+function rowParams(tx: Transaction): (string | number | null)[] {
+	return [
+		tx.id,
+		tx.date.slice(0, 10),
+		tx.updatedAt ?? null,
+		tx.type,
+		tx.amount,
+		tx.metadata?.category ?? null,
+		transactionSearchText(tx),
+		JSON.stringify(tx),
+	];
+}
+
+function escapeLike(text: string): string {
+	return text.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+async function insertAll(
+	db: SQLite.SQLiteDatabase,
+	transactions: Transaction[]
+): Promise<void> {
+	for (const tx of transactions) {
+		await db.runAsync(UPSERT_SQL, rowParams(tx));
+	}
+}
+
+async function upgradeSchema(db: SQLite.SQLiteDatabase): Promise<void> {
+	const row = await db.getFirstAsync<{ user_version: number }>(
+		'PRAGMA user_version'
+	);
+	const version = row?.user_version ?? 0;
+	if (version >= SCHEMA_VERSION) return;
+
+	if (version < 1) {
+		const legacy = await loadTransactions();
+		await db.withTransactionAsync(async () => {
+			await db.execAsync(`
+				CREATE TABLE IF NOT EXISTS transactions (
+					id TEXT PRIMARY KEY NOT NULL,
+					date TEXT NOT NULL,
+					updated_at TEXT,
+					type TEXT NOT NULL,
+					amount REAL NOT NULL,
+					category TEXT,
+					search_text TEXT NOT NULL,
+					data TEXT NOT NULL
+				);
+				CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions (date);
+				CREATE INDEX IF NOT EXISTS idx_transactions_category
+					ON transactions (category COLLATE NOCASE);
+			`);
+			await insertAll(db, legacy);
+			// Inside the transaction so a crash can't import the list twice
+			await db.execAsync('PRAGMA user_version = 1');
+		});
+		if (legacy.length > 0) {
+			await AsyncStorage.removeItem(LOCAL_TRANSACTIONS_KEY).catch((err) =>
+				console.warn('[SqliteTransactionStore] legacy cleanup failed:', err)
+			);
+		}
+	}
+}
+
+function whereClause(query: TransactionQuery): {
+	sql: string;
+	params: (string | number)[];
+} {
+	const clauses: string[] = [];
+	const params: (string | number)[] = [];
+	if (query.from) {
+		clauses.push('date >= ?');
+		params.push(query.from);
+	}
+	if (query.to) {
+		clauses.push('date <= ?');
+		params.push(query.to);
+	}
+	if (query.category) {
+		clauses.push('category = ? COLLATE NOCASE');
+		params.push(query.category);
+	}
+	const text = query.text?.trim().toLowerCase();
+	if (text) {
+		clauses.push("search_text LIKE ? ESCAPE '\\'");
+		params.push(`%${escapeLike(text)}%`);
+	}
+	if (query.types) {
+		if (query.types.length === 0) return { sql: 'WHERE 0', params: [] };
+		clauses.push(`type IN (${query.types.map(() => '?').join(', ')})`);
+		params.push(...query.types);
+	}
+	return {
+		sql: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '',
+		params,
+	};
+}
+
+export async function openSqliteTransactionStore(): Promise<TransactionStore> {
+	const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+	await upgradeSchema(db);
+
+	const select = async (query: TransactionQuery): Promise<Transaction[]> => {
+		const { sql, params } = whereClause(query);
+		const limit = query.limit != null ? ` LIMIT ${Math.max(0, Math.floor(query.limit))}` : '';
+		const rows = await db.getAllAsync<TransactionRow>(
+			`SELECT data FROM transactions ${sql}
+				ORDER BY date DESC, updated_at DESC${limit}`,
+			params
+		);
+		return rows.map((row) => JSON.parse(row.data) as Transaction);
+	};
+
+	return {
+		kind: 'sqlite',
+		getAll: () => select({}),
+		query: select,
+		async put(transaction) {
+			await db.runAsync(UPSERT_SQL, rowParams(transaction));
+		},
+		async remove(id) {
+			await db.runAsync('DELETE FROM transactions WHERE id = ?', [id]);
+		},
+		async replaceAll(transactions) {
+			await db.withTransactionAsync(async () => {
+				await db.runAsync('DELETE FROM transactions');
+				await insertAll(db, transactions);
+			});
+		},
+	};
+}
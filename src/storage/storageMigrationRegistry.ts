@@ -0,0 +1,32 @@
+/**
+ * Every schema change to an on-device key gets a step here, with the next
+ * version number for that key. Never edit or reorder a shipped step — add a
+ * new one; devices may be on any earlier version.
+ */
+import { LOCAL_TRANSACTIONS_KEY, generateLocalId } from './localTransactionStorage';
+import type { StorageMigration } from './storageMigrations';
+
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+	{
+		key: LOCAL_TRANSACTIONS_KEY,
+		version: 1,
+		description: 'Normalize legacy local transactions (ids, numeric amounts, type, source)',
+		migrate: (value) => {
+			const rows = Array.isArray(value) ? value : [];
+			return rows
+				.filter((raw) => raw && typeof raw === 'object')
+				.map((raw: any) => {
+					const parsed = Number(raw.amount);
+					const amount = Number.isFinite(parsed) ? parsed : 0;
+					return {
+						...raw,
+						id: raw.id || generateLocalId(),
+						amount,
+						date: raw.date ?? new Date().toISOString().split('T')[0],
+						type: raw.type ?? (amount < 0 ? 'expense' : 'income'),
+						source: raw.source ?? 'manual',
+					};
+				});
+		},
+	},
+];
@@ -0,0 +1,194 @@
+/**
+ * Versioned migrations for JSON values the app keeps in AsyncStorage.
+ * Each migrated key carries a schema version (stored together in
+ * `brie_storage_versions`); steps for a key run in version order, the previous
+ * value is snapshotted before anything is written, and a failing step leaves
+ * the stored value untouched.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const VERSIONS_KEY = 'brie_storage_versions';
+const SNAPSHOT_KEY_PREFIX = 'brie_storage_snapshot';
+
+export type StorageMigration = {
+	/** AsyncStorage key the step applies to. */
+	key: string;
+	/** Schema version the value has after this step; versions start at 1. */
+	version: number;
+	description: string;
+	/** Receives the parsed value at `version - 1` and returns the new one. Must not touch storage. */
+	migrate: (value: unknown) => unknown;
+};
+
+export type StorageMigrationStatus =
+	| 'up-to-date'
+	/** Key had no data yet; stamped with the latest version. */
+	| 'initialized'
+	| 'migrated'
+	/** Dry run: steps ran in memory but nothing was written. */
+	| 'dry-run'
+	| 'failed';
+
+export type StorageMigrationReport = {
+	key: string;
+	fromVersion: number;
+	toVersion: number;
+	/** Descriptions of the steps that ran (or would run). */
+	applied: string[];
+	status: StorageMigrationStatus;
+	error?: string;
+};
+
+export type StorageMigrationOptions = {
+	dryRun?: boolean;
+};
+
+type StorageSnapshot = {
+	version: number;
+	raw: string;
+	takenAt: string;
+};
+
+function snapshotKey(key: string): string {
+	return `${SNAPSHOT_KEY_PREFIX}:${key}`;
+}
+
+async function loadVersions(): Promise<Record<string, number>> {
+	const json = await AsyncStorage.getItem(VERSIONS_KEY);
+	if (!json) return {};
+	const parsed = JSON.parse(json);
+	return parsed && typeof parsed === 'object' ? parsed : {};
+}
+
+/** Schema version currently recorded for a key; 0 means never migrated. */
+export async function getStorageVersion(key: string): Promise<number> {
+	const versions = await loadVersions();
+	return versions[key] ?? 0;
+}
+
+/**
+ * Group steps by key and check that each key's versions run 1, 2, 3… with no
+ * gaps or repeats. Throws on a malformed registry so mistakes fail in dev.
+ */
+export function groupStorageMigrations(
+	registry: StorageMigration[]
+): Map<string, StorageMigration[]> {
+	const byKey = new Map<string, StorageMigration[]>();
+	for (const step of registry) {
+		byKey.set(step.key, [...(byKey.get(step.key) ?? []), step]);
+	}
+	for (const [key, steps] of byKey) {
+		steps.sort((a, b) => a.version - b.version);
+		steps.forEach((step, i) => {
+			if (step.version !== i + 1) {
+				throw new Error(
+					`Storage migrations for "${key}" must be numbered 1..${steps.length}; found version ${step.version} at position ${i + 1}`
+				);
+			}
+		});
+	}
+	return byKey;
+}
+
+async function migrateKey(
+	key: string,
+	steps: StorageMigration[],
+	fromVersion: number,
+	dryRun: boolean
+): Promise<StorageMigrationReport> {
+	const latest = steps[steps.length - 1].version;
+	const pending = steps.filter((s) => s.version > fromVersion);
+	const report: StorageMigrationReport = {
+		key,
+		fromVersion,
+		toVersion: fromVersion,
+		applied: [],
+		status: 'up-to-date',
+	};
+	if (pending.length === 0) return report;
+
+	const raw = await AsyncStorage.getItem(key);
+	if (raw == null) {
+		// Nothing stored yet: whatever gets written next is already current
+		if (!dryRun) {
+			const versions = await loadVersions();
+			await AsyncStorage.setItem(
+				VERSIONS_KEY,
+				JSON.stringify({ ...versions, [key]: latest })
+			);
+		}
+		return { ...report, toVersion: latest, status: dryRun ? 'dry-run' : 'initialized' };
+	}
+
+	let value: unknown = JSON.parse(raw);
+	for (const step of pending) {
+		value = step.migrate(value);
+		report.applied.push(step.description);
+	}
+	if (dryRun) return { ...report, toVersion: latest, status: 'dry-run' };
+
+	const snapshot: StorageSnapshot = {
+		version: fromVersion,
+		raw,
+		takenAt: new Date().toISOString(),
+	};
+	await AsyncStorage.setItem(snapshotKey(key), JSON.stringify(snapshot));
+
+	const versions = await loadVersions();
+	await AsyncStorage.multiSet([
+		[key, JSON.stringify(value)],
+		[VERSIONS_KEY, JSON.stringify({ ...versions, [key]: latest })],
+	]);
+	return { ...report, toVersion: latest, status: 'migrated' };
+}
+
+/**
+ * Bring every registered key up to its latest schema version. Keys are
+ * independent: one failing key is reported and the others still migrate.
+ */
+export async function runStorageMigrations(
+	registry: StorageMigration[],
+	options: StorageMigrationOptions = {}
+): Promise<StorageMigrationReport[]> {
+	const reports: StorageMigrationReport[] = [];
+	for (const [key, steps] of groupStorageMigrations(registry)) {
+		let fromVersion = 0;
+		try {
+			fromVersion = await getStorageVersion(key);
+			reports.push(await migrateKey(key, steps, fromVersion, !!options.dryRun));
+		} catch (err: any) {
+			console.warn(`[StorageMigrations] ${key} failed:`, err);
+			reports.push({
+				key,
+				fromVersion,
+				toVersion: fromVersion,
+				applied: [],
+				status: 'failed',
+				error: err?.message || String(err),
+			});
+		}
+	}
+	return reports;
+}
+
+/**
+ * Restore a key to the value and version it had before its last migration.
+ * Returns false when there is no snapshot to restore.
+ */
+export async function rollbackStorageMigration(key: string): Promise<boolean> {
+	const json = await AsyncStorage.getItem(snapshotKey(key));
+	if (!json) return false;
+	const snapshot: StorageSnapshot = JSON.parse(json);
+
+	const versions = await loadVersions();
+	const nextVersions = { ...versions };
+	if (snapshot.version > 0) nextVersions[key] = snapshot.version;
+	else delete nextVersions[key];
+
+	await AsyncStorage.multiSet([
+		[key, snapshot.raw],
+		[VERSIONS_KEY, JSON.stringify(nextVersions)],
+	]);
+	await AsyncStorage.removeItem(snapshotKey(key));
+	return true;
+}
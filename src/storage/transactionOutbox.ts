@@ -0,0 +1,237 @@
+/**
+ * Offline write queue for the signed-in TransactionProvider.
+ * Creates, updates and deletes made without a connection are persisted here
+ * (one queue per account) and replayed in order once the device is back online.
+ * Transactions created offline carry a `local-…` id until the server assigns one.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Transaction } from '../context/transactionContext';
+import { ApiError, ApiErrorType } from '../services/core/apiErrors';
+
+const STORAGE_KEY_PREFIX = 'brie_transaction_outbox';
+
+type TransactionPayload = Omit<Transaction, 'id'>;
+
+export type OutboxOperation =
+	| {
+			opId: string;
+			kind: 'create';
+			transactionId: string;
+			payload: TransactionPayload;
+			queuedAt: string;
+	  }
+	| {
+			opId: string;
+			kind: 'update';
+			transactionId: string;
+			payload: Partial<TransactionPayload>;
+			queuedAt: string;
+	  }
+	| {
+			opId: string;
+			kind: 'delete';
+			transactionId: string;
+			queuedAt: string;
+	  };
+
+export type OutboxSender = {
+	/** Resolves with the server id of the created transaction. */
+	create: (payload: TransactionPayload) => Promise<string>;
+	update: (id: string, payload: Partial<TransactionPayload>) => Promise<void>;
+	delete: (id: string) => Promise<void>;
+};
+
+export type OutboxReplayResult = {
+	/** Operations still waiting, with ids already remapped. */
+	remaining: OutboxOperation[];
+	/** `local-…` id → server id for every create that went through. */
+	idMap: Record<string, string>;
+	/** Operations the server rejected outright; they are not retried. */
+	dropped: OutboxOperation[];
+};
+
+function storageKey(ownerId: string): string {
+	return `${STORAGE_KEY_PREFIX}:${ownerId}`;
+}
+
+export function isLocalTransactionId(id: string): boolean {
+	return id.startsWith('local-');
+}
+
+export function generateOutboxOpId(): string {
+	return `op-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/** Statuses saying the write itself is invalid; sending it again can't help. */
+const REJECTED_STATUSES = [400, 404, 409, 422];
+
+/**
+ * True unless the server definitely rejected the write (400, 404, 409, 422).
+ * Failures without an HTTP status - network errors, and ApiService calls that
+ * swallow them - and 401/403 from a token that expired while offline are
+ * worth queueing rather than losing the edit.
+ */
+export function isRetryableWriteError(error: unknown): boolean {
+	if (
+		error instanceof ApiError &&
+		(error.type === ApiErrorType.NETWORK_ERROR ||
+			error.type === ApiErrorType.OFFLINE_ERROR ||
+			error.type === ApiErrorType.TIMEOUT_ERROR ||
+			error.type === ApiErrorType.RATE_LIMIT_ERROR)
+	) {
+		return true;
+	}
+	const status = (error as { status?: unknown } | null)?.status;
+	return typeof status !== 'number' || !REJECTED_STATUSES.includes(status);
+}
+
+export async function loadOutbox(ownerId: string): Promise<OutboxOperation[]> {
+	try {
+		const json = await AsyncStorage.getItem(storageKey(ownerId));
+		if (!json) return [];
+		const parsed = JSON.parse(json);
+		return Array.isArray(parsed) ? parsed : [];
+	} catch (err) {
+		console.warn('[TransactionOutbox] load failed:', err);
+		return [];
+	}
+}
+
+export async function saveOutbox(
+	ownerId: string,
+	ops: OutboxOperation[]
+): Promise<void> {
+	try {
+		if (ops.length === 0) {
+			await AsyncStorage.removeItem(storageKey(ownerId));
+			return;
+		}
+		await AsyncStorage.setItem(storageKey(ownerId), JSON.stringify(ops));
+	} catch (err) {
+		console.warn('[TransactionOutbox] save failed:', err);
+		throw err;
+	}
+}
+
+/**
+ * Append an operation, folding it into what is already queued so replay sends
+ * as little as possible: edits to an unsent create are merged into it, a
+ * delete of an unsent create cancels both, and repeated edits collapse.
+ */
+export function enqueueOutboxOperation(
+	ops: OutboxOperation[],
+	op: OutboxOperation
+): OutboxOperation[] {
+	const pendingCreate = ops.find(
+		(o) => o.kind === 'create' && o.transactionId === op.transactionId
+	);
+
+	if (op.kind === 'update') {
+		if (pendingCreate && pendingCreate.kind === 'create') {
+			return ops.map((o) =>
+				o === pendingCreate
+					? { ...pendingCreate, payload: { ...pendingCreate.payload, ...op.payload } }
+					: o
+			);
+		}
+		const pendingUpdate = ops.find(
+			(o) => o.kind === 'update' && o.transactionId === op.transactionId
+		);
+		if (pendingUpdate && pendingUpdate.kind === 'update') {
+			return ops.map((o) =>
+				o === pendingUpdate
+					? { ...pendingUpdate, payload: { ...pendingUpdate.payload, ...op.payload } }
+					: o
+			);
+		}
+		return [...ops, op];
+	}
+
+	if (op.kind === 'delete') {
+		const others = ops.filter((o) => o.transactionId !== op.transactionId);
+		// Never reached the server: nothing to delete remotely
+		if (pendingCreate) return others;
+		return [...others, op];
+	}
+
+	return [...ops, op];
+}
+
+/** Layer queued operations over a transaction list (e.g. after a server refetch). */
+export function applyOutbox(
+	transactions: Transaction[],
+	ops: OutboxOperation[]
+): Transaction[] {
+	let next = [...transactions];
+	for (const op of ops) {
+		if (op.kind === 'create') {
+			if (next.some((t) => t.id === op.transactionId)) continue;
+			next = [
+				{ id: op.transactionId, ...op.payload, updatedAt: op.queuedAt },
+				...next,
+			];
+		} else if (op.kind === 'update') {
+			next = next.map((t) =>
+				t.id === op.transactionId
+					? { ...t, ...op.payload, updatedAt: op.queuedAt }
+					: t
+			);
+		} else {
+			next = next.filter((t) => t.id !== op.transactionId);
+		}
+	}
+	return next;
+}
+
+function remapOperation(
+	op: OutboxOperation,
+	idMap: Record<string, string>
+): OutboxOperation {
+	const mapped = idMap[op.transactionId];
+	return mapped ? { ...op, transactionId: mapped } : op;
+}
+
+/** Point queued operations at server ids once their creates have landed. */
+export function remapOutboxIds(
+	ops: OutboxOperation[],
+	idMap: Record<string, string>
+): OutboxOperation[] {
+	return ops.map((op) => remapOperation(op, idMap));
+}
+
+/**
+ * Send queued operations in order. Stops at the first connectivity failure and
+ * returns what is left; server rejections are dropped so one bad row cannot
+ * block the queue forever.
+ */
+export async function replayOutbox(
+	ops: OutboxOperation[],
+	send: OutboxSender
+): Promise<OutboxReplayResult> {
+	const idMap: Record<string, string> = {};
+	const dropped: OutboxOperation[] = [];
+	let index = 0;
+
+	for (; index < ops.length; index++) {
+		const op = remapOperation(ops[index], idMap);
+		try {
+			if (op.kind === 'create') {
+				idMap[op.transactionId] = await send.create(op.payload);
+			} else if (op.kind === 'update') {
+				await send.update(op.transactionId, op.payload);
+			} else {
+				await send.delete(op.transactionId);
+			}
+		} catch (error) {
+			if (isRetryableWriteError(error)) break;
+			console.warn('[TransactionOutbox] dropping rejected operation:', error);
+			dropped.push(op);
+		}
+	}
+
+	return {
+		remaining: remapOutboxIds(ops.slice(index), idMap),
+		idMap,
+		dropped,
+	};
+}
@@ -0,0 +1,86 @@
+/**
+ * Transaction query shape shared by every TransactionStore and by in-memory
+ * filtering of lists that are already loaded (signed-in mode).
+ */
+import type { Transaction } from '../context/transactionContext';
+
+export type TransactionQuery = {
+	/** Inclusive `YYYY-MM-DD` lower bound. */
+	from?: string;
+	/** Inclusive `YYYY-MM-DD` upper bound. */
+	to?: string;
+	/** Exact `metadata.category`, case-insensitive. */
+	category?: string;
+	/** Case-insensitive substring of description, vendor, notes, category or split lines. */
+	text?: string;
+	types?: Transaction['type'][];
+	limit?: number;
+};
+
+/** Newest date first, then most recently updated. */
+export function compareTransactionsNewestFirst(
+	a: Transaction,
+	b: Transaction
+): number {
+	const byDate = new Date(b.date).getTime() - new Date(a.date).getTime();
+	if (byDate !== 0) return byDate;
+	const updatedA = a.updatedAt ? new Date(a.updatedAt).getTime() : 0;
+	const updatedB = b.updatedAt ? new Date(b.updatedAt).getTime() : 0;
+	return updatedB - updatedA;
+}
+
+/** Lowercased text the `text` filter searches; mirrored by the SQLite `search_text` column. */
+export function transactionSearchText(tx: Transaction): string {
+	return [
+		tx.description,
+		tx.vendor,
+		tx.notes,
+		tx.metadata?.category,
+		...(tx.splits ?? []).flatMap((line) => [line.category, line.note]),
+	]
+		.filter(Boolean)
+		.join(' ')
+		.toLowerCase();
+}
+
+export function matchesTransactionQuery(
+	tx: Transaction,
+	query: TransactionQuery
+): boolean {
+	const day = tx.date.slice(0, 10);
+	if (query.from && day < query.from) return false;
+	if (query.to && day > query.to) return false;
+	if (query.types && !query.types.includes(tx.type)) return false;
+	if (
+		query.category &&
+		(tx.metadata?.category ?? '').toLowerCase() !== query.category.toLowerCase()
+	) {
+		return false;
+	}
+	const text = query.text?.trim().toLowerCase();
+	if (text && !transactionSearchText(tx).includes(text)) return false;
+	return true;
+}
+
+/** In-memory equivalent of `TransactionStore.query` for lists already loaded. */
+export function filterTransactions(
+	transactions: Transaction[],
+	query: TransactionQuery
+): Transaction[] {
+	const matched = transactions
+		.filter((tx) => matchesTransactionQuery(tx, query))
+		.sort(compareTransactionsNewestFirst);
+	return query.limit != null ? matched.slice(0, query.limit) : matched;
+}
+
+/** Same day, same absolute amount (to the cent), same description ignoring case. */
+export function transactionFingerprint(tx: {
+	date?: string;
+	amount?: number | string;
+	description?: string;
+}): string {
+	const day = String(tx.date ?? '').slice(0, 10);
+	const amount = Math.abs(Number(tx.amount) || 0).toFixed(2);
+	const description = (tx.description ?? '').trim().toLowerCase();
+	return `${day}|${amount}|${description}`;
+}
@@ -0,0 +1,34 @@
+/**
+ * Storage adapter for local-mode transactions.
+ * SQLite is used when the native module is available (indexed date/category
+ * queries, row-level writes); otherwise the AsyncStorage list is the fallback.
+ * Callers always go through `getTransactionStore()`.
+ */
+import type { Transaction } from '../context/transactionContext';
+import { createAsyncStorageTransactionStore } from './asyncStorageTransactionStore';
+import { openSqliteTransactionStore } from './sqliteTransactionStore';
+import type { TransactionQuery } from './transactionQuery';
+
+export interface TransactionStore {
+	readonly kind: 'sqlite' | 'async-storage';
+	/** Every transaction, newest first. */
+	getAll(): Promise<Transaction[]>;
+	/** Matching transactions, newest first. */
+	query(query: TransactionQuery): Promise<Transaction[]>;
+	/** Insert or replace one transaction by id. */
+	put(transaction: Transaction): Promise<void>;
+	remove(id: string): Promise<void>;
+	replaceAll(transactions: Transaction[]): Promise<void>;
+}
+
+let storePromise: Promise<TransactionStore> | null = null;
+
+export function getTransactionStore(): Promise<TransactionStore> {
+	if (!storePromise) {
+		storePromise = openSqliteTransactionStore().catch((err) => {
+			console.warn('[TransactionStore] SQLite unavailable, using AsyncStorage:', err);
+			return createAsyncStorageTransactionStore();
+		});
+	}
+	return storePromise;
+}
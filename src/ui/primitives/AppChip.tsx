@@ -0,0 +1,53 @@
+import React from 'react';
+import { TouchableOpacity, StyleSheet, ViewStyle } from 'react-native';
+import { palette, radius, space } from '../theme';
+import { AppText } from './AppText';
+
+type AppChipProps = {
+	label: string;
+	selected: boolean;
+	onPress: () => void;
+	/** Custom style */
+	style?: ViewStyle;
+};
+
+/**
+ * AppChip - Compact selectable pill for option pickers (formats, columns, mappings)
+ *
+ * @example
+ * <AppChip label="CSV" selected={format === 'csv'} onPress={() => setFormat('csv')} />
+ */
+export const AppChip: React.FC<AppChipProps> = ({
+	label,
+	selected,
+	onPress,
+	style,
+}) => (
+	<TouchableOpacity
+		onPress={onPress}
+		style={[styles.chip, selected && styles.chipSelected, style]}
+		accessibilityRole="button"
+		accessibilityState={{ selected }}
+	>
+		<AppText.Caption color={selected ? 'default' : 'muted'} numberOfLines={1}>
+			{label}
+		</AppText.Caption>
+	</TouchableOpacity>
+);
+
+const styles = StyleSheet.create({
+	chip: {
+		paddingHorizontal: space.md,
+		paddingVertical: space.xs,
+		marginRight: space.xs,
+		marginBottom: space.xs,
+		borderRadius: radius.pill,
+		borderWidth: StyleSheet.hairlineWidth,
+		borderColor: palette.border,
+		maxWidth: 160,
+	},
+	chipSelected: {
+		backgroundColor: palette.primarySubtle,
+		borderColor: palette.primaryBorder,
+	},
+});
@@ -4,3 +4,4 @@ export { AppReveal } from './AppReveal';
 export { AppText } from './AppText';
 export { AppButton } from './AppButton';
 export { AppRow } from './AppRow';
+export { AppChip } from './AppChip';
@@ -2,27 +2,23 @@
  * Input sanitization utilities
  * Provides safe input cleaning and validation for user inputs
  */
+import {
+	DEFAULT_LOCALE_SETTINGS,
+	formatNumber,
+	parseAmount,
+	sanitizeAmountInput,
+	type LocaleSettings,
+} from '../lib/locale';
 
 /**
- * Sanitize amount input - removes non-numeric characters except decimal point
- * and ensures only one decimal point with max 2 decimal places
+ * Sanitize amount input - keeps digits and one decimal separator (the
+ * locale's, `.` by default) with max 2 decimal places
  */
-export function sanitizeAmount(input: string): string {
-	// Remove all non-numeric except decimal point
-	let cleaned = input.replace(/[^0-9.]/g, '');
-
-	// Ensure only one decimal point
-	const parts = cleaned.split('.');
-	if (parts.length > 2) {
-		cleaned = parts[0] + '.' + parts.slice(1).join('');
-	}
-
-	// Limit to 2 decimal places
-	if (parts.length === 2 && parts[1].length > 2) {
-		cleaned = parts[0] + '.' + parts[1].substring(0, 2);
-	}
-
-	return cleaned;
+export function sanitizeAmount(
+	input: string,
+	settings: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+): string {
+	return sanitizeAmountInput(input, settings);
 }
 
 /**
@@ -52,28 +48,21 @@ export function sanitizeDescription(input: string): string {
 }
 
 /**
- * Format amount for display - adds currency formatting
+ * Format amount for display - two decimals in the locale's format, no grouping
  */
-export function formatAmountForDisplay(value: string): string {
+export function formatAmountForDisplay(
+	value: string,
+	settings: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+): string {
 	if (!value || value.trim().length === 0) {
 		return '';
 	}
 
-	// Remove any non-numeric except decimal
-	const cleaned = value.replace(/[^0-9.]/g, '');
-
-	// If nothing numeric left after cleaning, return original
-	if (!cleaned || cleaned === '.' || cleaned.length === 0) {
-		return value;
-	}
-
-	// Parse and format
-	const num = parseFloat(cleaned);
-	if (isNaN(num)) {
-		// Return original if can't parse (e.g., "abc")
+	// Return original if can't parse (e.g., "abc")
+	const num = parseAmount(value, settings);
+	if (num == null) {
 		return value;
 	}
 
-	// Format to 2 decimal places
-	return num.toFixed(2);
+	return formatNumber(Math.abs(num), settings, { grouping: false });
 }